@@ -0,0 +1,14 @@
+import PartnerInviteResponse from "../../../components/auth/PartnerInviteResponse";
+
+export const metadata = {
+  title: "Partner Invitation | Providence Tennis Academy",
+  description: "Accept or decline an invitation to play",
+};
+
+export default function PartnerInvitePage() {
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-gray-50 to-primary-50 flex items-center justify-center py-12 px-4 sm:px-6 lg:px-8">
+      <PartnerInviteResponse />
+    </div>
+  );
+}
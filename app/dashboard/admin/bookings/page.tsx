@@ -5,17 +5,24 @@ import { format, startOfWeek, addDays } from "date-fns";
 import DashboardLayout from "../../../../components/dashboard/DashboardLayout";
 import ProtectedRoute from "../../../../lib/auth/protected-route";
 import { useAuth } from "../../../../lib/auth/auth-context";
+import { ReservationStatus } from "../../../../lib/api/booking-api";
 import {
   AdminReservation,
   AdminReservationFilters,
+  CancelScope,
   cancelAdminReservation,
+  checkInAdminReservation,
   getAdminReservations,
   getCourts,
   updateAdminReservation,
   Court,
 } from "../../../../lib/api/admin-booking-api";
 import BookingCalendarGrid from "../../../../components/admin/BookingCalendarGrid";
+import CancelBookingDialog from "../../../../components/admin/CancelBookingDialog";
+import FrontDeskCheckIn from "../../../../components/admin/FrontDeskCheckIn";
+import RecurringBookingForm from "../../../../components/admin/RecurringBookingForm";
 import AdminAIAssistant from "../../../../components/admin/AdminAIAssistant";
+import AuditHistory from "../../../../components/admin/AuditHistory";
 
  const formatDate = (dateStr: string) => {
    try {
@@ -55,8 +62,12 @@ import AdminAIAssistant from "../../../../components/admin/AdminAIAssistant";
      timeEnd: "",
      notes: "",
    });
+  const [editTab, setEditTab] = useState<"details" | "history">("details");
   const [actionLoading, setActionLoading] = useState(false);
   const [viewMode, setViewMode] = useState<"table" | "calendar">("table");
+  const [cancellingReservation, setCancellingReservation] =
+    useState<AdminReservation | null>(null);
+  const [showRecurringForm, setShowRecurringForm] = useState(false);
  
   const loadReservations = async (activeToken: string) => {
      setIsLoading(true);
@@ -101,11 +112,12 @@ import AdminAIAssistant from "../../../../components/admin/AdminAIAssistant";
      return { total, confirmed, cancelled };
    }, [reservations]);
  
-   const handleCancel = async (id: string) => {
-     if (!token) return;
+   const handleCancel = async (scope: CancelScope) => {
+     if (!token || !cancellingReservation) return;
      try {
        setActionLoading(true);
-       await cancelAdminReservation(id, token);
+       await cancelAdminReservation(cancellingReservation.id, token, scope);
+       setCancellingReservation(null);
        await loadReservations(token);
      } catch (err: any) {
        setError(err.message || "Failed to cancel reservation");
@@ -113,6 +125,32 @@ import AdminAIAssistant from "../../../../components/admin/AdminAIAssistant";
        setActionLoading(false);
      }
    };
+
+  const openReservation = (reservation: AdminReservation, tab: "details" | "history") => {
+    setEditTab(tab);
+    setEditingReservation(reservation);
+  };
+
+  const handleCheckIn = async (id: string) => {
+    if (!token) return;
+    try {
+      setActionLoading(true);
+      await checkInAdminReservation(id, token);
+      await loadReservations(token);
+    } catch (err: any) {
+      setError(err.message || "Failed to check in");
+    } finally {
+      setActionLoading(false);
+    }
+  };
+
+  // Cancel from the calendar grid; refresh without the loading flash
+  const handleCalendarCancel = async (id: string, scope: CancelScope) => {
+    if (!token) throw new Error("Not authenticated");
+    await cancelAdminReservation(id, token, scope);
+    const data = await getAdminReservations(token, filters);
+    setReservations(data);
+  };
  
   const handleSaveEdit = async () => {
     if (!token || !editingReservation) return;
@@ -259,13 +297,16 @@ import AdminAIAssistant from "../../../../components/admin/AdminAIAssistant";
                    onChange={(event) =>
                      setFilters((prev) => ({
                        ...prev,
-                       status: (event.target.value as "confirmed" | "cancelled") || undefined,
+                       status: (event.target.value as ReservationStatus) || undefined,
                      }))
                    }
                    className="mt-1 w-full rounded-lg border border-gray-200 px-3 py-2 text-sm"
                  >
                    <option value="">All</option>
                    <option value="confirmed">Confirmed</option>
+                   <option value="checked_in">Checked in</option>
+                   <option value="completed">Completed</option>
+                   <option value="no_show">No-show</option>
                    <option value="cancelled">Cancelled</option>
                  </select>
                </div>
@@ -301,8 +342,15 @@ import AdminAIAssistant from "../../../../components/admin/AdminAIAssistant";
              </div>
            </div>
  
+          {token && (
+            <FrontDeskCheckIn token={token} onCheckedIn={() => loadReservations(token)} />
+          )}
+
           {/* View Toggle */}
-          <div className="flex justify-end">
+          <div className="flex justify-end gap-3">
+            <button className="btn-secondary" onClick={() => setShowRecurringForm(true)}>
+              ↻ New Recurring Booking
+            </button>
             <div className="inline-flex rounded-lg border border-gray-300 bg-white p-1">
               <button
                 onClick={() => setViewMode("table")}
@@ -347,6 +395,7 @@ import AdminAIAssistant from "../../../../components/admin/AdminAIAssistant";
               reservations={reservations}
               courts={courts}
               onReservationUpdate={handleCalendarUpdate}
+              onReservationCancel={handleCalendarCancel}
               isLoading={isLoading}
             />
           ) : (
@@ -380,7 +429,12 @@ import AdminAIAssistant from "../../../../components/admin/AdminAIAssistant";
                            {reservation.contactEmail || reservation.member?.email || ""}
                          </div>
                        </td>
-                       <td className="py-3 pr-4 capitalize">{reservation.status}</td>
+                       <td className="py-3 pr-4 capitalize">
+                         {reservation.status.replace("_", " ")}
+                         {reservation.seriesId && (
+                           <span className="ml-2 text-xs text-primary-700 normal-case">↻ Series</span>
+                         )}
+                       </td>
                        <td className="py-3 pr-4">
                          {reservation.paymentAmount ? (
                            <div>
@@ -396,16 +450,31 @@ import AdminAIAssistant from "../../../../components/admin/AdminAIAssistant";
                          )}
                        </td>
                        <td className="py-3 space-x-2">
+                         {reservation.status === "confirmed" && (
+                           <button
+                             className="text-green-700 hover:text-green-800 font-medium"
+                             onClick={() => handleCheckIn(reservation.id)}
+                             disabled={actionLoading}
+                           >
+                             Check in
+                           </button>
+                         )}
                          <button
                            className="text-primary-600 hover:text-primary-700 font-medium"
-                           onClick={() => setEditingReservation(reservation)}
+                           onClick={() => openReservation(reservation, "details")}
                            disabled={actionLoading}
                          >
                            Edit
                          </button>
+                         <button
+                           className="text-gray-600 hover:text-gray-700 font-medium"
+                           onClick={() => openReservation(reservation, "history")}
+                         >
+                           History
+                         </button>
                          <button
                            className="text-red-600 hover:text-red-700 font-medium"
-                           onClick={() => handleCancel(reservation.id)}
+                           onClick={() => setCancellingReservation(reservation)}
                            disabled={actionLoading || reservation.status === "cancelled"}
                          >
                            Cancel
@@ -430,68 +499,93 @@ import AdminAIAssistant from "../../../../components/admin/AdminAIAssistant";
                      ✕
                    </button>
                  </div>
-                 <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                   <div>
-                     <label className="text-sm text-gray-600">Date</label>
-                     <input
-                       type="date"
-                       value={editForm.date}
-                       onChange={(event) =>
-                         setEditForm((prev) => ({ ...prev, date: event.target.value }))
-                       }
-                       className="mt-1 w-full rounded-lg border border-gray-200 px-3 py-2 text-sm"
-                     />
-                   </div>
-                   <div>
-                     <label className="text-sm text-gray-600">Court</label>
-                     <select
-                       value={editForm.courtId}
-                       onChange={(event) =>
-                         setEditForm((prev) => ({ ...prev, courtId: event.target.value }))
-                       }
-                       className="mt-1 w-full rounded-lg border border-gray-200 px-3 py-2 text-sm"
+                 <div className="flex gap-4 border-b border-gray-200 text-sm">
+                   {(["details", "history"] as const).map((tab) => (
+                     <button
+                       key={tab}
+                       onClick={() => setEditTab(tab)}
+                       className={`pb-2 -mb-px capitalize border-b-2 ${
+                         editTab === tab
+                           ? "border-primary-600 text-primary-700 font-medium"
+                           : "border-transparent text-gray-500 hover:text-gray-700"
+                       }`}
                      >
-                       {courts.map((court) => (
-                         <option key={court.id} value={court.id}>
-                           {court.name}
-                         </option>
-                       ))}
-                     </select>
-                   </div>
-                   <div>
-                     <label className="text-sm text-gray-600">Start</label>
-                     <input
-                       type="time"
-                       value={editForm.timeStart}
-                       onChange={(event) =>
-                         setEditForm((prev) => ({ ...prev, timeStart: event.target.value }))
-                       }
-                       className="mt-1 w-full rounded-lg border border-gray-200 px-3 py-2 text-sm"
-                     />
-                   </div>
-                   <div>
-                     <label className="text-sm text-gray-600">End</label>
-                     <input
-                       type="time"
-                       value={editForm.timeEnd}
-                       onChange={(event) =>
-                         setEditForm((prev) => ({ ...prev, timeEnd: event.target.value }))
-                       }
-                       className="mt-1 w-full rounded-lg border border-gray-200 px-3 py-2 text-sm"
-                     />
-                   </div>
+                       {tab}
+                     </button>
+                   ))}
                  </div>
-                 <div>
-                   <label className="text-sm text-gray-600">Notes</label>
-                   <textarea
-                     value={editForm.notes}
-                     onChange={(event) =>
-                       setEditForm((prev) => ({ ...prev, notes: event.target.value }))
-                     }
-                     rows={3}
-                     className="mt-1 w-full rounded-lg border border-gray-200 px-3 py-2 text-sm"
+                 {editTab === "history" && token ? (
+                   <AuditHistory
+                     token={token}
+                     entityType="reservation"
+                     entityId={editingReservation.id}
                    />
-                 </div>
+                 ) : (
+                   <>
+                     <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                       <div>
+                         <label className="text-sm text-gray-600">Date</label>
+                         <input
+                           type="date"
+                           value={editForm.date}
+                           onChange={(event) =>
+                             setEditForm((prev) => ({ ...prev, date: event.target.value }))
+                           }
+                           className="mt-1 w-full rounded-lg border border-gray-200 px-3 py-2 text-sm"
+                         />
+                       </div>
+                       <div>
+                         <label className="text-sm text-gray-600">Court</label>
+                         <select
+                           value={editForm.courtId}
+                           onChange={(event) =>
+                             setEditForm((prev) => ({ ...prev, courtId: event.target.value }))
+                           }
+                           className="mt-1 w-full rounded-lg border border-gray-200 px-3 py-2 text-sm"
+                         >
+                           {courts.map((court) => (
+                             <option key={court.id} value={court.id}>
+                               {court.name}
+                             </option>
+                           ))}
+                         </select>
+                       </div>
+                       <div>
+                         <label className="text-sm text-gray-600">Start</label>
+                         <input
+                           type="time"
+                           value={editForm.timeStart}
+                           onChange={(event) =>
+                             setEditForm((prev) => ({ ...prev, timeStart: event.target.value }))
+                           }
+                           className="mt-1 w-full rounded-lg border border-gray-200 px-3 py-2 text-sm"
+                         />
+                       </div>
+                       <div>
+                         <label className="text-sm text-gray-600">End</label>
+                         <input
+                           type="time"
+                           value={editForm.timeEnd}
+                           onChange={(event) =>
+                             setEditForm((prev) => ({ ...prev, timeEnd: event.target.value }))
+                           }
+                           className="mt-1 w-full rounded-lg border border-gray-200 px-3 py-2 text-sm"
+                         />
+                       </div>
+                     </div>
+                     <div>
+                       <label className="text-sm text-gray-600">Notes</label>
+                       <textarea
+                         value={editForm.notes}
+                         onChange={(event) =>
+                           setEditForm((prev) => ({ ...prev, notes: event.target.value }))
+                         }
+                         rows={3}
+                         className="mt-1 w-full rounded-lg border border-gray-200 px-3 py-2 text-sm"
+                       />
+                     </div>
+                   </>
+                 )}
                  <div className="flex justify-end gap-3">
                    <button
                      className="btn-secondary"
@@ -500,17 +594,37 @@ import AdminAIAssistant from "../../../../components/admin/AdminAIAssistant";
                    >
                      Close
                    </button>
-                   <button
-                     className="btn-primary"
-                     onClick={handleSaveEdit}
-                     disabled={actionLoading}
-                   >
-                     {actionLoading ? "Saving..." : "Save Changes"}
-                   </button>
+                   {editTab === "details" && (
+                     <button
+                       className="btn-primary"
+                       onClick={handleSaveEdit}
+                       disabled={actionLoading}
+                     >
+                       {actionLoading ? "Saving..." : "Save Changes"}
+                     </button>
+                   )}
                  </div>
                </div>
              </div>
           )}
+
+          {cancellingReservation && (
+            <CancelBookingDialog
+              reservation={cancellingReservation}
+              onConfirm={handleCancel}
+              onClose={() => setCancellingReservation(null)}
+              isSubmitting={actionLoading}
+            />
+          )}
+
+          {showRecurringForm && token && (
+            <RecurringBookingForm
+              token={token}
+              courts={courts}
+              onClose={() => setShowRecurringForm(false)}
+              onCreated={() => loadReservations(token)}
+            />
+          )}
         </div>
       </DashboardLayout>
 
@@ -0,0 +1,450 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { format } from "date-fns";
+import DashboardLayout from "../../../../components/dashboard/DashboardLayout";
+import ProtectedRoute from "../../../../lib/auth/protected-route";
+import { useAuth } from "../../../../lib/auth/auth-context";
+import {
+  AdminCourt,
+  CourtInput,
+  CourtType,
+  createCourt,
+  getAdminCourts,
+  getUpcomingCourtReservations,
+  retireCourt,
+  updateCourt,
+} from "../../../../lib/api/admin-court-api";
+import { AdminReservation } from "../../../../lib/api/admin-booking-api";
+import CourtClosuresPanel from "../../../../components/admin/CourtClosuresPanel";
+
+const COURT_TYPES: CourtType[] = ["clay", "hard", "indoor"];
+
+const emptyForm: CourtInput = {
+  name: "",
+  type: "clay",
+  available: true,
+  lighting: false,
+  environment: "outdoor",
+};
+
+const formatDate = (dateStr: string) => {
+  try {
+    return format(new Date(`${dateStr}T00:00:00`), "MMM d, yyyy");
+  } catch {
+    return dateStr;
+  }
+};
+
+export default function AdminCourtsPage() {
+  const { token } = useAuth();
+  const [courts, setCourts] = useState<AdminCourt[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState("");
+  const [showRetired, setShowRetired] = useState(false);
+  const [editingCourt, setEditingCourt] = useState<AdminCourt | "new" | null>(null);
+  const [form, setForm] = useState<CourtInput>(emptyForm);
+  const [retiring, setRetiring] = useState<{
+    court: AdminCourt;
+    reservations: AdminReservation[];
+  } | null>(null);
+  const [reassignTo, setReassignTo] = useState("");
+  const [actionLoading, setActionLoading] = useState(false);
+
+  const loadCourts = async (activeToken: string) => {
+    setIsLoading(true);
+    setError("");
+    try {
+      const data = await getAdminCourts(activeToken);
+      setCourts(data);
+    } catch (err: any) {
+      setError(err.message || "Failed to load courts");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (!token) return;
+    loadCourts(token);
+  }, [token]);
+
+  useEffect(() => {
+    if (!editingCourt) return;
+    if (editingCourt === "new") {
+      setForm(emptyForm);
+      return;
+    }
+    setForm({
+      name: editingCourt.name,
+      type: editingCourt.type,
+      available: editingCourt.available,
+      lighting: editingCourt.lighting ?? false,
+      environment: editingCourt.environment ?? "outdoor",
+    });
+  }, [editingCourt]);
+
+  const activeCourts = useMemo(() => courts.filter((c) => !c.retired), [courts]);
+  const visibleCourts = showRetired ? courts : activeCourts;
+
+  const handleSave = async () => {
+    if (!token || !editingCourt) return;
+    try {
+      setActionLoading(true);
+      setError("");
+      if (editingCourt === "new") {
+        await createCourt(form, token);
+      } else {
+        await updateCourt(editingCourt.id, form, token);
+      }
+      setEditingCourt(null);
+      await loadCourts(token);
+    } catch (err: any) {
+      setError(err.message || "Failed to save court");
+    } finally {
+      setActionLoading(false);
+    }
+  };
+
+  const handleToggleAvailable = async (court: AdminCourt) => {
+    if (!token) return;
+    try {
+      setActionLoading(true);
+      await updateCourt(court.id, { available: !court.available }, token);
+      await loadCourts(token);
+    } catch (err: any) {
+      setError(err.message || "Failed to update court");
+    } finally {
+      setActionLoading(false);
+    }
+  };
+
+  // Look up upcoming bookings first so the admin can reassign them before retiring
+  const handleStartRetire = async (court: AdminCourt) => {
+    if (!token) return;
+    try {
+      setActionLoading(true);
+      setError("");
+      const reservations = await getUpcomingCourtReservations(court.id, token);
+      setReassignTo("");
+      setRetiring({ court, reservations });
+    } catch (err: any) {
+      setError(err.message || "Failed to check upcoming reservations");
+    } finally {
+      setActionLoading(false);
+    }
+  };
+
+  const handleConfirmRetire = async () => {
+    if (!token || !retiring) return;
+    try {
+      setActionLoading(true);
+      setError("");
+      await retireCourt(
+        retiring.court.id,
+        token,
+        retiring.reservations.length > 0 ? reassignTo : undefined
+      );
+      setRetiring(null);
+      await loadCourts(token);
+    } catch (err: any) {
+      setError(err.message || "Failed to retire court");
+      setRetiring(null);
+    } finally {
+      setActionLoading(false);
+    }
+  };
+
+  return (
+    <ProtectedRoute allowedRoles={["admin"]}>
+      <DashboardLayout>
+        <div className="space-y-6">
+          <div className="flex items-start justify-between gap-4">
+            <div>
+              <h1 className="text-3xl font-bold mb-2">
+                <span className="gradient-text">Courts</span>
+              </h1>
+              <p className="text-gray-600">
+                Add courts, update their details, schedule closures, and retire courts that are
+                no longer in use.
+              </p>
+            </div>
+            <button className="btn-primary" onClick={() => setEditingCourt("new")}>
+              Add Court
+            </button>
+          </div>
+
+          <div className="flex items-center justify-between">
+            <div className="text-sm text-gray-600">
+              {activeCourts.length} active court{activeCourts.length === 1 ? "" : "s"}
+            </div>
+            <label className="flex items-center gap-2 text-sm text-gray-600">
+              <input
+                type="checkbox"
+                checked={showRetired}
+                onChange={(event) => setShowRetired(event.target.checked)}
+              />
+              Show retired courts
+            </label>
+          </div>
+
+          {error && (
+            <div className="p-4 bg-red-50 border border-red-200 rounded-lg text-red-700">
+              {error}
+            </div>
+          )}
+
+          {isLoading ? (
+            <div className="text-center py-12">
+              <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary-600 mx-auto mb-4"></div>
+              <p className="text-gray-600">Loading courts...</p>
+            </div>
+          ) : visibleCourts.length === 0 ? (
+            <div className="card text-center py-12">
+              <p className="text-gray-600">No courts yet.</p>
+            </div>
+          ) : (
+            <div className="card overflow-x-auto">
+              <table className="min-w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-500 border-b">
+                    <th className="py-3 pr-4">Court</th>
+                    <th className="py-3 pr-4">Surface</th>
+                    <th className="py-3 pr-4">Setting</th>
+                    <th className="py-3 pr-4">Lights</th>
+                    <th className="py-3 pr-4">Status</th>
+                    <th className="py-3">Actions</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {visibleCourts.map((court) => (
+                    <tr key={court.id} className="border-b last:border-b-0">
+                      <td className="py-3 pr-4 font-medium text-gray-900">{court.name}</td>
+                      <td className="py-3 pr-4 capitalize">{court.type}</td>
+                      <td className="py-3 pr-4 capitalize">{court.environment || "outdoor"}</td>
+                      <td className="py-3 pr-4">{court.lighting ? "Yes" : "No"}</td>
+                      <td className="py-3 pr-4">
+                        {court.retired ? (
+                          <span className="text-gray-500">
+                            Retired
+                            {court.retiredAt && ` ${formatDate(court.retiredAt.slice(0, 10))}`}
+                          </span>
+                        ) : court.available ? (
+                          <span className="text-green-700">Available</span>
+                        ) : (
+                          <span className="text-yellow-700">Unavailable</span>
+                        )}
+                      </td>
+                      <td className="py-3 space-x-2">
+                        {!court.retired && (
+                          <>
+                            <button
+                              className="text-primary-600 hover:text-primary-700 font-medium"
+                              onClick={() => setEditingCourt(court)}
+                              disabled={actionLoading}
+                            >
+                              Edit
+                            </button>
+                            <button
+                              className="text-gray-600 hover:text-gray-800 font-medium"
+                              onClick={() => handleToggleAvailable(court)}
+                              disabled={actionLoading}
+                            >
+                              {court.available ? "Mark unavailable" : "Mark available"}
+                            </button>
+                            <button
+                              className="text-red-600 hover:text-red-700 font-medium"
+                              onClick={() => handleStartRetire(court)}
+                              disabled={actionLoading}
+                            >
+                              Retire
+                            </button>
+                          </>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          {token && !isLoading && <CourtClosuresPanel token={token} courts={courts} />}
+
+          {editingCourt && (
+            <div className="fixed inset-0 bg-black/40 flex items-center justify-center z-50">
+              <div className="bg-white rounded-xl shadow-xl w-full max-w-lg p-6 space-y-4">
+                <div className="flex items-center justify-between">
+                  <h2 className="text-xl font-bold">
+                    {editingCourt === "new" ? "Add Court" : `Edit ${editingCourt.name}`}
+                  </h2>
+                  <button
+                    className="text-gray-400 hover:text-gray-600"
+                    onClick={() => setEditingCourt(null)}
+                  >
+                    ✕
+                  </button>
+                </div>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div className="md:col-span-2">
+                    <label className="text-sm text-gray-600">Name</label>
+                    <input
+                      type="text"
+                      value={form.name}
+                      onChange={(event) =>
+                        setForm((prev) => ({ ...prev, name: event.target.value }))
+                      }
+                      className="mt-1 w-full rounded-lg border border-gray-200 px-3 py-2 text-sm"
+                    />
+                  </div>
+                  <div>
+                    <label className="text-sm text-gray-600">Surface</label>
+                    <select
+                      value={form.type}
+                      onChange={(event) =>
+                        setForm((prev) => ({ ...prev, type: event.target.value as CourtType }))
+                      }
+                      className="mt-1 w-full rounded-lg border border-gray-200 px-3 py-2 text-sm capitalize"
+                    >
+                      {COURT_TYPES.map((type) => (
+                        <option key={type} value={type}>
+                          {type}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                  <div>
+                    <label className="text-sm text-gray-600">Setting</label>
+                    <select
+                      value={form.environment}
+                      onChange={(event) =>
+                        setForm((prev) => ({
+                          ...prev,
+                          environment: event.target.value as "indoor" | "outdoor",
+                        }))
+                      }
+                      className="mt-1 w-full rounded-lg border border-gray-200 px-3 py-2 text-sm"
+                    >
+                      <option value="outdoor">Outdoor</option>
+                      <option value="indoor">Indoor</option>
+                    </select>
+                  </div>
+                  <label className="flex items-center gap-2 text-sm text-gray-600">
+                    <input
+                      type="checkbox"
+                      checked={form.lighting ?? false}
+                      onChange={(event) =>
+                        setForm((prev) => ({ ...prev, lighting: event.target.checked }))
+                      }
+                    />
+                    Has lighting
+                  </label>
+                  <label className="flex items-center gap-2 text-sm text-gray-600">
+                    <input
+                      type="checkbox"
+                      checked={form.available ?? true}
+                      onChange={(event) =>
+                        setForm((prev) => ({ ...prev, available: event.target.checked }))
+                      }
+                    />
+                    Available for booking
+                  </label>
+                </div>
+                <div className="flex justify-end gap-3">
+                  <button
+                    className="btn-secondary"
+                    onClick={() => setEditingCourt(null)}
+                    disabled={actionLoading}
+                  >
+                    Close
+                  </button>
+                  <button
+                    className="btn-primary"
+                    onClick={handleSave}
+                    disabled={actionLoading || !form.name.trim()}
+                  >
+                    {actionLoading ? "Saving..." : "Save Court"}
+                  </button>
+                </div>
+              </div>
+            </div>
+          )}
+
+          {retiring && (
+            <div className="fixed inset-0 bg-black/40 flex items-center justify-center z-50">
+              <div className="bg-white rounded-xl shadow-xl w-full max-w-lg p-6 space-y-4">
+                <h2 className="text-xl font-bold">Retire {retiring.court.name}</h2>
+                {retiring.reservations.length === 0 ? (
+                  <p className="text-gray-600">
+                    This court has no upcoming reservations. Once retired it can no longer be
+                    booked.
+                  </p>
+                ) : (
+                  <>
+                    <p className="text-gray-600">
+                      This court has {retiring.reservations.length} upcoming reservation
+                      {retiring.reservations.length === 1 ? "" : "s"}. Choose a court to move them
+                      to before retiring it.
+                    </p>
+                    <ul className="max-h-48 overflow-y-auto text-sm divide-y border rounded-lg">
+                      {retiring.reservations.map((reservation) => (
+                        <li key={reservation.id} className="px-3 py-2 flex justify-between">
+                          <span>
+                            {formatDate(reservation.date)} {reservation.timeSlot.start}-
+                            {reservation.timeSlot.end}
+                          </span>
+                          <span className="text-gray-500">
+                            {reservation.contactName || "Guest"}
+                          </span>
+                        </li>
+                      ))}
+                    </ul>
+                    <div>
+                      <label className="text-sm text-gray-600">Move reservations to</label>
+                      <select
+                        value={reassignTo}
+                        onChange={(event) => setReassignTo(event.target.value)}
+                        className="mt-1 w-full rounded-lg border border-gray-200 px-3 py-2 text-sm"
+                      >
+                        <option value="">Select a court</option>
+                        {activeCourts
+                          .filter((court) => court.id !== retiring.court.id)
+                          .map((court) => (
+                            <option key={court.id} value={court.id}>
+                              {court.name}
+                            </option>
+                          ))}
+                      </select>
+                    </div>
+                  </>
+                )}
+                <div className="flex justify-end gap-3">
+                  <button
+                    className="btn-secondary"
+                    onClick={() => setRetiring(null)}
+                    disabled={actionLoading}
+                  >
+                    Cancel
+                  </button>
+                  <button
+                    className="btn-primary bg-red-600 hover:bg-red-700"
+                    onClick={handleConfirmRetire}
+                    disabled={
+                      actionLoading || (retiring.reservations.length > 0 && !reassignTo)
+                    }
+                  >
+                    {actionLoading
+                      ? "Retiring..."
+                      : retiring.reservations.length > 0
+                      ? "Reassign & Retire"
+                      : "Retire Court"}
+                  </button>
+                </div>
+              </div>
+            </div>
+          )}
+        </div>
+      </DashboardLayout>
+    </ProtectedRoute>
+  );
+}
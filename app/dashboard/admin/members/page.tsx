@@ -0,0 +1,329 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import DashboardLayout from "../../../../components/dashboard/DashboardLayout";
+import ProtectedRoute from "../../../../lib/auth/protected-route";
+import { useAuth } from "../../../../lib/auth/auth-context";
+import {
+  Member,
+  MemberListFilters,
+  MemberUpdate,
+  getMembers,
+  updateMember,
+} from "../../../../lib/api/member-api";
+import AuditHistory from "../../../../components/admin/AuditHistory";
+
+const ROLES: NonNullable<Member["role"]>[] = ["player", "coach", "parent", "admin"];
+
+interface MemberForm {
+  firstName: string;
+  lastName: string;
+  phone: string;
+  role: NonNullable<Member["role"]>;
+  isActive: boolean;
+  notes: string;
+}
+
+function toForm(member: Member): MemberForm {
+  return {
+    firstName: member.firstName,
+    lastName: member.lastName,
+    phone: member.phone,
+    role: member.role || "player",
+    isActive: member.isActive,
+    notes: member.notes || "",
+  };
+}
+
+export default function AdminMembersPage() {
+  const { token } = useAuth();
+  const [members, setMembers] = useState<Member[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState("");
+  const [filters, setFilters] = useState<MemberListFilters>({ filter: "all" });
+  const [selectedMember, setSelectedMember] = useState<Member | null>(null);
+  const [tab, setTab] = useState<"details" | "history">("details");
+  const [form, setForm] = useState<MemberForm | null>(null);
+  const [actionLoading, setActionLoading] = useState(false);
+
+  const loadMembers = async (activeToken: string) => {
+    setIsLoading(true);
+    setError("");
+    try {
+      setMembers(await getMembers(activeToken, filters));
+    } catch (err: any) {
+      setError(err.message || "Failed to load members");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (!token) return;
+    loadMembers(token);
+  }, [token, filters]);
+
+  const openMember = (member: Member, nextTab: "details" | "history") => {
+    setTab(nextTab);
+    setForm(toForm(member));
+    setSelectedMember(member);
+  };
+
+  const handleSave = async () => {
+    if (!token || !selectedMember || !form) return;
+
+    // Send only what changed, so the history shows just those fields
+    const original = toForm(selectedMember);
+    const updates: MemberUpdate = {};
+    (Object.keys(form) as (keyof MemberForm)[]).forEach((field) => {
+      if (form[field] !== original[field]) {
+        (updates as any)[field] = form[field];
+      }
+    });
+
+    if (Object.keys(updates).length === 0) {
+      setSelectedMember(null);
+      return;
+    }
+
+    try {
+      setActionLoading(true);
+      await updateMember(selectedMember.id, updates, token);
+      setSelectedMember(null);
+      await loadMembers(token);
+    } catch (err: any) {
+      setError(err.message || "Failed to update member");
+    } finally {
+      setActionLoading(false);
+    }
+  };
+
+  return (
+    <ProtectedRoute allowedRoles={["admin"]}>
+      <DashboardLayout>
+        <div className="space-y-6">
+          <div>
+            <h1 className="text-3xl font-bold mb-2">
+              <span className="gradient-text">Members</span>
+            </h1>
+            <p className="text-gray-600">
+              Update member details and see who changed what.
+            </p>
+          </div>
+
+          <div className="card grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="md:col-span-2">
+              <label className="text-sm text-gray-600">Search</label>
+              <input
+                type="text"
+                value={filters.search || ""}
+                onChange={(event) =>
+                  setFilters((prev) => ({ ...prev, search: event.target.value || undefined }))
+                }
+                placeholder="Name, email, phone, member number..."
+                className="mt-1 w-full rounded-lg border border-gray-200 px-3 py-2 text-sm"
+              />
+            </div>
+            <div>
+              <label className="text-sm text-gray-600">Status</label>
+              <select
+                value={filters.filter || "all"}
+                onChange={(event) =>
+                  setFilters((prev) => ({
+                    ...prev,
+                    filter: event.target.value as MemberListFilters["filter"],
+                  }))
+                }
+                className="mt-1 w-full rounded-lg border border-gray-200 px-3 py-2 text-sm"
+              >
+                <option value="all">All</option>
+                <option value="active">Active</option>
+                <option value="inactive">Inactive</option>
+              </select>
+            </div>
+          </div>
+
+          {error && (
+            <div className="p-4 bg-red-50 border border-red-200 rounded-lg text-red-700">
+              {error}
+            </div>
+          )}
+
+          {isLoading ? (
+            <div className="text-center py-12">
+              <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary-600 mx-auto mb-4"></div>
+              <p className="text-gray-600">Loading members...</p>
+            </div>
+          ) : members.length === 0 ? (
+            <div className="card text-center py-12">
+              <p className="text-gray-600">No members found.</p>
+            </div>
+          ) : (
+            <div className="card overflow-x-auto">
+              <table className="min-w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-500 border-b">
+                    <th className="py-3 pr-4">Member</th>
+                    <th className="py-3 pr-4">Number</th>
+                    <th className="py-3 pr-4">Role</th>
+                    <th className="py-3 pr-4">Status</th>
+                    <th className="py-3">Actions</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {members.map((member) => (
+                    <tr key={member.id} className="border-b last:border-b-0">
+                      <td className="py-3 pr-4">
+                        <div className="font-medium text-gray-900">
+                          {member.firstName} {member.lastName}
+                        </div>
+                        <div className="text-xs text-gray-500">{member.email}</div>
+                      </td>
+                      <td className="py-3 pr-4">{member.memberNumber}</td>
+                      <td className="py-3 pr-4 capitalize">{member.role || "player"}</td>
+                      <td className="py-3 pr-4">
+                        {member.isActive ? (
+                          <span className="text-green-700">Active</span>
+                        ) : (
+                          <span className="text-gray-500">Inactive</span>
+                        )}
+                      </td>
+                      <td className="py-3 space-x-2">
+                        <button
+                          className="text-primary-600 hover:text-primary-700 font-medium"
+                          onClick={() => openMember(member, "details")}
+                          disabled={actionLoading}
+                        >
+                          Edit
+                        </button>
+                        <button
+                          className="text-gray-600 hover:text-gray-700 font-medium"
+                          onClick={() => openMember(member, "history")}
+                        >
+                          History
+                        </button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          {selectedMember && form && (
+            <div className="fixed inset-0 bg-black/40 flex items-center justify-center z-50">
+              <div className="bg-white rounded-xl shadow-xl w-full max-w-lg p-6 space-y-4">
+                <div className="flex items-center justify-between">
+                  <h2 className="text-xl font-bold">
+                    {selectedMember.firstName} {selectedMember.lastName}
+                  </h2>
+                  <button
+                    className="text-gray-400 hover:text-gray-600"
+                    onClick={() => setSelectedMember(null)}
+                  >
+                    ✕
+                  </button>
+                </div>
+                <div className="flex gap-4 border-b border-gray-200 text-sm">
+                  {(["details", "history"] as const).map((option) => (
+                    <button
+                      key={option}
+                      onClick={() => setTab(option)}
+                      className={`pb-2 -mb-px capitalize border-b-2 ${
+                        tab === option
+                          ? "border-primary-600 text-primary-700 font-medium"
+                          : "border-transparent text-gray-500 hover:text-gray-700"
+                      }`}
+                    >
+                      {option}
+                    </button>
+                  ))}
+                </div>
+                {tab === "history" && token ? (
+                  <AuditHistory token={token} entityType="member" entityId={selectedMember.id} />
+                ) : (
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <div>
+                      <label className="text-sm text-gray-600">First name</label>
+                      <input
+                        type="text"
+                        value={form.firstName}
+                        onChange={(event) => setForm({ ...form, firstName: event.target.value })}
+                        className="mt-1 w-full rounded-lg border border-gray-200 px-3 py-2 text-sm"
+                      />
+                    </div>
+                    <div>
+                      <label className="text-sm text-gray-600">Last name</label>
+                      <input
+                        type="text"
+                        value={form.lastName}
+                        onChange={(event) => setForm({ ...form, lastName: event.target.value })}
+                        className="mt-1 w-full rounded-lg border border-gray-200 px-3 py-2 text-sm"
+                      />
+                    </div>
+                    <div>
+                      <label className="text-sm text-gray-600">Phone</label>
+                      <input
+                        type="tel"
+                        value={form.phone}
+                        onChange={(event) => setForm({ ...form, phone: event.target.value })}
+                        className="mt-1 w-full rounded-lg border border-gray-200 px-3 py-2 text-sm"
+                      />
+                    </div>
+                    <div>
+                      <label className="text-sm text-gray-600">Role</label>
+                      <select
+                        value={form.role}
+                        onChange={(event) =>
+                          setForm({ ...form, role: event.target.value as MemberForm["role"] })
+                        }
+                        className="mt-1 w-full rounded-lg border border-gray-200 px-3 py-2 text-sm capitalize"
+                      >
+                        {ROLES.map((role) => (
+                          <option key={role} value={role}>
+                            {role}
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+                    <div className="md:col-span-2">
+                      <label className="text-sm text-gray-600">Notes</label>
+                      <textarea
+                        value={form.notes}
+                        onChange={(event) => setForm({ ...form, notes: event.target.value })}
+                        rows={3}
+                        className="mt-1 w-full rounded-lg border border-gray-200 px-3 py-2 text-sm"
+                      />
+                    </div>
+                    <label className="flex items-center gap-2 text-sm text-gray-600">
+                      <input
+                        type="checkbox"
+                        checked={form.isActive}
+                        onChange={(event) => setForm({ ...form, isActive: event.target.checked })}
+                      />
+                      Active member
+                    </label>
+                  </div>
+                )}
+                <div className="flex justify-end gap-3">
+                  <button
+                    className="btn-secondary"
+                    onClick={() => setSelectedMember(null)}
+                    disabled={actionLoading}
+                  >
+                    Close
+                  </button>
+                  {tab === "details" && (
+                    <button className="btn-primary" onClick={handleSave} disabled={actionLoading}>
+                      {actionLoading ? "Saving..." : "Save Changes"}
+                    </button>
+                  )}
+                </div>
+              </div>
+            </div>
+          )}
+        </div>
+      </DashboardLayout>
+    </ProtectedRoute>
+  );
+}
@@ -72,10 +72,12 @@ export default function BookingsPage() {
     const start = bookingStart(booking);
 
     if (filter === "upcoming") {
-      return start >= now && booking.status === "confirmed";
+      return (
+        start >= now && (booking.status === "confirmed" || booking.status === "checked_in")
+      );
     }
     if (filter === "past") {
-      return start < now && booking.status === "confirmed";
+      return start < now && booking.status !== "cancelled";
     }
     if (filter === "cancelled") {
       return booking.status === "cancelled";
@@ -0,0 +1,299 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { format } from "date-fns";
+import DashboardLayout from "../../../components/dashboard/DashboardLayout";
+import { useAuth } from "../../../lib/auth/auth-context";
+import {
+  acceptInvite,
+  cancelInvite,
+  declineInvite,
+  FamilyOverview,
+  getFamily,
+  invitePlayer,
+  leaveGuardian,
+  unlinkChild,
+} from "../../../lib/api/family-api";
+
+const emptyFamily: FamilyOverview = { children: [], guardians: [], invites: [] };
+
+export default function FamilyPage() {
+  const { user, token } = useAuth();
+  const [family, setFamily] = useState<FamilyOverview>(emptyFamily);
+  const [inviteEmail, setInviteEmail] = useState("");
+  const [isLoading, setIsLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [error, setError] = useState("");
+  const [message, setMessage] = useState("");
+
+  const loadFamily = async (activeToken: string) => {
+    try {
+      setError("");
+      setFamily(await getFamily(activeToken));
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : "Failed to load family");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (!token) return;
+    loadFamily(token);
+  }, [token]);
+
+  /**
+   * Run a family action, then reload the dashboard
+   */
+  const runAction = async (id: string, action: () => Promise<unknown>, success: string) => {
+    if (!token) return;
+    try {
+      setBusyId(id);
+      setError("");
+      setMessage("");
+      await action();
+      setMessage(success);
+      await loadFamily(token);
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : "Something went wrong");
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleInvite = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!token || !inviteEmail.trim()) return;
+    await runAction(
+      "invite",
+      () => invitePlayer(inviteEmail.trim(), token),
+      "Invitation sent. The player will see it on their Family page."
+    );
+    setInviteEmail("");
+  };
+
+  if (!user) return null;
+
+  const isParent = user.role === "parent";
+  const received = family.invites.filter((invite) => invite.childId === user.id);
+  const sent = family.invites.filter((invite) => invite.parentId === user.id);
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-6">
+        <div>
+          <h1 className="text-3xl font-bold mb-2">
+            <span className="gradient-text">Family</span>
+          </h1>
+          <p className="text-gray-600">
+            {isParent
+              ? "Link your junior players to see their bookings and coaching notes, and book courts on their behalf."
+              : "Parents linked to your account can see your bookings and journal, and book courts for you."}
+          </p>
+        </div>
+
+        {error && (
+          <div className="p-4 bg-red-50 border border-red-200 rounded-lg text-red-700">{error}</div>
+        )}
+        {message && (
+          <div className="p-4 bg-green-50 border border-green-200 rounded-lg text-green-700">
+            {message}
+          </div>
+        )}
+
+        {received.map((invite) => (
+          <div key={invite.id} className="card border-2 border-primary-200 bg-primary-50">
+            <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+              <div>
+                <div className="text-lg font-bold">{invite.parentName} wants to link accounts</div>
+                <div className="text-sm text-gray-600">
+                  Sent {format(new Date(invite.createdAt), "MMM d, yyyy")}
+                </div>
+              </div>
+              <div className="flex gap-2">
+                <button
+                  className="btn-secondary"
+                  onClick={() =>
+                    runAction(invite.id, () => declineInvite(invite.id, token!), "Invitation declined.")
+                  }
+                  disabled={busyId === invite.id}
+                >
+                  Decline
+                </button>
+                <button
+                  className="btn-primary"
+                  onClick={() =>
+                    runAction(
+                      invite.id,
+                      () => acceptInvite(invite.id, token!),
+                      `You're now linked to ${invite.parentName}.`
+                    )
+                  }
+                  disabled={busyId === invite.id}
+                >
+                  Accept
+                </button>
+              </div>
+            </div>
+          </div>
+        ))}
+
+        {isParent && (
+          <form onSubmit={handleInvite} className="card space-y-4">
+            <h2 className="text-xl font-bold">Link a Player</h2>
+            <p className="text-sm text-gray-600">
+              Enter the email your player uses to sign in. They&apos;ll need to accept the invitation.
+            </p>
+            <div className="flex flex-col md:flex-row gap-3">
+              <input
+                type="email"
+                required
+                value={inviteEmail}
+                onChange={(e) => setInviteEmail(e.target.value)}
+                className="flex-1 rounded-lg border border-gray-200 px-3 py-2 text-sm"
+                placeholder="player@example.com"
+              />
+              <button type="submit" className="btn-primary" disabled={busyId === "invite"}>
+                {busyId === "invite" ? "Sending..." : "Send Invitation"}
+              </button>
+            </div>
+            {sent.length > 0 && (
+              <ul className="divide-y divide-gray-100">
+                {sent.map((invite) => (
+                  <li key={invite.id} className="flex items-center justify-between py-2 text-sm">
+                    <span>
+                      Waiting for <span className="font-medium">{invite.childName}</span> to accept
+                    </span>
+                    <button
+                      type="button"
+                      className="text-red-600 hover:text-red-700 font-medium"
+                      onClick={() =>
+                        runAction(invite.id, () => cancelInvite(invite.id, token!), "Invitation withdrawn.")
+                      }
+                      disabled={busyId === invite.id}
+                    >
+                      Withdraw
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </form>
+        )}
+
+        {isLoading ? (
+          <div className="text-center py-12">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary-600 mx-auto mb-4" />
+            <p className="text-gray-600">Loading family...</p>
+          </div>
+        ) : isParent ? (
+          family.children.length === 0 ? (
+            <div className="card text-center py-12">
+              <p className="text-gray-600">No linked players yet.</p>
+            </div>
+          ) : (
+            family.children.map(({ member, upcomingReservations, recentJournalEntries }) => (
+              <div key={member.id} className="card space-y-4">
+                <div className="flex items-center justify-between">
+                  <div>
+                    <h2 className="text-xl font-bold">
+                      {member.firstName} {member.lastName}
+                    </h2>
+                    <p className="text-sm text-gray-500">Member #{member.memberNumber}</p>
+                  </div>
+                  <div className="flex gap-2">
+                    <Link href="/dashboard/book" className="btn-primary text-sm">
+                      Book a Court
+                    </Link>
+                    <button
+                      className="btn-secondary text-sm"
+                      onClick={() => {
+                        if (!confirm(`Unlink ${member.firstName} from your account?`)) return;
+                        runAction(member.id, () => unlinkChild(member.id, token!), "Player unlinked.");
+                      }}
+                      disabled={busyId === member.id}
+                    >
+                      Unlink
+                    </button>
+                  </div>
+                </div>
+
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                  <div>
+                    <h3 className="font-semibold text-gray-700 mb-2">Upcoming Bookings</h3>
+                    {upcomingReservations.length === 0 ? (
+                      <p className="text-sm text-gray-500">No upcoming bookings</p>
+                    ) : (
+                      <ul className="space-y-2 text-sm">
+                        {upcomingReservations.map((reservation) => (
+                          <li key={reservation.id} className="p-3 bg-gray-50 rounded-lg">
+                            <div className="font-medium">{reservation.courtName}</div>
+                            <div className="text-gray-600">
+                              {format(new Date(`${reservation.date}T00:00`), "EEE, MMM d")} ·{" "}
+                              {reservation.timeSlot.start}-{reservation.timeSlot.end}
+                            </div>
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </div>
+                  <div>
+                    <h3 className="font-semibold text-gray-700 mb-2">Recent Coaching Notes</h3>
+                    {recentJournalEntries.length === 0 ? (
+                      <p className="text-sm text-gray-500">No journal entries yet</p>
+                    ) : (
+                      <ul className="space-y-2 text-sm">
+                        {recentJournalEntries.map((entry) => (
+                          <li key={entry.id} className="p-3 bg-gray-50 rounded-lg">
+                            <div className="font-medium">
+                              {format(new Date(`${entry.sessionDate}T00:00`), "MMM d, yyyy")}
+                            </div>
+                            <div className="text-gray-600">{entry.summary}</div>
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </div>
+                </div>
+              </div>
+            ))
+          )
+        ) : family.guardians.length === 0 ? (
+          <div className="card text-center py-12">
+            <p className="text-gray-600">No parents are linked to your account.</p>
+          </div>
+        ) : (
+          <div className="card">
+            <h2 className="text-xl font-bold mb-4">Linked Parents</h2>
+            <ul className="divide-y divide-gray-100">
+              {family.guardians.map((guardian) => (
+                <li key={guardian.id} className="flex items-center justify-between py-3">
+                  <div>
+                    <p className="font-medium text-gray-900">
+                      {guardian.firstName} {guardian.lastName}
+                    </p>
+                    <p className="text-sm text-gray-500">{guardian.email}</p>
+                  </div>
+                  <button
+                    className="text-sm text-red-600 hover:text-red-700 font-medium"
+                    onClick={() => {
+                      if (!confirm(`Leave ${guardian.firstName}'s family link?`)) return;
+                      runAction(guardian.id, () => leaveGuardian(guardian.id, token!), "Family link removed.");
+                    }}
+                    disabled={busyId === guardian.id}
+                  >
+                    Leave
+                  </button>
+                </li>
+              ))}
+            </ul>
+            <p className="mt-4 text-xs text-gray-500">
+              Players can leave a family link once they turn 18.
+            </p>
+          </div>
+        )}
+      </div>
+    </DashboardLayout>
+  );
+}
@@ -0,0 +1,252 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { format } from "date-fns";
+import DashboardLayout from "../../../components/dashboard/DashboardLayout";
+import CoachAvailabilityEditor from "../../../components/dashboard/CoachAvailabilityEditor";
+import { useAuth } from "../../../lib/auth/auth-context";
+import { Reservation } from "../../../lib/api/booking-api";
+import {
+  bookLesson,
+  Coach,
+  getCoaches,
+  getCoachLessons,
+  getLessonSlots,
+  getLessonTypes,
+  LessonSlot,
+  LessonType,
+} from "../../../lib/api/lesson-api";
+
+const formatPrice = (cents: number) => `$${(cents / 100).toFixed(2)}`;
+
+export default function LessonsPage() {
+  const { user, token } = useAuth();
+  const [coaches, setCoaches] = useState<Coach[]>([]);
+  const [lessonTypes, setLessonTypes] = useState<LessonType[]>([]);
+  const [coachId, setCoachId] = useState("");
+  const [lessonTypeId, setLessonTypeId] = useState("");
+  const [date, setDate] = useState(format(new Date(), "yyyy-MM-dd"));
+  const [slots, setSlots] = useState<LessonSlot[]>([]);
+  const [partnerEmail, setPartnerEmail] = useState("");
+  const [lessons, setLessons] = useState<Reservation[]>([]);
+  const [isLoadingSlots, setIsLoadingSlots] = useState(false);
+  const [bookingStart, setBookingStart] = useState<string | null>(null);
+  const [error, setError] = useState("");
+  const [message, setMessage] = useState("");
+
+  const isCoach = user?.role === "coach";
+  const lessonType = lessonTypes.find((t) => t.id === lessonTypeId);
+
+  useEffect(() => {
+    getCoaches()
+      .then((data) => {
+        setCoaches(data);
+        setCoachId((prev) => prev || data[0]?.id || "");
+      })
+      .catch(() => setCoaches([]));
+    getLessonTypes()
+      .then((data) => {
+        setLessonTypes(data);
+        setLessonTypeId((prev) => prev || data[0]?.id || "");
+      })
+      .catch(() => setLessonTypes([]));
+  }, []);
+
+  useEffect(() => {
+    if (!isCoach || !user || !token) return;
+    getCoachLessons(user.id, token, format(new Date(), "yyyy-MM-dd"))
+      .then(setLessons)
+      .catch(() => setLessons([]));
+  }, [isCoach, user, token]);
+
+  useEffect(() => {
+    if (isCoach || !coachId || !lessonTypeId || !date) return;
+    setIsLoadingSlots(true);
+    setError("");
+    getLessonSlots(coachId, date, lessonTypeId)
+      .then(setSlots)
+      .catch((err: unknown) => {
+        setSlots([]);
+        setError(err instanceof Error ? err.message : "Failed to load lesson times");
+      })
+      .finally(() => setIsLoadingSlots(false));
+  }, [isCoach, coachId, lessonTypeId, date]);
+
+  const handleBook = async (slot: LessonSlot) => {
+    if (!token) return;
+    try {
+      setBookingStart(slot.start);
+      setError("");
+      setMessage("");
+      const email = partnerEmail.trim();
+      await bookLesson(
+        {
+          coachId,
+          lessonTypeId,
+          date,
+          start: slot.start,
+          partners: email && lessonType?.kind === "semi_private" ? [{ email }] : undefined,
+        },
+        token
+      );
+      setMessage("Lesson booked! You can find it under My Bookings.");
+      setPartnerEmail("");
+      setSlots(await getLessonSlots(coachId, date, lessonTypeId));
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : "Failed to book lesson");
+    } finally {
+      setBookingStart(null);
+    }
+  };
+
+  if (!user) return null;
+
+  if (isCoach) {
+    return (
+      <DashboardLayout>
+        <div className="space-y-6">
+          <div>
+            <h1 className="text-3xl font-bold mb-2">
+              <span className="gradient-text">My Lessons</span>
+            </h1>
+            <p className="text-gray-600">
+              Members can book lessons with you during your weekly hours, except when you&apos;re
+              on time off. Each booked lesson starts a journal draft for you to fill in.
+            </p>
+          </div>
+
+          <div className="card">
+            <h2 className="text-xl font-bold mb-4">Upcoming Lessons</h2>
+            {lessons.length === 0 ? (
+              <p className="text-gray-600">No lessons booked yet.</p>
+            ) : (
+              <ul className="divide-y">
+                {lessons.map((lesson) => (
+                  <li key={lesson.id} className="py-3 flex items-center justify-between text-sm">
+                    <span>
+                      {format(new Date(`${lesson.date}T00:00`), "EEE, MMM d")} ·{" "}
+                      {lesson.timeSlot.start}-{lesson.timeSlot.end} · {lesson.courtName}
+                    </span>
+                    <span className="text-gray-600">
+                      {lessonTypes.find((t) => t.id === lesson.lessonTypeId)?.name ?? "Lesson"}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            )}
+            <Link href="/dashboard/journal" className="text-primary-600 text-sm font-medium mt-4 inline-block">
+              Go to journal drafts →
+            </Link>
+          </div>
+
+          <CoachAvailabilityEditor coachId={user.id} />
+        </div>
+      </DashboardLayout>
+    );
+  }
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-6">
+        <div>
+          <h1 className="text-3xl font-bold mb-2">
+            <span className="gradient-text">Book a Lesson</span>
+          </h1>
+          <p className="text-gray-600">
+            Pick a coach and a lesson type to see when they&apos;re teaching. Lesson prices include
+            the court.
+          </p>
+        </div>
+
+        {error && (
+          <div className="p-4 bg-red-50 border border-red-200 rounded-lg text-red-700">{error}</div>
+        )}
+        {message && (
+          <div className="p-4 bg-green-50 border border-green-200 rounded-lg text-green-700">
+            {message}
+          </div>
+        )}
+
+        <div className="card space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+            <div>
+              <label className="text-sm text-gray-600">Coach</label>
+              <select
+                value={coachId}
+                onChange={(event) => setCoachId(event.target.value)}
+                className="mt-1 w-full rounded-lg border border-gray-200 px-3 py-2 text-sm"
+              >
+                {coaches.map((coach) => (
+                  <option key={coach.id} value={coach.id}>
+                    {coach.firstName} {coach.lastName}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="text-sm text-gray-600">Lesson</label>
+              <select
+                value={lessonTypeId}
+                onChange={(event) => setLessonTypeId(event.target.value)}
+                className="mt-1 w-full rounded-lg border border-gray-200 px-3 py-2 text-sm"
+              >
+                {lessonTypes.map((type) => (
+                  <option key={type.id} value={type.id}>
+                    {type.name} · {type.durationMinutes} min · {formatPrice(type.price)}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="text-sm text-gray-600">Date</label>
+              <input
+                type="date"
+                value={date}
+                onChange={(event) => setDate(event.target.value)}
+                className="mt-1 w-full rounded-lg border border-gray-200 px-3 py-2 text-sm"
+              />
+            </div>
+          </div>
+
+          {lessonType?.kind === "semi_private" && (
+            <div>
+              <label className="text-sm text-gray-600">Partner&apos;s email (optional)</label>
+              <input
+                type="email"
+                value={partnerEmail}
+                onChange={(event) => setPartnerEmail(event.target.value)}
+                placeholder="partner@example.com"
+                className="mt-1 w-full rounded-lg border border-gray-200 px-3 py-2 text-sm"
+              />
+            </div>
+          )}
+        </div>
+
+        <div className="card">
+          <h2 className="text-xl font-bold mb-4">Available Times</h2>
+          {coaches.length === 0 ? (
+            <p className="text-gray-600">No coaches are taking bookings right now.</p>
+          ) : isLoadingSlots ? (
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary-600 mx-auto" />
+          ) : slots.length === 0 ? (
+            <p className="text-gray-600">No lesson times on this date. Try another day.</p>
+          ) : (
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+              {slots.map((slot) => (
+                <button
+                  key={slot.start}
+                  className="btn-secondary"
+                  onClick={() => handleBook(slot)}
+                  disabled={bookingStart !== null}
+                >
+                  {bookingStart === slot.start ? "Booking..." : `${slot.start}-${slot.end}`}
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </DashboardLayout>
+  );
+}
@@ -0,0 +1,265 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { format } from "date-fns";
+import DashboardLayout from "../../../components/dashboard/DashboardLayout";
+import StripePaymentForm from "../../../components/StripePaymentForm";
+import { useAuth } from "../../../lib/auth/auth-context";
+import {
+  BillingInterval,
+  cancelSubscription,
+  getMembershipPlans,
+  getMySubscription,
+  MembershipPlan,
+  MembershipSummary,
+  resumeSubscription,
+  subscribeToPlan,
+} from "../../../lib/api/membership-api";
+
+const emptySummary: MembershipSummary = { subscription: null, plan: null, entitlements: null };
+
+const STATUS_LABELS: Record<string, string> = {
+  trialing: "Free trial",
+  active: "Active",
+  past_due: "Payment due",
+  canceled: "Canceled",
+};
+
+function formatCents(cents: number): string {
+  return `$${(cents / 100).toFixed(2)}`;
+}
+
+export default function MembershipPage() {
+  const { user, token } = useAuth();
+  const [plans, setPlans] = useState<MembershipPlan[]>([]);
+  const [summary, setSummary] = useState<MembershipSummary>(emptySummary);
+  const [billingInterval, setBillingInterval] = useState<BillingInterval>("month");
+  const [checkout, setCheckout] = useState<{ clientSecret: string; amount: number } | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [busy, setBusy] = useState<string | null>(null);
+  const [error, setError] = useState("");
+  const [message, setMessage] = useState("");
+
+  const loadMembership = async (activeToken: string) => {
+    try {
+      setError("");
+      const [planList, current] = await Promise.all([
+        getMembershipPlans(),
+        getMySubscription(activeToken),
+      ]);
+      setPlans(planList);
+      setSummary(current);
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : "Failed to load membership");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (!token) return;
+    loadMembership(token);
+  }, [token]);
+
+  /**
+   * Run a membership action, then reload plans and status
+   */
+  const runAction = async (id: string, action: () => Promise<unknown>, success: string) => {
+    if (!token) return;
+    try {
+      setBusy(id);
+      setError("");
+      setMessage("");
+      await action();
+      setMessage(success);
+      await loadMembership(token);
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : "Something went wrong");
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleSubscribe = async (plan: MembershipPlan) => {
+    if (!token) return;
+    try {
+      setBusy(plan.id);
+      setError("");
+      setMessage("");
+      const result = await subscribeToPlan(plan.id, billingInterval, token);
+      if (result.clientSecret) {
+        setCheckout({
+          clientSecret: result.clientSecret,
+          amount: plan.prices[billingInterval] ?? 0,
+        });
+      } else {
+        setMessage(`Your ${plan.name} trial has started.`);
+      }
+      await loadMembership(token);
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : "Failed to start membership");
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  if (!user) return null;
+
+  const { subscription, plan: currentPlan, entitlements } = summary;
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-6">
+        <div>
+          <h1 className="text-3xl font-bold mb-2">
+            <span className="gradient-text">Membership</span>
+          </h1>
+          <p className="text-gray-600">
+            Members book further ahead and pay less for court time. Plans renew automatically
+            and can be canceled any time.
+          </p>
+        </div>
+
+        {error && (
+          <div className="p-4 bg-red-50 border border-red-200 rounded-lg text-red-700">{error}</div>
+        )}
+        {message && (
+          <div className="p-4 bg-green-50 border border-green-200 rounded-lg text-green-700">
+            {message}
+          </div>
+        )}
+
+        {checkout ? (
+          <div className="card">
+            <h2 className="text-xl font-bold mb-4">Complete Your First Payment</h2>
+            <StripePaymentForm
+              clientSecret={checkout.clientSecret}
+              amount={checkout.amount / 100}
+              onSuccess={() => {
+                setCheckout(null);
+                setMessage("Payment received. Your membership will be active in a moment.");
+                if (token) loadMembership(token);
+              }}
+              onError={(msg) => setError(msg)}
+              onBack={() => setCheckout(null)}
+            />
+          </div>
+        ) : isLoading ? (
+          <div className="text-center py-12">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary-600 mx-auto mb-4" />
+            <p className="text-gray-600">Loading membership...</p>
+          </div>
+        ) : (
+          <>
+            {subscription && currentPlan && (
+              <div className="card space-y-3">
+                <div className="flex items-center justify-between">
+                  <div>
+                    <h2 className="text-xl font-bold">{currentPlan.name} Membership</h2>
+                    <p className="text-sm text-gray-500">
+                      {STATUS_LABELS[subscription.status]} · Billed{" "}
+                      {subscription.interval === "year" ? "yearly" : "monthly"}
+                    </p>
+                  </div>
+                  {subscription.cancelAtPeriodEnd ? (
+                    <button
+                      className="btn-primary text-sm"
+                      disabled={busy === "resume"}
+                      onClick={() =>
+                        runAction(
+                          "resume",
+                          () => resumeSubscription(token!),
+                          "Your membership will renew."
+                        )
+                      }
+                    >
+                      Keep Membership
+                    </button>
+                  ) : (
+                    <button
+                      className="btn-secondary text-sm"
+                      disabled={busy === "cancel"}
+                      onClick={() => {
+                        if (!confirm("Cancel your membership at the end of this period?")) return;
+                        runAction(
+                          "cancel",
+                          () => cancelSubscription(token!),
+                          "Your membership will end at the close of this period."
+                        );
+                      }}
+                    >
+                      Cancel Membership
+                    </button>
+                  )}
+                </div>
+                <p className="text-sm text-gray-600">
+                  {subscription.cancelAtPeriodEnd ? "Ends" : "Renews"} on{" "}
+                  {format(new Date(subscription.currentPeriodEnd), "MMMM d, yyyy")}.
+                  {subscription.status === "past_due" &&
+                    " We couldn't collect your last payment; update your card to keep your benefits."}
+                </p>
+              </div>
+            )}
+
+            {!subscription && entitlements?.coveredBy && (
+              <div className="card">
+                <p className="text-gray-700">
+                  You&apos;re covered by a parent&apos;s {entitlements.planName} plan: book up to{" "}
+                  {entitlements.bookingWindowDays} days ahead with{" "}
+                  {Math.round(entitlements.courtDiscount * 100)}% off court time.
+                </p>
+              </div>
+            )}
+
+            <div className="flex gap-2">
+              {(["month", "year"] as BillingInterval[]).map((option) => (
+                <button
+                  key={option}
+                  className={billingInterval === option ? "btn-primary text-sm" : "btn-secondary text-sm"}
+                  onClick={() => setBillingInterval(option)}
+                >
+                  {option === "month" ? "Monthly" : "Yearly"}
+                </button>
+              ))}
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              {plans.map((plan) => {
+                const price = plan.prices[billingInterval];
+                const isCurrent = subscription?.planId === plan.id;
+                return (
+                  <div
+                    key={plan.id}
+                    className={`card space-y-3 ${isCurrent ? "border-2 border-primary-300" : ""}`}
+                  >
+                    <div className="flex items-baseline justify-between">
+                      <h3 className="text-lg font-bold">{plan.name}</h3>
+                      <span className="font-semibold text-primary-600">
+                        {price !== undefined
+                          ? `${formatCents(price)}/${billingInterval === "month" ? "mo" : "yr"}`
+                          : "Monthly only"}
+                      </span>
+                    </div>
+                    <p className="text-sm text-gray-600">{plan.description}</p>
+                    <ul className="text-sm text-gray-700 space-y-1">
+                      <li>Book up to {plan.entitlements.bookingWindowDays} days ahead</li>
+                      <li>{Math.round(plan.entitlements.courtDiscount * 100)}% off court time</li>
+                      {plan.trialDays ? <li>{plan.trialDays}-day free trial</li> : null}
+                    </ul>
+                    <button
+                      className="btn-primary w-full text-sm"
+                      disabled={!!subscription || price === undefined || busy === plan.id}
+                      onClick={() => handleSubscribe(plan)}
+                    >
+                      {isCurrent ? "Current Plan" : busy === plan.id ? "Starting..." : "Choose Plan"}
+                    </button>
+                  </div>
+                );
+              })}
+            </div>
+          </>
+        )}
+      </div>
+    </DashboardLayout>
+  );
+}
@@ -3,12 +3,14 @@
 import { useEffect, useState } from "react";
 import DashboardLayout from "../../../components/dashboard/DashboardLayout";
 import ProfileCard from "../../../components/dashboard/ProfileCard";
+import ActiveDevicesCard from "../../../components/dashboard/ActiveDevicesCard";
+import CalendarFeedsCard from "../../../components/dashboard/CalendarFeedsCard";
 import { useAuth } from "../../../lib/auth/auth-context";
 import { getCurrentMember, updateMember, Member } from "../../../lib/api/member-api";
 import { motion } from "framer-motion";
 
 export default function ProfilePage() {
-  const { user, token, refreshUser } = useAuth();
+  const { user, token, refreshUser, logoutAll } = useAuth();
   const [member, setMember] = useState<Member | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [isUpdating, setIsUpdating] = useState(false);
@@ -76,6 +78,10 @@ export default function ProfilePage() {
           </div>
         )}
 
+        {token && <CalendarFeedsCard token={token} />}
+
+        {token && <ActiveDevicesCard token={token} onLogoutAll={logoutAll} />}
+
         {member && !member.emailVerified && (
           <motion.div
             initial={{ opacity: 0, y: 10 }}
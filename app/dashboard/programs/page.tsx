@@ -0,0 +1,325 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { format } from "date-fns";
+import DashboardLayout from "../../../components/dashboard/DashboardLayout";
+import ProgramRosterCard from "../../../components/dashboard/ProgramRosterCard";
+import StripePaymentForm from "../../../components/StripePaymentForm";
+import { useAuth } from "../../../lib/auth/auth-context";
+import {
+  confirmPaymentOnServer,
+  createEnrollmentPaymentIntent,
+} from "../../../lib/api/payment-api";
+import {
+  enrollInProgram,
+  getCoachPrograms,
+  getMyProgramEnrollments,
+  getPrograms,
+  MemberProgramEnrollment,
+  Program,
+  ProgramKind,
+  ProgramListing,
+  withdrawFromProgram,
+} from "../../../lib/api/program-api";
+
+const KIND_LABELS: Record<ProgramKind, string> = {
+  clinic: "Clinic",
+  camp: "Camp",
+  junior_development: "Junior Development",
+};
+
+const STATUS_LABELS: Record<MemberProgramEnrollment["status"], string> = {
+  enrolled: "Enrolled",
+  waitlisted: "Waitlisted",
+  cancelled: "Withdrawn",
+};
+
+const formatPrice = (cents: number) => `$${(cents / 100).toFixed(2)}`;
+
+const formatDate = (date: string) => format(new Date(`${date}T00:00`), "EEE, MMM d");
+
+function formatEligibility(program: Program): string {
+  const limits: string[] = [];
+  if (program.minAge !== undefined || program.maxAge !== undefined) {
+    limits.push(
+      program.maxAge === undefined
+        ? `Ages ${program.minAge}+`
+        : `Ages ${program.minAge ?? 0}-${program.maxAge}`
+    );
+  }
+  if (program.minNtrp !== undefined || program.maxNtrp !== undefined) {
+    limits.push(
+      program.maxNtrp === undefined
+        ? `NTRP ${program.minNtrp?.toFixed(1)}+`
+        : `NTRP ${(program.minNtrp ?? 1).toFixed(1)}-${program.maxNtrp.toFixed(1)}`
+    );
+  }
+  return limits.length > 0 ? limits.join(" · ") : "All players";
+}
+
+export default function ProgramsPage() {
+  const { user, token } = useAuth();
+  const [programs, setPrograms] = useState<ProgramListing[]>([]);
+  const [enrollments, setEnrollments] = useState<MemberProgramEnrollment[]>([]);
+  const [coaching, setCoaching] = useState<ProgramListing[]>([]);
+  const [kind, setKind] = useState<ProgramKind | "">("");
+  const [checkout, setCheckout] = useState<{
+    enrollmentId: string;
+    clientSecret: string;
+    amount: number;
+  } | null>(null);
+  const [busy, setBusy] = useState<string | null>(null);
+  const [error, setError] = useState("");
+  const [message, setMessage] = useState("");
+
+  const isCoach = user?.role === "coach";
+
+  const loadPrograms = useCallback(
+    async (activeToken: string) => {
+      try {
+        const [catalog, mine] = await Promise.all([
+          getPrograms(kind || undefined),
+          getMyProgramEnrollments(activeToken),
+        ]);
+        setPrograms(catalog);
+        setEnrollments(mine.filter((e) => e.status !== "cancelled"));
+      } catch (err: unknown) {
+        setError(err instanceof Error ? err.message : "Failed to load programs");
+      }
+    },
+    [kind]
+  );
+
+  useEffect(() => {
+    if (!token) return;
+    loadPrograms(token);
+  }, [token, loadPrograms]);
+
+  useEffect(() => {
+    if (!isCoach || !user || !token) return;
+    getCoachPrograms(user.id, token)
+      .then(setCoaching)
+      .catch(() => setCoaching([]));
+  }, [isCoach, user, token]);
+
+  /**
+   * Run a program action, then reload the catalog and the member's programs
+   */
+  const runAction = async (id: string, action: () => Promise<string>) => {
+    if (!token) return;
+    try {
+      setBusy(id);
+      setError("");
+      setMessage("");
+      setMessage(await action());
+      await loadPrograms(token);
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : "Something went wrong");
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleEnroll = (program: ProgramListing) =>
+    runAction(program.id, async () => {
+      const enrollment = await enrollInProgram(program.id, token!);
+      return enrollment.status === "waitlisted"
+        ? `${program.name} is full, so you're on the waitlist. We'll email you if a seat opens up.`
+        : `You're enrolled in ${program.name}.${program.price > 0 ? " Pay below to hold your seat." : ""}`;
+    });
+
+  const handleWithdraw = (enrollment: MemberProgramEnrollment) => {
+    if (!confirm(`Withdraw from ${enrollment.program.name}?`)) return;
+    runAction(enrollment.id, async () => {
+      const { refund } = await withdrawFromProgram(enrollment.programId, enrollment.id, token!);
+      return refund?.refundAmount
+        ? `Withdrawn. ${formatPrice(refund.refundAmount)} will be refunded to your card.`
+        : "Withdrawn.";
+    });
+  };
+
+  const handlePay = async (enrollment: MemberProgramEnrollment) => {
+    if (!token) return;
+    try {
+      setBusy(enrollment.id);
+      setError("");
+      const intent = await createEnrollmentPaymentIntent(token, enrollment.id);
+      setCheckout({ enrollmentId: enrollment.id, clientSecret: intent.clientSecret, amount: intent.amount });
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : "Failed to start payment");
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handlePaid = async (paymentIntentId: string) => {
+    setCheckout(null);
+    if (!token) return;
+    try {
+      await confirmPaymentOnServer(token, { paymentIntentId });
+    } catch (err: unknown) {
+      // Payment succeeded on Stripe; the webhook will catch the enrollment up
+      console.error("Error confirming program payment:", err);
+    }
+    setMessage("Payment received. See you on court!");
+    await loadPrograms(token);
+  };
+
+  if (!user) return null;
+
+  const enrolledIds = new Set(enrollments.map((e) => e.programId));
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-6">
+        <div>
+          <h1 className="text-3xl font-bold mb-2">
+            <span className="gradient-text">Programs</span>
+          </h1>
+          <p className="text-gray-600">
+            Clinics, camps and junior development groups run by our coaches. When a program is
+            full you can join the waitlist and we&apos;ll email you if a seat opens up.
+          </p>
+        </div>
+
+        {error && (
+          <div className="p-4 bg-red-50 border border-red-200 rounded-lg text-red-700">{error}</div>
+        )}
+        {message && (
+          <div className="p-4 bg-green-50 border border-green-200 rounded-lg text-green-700">
+            {message}
+          </div>
+        )}
+
+        {isCoach && coaching.length > 0 && (
+          <div className="space-y-4">
+            <h2 className="text-xl font-bold">Class Rosters</h2>
+            {coaching
+              .filter((program) => program.status === "open")
+              .map((program) => (
+                <ProgramRosterCard key={program.id} program={program} />
+              ))}
+          </div>
+        )}
+
+        {checkout ? (
+          <div className="card">
+            <h2 className="text-xl font-bold mb-4">Pay for Your Seat</h2>
+            <StripePaymentForm
+              clientSecret={checkout.clientSecret}
+              amount={checkout.amount / 100}
+              onSuccess={handlePaid}
+              onError={(msg) => setError(msg)}
+              onBack={() => setCheckout(null)}
+            />
+          </div>
+        ) : (
+          enrollments.length > 0 && (
+            <div className="card">
+              <h2 className="text-xl font-bold mb-4">My Programs</h2>
+              <ul className="divide-y">
+                {enrollments.map((enrollment) => (
+                  <li key={enrollment.id} className="py-3 flex items-center justify-between text-sm">
+                    <div>
+                      <p className="font-medium">{enrollment.program.name}</p>
+                      <p className="text-gray-500">
+                        {STATUS_LABELS[enrollment.status]} · Starts{" "}
+                        {formatDate(enrollment.program.sessions[0].date)}
+                        {enrollment.paymentStatus === "paid" && " · Paid"}
+                      </p>
+                    </div>
+                    <div className="space-x-2">
+                      {enrollment.status === "enrolled" &&
+                        enrollment.program.price > 0 &&
+                        enrollment.paymentStatus !== "paid" && (
+                          <button
+                            className="btn-primary text-sm"
+                            disabled={busy === enrollment.id}
+                            onClick={() => handlePay(enrollment)}
+                          >
+                            Pay {formatPrice(enrollment.program.price)}
+                          </button>
+                        )}
+                      <button
+                        className="text-red-600 hover:text-red-700 font-medium"
+                        disabled={busy === enrollment.id}
+                        onClick={() => handleWithdraw(enrollment)}
+                      >
+                        {enrollment.status === "waitlisted" ? "Leave waitlist" : "Withdraw"}
+                      </button>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )
+        )}
+
+        <div className="card space-y-4">
+          <div className="flex items-center justify-between">
+            <h2 className="text-xl font-bold">Upcoming Programs</h2>
+            <select
+              value={kind}
+              onChange={(event) => setKind(event.target.value as ProgramKind | "")}
+              className="rounded-lg border border-gray-200 px-3 py-2 text-sm"
+            >
+              <option value="">All programs</option>
+              {(Object.keys(KIND_LABELS) as ProgramKind[]).map((option) => (
+                <option key={option} value={option}>
+                  {KIND_LABELS[option]}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          {programs.length === 0 ? (
+            <p className="text-gray-600">No programs are open for sign-up right now.</p>
+          ) : (
+            <ul className="divide-y">
+              {programs.map((program) => {
+                const isFull = program.enrolledCount >= program.capacity;
+                return (
+                  <li key={program.id} className="py-4 flex items-start justify-between gap-4">
+                    <div className="space-y-1">
+                      <p className="font-medium">
+                        {program.name}{" "}
+                        <span className="text-xs text-gray-500">{KIND_LABELS[program.kind]}</span>
+                      </p>
+                      {program.description && (
+                        <p className="text-sm text-gray-600">{program.description}</p>
+                      )}
+                      <p className="text-sm text-gray-500">
+                        {program.sessions.length} session{program.sessions.length === 1 ? "" : "s"}{" "}
+                        from {formatDate(program.sessions[0].date)} · {program.sessions[0].start}-
+                        {program.sessions[0].end} · {formatEligibility(program)}
+                      </p>
+                      <p className="text-sm text-gray-500">
+                        {formatPrice(program.price)} ·{" "}
+                        {isFull
+                          ? `Full (${program.waitlistCount} waitlisted)`
+                          : `${program.capacity - program.enrolledCount} seats left`}
+                      </p>
+                    </div>
+                    {!isCoach && (
+                      <button
+                        className={isFull ? "btn-secondary text-sm" : "btn-primary text-sm"}
+                        disabled={busy === program.id || enrolledIds.has(program.id)}
+                        onClick={() => handleEnroll(program)}
+                      >
+                        {enrolledIds.has(program.id)
+                          ? "Signed up"
+                          : isFull
+                            ? "Join waitlist"
+                            : "Enroll"}
+                      </button>
+                    )}
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </div>
+      </div>
+    </DashboardLayout>
+  );
+}
@@ -0,0 +1,288 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { format, formatDistanceToNow } from "date-fns";
+import DashboardLayout from "../../../components/dashboard/DashboardLayout";
+import { useAuth } from "../../../lib/auth/auth-context";
+import { Court, getCourts } from "../../../lib/api/admin-booking-api";
+import {
+  bookHeldSlot,
+  getMyWaitlist,
+  joinWaitlist,
+  leaveWaitlist,
+  WaitlistEntry,
+  WaitlistInput,
+} from "../../../lib/api/waitlist-api";
+
+const STATUS_LABELS: Record<WaitlistEntry["status"], string> = {
+  waiting: "Waiting",
+  offered: "Slot held for you",
+  fulfilled: "Booked",
+  expired: "Hold expired",
+  cancelled: "Left waitlist",
+};
+
+const emptyForm = (): WaitlistInput => ({
+  courtId: "",
+  date: format(new Date(), "yyyy-MM-dd"),
+  timeRange: { start: "18:00", end: "19:00" },
+});
+
+export default function WaitlistPage() {
+  const { user, token } = useAuth();
+  const [entries, setEntries] = useState<WaitlistEntry[]>([]);
+  const [courts, setCourts] = useState<Court[]>([]);
+  const [form, setForm] = useState<WaitlistInput>(emptyForm);
+  const [isLoading, setIsLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [error, setError] = useState("");
+  const [message, setMessage] = useState("");
+
+  const loadWaitlist = async (activeToken: string) => {
+    try {
+      setError("");
+      setEntries(await getMyWaitlist(activeToken));
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : "Failed to load waitlist");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (!token) return;
+    loadWaitlist(token);
+    getCourts(token)
+      .then((data) => setCourts(data))
+      .catch(() => setCourts([]));
+  }, [token]);
+
+  const courtName = (courtId?: string) =>
+    courtId ? courts.find((c) => c.id === courtId)?.name ?? `Court ${courtId}` : "Any court";
+
+  const handleJoin = async () => {
+    if (!token) return;
+    try {
+      setBusyId("join");
+      setError("");
+      setMessage("");
+      await joinWaitlist({ ...form, courtId: form.courtId || undefined }, token);
+      setForm(emptyForm());
+      setMessage("You're on the waitlist. We'll email you if a slot opens up.");
+      await loadWaitlist(token);
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : "Failed to join waitlist");
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleLeave = async (id: string) => {
+    if (!token) return;
+    try {
+      setBusyId(id);
+      setError("");
+      await leaveWaitlist(id, token);
+      await loadWaitlist(token);
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : "Failed to leave waitlist");
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleBook = async (id: string) => {
+    if (!token) return;
+    try {
+      setBusyId(id);
+      setError("");
+      await bookHeldSlot(id, token);
+      setMessage("Booked! You can find it under My Bookings.");
+      await loadWaitlist(token);
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : "Failed to book held slot");
+      await loadWaitlist(token);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  if (!user) return null;
+
+  const offers = entries.filter((e) => e.status === "offered" && e.hold);
+  const waiting = entries.filter((e) => e.status === "waiting");
+  const history = entries.filter((e) => e.status !== "offered" && e.status !== "waiting");
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-6">
+        <div>
+          <h1 className="text-3xl font-bold mb-2">
+            <span className="gradient-text">Waitlist</span>
+          </h1>
+          <p className="text-gray-600">
+            Wait for a fully booked time. When a matching slot frees up, it&apos;s held for the
+            first member in line for a limited time.
+          </p>
+        </div>
+
+        {error && (
+          <div className="p-4 bg-red-50 border border-red-200 rounded-lg text-red-700">{error}</div>
+        )}
+        {message && (
+          <div className="p-4 bg-green-50 border border-green-200 rounded-lg text-green-700">
+            {message}
+          </div>
+        )}
+
+        {offers.map((entry) => (
+          <div key={entry.id} className="card border-2 border-green-300 bg-green-50">
+            <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+              <div>
+                <div className="text-sm font-semibold text-green-800">🎉 A slot is being held for you</div>
+                <div className="text-lg font-bold">
+                  {entry.hold!.courtName} · {format(new Date(`${entry.date}T00:00`), "EEE, MMM d")} ·{" "}
+                  {entry.hold!.timeSlot.start}-{entry.hold!.timeSlot.end}
+                </div>
+                <div className="text-sm text-gray-600">
+                  Hold expires {formatDistanceToNow(new Date(entry.hold!.expiresAt), { addSuffix: true })}
+                </div>
+              </div>
+              <div className="flex gap-2">
+                <button
+                  className="btn-secondary"
+                  onClick={() => handleLeave(entry.id)}
+                  disabled={busyId === entry.id}
+                >
+                  Pass
+                </button>
+                <button
+                  className="btn-primary"
+                  onClick={() => handleBook(entry.id)}
+                  disabled={busyId === entry.id}
+                >
+                  {busyId === entry.id ? "Booking..." : "Book Now"}
+                </button>
+              </div>
+            </div>
+          </div>
+        ))}
+
+        <div className="card space-y-4">
+          <h2 className="text-xl font-bold">Join the Waitlist</h2>
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
+            <div>
+              <label className="text-sm text-gray-600">Date</label>
+              <input
+                type="date"
+                value={form.date}
+                onChange={(event) => setForm((prev) => ({ ...prev, date: event.target.value }))}
+                className="mt-1 w-full rounded-lg border border-gray-200 px-3 py-2 text-sm"
+              />
+            </div>
+            <div>
+              <label className="text-sm text-gray-600">Court</label>
+              <select
+                value={form.courtId}
+                onChange={(event) => setForm((prev) => ({ ...prev, courtId: event.target.value }))}
+                className="mt-1 w-full rounded-lg border border-gray-200 px-3 py-2 text-sm"
+              >
+                <option value="">Any court</option>
+                {courts.map((court) => (
+                  <option key={court.id} value={court.id}>
+                    {court.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="text-sm text-gray-600">From</label>
+              <input
+                type="time"
+                value={form.timeRange.start}
+                onChange={(event) =>
+                  setForm((prev) => ({
+                    ...prev,
+                    timeRange: { ...prev.timeRange, start: event.target.value },
+                  }))
+                }
+                className="mt-1 w-full rounded-lg border border-gray-200 px-3 py-2 text-sm"
+              />
+            </div>
+            <div>
+              <label className="text-sm text-gray-600">Until</label>
+              <input
+                type="time"
+                value={form.timeRange.end}
+                onChange={(event) =>
+                  setForm((prev) => ({
+                    ...prev,
+                    timeRange: { ...prev.timeRange, end: event.target.value },
+                  }))
+                }
+                className="mt-1 w-full rounded-lg border border-gray-200 px-3 py-2 text-sm"
+              />
+            </div>
+          </div>
+          <div className="flex justify-end">
+            <button className="btn-primary" onClick={handleJoin} disabled={busyId === "join"}>
+              {busyId === "join" ? "Joining..." : "Join Waitlist"}
+            </button>
+          </div>
+        </div>
+
+        {isLoading ? (
+          <div className="text-center py-12">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary-600 mx-auto mb-4" />
+            <p className="text-gray-600">Loading waitlist...</p>
+          </div>
+        ) : waiting.length === 0 && history.length === 0 && offers.length === 0 ? (
+          <div className="card text-center py-12">
+            <p className="text-gray-600 mb-4">You&apos;re not on any waitlists.</p>
+            <Link href="/dashboard/book" className="btn-primary inline-block">
+              Book a Court
+            </Link>
+          </div>
+        ) : (
+          <div className="card overflow-x-auto">
+            <table className="min-w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-500 border-b">
+                  <th className="py-3 pr-4">Date</th>
+                  <th className="py-3 pr-4">Time</th>
+                  <th className="py-3 pr-4">Court</th>
+                  <th className="py-3 pr-4">Status</th>
+                  <th className="py-3"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {[...waiting, ...history].map((entry) => (
+                  <tr key={entry.id} className="border-b last:border-b-0">
+                    <td className="py-3 pr-4">{entry.date}</td>
+                    <td className="py-3 pr-4">
+                      {entry.timeRange.start}-{entry.timeRange.end}
+                    </td>
+                    <td className="py-3 pr-4">{courtName(entry.courtId)}</td>
+                    <td className="py-3 pr-4">{STATUS_LABELS[entry.status]}</td>
+                    <td className="py-3 text-right">
+                      {entry.status === "waiting" && (
+                        <button
+                          className="text-red-600 hover:text-red-700 font-medium"
+                          onClick={() => handleLeave(entry.id)}
+                          disabled={busyId === entry.id}
+                        >
+                          Leave
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </DashboardLayout>
+  );
+}
@@ -0,0 +1,260 @@
+import { describe, it, expect, afterEach, vi } from "vitest";
+import { runToolLoop, toHistory } from "../../lib/ai/tool-loop";
+import { getLLMProvider, setLLMProvider } from "../../lib/ai/llm-provider";
+import { ScriptedProvider } from "../../lib/ai/scripted-provider";
+import { LLMAbortedError, LLMConfigError } from "../../lib/errors/llm-errors";
+import { ChatStreamEvent, ToolDeclaration } from "../../types/llm";
+
+const echoTool: ToolDeclaration = {
+  name: "echo",
+  description: "Echo the input",
+  parameters: {
+    type: "object",
+    properties: { value: { type: "string" } },
+    required: ["value"],
+  },
+};
+
+afterEach(() => {
+  setLLMProvider(null);
+  delete process.env.LLM_PROVIDER;
+});
+
+describe("toHistory", () => {
+  it("keeps the last messages and drops a leading assistant reply", () => {
+    const history = toHistory(
+      [
+        { role: "user", content: "one" },
+        { role: "assistant", content: "two" },
+        { role: "system", content: "ignored" },
+        { role: "user", content: "three" },
+      ],
+      2
+    );
+
+    expect(history).toEqual([{ role: "user", content: "three" }]);
+  });
+});
+
+describe("runToolLoop", () => {
+  it("runs scripted tool calls and returns the final answer", async () => {
+    const provider = new ScriptedProvider([
+      {
+        toolCalls: [
+          { name: "echo", args: { value: "a" } },
+          { name: "echo", args: { value: "b" } },
+        ],
+      },
+      { text: "Done" },
+    ]);
+    setLLMProvider(provider);
+    const handleToolCall = vi.fn(async (call) => ({ success: true, value: call.args.value }));
+
+    const result = await runToolLoop({
+      system: "Be brief",
+      history: [],
+      message: "Echo twice",
+      tools: [echoTool],
+      handleToolCall,
+    });
+
+    expect(result.text).toBe("Done");
+    expect(handleToolCall).toHaveBeenCalledTimes(2);
+    expect(result.toolResults.map((r) => r.response.value)).toEqual(["a", "b"]);
+
+    // The second request carries the tool calls and both results
+    expect(provider.requests).toHaveLength(2);
+    expect(provider.requests[1].system).toBe("Be brief");
+    expect(provider.requests[1].messages.slice(-2)).toEqual([
+      {
+        role: "assistant",
+        content: "",
+        toolCalls: [
+          { name: "echo", args: { value: "a" } },
+          { name: "echo", args: { value: "b" } },
+        ],
+      },
+      {
+        role: "tool",
+        results: [
+          { name: "echo", response: { success: true, value: "a" } },
+          { name: "echo", response: { success: true, value: "b" } },
+        ],
+      },
+    ]);
+    expect(result.messages[result.messages.length - 1]).toEqual({
+      role: "assistant",
+      content: "Done",
+    });
+  });
+
+  it("reports a throwing tool to the model as a failed result", async () => {
+    setLLMProvider(
+      new ScriptedProvider([{ toolCalls: [{ name: "echo", args: {} }] }, { text: "Sorry" }])
+    );
+
+    const result = await runToolLoop({
+      history: [],
+      message: "Echo",
+      tools: [echoTool],
+      handleToolCall: async () => {
+        throw new Error("Value is required");
+      },
+    });
+
+    expect(result.text).toBe("Sorry");
+    expect(result.toolResults[0].response).toEqual({ success: false, error: "Value is required" });
+  });
+
+  it("stops after the maximum number of tool rounds", async () => {
+    const call = { name: "echo", args: { value: "again" } };
+    const provider = new ScriptedProvider([
+      { toolCalls: [call] },
+      { toolCalls: [call] },
+      { toolCalls: [call] },
+    ]);
+    setLLMProvider(provider);
+    const handleToolCall = vi.fn(async () => ({ success: true }));
+
+    await runToolLoop({
+      history: [],
+      message: "Loop",
+      tools: [echoTool],
+      handleToolCall,
+      maxTurns: 2,
+    });
+
+    expect(handleToolCall).toHaveBeenCalledTimes(2);
+    expect(provider.remaining).toBe(0);
+  });
+
+  it("echoes the user once the script runs out", async () => {
+    setLLMProvider(new ScriptedProvider());
+
+    const result = await runToolLoop({
+      history: [],
+      message: "Hello",
+      tools: [],
+      handleToolCall: async () => ({}),
+    });
+
+    expect(result.text).toBe("You said: Hello");
+  });
+});
+
+describe("runToolLoop with a stream", () => {
+  it("reports text deltas and tool progress as they happen", async () => {
+    setLLMProvider(
+      new ScriptedProvider([
+        { toolCalls: [{ name: "echo", args: { value: "a" } }] },
+        { text: "All done now" },
+      ])
+    );
+    const events: ChatStreamEvent[] = [];
+
+    const result = await runToolLoop({
+      history: [],
+      message: "Echo",
+      tools: [echoTool],
+      handleToolCall: async () => ({ success: false, error: "Nope" }),
+      stream: { onEvent: (event) => events.push(event) },
+      toolLabels: { echo: "Echoing" },
+    });
+
+    expect(events).toEqual([
+      { type: "tool_start", name: "echo", label: "Echoing" },
+      { type: "tool_end", name: "echo", label: "Echoing", success: false },
+      { type: "delta", text: "All " },
+      { type: "delta", text: "done " },
+      { type: "delta", text: "now" },
+    ]);
+    expect(result.text).toBe("All done now");
+  });
+
+  it("labels tools without a label from their name", async () => {
+    setLLMProvider(
+      new ScriptedProvider([{ toolCalls: [{ name: "searchPlayersByName", args: {} }] }])
+    );
+    const events: ChatStreamEvent[] = [];
+
+    await runToolLoop({
+      history: [],
+      message: "Find Jose",
+      tools: [],
+      handleToolCall: async () => ({ success: true }),
+      stream: { onEvent: (event) => events.push(event) },
+    });
+
+    expect(events[0]).toEqual({
+      type: "tool_start",
+      name: "searchPlayersByName",
+      label: "Search players by name",
+    });
+  });
+
+  it("finishes the running tool but stops before the next model call when cancelled", async () => {
+    const provider = new ScriptedProvider([
+      { toolCalls: [{ name: "echo", args: { value: "a" } }] },
+      { text: "Never sent" },
+    ]);
+    setLLMProvider(provider);
+    const controller = new AbortController();
+    const handleToolCall = vi.fn(async () => ({ success: true }));
+
+    await expect(
+      runToolLoop({
+        history: [],
+        message: "Echo",
+        tools: [echoTool],
+        handleToolCall,
+        stream: {
+          onEvent: (event) => {
+            if (event.type === "tool_start") controller.abort();
+          },
+          signal: controller.signal,
+        },
+      })
+    ).rejects.toThrow(LLMAbortedError);
+
+    expect(handleToolCall).toHaveBeenCalledTimes(1);
+    expect(provider.requests).toHaveLength(1);
+  });
+
+  it("stops streaming text when cancelled", async () => {
+    setLLMProvider(new ScriptedProvider([{ text: "one two three" }]));
+    const controller = new AbortController();
+    const deltas: string[] = [];
+
+    await expect(
+      runToolLoop({
+        history: [],
+        message: "Count",
+        tools: [],
+        handleToolCall: async () => ({}),
+        stream: {
+          onEvent: (event) => {
+            if (event.type === "delta") {
+              deltas.push(event.text);
+              controller.abort();
+            }
+          },
+          signal: controller.signal,
+        },
+      })
+    ).rejects.toThrow(LLMAbortedError);
+
+    expect(deltas).toEqual(["one "]);
+  });
+});
+
+describe("getLLMProvider", () => {
+  it("selects the fake provider from the environment", async () => {
+    process.env.LLM_PROVIDER = "fake";
+    expect((await getLLMProvider()).name).toBe("fake");
+  });
+
+  it("rejects unknown providers", async () => {
+    process.env.LLM_PROVIDER = "parrot";
+    await expect(getLLMProvider()).rejects.toThrow(LLMConfigError);
+  });
+});
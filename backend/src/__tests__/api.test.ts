@@ -4,15 +4,19 @@ import path from "path";
 import { promises as fs } from "fs";
 import os from "os";
 import app from "../app";
+import { createSession } from "../lib/auth/session-manager";
 import { reservationCache } from "../lib/cache/reservation-cache";
 import { reservationRepository } from "../lib/repositories/file-reservation-repository";
 
 let tempDir = "";
+let adminAuth = "";
 
 beforeAll(async () => {
   const baseDir = await fs.mkdtemp(path.join(os.tmpdir(), "pta-backend-"));
   tempDir = baseDir;
   process.env.DATA_DIR = tempDir;
+  // Admin session for the protected member/reservation endpoints
+  adminAuth = `Bearer ${(await createSession("test-admin", "admin@example.com", "admin")).token}`;
 });
 
 beforeEach(async () => {
@@ -149,9 +153,9 @@ describe("backend api", () => {
       .send(payload);
     const reservationId = createResponse.body.id as string;
 
-    const deleteResponse = await request(app).delete(
-      `/api/reservations/${reservationId}`
-    );
+    const deleteResponse = await request(app)
+      .delete(`/api/reservations/${reservationId}`)
+      .set("Authorization", adminAuth);
     expect(deleteResponse.status).toBe(200);
     expect(deleteResponse.body.message).toBe(
       "Reservation cancelled successfully"
@@ -208,6 +212,7 @@ describe("backend api", () => {
 
     const updateResponse = await request(app)
       .put(`/api/reservations/${reservationId}`)
+      .set("Authorization", adminAuth)
       .send(updatePayload);
 
     expect(updateResponse.status).toBe(200);
@@ -224,6 +229,7 @@ describe("backend api", () => {
 
     const updateResponse = await request(app)
       .put("/api/reservations/non-existent-id")
+      .set("Authorization", adminAuth)
       .send(updatePayload);
 
     expect(updateResponse.status).toBe(404);
@@ -240,10 +246,10 @@ describe("backend api", () => {
     const hourOffset2 = Math.floor(((uniqueId + 1000) / 1000) % 10);
     const minuteOffset2 = Math.floor(((uniqueId + 1000) / 100) % 60);
     
-    // Ensure they're different hours to avoid conflicts
-    const startHour1 = 10 + hourOffset1;
+    // Ensure they're different hours to avoid conflicts, and both end before the 21:00 close
+    const startHour1 = 10 + (hourOffset1 % 7);
     const startMin1 = minuteOffset1;
-    const startHour2 = Math.max(10 + hourOffset2, startHour1 + 2); // At least 2 hours apart
+    const startHour2 = Math.min(Math.max(10 + hourOffset2, startHour1 + 2), 19); // At least 2 hours apart
     const startMin2 = minuteOffset2;
     
     // Create first reservation
@@ -297,6 +303,7 @@ describe("backend api", () => {
 
     const updateResponse = await request(app)
       .put(`/api/reservations/${reservationId2}`)
+      .set("Authorization", adminAuth)
       .send(updatePayload);
 
     expect(updateResponse.status).toBe(409);
@@ -335,6 +342,7 @@ describe("backend api", () => {
     // Try to update with invalid email
     const updateResponse = await request(app)
       .put(`/api/reservations/${reservationId}`)
+      .set("Authorization", adminAuth)
       .send({ customerEmail: "invalid-email" });
 
     expect(updateResponse.status).toBe(400);
@@ -8,15 +8,19 @@ import path from "path";
 import { promises as fs } from "fs";
 import os from "os";
 import app from "../../app";
+import { createSession } from "../../lib/auth/session-manager";
 import { memberCache } from "../../lib/cache/member-cache";
 import { reservationCache } from "../../lib/cache/reservation-cache";
 
 let tempDir = "";
+let adminAuth = "";
 
 beforeAll(async () => {
   const baseDir = await fs.mkdtemp(path.join(os.tmpdir(), "pta-members-api-"));
   tempDir = baseDir;
   process.env.DATA_DIR = tempDir;
+  // Admin session for the protected member/reservation endpoints
+  adminAuth = `Bearer ${(await createSession("test-admin", "admin@example.com", "admin")).token}`;
 });
 
 beforeEach(async () => {
@@ -63,7 +67,7 @@ afterEach(async () => {
 describe("Member API Endpoints", () => {
   describe("GET /api/members", () => {
     it("should return empty array when no members exist", async () => {
-      const response = await request(app).get("/api/members");
+      const response = await request(app).get("/api/members").set("Authorization", adminAuth);
       
       expect(response.status).toBe(200);
       expect(Array.isArray(response.body)).toBe(true);
@@ -76,6 +80,7 @@ describe("Member API Endpoints", () => {
       // Create first member
       const member1 = await request(app)
         .post("/api/members")
+        .set("Authorization", adminAuth)
         .send({
           firstName: "John",
           lastName: "Doe",
@@ -86,6 +91,7 @@ describe("Member API Endpoints", () => {
       // Create second member
       const member2 = await request(app)
         .post("/api/members")
+        .set("Authorization", adminAuth)
         .send({
           firstName: "Jane",
           lastName: "Smith",
@@ -93,7 +99,7 @@ describe("Member API Endpoints", () => {
           phone: "401-555-2222",
         });
 
-      const response = await request(app).get("/api/members");
+      const response = await request(app).get("/api/members").set("Authorization", adminAuth);
       
       expect(response.status).toBe(200);
       expect(Array.isArray(response.body)).toBe(true);
@@ -106,6 +112,7 @@ describe("Member API Endpoints", () => {
       // Create active member
       await request(app)
         .post("/api/members")
+        .set("Authorization", adminAuth)
         .send({
           firstName: "Active",
           lastName: "Member",
@@ -117,6 +124,7 @@ describe("Member API Endpoints", () => {
       // Create inactive member
       await request(app)
         .post("/api/members")
+        .set("Authorization", adminAuth)
         .send({
           firstName: "Inactive",
           lastName: "Member",
@@ -125,8 +133,12 @@ describe("Member API Endpoints", () => {
           isActive: false,
         });
 
-      const activeResponse = await request(app).get("/api/members?filter=active");
-      const inactiveResponse = await request(app).get("/api/members?filter=inactive");
+      const activeResponse = await request(app)
+        .get("/api/members?filter=active")
+        .set("Authorization", adminAuth);
+      const inactiveResponse = await request(app)
+        .get("/api/members?filter=inactive")
+        .set("Authorization", adminAuth);
       
       expect(activeResponse.status).toBe(200);
       expect(activeResponse.body.length).toBe(1);
@@ -142,6 +154,7 @@ describe("Member API Endpoints", () => {
       
       await request(app)
         .post("/api/members")
+        .set("Authorization", adminAuth)
         .send({
           firstName: "Searchable",
           lastName: "User",
@@ -151,6 +164,7 @@ describe("Member API Endpoints", () => {
 
       await request(app)
         .post("/api/members")
+        .set("Authorization", adminAuth)
         .send({
           firstName: "Other",
           lastName: "User",
@@ -158,7 +172,9 @@ describe("Member API Endpoints", () => {
           phone: "401-555-2222",
         });
 
-      const response = await request(app).get("/api/members?search=Searchable");
+      const response = await request(app)
+        .get("/api/members?search=Searchable")
+        .set("Authorization", adminAuth);
       
       expect(response.status).toBe(200);
       expect(response.body.length).toBe(1);
@@ -170,6 +186,7 @@ describe("Member API Endpoints", () => {
       
       await request(app)
         .post("/api/members")
+        .set("Authorization", adminAuth)
         .send({
           firstName: "Active",
           lastName: "Searchable",
@@ -180,6 +197,7 @@ describe("Member API Endpoints", () => {
 
       await request(app)
         .post("/api/members")
+        .set("Authorization", adminAuth)
         .send({
           firstName: "Inactive",
           lastName: "Searchable",
@@ -188,7 +206,9 @@ describe("Member API Endpoints", () => {
           isActive: false,
         });
 
-      const response = await request(app).get("/api/members?filter=active&search=Searchable");
+      const response = await request(app)
+        .get("/api/members?filter=active&search=Searchable")
+        .set("Authorization", adminAuth);
       
       expect(response.status).toBe(200);
       expect(response.body.length).toBe(1);
@@ -202,6 +222,7 @@ describe("Member API Endpoints", () => {
       
       const createResponse = await request(app)
         .post("/api/members")
+        .set("Authorization", adminAuth)
         .send({
           firstName: "Get",
           lastName: "Test",
@@ -210,7 +231,9 @@ describe("Member API Endpoints", () => {
         });
 
       const memberId = createResponse.body.id;
-      const response = await request(app).get(`/api/members/${memberId}`);
+      const response = await request(app)
+        .get(`/api/members/${memberId}`)
+        .set("Authorization", adminAuth);
       
       expect(response.status).toBe(200);
       expect(response.body.id).toBe(memberId);
@@ -219,7 +242,9 @@ describe("Member API Endpoints", () => {
     });
 
     it("should return 404 for non-existent member", async () => {
-      const response = await request(app).get("/api/members/non-existent-id");
+      const response = await request(app)
+        .get("/api/members/non-existent-id")
+        .set("Authorization", adminAuth);
       
       expect(response.status).toBe(404);
       expect(response.body.error).toBeDefined();
@@ -239,6 +264,7 @@ describe("Member API Endpoints", () => {
 
       const response = await request(app)
         .post("/api/members")
+        .set("Authorization", adminAuth)
         .send(payload);
 
       expect(response.status).toBe(201);
@@ -255,6 +281,7 @@ describe("Member API Endpoints", () => {
     it("should return 400 for missing required fields", async () => {
       const response = await request(app)
         .post("/api/members")
+        .set("Authorization", adminAuth)
         .send({
           firstName: "Incomplete",
           // Missing lastName, email, phone
@@ -271,6 +298,7 @@ describe("Member API Endpoints", () => {
       // Create first member
       await request(app)
         .post("/api/members")
+        .set("Authorization", adminAuth)
         .send({
           firstName: "First",
           lastName: "User",
@@ -281,6 +309,7 @@ describe("Member API Endpoints", () => {
       // Try to create duplicate
       const response = await request(app)
         .post("/api/members")
+        .set("Authorization", adminAuth)
         .send({
           firstName: "Second",
           lastName: "User",
@@ -310,6 +339,7 @@ describe("Member API Endpoints", () => {
 
       const response = await request(app)
         .post("/api/members")
+        .set("Authorization", adminAuth)
         .send(payload);
 
       expect(response.status).toBe(201);
@@ -328,6 +358,7 @@ describe("Member API Endpoints", () => {
       
       const createResponse = await request(app)
         .post("/api/members")
+        .set("Authorization", adminAuth)
         .send({
           firstName: "Update",
           lastName: "Test",
@@ -338,6 +369,7 @@ describe("Member API Endpoints", () => {
       const memberId = createResponse.body.id;
       const updateResponse = await request(app)
         .put(`/api/members/${memberId}`)
+        .set("Authorization", adminAuth)
         .send({
           firstName: "Updated",
           notes: "Updated notes",
@@ -354,6 +386,7 @@ describe("Member API Endpoints", () => {
       
       const createResponse = await request(app)
         .post("/api/members")
+        .set("Authorization", adminAuth)
         .send({
           firstName: "No",
           lastName: "Update",
@@ -364,6 +397,7 @@ describe("Member API Endpoints", () => {
       const memberId = createResponse.body.id;
       const response = await request(app)
         .put(`/api/members/${memberId}`)
+        .set("Authorization", adminAuth)
         .send({});
 
       expect(response.status).toBe(400);
@@ -373,6 +407,7 @@ describe("Member API Endpoints", () => {
     it("should return 404 for non-existent member", async () => {
       const response = await request(app)
         .put("/api/members/non-existent-id")
+        .set("Authorization", adminAuth)
         .send({
           firstName: "Updated",
         });
@@ -386,6 +421,7 @@ describe("Member API Endpoints", () => {
       
       const member1 = await request(app)
         .post("/api/members")
+        .set("Authorization", adminAuth)
         .send({
           firstName: "First",
           lastName: "User",
@@ -395,6 +431,7 @@ describe("Member API Endpoints", () => {
 
       const member2 = await request(app)
         .post("/api/members")
+        .set("Authorization", adminAuth)
         .send({
           firstName: "Second",
           lastName: "User",
@@ -404,6 +441,7 @@ describe("Member API Endpoints", () => {
 
       const response = await request(app)
         .put(`/api/members/${member2.body.id}`)
+        .set("Authorization", adminAuth)
         .send({
           email: `first-${uniqueId}@example.com`,
         });
@@ -419,6 +457,7 @@ describe("Member API Endpoints", () => {
       
       const createResponse = await request(app)
         .post("/api/members")
+        .set("Authorization", adminAuth)
         .send({
           firstName: "Patch",
           lastName: "Test",
@@ -430,6 +469,7 @@ describe("Member API Endpoints", () => {
       const memberId = createResponse.body.id;
       const patchResponse = await request(app)
         .patch(`/api/members/${memberId}`)
+        .set("Authorization", adminAuth)
         .send({
           isActive: false,
         });
@@ -444,6 +484,7 @@ describe("Member API Endpoints", () => {
       
       const createResponse = await request(app)
         .post("/api/members")
+        .set("Authorization", adminAuth)
         .send({
           firstName: "No",
           lastName: "Patch",
@@ -454,6 +495,7 @@ describe("Member API Endpoints", () => {
       const memberId = createResponse.body.id;
       const response = await request(app)
         .patch(`/api/members/${memberId}`)
+        .set("Authorization", adminAuth)
         .send({});
 
       expect(response.status).toBe(400);
@@ -467,6 +509,7 @@ describe("Member API Endpoints", () => {
       
       const createResponse = await request(app)
         .post("/api/members")
+        .set("Authorization", adminAuth)
         .send({
           firstName: "Delete",
           lastName: "Test",
@@ -477,20 +520,24 @@ describe("Member API Endpoints", () => {
 
       const memberId = createResponse.body.id;
       const deleteResponse = await request(app)
-        .delete(`/api/members/${memberId}`);
+        .delete(`/api/members/${memberId}`)
+        .set("Authorization", adminAuth);
 
       expect(deleteResponse.status).toBe(200);
       expect(deleteResponse.body.success).toBe(true);
 
       // Verify member is still accessible but inactive
-      const getResponse = await request(app).get(`/api/members/${memberId}`);
+      const getResponse = await request(app)
+        .get(`/api/members/${memberId}`)
+        .set("Authorization", adminAuth);
       expect(getResponse.status).toBe(200);
       expect(getResponse.body.isActive).toBe(false);
     });
 
     it("should return 404 for non-existent member", async () => {
       const response = await request(app)
-        .delete("/api/members/non-existent-id");
+        .delete("/api/members/non-existent-id")
+        .set("Authorization", adminAuth);
 
       expect(response.status).toBe(404);
       expect(response.body.error).toBe("Member not found");
@@ -504,6 +551,7 @@ describe("Member API Endpoints", () => {
       // Create member
       const memberResponse = await request(app)
         .post("/api/members")
+        .set("Authorization", adminAuth)
         .send({
           firstName: "Reservation",
           lastName: "Test",
@@ -516,7 +564,8 @@ describe("Member API Endpoints", () => {
       // Note: This endpoint currently returns empty array since reservations
       // don't have memberId yet (that's Phase 3 integration)
       const response = await request(app)
-        .get(`/api/members/${memberId}/reservations`);
+        .get(`/api/members/${memberId}/reservations`)
+        .set("Authorization", adminAuth);
 
       expect(response.status).toBe(200);
       expect(Array.isArray(response.body)).toBe(true);
@@ -524,7 +573,8 @@ describe("Member API Endpoints", () => {
 
     it("should return 404 for non-existent member", async () => {
       const response = await request(app)
-        .get("/api/members/non-existent-id/reservations");
+        .get("/api/members/non-existent-id/reservations")
+        .set("Authorization", adminAuth);
 
       expect(response.status).toBe(404);
       expect(response.body.code).toBe("NOT_FOUND");
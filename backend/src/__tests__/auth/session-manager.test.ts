@@ -2,124 +2,225 @@
  * Unit tests for session management
  */
 
-import { describe, it, expect, beforeEach } from "vitest";
+import { describe, it, expect, beforeAll, beforeEach, afterAll } from "vitest";
+import path from "path";
+import os from "os";
+import { promises as fs } from "fs";
 import {
   createSession,
   createToken,
   verifyToken,
-  getSession,
-  removeSession,
+  verifySessionToken,
+  rotateRefreshToken,
+  getActiveSessions,
+  revokeSession,
+  revokeAllSessions,
+  cleanupExpiredSessions,
 } from "../../lib/auth/session-manager";
+import { sessionRepository } from "../../lib/repositories/file-session-repository";
+import { InvalidSessionError } from "../../lib/errors/auth-errors";
+
+let tempDir = "";
+const originalDataDir = process.env.DATA_DIR;
 
 describe("Session Manager", () => {
-  beforeEach(() => {
-    // Clear any existing sessions (if we had a way to do this)
-    // For now, we'll just test with fresh sessions
+  beforeAll(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), "pta-sessions-"));
+    process.env.DATA_DIR = tempDir;
+  });
+
+  beforeEach(async () => {
+    await fs.writeFile(path.join(tempDir, "sessions.json"), JSON.stringify([], null, 2));
+  });
+
+  afterAll(async () => {
+    if (originalDataDir !== undefined) {
+      process.env.DATA_DIR = originalDataDir;
+    } else {
+      delete process.env.DATA_DIR;
+    }
+    await fs.rm(tempDir, { recursive: true, force: true }).catch(() => {});
   });
 
   describe("createSession", () => {
-    it("should create a session with correct fields", () => {
-      const session = createSession("member123", "test@example.com", "player");
-      
+    it("should create a session with correct fields", async () => {
+      const { session, token, refreshToken } = await createSession(
+        "member123",
+        "test@example.com",
+        "player",
+        { userAgent: "Vitest", ipAddress: "127.0.0.1" }
+      );
+
       expect(session.memberId).toBe("member123");
       expect(session.email).toBe("test@example.com");
       expect(session.role).toBe("player");
-      expect(session.expiresAt).toBeDefined();
-      expect(new Date(session.expiresAt).getTime()).toBeGreaterThan(Date.now());
+      expect(session.sessionId).toBeDefined();
+      expect(token.split(".")).toHaveLength(3);
+      expect(refreshToken.startsWith(`${session.sessionId}.`)).toBe(true);
+
+      const stored = await sessionRepository.findById(session.sessionId!);
+      expect(stored?.userAgent).toBe("Vitest");
+      expect(stored?.refreshTokenHash).toBeDefined();
+      expect(stored?.refreshTokenHash).not.toContain(refreshToken.split(".")[1]);
     });
 
-    it("should set expiration to 7 days from now", () => {
-      const session = createSession("member123", "test@example.com", "player");
-      const expiresAt = new Date(session.expiresAt);
+    it("should issue short-lived access tokens and 30-day refresh tokens", async () => {
+      const { session, expiresAt } = await createSession("member123", "test@example.com", "player");
+
+      // Access token: 15 minutes by default
+      const accessDiff = new Date(expiresAt).getTime() - Date.now();
+      expect(accessDiff).toBeGreaterThan(14 * 60 * 1000);
+      expect(accessDiff).toBeLessThanOrEqual(15 * 60 * 1000);
+
+      // Refresh token: 30 days
       const expectedExpiry = new Date();
-      expectedExpiry.setDate(expectedExpiry.getDate() + 7);
-      
-      // Allow 1 minute tolerance
-      const diff = Math.abs(expiresAt.getTime() - expectedExpiry.getTime());
+      expectedExpiry.setDate(expectedExpiry.getDate() + 30);
+      const diff = Math.abs(new Date(session.expiresAt).getTime() - expectedExpiry.getTime());
       expect(diff).toBeLessThan(60 * 1000);
     });
   });
 
   describe("createToken", () => {
-    it("should create a JWT token from session", () => {
-      const session = createSession("member123", "test@example.com", "player");
-      const token = createToken(session);
-      
-      expect(token).toBeDefined();
-      expect(typeof token).toBe("string");
-      expect(token.split(".")).toHaveLength(3); // JWT has 3 parts
-    });
-
-    it("should create different tokens for different sessions", () => {
-      const session1 = createSession("member1", "test1@example.com", "player");
-      const session2 = createSession("member2", "test2@example.com", "coach");
-      
-      const token1 = createToken(session1);
-      const token2 = createToken(session2);
-      
-      expect(token1).not.toBe(token2);
+    it("should create different tokens for different sessions", async () => {
+      const first = await createSession("member1", "test1@example.com", "player");
+      const second = await createSession("member2", "test2@example.com", "coach");
+
+      expect(createToken(first.session)).not.toBe(createToken(second.session));
     });
   });
 
   describe("verifyToken", () => {
-    it("should verify a valid token", () => {
-      const session = createSession("member123", "test@example.com", "player");
-      const token = createToken(session);
+    it("should verify a valid token", async () => {
+      const { session, token } = await createSession("member123", "test@example.com", "player");
       const verified = verifyToken(token);
-      
+
       expect(verified).not.toBeNull();
       expect(verified?.memberId).toBe("member123");
       expect(verified?.email).toBe("test@example.com");
       expect(verified?.role).toBe("player");
+      expect(verified?.sessionId).toBe(session.sessionId);
     });
 
     it("should return null for invalid token", () => {
-      const verified = verifyToken("invalid.token.here");
-      
-      expect(verified).toBeNull();
+      expect(verifyToken("invalid.token.here")).toBeNull();
     });
 
     it("should return null for empty token", () => {
-      const verified = verifyToken("");
-      
-      expect(verified).toBeNull();
+      expect(verifyToken("")).toBeNull();
     });
 
     it("should return null for malformed token", () => {
-      const verified = verifyToken("not.a.valid.jwt.token");
-      
-      expect(verified).toBeNull();
+      expect(verifyToken("not.a.valid.jwt.token")).toBeNull();
+    });
+  });
+
+  describe("verifySessionToken", () => {
+    it("should accept tokens of active sessions", async () => {
+      const { token } = await createSession("member123", "test@example.com", "player");
+
+      expect(await verifySessionToken(token)).not.toBeNull();
+    });
+
+    it("should reject tokens of revoked sessions", async () => {
+      const { session, token } = await createSession("member123", "test@example.com", "player");
+
+      expect(await revokeSession("member123", session.sessionId!)).toBe(true);
+      expect(await verifySessionToken(token)).toBeNull();
+    });
+
+    it("should reject tokens without a session", async () => {
+      const token = createToken({
+        memberId: "member123",
+        email: "test@example.com",
+        role: "player",
+        expiresAt: new Date().toISOString(),
+      });
+
+      expect(await verifySessionToken(token)).toBeNull();
     });
   });
 
-  describe("getSession", () => {
-    it("should retrieve a stored session", () => {
-      const session = createSession("member123", "test@example.com", "player");
-      const retrieved = getSession("member123");
-      
-      expect(retrieved).not.toBeNull();
-      expect(retrieved?.memberId).toBe("member123");
-      expect(retrieved?.email).toBe("test@example.com");
+  describe("rotateRefreshToken", () => {
+    it("should replace the refresh token", async () => {
+      const { refreshToken } = await createSession("member123", "test@example.com", "player");
+      const before = await sessionRepository.findById(refreshToken.split(".")[0]);
+
+      const { session, secret } = await rotateRefreshToken(refreshToken);
+
+      expect(secret).not.toBe(refreshToken.split(".")[1]);
+      expect(session.refreshTokenHash).not.toBe(before?.refreshTokenHash);
+      expect(session.previousRefreshTokenHash).toBe(before?.refreshTokenHash);
+    });
+
+    it("should tolerate a concurrent retry of the previous token", async () => {
+      const { refreshToken } = await createSession("member123", "test@example.com", "player");
+      await rotateRefreshToken(refreshToken);
+
+      await expect(rotateRefreshToken(refreshToken)).rejects.toThrow(InvalidSessionError);
+
+      const stored = await sessionRepository.findById(refreshToken.split(".")[0]);
+      expect(stored?.revokedAt).toBeUndefined();
+    });
+
+    it("should revoke the session when an old token is reused", async () => {
+      const { refreshToken } = await createSession("member123", "test@example.com", "player");
+      await rotateRefreshToken(refreshToken);
+
+      const later = new Date(Date.now() + 5 * 60 * 1000);
+      await expect(rotateRefreshToken(refreshToken, {}, later)).rejects.toThrow(
+        InvalidSessionError
+      );
+
+      const stored = await sessionRepository.findById(refreshToken.split(".")[0]);
+      expect(stored?.revokedReason).toBe("refresh_token_reuse");
     });
 
-    it("should return null for non-existent session", () => {
-      const retrieved = getSession("nonexistent");
-      
-      expect(retrieved).toBeNull();
+    it("should reject unknown and expired tokens", async () => {
+      await expect(rotateRefreshToken("session-missing.secret")).rejects.toThrow(
+        InvalidSessionError
+      );
+      await expect(rotateRefreshToken("garbage")).rejects.toThrow(InvalidSessionError);
+
+      const { refreshToken } = await createSession("member123", "test@example.com", "player");
+      const later = new Date(Date.now() + 31 * 24 * 60 * 60 * 1000);
+      await expect(rotateRefreshToken(refreshToken, {}, later)).rejects.toThrow(
+        InvalidSessionError
+      );
+    });
+  });
+
+  describe("revokeAllSessions", () => {
+    it("should revoke every session except the one kept", async () => {
+      const first = await createSession("member123", "test@example.com", "player");
+      await createSession("member123", "test@example.com", "player");
+      await createSession("other", "other@example.com", "player");
+
+      expect(await revokeAllSessions("member123", "logout_all", first.session.sessionId)).toBe(1);
+
+      const active = await getActiveSessions("member123");
+      expect(active.map((s) => s.id)).toEqual([first.session.sessionId]);
+      expect(await getActiveSessions("other")).toHaveLength(1);
     });
   });
 
-  describe("removeSession", () => {
-    it("should remove a session", () => {
-      const session = createSession("member123", "test@example.com", "player");
-      expect(getSession("member123")).not.toBeNull();
-      
-      removeSession("member123");
-      expect(getSession("member123")).toBeNull();
+  describe("revokeSession", () => {
+    it("should not revoke another member's session", async () => {
+      const { session } = await createSession("member123", "test@example.com", "player");
+
+      expect(await revokeSession("someone-else", session.sessionId!)).toBe(false);
+      expect(await getActiveSessions("member123")).toHaveLength(1);
     });
+  });
+
+  describe("cleanupExpiredSessions", () => {
+    it("should delete sessions revoked more than a day ago", async () => {
+      const { session } = await createSession("member123", "test@example.com", "player");
+      await createSession("member123", "test@example.com", "player");
+      await revokeSession("member123", session.sessionId!);
 
-    it("should not throw when removing non-existent session", () => {
-      expect(() => removeSession("nonexistent")).not.toThrow();
+      expect(await cleanupExpiredSessions()).toBe(0);
+      expect(await cleanupExpiredSessions(new Date(Date.now() + 2 * 24 * 60 * 60 * 1000))).toBe(1);
+      expect(await sessionRepository.findByMember("member123")).toHaveLength(1);
     });
   });
 });
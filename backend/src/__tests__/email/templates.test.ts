@@ -0,0 +1,74 @@
+/**
+ * Unit tests for email templates and outbox retry timing
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  formatAmount,
+  renderBookingCancellationEmail,
+  renderBookingConfirmationEmail,
+  renderRefundEmail,
+} from "../../lib/email/templates";
+import { getRetryDelayMinutes } from "../../lib/email/outbox";
+
+const booking = { courtName: "Court 1", date: "2027-05-04", start: "09:00", end: "10:00" };
+
+describe("email templates", () => {
+  it("renders the same details into HTML and text", () => {
+    const email = renderBookingConfirmationEmail(
+      "Ana",
+      { ...booking, amount: 4000 },
+      "http://localhost:3009/dashboard/bookings"
+    );
+
+    expect(email.subject).toBe("Booking confirmed: Court 1 on 2027-05-04");
+    expect(email.text).toContain("Hi Ana,");
+    expect(email.text).toContain("Court: Court 1");
+    expect(email.text).toContain("Paid: $40.00");
+    expect(email.text).toContain("View my bookings: http://localhost:3009/dashboard/bookings");
+    expect(email.html).toContain("Court 1");
+    expect(email.html).toContain("$40.00");
+    expect(email.html).toContain('href="http://localhost:3009/dashboard/bookings"');
+  });
+
+  it("escapes user-provided values in HTML only", () => {
+    const email = renderBookingConfirmationEmail(
+      "<b>Ana</b>",
+      booking,
+      "http://localhost:3009/dashboard/bookings"
+    );
+
+    expect(email.html).toContain("Hi &lt;b&gt;Ana&lt;/b&gt;,");
+    expect(email.html).not.toContain("<b>Ana</b>");
+    expect(email.text).toContain("Hi <b>Ana</b>,");
+  });
+
+  it("mentions refunds on cancellation only when one was issued", () => {
+    expect(renderBookingCancellationEmail("Ana", booking).text).not.toContain("refund of");
+    expect(
+      renderBookingCancellationEmail("Ana", booking, { amount: 2000, currency: "usd" }).text
+    ).toContain("A refund of $20.00 has been issued");
+  });
+
+  it("renders refund receipts", () => {
+    const email = renderRefundEmail("Ana", {
+      amount: 1250,
+      currency: "usd",
+      description: "Court Booking",
+    });
+
+    expect(email.subject).toBe("Refund issued: $12.50");
+    expect(email.text).toContain("For: Court Booking");
+  });
+
+  it("formats amounts in cents", () => {
+    expect(formatAmount(4000)).toBe("$40.00");
+    expect(formatAmount(199, "usd")).toBe("$1.99");
+  });
+});
+
+describe("getRetryDelayMinutes", () => {
+  it("backs off exponentially", () => {
+    expect([1, 2, 3, 4].map(getRetryDelayMinutes)).toEqual([1, 2, 4, 8]);
+  });
+});
@@ -0,0 +1,148 @@
+/**
+ * Unit tests for the journal repositories, run against both storage drivers
+ */
+
+import { describe, it, expect, beforeAll, beforeEach, afterAll } from "vitest";
+import path from "path";
+import { promises as fs } from "fs";
+import os from "os";
+import { FileJournalRepository } from "../../lib/repositories/file-journal-repository";
+import { SqliteJournalRepository } from "../../lib/repositories/sqlite-journal-repository";
+import { IJournalRepository } from "../../lib/repositories/journal-repository.interface";
+import { closeDatabase } from "../../lib/repositories/sqlite-database";
+import { JournalEntry } from "../../types/journal";
+import { JournalEntryNotFoundError } from "../../lib/errors/journal-errors";
+
+let tempDir = "";
+let repository: IJournalRepository;
+
+beforeAll(async () => {
+  tempDir = await fs.mkdtemp(path.join(os.tmpdir(), "pta-journal-repo-"));
+  process.env.DATA_DIR = tempDir;
+});
+
+beforeEach(async () => {
+  // Start both drivers from empty storage
+  closeDatabase();
+  for (const suffix of ["", "-wal", "-shm"]) {
+    await fs.unlink(path.join(tempDir, `providence.db${suffix}`)).catch(() => {});
+  }
+  await fs.unlink(path.join(tempDir, "journal-entries.json.lock")).catch(() => {});
+  await fs.writeFile(path.join(tempDir, "journal-entries.json"), JSON.stringify([], null, 2));
+});
+
+afterAll(async () => {
+  closeDatabase();
+  await fs.rm(tempDir, { recursive: true, force: true }).catch(() => {});
+});
+
+function entry(
+  overrides: Partial<JournalEntry> = {}
+): Omit<JournalEntry, "id" | "createdAt" | "lastModified"> {
+  return {
+    playerId: "player1",
+    coachId: "coach1",
+    sessionDate: "2026-03-10",
+    summary: "Worked on backhand and serve",
+    areasWorkedOn: ["Backhand", "Serve"],
+    pointersForNextSession: "Keep the toss in front",
+    createdBy: "coach1",
+    ...overrides,
+  };
+}
+
+describe.each([
+  ["FileJournalRepository", () => new FileJournalRepository()],
+  ["SqliteJournalRepository", () => new SqliteJournalRepository()],
+])("%s", (_name, createRepository: () => IJournalRepository) => {
+  beforeEach(() => {
+    repository = createRepository();
+  });
+
+  describe("create", () => {
+    it("should create an entry with an ID and timestamps", async () => {
+      const created = await repository.create(entry());
+
+      expect(created.id).toMatch(/^journal-/);
+      expect(created.createdAt).toBeDefined();
+      expect(created.lastModified).toBe(created.createdAt);
+      expect(await repository.findById(created.id)).toEqual(created);
+    });
+  });
+
+  describe("findById", () => {
+    it("should return null for a missing entry", async () => {
+      expect(await repository.findById("journal-missing")).toBeNull();
+    });
+  });
+
+  describe("findAll", () => {
+    beforeEach(async () => {
+      await repository.create(entry());
+      await repository.create(entry({ sessionDate: "2026-03-17", areasWorkedOn: ["Volley"] }));
+      await repository.create(entry({ playerId: "player2", coachId: "coach2", createdBy: "coach2" }));
+    });
+
+    it("should return entries in creation order", async () => {
+      const entries = await repository.findAll();
+
+      expect(entries.map((e) => [e.playerId, e.sessionDate])).toEqual([
+        ["player1", "2026-03-10"],
+        ["player1", "2026-03-17"],
+        ["player2", "2026-03-10"],
+      ]);
+    });
+
+    it("should filter by player and coach", async () => {
+      expect(await repository.findByPlayerId("player1")).toHaveLength(2);
+      expect(await repository.findByCoachId("coach2")).toHaveLength(1);
+      expect(await repository.findAll({ playerId: "player2", coachId: "coach1" })).toHaveLength(0);
+    });
+
+    it("should filter by date range", async () => {
+      const entries = await repository.findAll({ startDate: "2026-03-11", endDate: "2026-03-31" });
+
+      expect(entries.map((e) => e.sessionDate)).toEqual(["2026-03-17"]);
+    });
+
+    it("should match focus areas case-insensitively", async () => {
+      const entries = await repository.findByPlayerId("player1", { areaWorkedOn: "volley" });
+
+      expect(entries).toHaveLength(1);
+      expect(entries[0].areasWorkedOn).toEqual(["Volley"]);
+    });
+  });
+
+  describe("update", () => {
+    it("should update fields without changing the ID", async () => {
+      const created = await repository.create(entry());
+      await new Promise((resolve) => setTimeout(resolve, 5));
+
+      const updated = await repository.update(created.id, {
+        id: "journal-other",
+        playerReflection: "Felt good about the serve",
+        sessionDate: "2026-03-12",
+      });
+
+      expect(updated.id).toBe(created.id);
+      expect(updated.lastModified).not.toBe(created.lastModified);
+      expect(await repository.findAll({ startDate: "2026-03-12" })).toEqual([updated]);
+    });
+
+    it("should throw JournalEntryNotFoundError for a missing entry", async () => {
+      await expect(repository.update("journal-missing", { summary: "x" })).rejects.toThrow(
+        JournalEntryNotFoundError
+      );
+    });
+  });
+
+  describe("delete", () => {
+    it("should remove the entry and report whether it existed", async () => {
+      const created = await repository.create(entry());
+
+      expect(await repository.delete(created.id)).toBe(true);
+      expect(await repository.findById(created.id)).toBeNull();
+      expect(await repository.delete(created.id)).toBe(false);
+    });
+  });
+});
@@ -1,5 +1,5 @@
 /**
- * Unit tests for FileMemberRepository
+ * Unit tests for the member repositories, run against both storage drivers
  */
 
 import { describe, it, expect, beforeAll, beforeEach, afterEach } from "vitest";
@@ -7,6 +7,9 @@ import path from "path";
 import { promises as fs } from "fs";
 import os from "os";
 import { FileMemberRepository } from "../../lib/repositories/file-member-repository";
+import { SqliteMemberRepository } from "../../lib/repositories/sqlite-member-repository";
+import { IMemberRepository } from "../../lib/repositories/member-repository.interface";
+import { closeDatabase } from "../../lib/repositories/sqlite-database";
 import { Member } from "../../types/member";
 import { memberCache } from "../../lib/cache/member-cache";
 import {
@@ -16,7 +19,7 @@ import {
 } from "../../lib/errors/member-errors";
 
 let tempDir = "";
-let repository: FileMemberRepository;
+let repository: IMemberRepository;
 
 beforeAll(async () => {
   const baseDir = await fs.mkdtemp(path.join(os.tmpdir(), "pta-member-repo-"));
@@ -31,6 +34,12 @@ beforeEach(async () => {
   try {
     // Ensure directory exists
     await fs.mkdir(tempDir, { recursive: true });
+
+    // Start the SQLite repository from an empty database
+    closeDatabase();
+    for (const suffix of ["", "-wal", "-shm"]) {
+      await fs.unlink(path.join(tempDir, `providence.db${suffix}`)).catch(() => {});
+    }
     
     const membersFile = path.join(tempDir, "members.json");
     const lockFile = path.join(tempDir, "members.json.lock");
@@ -64,7 +73,14 @@ afterEach(async () => {
   memberCache.clear();
 });
 
-describe("FileMemberRepository", () => {
+describe.each([
+  ["FileMemberRepository", () => new FileMemberRepository()],
+  ["SqliteMemberRepository", () => new SqliteMemberRepository()],
+])("%s", (_name, createRepository: () => IMemberRepository) => {
+  beforeEach(() => {
+    repository = createRepository();
+  });
+
   describe("create", () => {
     it("should create a new member", async () => {
       const memberData = {
@@ -533,6 +549,9 @@ describe("FileMemberRepository", () => {
         phone: "401-555-1111",
       });
 
+      // Small delay to ensure different timestamp
+      await new Promise(resolve => setTimeout(resolve, 10));
+
       const updated = await repository.update(created.id, {
         firstName: "Updated",
         notes: "Updated notes",
@@ -544,6 +563,24 @@ describe("FileMemberRepository", () => {
       expect(updated.lastModified).not.toBe(created.lastModified);
     });
 
+    it("should store a normalized email without changing the caller's updates", async () => {
+      const uniqueId = Date.now();
+      const created = await repository.create({
+        firstName: "Email",
+        lastName: "Change",
+        email: `before-${uniqueId}@example.com`,
+        phone: "401-555-1111",
+        memberNumber: `EMAIL-${uniqueId}`,
+        isActive: true,
+      });
+      const updates = { email: `  After-${uniqueId}@Example.com ` };
+
+      const updated = await repository.update(created.id, updates);
+
+      expect(updated.email).toBe(`after-${uniqueId}@example.com`);
+      expect(updates.email).toBe(`  After-${uniqueId}@Example.com `);
+    });
+
     it("should throw MemberNotFoundError for non-existent member", async () => {
       await expect(
         repository.update("non-existent-id", { firstName: "New Name" })
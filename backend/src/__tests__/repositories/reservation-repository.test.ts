@@ -1,5 +1,5 @@
 /**
- * Unit tests for FileReservationRepository
+ * Unit tests for the reservation repositories, run against both storage drivers
  */
 
 import { describe, it, expect, beforeAll, beforeEach, afterEach } from "vitest";
@@ -7,12 +7,15 @@ import path from "path";
 import { promises as fs } from "fs";
 import os from "os";
 import { FileReservationRepository } from "../../lib/repositories/file-reservation-repository";
+import { SqliteReservationRepository } from "../../lib/repositories/sqlite-reservation-repository";
+import { IReservationRepository } from "../../lib/repositories/reservation-repository.interface";
+import { closeDatabase } from "../../lib/repositories/sqlite-database";
 import { Reservation } from "../../types/reservation";
 import { reservationCache } from "../../lib/cache/reservation-cache";
 import { ConflictError, NotFoundError } from "../../lib/errors/reservation-errors";
 
 let tempDir = "";
-let repository: FileReservationRepository;
+let repository: IReservationRepository;
 
 beforeAll(async () => {
   const uniqueId = `${Date.now()}-${Math.random().toString(36).substring(7)}`;
@@ -28,6 +31,12 @@ beforeEach(async () => {
   try {
     // Ensure directory exists
     await fs.mkdir(tempDir, { recursive: true });
+
+    // Start the SQLite repository from an empty database
+    closeDatabase();
+    for (const suffix of ["", "-wal", "-shm"]) {
+      await fs.unlink(path.join(tempDir, `providence.db${suffix}`)).catch(() => {});
+    }
     
     const reservationsFile = path.join(tempDir, "reservations.json");
     const lockFile = path.join(tempDir, "reservations.json.lock");
@@ -65,7 +74,14 @@ afterEach(async () => {
   reservationCache.clear();
 });
 
-describe("FileReservationRepository", () => {
+describe.each([
+  ["FileReservationRepository", () => new FileReservationRepository()],
+  ["SqliteReservationRepository", () => new SqliteReservationRepository()],
+])("%s", (_name, createRepository: () => IReservationRepository) => {
+  beforeEach(() => {
+    repository = createRepository();
+  });
+
   describe("create", () => {
     it("should create a new reservation", async () => {
       // Use unique time based on test execution
@@ -456,5 +472,44 @@ describe("FileReservationRepository", () => {
       );
       expect(available).toBe(true);
     });
+
+    it("should return false and refuse bookings inside a court closure", async () => {
+      await fs.writeFile(
+        path.join(tempDir, "closures.json"),
+        JSON.stringify([
+          {
+            id: "closure-test",
+            courtId: "2",
+            startDate: "2026-02-22",
+            endDate: "2026-02-22",
+            startTime: "12:00",
+            endTime: "15:00",
+            kind: "tournament",
+            reason: "Club championship",
+            createdAt: new Date().toISOString(),
+          },
+        ])
+      );
+
+      try {
+        expect(await repository.checkAvailability("2", "2026-02-22", "14:00", "15:00")).toBe(false);
+        expect(await repository.checkAvailability("2", "2026-02-22", "10:00", "11:00")).toBe(true);
+        expect(await repository.checkAvailability("3", "2026-02-22", "14:00", "15:00")).toBe(true);
+
+        await expect(
+          repository.create({
+            courtId: "2",
+            courtName: "Court 2",
+            date: "2026-02-22",
+            timeSlot: { start: "13:00", end: "14:00" },
+            customerName: "Closure Test",
+            customerEmail: "closure@example.com",
+            customerPhone: "401-555-0000",
+          })
+        ).rejects.toThrow(ConflictError);
+      } finally {
+        await fs.writeFile(path.join(tempDir, "closures.json"), JSON.stringify([]));
+      }
+    });
   });
 });
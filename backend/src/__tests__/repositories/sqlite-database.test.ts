@@ -0,0 +1,85 @@
+/**
+ * Unit tests for the SQLite connection and schema migrations
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import path from "path";
+import { promises as fs } from "fs";
+import os from "os";
+import Database from "better-sqlite3";
+import { closeDatabase, getDatabase, migrate } from "../../lib/repositories/sqlite-database";
+import { MIGRATIONS } from "../../lib/repositories/sqlite-migrations";
+import { MigrationError } from "../../lib/errors/storage-errors";
+
+let tempDir = "";
+
+beforeAll(async () => {
+  tempDir = await fs.mkdtemp(path.join(os.tmpdir(), "pta-sqlite-"));
+  process.env.DATA_DIR = tempDir;
+});
+
+afterAll(() => {
+  closeDatabase();
+});
+
+describe("migrate", () => {
+  it("should apply every migration once and record it", () => {
+    const db = new Database(":memory:");
+    migrate(db);
+    migrate(db);
+
+    const versions = (
+      db.prepare("SELECT version FROM schema_migrations ORDER BY version").all() as Array<{
+        version: number;
+      }>
+    ).map((row) => row.version);
+    expect(versions).toEqual(MIGRATIONS.map((m) => m.version));
+
+    const tables = (
+      db.prepare("SELECT name FROM sqlite_master WHERE type = 'table'").all() as Array<{
+        name: string;
+      }>
+    ).map((row) => row.name);
+    expect(tables).toEqual(
+      expect.arrayContaining(["reservations", "members", "payments", "journal_entries"])
+    );
+    db.close();
+  });
+
+  it("should index reservations by date, court and member", () => {
+    const db = new Database(":memory:");
+    migrate(db);
+
+    const indexes = (
+      db.prepare("SELECT name FROM sqlite_master WHERE type = 'index' AND tbl_name = 'reservations'")
+        .all() as Array<{ name: string }>
+    ).map((row) => row.name);
+    expect(indexes).toEqual(
+      expect.arrayContaining(["idx_reservations_date_court", "idx_reservations_member"])
+    );
+    db.close();
+  });
+
+  it("should throw MigrationError and keep earlier migrations when one fails", () => {
+    const db = new Database(":memory:");
+    // A conflicting table makes the first migration fail
+    db.exec("CREATE TABLE reservations (id TEXT)");
+
+    expect(() => migrate(db)).toThrow(MigrationError);
+    const count = db.prepare("SELECT COUNT(*) AS count FROM schema_migrations").get() as {
+      count: number;
+    };
+    expect(count.count).toBe(0);
+    db.close();
+  });
+});
+
+describe("getDatabase", () => {
+  it("should create the database in DATA_DIR and reuse the connection", async () => {
+    const db = getDatabase();
+
+    expect(getDatabase()).toBe(db);
+    await expect(fs.stat(path.join(tempDir, "providence.db"))).resolves.toBeDefined();
+    expect(db.pragma("journal_mode", { simple: true })).toBe("wal");
+  });
+});
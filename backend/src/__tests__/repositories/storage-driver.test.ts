@@ -0,0 +1,83 @@
+/**
+ * Unit tests for choosing the repositories from STORAGE_DRIVER
+ */
+
+import { describe, it, expect, beforeEach, afterAll, vi } from "vitest";
+import { StorageConfigError } from "../../lib/errors/storage-errors";
+import { getStorageDriver } from "../../lib/repositories";
+
+const originalDriver = process.env.STORAGE_DRIVER;
+
+beforeEach(() => {
+  // The driver is read when the module is first imported
+  vi.resetModules();
+});
+
+afterAll(() => {
+  if (originalDriver !== undefined) {
+    process.env.STORAGE_DRIVER = originalDriver;
+  } else {
+    delete process.env.STORAGE_DRIVER;
+  }
+});
+
+/**
+ * Import a fresh copy of the repositories with the given driver
+ */
+async function loadRepositories(driver: string | undefined) {
+  if (driver === undefined) {
+    delete process.env.STORAGE_DRIVER;
+  } else {
+    process.env.STORAGE_DRIVER = driver;
+  }
+  return import("../../lib/repositories");
+}
+
+describe("getStorageDriver", () => {
+  it("should default to file storage", () => {
+    delete process.env.STORAGE_DRIVER;
+    expect(getStorageDriver()).toBe("file");
+  });
+
+  it("should accept either driver in any case", () => {
+    process.env.STORAGE_DRIVER = "SQLite";
+    expect(getStorageDriver()).toBe("sqlite");
+  });
+
+  it("should throw StorageConfigError for an unknown driver", () => {
+    process.env.STORAGE_DRIVER = "postgres";
+    expect(() => getStorageDriver()).toThrow(StorageConfigError);
+  });
+});
+
+describe("repository selection", () => {
+  it("should use the file repositories by default", async () => {
+    const repositories = await loadRepositories(undefined);
+    const { FileReservationRepository } = await import("../../lib/repositories/file-reservation-repository");
+    const { FileMemberRepository } = await import("../../lib/repositories/file-member-repository");
+    const { FilePaymentRepository } = await import("../../lib/repositories/file-payment-repository");
+    const { FileJournalRepository } = await import("../../lib/repositories/file-journal-repository");
+
+    expect(repositories.reservationRepository).toBeInstanceOf(FileReservationRepository);
+    expect(repositories.memberRepository).toBeInstanceOf(FileMemberRepository);
+    expect(repositories.paymentRepository).toBeInstanceOf(FilePaymentRepository);
+    expect(repositories.journalRepository).toBeInstanceOf(FileJournalRepository);
+  });
+
+  it("should use the SQLite repositories when STORAGE_DRIVER is sqlite", async () => {
+    const repositories = await loadRepositories("sqlite");
+    const { SqliteReservationRepository } = await import("../../lib/repositories/sqlite-reservation-repository");
+    const { SqliteMemberRepository } = await import("../../lib/repositories/sqlite-member-repository");
+    const { SqlitePaymentRepository } = await import("../../lib/repositories/sqlite-payment-repository");
+    const { SqliteJournalRepository } = await import("../../lib/repositories/sqlite-journal-repository");
+
+    expect(repositories.reservationRepository).toBeInstanceOf(SqliteReservationRepository);
+    expect(repositories.memberRepository).toBeInstanceOf(SqliteMemberRepository);
+    expect(repositories.paymentRepository).toBeInstanceOf(SqlitePaymentRepository);
+    expect(repositories.journalRepository).toBeInstanceOf(SqliteJournalRepository);
+  });
+
+  it("should refuse to load with an unknown driver", async () => {
+    await expect(loadRepositories("postgres")).rejects.toThrow(/Unknown STORAGE_DRIVER "postgres"/);
+  });
+});
@@ -0,0 +1,93 @@
+import { describe, it, expect } from "vitest";
+import {
+  buildThreadTitle,
+  estimateTokens,
+  fitToTokenBudget,
+  splitIntoTurns,
+  trimToMessageLimit,
+} from "../../lib/utils/ai-threads";
+import { LLMMessage } from "../../types/llm";
+
+// 40 characters, 10 tokens
+const TEXT = "x".repeat(40);
+
+const transcript: LLMMessage[] = [
+  { role: "assistant", content: "Welcome back" },
+  { role: "user", content: TEXT },
+  { role: "assistant", content: TEXT },
+  { role: "user", content: TEXT },
+  { role: "assistant", content: "", toolCalls: [{ name: "listAllCourts", args: {} }] },
+  { role: "tool", results: [{ name: "listAllCourts", response: { success: true } }] },
+  { role: "assistant", content: TEXT },
+  { role: "user", content: TEXT },
+  { role: "assistant", content: TEXT },
+];
+
+describe("estimateTokens", () => {
+  it("counts about four characters per token", () => {
+    expect(estimateTokens({ role: "user", content: TEXT })).toBe(10);
+    expect(estimateTokens({ role: "user", content: "abcde" })).toBe(2);
+  });
+
+  it("counts tool calls and results", () => {
+    expect(estimateTokens(transcript[4])).toBeGreaterThan(0);
+    expect(estimateTokens(transcript[5])).toBeGreaterThan(0);
+  });
+});
+
+describe("splitIntoTurns", () => {
+  it("starts each turn at a user message and drops a leading reply", () => {
+    const turns = splitIntoTurns(transcript);
+
+    expect(turns.map((turn) => turn.length)).toEqual([2, 4, 2]);
+    expect(turns.every((turn) => turn[0].role === "user")).toBe(true);
+  });
+});
+
+describe("fitToTokenBudget", () => {
+  it("keeps everything that fits", () => {
+    expect(fitToTokenBudget(transcript, 10_000)).toEqual(transcript.slice(1));
+  });
+
+  it("keeps the newest whole turns", () => {
+    expect(fitToTokenBudget(transcript, 20)).toEqual(transcript.slice(7));
+  });
+
+  it("never splits a tool call from its result", () => {
+    const kept = fitToTokenBudget(transcript, 45);
+
+    expect(kept[0]).toEqual(transcript[7]);
+    expect(kept.some((m) => m.role === "tool")).toBe(false);
+  });
+
+  it("returns nothing when the newest turn is over budget", () => {
+    expect(fitToTokenBudget(transcript, 5)).toEqual([]);
+  });
+});
+
+describe("trimToMessageLimit", () => {
+  it("drops the oldest whole turns", () => {
+    expect(trimToMessageLimit(transcript, 6)).toEqual(transcript.slice(3));
+  });
+
+  it("keeps the newest turn even when it is over the limit", () => {
+    expect(trimToMessageLimit(transcript, 1)).toEqual(transcript.slice(7));
+  });
+});
+
+describe("buildThreadTitle", () => {
+  it("collapses whitespace", () => {
+    expect(buildThreadTitle("  Book\n court 2  tomorrow ")).toBe("Book court 2 tomorrow");
+  });
+
+  it("shortens long messages", () => {
+    const title = buildThreadTitle("Can you ".repeat(20));
+
+    expect(title.length).toBeLessThanOrEqual(60);
+    expect(title.endsWith("…")).toBe(true);
+  });
+
+  it("names empty messages", () => {
+    expect(buildThreadTitle("   ")).toBe("New conversation");
+  });
+});
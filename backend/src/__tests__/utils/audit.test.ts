@@ -0,0 +1,66 @@
+import { describe, it, expect } from "vitest";
+import { diffRecords, REDACTED_VALUE } from "../../lib/utils/audit";
+
+describe("audit diffs", () => {
+  it("should list only the fields that changed", () => {
+    const changes = diffRecords(
+      { courtId: "1", date: "2026-06-01", notes: "Lesson" },
+      { courtId: "2", date: "2026-06-01", notes: "Lesson" }
+    );
+
+    expect(changes).toEqual({ courtId: { before: "1", after: "2" } });
+  });
+
+  it("should compare nested values by content", () => {
+    const changes = diffRecords(
+      { timeSlot: { start: "10:00", end: "11:00" }, guardianIds: ["a"] },
+      { timeSlot: { start: "12:00", end: "13:00" }, guardianIds: ["a"] }
+    );
+
+    expect(changes).toEqual({
+      timeSlot: {
+        before: { start: "10:00", end: "11:00" },
+        after: { start: "12:00", end: "13:00" },
+      },
+    });
+  });
+
+  it("should record every field of a created record", () => {
+    const changes = diffRecords(null, { id: "1", firstName: "Sam", isActive: true });
+
+    expect(changes).toEqual({
+      firstName: { before: undefined, after: "Sam" },
+      isActive: { before: undefined, after: true },
+    });
+  });
+
+  it("should note added and removed fields", () => {
+    const changes = diffRecords({ notes: "Old" }, { ntrpRating: "4.0" });
+
+    expect(changes).toEqual({
+      notes: { before: "Old", after: undefined },
+      ntrpRating: { before: undefined, after: "4.0" },
+    });
+  });
+
+  it("should ignore bookkeeping fields", () => {
+    const changes = diffRecords(
+      { createdAt: "a", updatedAt: "a", lastModified: "a", sequence: 1 },
+      { createdAt: "b", updatedAt: "b", lastModified: "b", sequence: 2 }
+    );
+
+    expect(changes).toEqual({});
+  });
+
+  it("should redact secrets", () => {
+    const changes = diffRecords(
+      { passwordHash: "old-hash" },
+      { passwordHash: "new-hash", calendarToken: "token" }
+    );
+
+    expect(changes).toEqual({
+      passwordHash: { before: REDACTED_VALUE, after: REDACTED_VALUE },
+      calendarToken: { before: undefined, after: REDACTED_VALUE },
+    });
+  });
+});
@@ -0,0 +1,190 @@
+import { describe, it, expect } from "vitest";
+import {
+  checkBookingRules,
+  DEFAULT_BOOKING_RULES,
+  mergeBookingRules,
+} from "../../lib/utils/booking-rules";
+import { BookingRules, Reservation } from "../../types/reservation";
+import { ValidationError } from "../../lib/errors/reservation-errors";
+
+// Monday 2026-06-01, 09:00 local time
+const NOW = new Date(2026, 5, 1, 9, 0);
+
+const rules: BookingRules = {
+  advanceWindowDays: { player: 7, coach: 30, parent: 7, admin: null, guest: 3 },
+  maxActiveReservations: 3,
+  maxHoursPerDay: 2,
+  maxHoursPerWeek: 4,
+  minLeadMinutes: 60,
+};
+
+function booking(date: string, start: string, end: string) {
+  return { date, timeSlot: { start, end } };
+}
+
+function reservation(
+  date: string,
+  start: string,
+  end: string,
+  status: Reservation["status"] = "confirmed"
+): Reservation {
+  return {
+    id: `reservation-${date}-${start}`,
+    courtId: "1",
+    courtName: "Court 1",
+    date,
+    timeSlot: { start, end },
+    memberId: "member-1",
+    createdAt: "2026-05-01T00:00:00.000Z",
+    status,
+  };
+}
+
+function check(
+  request: ReturnType<typeof booking>,
+  reservations: Reservation[] = [],
+  overrides: Partial<Parameters<typeof checkBookingRules>[2]> = {}
+) {
+  checkBookingRules(rules, request, {
+    bookerType: "player",
+    reservations,
+    now: NOW,
+    ...overrides,
+  });
+}
+
+describe("booking rules", () => {
+  describe("checkBookingRules", () => {
+    it("should allow bookings inside every limit", () => {
+      expect(() => check(booking("2026-06-03", "10:00", "11:00"))).not.toThrow();
+    });
+
+    it("should leave everything open under the default rules", () => {
+      expect(() =>
+        checkBookingRules(DEFAULT_BOOKING_RULES, booking("2027-01-01", "08:00", "21:00"), {
+          bookerType: "player",
+          reservations: [],
+          now: NOW,
+        })
+      ).not.toThrow();
+    });
+
+    it("should enforce the minimum lead time", () => {
+      expect(() => check(booking("2026-06-01", "09:30", "10:30"))).toThrow(
+        "at least 60 minutes from now"
+      );
+      expect(() => check(booking("2026-06-01", "10:00", "11:00"))).not.toThrow();
+    });
+
+    it("should enforce each role's advance window", () => {
+      expect(() => check(booking("2026-06-09", "10:00", "11:00"))).toThrow(
+        "Players can book up to 7 days ahead"
+      );
+      expect(() =>
+        check(booking("2026-06-09", "10:00", "11:00"), [], { bookerType: "coach" })
+      ).not.toThrow();
+      expect(() =>
+        check(booking("2026-06-05", "10:00", "11:00"), [], { bookerType: "guest" })
+      ).toThrow("Guests can book up to 3 days ahead");
+      expect(() =>
+        check(booking("2027-06-01", "10:00", "11:00"), [], { bookerType: "admin" })
+      ).not.toThrow();
+    });
+
+    it("should use a plan's window in place of the role's", () => {
+      const planWindow = { planName: "Adult", days: 14 };
+      expect(() =>
+        check(booking("2026-06-12", "10:00", "11:00"), [], { planWindow })
+      ).not.toThrow();
+      expect(() =>
+        check(booking("2026-06-16", "10:00", "11:00"), [], { planWindow })
+      ).toThrow("Adult members can book up to 14 days ahead");
+    });
+
+    it("should cap upcoming reservations, ignoring past and cancelled ones", () => {
+      const upcoming = [
+        reservation("2026-06-02", "10:00", "11:00"),
+        reservation("2026-06-03", "10:00", "11:00"),
+        reservation("2026-06-04", "10:00", "11:00"),
+      ];
+      expect(() => check(booking("2026-06-05", "10:00", "11:00"), upcoming)).toThrow(
+        "at most 3 upcoming reservations"
+      );
+
+      const finished = [
+        reservation("2026-06-01", "07:00", "08:00"),
+        reservation("2026-06-03", "10:00", "11:00", "cancelled"),
+        ...upcoming.slice(1),
+      ];
+      expect(() => check(booking("2026-06-05", "10:00", "11:00"), finished)).not.toThrow();
+    });
+
+    it("should cap court hours per day", () => {
+      const sameDay = [reservation("2026-06-03", "08:00", "09:30")];
+      expect(() => check(booking("2026-06-03", "10:00", "11:00"), sameDay)).toThrow(
+        "at most 2 hours of court time per day"
+      );
+      expect(() => check(booking("2026-06-03", "10:00", "10:30"), sameDay)).not.toThrow();
+    });
+
+    it("should cap court hours per Monday-Sunday week", () => {
+      const thisWeek = [
+        reservation("2026-06-02", "10:00", "12:00"),
+        reservation("2026-06-04", "10:00", "11:30"),
+      ];
+      expect(() => check(booking("2026-06-07", "10:00", "11:00"), thisWeek)).toThrow(
+        "at most 4 hours of court time per week"
+      );
+      // The following Monday starts a new week
+      expect(() => check(booking("2026-06-08", "10:00", "11:00"), thisWeek)).not.toThrow();
+    });
+
+    it("should not apply member caps to guests", () => {
+      const busy = [
+        reservation("2026-06-02", "10:00", "12:00"),
+        reservation("2026-06-02", "13:00", "14:00"),
+        reservation("2026-06-03", "10:00", "12:00"),
+      ];
+      expect(() =>
+        check(booking("2026-06-02", "15:00", "16:00"), busy, { bookerType: "guest" })
+      ).not.toThrow();
+    });
+  });
+
+  describe("mergeBookingRules", () => {
+    it("should keep omitted fields and clear limits set to null", () => {
+      const merged = mergeBookingRules(rules, {
+        advanceWindowDays: { guest: 1 } as BookingRules["advanceWindowDays"],
+        maxHoursPerWeek: null,
+      });
+      expect(merged.advanceWindowDays).toEqual({ ...rules.advanceWindowDays, guest: 1 });
+      expect(merged.maxHoursPerWeek).toBeNull();
+      expect(merged.maxActiveReservations).toBe(3);
+    });
+
+    it("should reject malformed values", () => {
+      expect(() => mergeBookingRules(rules, { maxActiveReservations: 0 })).toThrow(
+        ValidationError
+      );
+      expect(() => mergeBookingRules(rules, { maxActiveReservations: 1.5 })).toThrow(
+        "positive whole number"
+      );
+      expect(() => mergeBookingRules(rules, { maxHoursPerDay: -2 })).toThrow(ValidationError);
+      expect(() => mergeBookingRules(rules, { minLeadMinutes: -5 })).toThrow(ValidationError);
+      expect(() =>
+        mergeBookingRules(rules, {
+          advanceWindowDays: { member: 5 } as unknown as BookingRules["advanceWindowDays"],
+        })
+      ).toThrow("roles must be one of");
+    });
+
+    it("should allow fractional hour caps and a zero-day window", () => {
+      const merged = mergeBookingRules(rules, {
+        maxHoursPerDay: 1.5,
+        advanceWindowDays: { guest: 0 } as BookingRules["advanceWindowDays"],
+      });
+      expect(merged.maxHoursPerDay).toBe(1.5);
+      expect(merged.advanceWindowDays.guest).toBe(0);
+    });
+  });
+});
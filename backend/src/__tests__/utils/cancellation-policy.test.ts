@@ -0,0 +1,146 @@
+import { describe, it, expect } from "vitest";
+import {
+  activePenalties,
+  calculateRefund,
+  DEFAULT_CANCELLATION_POLICY,
+  getRestrictedUntil,
+  isLateCancellation,
+  mergeCancellationPolicy,
+} from "../../lib/utils/cancellation-policy";
+import { CancellationPolicy, Penalty } from "../../types/penalty";
+import { ValidationError } from "../../lib/errors/reservation-errors";
+
+const NOW = new Date("2026-06-01T12:00:00.000Z");
+
+const policy: CancellationPolicy = {
+  ...DEFAULT_CANCELLATION_POLICY,
+  penaltyWindowDays: 30,
+  penaltyThreshold: 2,
+  restrictionDays: 7,
+};
+
+function penalty(daysAgo: number, waived = false): Penalty {
+  const createdAt = new Date(NOW.getTime() - daysAgo * 24 * 60 * 60 * 1000).toISOString();
+  return {
+    id: `penalty-${daysAgo}`,
+    memberId: "member-1",
+    reservationId: `reservation-${daysAgo}`,
+    kind: "late_cancellation",
+    reservationDate: "2026-05-01",
+    reservationStart: "10:00",
+    createdAt,
+    ...(waived ? { waivedAt: createdAt, waivedBy: "admin-1" } : {}),
+  };
+}
+
+describe("cancellation policy", () => {
+  describe("calculateRefund", () => {
+    it("should apply the default 24h/12h tiers", () => {
+      expect(calculateRefund(DEFAULT_CANCELLATION_POLICY, 4000, 30)).toEqual({
+        amount: 4000,
+        reason: "Cancellation 24+ hours before reservation (100% refund)",
+      });
+      expect(calculateRefund(DEFAULT_CANCELLATION_POLICY, 4001, 18).amount).toBe(2000);
+      expect(calculateRefund(DEFAULT_CANCELLATION_POLICY, 4000, 6)).toEqual({
+        amount: 0,
+        reason: "Cancellation less than 12 hours before reservation (no refund)",
+      });
+    });
+
+    it("should pick the tier with the longest notice given, in any order", () => {
+      const tiers = {
+        ...policy,
+        refundTiers: [
+          { minHoursBefore: 2, refundPercent: 25 },
+          { minHoursBefore: 48, refundPercent: 100 },
+          { minHoursBefore: 24, refundPercent: 75 },
+        ],
+      };
+      expect(calculateRefund(tiers, 1000, 72).amount).toBe(1000);
+      expect(calculateRefund(tiers, 1000, 30).amount).toBe(750);
+      expect(calculateRefund(tiers, 1000, 3).amount).toBe(250);
+      expect(calculateRefund(tiers, 1000, 1).amount).toBe(0);
+    });
+
+    it("should never refund without tiers", () => {
+      expect(calculateRefund({ ...policy, refundTiers: [] }, 1000, 100)).toEqual({
+        amount: 0,
+        reason: "Cancellation (no refund)",
+      });
+    });
+  });
+
+  describe("isLateCancellation", () => {
+    it("should count cancellations inside the late window (and after the start)", () => {
+      expect(isLateCancellation(policy, 23)).toBe(true);
+      expect(isLateCancellation(policy, -2)).toBe(true);
+      expect(isLateCancellation(policy, 24)).toBe(false);
+    });
+  });
+
+  describe("penalty window", () => {
+    it("should only count unwaived penalties inside the rolling window", () => {
+      const penalties = [penalty(40), penalty(10, true), penalty(5), penalty(1)];
+      expect(activePenalties(penalties, policy, NOW).map((p) => p.id)).toEqual([
+        "penalty-1",
+        "penalty-5",
+      ]);
+    });
+
+    it("should suspend booking from the latest penalty once the threshold is reached", () => {
+      expect(getRestrictedUntil([penalty(3)], policy, NOW)).toBeNull();
+
+      const until = getRestrictedUntil([penalty(20), penalty(3)], policy, NOW);
+      expect(until?.toISOString()).toBe("2026-06-05T12:00:00.000Z");
+    });
+
+    it("should lift the suspension after restrictionDays or once penalties decay", () => {
+      expect(getRestrictedUntil([penalty(20), penalty(8)], policy, NOW)).toBeNull();
+      expect(getRestrictedUntil([penalty(31), penalty(3)], policy, NOW)).toBeNull();
+      expect(getRestrictedUntil([penalty(5, true), penalty(3)], policy, NOW)).toBeNull();
+    });
+  });
+
+  describe("mergeCancellationPolicy", () => {
+    it("should replace tiers (longest notice first) and keep other fields", () => {
+      const merged = mergeCancellationPolicy(policy, {
+        refundTiers: [
+          { minHoursBefore: 6, refundPercent: 50 },
+          { minHoursBefore: 48, refundPercent: 100 },
+        ],
+        penaltyThreshold: 4,
+      });
+      expect(merged.refundTiers).toEqual([
+        { minHoursBefore: 48, refundPercent: 100 },
+        { minHoursBefore: 6, refundPercent: 50 },
+      ]);
+      expect(merged.penaltyThreshold).toBe(4);
+      expect(merged.lateCancellationHours).toBe(policy.lateCancellationHours);
+    });
+
+    it("should reject malformed values", () => {
+      expect(() =>
+        mergeCancellationPolicy(policy, {
+          refundTiers: [{ minHoursBefore: 24, refundPercent: 120 }],
+        })
+      ).toThrow("cannot be more than 100");
+      expect(() =>
+        mergeCancellationPolicy(policy, {
+          refundTiers: [
+            { minHoursBefore: 24, refundPercent: 100 },
+            { minHoursBefore: 24, refundPercent: 50 },
+          ],
+        })
+      ).toThrow("different minHoursBefore");
+      expect(() => mergeCancellationPolicy(policy, { penaltyThreshold: 0 })).toThrow(
+        ValidationError
+      );
+      expect(() => mergeCancellationPolicy(policy, { penaltyWindowDays: 1.5 })).toThrow(
+        ValidationError
+      );
+      expect(() =>
+        mergeCancellationPolicy(policy, { refundTiers: "none" as unknown as [] })
+      ).toThrow("must be an array");
+    });
+  });
+});
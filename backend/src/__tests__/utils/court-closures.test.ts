@@ -0,0 +1,116 @@
+import { describe, it, expect } from "vitest";
+import {
+  closureBlocks,
+  describeClosure,
+  findBlockingClosure,
+  validateClosureRequest,
+} from "../../lib/utils/court-closures";
+import { CourtClosure } from "../../types/reservation";
+import { ValidationError } from "../../lib/errors/reservation-errors";
+
+const resurfacing: CourtClosure = {
+  id: "closure-1",
+  courtId: "3",
+  startDate: "2026-05-01",
+  endDate: "2026-05-03",
+  kind: "maintenance",
+  reason: "Resurfacing",
+  createdAt: "2026-04-01T00:00:00.000Z",
+};
+
+const rain: CourtClosure = {
+  id: "closure-2",
+  courtId: "1",
+  startDate: "2026-05-10",
+  endDate: "2026-05-10",
+  startTime: "14:00",
+  endTime: "17:00",
+  kind: "weather",
+  reason: "Rain",
+  createdAt: "2026-05-10T12:00:00.000Z",
+};
+
+describe("court closures", () => {
+  describe("closureBlocks", () => {
+    it("should block every slot of an all-day closure on covered dates", () => {
+      expect(closureBlocks(resurfacing, "3", "2026-05-01", "08:00", "09:00")).toBe(true);
+      expect(closureBlocks(resurfacing, "3", "2026-05-03", "20:00", "21:00")).toBe(true);
+    });
+
+    it("should ignore other dates and courts", () => {
+      expect(closureBlocks(resurfacing, "3", "2026-05-04", "08:00", "09:00")).toBe(false);
+      expect(closureBlocks(resurfacing, "4", "2026-05-02", "08:00", "09:00")).toBe(false);
+    });
+
+    it("should only block overlapping times for partial-day closures", () => {
+      expect(closureBlocks(rain, "1", "2026-05-10", "13:30", "14:30")).toBe(true);
+      expect(closureBlocks(rain, "1", "2026-05-10", "13:00", "14:00")).toBe(false);
+      expect(closureBlocks(rain, "1", "2026-05-10", "17:00", "18:00")).toBe(false);
+    });
+  });
+
+  describe("findBlockingClosure", () => {
+    it("should return the blocking closure", () => {
+      expect(findBlockingClosure([resurfacing, rain], "1", "2026-05-10", "15:00", "16:00")).toBe(rain);
+      expect(findBlockingClosure([resurfacing, rain], "1", "2026-05-11", "15:00", "16:00")).toBeUndefined();
+    });
+  });
+
+  describe("describeClosure", () => {
+    it("should describe date ranges and times", () => {
+      expect(describeClosure(resurfacing)).toBe("maintenance (Resurfacing) 2026-05-01 to 2026-05-03");
+      expect(describeClosure(rain)).toBe("weather (Rain) 2026-05-10 14:00-17:00");
+    });
+  });
+
+  describe("validateClosureRequest", () => {
+    it("should accept a valid closure", () => {
+      expect(() =>
+        validateClosureRequest({
+          courtId: "1",
+          startDate: "2026-05-10",
+          startTime: "14:00",
+          endTime: "17:00",
+          kind: "weather",
+          reason: "Rain",
+        })
+      ).not.toThrow();
+    });
+
+    it("should reject an end date before the start date", () => {
+      expect(() =>
+        validateClosureRequest({
+          courtId: "1",
+          startDate: "2026-05-10",
+          endDate: "2026-05-09",
+          reason: "Rain",
+        })
+      ).toThrow("endDate cannot be before startDate");
+    });
+
+    it("should require both times or neither", () => {
+      expect(() =>
+        validateClosureRequest({
+          courtId: "1",
+          startDate: "2026-05-10",
+          startTime: "14:00",
+          reason: "Rain",
+        })
+      ).toThrow("startTime and endTime must be provided together");
+    });
+
+    it("should require a reason and a known kind", () => {
+      expect(() =>
+        validateClosureRequest({ courtId: "1", startDate: "2026-05-10", reason: " " })
+      ).toThrow("A reason is required");
+      expect(() =>
+        validateClosureRequest({
+          courtId: "1",
+          startDate: "2026-05-10",
+          reason: "Party",
+          kind: "party" as any,
+        })
+      ).toThrow(ValidationError);
+    });
+  });
+});
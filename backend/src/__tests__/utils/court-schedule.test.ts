@@ -0,0 +1,162 @@
+import { describe, it, expect } from "vitest";
+import {
+  DEFAULT_COURT_SCHEDULE,
+  generateTimeSlots,
+  getHoursForDate,
+  getWeekday,
+  isWithinOperatingHours,
+  validateCourtSchedule,
+} from "../../lib/utils/court-schedule";
+import { CourtSchedule } from "../../types/reservation";
+import { ValidationError } from "../../lib/errors/reservation-errors";
+
+const indoorSchedule: CourtSchedule = {
+  slotDurationMinutes: 60,
+  weeklyHours: {
+    sunday: { open: "09:00", close: "15:00", slotDurationMinutes: 90 },
+    monday: { open: "06:00", close: "22:00" },
+    tuesday: { open: "06:00", close: "22:00" },
+    wednesday: { open: "06:00", close: "22:00" },
+    thursday: { open: "06:00", close: "22:00" },
+    friday: { open: "06:00", close: "22:00" },
+    saturday: null,
+  },
+  overrides: [
+    { date: "2026-11-26", closed: true, reason: "Thanksgiving" },
+    { date: "2026-12-24", open: "08:00", close: "12:00" },
+  ],
+};
+
+describe("court schedule", () => {
+  describe("getWeekday", () => {
+    it("should resolve weekdays from YYYY-MM-DD dates", () => {
+      expect(getWeekday("2026-02-01")).toBe("sunday");
+      expect(getWeekday("2026-02-02")).toBe("monday");
+      expect(getWeekday("2026-02-07")).toBe("saturday");
+    });
+  });
+
+  describe("generateTimeSlots", () => {
+    it("should keep the 08:00-21:00 hourly default when no schedule is set", () => {
+      const slots = generateTimeSlots(undefined, "2026-02-02");
+
+      expect(slots).toHaveLength(13);
+      expect(slots[0]).toEqual({ start: "08:00", end: "09:00" });
+      expect(slots[12]).toEqual({ start: "20:00", end: "21:00" });
+    });
+
+    it("should use weekday hours", () => {
+      const slots = generateTimeSlots(indoorSchedule, "2026-02-02");
+
+      expect(slots[0]).toEqual({ start: "06:00", end: "07:00" });
+      expect(slots).toHaveLength(16);
+    });
+
+    it("should use per-day slot durations and drop slots past closing", () => {
+      const slots = generateTimeSlots(indoorSchedule, "2026-02-01");
+
+      expect(slots).toEqual([
+        { start: "09:00", end: "10:30" },
+        { start: "10:30", end: "12:00" },
+        { start: "12:00", end: "13:30" },
+        { start: "13:30", end: "15:00" },
+      ]);
+    });
+
+    it("should return no slots on closed days", () => {
+      expect(generateTimeSlots(indoorSchedule, "2026-02-07")).toEqual([]);
+    });
+
+    it("should apply date overrides", () => {
+      expect(generateTimeSlots(indoorSchedule, "2026-11-26")).toEqual([]);
+      expect(generateTimeSlots(indoorSchedule, "2026-12-24")).toHaveLength(4);
+    });
+  });
+
+  describe("getHoursForDate", () => {
+    it("should return null for a closed override", () => {
+      expect(getHoursForDate(indoorSchedule, "2026-11-26")).toBeNull();
+    });
+
+    it("should include the override reason", () => {
+      const hours = getHoursForDate(
+        {
+          ...DEFAULT_COURT_SCHEDULE,
+          overrides: [{ date: "2026-07-04", open: "10:00", close: "14:00", reason: "Holiday hours" }],
+        },
+        "2026-07-04"
+      );
+
+      expect(hours).toEqual({
+        open: "10:00",
+        close: "14:00",
+        slotDurationMinutes: 60,
+        reason: "Holiday hours",
+      });
+    });
+  });
+
+  describe("isWithinOperatingHours", () => {
+    it("should accept ranges inside opening hours", () => {
+      expect(isWithinOperatingHours(indoorSchedule, "2026-02-02", "06:00", "07:00")).toBe(true);
+      expect(isWithinOperatingHours(indoorSchedule, "2026-02-02", "21:00", "22:00")).toBe(true);
+    });
+
+    it("should reject ranges outside opening hours", () => {
+      expect(isWithinOperatingHours(indoorSchedule, "2026-02-02", "05:00", "06:00")).toBe(false);
+      expect(isWithinOperatingHours(indoorSchedule, "2026-02-02", "21:30", "22:30")).toBe(false);
+    });
+
+    it("should reject any range on closed days", () => {
+      expect(isWithinOperatingHours(indoorSchedule, "2026-02-07", "10:00", "11:00")).toBe(false);
+    });
+  });
+
+  describe("validateCourtSchedule", () => {
+    it("should accept and normalize a valid schedule", () => {
+      const result = validateCourtSchedule({
+        ...indoorSchedule,
+        overrides: [...indoorSchedule.overrides!].reverse(),
+      });
+
+      expect(result.weeklyHours.saturday).toBeNull();
+      expect(result.overrides!.map((o) => o.date)).toEqual(["2026-11-26", "2026-12-24"]);
+    });
+
+    it("should reject invalid slot durations", () => {
+      expect(() =>
+        validateCourtSchedule({ ...indoorSchedule, slotDurationMinutes: 0 })
+      ).toThrow(ValidationError);
+    });
+
+    it("should reject close times before open times", () => {
+      expect(() =>
+        validateCourtSchedule({
+          ...indoorSchedule,
+          weeklyHours: { ...indoorSchedule.weeklyHours, monday: { open: "22:00", close: "06:00" } },
+        })
+      ).toThrow("close time must be after open time");
+    });
+
+    it("should reject malformed times", () => {
+      expect(() =>
+        validateCourtSchedule({
+          ...indoorSchedule,
+          weeklyHours: { ...indoorSchedule.weeklyHours, monday: { open: "6am", close: "22:00" } },
+        })
+      ).toThrow(ValidationError);
+    });
+
+    it("should reject duplicate overrides", () => {
+      expect(() =>
+        validateCourtSchedule({
+          ...indoorSchedule,
+          overrides: [
+            { date: "2026-11-26", closed: true },
+            { date: "2026-11-26", closed: true },
+          ],
+        })
+      ).toThrow("Duplicate override");
+    });
+  });
+});
@@ -0,0 +1,57 @@
+/**
+ * Unit tests for court validation utilities
+ */
+
+import { describe, it, expect } from "vitest";
+import { validateCourtData, validateCourtUpdate } from "../../lib/utils/court-validation";
+import { ValidationError } from "../../lib/errors/reservation-errors";
+
+describe("Court Validation", () => {
+  describe("validateCourtData", () => {
+    it("should accept valid court data", () => {
+      expect(() =>
+        validateCourtData({
+          name: "Court 11",
+          type: "hard",
+          lighting: true,
+          environment: "outdoor",
+        })
+      ).not.toThrow();
+    });
+
+    it("should require a name", () => {
+      expect(() => validateCourtData({ name: "  ", type: "clay" })).toThrow(
+        "Court name is required"
+      );
+    });
+
+    it("should require a valid surface type", () => {
+      expect(() => validateCourtData({ name: "Court 11" } as any)).toThrow(
+        "Court type is required"
+      );
+      expect(() => validateCourtData({ name: "Court 11", type: "grass" } as any)).toThrow(
+        ValidationError
+      );
+    });
+
+    it("should reject invalid environment and flags", () => {
+      expect(() =>
+        validateCourtData({ name: "Court 11", type: "clay", environment: "roof" } as any)
+      ).toThrow("environment must be either indoor or outdoor");
+      expect(() =>
+        validateCourtData({ name: "Court 11", type: "clay", lighting: "yes" } as any)
+      ).toThrow("lighting must be true or false");
+    });
+  });
+
+  describe("validateCourtUpdate", () => {
+    it("should allow partial updates", () => {
+      expect(() => validateCourtUpdate({ available: false })).not.toThrow();
+      expect(() => validateCourtUpdate({})).not.toThrow();
+    });
+
+    it("should reject an empty name", () => {
+      expect(() => validateCourtUpdate({ name: "" })).toThrow("Court name cannot be empty");
+    });
+  });
+});
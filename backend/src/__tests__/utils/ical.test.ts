@@ -0,0 +1,125 @@
+import { describe, it, expect } from "vitest";
+import {
+  buildCalendar,
+  CalendarEvent,
+  escapeText,
+  foldLine,
+  toUtcDateTime,
+} from "../../lib/utils/ical";
+
+const NOW = new Date(Date.UTC(2026, 5, 1, 12, 0));
+
+const lesson: CalendarEvent = {
+  uid: "reservation-abc@providencetennis.com",
+  date: "2026-07-04",
+  start: "09:00",
+  end: "10:30",
+  summary: "Lesson with Casey Coach - Court 1",
+  location: "Court 1, Providence Tennis Academy",
+  status: "CONFIRMED",
+  sequence: 2,
+};
+
+describe("escapeText", () => {
+  it("escapes separators, backslashes and newlines", () => {
+    expect(escapeText("Rain; courts 1, 2\\3\nsee you")).toBe("Rain\\; courts 1\\, 2\\\\3\\nsee you");
+  });
+});
+
+describe("foldLine", () => {
+  it("leaves short lines alone", () => {
+    expect(foldLine("SUMMARY:Tennis")).toBe("SUMMARY:Tennis");
+  });
+
+  it("folds long lines at 75 octets with a leading space", () => {
+    const folded = foldLine(`DESCRIPTION:${"a".repeat(200)}`);
+    const lines = folded.split("\r\n");
+
+    expect(lines.length).toBe(3);
+    expect(Buffer.byteLength(lines[0])).toBe(75);
+    expect(lines.slice(1).every((line) => line.startsWith(" "))).toBe(true);
+    expect(lines.map((line, i) => (i === 0 ? line : line.substring(1))).join("")).toBe(
+      `DESCRIPTION:${"a".repeat(200)}`
+    );
+  });
+
+  it("never splits a multi-byte character", () => {
+    const folded = foldLine(`SUMMARY:${"é".repeat(80)}`);
+    for (const line of folded.split("\r\n")) {
+      expect(Buffer.byteLength(line)).toBeLessThanOrEqual(75);
+      expect(line).not.toContain("�");
+    }
+  });
+});
+
+describe("toUtcDateTime", () => {
+  it("converts club-local time to UTC across daylight saving", () => {
+    expect(toUtcDateTime("2026-07-04", "09:00", "America/New_York")).toBe("20260704T130000Z");
+    expect(toUtcDateTime("2026-12-04", "09:00", "America/New_York")).toBe("20261204T140000Z");
+    expect(toUtcDateTime("2026-07-04", "09:00", "UTC")).toBe("20260704T090000Z");
+  });
+});
+
+describe("buildCalendar", () => {
+  it("writes timed events in UTC with CRLF line endings", () => {
+    const calendar = buildCalendar([lesson], {
+      name: "My bookings",
+      timeZone: "America/New_York",
+      now: NOW,
+    });
+
+    expect(calendar.startsWith("BEGIN:VCALENDAR\r\nVERSION:2.0\r\n")).toBe(true);
+    expect(calendar.endsWith("END:VCALENDAR\r\n")).toBe(true);
+    expect(calendar.split("\r\n").every((line) => !line.includes("\n"))).toBe(true);
+    expect(calendar).toContain("METHOD:PUBLISH");
+    expect(calendar).toContain("X-WR-CALNAME:My bookings");
+    expect(calendar).toContain("UID:reservation-abc@providencetennis.com");
+    expect(calendar).toContain("DTSTAMP:20260601T120000Z");
+    expect(calendar).toContain("DTSTART:20260704T130000Z");
+    expect(calendar).toContain("DTEND:20260704T143000Z");
+    expect(calendar).toContain("LOCATION:Court 1\\, Providence Tennis Academy");
+    expect(calendar).toContain("STATUS:CONFIRMED");
+    expect(calendar).toContain("SEQUENCE:2");
+  });
+
+  it("writes all-day events as dates with an exclusive end", () => {
+    const calendar = buildCalendar(
+      [
+        {
+          uid: "closure-1@providencetennis.com",
+          date: "2026-07-30",
+          endDate: "2026-08-01",
+          summary: "Closed (maintenance) - Court 2",
+          status: "CONFIRMED",
+        },
+      ],
+      { name: "Court 2", timeZone: "UTC", now: NOW }
+    );
+
+    expect(calendar).toContain("DTSTART;VALUE=DATE:20260730");
+    expect(calendar).toContain("DTEND;VALUE=DATE:20260802");
+  });
+
+  it("marks cancelled invites for removal", () => {
+    const calendar = buildCalendar(
+      [
+        {
+          ...lesson,
+          status: "CANCELLED",
+          sequence: 3,
+          organizer: { name: "Providence Tennis Academy", email: "noreply@providencetennis.com" },
+          attendee: { name: "Sam Player", email: "sam@example.com" },
+        },
+      ],
+      { name: "Providence Tennis Academy", method: "CANCEL", timeZone: "UTC", now: NOW }
+    );
+
+    expect(calendar).toContain("METHOD:CANCEL");
+    expect(calendar).toContain("STATUS:CANCELLED");
+    expect(calendar).toContain("SEQUENCE:3");
+    expect(calendar).toContain(
+      "ORGANIZER;CN=Providence Tennis Academy:mailto:noreply@providencetennis.com"
+    );
+    expect(calendar).toContain("ATTENDEE;CN=Sam Player;ROLE=REQ-PARTICIPANT:mailto:sam@example.com");
+  });
+});
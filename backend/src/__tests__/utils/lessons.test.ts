@@ -0,0 +1,160 @@
+import { describe, it, expect } from "vitest";
+import {
+  addMinutes,
+  getLessonTimes,
+  isCoachAvailable,
+  validateLessonType,
+  validateTimeOffRequest,
+  validateWeeklyHours,
+} from "../../lib/utils/lessons";
+import { CoachSchedule } from "../../types/lesson";
+import { ValidationError } from "../../lib/errors/reservation-errors";
+
+// 2026-06-01 is a Monday
+const schedule: CoachSchedule = {
+  coachId: "coach-1",
+  weeklyHours: {
+    ...validateWeeklyHours({}),
+    monday: [
+      { start: "09:00", end: "11:00" },
+      { start: "15:00", end: "16:30" },
+    ],
+  },
+  timeOff: [
+    {
+      id: "time-off-1",
+      startDate: "2026-06-08",
+      endDate: "2026-06-08",
+      startTime: "09:00",
+      endTime: "10:00",
+      createdAt: "2026-05-01T00:00:00.000Z",
+    },
+    {
+      id: "time-off-2",
+      startDate: "2026-06-15",
+      endDate: "2026-06-21",
+      reason: "Tournament",
+      createdAt: "2026-05-01T00:00:00.000Z",
+    },
+  ],
+};
+
+describe("coach lessons", () => {
+  describe("validateWeeklyHours", () => {
+    it("should fill in missing days and sort each day's windows", () => {
+      const hours = validateWeeklyHours({
+        tuesday: [
+          { start: "14:00", end: "18:00" },
+          { start: "08:00", end: "12:00" },
+        ],
+      });
+      expect(hours.tuesday).toEqual([
+        { start: "08:00", end: "12:00" },
+        { start: "14:00", end: "18:00" },
+      ]);
+      expect(hours.sunday).toEqual([]);
+    });
+
+    it("should reject unknown days, bad times and overlapping windows", () => {
+      expect(() => validateWeeklyHours([])).toThrow(ValidationError);
+      expect(() => validateWeeklyHours({ funday: [] })).toThrow("Invalid weekday: funday");
+      expect(() => validateWeeklyHours({ monday: [{ start: "9am", end: "10:00" }] })).toThrow(
+        "HH:mm"
+      );
+      expect(() => validateWeeklyHours({ monday: [{ start: "10:00", end: "09:00" }] })).toThrow(
+        "end after they start"
+      );
+      expect(() =>
+        validateWeeklyHours({
+          monday: [
+            { start: "09:00", end: "11:00" },
+            { start: "10:30", end: "12:00" },
+          ],
+        })
+      ).toThrow("Hours for monday overlap");
+    });
+  });
+
+  describe("validateTimeOffRequest", () => {
+    it("should require a start date and paired times", () => {
+      expect(() => validateTimeOffRequest({ startDate: "2026-06-01" })).not.toThrow();
+      expect(() => validateTimeOffRequest({ startDate: "June 1" })).toThrow("startDate");
+      expect(() =>
+        validateTimeOffRequest({ startDate: "2026-06-02", endDate: "2026-06-01" })
+      ).toThrow("endDate cannot be before startDate");
+      expect(() => validateTimeOffRequest({ startDate: "2026-06-01", startTime: "09:00" })).toThrow(
+        "provided together"
+      );
+    });
+  });
+
+  describe("validateLessonType", () => {
+    const privateLesson = { name: "Private", kind: "private" as const, durationMinutes: 60, price: 9000 };
+
+    it("should accept a well-formed lesson type", () => {
+      expect(() => validateLessonType(privateLesson)).not.toThrow();
+      expect(() =>
+        validateLessonType({ ...privateLesson, kind: "semi_private", maxPlayers: 3 })
+      ).not.toThrow();
+    });
+
+    it("should reject bad durations, prices and player limits", () => {
+      expect(() => validateLessonType({ ...privateLesson, durationMinutes: 50 })).toThrow(
+        "multiple of 15"
+      );
+      expect(() => validateLessonType({ ...privateLesson, price: 90.5 })).toThrow("cents");
+      expect(() => validateLessonType({ ...privateLesson, maxPlayers: 2 })).toThrow(
+        "Private lessons are for one player"
+      );
+      expect(() =>
+        validateLessonType({ ...privateLesson, kind: "semi_private", maxPlayers: 1 })
+      ).toThrow("at least two players");
+      expect(() => validateLessonType({ ...privateLesson, kind: "group" as any })).toThrow(
+        "Invalid lesson kind"
+      );
+    });
+  });
+
+  describe("isCoachAvailable", () => {
+    it("should need the whole lesson inside one teaching window", () => {
+      expect(isCoachAvailable(schedule, "2026-06-01", "09:00", "10:00")).toBe(true);
+      expect(isCoachAvailable(schedule, "2026-06-01", "10:30", "11:30")).toBe(false);
+      expect(isCoachAvailable(schedule, "2026-06-02", "09:00", "10:00")).toBe(false);
+    });
+
+    it("should respect time off and coaches without a schedule", () => {
+      expect(isCoachAvailable(schedule, "2026-06-08", "09:30", "10:30")).toBe(false);
+      expect(isCoachAvailable(schedule, "2026-06-08", "10:00", "11:00")).toBe(true);
+      expect(isCoachAvailable(schedule, "2026-06-15", "15:00", "16:00")).toBe(false);
+      expect(isCoachAvailable(null, "2026-06-01", "09:00", "10:00")).toBe(false);
+    });
+  });
+
+  describe("getLessonTimes", () => {
+    it("should offer half-hourly starts that fit inside each window", () => {
+      expect(getLessonTimes(schedule, "2026-06-01", 60)).toEqual([
+        { start: "09:00", end: "10:00" },
+        { start: "09:30", end: "10:30" },
+        { start: "10:00", end: "11:00" },
+        { start: "15:00", end: "16:00" },
+        { start: "15:30", end: "16:30" },
+      ]);
+    });
+
+    it("should skip times during time off", () => {
+      expect(getLessonTimes(schedule, "2026-06-08", 60).map((t) => t.start)).toEqual([
+        "10:00",
+        "15:00",
+        "15:30",
+      ]);
+      expect(getLessonTimes(schedule, "2026-06-15", 60)).toEqual([]);
+    });
+  });
+
+  describe("addMinutes", () => {
+    it("should add minutes across the hour", () => {
+      expect(addMinutes("09:45", 30)).toBe("10:15");
+      expect(addMinutes("23:00", 60)).toBe("24:00");
+    });
+  });
+});
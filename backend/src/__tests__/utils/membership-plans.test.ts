@@ -0,0 +1,46 @@
+import { describe, it, expect } from "vitest";
+import {
+  getPlan,
+  isBillingInterval,
+  isMembershipPlanId,
+  planAppliesOn,
+  toSubscriptionStatus,
+} from "../../lib/utils/membership-plans";
+
+describe("membership plans", () => {
+  describe("getPlan", () => {
+    it("should find plans by ID", () => {
+      expect(getPlan("adult")?.name).toBe("Adult");
+      expect(getPlan("gold")).toBeNull();
+    });
+  });
+
+  describe("isMembershipPlanId / isBillingInterval", () => {
+    it("should accept only known plans and intervals", () => {
+      expect(isMembershipPlanId("off_season")).toBe(true);
+      expect(isMembershipPlanId("premium")).toBe(false);
+      expect(isBillingInterval("month")).toBe(true);
+      expect(isBillingInterval("week")).toBe(false);
+    });
+  });
+
+  describe("planAppliesOn", () => {
+    it("should limit seasonal plans to their months", () => {
+      const offSeason = getPlan("off_season")!;
+      expect(planAppliesOn(offSeason, "2026-01-15")).toBe(true);
+      expect(planAppliesOn(offSeason, "2026-07-15")).toBe(false);
+      expect(planAppliesOn(getPlan("adult")!, "2026-07-15")).toBe(true);
+    });
+  });
+
+  describe("toSubscriptionStatus", () => {
+    it("should map Stripe statuses onto ours", () => {
+      expect(toSubscriptionStatus("trialing")).toBe("trialing");
+      expect(toSubscriptionStatus("active")).toBe("active");
+      expect(toSubscriptionStatus("incomplete")).toBe("past_due");
+      expect(toSubscriptionStatus("unpaid")).toBe("past_due");
+      expect(toSubscriptionStatus("incomplete_expired")).toBe("canceled");
+      expect(toSubscriptionStatus("canceled")).toBe("canceled");
+    });
+  });
+});
@@ -0,0 +1,130 @@
+import { describe, it, expect } from "vitest";
+import {
+  assertCanAddPartners,
+  isPartnerOn,
+  normalizePartnerRequests,
+  splitCourtFee,
+  withoutPartnerEmails,
+} from "../../lib/utils/partners";
+import { ParticipantStatus, Reservation, ReservationParticipant } from "../../types/reservation";
+
+function participant(
+  id: string,
+  options: { memberId?: string; email?: string; status?: ParticipantStatus } = {}
+): ReservationParticipant {
+  return {
+    id,
+    memberId: options.memberId,
+    email: options.email || `${id}@example.com`,
+    status: options.status || "invited",
+    invitedAt: "2026-05-01T00:00:00.000Z",
+  };
+}
+
+describe("doubles partners", () => {
+  describe("normalizePartnerRequests", () => {
+    it("should tidy up member and guest partners", () => {
+      expect(
+        normalizePartnerRequests([
+          { memberId: " member-2 " },
+          { email: " Pat@Example.com ", name: " Pat " },
+        ])
+      ).toEqual([{ memberId: "member-2" }, { email: "pat@example.com", name: "Pat" }]);
+    });
+
+    it("should reject partners without a member or a valid email", () => {
+      expect(() => normalizePartnerRequests("pat@example.com")).toThrow("partners must be a list");
+      expect(() => normalizePartnerRequests([{ name: "Pat" }])).toThrow("memberId or an email");
+      expect(() => normalizePartnerRequests([{ email: "pat" }])).toThrow("Invalid partner email");
+    });
+  });
+
+  describe("assertCanAddPartners", () => {
+    const booker = { memberId: "member-1", email: "booker@example.com" };
+
+    it("should allow up to three partners who haven't declined", () => {
+      const existing = [participant("a"), participant("b", { status: "declined" })];
+      expect(() =>
+        assertCanAddPartners(existing, [participant("c"), participant("d")], booker)
+      ).not.toThrow();
+      expect(() =>
+        assertCanAddPartners(existing, [participant("c"), participant("d"), participant("e")], booker)
+      ).toThrow("at most 3 partners");
+    });
+
+    it("should reject the booker and anyone already invited", () => {
+      expect(() =>
+        assertCanAddPartners([], [participant("a", { memberId: "member-1" })], booker)
+      ).toThrow("The booker can't also be a partner");
+      expect(() =>
+        assertCanAddPartners([], [participant("a", { email: "Booker@example.com" })], booker)
+      ).toThrow("The booker can't also be a partner");
+      expect(() =>
+        assertCanAddPartners([participant("a", { status: "declined" })], [participant("a")], booker)
+      ).toThrow("a@example.com is already invited");
+      expect(() =>
+        assertCanAddPartners([], [participant("a"), participant("b", { email: "A@example.com" })], booker)
+      ).toThrow("already invited");
+    });
+  });
+
+  describe("splitCourtFee", () => {
+    it("should split evenly between the booker and member partners", () => {
+      const participants = [
+        participant("a", { memberId: "member-2" }),
+        participant("b", { memberId: "member-3", status: "accepted" }),
+        participant("c", { memberId: "member-4" }),
+      ];
+      expect(splitCourtFee(4000, participants)).toEqual({
+        booker: 1000,
+        partners: { a: 1000, b: 1000, c: 1000 },
+      });
+    });
+
+    it("should leave guests' shares, declined partners and leftover cents with the booker", () => {
+      const participants = [
+        participant("a", { memberId: "member-2" }),
+        participant("b"),
+        participant("c", { memberId: "member-4", status: "declined" }),
+      ];
+      expect(splitCourtFee(1000, participants)).toEqual({ booker: 667, partners: { a: 333 } });
+      expect(splitCourtFee(1000)).toEqual({ booker: 1000, partners: {} });
+    });
+  });
+
+  describe("isPartnerOn", () => {
+    it("should include invited and accepted partners but not declined ones", () => {
+      const reservation = {
+        participants: [
+          participant("a", { memberId: "member-2" }),
+          participant("b", { memberId: "member-3", status: "accepted" }),
+          participant("c", { memberId: "member-4", status: "declined" }),
+        ],
+      } as Reservation;
+      expect(isPartnerOn(reservation, "member-2")).toBe(true);
+      expect(isPartnerOn(reservation, "member-3")).toBe(true);
+      expect(isPartnerOn(reservation, "member-4")).toBe(false);
+      expect(isPartnerOn({} as Reservation, "member-2")).toBe(false);
+    });
+  });
+
+  describe("withoutPartnerEmails", () => {
+    it("should drop each partner's email and keep the rest", () => {
+      const reservation = {
+        id: "res-1",
+        customerName: "Dana Player",
+        participants: [participant("a", { memberId: "member-2", status: "accepted" })],
+      } as Reservation;
+
+      expect(withoutPartnerEmails(reservation)).toEqual({
+        id: "res-1",
+        customerName: "Dana Player",
+        participants: [
+          { id: "a", memberId: "member-2", status: "accepted", invitedAt: "2026-05-01T00:00:00.000Z" },
+        ],
+      });
+      expect(reservation.participants![0].email).toBe("a@example.com");
+      expect(withoutPartnerEmails({ id: "res-2" } as Reservation)).toEqual({ id: "res-2" });
+    });
+  });
+});
@@ -0,0 +1,101 @@
+import { describe, it, expect } from "vitest";
+import {
+  calculateCourtPrice,
+  calculateLessonPrice,
+  DEFAULT_PRICING_RULES,
+  getPrimeTimeMinutes,
+} from "../../lib/utils/pricing";
+import { ValidationError } from "../../lib/errors/reservation-errors";
+
+const hardCourt = { id: "1", name: "Court 1", type: "hard" as const };
+const indoorCourt = { id: "9", name: "Court 9", type: "indoor" as const };
+const adultPlan = { planId: "adult" as const, planName: "Adult", courtDiscount: 0.2 };
+const juniorPlan = { planId: "junior" as const, planName: "Junior", courtDiscount: 0.5 };
+
+// 2026-06-01 is a Monday, 2026-06-06 a Saturday
+const MONDAY = "2026-06-01";
+const SATURDAY = "2026-06-06";
+
+describe("pricing", () => {
+  describe("getPrimeTimeMinutes", () => {
+    it("should use the weekday window on weekdays", () => {
+      expect(getPrimeTimeMinutes(MONDAY, "09:00", "10:00")).toBe(0);
+      expect(getPrimeTimeMinutes(MONDAY, "17:00", "18:00")).toBe(60);
+      expect(getPrimeTimeMinutes(MONDAY, "16:30", "17:30")).toBe(30);
+    });
+
+    it("should use the weekend window on weekends", () => {
+      expect(getPrimeTimeMinutes(SATURDAY, "09:00", "10:00")).toBe(60);
+      expect(getPrimeTimeMinutes(SATURDAY, "17:00", "18:00")).toBe(0);
+    });
+  });
+
+  describe("calculateCourtPrice", () => {
+    it("should charge the court type's hourly rate off-peak", () => {
+      const quote = calculateCourtPrice(hardCourt, MONDAY, { start: "09:00", end: "10:00" }, null);
+      expect(quote.total).toBe(4000);
+      expect(quote.lineItems).toHaveLength(1);
+      expect(quote.durationMinutes).toBe(60);
+
+      const indoor = calculateCourtPrice(indoorCourt, MONDAY, { start: "09:00", end: "10:00" }, null);
+      expect(indoor.total).toBe(5500);
+    });
+
+    it("should prorate by duration", () => {
+      const quote = calculateCourtPrice(hardCourt, MONDAY, { start: "09:00", end: "10:30" }, null);
+      expect(quote.total).toBe(6000);
+    });
+
+    it("should apply the prime-time multiplier only to prime-time minutes", () => {
+      const prime = calculateCourtPrice(hardCourt, MONDAY, { start: "18:00", end: "19:00" }, null);
+      expect(prime.total).toBe(5000);
+      expect(prime.primeTimeMinutes).toBe(60);
+
+      const straddle = calculateCourtPrice(hardCourt, MONDAY, { start: "16:30", end: "17:30" }, null);
+      expect(straddle.lineItems.map((item) => item.amount)).toEqual([2000, 2500]);
+      expect(straddle.total).toBe(4500);
+    });
+
+    it("should add a guest fee for non-members", () => {
+      const quote = calculateCourtPrice(hardCourt, MONDAY, { start: "09:00", end: "10:00" }, undefined);
+      expect(quote.total).toBe(4000 + DEFAULT_PRICING_RULES.guestFeePerHour);
+      expect(quote.lineItems[1].label).toContain("Guest fee");
+    });
+
+    it("should discount court time by membership plan", () => {
+      const adult = calculateCourtPrice(hardCourt, MONDAY, { start: "18:00", end: "19:00" }, adultPlan);
+      expect(adult.total).toBe(4000);
+      expect(adult.membershipPlan).toBe("adult");
+
+      const junior = calculateCourtPrice(hardCourt, MONDAY, { start: "18:00", end: "19:00" }, juniorPlan);
+      expect(junior.total).toBe(2500);
+      expect(junior.lineItems[junior.lineItems.length - 1].label).toContain("Junior member discount");
+    });
+
+    it("should reject invalid time ranges", () => {
+      expect(() =>
+        calculateCourtPrice(hardCourt, MONDAY, { start: "10:00", end: "09:00" }, null)
+      ).toThrow(ValidationError);
+      expect(() =>
+        calculateCourtPrice(hardCourt, "06/01/2026", { start: "09:00", end: "10:00" }, null)
+      ).toThrow(ValidationError);
+    });
+  });
+
+  describe("calculateLessonPrice", () => {
+    it("should charge the lesson type's flat price, court included", () => {
+      const quote = calculateLessonPrice(
+        indoorCourt,
+        MONDAY,
+        { start: "18:00", end: "19:00" },
+        { id: "private-60", name: "Private lesson", price: 9000 }
+      );
+      expect(quote.total).toBe(9000);
+      expect(quote.lessonTypeId).toBe("private-60");
+      expect(quote.lineItems).toEqual([
+        { label: "Private lesson (60 min, court included)", amount: 9000 },
+      ]);
+      expect(quote.primeTimeMinutes).toBe(60);
+    });
+  });
+});
@@ -0,0 +1,116 @@
+import { describe, it, expect } from "vitest";
+import {
+  getEligibilityError,
+  getProgramStart,
+  parseNtrp,
+  scheduleSessions,
+  validateProgramRequest,
+} from "../../lib/utils/programs";
+import { ProgramRequest } from "../../types/program";
+import { ValidationError } from "../../lib/errors/reservation-errors";
+
+const clinic: ProgramRequest = {
+  name: "Tuesday Clinic",
+  kind: "clinic",
+  sessions: [
+    { date: "2026-06-09", start: "18:00", end: "19:30" },
+    { date: "2026-06-02", start: "18:00", end: "19:30" },
+  ],
+  courtIds: ["1", "2"],
+  coachIds: ["coach-1"],
+  capacity: 8,
+  price: 16000,
+};
+
+describe("programs", () => {
+  describe("validateProgramRequest", () => {
+    it("should accept a well-formed program", () => {
+      expect(() => validateProgramRequest(clinic)).not.toThrow();
+      expect(() =>
+        validateProgramRequest({ ...clinic, minAge: 8, maxAge: 12, minNtrp: 2.5, maxNtrp: 3.5 })
+      ).not.toThrow();
+    });
+
+    it("should reject missing sessions, overlapping sessions and bad times", () => {
+      expect(() => validateProgramRequest({ ...clinic, sessions: [] })).toThrow(
+        "at least one session"
+      );
+      expect(() =>
+        validateProgramRequest({
+          ...clinic,
+          sessions: [
+            { date: "2026-06-02", start: "18:00", end: "19:30" },
+            { date: "2026-06-02", start: "19:00", end: "20:00" },
+          ],
+        })
+      ).toThrow("Sessions on 2026-06-02 overlap");
+      expect(() =>
+        validateProgramRequest({
+          ...clinic,
+          sessions: [{ date: "2026-06-02", start: "19:30", end: "18:00" }],
+        })
+      ).toThrow("must end after it starts");
+      expect(() =>
+        validateProgramRequest({ ...clinic, sessions: [{ date: "June 2", start: "18:00", end: "19:00" }] })
+      ).toThrow(ValidationError);
+    });
+
+    it("should reject bad capacity, price, kind and eligibility ranges", () => {
+      expect(() => validateProgramRequest({ ...clinic, courtIds: [] })).toThrow("courtIds");
+      expect(() => validateProgramRequest({ ...clinic, capacity: 0 })).toThrow("capacity");
+      expect(() => validateProgramRequest({ ...clinic, price: 99.5 })).toThrow("cents");
+      expect(() => validateProgramRequest({ ...clinic, kind: "league" as any })).toThrow(
+        "Invalid program kind"
+      );
+      expect(() => validateProgramRequest({ ...clinic, minAge: 12, maxAge: 8 })).toThrow(
+        "minAge cannot be above maxAge"
+      );
+      expect(() => validateProgramRequest({ ...clinic, minNtrp: 3.3 })).toThrow("steps of 0.5");
+      expect(() => validateProgramRequest({ ...clinic, minAge: null, maxAge: null })).not.toThrow();
+    });
+  });
+
+  describe("scheduleSessions", () => {
+    it("should sort sessions and keep the IDs of unchanged ones", () => {
+      const sessions = scheduleSessions(clinic.sessions);
+      expect(sessions.map((s) => s.date)).toEqual(["2026-06-02", "2026-06-09"]);
+      expect(getProgramStart({ sessions })).toBe("2026-06-02T18:00");
+
+      const rescheduled = scheduleSessions(
+        [
+          { date: "2026-06-02", start: "18:00", end: "19:30" },
+          { date: "2026-06-16", start: "18:00", end: "19:30" },
+        ],
+        sessions
+      );
+      expect(rescheduled[0].id).toBe(sessions[0].id);
+      expect(rescheduled[1].id).not.toBe(sessions[1].id);
+    });
+  });
+
+  describe("getEligibilityError", () => {
+    const juniors = { name: "Junior Development", minAge: 8, maxAge: 12, minNtrp: 2.5 };
+
+    it("should accept players inside the ranges", () => {
+      expect(getEligibilityError(juniors, 8, 2.5)).toBeNull();
+      expect(getEligibilityError(juniors, 12, 4)).toBeNull();
+      expect(getEligibilityError({ name: "Open Clinic" }, null, null)).toBeNull();
+    });
+
+    it("should explain why a player can't enroll", () => {
+      expect(getEligibilityError(juniors, 13, 3)).toBe("Junior Development is for ages 8-12");
+      expect(getEligibilityError(juniors, 10, 2)).toBe("Junior Development is for NTRP 2.5 and up");
+      expect(getEligibilityError(juniors, null, 3)).toContain("add a date of birth");
+      expect(getEligibilityError(juniors, 10, null)).toContain("add an NTRP rating");
+    });
+  });
+
+  describe("parseNtrp", () => {
+    it("should parse ratings and ignore anything else", () => {
+      expect(parseNtrp("3.5")).toBe(3.5);
+      expect(parseNtrp(" 4 ")).toBe(4);
+      expect(parseNtrp("advanced")).toBeNull();
+      expect(parseNtrp(undefined)).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,93 @@
+import { describe, it, expect } from "vitest";
+import {
+  expandRecurrence,
+  formatRRule,
+  MAX_OCCURRENCES,
+  parseRRule,
+} from "../../lib/utils/recurrence";
+import { ValidationError } from "../../lib/errors/reservation-errors";
+
+describe("recurrence", () => {
+  describe("parseRRule", () => {
+    it("should parse a weekly rule with days and count", () => {
+      expect(parseRRule("RRULE:FREQ=WEEKLY;BYDAY=TH,TU;COUNT=6")).toEqual({
+        freq: "WEEKLY",
+        interval: 1,
+        byDay: ["tuesday", "thursday"],
+        count: 6,
+      });
+    });
+
+    it("should accept UNTIL in basic and extended date formats", () => {
+      expect(parseRRule("FREQ=DAILY;UNTIL=20270110").until).toBe("2027-01-10");
+      expect(parseRRule("FREQ=DAILY;UNTIL=2027-01-10").until).toBe("2027-01-10");
+    });
+
+    it("should require exactly one of COUNT or UNTIL", () => {
+      expect(() => parseRRule("FREQ=WEEKLY")).toThrow(ValidationError);
+      expect(() => parseRRule("FREQ=WEEKLY;COUNT=2;UNTIL=2027-01-01")).toThrow(ValidationError);
+    });
+
+    it("should reject unsupported values", () => {
+      expect(() => parseRRule("FREQ=YEARLY;COUNT=2")).toThrow(ValidationError);
+      expect(() => parseRRule("FREQ=WEEKLY;BYDAY=XX;COUNT=2")).toThrow(ValidationError);
+      expect(() => parseRRule("FREQ=DAILY;BYDAY=MO;COUNT=2")).toThrow(ValidationError);
+      expect(() => parseRRule("FREQ=DAILY;INTERVAL=0;COUNT=2")).toThrow(ValidationError);
+      expect(() => parseRRule(`FREQ=DAILY;COUNT=${MAX_OCCURRENCES + 1}`)).toThrow(ValidationError);
+    });
+  });
+
+  describe("formatRRule", () => {
+    it("should round-trip a parsed rule", () => {
+      const rule = parseRRule("freq=weekly;interval=2;byday=mo,we;until=20270301");
+      expect(formatRRule(rule)).toBe("FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,WE;UNTIL=2027-03-01");
+    });
+  });
+
+  describe("expandRecurrence", () => {
+    it("should default a weekly rule to the start date's weekday", () => {
+      // 2027-01-05 is a Tuesday
+      expect(expandRecurrence("2027-01-05", parseRRule("FREQ=WEEKLY;COUNT=3"))).toEqual([
+        "2027-01-05",
+        "2027-01-12",
+        "2027-01-19",
+      ]);
+    });
+
+    it("should expand multiple weekdays and skip days before the start", () => {
+      // Starts on Wednesday, so Tuesday of the first week is skipped
+      expect(
+        expandRecurrence("2027-01-06", parseRRule("FREQ=WEEKLY;BYDAY=TU,TH;COUNT=4"))
+      ).toEqual(["2027-01-07", "2027-01-12", "2027-01-14", "2027-01-19"]);
+    });
+
+    it("should honour interval and an inclusive end date", () => {
+      expect(
+        expandRecurrence("2027-01-04", parseRRule("FREQ=WEEKLY;INTERVAL=2;UNTIL=2027-02-01"))
+      ).toEqual(["2027-01-04", "2027-01-18", "2027-02-01"]);
+      expect(expandRecurrence("2027-03-30", parseRRule("FREQ=DAILY;UNTIL=2027-04-02"))).toEqual([
+        "2027-03-30",
+        "2027-03-31",
+        "2027-04-01",
+        "2027-04-02",
+      ]);
+    });
+
+    it("should skip months without the start day for monthly rules", () => {
+      expect(expandRecurrence("2027-01-31", parseRRule("FREQ=MONTHLY;COUNT=3"))).toEqual([
+        "2027-01-31",
+        "2027-03-31",
+        "2027-05-31",
+      ]);
+    });
+
+    it("should reject an end date before the start or too many occurrences", () => {
+      expect(() =>
+        expandRecurrence("2027-01-10", parseRRule("FREQ=DAILY;UNTIL=2027-01-01"))
+      ).toThrow(ValidationError);
+      expect(() =>
+        expandRecurrence("2027-01-01", parseRRule("FREQ=DAILY;UNTIL=2028-01-01"))
+      ).toThrow(/cannot have more than/);
+    });
+  });
+});
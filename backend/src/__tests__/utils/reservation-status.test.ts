@@ -0,0 +1,92 @@
+import { describe, it, expect } from "vitest";
+import {
+  assertCanCheckIn,
+  isActiveReservation,
+  isFinished,
+  isNoShow,
+  isRescheduled,
+} from "../../lib/utils/reservation-status";
+import { Reservation, ReservationStatus } from "../../types/reservation";
+import { ValidationError } from "../../lib/errors/reservation-errors";
+
+function reservation(status: ReservationStatus = "confirmed"): Reservation {
+  return {
+    id: "1",
+    courtId: "1",
+    courtName: "Court 1",
+    date: "2026-06-01",
+    timeSlot: { start: "10:00", end: "11:00" },
+    memberId: "member-1",
+    createdAt: "2026-05-01T00:00:00.000Z",
+    status,
+  };
+}
+
+const at = (time: string) => new Date(`2026-06-01T${time}`);
+
+describe("reservation status", () => {
+  describe("isActiveReservation", () => {
+    it("should release the court for cancellations and no-shows only", () => {
+      expect(isActiveReservation(reservation("confirmed"))).toBe(true);
+      expect(isActiveReservation(reservation("checked_in"))).toBe(true);
+      expect(isActiveReservation(reservation("completed"))).toBe(true);
+      expect(isActiveReservation(reservation("no_show"))).toBe(false);
+      expect(isActiveReservation(reservation("cancelled"))).toBe(false);
+    });
+  });
+
+  describe("assertCanCheckIn", () => {
+    it("should open 30 minutes before the start and close at the end", () => {
+      expect(() => assertCanCheckIn(reservation(), at("09:29"))).toThrow(
+        "Check-in opens 30 minutes before the reservation starts"
+      );
+      expect(() => assertCanCheckIn(reservation(), at("09:30"))).not.toThrow();
+      expect(() => assertCanCheckIn(reservation(), at("10:59"))).not.toThrow();
+      expect(() => assertCanCheckIn(reservation(), at("11:00"))).toThrow("already ended");
+    });
+
+    it("should only check in confirmed reservations", () => {
+      expect(() => assertCanCheckIn(reservation("checked_in"), at("10:00"))).toThrow(
+        "already checked in"
+      );
+      expect(() => assertCanCheckIn(reservation("no_show"), at("10:00"))).toThrow("no-show");
+      expect(() => assertCanCheckIn(reservation("cancelled"), at("10:00"))).toThrow(
+        ValidationError
+      );
+    });
+  });
+
+  describe("isNoShow", () => {
+    it("should wait for the grace period after the start", () => {
+      expect(isNoShow(reservation(), at("10:14"), 15)).toBe(false);
+      expect(isNoShow(reservation(), at("10:15"), 15)).toBe(true);
+      expect(isNoShow(reservation("checked_in"), at("10:30"), 15)).toBe(false);
+    });
+
+    it("should skip walk-ins booked after the start", () => {
+      const walkIn = { ...reservation(), createdAt: at("10:05").toISOString() };
+      expect(isNoShow(walkIn, at("10:30"), 15)).toBe(false);
+    });
+  });
+
+  describe("isFinished", () => {
+    it("should finish checked-in reservations at the end time", () => {
+      expect(isFinished(reservation("checked_in"), at("10:59"))).toBe(false);
+      expect(isFinished(reservation("checked_in"), at("11:00"))).toBe(true);
+      expect(isFinished(reservation("confirmed"), at("12:00"))).toBe(false);
+    });
+  });
+
+  describe("isRescheduled", () => {
+    it("should flag moves and cancellations but not other edits", () => {
+      const before = reservation();
+      expect(isRescheduled(before, { ...before, notes: "Bring balls" })).toBe(false);
+      expect(isRescheduled(before, reservation("checked_in"))).toBe(false);
+      expect(isRescheduled(before, { ...before, date: "2026-06-02" })).toBe(true);
+      expect(isRescheduled(before, { ...before, timeSlot: { start: "10:00", end: "11:30" } })).toBe(true);
+      expect(isRescheduled(before, { ...before, courtId: "2" })).toBe(true);
+      expect(isRescheduled(before, reservation("cancelled"))).toBe(true);
+      expect(isRescheduled(reservation("cancelled"), before)).toBe(true);
+    });
+  });
+});
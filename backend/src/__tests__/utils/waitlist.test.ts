@@ -0,0 +1,97 @@
+import { describe, it, expect } from "vitest";
+import {
+  entryMatchesSlot,
+  holdBlocks,
+  holdIsActive,
+  validateWaitlistRequest,
+} from "../../lib/utils/waitlist";
+import { WaitlistEntry } from "../../types/reservation";
+import { ValidationError } from "../../lib/errors/reservation-errors";
+
+const anyCourtAtSix: WaitlistEntry = {
+  id: "waitlist-1",
+  memberId: "member-1",
+  date: "2026-06-01",
+  timeRange: { start: "18:00", end: "19:00" },
+  status: "waiting",
+  createdAt: "2026-05-01T00:00:00.000Z",
+  updatedAt: "2026-05-01T00:00:00.000Z",
+};
+
+const offered: WaitlistEntry = {
+  ...anyCourtAtSix,
+  id: "waitlist-2",
+  status: "offered",
+  hold: {
+    courtId: "3",
+    courtName: "Court 3",
+    timeSlot: { start: "18:00", end: "19:00" },
+    offeredAt: "2026-06-01T12:00:00.000Z",
+    expiresAt: "2026-06-01T12:30:00.000Z",
+  },
+};
+
+describe("waitlist", () => {
+  describe("entryMatchesSlot", () => {
+    it("should match any court when no court is requested", () => {
+      expect(entryMatchesSlot(anyCourtAtSix, "3", "2026-06-01", "18:00", "19:00")).toBe(true);
+      expect(entryMatchesSlot(anyCourtAtSix, "7", "2026-06-01", "18:00", "19:00")).toBe(true);
+    });
+
+    it("should only match the requested court", () => {
+      const court3 = { ...anyCourtAtSix, courtId: "3" };
+      expect(entryMatchesSlot(court3, "3", "2026-06-01", "18:00", "19:00")).toBe(true);
+      expect(entryMatchesSlot(court3, "4", "2026-06-01", "18:00", "19:00")).toBe(false);
+    });
+
+    it("should require the slot to fit inside the time range on the same date", () => {
+      const evening = { ...anyCourtAtSix, timeRange: { start: "17:00", end: "20:00" } };
+      expect(entryMatchesSlot(evening, "1", "2026-06-01", "18:00", "19:00")).toBe(true);
+      expect(entryMatchesSlot(evening, "1", "2026-06-01", "19:30", "20:30")).toBe(false);
+      expect(entryMatchesSlot(evening, "1", "2026-06-02", "18:00", "19:00")).toBe(false);
+    });
+
+    it("should not match entries that are no longer waiting", () => {
+      expect(entryMatchesSlot(offered, "3", "2026-06-01", "18:00", "19:00")).toBe(false);
+    });
+  });
+
+  describe("holds", () => {
+    it("should treat holds as active until they expire", () => {
+      expect(holdIsActive(offered, new Date("2026-06-01T12:29:00.000Z"))).toBe(true);
+      expect(holdIsActive(offered, new Date("2026-06-01T12:30:00.000Z"))).toBe(false);
+      expect(holdIsActive(anyCourtAtSix)).toBe(false);
+    });
+
+    it("should block overlapping bookings on the held court only", () => {
+      const now = new Date("2026-06-01T12:10:00.000Z");
+      expect(holdBlocks(offered, "3", "2026-06-01", "18:30", "19:30", now)).toBe(true);
+      expect(holdBlocks(offered, "3", "2026-06-01", "19:00", "20:00", now)).toBe(false);
+      expect(holdBlocks(offered, "4", "2026-06-01", "18:00", "19:00", now)).toBe(false);
+    });
+  });
+
+  describe("validateWaitlistRequest", () => {
+    it("should accept a valid request", () => {
+      expect(() =>
+        validateWaitlistRequest({ date: "2026-06-01", timeRange: { start: "18:00", end: "19:00" } })
+      ).not.toThrow();
+    });
+
+    it("should reject malformed requests", () => {
+      expect(() =>
+        validateWaitlistRequest({ date: "06/01/2026", timeRange: { start: "18:00", end: "19:00" } })
+      ).toThrow(ValidationError);
+      expect(() =>
+        validateWaitlistRequest({ date: "2026-06-01", timeRange: { start: "19:00", end: "18:00" } })
+      ).toThrow(ValidationError);
+      expect(() =>
+        validateWaitlistRequest({
+          courtId: "",
+          date: "2026-06-01",
+          timeRange: { start: "18:00", end: "19:00" },
+        })
+      ).toThrow(ValidationError);
+    });
+  });
+});
@@ -2,20 +2,115 @@ import "dotenv/config";
 import express from "express";
 import cors from "cors";
 import { chatWithAgent, ChatMessage } from "./lib/ai-agent";
-import { chatWithAdminAgent, AdminChatMessage } from "./lib/admin-ai-agent";
+import { chatWithAdminAgent } from "./lib/admin-ai-agent";
+import { ChatStream } from "./lib/ai/tool-loop";
+import { LLMAbortedError } from "./lib/errors/llm-errors";
 import {
   cancelReservation,
   createReservation,
-  getAllCourts,
   getAllReservations,
   getAvailabilityByDate,
-  getCourt,
   getReservationsByDate,
+  notifyReservationChanged,
+  validateReservationMove,
 } from "./lib/reservations";
-import { reservationRepository } from "./lib/repositories/file-reservation-repository";
-import { ReservationRequest } from "./types/reservation";
+import {
+  findMemberByCalendarToken,
+  getCalendarFeeds,
+  renderCoachCalendar,
+  renderCourtCalendar,
+  renderMemberCalendar,
+  resetCalendarToken,
+} from "./lib/calendar";
+import {
+  createCourt,
+  getAllCourts,
+  getCourt,
+  getCourtSchedule,
+  getUpcomingReservationsForCourt,
+  removeScheduleOverride,
+  retireCourt,
+  setScheduleOverride,
+  updateCourt,
+  updateCourtSchedule,
+} from "./lib/courts";
+import {
+  createClosure,
+  deleteClosure,
+  getClosure,
+  getReservationsAffectedByClosure,
+  listClosures,
+} from "./lib/closures";
+import {
+  cancelSeries,
+  createSeries,
+  getSeries,
+  previewSeries,
+} from "./lib/reservation-series";
+import {
+  getMemberWaitlist,
+  getMemberWaitlistEntry,
+  joinWaitlist,
+  leaveWaitlist,
+} from "./lib/waitlist";
+import { getBookingRules, updateBookingRules } from "./lib/booking-rules";
+import {
+  checkInReservation,
+  checkInWithCode,
+  getCheckInCode,
+  lookUpMemberForCheckIn,
+  markCompleted,
+  markNoShow,
+} from "./lib/check-in";
+import { isRescheduled, RESERVATION_STATUSES } from "./lib/utils/reservation-status";
+import { addPartners, getShareToPay, removePartner, respondToPartnerInvite } from "./lib/partners";
+import { isPartnerOn, normalizePartnerRequests, withoutPartnerEmails } from "./lib/utils/partners";
+import {
+  addCoachTimeOff,
+  bookLesson,
+  createLessonType,
+  getCoachLessons,
+  getCoachSchedule,
+  getLessonSlots,
+  listCoaches,
+  listLessonTypes,
+  removeCoachTimeOff,
+  setCoachWeeklyHours,
+  updateLessonType,
+} from "./lib/lessons";
+import {
+  cancelProgram,
+  createProgram,
+  enrollInProgram,
+  getEnrollment,
+  getMemberEnrollments,
+  getProgram,
+  getProgramListing,
+  getProgramRoster,
+  listPrograms,
+  recordAttendance,
+  syncEnrollmentPayment,
+  updateProgram,
+  withdrawFromProgram,
+} from "./lib/programs";
+import { PROGRAM_KINDS } from "./lib/utils/programs";
+import { ProgramKind } from "./types/program";
+import {
+  getCancellationPolicy,
+  getPenaltyStatus,
+  updateCancellationPolicy,
+  waivePenalty,
+} from "./lib/penalties";
+import { reservationRepository } from "./lib/repositories";
+import {
+  Reservation,
+  ReservationRequest,
+  ReservationSeriesRequest,
+  WaitlistRequest,
+} from "./types/reservation";
 import {
   ConflictError,
+  CourtInUseError,
   LockError,
   NotFoundError,
   ReservationError,
@@ -30,6 +125,7 @@ import {
   listMembers,
   searchMembers,
   getMembersByRole,
+  toPublicMember,
 } from "./lib/members";
 import { MemberRequest } from "./types/member";
 import {
@@ -40,7 +136,18 @@ import {
   MemberLockError,
   InvalidMemberStatusError,
   MemberError,
+  GuardianInviteNotFoundError,
+  GuardianLinkError,
 } from "./lib/errors/member-errors";
+import {
+  inviteChild,
+  getGuardianInvites,
+  respondToInvite,
+  cancelInvite,
+  getChildren,
+  unlinkGuardian,
+  getFamilyOverview,
+} from "./lib/guardians";
 import {
   signUp,
   signIn,
@@ -48,6 +155,7 @@ import {
   requestPasswordReset,
   resetPassword,
   getCurrentMember,
+  refreshAuth,
 } from "./lib/auth/auth";
 import {
   AuthenticationError,
@@ -55,9 +163,16 @@ import {
   InvalidVerificationTokenError,
   EmailNotVerifiedError,
   InvalidResetTokenError,
+  InvalidSessionError,
   UnauthorizedError,
+  ForbiddenError,
 } from "./lib/errors/auth-errors";
-import { authenticate, requireRole } from "./lib/auth/auth-middleware";
+import { authenticate, optionalAuth, requireRole } from "./lib/auth/auth-middleware";
+import {
+  getActiveSessions,
+  revokeAllSessions,
+  revokeSession,
+} from "./lib/auth/session-manager";
 import {
   createPaymentIntent as createPaymentIntentService,
   confirmPayment,
@@ -68,6 +183,18 @@ import {
   getPaymentInvoice,
   syncPayment,
 } from "./lib/payments/payments";
+import { constructWebhookEvent } from "./lib/payments/stripe-client";
+import { quoteCourtBooking, quoteReservation } from "./lib/pricing";
+import {
+  getMembershipSummary,
+  listPlans,
+  setSubscriptionCancellation,
+  subscribe,
+} from "./lib/subscriptions";
+import { handleWebhookEvent } from "./lib/payments/webhooks";
+import { getOutboxMessages, retryOutboxMessage } from "./lib/email/outbox";
+import { OutboxMessageNotFoundError } from "./lib/errors/email-errors";
+import { OutboxStatus } from "./types/email";
 import {
   PaymentNotFoundError,
   PaymentProcessingError,
@@ -76,6 +203,9 @@ import {
   RefundError,
   InvalidAmountError,
   StripeError,
+  SubscriptionError,
+  SubscriptionNotFoundError,
+  WebhookSignatureError,
 } from "./lib/errors/payment-errors";
 import {
   createJournalEntry,
@@ -88,6 +218,35 @@ import {
 } from "./lib/journal";
 import { chatWithTrainingAgent } from "./lib/player-training-agent";
 import { chatWithOrchestrator } from "./lib/orchestrator-agent";
+import {
+  deleteThread,
+  getThread,
+  getThreadHistory,
+  listThreads,
+  recordThreadTurn,
+  renameThread,
+} from "./lib/ai-threads";
+import {
+  AIThreadLockError,
+  AIThreadNotFoundError,
+  AIThreadValidationError,
+} from "./lib/errors/ai-thread-errors";
+import { AIThreadAgent } from "./types/ai-thread";
+import {
+  confirmAction,
+  linkActionsToThread,
+  listActions,
+  rejectAction,
+} from "./lib/ai-actions";
+import {
+  AIActionFailedError,
+  AIActionLockError,
+  AIActionNotFoundError,
+  AIActionStateError,
+} from "./lib/errors/ai-action-errors";
+import { AIActionStatus } from "./types/ai-action";
+import { listAuditEntries, recordAudit } from "./lib/audit";
+import { AuditAction, AuditContext, AuditEntityType, AuditEntry } from "./types/audit";
 import { JournalEntryRequest, JournalFilter } from "./types/journal";
 import {
   JournalEntryNotFoundError,
@@ -97,87 +256,310 @@ import {
   JournalError,
 } from "./lib/errors/journal-errors";
 import { normalizeRole } from "./lib/utils/role-utils";
+import {
+  getForbiddenReservationFields,
+  canBookFor,
+  canCoachProgram,
+  canListMembers,
+  canManageCoachSchedule,
+  canManageMembers,
+  canModifyReservation,
+  canReadMember,
+  canUpdateMember,
+  canViewCourtCalendar,
+  getForbiddenMemberFields,
+} from "./lib/auth/policies";
 
 const app = express();
 
 app.use(cors());
-app.use(express.json());
 
-app.post("/api/chat", async (req, res) => {
-  try {
-    const { message, conversationHistory = [] } = req.body || {};
+/**
+ * POST /api/payments/webhook
+ * Stripe webhook receiver (authenticated by Stripe-Signature, not a session)
+ * Registered before express.json() because verification needs the raw body.
+ */
+app.post(
+  "/api/payments/webhook",
+  express.raw({ type: "application/json" }),
+  async (req, res) => {
+    try {
+      const payload = Buffer.isBuffer(req.body) ? req.body : "";
+      const event = constructWebhookEvent(payload, req.get("stripe-signature"));
+      const result = await handleWebhookEvent(event);
 
-    if (!message || typeof message !== "string") {
-      return res.status(400).json({ error: "Message is required" });
+      return res.json({ received: true, ...result });
+    } catch (error: any) {
+      if (error instanceof WebhookSignatureError) {
+        return res.status(400).json({
+          error: error.message,
+          code: error.code,
+        });
+      }
+
+      console.error("Error processing payment webhook:", error);
+
+      if (error instanceof StripeError) {
+        return res.status(500).json({
+          error: error.message,
+          code: error.code,
+        });
+      }
+
+      return res.status(500).json({
+        error: error.message || "Failed to process webhook",
+      });
     }
+  }
+);
+
+app.use(express.json());
+
+interface ChatRequest {
+  message: string;
+  history: ChatMessage[];
+  threadId: unknown;
+}
+
+/**
+ * Read a chat request body; null when the message is missing
+ */
+function readChatRequest(body: any): ChatRequest | null {
+  const { message, conversationHistory = [], threadId } = body || {};
+
+  if (!message || typeof message !== "string") {
+    return null;
+  }
 
-    const validHistory: ChatMessage[] = (Array.isArray(conversationHistory)
-      ? conversationHistory
-      : []
+  const history: ChatMessage[] = (Array.isArray(conversationHistory)
+    ? conversationHistory
+    : []
+  )
+    .filter(
+      (msg: any) => msg?.role === "user" || msg?.role === "assistant"
     )
-      .filter(
-        (msg: any) => msg?.role === "user" || msg?.role === "assistant"
-      )
-      .map((msg: any) => ({
-        role: msg.role,
-        content: msg.content || "",
-      }));
+    .map((msg: any) => ({
+      role: msg.role,
+      content: msg.content || "",
+    }));
 
-    const result = await chatWithAgent(message, validHistory);
+  return { message, history, threadId };
+}
 
-    return res.json({
-      response: result.response,
-      sources: result.sources,
+/**
+ * Answer a chat request as Server-Sent Events
+ *
+ * Events: `delta` {text} as the reply is written, `tool_start` / `tool_end`
+ * {name, label, success} around each tool, then `done` with the body the
+ * non-streaming endpoint returns, or `error` {error, code}. Errors before
+ * the first event (unknown thread, bad agent) are ordinary JSON responses.
+ * Closing the connection cancels the turn, which is then not saved.
+ */
+async function streamChat(
+  req: express.Request,
+  res: express.Response,
+  run: (chat: ChatRequest, stream: ChatStream) => Promise<Record<string, any>>,
+  fallback: string
+) {
+  const chat = readChatRequest(req.body);
+  if (!chat) {
+    return res.status(400).json({ error: "Message is required" });
+  }
+
+  const controller = new AbortController();
+  res.on("close", () => {
+    if (!res.writableEnded) {
+      controller.abort();
+    }
+  });
+
+  const send = (event: string, data: Record<string, any>) => {
+    if (!res.headersSent) {
+      res.writeHead(200, {
+        "Content-Type": "text/event-stream",
+        "Cache-Control": "no-cache",
+        Connection: "keep-alive",
+        "X-Accel-Buffering": "no",
+      });
+    }
+    res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+  };
+
+  try {
+    const body = await run(chat, {
+      onEvent: (event) => send(event.type, event),
+      signal: controller.signal,
     });
+    send("done", body);
+    return res.end();
+  } catch (error: any) {
+    if (error instanceof LLMAbortedError) {
+      return res.end();
+    }
+    console.error(`Error in ${req.path}:`, error);
+    if (!res.headersSent) {
+      return sendThreadError(res, error, fallback);
+    }
+    send("error", { error: error.message || fallback, code: error.code });
+    return res.end();
+  }
+}
+
+/**
+ * Public assistant turn; saved as a thread for signed-in members only
+ */
+async function runPublicChat(memberId: string | undefined, chat: ChatRequest, stream?: ChatStream) {
+  const thread = memberId ? getThreadTurn(chat.threadId, chat.history) : null;
+  const threadHistory =
+    memberId && thread?.threadId
+      ? await getThreadHistory(memberId, "assistant", thread.threadId)
+      : undefined;
+
+  const result = await chatWithAgent(chat.message, chat.history, threadHistory, stream);
+  const saved =
+    memberId && thread
+      ? await recordThreadTurn(memberId, "assistant", thread.threadId, chat.message, result)
+      : null;
+
+  return {
+    response: result.response,
+    sources: result.sources,
+    threadId: saved?.id,
+  };
+}
+
+/**
+ * Admin booking assistant turn
+ */
+async function runAdminChat(memberId: string, chat: ChatRequest, stream?: ChatStream) {
+  const member = await getCurrentMember(memberId);
+  const thread = getThreadTurn(chat.threadId, chat.history);
+  const threadHistory = thread?.threadId
+    ? await getThreadHistory(member.id, "admin", thread.threadId)
+    : undefined;
+
+  const result = await chatWithAdminAgent(
+    chat.message,
+    chat.history,
+    member.id,
+    threadHistory,
+    stream
+  );
+  const saved = thread
+    ? await recordThreadTurn(member.id, "admin", thread.threadId, chat.message, result)
+    : null;
+  const pendingActions = saved
+    ? await linkActionsToThread(result.pendingActions, saved.id)
+    : result.pendingActions;
+
+  return {
+    response: result.response,
+    needsConfirmation: result.needsConfirmation || false,
+    conflictInfo: result.conflictInfo,
+    pendingActions,
+    threadId: saved?.id,
+  };
+}
+
+/**
+ * Orchestrator (Ace) turn, shared by the orchestrator and legacy training endpoints
+ */
+async function runOrchestratorChat(memberId: string, chat: ChatRequest, stream?: ChatStream) {
+  const member = await getCurrentMember(memberId);
+  const memberRole = normalizeRole(member.role);
+  const thread = getThreadTurn(chat.threadId, chat.history);
+  const threadHistory = thread?.threadId
+    ? await getThreadHistory(member.id, "orchestrator", thread.threadId)
+    : undefined;
+
+  const result = await chatWithOrchestrator({
+    message: chat.message,
+    conversationHistory: chat.history,
+    threadHistory,
+    userId: member.id,
+    userRole: memberRole,
+    userName: `${member.firstName} ${member.lastName}`,
+    stream,
+  });
+  const saved = thread
+    ? await recordThreadTurn(member.id, "orchestrator", thread.threadId, chat.message, result)
+    : null;
+  const pendingActions = saved
+    ? await linkActionsToThread(result.pendingActions, saved.id)
+    : result.pendingActions;
+
+  return {
+    response: result.response,
+    pendingActions,
+    threadId: saved?.id,
+  };
+}
+
+/**
+ * Public AI Chat - Facility info and court bookings
+ * POST /api/chat
+ *
+ * Signed-in members get their conversation saved as a thread; anonymous
+ * visitors resend conversationHistory on every turn.
+ */
+app.post("/api/chat", optionalAuth, async (req, res) => {
+  try {
+    const chat = readChatRequest(req.body);
+    if (!chat) {
+      return res.status(400).json({ error: "Message is required" });
+    }
+
+    return res.json(await runPublicChat(req.session?.memberId, chat));
   } catch (error: any) {
     console.error("Error in chat API:", error);
-    return res.status(500).json({
-      error: error.message || "Failed to process chat message",
-    });
+    return sendThreadError(res, error, "Failed to process chat message");
   }
 });
 
+/**
+ * POST /api/chat/stream
+ * Public AI Chat as Server-Sent Events
+ */
+app.post("/api/chat/stream", optionalAuth, (req, res) =>
+  streamChat(
+    req,
+    res,
+    (chat, stream) => runPublicChat(req.session?.memberId, chat, stream),
+    "Failed to process chat message"
+  )
+);
+
 /**
  * Admin AI Chat - Natural language booking management (ADMIN ONLY)
  * POST /api/admin/chat
  */
 app.post("/api/admin/chat", authenticate, requireRole("admin"), async (req, res) => {
   try {
-    const { message, conversationHistory = [] } = req.body || {};
-
-    if (!message || typeof message !== "string") {
+    const chat = readChatRequest(req.body);
+    if (!chat) {
       return res.status(400).json({ error: "Message is required" });
     }
 
-    const validHistory: AdminChatMessage[] = (Array.isArray(conversationHistory)
-      ? conversationHistory
-      : []
-    )
-      .filter(
-        (msg: any) => msg?.role === "user" || msg?.role === "assistant"
-      )
-      .map((msg: any) => ({
-        role: msg.role,
-        content: msg.content || "",
-      }));
-
-    const member = await getCurrentMember(req.session?.memberId || "");
-    
-    const result = await chatWithAdminAgent(message, validHistory, member.id);
-
-    return res.json({
-      response: result.response,
-      needsConfirmation: result.needsConfirmation || false,
-      conflictInfo: result.conflictInfo,
-    });
+    return res.json(await runAdminChat(req.session?.memberId || "", chat));
   } catch (error: any) {
     console.error("Error in admin chat API:", error);
-    return res.status(500).json({
-      error: error.message || "Failed to process admin chat message",
-    });
+    return sendThreadError(res, error, "Failed to process admin chat message");
   }
 });
 
+/**
+ * POST /api/admin/chat/stream
+ * Admin AI Chat as Server-Sent Events (ADMIN ONLY)
+ */
+app.post("/api/admin/chat/stream", authenticate, requireRole("admin"), (req, res) =>
+  streamChat(
+    req,
+    res,
+    (chat, stream) => runAdminChat(req.session?.memberId || "", chat, stream),
+    "Failed to process admin chat message"
+  )
+);
+
 /**
  * Player Training AI Chat - Personalized training recommendations (AUTHENTICATED PLAYERS)
  * POST /api/training/chat
@@ -186,46 +568,31 @@ app.post("/api/admin/chat", authenticate, requireRole("admin"), async (req, res)
  */
 app.post("/api/training/chat", authenticate, async (req, res) => {
   try {
-    const { message, conversationHistory = [] } = req.body || {};
-
-    if (!message || typeof message !== "string") {
+    const chat = readChatRequest(req.body);
+    if (!chat) {
       return res.status(400).json({ error: "Message is required" });
     }
 
-    const validHistory: Array<{ role: string; content: string }> = (Array.isArray(conversationHistory)
-      ? conversationHistory
-      : []
-    )
-      .filter(
-        (msg: any) => msg?.role === "user" || msg?.role === "assistant"
-      )
-      .map((msg: any) => ({
-        role: msg.role,
-        content: msg.content || "",
-      }));
-
-    const member = await getCurrentMember(req.session?.memberId || "");
-    const memberRole = normalizeRole(member.role);
-    
-    const result = await chatWithOrchestrator({
-      message,
-      conversationHistory: validHistory,
-      userId: member.id,
-      userRole: memberRole,
-      userName: `${member.firstName} ${member.lastName}`,
-    });
-
-    return res.json({
-      response: result.response,
-    });
+    return res.json(await runOrchestratorChat(req.session?.memberId || "", chat));
   } catch (error: any) {
     console.error("Error in training chat API:", error);
-    return res.status(500).json({
-      error: error.message || "Failed to process training chat message",
-    });
+    return sendThreadError(res, error, "Failed to process training chat message");
   }
 });
 
+/**
+ * POST /api/training/chat/stream
+ * Legacy Training AI Chat as Server-Sent Events
+ */
+app.post("/api/training/chat/stream", authenticate, (req, res) =>
+  streamChat(
+    req,
+    res,
+    (chat, stream) => runOrchestratorChat(req.session?.memberId || "", chat, stream),
+    "Failed to process training chat message"
+  )
+);
+
 /**
  * Orchestrator AI Chat - Unified AI assistant for all authenticated users
  * POST /api/orchestrator/chat
@@ -237,43 +604,241 @@ app.post("/api/training/chat", authenticate, async (req, res) => {
  */
 app.post("/api/orchestrator/chat", authenticate, async (req, res) => {
   try {
-    const { message, conversationHistory = [] } = req.body || {};
-
-    if (!message || typeof message !== "string") {
+    const chat = readChatRequest(req.body);
+    if (!chat) {
       return res.status(400).json({ error: "Message is required" });
     }
 
-    const validHistory: Array<{ role: string; content: string }> = (Array.isArray(conversationHistory)
-      ? conversationHistory
-      : []
-    )
-      .filter(
-        (msg: any) => msg?.role === "user" || msg?.role === "assistant"
-      )
-      .map((msg: any) => ({
-        role: msg.role,
-        content: msg.content || "",
-      }));
+    return res.json(await runOrchestratorChat(req.session?.memberId || "", chat));
+  } catch (error: any) {
+    console.error("Error in orchestrator chat API:", error);
+    return sendThreadError(res, error, "Failed to process chat message");
+  }
+});
 
-    const member = await getCurrentMember(req.session?.memberId || "");
-    const memberRole = normalizeRole(member.role);
-    
-    const result = await chatWithOrchestrator({
-      message,
-      conversationHistory: validHistory,
-      userId: member.id,
-      userRole: memberRole,
-      userName: `${member.firstName} ${member.lastName}`,
-    });
+/**
+ * POST /api/orchestrator/chat/stream
+ * Orchestrator AI Chat as Server-Sent Events
+ */
+app.post("/api/orchestrator/chat/stream", authenticate, (req, res) =>
+  streamChat(
+    req,
+    res,
+    (chat, stream) => runOrchestratorChat(req.session?.memberId || "", chat, stream),
+    "Failed to process chat message"
+  )
+);
 
-    return res.json({
-      response: result.response,
+// ==================== AI Thread Endpoints ====================
+
+const THREAD_AGENTS: AIThreadAgent[] = ["assistant", "admin", "orchestrator"];
+
+/**
+ * Decide where a chat turn is saved
+ * Returns the thread to continue, {} to start a new one, or null for legacy
+ * clients that resend conversationHistory without a threadId (not saved).
+ */
+function getThreadTurn(threadId: unknown, history: unknown[]): { threadId?: string } | null {
+  if (typeof threadId === "string" && threadId) {
+    return { threadId };
+  }
+  return history.length === 0 ? {} : null;
+}
+
+function sendThreadError(res: express.Response, error: any, fallback: string) {
+  if (error instanceof AIThreadValidationError) {
+    return res.status(400).json({ error: error.message, code: error.code });
+  }
+  if (error instanceof AIThreadNotFoundError) {
+    return res.status(404).json({ error: error.message, code: error.code });
+  }
+  if (error instanceof AIThreadLockError) {
+    return res.status(503).json({
+      error: "Service temporarily unavailable. Please try again.",
+      code: error.code,
     });
+  }
+  return res.status(500).json({ error: error.message || fallback });
+}
+
+/**
+ * GET /api/ai/threads?agent=assistant|admin|orchestrator
+ * List the current member's AI conversations, most recent first (authenticated)
+ */
+app.get("/api/ai/threads", authenticate, async (req, res) => {
+  try {
+    if (!req.session) {
+      return res.status(401).json({
+        error: "Not authenticated",
+        code: "UNAUTHORIZED",
+      });
+    }
+    const agent = req.query.agent ? String(req.query.agent) : undefined;
+    if (agent && !THREAD_AGENTS.includes(agent as AIThreadAgent)) {
+      return res.status(400).json({
+        error: `Agent must be one of: ${THREAD_AGENTS.join(", ")}`,
+        code: "VALIDATION_ERROR",
+      });
+    }
+
+    const threads = await listThreads(req.session.memberId, agent as AIThreadAgent | undefined);
+    return res.json(threads);
   } catch (error: any) {
-    console.error("Error in orchestrator chat API:", error);
-    return res.status(500).json({
-      error: error.message || "Failed to process chat message",
+    console.error("Error listing AI threads:", error);
+    return sendThreadError(res, error, "Failed to list conversations");
+  }
+});
+
+/**
+ * GET /api/ai/threads/:id
+ * Get one of the current member's AI conversations with its full transcript (authenticated)
+ */
+app.get("/api/ai/threads/:id", authenticate, async (req, res) => {
+  try {
+    if (!req.session) {
+      return res.status(401).json({
+        error: "Not authenticated",
+        code: "UNAUTHORIZED",
+      });
+    }
+    const thread = await getThread(req.session.memberId, req.params.id);
+    return res.json(thread);
+  } catch (error: any) {
+    console.error("Error getting AI thread:", error);
+    return sendThreadError(res, error, "Failed to get conversation");
+  }
+});
+
+/**
+ * PATCH /api/ai/threads/:id
+ * Rename an AI conversation (authenticated)
+ * Body: { title }
+ */
+app.patch("/api/ai/threads/:id", authenticate, async (req, res) => {
+  try {
+    if (!req.session) {
+      return res.status(401).json({
+        error: "Not authenticated",
+        code: "UNAUTHORIZED",
+      });
+    }
+    const thread = await renameThread(req.session.memberId, req.params.id, req.body?.title);
+    return res.json(thread);
+  } catch (error: any) {
+    console.error("Error renaming AI thread:", error);
+    return sendThreadError(res, error, "Failed to rename conversation");
+  }
+});
+
+/**
+ * DELETE /api/ai/threads/:id
+ * Delete an AI conversation (authenticated)
+ */
+app.delete("/api/ai/threads/:id", authenticate, async (req, res) => {
+  try {
+    if (!req.session) {
+      return res.status(401).json({
+        error: "Not authenticated",
+        code: "UNAUTHORIZED",
+      });
+    }
+    await deleteThread(req.session.memberId, req.params.id);
+    return res.json({ message: "Conversation deleted" });
+  } catch (error: any) {
+    console.error("Error deleting AI thread:", error);
+    return sendThreadError(res, error, "Failed to delete conversation");
+  }
+});
+
+// ==================== AI Action Endpoints ====================
+
+const ACTION_STATUSES: AIActionStatus[] = [
+  "pending",
+  "applying",
+  "confirmed",
+  "rejected",
+  "expired",
+  "failed",
+];
+
+function sendActionError(res: express.Response, error: any, fallback: string) {
+  if (error instanceof AIActionNotFoundError) {
+    return res.status(404).json({ error: error.message, code: error.code });
+  }
+  if (error instanceof AIActionStateError || error instanceof AIActionFailedError) {
+    return res.status(409).json({ error: error.message, code: error.code });
+  }
+  if (error instanceof AIActionLockError) {
+    return res.status(503).json({
+      error: "Service temporarily unavailable. Please try again.",
+      code: error.code,
+    });
+  }
+  return res.status(500).json({ error: error.message || fallback });
+}
+
+/**
+ * GET /api/admin/ai-actions?status=&memberId=
+ * Actions the AI agents proposed, newest first, with who decided them and the outcome (ADMIN ONLY)
+ */
+app.get("/api/admin/ai-actions", authenticate, requireRole("admin"), async (req, res) => {
+  try {
+    const status = req.query.status ? String(req.query.status) : undefined;
+    if (status && !ACTION_STATUSES.includes(status as AIActionStatus)) {
+      return res.status(400).json({
+        error: `Status must be one of: ${ACTION_STATUSES.join(", ")}`,
+        code: "VALIDATION_ERROR",
+      });
+    }
+
+    const actions = await listActions({
+      status: status as AIActionStatus | undefined,
+      memberId: req.query.memberId ? String(req.query.memberId) : undefined,
     });
+    return res.json(actions);
+  } catch (error: any) {
+    console.error("Error listing AI actions:", error);
+    return sendActionError(res, error, "Failed to list AI actions");
+  }
+});
+
+/**
+ * POST /api/admin/ai-actions/:id/confirm
+ * Apply an action the AI proposed in the caller's chat (ADMIN ONLY)
+ */
+app.post("/api/admin/ai-actions/:id/confirm", authenticate, requireRole("admin"), async (req, res) => {
+  try {
+    if (!req.session) {
+      return res.status(401).json({
+        error: "Not authenticated",
+        code: "UNAUTHORIZED",
+      });
+    }
+    const action = await confirmAction(req.session.memberId, req.params.id);
+    return res.json(action);
+  } catch (error: any) {
+    console.error("Error confirming AI action:", error);
+    return sendActionError(res, error, "Failed to confirm action");
+  }
+});
+
+/**
+ * POST /api/admin/ai-actions/:id/reject
+ * Turn down an action the AI proposed in the caller's chat (ADMIN ONLY)
+ */
+app.post("/api/admin/ai-actions/:id/reject", authenticate, requireRole("admin"), async (req, res) => {
+  try {
+    if (!req.session) {
+      return res.status(401).json({
+        error: "Not authenticated",
+        code: "UNAUTHORIZED",
+      });
+    }
+    const action = await rejectAction(req.session.memberId, req.params.id);
+    return res.json(action);
+  } catch (error: any) {
+    console.error("Error rejecting AI action:", error);
+    return sendActionError(res, error, "Failed to reject action");
   }
 });
 
@@ -309,22 +874,355 @@ app.get("/api/courts", async (_req, res) => {
   }
 });
 
-app.get("/api/reservations", async (req, res) => {
+/**
+ * GET /api/courts/:id/schedule
+ * Get a court's operating hours, slot duration and date overrides
+ */
+app.get("/api/courts/:id/schedule", async (req, res) => {
   try {
-    const date = String(req.query.date || "");
-    if (date) {
-      const reservations = await getReservationsByDate(date);
-      return res.json(reservations);
-    }
+    const schedule = await getCourtSchedule(req.params.id);
+    return res.json(schedule);
+  } catch (error: any) {
+    console.error("Error fetching court schedule:", error);
 
-    const reservations = await getAllReservations();
-    return res.json(reservations);
-  } catch (error) {
+    if (error instanceof NotFoundError) {
+      return res.status(404).json({ error: error.message, code: error.code });
+    }
+
+    return res.status(500).json({ error: "Failed to fetch court schedule" });
+  }
+});
+
+/**
+ * GET /api/pricing/quote?courtId=1&date=2026-06-01&start=18:00&end=19:00
+ * Price breakdown for a booking. Signed-in members get their membership rate
+ * (parents can pass memberId for a linked player); anonymous requests get the guest rate.
+ */
+app.get("/api/pricing/quote", optionalAuth, async (req, res) => {
+  try {
+    const courtId = normalizeQueryParam(req.query.courtId);
+    const date = normalizeQueryParam(req.query.date);
+    const start = normalizeQueryParam(req.query.start);
+    const end = normalizeQueryParam(req.query.end);
+
+    if (!courtId || !date || !start || !end) {
+      return res.status(400).json({
+        error: "Missing required parameters: courtId, date, start, end",
+        code: "VALIDATION_ERROR",
+      });
+    }
+
+    let memberId: string | undefined;
+    if (req.session) {
+      memberId = normalizeQueryParam(req.query.memberId) || req.session.memberId;
+      if (memberId !== req.session.memberId) {
+        const member = await getMember(memberId);
+        if (!canBookFor(req.session, member)) {
+          return sendForbidden(res, "You can only get quotes for yourself or your linked players");
+        }
+      }
+    }
+
+    const quote = await quoteCourtBooking({ courtId, date, timeSlot: { start, end }, memberId });
+    return res.json(quote);
+  } catch (error: any) {
+    console.error("Error quoting booking:", error);
+
+    if (error instanceof MemberNotFoundError) {
+      return res.status(404).json({ error: error.message, code: error.code });
+    }
+
+    return sendCourtError(res, error, "Failed to quote booking");
+  }
+});
+
+function sendCourtError(res: express.Response, error: any, fallback: string) {
+  if (error instanceof ValidationError) {
+    return res.status(400).json({ error: error.message, code: error.code });
+  }
+  if (error instanceof NotFoundError) {
+    return res.status(404).json({ error: error.message, code: error.code });
+  }
+  if (error instanceof LockError) {
+    return res.status(503).json({
+      error: "Service temporarily unavailable. Please try again.",
+      code: error.code,
+    });
+  }
+  return res.status(500).json({ error: error.message || fallback });
+}
+
+/**
+ * GET /api/admin/courts
+ * List all courts, including retired ones (ADMIN ONLY)
+ */
+app.get("/api/admin/courts", authenticate, requireRole("admin"), async (_req, res) => {
+  try {
+    const courts = await getAllCourts({ includeRetired: true });
+    return res.json(courts);
+  } catch (error: any) {
+    console.error("Error fetching admin courts:", error);
+    return res.status(500).json({ error: error.message || "Failed to fetch courts" });
+  }
+});
+
+/**
+ * POST /api/admin/courts
+ * Create a court (ADMIN ONLY)
+ */
+app.post("/api/admin/courts", authenticate, requireRole("admin"), async (req, res) => {
+  try {
+    const court = await createCourt(req.body || {});
+    return res.status(201).json(court);
+  } catch (error: any) {
+    console.error("Error creating court:", error);
+    return sendCourtError(res, error, "Failed to create court");
+  }
+});
+
+/**
+ * PATCH /api/admin/courts/:id
+ * Update a court's name, surface, availability, lighting or environment (ADMIN ONLY)
+ */
+app.patch("/api/admin/courts/:id", authenticate, requireRole("admin"), async (req, res) => {
+  try {
+    const court = await updateCourt(req.params.id, req.body || {});
+    return res.json(court);
+  } catch (error: any) {
+    console.error("Error updating court:", error);
+    return sendCourtError(res, error, "Failed to update court");
+  }
+});
+
+/**
+ * GET /api/admin/courts/:id/upcoming-reservations
+ * List reservations that would block retiring a court (ADMIN ONLY)
+ */
+app.get("/api/admin/courts/:id/upcoming-reservations", authenticate, requireRole("admin"), async (req, res) => {
+  try {
+    const court = await getCourt(req.params.id);
+    if (!court) {
+      return res.status(404).json({ error: "Court not found" });
+    }
+    const reservations = await getUpcomingReservationsForCourt(court.id);
+    const enriched = await Promise.all(reservations.map(attachReservationContext));
+    return res.json(enriched);
+  } catch (error: any) {
+    console.error("Error fetching upcoming court reservations:", error);
+    return res.status(500).json({ error: error.message || "Failed to fetch reservations" });
+  }
+});
+
+/**
+ * POST /api/admin/courts/:id/retire
+ * Retire a court. Refused while it has upcoming reservations unless
+ * reassignToCourtId is given, in which case they are moved first (ADMIN ONLY)
+ */
+app.post("/api/admin/courts/:id/retire", authenticate, requireRole("admin"), async (req, res) => {
+  try {
+    const reassignToCourtId =
+      typeof req.body?.reassignToCourtId === "string" && req.body.reassignToCourtId
+        ? req.body.reassignToCourtId
+        : undefined;
+    const result = await retireCourt(req.params.id, { reassignToCourtId });
+    return res.json(result);
+  } catch (error: any) {
+    console.error("Error retiring court:", error);
+
+    if (error instanceof CourtInUseError) {
+      return res.status(409).json({
+        error: error.message,
+        code: error.code,
+        reservationIds: error.reservationIds,
+      });
+    }
+    if (error instanceof ConflictError) {
+      return res.status(409).json({ error: error.message, code: error.code });
+    }
+    return sendCourtError(res, error, "Failed to retire court");
+  }
+});
+
+/**
+ * PUT /api/admin/courts/:id/schedule
+ * Replace a court's schedule (ADMIN ONLY)
+ */
+app.put("/api/admin/courts/:id/schedule", authenticate, requireRole("admin"), async (req, res) => {
+  try {
+    const schedule = await updateCourtSchedule(req.params.id, req.body);
+    return res.json(schedule);
+  } catch (error: any) {
+    console.error("Error updating court schedule:", error);
+    return sendCourtError(res, error, "Failed to update court schedule");
+  }
+});
+
+/**
+ * POST /api/admin/courts/:id/schedule/overrides
+ * Add or replace the hours for a single date, e.g. a holiday (ADMIN ONLY)
+ */
+app.post("/api/admin/courts/:id/schedule/overrides", authenticate, requireRole("admin"), async (req, res) => {
+  try {
+    const schedule = await setScheduleOverride(req.params.id, req.body);
+    return res.status(201).json(schedule);
+  } catch (error: any) {
+    console.error("Error setting schedule override:", error);
+    return sendCourtError(res, error, "Failed to set schedule override");
+  }
+});
+
+/**
+ * DELETE /api/admin/courts/:id/schedule/overrides/:date
+ * Remove the override for a date (ADMIN ONLY)
+ */
+app.delete("/api/admin/courts/:id/schedule/overrides/:date", authenticate, requireRole("admin"), async (req, res) => {
+  try {
+    const schedule = await removeScheduleOverride(req.params.id, req.params.date);
+    return res.json(schedule);
+  } catch (error: any) {
+    console.error("Error removing schedule override:", error);
+    return sendCourtError(res, error, "Failed to remove schedule override");
+  }
+});
+
+/**
+ * GET /api/admin/closures
+ * List court closures, optionally filtered by court and date range (ADMIN ONLY)
+ */
+app.get("/api/admin/closures", authenticate, requireRole("admin"), async (req, res) => {
+  try {
+    const closures = await listClosures({
+      courtId: normalizeQueryParam(req.query.courtId) || undefined,
+      from: normalizeQueryParam(req.query.from) || undefined,
+      to: normalizeQueryParam(req.query.to) || undefined,
+    });
+    return res.json(closures);
+  } catch (error: any) {
+    console.error("Error fetching closures:", error);
+    return res.status(500).json({ error: error.message || "Failed to fetch closures" });
+  }
+});
+
+/**
+ * POST /api/admin/closures
+ * Close a court for a date range. Returns the existing reservations inside
+ * the window so they can be moved or cancelled (ADMIN ONLY)
+ */
+app.post("/api/admin/closures", authenticate, requireRole("admin"), async (req, res) => {
+  try {
+    const { closure, affectedReservations } = await createClosure(
+      req.body || {},
+      req.session?.memberId
+    );
+    const enriched = await Promise.all(affectedReservations.map(attachReservationContext));
+    return res.status(201).json({ closure, affectedReservations: enriched });
+  } catch (error: any) {
+    console.error("Error creating closure:", error);
+    return sendCourtError(res, error, "Failed to create closure");
+  }
+});
+
+/**
+ * GET /api/admin/closures/:id/affected-reservations
+ * List confirmed reservations that fall inside a closure (ADMIN ONLY)
+ */
+app.get("/api/admin/closures/:id/affected-reservations", authenticate, requireRole("admin"), async (req, res) => {
+  try {
+    const closure = await getClosure(req.params.id);
+    const reservations = await getReservationsAffectedByClosure(closure);
+    const enriched = await Promise.all(reservations.map(attachReservationContext));
+    return res.json(enriched);
+  } catch (error: any) {
+    console.error("Error fetching affected reservations:", error);
+    return sendCourtError(res, error, "Failed to fetch affected reservations");
+  }
+});
+
+/**
+ * DELETE /api/admin/closures/:id
+ * Remove a closure and reopen the court (ADMIN ONLY)
+ */
+app.delete("/api/admin/closures/:id", authenticate, requireRole("admin"), async (req, res) => {
+  try {
+    await deleteClosure(req.params.id);
+    return res.json({ message: "Closure removed successfully" });
+  } catch (error: any) {
+    console.error("Error deleting closure:", error);
+    return sendCourtError(res, error, "Failed to delete closure");
+  }
+});
+
+app.get("/api/reservations", optionalAuth, async (req, res) => {
+  try {
+    const date = String(req.query.date || "");
+    const reservations = date ? await getReservationsByDate(date) : await getAllReservations();
+    return res.json(
+      await Promise.all(reservations.map((reservation) => forReservationViewer(req, reservation)))
+    );
+  } catch (error) {
     console.error("Error fetching reservations:", error);
     return res.status(500).json({ error: "Failed to fetch reservations" });
   }
 });
 
+/**
+ * Respond with 403 when an authorization policy denies the request
+ */
+function sendForbidden(res: express.Response, message: string) {
+  return res.status(403).json({
+    error: message,
+    code: "FORBIDDEN",
+  });
+}
+
+/**
+ * Who is making a change, for the audit log
+ * The source comes from the session, never from the request: admins work
+ * through the admin dashboard, everyone else through the member API.
+ */
+function getAuditContext(req: express.Request): AuditContext {
+  return {
+    actorId: req.session?.memberId,
+    actorRole: req.session?.role,
+    source: req.session?.role === "admin" ? "admin-ui" : "api",
+  };
+}
+
+/**
+ * Load the member who owns a reservation, for guardian-aware policy checks
+ */
+async function findReservationOwner(reservation: { memberId?: string }) {
+  if (!reservation.memberId) {
+    return null;
+  }
+
+  try {
+    return await getMember(reservation.memberId);
+  } catch (error) {
+    if (error instanceof MemberNotFoundError) {
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Reservations are public, but only the booker, their parent or an admin
+ * sees the partners' emails
+ */
+async function forReservationViewer(req: express.Request, reservation: Reservation) {
+  if (!reservation.participants?.length) {
+    return reservation;
+  }
+  if (
+    req.session &&
+    canModifyReservation(req.session, reservation, await findReservationOwner(reservation))
+  ) {
+    return reservation;
+  }
+  return withoutPartnerEmails(reservation);
+}
+
 function normalizeQueryParam(value: unknown): string {
   if (Array.isArray(value)) {
     return String(value[0] ?? "");
@@ -377,6 +1275,34 @@ async function attachReservationContext(reservation: any) {
   return base;
 }
 
+/**
+ * GET /api/booking-rules
+ * Advance windows, per-member caps and lead time for self-service bookings
+ */
+app.get("/api/booking-rules", async (_req, res) => {
+  try {
+    const rules = await getBookingRules();
+    return res.json(rules);
+  } catch (error: any) {
+    console.error("Error fetching booking rules:", error);
+    return res.status(500).json({ error: error.message || "Failed to fetch booking rules" });
+  }
+});
+
+/**
+ * PUT /api/admin/booking-rules
+ * Change some or all of the booking rules; null removes a limit (ADMIN ONLY)
+ */
+app.put("/api/admin/booking-rules", authenticate, requireRole("admin"), async (req, res) => {
+  try {
+    const rules = await updateBookingRules(req.body || {}, req.session?.memberId);
+    return res.json(rules);
+  } catch (error: any) {
+    console.error("Error updating booking rules:", error);
+    return sendCourtError(res, error, "Failed to update booking rules");
+  }
+});
+
 app.get("/api/admin/reservations", authenticate, requireRole("admin"), async (req, res) => {
   try {
     const dateFrom = normalizeQueryParam(req.query.dateFrom);
@@ -458,7 +1384,17 @@ app.post("/api/admin/reservations", authenticate, requireRole("admin"), async (r
       customerPhone: body.customerPhone || body.guestPhone,
       notes: body.notes,
       paymentId: body.paymentId,
+      // Admins can book past the advance window, caps and lead time
+      rulesOverriddenBy: req.body.overrideRules === true ? req.session?.memberId : undefined,
     });
+    await recordAudit(
+      getAuditContext(req),
+      "reservation.create",
+      "reservation",
+      reservation.id,
+      null,
+      reservation
+    );
 
     const enriched = await attachReservationContext(reservation);
     return res.status(201).json(enriched);
@@ -485,6 +1421,69 @@ app.post("/api/admin/reservations", authenticate, requireRole("admin"), async (r
   }
 });
 
+/**
+ * Map series errors: member problems are client errors like validation failures
+ */
+function sendSeriesError(res: express.Response, error: any, fallback: string) {
+  if (error instanceof MemberError && !(error instanceof MemberLockError)) {
+    return res.status(400).json({ error: error.message, code: error.code });
+  }
+  return sendCourtError(res, error, fallback);
+}
+
+/**
+ * POST /api/admin/reservations/series/preview
+ * Check every date of a recurring pattern without booking anything (ADMIN ONLY)
+ */
+app.post(
+  "/api/admin/reservations/series/preview",
+  authenticate,
+  requireRole("admin"),
+  async (req, res) => {
+    try {
+      const occurrences = await previewSeries(req.body as ReservationSeriesRequest);
+      return res.json({ occurrences });
+    } catch (error: any) {
+      console.error("Error previewing reservation series:", error);
+      return sendSeriesError(res, error, "Failed to preview series");
+    }
+  }
+);
+
+/**
+ * POST /api/admin/reservations/series
+ * Create a recurring series; conflicting dates are skipped and reported (ADMIN ONLY)
+ */
+app.post("/api/admin/reservations/series", authenticate, requireRole("admin"), async (req, res) => {
+  try {
+    const result = await createSeries(
+      req.body as ReservationSeriesRequest,
+      req.session?.memberId
+    );
+    return res.status(201).json(result);
+  } catch (error: any) {
+    console.error("Error creating reservation series:", error);
+    return sendSeriesError(res, error, "Failed to create series");
+  }
+});
+
+/**
+ * GET /api/admin/reservations/series/:id
+ * Get a series with its booked occurrences (ADMIN ONLY)
+ */
+app.get("/api/admin/reservations/series/:id", authenticate, requireRole("admin"), async (req, res) => {
+  try {
+    const { series, reservations } = await getSeries(req.params.id);
+    const enriched = await Promise.all(
+      reservations.map((reservation) => attachReservationContext(reservation))
+    );
+    return res.json({ series, reservations: enriched });
+  } catch (error: any) {
+    console.error("Error fetching reservation series:", error);
+    return sendSeriesError(res, error, "Failed to fetch series");
+  }
+});
+
 app.patch("/api/admin/reservations/:id", authenticate, requireRole("admin"), async (req, res) => {
   try {
     const { id } = req.params;
@@ -494,12 +1493,36 @@ app.patch("/api/admin/reservations/:id", authenticate, requireRole("admin"), asy
       return res.status(400).json({ error: "No update data provided" });
     }
 
-    if (updates.status && !["confirmed", "cancelled"].includes(updates.status)) {
+    if (updates.status && !RESERVATION_STATUSES.includes(updates.status)) {
       return res.status(400).json({ error: "Invalid status value" });
     }
 
+    const audit = getAuditContext(req);
+    const before = await reservationRepository.findById(id);
+
+    // Attendance changes go through check-in so no-shows are penalized and release the court
+    if (updates.status === "checked_in") {
+      const checkedIn = await checkInReservation(id, {
+        method: "front_desk",
+        checkedInBy: req.session?.memberId,
+        force: true,
+      });
+      await recordAudit(audit, "reservation.update", "reservation", id, before, checkedIn);
+      return res.json(await attachReservationContext(checkedIn));
+    }
+    if (updates.status === "no_show") {
+      const noShow = await markNoShow(id);
+      await recordAudit(audit, "reservation.update", "reservation", id, before, noShow);
+      return res.json(await attachReservationContext(noShow));
+    }
+    if (updates.status === "completed") {
+      const completed = await markCompleted(id);
+      await recordAudit(audit, "reservation.update", "reservation", id, before, completed);
+      return res.json(await attachReservationContext(completed));
+    }
+
     if (updates.status === "cancelled") {
-      const success = await cancelReservation(id);
+      const success = await cancelReservation(id, { audit });
       if (!success) {
         return res.status(404).json({ error: "Reservation not found" });
       }
@@ -542,7 +1565,18 @@ app.patch("/api/admin/reservations/:id", authenticate, requireRole("admin"), asy
       return res.status(400).json({ error: "No valid update fields provided" });
     }
 
+    // Admins may move past the booking rules, but not outside opening hours or onto a held slot
+    if (before && (allowedUpdates.date || allowedUpdates.timeSlot || allowedUpdates.courtId)) {
+      await validateReservationMove(before, allowedUpdates, true);
+    }
+
     const updatedReservation = await reservationRepository.update(id, allowedUpdates);
+    if (before) {
+      await recordAudit(audit, "reservation.update", "reservation", id, before, updatedReservation);
+    }
+    if (before && isRescheduled(before, updatedReservation)) {
+      await notifyReservationChanged(before, updatedReservation);
+    }
     const enriched = await attachReservationContext(updatedReservation);
     return res.json(enriched);
   } catch (error: any) {
@@ -568,10 +1602,43 @@ app.patch("/api/admin/reservations/:id", authenticate, requireRole("admin"), asy
   }
 });
 
+/**
+ * DELETE /api/admin/reservations/:id?scope=single|following|all
+ * Cancel one reservation, or for a series occurrence this and following
+ * occurrences or the whole series (ADMIN ONLY)
+ */
 app.delete("/api/admin/reservations/:id", authenticate, requireRole("admin"), async (req, res) => {
   try {
     const { id } = req.params;
-    const success = await cancelReservation(id);
+    const scope = normalizeQueryParam(req.query.scope) || "single";
+
+    if (!["single", "following", "all"].includes(scope)) {
+      return res.status(400).json({ error: "scope must be single, following or all" });
+    }
+
+    if (scope !== "single") {
+      const reservation = await reservationRepository.findById(id);
+      if (!reservation) {
+        return res.status(404).json({ error: "Reservation not found" });
+      }
+      if (!reservation.seriesId) {
+        return res.status(400).json({ error: "Reservation is not part of a series" });
+      }
+
+      const result = await cancelSeries(
+        reservation.seriesId,
+        scope as "following" | "all",
+        reservation.date,
+        new Date(),
+        getAuditContext(req)
+      );
+      return res.json({
+        message: `Cancelled ${result.cancelledReservationIds.length} reservation(s) in series`,
+        ...result,
+      });
+    }
+
+    const success = await cancelReservation(id, { audit: getAuditContext(req) });
 
     if (!success) {
       return res.status(404).json({ error: "Reservation not found" });
@@ -580,13 +1647,11 @@ app.delete("/api/admin/reservations/:id", authenticate, requireRole("admin"), as
     return res.json({ message: "Reservation cancelled successfully" });
   } catch (error: any) {
     console.error("Error cancelling admin reservation:", error);
-    return res.status(500).json({
-      error: error.message || "Failed to cancel reservation",
-    });
+    return sendCourtError(res, error, "Failed to cancel reservation");
   }
 });
 
-app.post("/api/reservations", async (req, res) => {
+app.post("/api/reservations", optionalAuth, async (req, res) => {
   try {
     const body: ReservationRequest = req.body;
 
@@ -620,6 +1685,24 @@ app.post("/api/reservations", async (req, res) => {
       }
     }
 
+    // Member bookings need a session; guests book without one
+    if (body.memberId && !req.session) {
+      return res.status(401).json({
+        error: "Sign in to book as a member",
+        code: "UNAUTHORIZED",
+      });
+    }
+
+    // Signed-in members booking for someone else (parents for linked players)
+    let bookedBy: string | undefined;
+    if (req.session && body.memberId && body.memberId !== req.session.memberId) {
+      const member = await getMember(body.memberId);
+      if (!canBookFor(req.session, member)) {
+        return sendForbidden(res, "You can only book for yourself or your linked players");
+      }
+      bookedBy = req.session.memberId;
+    }
+
     const court = await getCourt(body.courtId);
     if (!court) {
       return res.status(404).json({ error: "Court not found" });
@@ -631,6 +1714,7 @@ app.post("/api/reservations", async (req, res) => {
       date: body.date,
       timeSlot: body.timeSlot,
       memberId: body.memberId,
+      bookedBy,
       guestName: body.guestName || body.customerName,
       guestEmail: body.guestEmail || body.customerEmail,
       guestPhone: body.guestPhone || body.customerPhone,
@@ -639,7 +1723,17 @@ app.post("/api/reservations", async (req, res) => {
       customerPhone: body.customerPhone || body.guestPhone,
       notes: body.notes,
       paymentId: body.paymentId, // Phase 4: Payment integration
+      partners: body.partners !== undefined ? normalizePartnerRequests(body.partners) : undefined,
+      splitPayment: body.splitPayment === true,
     });
+    await recordAudit(
+      getAuditContext(req),
+      "reservation.create",
+      "reservation",
+      reservation.id,
+      null,
+      reservation
+    );
 
     return res.status(201).json(reservation);
   } catch (error: any) {
@@ -687,7 +1781,7 @@ app.post("/api/reservations", async (req, res) => {
   }
 });
 
-app.get("/api/reservations/:id", async (req, res) => {
+app.get("/api/reservations/:id", optionalAuth, async (req, res) => {
   try {
     const { id } = req.params;
     const reservation = await reservationRepository.findById(id);
@@ -696,7 +1790,7 @@ app.get("/api/reservations/:id", async (req, res) => {
       return res.status(404).json({ error: "Reservation not found" });
     }
 
-    return res.json(reservation);
+    return res.json(await forReservationViewer(req, reservation));
   } catch (error: any) {
     console.error("Error fetching reservation:", error);
     
@@ -711,20 +1805,49 @@ app.get("/api/reservations/:id", async (req, res) => {
   }
 });
 
-app.delete("/api/reservations/:id", async (req, res) => {
+/**
+ * DELETE /api/reservations/:id
+ * Cancel a reservation (owner, owner's parent, or admin)
+ */
+app.delete("/api/reservations/:id", authenticate, async (req, res) => {
   try {
-    const { id } = req.params;
-    const success = await cancelReservation(id);
-
-    if (!success) {
-      return res.status(404).json({ error: "Reservation not found" });
-    }
-
+    if (!req.session) {
+      return res.status(401).json({
+        error: "Not authenticated",
+        code: "UNAUTHORIZED",
+      });
+    }
+
+    const { id } = req.params;
+    const reservation = await reservationRepository.findById(id);
+
+    if (!reservation) {
+      return res.status(404).json({ error: "Reservation not found" });
+    }
+
+    const owner = await findReservationOwner(reservation);
+    if (!canModifyReservation(req.session, reservation, owner)) {
+      return sendForbidden(res, "You can only cancel your own reservations");
+    }
+
+    const success = await cancelReservation(id, { audit: getAuditContext(req) });
+
+    if (!success) {
+      return res.status(404).json({ error: "Reservation not found" });
+    }
+
     return res.json({ message: "Reservation cancelled successfully" });
   } catch (error: any) {
     console.error("Error cancelling reservation:", error);
     
     // Handle specific error types
+    if (error instanceof ValidationError) {
+      return res.status(400).json({
+        error: error.message,
+        code: error.code,
+      });
+    }
+    
     if (error instanceof LockError) {
       return res.status(503).json({
         error: "Service temporarily unavailable. Please try again.",
@@ -745,8 +1868,19 @@ app.delete("/api/reservations/:id", async (req, res) => {
   }
 });
 
-app.put("/api/reservations/:id", async (req, res) => {
+/**
+ * PUT /api/reservations/:id
+ * Update a reservation (owner, owner's parent, or admin)
+ */
+app.put("/api/reservations/:id", authenticate, async (req, res) => {
   try {
+    if (!req.session) {
+      return res.status(401).json({
+        error: "Not authenticated",
+        code: "UNAUTHORIZED",
+      });
+    }
+
     const { id } = req.params;
     const updates = req.body;
 
@@ -755,6 +1889,21 @@ app.put("/api/reservations/:id", async (req, res) => {
       return res.status(400).json({ error: "No update data provided" });
     }
 
+    const existing = await reservationRepository.findById(id);
+    if (!existing) {
+      return res.status(404).json({ error: "Reservation not found" });
+    }
+
+    const owner = await findReservationOwner(existing);
+    if (!canModifyReservation(req.session, existing, owner)) {
+      return sendForbidden(res, "You can only update your own reservations");
+    }
+
+    const forbiddenFields = getForbiddenReservationFields(req.session, updates);
+    if (forbiddenFields.length > 0) {
+      return sendForbidden(res, `Only admins can change: ${forbiddenFields.join(", ")}`);
+    }
+
     // Validate email if provided
     if (updates.customerEmail) {
       const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
@@ -769,13 +1918,30 @@ app.put("/api/reservations/:id", async (req, res) => {
       if (!court) {
         return res.status(404).json({ error: "Court not found" });
       }
-      // Update courtName if courtId changes
-      if (updates.courtId) {
-        updates.courtName = court.name;
-      }
+    }
+
+    // A move gets the same hours, rules and price checks as a new booking
+    if (updates.courtId || updates.date || updates.timeSlot) {
+      const moved = await validateReservationMove(
+        existing,
+        { courtId: updates.courtId, date: updates.date, timeSlot: updates.timeSlot },
+        req.session.role === "admin"
+      );
+      updates.courtName = moved.courtName;
     }
 
     const updatedReservation = await reservationRepository.update(id, updates);
+    await recordAudit(
+      getAuditContext(req),
+      "reservation.update",
+      "reservation",
+      id,
+      existing,
+      updatedReservation
+    );
+    if (isRescheduled(existing, updatedReservation) && updatedReservation.status !== "cancelled") {
+      await notifyReservationChanged(existing, updatedReservation);
+    }
 
     return res.json(updatedReservation);
   } catch (error: any) {
@@ -818,11 +1984,29 @@ app.put("/api/reservations/:id", async (req, res) => {
 
 // ==================== MEMBER API ENDPOINTS ====================
 
-app.get("/api/members", async (req, res) => {
+/**
+ * GET /api/members
+ * List members (admins see everyone, coaches see players)
+ */
+app.get("/api/members", authenticate, async (req, res) => {
   try {
+    if (!req.session) {
+      return res.status(401).json({
+        error: "Not authenticated",
+        code: "UNAUTHORIZED",
+      });
+    }
+
+    if (!canListMembers(req.session)) {
+      return sendForbidden(res, "Only coaches and admins can list members");
+    }
+
     const filter = req.query.filter as "all" | "active" | "inactive" | undefined;
     const search = req.query.search as string | undefined;
-    const role = req.query.role as string | undefined;
+    // Coaches can only list players
+    const role = canManageMembers(req.session)
+      ? (req.query.role as string | undefined)
+      : "player";
 
     let members;
     if (role) {
@@ -846,19 +2030,34 @@ app.get("/api/members", async (req, res) => {
       });
     }
 
-    return res.json(members);
+    return res.json(members.map(toPublicMember));
   } catch (error: any) {
     console.error("Error fetching members:", error);
     return res.status(500).json({ error: "Failed to fetch members" });
   }
 });
 
-app.get("/api/members/:id", async (req, res) => {
+/**
+ * GET /api/members/:id
+ * Get a member (self, coach reading a player, or admin)
+ */
+app.get("/api/members/:id", authenticate, async (req, res) => {
   try {
+    if (!req.session) {
+      return res.status(401).json({
+        error: "Not authenticated",
+        code: "UNAUTHORIZED",
+      });
+    }
+
     const { id } = req.params;
     const member = await getMember(id);
 
-    return res.json(member);
+    if (!canReadMember(req.session, member)) {
+      return sendForbidden(res, "Not authorized to view this member");
+    }
+
+    return res.json(toPublicMember(member));
   } catch (error: any) {
     console.error("Error fetching member:", error);
 
@@ -873,7 +2072,11 @@ app.get("/api/members/:id", async (req, res) => {
   }
 });
 
-app.post("/api/members", async (req, res) => {
+/**
+ * POST /api/members
+ * Create a member (ADMIN ONLY)
+ */
+app.post("/api/members", authenticate, requireRole("admin"), async (req, res) => {
   try {
     const body: MemberRequest = req.body;
 
@@ -886,9 +2089,9 @@ app.post("/api/members", async (req, res) => {
       return res.status(400).json({ error: "Missing required fields" });
     }
 
-    const member = await createMember(body);
+    const member = await createMember(body, getAuditContext(req));
 
-    return res.status(201).json(member);
+    return res.status(201).json(toPublicMember(member));
   } catch (error: any) {
     console.error("Error creating member:", error);
 
@@ -927,19 +2130,39 @@ app.post("/api/members", async (req, res) => {
   }
 });
 
-app.put("/api/members/:id", async (req, res) => {
+/**
+ * PUT /api/members/:id
+ * Update a member (self or admin; only admins can change role, status and account fields)
+ */
+app.put("/api/members/:id", authenticate, async (req, res) => {
   try {
+    if (!req.session) {
+      return res.status(401).json({
+        error: "Not authenticated",
+        code: "UNAUTHORIZED",
+      });
+    }
+
     const { id } = req.params;
     const updates = req.body;
 
+    if (!canUpdateMember(req.session, id)) {
+      return sendForbidden(res, "You can only update your own profile");
+    }
+
     // Validate that updates are provided
     if (!updates || Object.keys(updates).length === 0) {
       return res.status(400).json({ error: "No update data provided" });
     }
 
-    const updatedMember = await updateMember(id, updates);
+    const forbiddenFields = getForbiddenMemberFields(req.session, updates, await getMember(id));
+    if (forbiddenFields.length > 0) {
+      return sendForbidden(res, `Only admins can change: ${forbiddenFields.join(", ")}`);
+    }
+
+    const updatedMember = await updateMember(id, updates, getAuditContext(req));
 
-    return res.json(updatedMember);
+    return res.json(toPublicMember(updatedMember));
   } catch (error: any) {
     console.error("Error updating member:", error);
 
@@ -985,19 +2208,39 @@ app.put("/api/members/:id", async (req, res) => {
   }
 });
 
-app.patch("/api/members/:id", async (req, res) => {
+/**
+ * PATCH /api/members/:id
+ * Update a member (self or admin; only admins can change role, status and account fields)
+ */
+app.patch("/api/members/:id", authenticate, async (req, res) => {
   try {
+    if (!req.session) {
+      return res.status(401).json({
+        error: "Not authenticated",
+        code: "UNAUTHORIZED",
+      });
+    }
+
     const { id } = req.params;
     const updates = req.body;
 
+    if (!canUpdateMember(req.session, id)) {
+      return sendForbidden(res, "You can only update your own profile");
+    }
+
     // Validate that updates are provided
     if (!updates || Object.keys(updates).length === 0) {
       return res.status(400).json({ error: "No update data provided" });
     }
 
-    const updatedMember = await updateMember(id, updates);
+    const forbiddenFields = getForbiddenMemberFields(req.session, updates, await getMember(id));
+    if (forbiddenFields.length > 0) {
+      return sendForbidden(res, `Only admins can change: ${forbiddenFields.join(", ")}`);
+    }
+
+    const updatedMember = await updateMember(id, updates, getAuditContext(req));
 
-    return res.json(updatedMember);
+    return res.json(toPublicMember(updatedMember));
   } catch (error: any) {
     console.error("Error updating member:", error);
 
@@ -1043,10 +2286,14 @@ app.patch("/api/members/:id", async (req, res) => {
   }
 });
 
-app.delete("/api/members/:id", async (req, res) => {
+/**
+ * DELETE /api/members/:id
+ * Deactivate a member (ADMIN ONLY)
+ */
+app.delete("/api/members/:id", authenticate, requireRole("admin"), async (req, res) => {
   try {
     const { id } = req.params;
-    const success = await deleteMember(id);
+    const success = await deleteMember(id, getAuditContext(req));
 
     if (!success) {
       return res.status(404).json({
@@ -1095,9 +2342,10 @@ app.get("/api/members/me/reservations", authenticate, async (req, res) => {
     }
     const memberId = req.session.memberId;
 
+    // Includes bookings the member was invited to as a doubles partner
     const allReservations = await getAllReservations();
     const memberReservations = allReservations.filter(
-      (r) => r.memberId === memberId
+      (r) => r.memberId === memberId || isPartnerOn(r, memberId)
     );
 
     return res.json(memberReservations);
@@ -1109,17 +2357,144 @@ app.get("/api/members/me/reservations", authenticate, async (req, res) => {
   }
 });
 
-app.get("/api/members/:id/reservations", async (req, res) => {
+/**
+ * Map waitlist errors: taken slots are conflicts, member problems are client errors
+ */
+function sendWaitlistError(res: express.Response, error: any, fallback: string) {
+  if (error instanceof ConflictError) {
+    return res.status(409).json({ error: error.message, code: error.code });
+  }
+  if (error instanceof MemberError && !(error instanceof MemberLockError)) {
+    return res.status(400).json({ error: error.message, code: error.code });
+  }
+  return sendCourtError(res, error, fallback);
+}
+
+/**
+ * GET /api/members/me/waitlist
+ * Get current user's waitlist entries, including any held slots (authenticated)
+ */
+app.get("/api/members/me/waitlist", authenticate, async (req, res) => {
+  try {
+    if (!req.session) {
+      return res.status(401).json({
+        error: "Not authenticated",
+        code: "UNAUTHORIZED",
+      });
+    }
+    const entries = await getMemberWaitlist(req.session.memberId);
+    return res.json(entries);
+  } catch (error: any) {
+    console.error("Error fetching waitlist:", error);
+    return sendWaitlistError(res, error, "Failed to fetch waitlist");
+  }
+});
+
+/**
+ * POST /api/members/me/waitlist
+ * Join the waitlist for a court (or any court), date and time range (authenticated)
+ */
+app.post("/api/members/me/waitlist", authenticate, async (req, res) => {
+  try {
+    if (!req.session) {
+      return res.status(401).json({
+        error: "Not authenticated",
+        code: "UNAUTHORIZED",
+      });
+    }
+    const entry = await joinWaitlist(req.session.memberId, req.body as WaitlistRequest);
+    return res.status(201).json(entry);
+  } catch (error: any) {
+    console.error("Error joining waitlist:", error);
+    return sendWaitlistError(res, error, "Failed to join waitlist");
+  }
+});
+
+/**
+ * DELETE /api/members/me/waitlist/:id
+ * Leave the waitlist; a held slot passes to the next member (authenticated)
+ */
+app.delete("/api/members/me/waitlist/:id", authenticate, async (req, res) => {
+  try {
+    if (!req.session) {
+      return res.status(401).json({
+        error: "Not authenticated",
+        code: "UNAUTHORIZED",
+      });
+    }
+    const entry = await leaveWaitlist(req.session.memberId, req.params.id);
+    return res.json(entry);
+  } catch (error: any) {
+    console.error("Error leaving waitlist:", error);
+    return sendWaitlistError(res, error, "Failed to leave waitlist");
+  }
+});
+
+/**
+ * POST /api/members/me/waitlist/:id/book
+ * Book the slot held for a waitlist entry (authenticated)
+ */
+app.post("/api/members/me/waitlist/:id/book", authenticate, async (req, res) => {
+  try {
+    if (!req.session) {
+      return res.status(401).json({
+        error: "Not authenticated",
+        code: "UNAUTHORIZED",
+      });
+    }
+    const memberId = req.session.memberId;
+    const entry = await getMemberWaitlistEntry(memberId, req.params.id);
+
+    if (entry.status !== "offered" || !entry.hold) {
+      return res.status(400).json({
+        error: entry.status === "expired"
+          ? "The hold on this slot has expired"
+          : "No slot is being held for this waitlist entry",
+        code: "VALIDATION_ERROR",
+      });
+    }
+
+    const reservation = await createReservation({
+      courtId: entry.hold.courtId,
+      date: entry.date,
+      timeSlot: entry.hold.timeSlot,
+      memberId,
+      notes: req.body?.notes,
+    });
+
+    return res.status(201).json(reservation);
+  } catch (error: any) {
+    console.error("Error booking waitlist hold:", error);
+    return sendWaitlistError(res, error, "Failed to book held slot");
+  }
+});
+
+/**
+ * GET /api/members/:id/reservations
+ * Get a member's reservations (self, coach reading a player, linked parent, or admin)
+ */
+app.get("/api/members/:id/reservations", authenticate, async (req, res) => {
   try {
+    if (!req.session) {
+      return res.status(401).json({
+        error: "Not authenticated",
+        code: "UNAUTHORIZED",
+      });
+    }
+
     const { id } = req.params;
 
     // Verify member exists
-    await getMember(id);
+    const member = await getMember(id);
+
+    if (!canReadMember(req.session, member)) {
+      return sendForbidden(res, "Not authorized to view this member's reservations");
+    }
 
-    // Get all reservations and filter by memberId
+    // Get the member's reservations, including ones they're a partner on
     const allReservations = await getAllReservations();
     const memberReservations = allReservations.filter(
-      (r) => r.memberId === id
+      (r) => r.memberId === id || isPartnerOn(r, id)
     );
 
     return res.json(memberReservations);
@@ -1139,10 +2514,1364 @@ app.get("/api/members/:id/reservations", async (req, res) => {
   }
 });
 
+// ==================== Family Endpoints ====================
+
+/**
+ * Map family link errors: unknown invites/members are 404s, disallowed links are 400s
+ */
+function sendFamilyError(res: express.Response, error: any, fallback: string) {
+  if (error instanceof GuardianInviteNotFoundError || error instanceof MemberNotFoundError) {
+    return res.status(404).json({ error: error.message, code: error.code });
+  }
+  if (error instanceof GuardianLinkError) {
+    return res.status(400).json({ error: error.message, code: error.code });
+  }
+  if (error instanceof MemberLockError) {
+    return res.status(503).json({
+      error: "Service temporarily unavailable. Please try again.",
+      code: error.code,
+    });
+  }
+  return res.status(500).json({ error: error.message || fallback });
+}
+
+/**
+ * GET /api/members/me/family
+ * Family dashboard: linked players with upcoming bookings and journal entries,
+ * linked parents, and pending invitations (authenticated)
+ */
+app.get("/api/members/me/family", authenticate, async (req, res) => {
+  try {
+    if (!req.session) {
+      return res.status(401).json({
+        error: "Not authenticated",
+        code: "UNAUTHORIZED",
+      });
+    }
+    const overview = await getFamilyOverview(req.session.memberId);
+    return res.json(overview);
+  } catch (error: any) {
+    console.error("Error fetching family overview:", error);
+    return sendFamilyError(res, error, "Failed to fetch family overview");
+  }
+});
+
+/**
+ * GET /api/members/me/guardian-invites
+ * List invitations the current member has sent or received (authenticated)
+ */
+app.get("/api/members/me/guardian-invites", authenticate, async (req, res) => {
+  try {
+    if (!req.session) {
+      return res.status(401).json({
+        error: "Not authenticated",
+        code: "UNAUTHORIZED",
+      });
+    }
+    const invites = await getGuardianInvites(req.session.memberId);
+    return res.json(invites);
+  } catch (error: any) {
+    console.error("Error fetching guardian invites:", error);
+    return sendFamilyError(res, error, "Failed to fetch invitations");
+  }
+});
+
+/**
+ * POST /api/members/me/guardian-invites
+ * Invite a player (by email) to link to the current parent account
+ */
+app.post("/api/members/me/guardian-invites", authenticate, requireRole("parent"), async (req, res) => {
+  try {
+    if (!req.session) {
+      return res.status(401).json({
+        error: "Not authenticated",
+        code: "UNAUTHORIZED",
+      });
+    }
+
+    const email = typeof req.body?.email === "string" ? req.body.email.trim() : "";
+    if (!email) {
+      return res.status(400).json({
+        error: "Player email is required",
+        code: "VALIDATION_ERROR",
+      });
+    }
+
+    const invite = await inviteChild(req.session.memberId, email);
+    return res.status(201).json(invite);
+  } catch (error: any) {
+    console.error("Error inviting player:", error);
+    return sendFamilyError(res, error, "Failed to send invitation");
+  }
+});
+
+/**
+ * POST /api/members/me/guardian-invites/:id/accept
+ * Accept a parent's invitation (invited player)
+ */
+app.post("/api/members/me/guardian-invites/:id/accept", authenticate, async (req, res) => {
+  try {
+    if (!req.session) {
+      return res.status(401).json({
+        error: "Not authenticated",
+        code: "UNAUTHORIZED",
+      });
+    }
+    const invite = await respondToInvite(req.session.memberId, req.params.id, true);
+    return res.json(invite);
+  } catch (error: any) {
+    console.error("Error accepting guardian invite:", error);
+    return sendFamilyError(res, error, "Failed to accept invitation");
+  }
+});
+
+/**
+ * POST /api/members/me/guardian-invites/:id/decline
+ * Decline a parent's invitation (invited player)
+ */
+app.post("/api/members/me/guardian-invites/:id/decline", authenticate, async (req, res) => {
+  try {
+    if (!req.session) {
+      return res.status(401).json({
+        error: "Not authenticated",
+        code: "UNAUTHORIZED",
+      });
+    }
+    const invite = await respondToInvite(req.session.memberId, req.params.id, false);
+    return res.json(invite);
+  } catch (error: any) {
+    console.error("Error declining guardian invite:", error);
+    return sendFamilyError(res, error, "Failed to decline invitation");
+  }
+});
+
+/**
+ * DELETE /api/members/me/guardian-invites/:id
+ * Withdraw a pending invitation (inviting parent)
+ */
+app.delete("/api/members/me/guardian-invites/:id", authenticate, async (req, res) => {
+  try {
+    if (!req.session) {
+      return res.status(401).json({
+        error: "Not authenticated",
+        code: "UNAUTHORIZED",
+      });
+    }
+    const invite = await cancelInvite(req.session.memberId, req.params.id);
+    return res.json(invite);
+  } catch (error: any) {
+    console.error("Error cancelling guardian invite:", error);
+    return sendFamilyError(res, error, "Failed to cancel invitation");
+  }
+});
+
+/**
+ * DELETE /api/members/me/children/:childId
+ * Remove a linked player from the current parent account
+ */
+app.delete("/api/members/me/children/:childId", authenticate, async (req, res) => {
+  try {
+    if (!req.session) {
+      return res.status(401).json({
+        error: "Not authenticated",
+        code: "UNAUTHORIZED",
+      });
+    }
+    await unlinkGuardian(req.session.memberId, req.params.childId, req.session.memberId);
+    return res.json({ message: "Player unlinked" });
+  } catch (error: any) {
+    console.error("Error unlinking player:", error);
+    return sendFamilyError(res, error, "Failed to unlink player");
+  }
+});
+
+/**
+ * DELETE /api/members/me/guardians/:parentId
+ * Leave a parent's family link (players aged 18 or over)
+ */
+app.delete("/api/members/me/guardians/:parentId", authenticate, async (req, res) => {
+  try {
+    if (!req.session) {
+      return res.status(401).json({
+        error: "Not authenticated",
+        code: "UNAUTHORIZED",
+      });
+    }
+    await unlinkGuardian(req.session.memberId, req.session.memberId, req.params.parentId);
+    return res.json({ message: "Family link removed" });
+  } catch (error: any) {
+    console.error("Error leaving family link:", error);
+    return sendFamilyError(res, error, "Failed to leave family link");
+  }
+});
+
+// ==================== Membership Endpoints ====================
+
+/**
+ * Map subscription errors: bad plan requests are 400s, missing subscriptions 404s
+ */
+function sendSubscriptionError(res: express.Response, error: any, fallback: string) {
+  if (error instanceof SubscriptionError) {
+    return res.status(400).json({ error: error.message, code: error.code });
+  }
+  if (error instanceof SubscriptionNotFoundError || error instanceof MemberNotFoundError) {
+    return res.status(404).json({ error: error.message, code: error.code });
+  }
+  if (error instanceof StripeError) {
+    return res.status(500).json({ error: error.message, code: error.code });
+  }
+  if (error instanceof PaymentProcessingError || error instanceof MemberLockError) {
+    return res.status(503).json({
+      error: "Service temporarily unavailable. Please try again.",
+      code: error.code,
+    });
+  }
+  return res.status(500).json({ error: error.message || fallback });
+}
+
+/**
+ * GET /api/membership/plans
+ * Membership plans with prices and entitlements (public)
+ */
+app.get("/api/membership/plans", (_req, res) => {
+  return res.json({ plans: listPlans() });
+});
+
+/**
+ * GET /api/members/me/subscription
+ * Current member's subscription, plan and today's entitlements (authenticated)
+ */
+app.get("/api/members/me/subscription", authenticate, async (req, res) => {
+  try {
+    if (!req.session) {
+      return res.status(401).json({
+        error: "Not authenticated",
+        code: "UNAUTHORIZED",
+      });
+    }
+    const summary = await getMembershipSummary(req.session.memberId);
+    return res.json(summary);
+  } catch (error: any) {
+    console.error("Error fetching subscription:", error);
+    return sendSubscriptionError(res, error, "Failed to fetch subscription");
+  }
+});
+
+/**
+ * POST /api/members/me/subscription
+ * Subscribe to a membership plan billed monthly or yearly (authenticated)
+ * Returns a client secret for the first payment unless the plan starts with a trial.
+ */
+app.post("/api/members/me/subscription", authenticate, async (req, res) => {
+  try {
+    if (!req.session) {
+      return res.status(401).json({
+        error: "Not authenticated",
+        code: "UNAUTHORIZED",
+      });
+    }
+
+    const { planId, interval } = req.body;
+    if (!planId || !interval) {
+      return res.status(400).json({
+        error: "planId and interval are required",
+        code: "VALIDATION_ERROR",
+      });
+    }
+
+    const result = await subscribe(req.session.memberId, planId, interval);
+    return res.status(201).json(result);
+  } catch (error: any) {
+    console.error("Error creating subscription:", error);
+    return sendSubscriptionError(res, error, "Failed to create subscription");
+  }
+});
+
+/**
+ * DELETE /api/members/me/subscription
+ * Cancel the current subscription at the end of its period (authenticated)
+ */
+app.delete("/api/members/me/subscription", authenticate, async (req, res) => {
+  try {
+    if (!req.session) {
+      return res.status(401).json({
+        error: "Not authenticated",
+        code: "UNAUTHORIZED",
+      });
+    }
+    const subscription = await setSubscriptionCancellation(req.session.memberId, true);
+    return res.json(subscription);
+  } catch (error: any) {
+    console.error("Error canceling subscription:", error);
+    return sendSubscriptionError(res, error, "Failed to cancel subscription");
+  }
+});
+
+/**
+ * POST /api/members/me/subscription/resume
+ * Keep a subscription that was set to cancel at the end of its period (authenticated)
+ */
+app.post("/api/members/me/subscription/resume", authenticate, async (req, res) => {
+  try {
+    if (!req.session) {
+      return res.status(401).json({
+        error: "Not authenticated",
+        code: "UNAUTHORIZED",
+      });
+    }
+    const subscription = await setSubscriptionCancellation(req.session.memberId, false);
+    return res.json(subscription);
+  } catch (error: any) {
+    console.error("Error resuming subscription:", error);
+    return sendSubscriptionError(res, error, "Failed to resume subscription");
+  }
+});
+
+/**
+ * GET /api/members/:id/subscription
+ * A member's subscription, plan and entitlements (the member, linked parents, admins)
+ */
+app.get("/api/members/:id/subscription", authenticate, async (req, res) => {
+  try {
+    if (!req.session) {
+      return res.status(401).json({
+        error: "Not authenticated",
+        code: "UNAUTHORIZED",
+      });
+    }
+
+    const member = await getMember(req.params.id);
+    if (!canReadMember(req.session, member)) {
+      return sendForbidden(res, "You can only view your own membership");
+    }
+
+    const summary = await getMembershipSummary(member.id);
+    return res.json(summary);
+  } catch (error: any) {
+    console.error("Error fetching subscription:", error);
+    return sendSubscriptionError(res, error, "Failed to fetch subscription");
+  }
+});
+
+// ============================================
+// Cancellation Policy Endpoints
+// ============================================
+
+/**
+ * Map penalty errors: unknown members are 404s like unknown penalties
+ */
+function sendPenaltyError(res: express.Response, error: any, fallback: string) {
+  if (error instanceof MemberNotFoundError) {
+    return res.status(404).json({ error: error.message, code: error.code });
+  }
+  return sendCourtError(res, error, fallback);
+}
+
+/**
+ * GET /api/cancellation-policy
+ * Refund tiers, what counts as a late cancellation, and penalty thresholds
+ */
+app.get("/api/cancellation-policy", async (_req, res) => {
+  try {
+    const policy = await getCancellationPolicy();
+    return res.json(policy);
+  } catch (error: any) {
+    console.error("Error fetching cancellation policy:", error);
+    return res.status(500).json({ error: error.message || "Failed to fetch cancellation policy" });
+  }
+});
+
+/**
+ * PUT /api/admin/cancellation-policy
+ * Change some or all of the cancellation policy (ADMIN ONLY)
+ */
+app.put("/api/admin/cancellation-policy", authenticate, requireRole("admin"), async (req, res) => {
+  try {
+    const policy = await updateCancellationPolicy(req.body || {}, req.session?.memberId);
+    return res.json(policy);
+  } catch (error: any) {
+    console.error("Error updating cancellation policy:", error);
+    return sendCourtError(res, error, "Failed to update cancellation policy");
+  }
+});
+
+/**
+ * GET /api/members/:id/penalties
+ * A member's penalties and any booking suspension (the member, linked parents, admins)
+ */
+app.get("/api/members/:id/penalties", authenticate, async (req, res) => {
+  try {
+    if (!req.session) {
+      return res.status(401).json({
+        error: "Not authenticated",
+        code: "UNAUTHORIZED",
+      });
+    }
+
+    const member = await getMember(req.params.id);
+    if (!canReadMember(req.session, member)) {
+      return sendForbidden(res, "You can only view your own penalties");
+    }
+
+    const status = await getPenaltyStatus(member.id);
+    return res.json(status);
+  } catch (error: any) {
+    console.error("Error fetching penalties:", error);
+    return sendPenaltyError(res, error, "Failed to fetch penalties");
+  }
+});
+
+/**
+ * POST /api/admin/penalties/:id/waive
+ * Waive a penalty so it no longer counts against the member (ADMIN ONLY)
+ */
+app.post("/api/admin/penalties/:id/waive", authenticate, requireRole("admin"), async (req, res) => {
+  try {
+    if (!req.session) {
+      return res.status(401).json({
+        error: "Not authenticated",
+        code: "UNAUTHORIZED",
+      });
+    }
+
+    const penalty = await waivePenalty(req.params.id, req.session.memberId, req.body?.reason);
+    return res.json(penalty);
+  } catch (error: any) {
+    console.error("Error waiving penalty:", error);
+    return sendPenaltyError(res, error, "Failed to waive penalty");
+  }
+});
+
+// ============================================
+// Check-in Endpoints
+// ============================================
+
+/**
+ * Map check-in errors: unknown member numbers are 404s like unknown reservations
+ */
+function sendCheckInError(res: express.Response, error: any, fallback: string) {
+  if (error instanceof MemberNotFoundError) {
+    return res.status(404).json({ error: error.message, code: error.code });
+  }
+  return sendCourtError(res, error, fallback);
+}
+
+/**
+ * GET /api/reservations/:id/check-in-code
+ * The code and QR code shown on a booking (owner, owner's parent, or admin)
+ */
+app.get("/api/reservations/:id/check-in-code", authenticate, async (req, res) => {
+  try {
+    if (!req.session) {
+      return res.status(401).json({
+        error: "Not authenticated",
+        code: "UNAUTHORIZED",
+      });
+    }
+
+    const reservation = await reservationRepository.findById(req.params.id);
+    if (!reservation) {
+      return res.status(404).json({ error: "Reservation not found" });
+    }
+
+    const owner = await findReservationOwner(reservation);
+    if (!canModifyReservation(req.session, reservation, owner)) {
+      return sendForbidden(res, "You can only check in to your own reservations");
+    }
+
+    const checkInCode = await getCheckInCode(reservation.id);
+    return res.json(checkInCode);
+  } catch (error: any) {
+    console.error("Error fetching check-in code:", error);
+    return sendCheckInError(res, error, "Failed to fetch check-in code");
+  }
+});
+
+/**
+ * POST /api/check-in
+ * Check in by scanning the QR code on a booking at the club
+ * Body: { code }
+ */
+app.post("/api/check-in", optionalAuth, async (req, res) => {
+  try {
+    const reservation = await checkInWithCode(req.body?.code, req.session?.memberId);
+    return res.json(reservation);
+  } catch (error: any) {
+    console.error("Error checking in:", error);
+    return sendCheckInError(res, error, "Failed to check in");
+  }
+});
+
+/**
+ * GET /api/admin/check-in?memberNumber=MEM-0001
+ * Front desk lookup: a member and their reservations today (ADMIN ONLY)
+ */
+app.get("/api/admin/check-in", authenticate, requireRole("admin"), async (req, res) => {
+  try {
+    const lookup = await lookUpMemberForCheckIn(normalizeQueryParam(req.query.memberNumber));
+    return res.json(lookup);
+  } catch (error: any) {
+    console.error("Error looking up member for check-in:", error);
+    return sendCheckInError(res, error, "Failed to look up member");
+  }
+});
+
+/**
+ * POST /api/admin/reservations/:id/check-in
+ * Check a player in at the front desk (ADMIN ONLY)
+ */
+app.post("/api/admin/reservations/:id/check-in", authenticate, requireRole("admin"), async (req, res) => {
+  try {
+    const before = await reservationRepository.findById(req.params.id);
+    const reservation = await checkInReservation(req.params.id, {
+      method: "front_desk",
+      checkedInBy: req.session?.memberId,
+    });
+    await recordAudit(
+      getAuditContext(req),
+      "reservation.update",
+      "reservation",
+      reservation.id,
+      before,
+      reservation
+    );
+    const enriched = await attachReservationContext(reservation);
+    return res.json(enriched);
+  } catch (error: any) {
+    console.error("Error checking in reservation:", error);
+    return sendCheckInError(res, error, "Failed to check in");
+  }
+});
+
+// ============================================
+// Doubles Partner Endpoints
+// ============================================
+
+/**
+ * Map partner errors: unknown partners are 404s, someone else's invitation is a 403
+ */
+function sendPartnerError(res: express.Response, error: any, fallback: string) {
+  if (error instanceof MemberNotFoundError) {
+    return res.status(404).json({ error: error.message, code: error.code });
+  }
+  if (error instanceof ForbiddenError) {
+    return sendForbidden(res, error.message);
+  }
+  return sendCourtError(res, error, fallback);
+}
+
+/**
+ * POST /api/reservations/:id/partners
+ * Invite doubles partners to a reservation (owner, owner's parent, or admin)
+ * Body: { partners: [{ memberId } | { email, name? }] }
+ */
+app.post("/api/reservations/:id/partners", authenticate, async (req, res) => {
+  try {
+    if (!req.session) {
+      return res.status(401).json({
+        error: "Not authenticated",
+        code: "UNAUTHORIZED",
+      });
+    }
+
+    const reservation = await reservationRepository.findById(req.params.id);
+    if (!reservation) {
+      return res.status(404).json({ error: "Reservation not found" });
+    }
+
+    const owner = await findReservationOwner(reservation);
+    if (!canModifyReservation(req.session, reservation, owner)) {
+      return sendForbidden(res, "You can only invite partners to your own reservations");
+    }
+
+    const updated = await addPartners(reservation.id, normalizePartnerRequests(req.body?.partners));
+    return res.json(updated);
+  } catch (error: any) {
+    console.error("Error inviting partners:", error);
+    return sendPartnerError(res, error, "Failed to invite partners");
+  }
+});
+
+/**
+ * DELETE /api/reservations/:id/partners/:participantId
+ * Remove a partner from a reservation (owner, owner's parent, or admin)
+ */
+app.delete("/api/reservations/:id/partners/:participantId", authenticate, async (req, res) => {
+  try {
+    if (!req.session) {
+      return res.status(401).json({
+        error: "Not authenticated",
+        code: "UNAUTHORIZED",
+      });
+    }
+
+    const reservation = await reservationRepository.findById(req.params.id);
+    if (!reservation) {
+      return res.status(404).json({ error: "Reservation not found" });
+    }
+
+    const owner = await findReservationOwner(reservation);
+    if (!canModifyReservation(req.session, reservation, owner)) {
+      return sendForbidden(res, "You can only remove partners from your own reservations");
+    }
+
+    const updated = await removePartner(reservation.id, req.params.participantId);
+    return res.json(updated);
+  } catch (error: any) {
+    console.error("Error removing partner:", error);
+    return sendPartnerError(res, error, "Failed to remove partner");
+  }
+});
+
+/**
+ * POST /api/reservations/:id/partners/:participantId/respond
+ * Accept or decline a partner invitation (the invited member, or a guest
+ * with the token from their invitation email)
+ * Body: { accept: boolean, token? }
+ */
+app.post("/api/reservations/:id/partners/:participantId/respond", optionalAuth, async (req, res) => {
+  try {
+    if (typeof req.body?.accept !== "boolean") {
+      return res.status(400).json({
+        error: "accept must be true or false",
+        code: "VALIDATION_ERROR",
+      });
+    }
+    if (req.body.token !== undefined && typeof req.body.token !== "string") {
+      return res.status(400).json({
+        error: "token must be a string",
+        code: "VALIDATION_ERROR",
+      });
+    }
+
+    const reservation = await respondToPartnerInvite(
+      req.params.id,
+      req.params.participantId,
+      req.body.accept,
+      { memberId: req.session?.memberId, token: req.body.token }
+    );
+    return res.json(reservation);
+  } catch (error: any) {
+    console.error("Error responding to partner invitation:", error);
+    return sendPartnerError(res, error, "Failed to respond to invitation");
+  }
+});
+
+// ============================================
+// Coach Lesson Endpoints
+// ============================================
+
+/**
+ * Map lesson errors: unknown members are 404s, a double-booked coach or court is a 409
+ */
+function sendLessonError(res: express.Response, error: any, fallback: string) {
+  if (error instanceof MemberNotFoundError) {
+    return res.status(404).json({ error: error.message, code: error.code });
+  }
+  if (error instanceof ConflictError) {
+    return res.status(409).json({ error: error.message, code: error.code });
+  }
+  if (error instanceof InvalidMemberStatusError) {
+    return res.status(400).json({ error: error.message, code: error.code });
+  }
+  return sendCourtError(res, error, fallback);
+}
+
+/**
+ * GET /api/lesson-types
+ * Lesson types members can book (name, kind, duration, price)
+ */
+app.get("/api/lesson-types", async (_req, res) => {
+  try {
+    const lessonTypes = await listLessonTypes();
+    return res.json(lessonTypes);
+  } catch (error: any) {
+    console.error("Error fetching lesson types:", error);
+    return sendCourtError(res, error, "Failed to fetch lesson types");
+  }
+});
+
+/**
+ * GET /api/admin/lesson-types
+ * All lesson types, including inactive ones (ADMIN ONLY)
+ */
+app.get("/api/admin/lesson-types", authenticate, requireRole("admin"), async (_req, res) => {
+  try {
+    const lessonTypes = await listLessonTypes({ includeInactive: true });
+    return res.json(lessonTypes);
+  } catch (error: any) {
+    console.error("Error fetching lesson types:", error);
+    return sendCourtError(res, error, "Failed to fetch lesson types");
+  }
+});
+
+/**
+ * POST /api/admin/lesson-types
+ * Add a lesson type (ADMIN ONLY)
+ */
+app.post("/api/admin/lesson-types", authenticate, requireRole("admin"), async (req, res) => {
+  try {
+    const lessonType = await createLessonType(req.body);
+    return res.status(201).json(lessonType);
+  } catch (error: any) {
+    console.error("Error creating lesson type:", error);
+    return sendCourtError(res, error, "Failed to create lesson type");
+  }
+});
+
+/**
+ * PATCH /api/admin/lesson-types/:id
+ * Change a lesson type's name, duration, price or player limit, or retire it
+ * with active: false (ADMIN ONLY)
+ */
+app.patch("/api/admin/lesson-types/:id", authenticate, requireRole("admin"), async (req, res) => {
+  try {
+    const lessonType = await updateLessonType(req.params.id, req.body || {});
+    return res.json(lessonType);
+  } catch (error: any) {
+    console.error("Error updating lesson type:", error);
+    return sendCourtError(res, error, "Failed to update lesson type");
+  }
+});
+
+/**
+ * GET /api/coaches
+ * Coaches members can book lessons with
+ */
+app.get("/api/coaches", async (_req, res) => {
+  try {
+    const coaches = await listCoaches();
+    return res.json(coaches);
+  } catch (error: any) {
+    console.error("Error fetching coaches:", error);
+    return sendCourtError(res, error, "Failed to fetch coaches");
+  }
+});
+
+/**
+ * GET /api/coaches/:id/slots?date=YYYY-MM-DD&lessonTypeId=
+ * Times the coach can teach a lesson type on a date, with the free courts for each
+ */
+app.get("/api/coaches/:id/slots", async (req, res) => {
+  try {
+    const date = normalizeQueryParam(req.query.date);
+    const lessonTypeId = normalizeQueryParam(req.query.lessonTypeId);
+    if (!date || !lessonTypeId) {
+      return res.status(400).json({ error: "date and lessonTypeId are required" });
+    }
+
+    const slots = await getLessonSlots(req.params.id, date, lessonTypeId);
+    return res.json({ date, lessonTypeId, slots });
+  } catch (error: any) {
+    console.error("Error fetching lesson slots:", error);
+    return sendLessonError(res, error, "Failed to fetch lesson slots");
+  }
+});
+
+/**
+ * GET /api/coaches/:id/availability
+ * A coach's weekly hours and time off (the coach or an admin)
+ */
+app.get("/api/coaches/:id/availability", authenticate, async (req, res) => {
+  try {
+    if (!req.session) {
+      return res.status(401).json({
+        error: "Not authenticated",
+        code: "UNAUTHORIZED",
+      });
+    }
+    if (!canManageCoachSchedule(req.session, req.params.id)) {
+      return sendForbidden(res, "You can only view your own availability");
+    }
+
+    const schedule = await getCoachSchedule(req.params.id);
+    return res.json(schedule);
+  } catch (error: any) {
+    console.error("Error fetching coach availability:", error);
+    return sendLessonError(res, error, "Failed to fetch availability");
+  }
+});
+
+/**
+ * PUT /api/coaches/:id/availability
+ * Replace a coach's weekly hours (the coach or an admin)
+ * Body: { weeklyHours: { monday: [{ start, end }], ... } }
+ */
+app.put("/api/coaches/:id/availability", authenticate, async (req, res) => {
+  try {
+    if (!req.session) {
+      return res.status(401).json({
+        error: "Not authenticated",
+        code: "UNAUTHORIZED",
+      });
+    }
+    if (!canManageCoachSchedule(req.session, req.params.id)) {
+      return sendForbidden(res, "You can only change your own availability");
+    }
+
+    const schedule = await setCoachWeeklyHours(req.params.id, req.body?.weeklyHours);
+    return res.json(schedule);
+  } catch (error: any) {
+    console.error("Error updating coach availability:", error);
+    return sendLessonError(res, error, "Failed to update availability");
+  }
+});
+
+/**
+ * POST /api/coaches/:id/time-off
+ * Block out days or hours for a coach (the coach or an admin)
+ * Returns lessons already booked in that window so they can be moved
+ */
+app.post("/api/coaches/:id/time-off", authenticate, async (req, res) => {
+  try {
+    if (!req.session) {
+      return res.status(401).json({
+        error: "Not authenticated",
+        code: "UNAUTHORIZED",
+      });
+    }
+    if (!canManageCoachSchedule(req.session, req.params.id)) {
+      return sendForbidden(res, "You can only add your own time off");
+    }
+
+    const result = await addCoachTimeOff(req.params.id, req.body);
+    return res.status(201).json(result);
+  } catch (error: any) {
+    console.error("Error adding coach time off:", error);
+    return sendLessonError(res, error, "Failed to add time off");
+  }
+});
+
+/**
+ * DELETE /api/coaches/:id/time-off/:timeOffId
+ * Remove time off (the coach or an admin)
+ */
+app.delete("/api/coaches/:id/time-off/:timeOffId", authenticate, async (req, res) => {
+  try {
+    if (!req.session) {
+      return res.status(401).json({
+        error: "Not authenticated",
+        code: "UNAUTHORIZED",
+      });
+    }
+    if (!canManageCoachSchedule(req.session, req.params.id)) {
+      return sendForbidden(res, "You can only remove your own time off");
+    }
+
+    await removeCoachTimeOff(req.params.id, req.params.timeOffId);
+    return res.status(204).send();
+  } catch (error: any) {
+    console.error("Error removing coach time off:", error);
+    return sendLessonError(res, error, "Failed to remove time off");
+  }
+});
+
+/**
+ * GET /api/coaches/:id/lessons?from=&to=
+ * A coach's upcoming lessons (the coach or an admin)
+ */
+app.get("/api/coaches/:id/lessons", authenticate, async (req, res) => {
+  try {
+    if (!req.session) {
+      return res.status(401).json({
+        error: "Not authenticated",
+        code: "UNAUTHORIZED",
+      });
+    }
+    if (!canManageCoachSchedule(req.session, req.params.id)) {
+      return sendForbidden(res, "You can only view your own lessons");
+    }
+
+    const lessons = await getCoachLessons(req.params.id, {
+      from: normalizeQueryParam(req.query.from) || undefined,
+      to: normalizeQueryParam(req.query.to) || undefined,
+    });
+    return res.json(await Promise.all(lessons.map(attachReservationContext)));
+  } catch (error: any) {
+    console.error("Error fetching coach lessons:", error);
+    return sendLessonError(res, error, "Failed to fetch lessons");
+  }
+});
+
+/**
+ * POST /api/lessons
+ * Book a lesson with a coach: the court and coach are reserved together and
+ * a journal draft is started for the coach
+ * Body: { coachId, lessonTypeId, date, start, memberId?, courtId?, partners?, splitPayment?, notes? }
+ */
+app.post("/api/lessons", authenticate, async (req, res) => {
+  try {
+    if (!req.session) {
+      return res.status(401).json({
+        error: "Not authenticated",
+        code: "UNAUTHORIZED",
+      });
+    }
+
+    // Members book for themselves; parents for linked players; admins for anyone
+    const memberId = req.body?.memberId || req.session.memberId;
+    if (memberId !== req.session.memberId) {
+      const member = await getMember(memberId);
+      if (!canBookFor(req.session, member)) {
+        return sendForbidden(res, "You can only book lessons for yourself or your linked players");
+      }
+    }
+
+    const { reservation } = await bookLesson(
+      {
+        coachId: req.body?.coachId,
+        lessonTypeId: req.body?.lessonTypeId,
+        date: req.body?.date,
+        start: req.body?.start,
+        memberId,
+        courtId: req.body?.courtId,
+        partners:
+          req.body?.partners !== undefined ? normalizePartnerRequests(req.body.partners) : undefined,
+        splitPayment: req.body?.splitPayment === true,
+        notes: req.body?.notes,
+      },
+      req.session.memberId
+    );
+    await recordAudit(
+      getAuditContext(req),
+      "reservation.create",
+      "reservation",
+      reservation.id,
+      null,
+      reservation
+    );
+    return res.status(201).json(reservation);
+  } catch (error: any) {
+    console.error("Error booking lesson:", error);
+    return sendLessonError(res, error, "Failed to book lesson");
+  }
+});
+
+// ============================================
+// Program Endpoints
+// ============================================
+
+/**
+ * GET /api/programs?kind=clinic|camp|junior_development
+ * Upcoming programs with seats taken and waitlist length
+ */
+app.get("/api/programs", async (req, res) => {
+  try {
+    const kind = normalizeQueryParam(req.query.kind);
+    if (kind && !PROGRAM_KINDS.includes(kind as ProgramKind)) {
+      return res.status(400).json({
+        error: `Invalid program kind. Must be one of: ${PROGRAM_KINDS.join(", ")}`,
+      });
+    }
+
+    const programs = await listPrograms({ kind: (kind as ProgramKind) || undefined });
+    return res.json(programs);
+  } catch (error: any) {
+    console.error("Error fetching programs:", error);
+    return sendCourtError(res, error, "Failed to fetch programs");
+  }
+});
+
+/**
+ * GET /api/programs/:id
+ * A program with its sessions, seats taken and waitlist length
+ */
+app.get("/api/programs/:id", async (req, res) => {
+  try {
+    const program = await getProgramListing(req.params.id);
+    return res.json(program);
+  } catch (error: any) {
+    console.error("Error fetching program:", error);
+    return sendCourtError(res, error, "Failed to fetch program");
+  }
+});
+
+/**
+ * GET /api/admin/programs
+ * All programs, including past and cancelled ones (ADMIN ONLY)
+ */
+app.get("/api/admin/programs", authenticate, requireRole("admin"), async (_req, res) => {
+  try {
+    const programs = await listPrograms({ includePast: true, includeCancelled: true });
+    return res.json(programs);
+  } catch (error: any) {
+    console.error("Error fetching programs:", error);
+    return sendCourtError(res, error, "Failed to fetch programs");
+  }
+});
+
+/**
+ * POST /api/admin/programs
+ * Create a program and close its courts for every session (ADMIN ONLY)
+ * Returns reservations already booked inside the sessions so they can be moved
+ */
+app.post("/api/admin/programs", authenticate, requireRole("admin"), async (req, res) => {
+  try {
+    const { program, affectedReservations } = await createProgram(
+      req.body || {},
+      req.session?.memberId
+    );
+    const enriched = await Promise.all(affectedReservations.map(attachReservationContext));
+    return res.status(201).json({ program, affectedReservations: enriched });
+  } catch (error: any) {
+    console.error("Error creating program:", error);
+    return sendCourtError(res, error, "Failed to create program");
+  }
+});
+
+/**
+ * PATCH /api/admin/programs/:id
+ * Change a program's details, sessions, courts, coaches or capacity (ADMIN ONLY)
+ * Returns reservations inside the new sessions, like POST
+ */
+app.patch("/api/admin/programs/:id", authenticate, requireRole("admin"), async (req, res) => {
+  try {
+    const { program, affectedReservations } = await updateProgram(req.params.id, req.body || {});
+    const enriched = await Promise.all(affectedReservations.map(attachReservationContext));
+    return res.json({ program, affectedReservations: enriched });
+  } catch (error: any) {
+    console.error("Error updating program:", error);
+    return sendCourtError(res, error, "Failed to update program");
+  }
+});
+
+/**
+ * POST /api/admin/programs/:id/cancel
+ * Cancel a program: reopen its courts, cancel enrollments and refund payments (ADMIN ONLY)
+ */
+app.post("/api/admin/programs/:id/cancel", authenticate, requireRole("admin"), async (req, res) => {
+  try {
+    const program = await cancelProgram(req.params.id);
+    return res.json(program);
+  } catch (error: any) {
+    console.error("Error cancelling program:", error);
+    return sendCourtError(res, error, "Failed to cancel program");
+  }
+});
+
+/**
+ * POST /api/programs/:id/enroll
+ * Enroll in a program, or join its waitlist when it's full
+ * Body: { memberId? } (parents enroll linked players; admins anyone)
+ */
+app.post("/api/programs/:id/enroll", authenticate, async (req, res) => {
+  try {
+    if (!req.session) {
+      return res.status(401).json({
+        error: "Not authenticated",
+        code: "UNAUTHORIZED",
+      });
+    }
+
+    const memberId = req.body?.memberId || req.session.memberId;
+    if (memberId !== req.session.memberId) {
+      const member = await getMember(memberId);
+      if (!canBookFor(req.session, member)) {
+        return sendForbidden(res, "You can only enroll yourself or your linked players");
+      }
+    }
+
+    const enrollment = await enrollInProgram(req.params.id, memberId, req.session.memberId);
+    return res.status(201).json(enrollment);
+  } catch (error: any) {
+    console.error("Error enrolling in program:", error);
+    return sendLessonError(res, error, "Failed to enroll");
+  }
+});
+
+/**
+ * DELETE /api/programs/:id/enrollments/:enrollmentId
+ * Withdraw from a program or leave its waitlist
+ * Paid seats are refunded in full before the first session
+ */
+app.delete("/api/programs/:id/enrollments/:enrollmentId", authenticate, async (req, res) => {
+  try {
+    if (!req.session) {
+      return res.status(401).json({
+        error: "Not authenticated",
+        code: "UNAUTHORIZED",
+      });
+    }
+
+    const enrollment = await getEnrollment(req.params.enrollmentId);
+    if (enrollment.programId !== req.params.id) {
+      return res.status(404).json({ error: "Enrollment not found", code: "NOT_FOUND" });
+    }
+    if (enrollment.memberId !== req.session.memberId) {
+      const member = await getMember(enrollment.memberId);
+      if (!canBookFor(req.session, member)) {
+        return sendForbidden(res, "You can only withdraw yourself or your linked players");
+      }
+    }
+
+    const result = await withdrawFromProgram(enrollment.id);
+    return res.json(result);
+  } catch (error: any) {
+    console.error("Error withdrawing from program:", error);
+    return sendLessonError(res, error, "Failed to withdraw");
+  }
+});
+
+/**
+ * GET /api/members/me/programs
+ * The current member's enrollments with their programs
+ */
+app.get("/api/members/me/programs", authenticate, async (req, res) => {
+  try {
+    if (!req.session) {
+      return res.status(401).json({
+        error: "Not authenticated",
+        code: "UNAUTHORIZED",
+      });
+    }
+
+    const enrollments = await getMemberEnrollments(req.session.memberId);
+    return res.json(enrollments);
+  } catch (error: any) {
+    console.error("Error fetching member programs:", error);
+    return sendCourtError(res, error, "Failed to fetch programs");
+  }
+});
+
+/**
+ * GET /api/members/:id/programs
+ * A member's enrollments (the member, their parents, or an admin)
+ */
+app.get("/api/members/:id/programs", authenticate, async (req, res) => {
+  try {
+    if (!req.session) {
+      return res.status(401).json({
+        error: "Not authenticated",
+        code: "UNAUTHORIZED",
+      });
+    }
+
+    const member = await getMember(req.params.id);
+    if (!canBookFor(req.session, member)) {
+      return sendForbidden(res, "You can only view your own or your linked players' programs");
+    }
+
+    const enrollments = await getMemberEnrollments(member.id);
+    return res.json(enrollments);
+  } catch (error: any) {
+    console.error("Error fetching member programs:", error);
+    return sendLessonError(res, error, "Failed to fetch programs");
+  }
+});
+
+/**
+ * GET /api/coaches/:id/programs
+ * Programs a coach runs, including finished ones (the coach or an admin)
+ */
+app.get("/api/coaches/:id/programs", authenticate, async (req, res) => {
+  try {
+    if (!req.session) {
+      return res.status(401).json({
+        error: "Not authenticated",
+        code: "UNAUTHORIZED",
+      });
+    }
+    if (!canManageCoachSchedule(req.session, req.params.id)) {
+      return sendForbidden(res, "You can only view your own programs");
+    }
+
+    const programs = await listPrograms({ coachId: req.params.id, includePast: true });
+    return res.json(programs);
+  } catch (error: any) {
+    console.error("Error fetching coach programs:", error);
+    return sendCourtError(res, error, "Failed to fetch programs");
+  }
+});
+
+/**
+ * GET /api/programs/:id/roster
+ * Class roster with attendance and the waitlist (the program's coaches or an admin)
+ */
+app.get("/api/programs/:id/roster", authenticate, async (req, res) => {
+  try {
+    if (!req.session) {
+      return res.status(401).json({
+        error: "Not authenticated",
+        code: "UNAUTHORIZED",
+      });
+    }
+
+    const program = await getProgram(req.params.id);
+    if (!canCoachProgram(req.session, program)) {
+      return sendForbidden(res, "Only the program's coaches can view its roster");
+    }
+
+    const roster = await getProgramRoster(program.id);
+    return res.json(roster);
+  } catch (error: any) {
+    console.error("Error fetching program roster:", error);
+    return sendCourtError(res, error, "Failed to fetch roster");
+  }
+});
+
+/**
+ * PUT /api/programs/:id/sessions/:sessionId/attendance
+ * Mark who came to a session (the program's coaches or an admin)
+ * Body: { attendance: { [enrollmentId]: "present" | "absent" } }
+ */
+app.put("/api/programs/:id/sessions/:sessionId/attendance", authenticate, async (req, res) => {
+  try {
+    if (!req.session) {
+      return res.status(401).json({
+        error: "Not authenticated",
+        code: "UNAUTHORIZED",
+      });
+    }
+
+    const program = await getProgram(req.params.id);
+    if (!canCoachProgram(req.session, program)) {
+      return sendForbidden(res, "Only the program's coaches can take attendance");
+    }
+
+    const roster = await recordAttendance(program.id, req.params.sessionId, req.body?.attendance);
+    return res.json(roster);
+  } catch (error: any) {
+    console.error("Error recording attendance:", error);
+    return sendCourtError(res, error, "Failed to record attendance");
+  }
+});
+
+// ============================================
+// Calendar Feed Endpoints
+// ============================================
+
+/**
+ * Public URL of this API for links handed to calendar apps
+ */
+function getApiBaseUrl(req: express.Request): string {
+  return process.env.PUBLIC_API_URL || `${req.protocol}://${req.get("host")}`;
+}
+
+/**
+ * Send an iCalendar feed
+ */
+function sendCalendar(res: express.Response, calendar: string) {
+  res.set("Content-Type", "text/calendar; charset=utf-8");
+  res.set("Cache-Control", "private, max-age=300");
+  return res.send(calendar);
+}
+
+/**
+ * GET /api/members/me/calendar
+ * The current member's feed URLs (coaching and court feeds for staff)
+ */
+app.get("/api/members/me/calendar", authenticate, async (req, res) => {
+  try {
+    if (!req.session) {
+      return res.status(401).json({
+        error: "Not authenticated",
+        code: "UNAUTHORIZED",
+      });
+    }
+
+    const feeds = await getCalendarFeeds(req.session.memberId, getApiBaseUrl(req));
+    return res.json(feeds);
+  } catch (error: any) {
+    console.error("Error fetching calendar feeds:", error);
+    return sendCourtError(res, error, "Failed to fetch calendar feeds");
+  }
+});
+
+/**
+ * POST /api/members/me/calendar/reset
+ * Issue new feed URLs; the old ones stop working
+ */
+app.post("/api/members/me/calendar/reset", authenticate, async (req, res) => {
+  try {
+    if (!req.session) {
+      return res.status(401).json({
+        error: "Not authenticated",
+        code: "UNAUTHORIZED",
+      });
+    }
+
+    const feeds = await resetCalendarToken(req.session.memberId, getApiBaseUrl(req));
+    return res.json(feeds);
+  } catch (error: any) {
+    console.error("Error resetting calendar feeds:", error);
+    return sendCourtError(res, error, "Failed to reset calendar feeds");
+  }
+});
+
+/**
+ * GET /api/calendar/:token/bookings.ics
+ * A member's bookings, partner games, lessons and programs (authenticated by the feed token)
+ */
+app.get("/api/calendar/:token/bookings.ics", async (req, res) => {
+  try {
+    const member = await findMemberByCalendarToken(req.params.token);
+    if (!member) {
+      return res.status(404).json({ error: "Calendar not found" });
+    }
+
+    return sendCalendar(res, await renderMemberCalendar(member));
+  } catch (error: any) {
+    console.error("Error rendering member calendar:", error);
+    return sendCourtError(res, error, "Failed to render calendar");
+  }
+});
+
+/**
+ * GET /api/calendar/:token/coaching.ics
+ * Lessons and programs a coach teaches (authenticated by the feed token)
+ */
+app.get("/api/calendar/:token/coaching.ics", async (req, res) => {
+  try {
+    const member = await findMemberByCalendarToken(req.params.token);
+    if (!member) {
+      return res.status(404).json({ error: "Calendar not found" });
+    }
+    if (normalizeRole(member.role) !== "coach") {
+      return sendForbidden(res, "Only coaches have a coaching calendar");
+    }
+
+    return sendCalendar(res, await renderCoachCalendar(member));
+  } catch (error: any) {
+    console.error("Error rendering coaching calendar:", error);
+    return sendCourtError(res, error, "Failed to render calendar");
+  }
+});
+
+/**
+ * GET /api/calendar/:token/courts/:courtId.ics
+ * Bookings and closures on a court (staff, authenticated by the feed token)
+ */
+app.get("/api/calendar/:token/courts/:courtId.ics", async (req, res) => {
+  try {
+    const member = await findMemberByCalendarToken(req.params.token);
+    if (!member) {
+      return res.status(404).json({ error: "Calendar not found" });
+    }
+    if (!canViewCourtCalendar({ memberId: member.id, role: member.role || "player" })) {
+      return sendForbidden(res, "Only coaches and admins can subscribe to court calendars");
+    }
+
+    return sendCalendar(res, await renderCourtCalendar(req.params.courtId));
+  } catch (error: any) {
+    console.error("Error rendering court calendar:", error);
+    return sendCourtError(res, error, "Failed to render calendar");
+  }
+});
+
 // ============================================
 // Authentication Endpoints
 // ============================================
 
+/**
+ * Device details recorded on the session (shown in the active devices list)
+ */
+function getDeviceInfo(req: express.Request) {
+  return {
+    userAgent: req.get("user-agent") || undefined,
+    ipAddress: req.ip || undefined,
+  };
+}
+
 /**
  * POST /api/auth/signup
  * Create a new member account
@@ -1170,15 +3899,20 @@ app.post("/api/auth/signup", async (req, res) => {
 
     // Email verification is disabled - automatically sign in the user
     // Create a session and token for immediate access
-    const signInResult = await signIn({
-      email,
-      password,
-    });
+    const signInResult = await signIn(
+      {
+        email,
+        password,
+      },
+      getDeviceInfo(req)
+    );
 
     return res.status(201).json({
       message: "Account created successfully. You have been automatically signed in.",
       member: signInResult.member,
       token: signInResult.token,
+      refreshToken: signInResult.refreshToken,
+      expiresAt: signInResult.expiresAt,
     });
   } catch (error: any) {
     console.error("Error in signup:", error);
@@ -1218,7 +3952,7 @@ app.post("/api/auth/signin", async (req, res) => {
       });
     }
 
-    const result = await signIn({ email, password });
+    const result = await signIn({ email, password }, getDeviceInfo(req));
 
     return res.json(result);
   } catch (error: any) {
@@ -1269,14 +4003,56 @@ app.get("/api/auth/me", authenticate, async (req, res) => {
   }
 });
 
+/**
+ * POST /api/auth/refresh
+ * Exchange a refresh token for a new access token (the refresh token rotates)
+ */
+app.post("/api/auth/refresh", async (req, res) => {
+  try {
+    const { refreshToken } = req.body;
+
+    if (!refreshToken || typeof refreshToken !== "string") {
+      return res.status(400).json({
+        error: "Refresh token is required",
+        code: "VALIDATION_ERROR",
+      });
+    }
+
+    const result = await refreshAuth(refreshToken, getDeviceInfo(req));
+
+    return res.json(result);
+  } catch (error: any) {
+    if (error instanceof InvalidSessionError) {
+      return res.status(401).json({
+        error: error.message,
+        code: error.code,
+      });
+    }
+
+    console.error("Error refreshing session:", error);
+    return res.status(500).json({
+      error: error.message || "Failed to refresh session",
+    });
+  }
+});
+
 /**
  * POST /api/auth/logout
- * Sign out (client should discard token)
+ * Sign out of the current device (revokes its session)
  */
 app.post("/api/auth/logout", authenticate, async (req, res) => {
   try {
-    // In a stateless JWT system, logout is handled client-side
-    // But we can still acknowledge it
+    if (!req.session) {
+      return res.status(401).json({
+        error: "Not authenticated",
+        code: "UNAUTHORIZED",
+      });
+    }
+
+    if (req.session.sessionId) {
+      await revokeSession(req.session.memberId, req.session.sessionId, "logout");
+    }
+
     return res.json({
       message: "Logged out successfully",
     });
@@ -1288,6 +4064,104 @@ app.post("/api/auth/logout", authenticate, async (req, res) => {
   }
 });
 
+/**
+ * POST /api/auth/logout-all
+ * Sign out of every device, including this one
+ */
+app.post("/api/auth/logout-all", authenticate, async (req, res) => {
+  try {
+    if (!req.session) {
+      return res.status(401).json({
+        error: "Not authenticated",
+        code: "UNAUTHORIZED",
+      });
+    }
+
+    const revoked = await revokeAllSessions(req.session.memberId, "logout_all");
+
+    return res.json({
+      message: "Logged out of all devices",
+      revoked,
+    });
+  } catch (error: any) {
+    console.error("Error in logout-all:", error);
+    return res.status(500).json({
+      error: error.message || "Failed to logout",
+    });
+  }
+});
+
+/**
+ * GET /api/auth/sessions
+ * List the current member's active sessions (signed-in devices)
+ */
+app.get("/api/auth/sessions", authenticate, async (req, res) => {
+  try {
+    if (!req.session) {
+      return res.status(401).json({
+        error: "Not authenticated",
+        code: "UNAUTHORIZED",
+      });
+    }
+
+    const sessions = await getActiveSessions(req.session.memberId);
+
+    return res.json(
+      sessions.map((session) => ({
+        id: session.id,
+        userAgent: session.userAgent,
+        ipAddress: session.ipAddress,
+        createdAt: session.createdAt,
+        lastUsedAt: session.lastUsedAt,
+        expiresAt: session.expiresAt,
+        current: session.id === req.session?.sessionId,
+      }))
+    );
+  } catch (error: any) {
+    console.error("Error fetching sessions:", error);
+    return res.status(500).json({
+      error: error.message || "Failed to fetch sessions",
+    });
+  }
+});
+
+/**
+ * DELETE /api/auth/sessions/:id
+ * Sign out one of the current member's devices
+ */
+app.delete("/api/auth/sessions/:id", authenticate, async (req, res) => {
+  try {
+    if (!req.session) {
+      return res.status(401).json({
+        error: "Not authenticated",
+        code: "UNAUTHORIZED",
+      });
+    }
+
+    const revoked = await revokeSession(
+      req.session.memberId,
+      req.params.id,
+      "revoked_by_member"
+    );
+
+    if (!revoked) {
+      return res.status(404).json({
+        error: "Session not found",
+        code: "NOT_FOUND",
+      });
+    }
+
+    return res.json({
+      message: "Session revoked",
+    });
+  } catch (error: any) {
+    console.error("Error revoking session:", error);
+    return res.status(500).json({
+      error: error.message || "Failed to revoke session",
+    });
+  }
+});
+
 /**
  * POST /api/auth/verify-email
  * Verify email with token
@@ -1431,7 +4305,7 @@ app.post("/api/auth/reset-password", async (req, res) => {
 
 /**
  * POST /api/payments/create-intent
- * Create a payment intent for booking or membership
+ * Create a payment intent for a reservation or program enrollment, charging the server-side price
  */
 app.post("/api/payments/create-intent", authenticate, async (req, res) => {
   try {
@@ -1442,27 +4316,114 @@ app.post("/api/payments/create-intent", authenticate, async (req, res) => {
       });
     }
 
-    const { amount, currency, reservationId, description, metadata } = req.body;
+    const { reservationId, enrollmentId, description, metadata } = req.body;
+
+    // Program enrollments are charged the program's price
+    if (enrollmentId && !reservationId) {
+      const enrollment = await getEnrollment(enrollmentId);
+      const player = await getMember(enrollment.memberId);
+      if (!canBookFor(req.session, player)) {
+        return sendForbidden(res, "You can only pay for yourself or your linked players");
+      }
+      if (enrollment.status !== "enrolled") {
+        return res.status(400).json({
+          error:
+            enrollment.status === "waitlisted"
+              ? "Waitlisted players pay once they get a seat"
+              : "Enrollment has been cancelled",
+          code: "VALIDATION_ERROR",
+        });
+      }
+      if (enrollment.paymentStatus === "paid") {
+        return res.status(400).json({
+          error: "Enrollment is already paid",
+          code: "VALIDATION_ERROR",
+        });
+      }
+
+      const program = await getProgram(enrollment.programId);
+      const result = await createPaymentIntentService({
+        amount: program.price,
+        currency: "usd",
+        memberId: req.session.memberId,
+        onBehalfOfMemberId:
+          enrollment.memberId !== req.session.memberId ? enrollment.memberId : undefined,
+        enrollmentId,
+        description: description || `${program.name} enrollment`,
+        metadata,
+      });
+
+      return res.json({
+        clientSecret: result.clientSecret,
+        paymentIntentId: result.paymentIntentId,
+        amount: program.price,
+      });
+    }
+
+    // The amount always comes from the server-side quote for the reservation
+    if (!reservationId) {
+      return res.status(400).json({
+        error: "reservationId is required; court bookings are priced on the server",
+        code: "VALIDATION_ERROR",
+      });
+    }
+
+    const reservation = await reservationRepository.findById(reservationId);
+    if (!reservation) {
+      return res.status(404).json({ error: "Reservation not found" });
+    }
+    // Paying for someone else's reservation (parents for linked players)
+    // Doubles partners pay their own share when the fee is split
+    let onBehalfOfMemberId: string | undefined;
+    const isPayingPartner =
+      !!reservation.splitPayment && isPartnerOn(reservation, req.session.memberId);
+    if (
+      !isPayingPartner &&
+      reservation.memberId &&
+      reservation.memberId !== req.session.memberId
+    ) {
+      const member = await getMember(reservation.memberId);
+      if (!canBookFor(req.session, member)) {
+        return sendForbidden(res, "You can only pay for yourself or your linked players");
+      }
+      onBehalfOfMemberId = reservation.memberId;
+    }
 
-    if (!amount || amount <= 0) {
+    if (reservation.status === "cancelled") {
+      return res.status(400).json({
+        error: "Reservation has been cancelled",
+        code: "VALIDATION_ERROR",
+      });
+    }
+    if (reservation.paymentStatus === "paid") {
       return res.status(400).json({
-        error: "Amount is required and must be greater than 0",
+        error: "Reservation is already paid",
         code: "VALIDATION_ERROR",
       });
     }
 
+    const quote = await quoteReservation(reservation);
+    const amount = reservation.splitPayment
+      ? await getShareToPay(reservation, quote.total, req.session.memberId)
+      : quote.total;
+
     const result = await createPaymentIntentService({
-      amount: Math.round(amount * 100), // Convert dollars to cents
-      currency: currency || "usd",
+      amount,
+      currency: quote.currency,
       memberId: req.session.memberId,
+      onBehalfOfMemberId,
       reservationId,
-      description,
+      description:
+        description ||
+        `${quote.courtName} booking on ${quote.date} ${quote.timeSlot.start}-${quote.timeSlot.end}`,
       metadata,
     });
 
     return res.json({
       clientSecret: result.clientSecret,
       paymentIntentId: result.paymentIntentId,
+      amount,
+      quote,
     });
   } catch (error: any) {
     console.error("Error creating payment intent:", error);
@@ -1488,6 +4449,20 @@ app.post("/api/payments/create-intent", authenticate, async (req, res) => {
       });
     }
 
+    if (error instanceof MemberNotFoundError || error instanceof NotFoundError) {
+      return res.status(404).json({
+        error: error.message,
+        code: error.code,
+      });
+    }
+
+    if (error instanceof ValidationError) {
+      return res.status(400).json({
+        error: error.message,
+        code: error.code,
+      });
+    }
+
     return res.status(500).json({
       error: error.message || "Failed to create payment intent",
     });
@@ -1521,6 +4496,7 @@ app.post("/api/payments/confirm", authenticate, async (req, res) => {
       paymentMethodId,
       reservationId,
     });
+    await syncEnrollmentPayment(payment);
 
     return res.json(payment);
   } catch (error: any) {
@@ -1693,53 +4669,40 @@ app.get("/api/payments/:id/invoice", authenticate, async (req, res) => {
 });
 
 /**
- * POST /api/payments/membership
- * Process membership payment
+ * POST /api/payments/:id/refund
+ * Process a refund (ADMIN ONLY)
+ * Members are refunded by cancelling, under the cancellation policy
  */
-app.post("/api/payments/membership", authenticate, async (req, res) => {
+app.post("/api/payments/:id/refund", authenticate, requireRole("admin"), async (req, res) => {
   try {
-    if (!req.session) {
-      return res.status(401).json({
-        error: "Not authenticated",
-        code: "UNAUTHORIZED",
-      });
-    }
-
-    const { amount, currency, description } = req.body;
+    const { id } = req.params;
+    const { amount, reason } = req.body;
 
-    if (!amount || amount <= 0) {
-      return res.status(400).json({
-        error: "Amount is required and must be greater than 0",
-        code: "VALIDATION_ERROR",
-      });
-    }
+    // Convert amount from dollars to cents if provided
+    const refundAmount = amount ? Math.round(amount * 100) : undefined;
 
-    const result = await createPaymentIntentService({
-      amount: Math.round(amount * 100), // Convert dollars to cents
-      currency: currency || "usd",
-      memberId: req.session.memberId,
-      description: description || "Membership Fee",
-      metadata: {
-        type: "membership",
+    const refunded = await processRefund(
+      {
+        paymentId: id,
+        amount: refundAmount,
+        reason,
       },
-    });
+      getAuditContext(req)
+    );
 
-    return res.json({
-      clientSecret: result.clientSecret,
-      paymentIntentId: result.paymentIntentId,
-    });
+    return res.json(refunded);
   } catch (error: any) {
-    console.error("Error processing membership payment:", error);
+    console.error("Error processing refund:", error);
 
-    if (error instanceof PaymentIntentError) {
+    if (error instanceof RefundError) {
       return res.status(400).json({
         error: error.message,
         code: error.code,
       });
     }
 
-    if (error instanceof InvalidAmountError) {
-      return res.status(400).json({
+    if (error instanceof PaymentNotFoundError) {
+      return res.status(404).json({
         error: error.message,
         code: error.code,
       });
@@ -1753,75 +4716,117 @@ app.post("/api/payments/membership", authenticate, async (req, res) => {
     }
 
     return res.status(500).json({
-      error: error.message || "Failed to process membership payment",
+      error: error.message || "Failed to process refund",
     });
   }
 });
 
+// ==================== Audit Log Endpoints ====================
+
+const AUDIT_ENTITY_TYPES: AuditEntityType[] = ["reservation", "member", "payment"];
+const AUDIT_ACTIONS: AuditAction[] = [
+  "reservation.create",
+  "reservation.update",
+  "reservation.cancel",
+  "member.create",
+  "member.update",
+  "member.deactivate",
+  "payment.refund",
+];
+
 /**
- * POST /api/payments/:id/refund
- * Process a refund
+ * Add the actor's current name to each entry, for display
+ */
+async function attachActorNames(entries: AuditEntry[]) {
+  const names = new Map<string, string | undefined>();
+  for (const actorId of new Set(entries.map((e) => e.actorId).filter(Boolean) as string[])) {
+    try {
+      const actor = await getMember(actorId);
+      names.set(actorId, `${actor.firstName} ${actor.lastName}`);
+    } catch (error) {
+      if (!(error instanceof MemberNotFoundError)) {
+        throw error;
+      }
+    }
+  }
+  return entries.map((e) => ({ ...e, actorName: e.actorId ? names.get(e.actorId) : undefined }));
+}
+
+/**
+ * GET /api/admin/audit?entityType=&entityId=&actorId=&action=
+ * Who changed what, newest first, with each changed field's before and after values (ADMIN ONLY)
  */
-app.post("/api/payments/:id/refund", authenticate, async (req, res) => {
+app.get("/api/admin/audit", authenticate, requireRole("admin"), async (req, res) => {
   try {
-    if (!req.session) {
-      return res.status(401).json({
-        error: "Not authenticated",
-        code: "UNAUTHORIZED",
+    const entityType = req.query.entityType ? String(req.query.entityType) : undefined;
+    if (entityType && !AUDIT_ENTITY_TYPES.includes(entityType as AuditEntityType)) {
+      return res.status(400).json({
+        error: `entityType must be one of: ${AUDIT_ENTITY_TYPES.join(", ")}`,
+        code: "VALIDATION_ERROR",
       });
     }
 
-    const { id } = req.params;
-    const { amount, reason } = req.body;
-
-    // Get payment to verify ownership
-    const payment = await getPayment(id);
-
-    // Verify payment belongs to current member or user is admin
-    if (payment.memberId !== req.session.memberId && req.session.role !== "admin") {
-      return res.status(403).json({
-        error: "Access denied",
-        code: "FORBIDDEN",
+    const action = req.query.action ? String(req.query.action) : undefined;
+    if (action && !AUDIT_ACTIONS.includes(action as AuditAction)) {
+      return res.status(400).json({
+        error: `action must be one of: ${AUDIT_ACTIONS.join(", ")}`,
+        code: "VALIDATION_ERROR",
       });
     }
 
-    // Convert amount from dollars to cents if provided
-    const refundAmount = amount ? Math.round(amount * 100) : undefined;
-
-    const refunded = await processRefund({
-      paymentId: id,
-      amount: refundAmount,
-      reason,
+    const entries = await listAuditEntries({
+      entityType: entityType as AuditEntityType | undefined,
+      entityId: req.query.entityId ? String(req.query.entityId) : undefined,
+      actorId: req.query.actorId ? String(req.query.actorId) : undefined,
+      action: action as AuditAction | undefined,
     });
-
-    return res.json(refunded);
+    return res.json(await attachActorNames(entries));
   } catch (error: any) {
-    console.error("Error processing refund:", error);
+    console.error("Error listing audit entries:", error);
+    return res.status(500).json({ error: error.message || "Failed to list audit entries" });
+  }
+});
 
-    if (error instanceof RefundError) {
+// ==================== Email Outbox Endpoints ====================
+
+/**
+ * GET /api/admin/email/outbox
+ * List queued, sent and failed emails; filter with ?status= (ADMIN ONLY)
+ */
+app.get("/api/admin/email/outbox", authenticate, requireRole("admin"), async (req, res) => {
+  try {
+    const status = normalizeQueryParam(req.query.status);
+    if (status && !["pending", "sent", "failed"].includes(status)) {
       return res.status(400).json({
-        error: error.message,
-        code: error.code,
+        error: "status must be pending, sent or failed",
+        code: "VALIDATION_ERROR",
       });
     }
 
-    if (error instanceof PaymentNotFoundError) {
-      return res.status(404).json({
-        error: error.message,
-        code: error.code,
-      });
-    }
+    const messages = await getOutboxMessages((status || undefined) as OutboxStatus | undefined);
+    return res.json(messages);
+  } catch (error: any) {
+    console.error("Error fetching email outbox:", error);
+    return res.status(500).json({ error: error.message || "Failed to fetch email outbox" });
+  }
+});
 
-    if (error instanceof StripeError) {
-      return res.status(500).json({
-        error: error.message,
-        code: error.code,
-      });
+/**
+ * POST /api/admin/email/outbox/:id/retry
+ * Retry delivery of a pending or failed email now (ADMIN ONLY)
+ */
+app.post("/api/admin/email/outbox/:id/retry", authenticate, requireRole("admin"), async (req, res) => {
+  try {
+    const message = await retryOutboxMessage(req.params.id);
+    return res.json(message);
+  } catch (error: any) {
+    console.error("Error retrying email:", error);
+
+    if (error instanceof OutboxMessageNotFoundError) {
+      return res.status(404).json({ error: error.message, code: error.code });
     }
 
-    return res.status(500).json({
-      error: error.message || "Failed to process refund",
-    });
+    return res.status(500).json({ error: error.message || "Failed to retry email" });
   }
 });
 
@@ -1871,6 +4876,7 @@ app.get("/api/journal/entries", authenticate, async (req, res) => {
     // Store name-based search queries for filtering after enrichment
     const playerNameQuery = req.query.playerName ? String(req.query.playerName).trim() : null;
     const coachNameQuery = req.query.coachName ? String(req.query.coachName).trim() : null;
+    let childIds: string[] | null = null;
 
     // Players can only see their own entries
     if (memberRole === "player") {
@@ -1884,6 +4890,10 @@ app.get("/api/journal/entries", authenticate, async (req, res) => {
         filter.coachId = member.id;
       }
       // If playerName is provided, we'll filter after enrichment
+    } else if (memberRole === "parent") {
+      // Parents can only see entries for their linked players
+      const children = await getChildren(member.id);
+      childIds = children.map((child) => child.id);
     }
     // Admins can see all entries
 
@@ -1907,7 +4917,16 @@ app.get("/api/journal/entries", authenticate, async (req, res) => {
       filter.areaWorkedOn = String(req.query.areaWorkedOn);
     }
 
-    const entries = await getJournalEntries(filter);
+    // Coaches see their own lesson drafts, admins see all of them
+    filter.includeDrafts = memberRole === "coach" || memberRole === "admin";
+
+    let entries = await getJournalEntries(filter);
+    if (childIds) {
+      entries = entries.filter((entry) => childIds!.includes(entry.playerId));
+    }
+    if (memberRole === "coach") {
+      entries = entries.filter((entry) => !entry.draft || entry.coachId === member.id);
+    }
 
     // Enrich entries with coach/player names
     let enriched = await Promise.all(
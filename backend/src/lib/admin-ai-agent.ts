@@ -1,4 +1,3 @@
-import { GoogleGenerativeAI, SchemaType } from "@google/generative-ai";
 import {
   getAllReservations,
   getReservationsByDate,
@@ -6,11 +5,17 @@ import {
   getCourt,
   getAllCourts,
 } from "./reservations";
-import { reservationRepository } from "./repositories/file-reservation-repository";
-import { ConflictError } from "./errors/reservation-errors";
-import { Reservation } from "../types/reservation";
-
-const genAI = new GoogleGenerativeAI(process.env.GOOGLE_API_KEY || "");
+import { reservationRepository } from "./repositories";
+import { AIAction, AIActionType } from "../types/ai-action";
+import { LLMMessage, ToolCall, ToolDeclaration } from "../types/llm";
+import { ChatStream, runToolLoop, toHistory } from "./ai/tool-loop";
+import { LLMAbortedError } from "./errors/llm-errors";
+import {
+  checkMoveConflict,
+  ConflictInfo,
+  reservationSnapshot,
+} from "./ai/agent-actions";
+import { proposeAction, toPendingToolResult } from "./ai-actions";
 
 const ADMIN_BOOKING_CONTEXT = `
 You are an AI assistant helping tennis club administrators manage court reservations at Providence Tennis Academy.
@@ -36,13 +41,15 @@ Important rules:
   * Choose a different time
   * Keep the existing booking unchanged
 - When moving a booking, be explicit about what's changing
-- Confirm all actions with details (old time → new time)
+- Moving, cancelling and overriding don't happen right away: the tool returns a pending action,
+  and the admin confirms or rejects it with the buttons shown under your reply.
+  Say what will change (old time → new time) and ask them to confirm. Never say it's done.
 - Be concise but thorough
 
 Response style:
 - Be professional and efficient
 - Use clear, structured responses
-- Always confirm what action was taken
+- Always say which changes are waiting for confirmation
 - Highlight any conflicts or issues
 
 Remember: You are assisting ADMINS ONLY. They have full authority to override bookings.
@@ -54,276 +61,225 @@ export interface AdminChatMessage {
   timestamp?: Date;
 }
 
-interface ConflictInfo {
-  hasConflict: boolean;
-  conflictingBooking?: Reservation;
-  message?: string;
-}
-
-type ToolCall = {
-  name: string;
-  args?: Record<string, any>;
-};
-
 /**
- * Check if moving a reservation would cause a conflict
+ * Progress shown while a streamed reply runs each tool
  */
-async function checkMoveConflict(
-  reservationId: string,
-  newDate: string,
-  newTimeStart: string,
-  newTimeEnd: string,
-  newCourtId: string
-): Promise<ConflictInfo> {
-  const allReservations = await getAllReservations();
-  
-  const conflict = allReservations.find((res) => {
-    // Skip the reservation we're moving
-    if (res.id === reservationId) return false;
-    // Skip cancelled
-    if (res.status === "cancelled") return false;
-    // Check same date and court
-    if (res.date !== newDate || res.courtId !== newCourtId) return false;
-    // Check time overlap
-    return res.timeSlot.start === newTimeStart;
-  });
-
-  if (conflict) {
-    const memberInfo = conflict.member
-      ? `${conflict.member.firstName} ${conflict.member.lastName}`
-      : conflict.guestName || conflict.customerName || "Unknown";
-      
-    return {
-      hasConflict: true,
-      conflictingBooking: conflict,
-      message: `⚠️ CONFLICT: Court ${conflict.courtName} is already booked on ${conflict.date} at ${conflict.timeSlot.start}-${conflict.timeSlot.end} by ${memberInfo}. Booking ID: ${conflict.id}`,
-    };
-  }
-
-  return { hasConflict: false };
-}
+const TOOL_LABELS: Record<string, string> = {
+  searchReservations: "Searching bookings",
+  getReservationDetails: "Looking up the booking",
+  checkAvailability: "Checking availability",
+  moveReservation: "Preparing the move",
+  cancelReservation: "Preparing the cancellation",
+  overrideConflictAndMove: "Preparing the override",
+  listAllCourts: "Listing courts",
+};
 
 /**
  * Admin AI Agent with booking management tools
+ * @param threadHistory Stored thread transcript; replaces conversationHistory when given
+ * @param stream Reports the reply and tool progress as they happen
+ * @throws LLMAbortedError if the stream is cancelled
  */
 export async function chatWithAdminAgent(
   message: string,
   conversationHistory: AdminChatMessage[] = [],
-  adminMemberId?: string
+  adminMemberId?: string,
+  threadHistory?: LLMMessage[],
+  stream?: ChatStream
 ): Promise<{
   response: string;
   needsConfirmation?: boolean;
   conflictInfo?: ConflictInfo;
+  pendingActions: AIAction[];
+  messages: LLMMessage[];
 }> {
   try {
-    const modelName = process.env.GOOGLE_GENAI_MODEL || "gemini-3-flash-preview";
+    const pendingActions: AIAction[] = [];
+
+    /**
+     * Hold a change for the admin to confirm; tells the model it is pending
+     */
+    const propose = async (
+      type: AIActionType,
+      args: Record<string, any>,
+      summary: string,
+      changes: AIAction["changes"]
+    ) => {
+      if (!adminMemberId) {
+        return { success: false, error: "Only a signed-in admin can make this change" };
+      }
+      const action = await proposeAction({
+        memberId: adminMemberId,
+        agent: "admin",
+        type,
+        args,
+        summary,
+        changes,
+      });
+      pendingActions.push(action);
+      return toPendingToolResult(action);
+    };
 
-    const tools = [
+    const tools: ToolDeclaration[] = [
       {
-        functionDeclarations: [
-          {
-            name: "searchReservations",
-            description: "Search for reservations by date, court, member name, or booking ID",
-            parameters: {
-              type: SchemaType.OBJECT,
-              properties: {
-                date: {
-                  type: SchemaType.STRING,
-                  description: "Date to search (YYYY-MM-DD format). Optional.",
-                },
-                courtId: {
-                  type: SchemaType.STRING,
-                  description: "Court ID to filter by. Optional.",
-                },
-                searchTerm: {
-                  type: SchemaType.STRING,
-                  description: "Search term for member name or booking ID. Optional.",
-                },
-              },
+        name: "searchReservations",
+        description: "Search for reservations by date, court, member name, or booking ID",
+        parameters: {
+          type: "object",
+          properties: {
+            date: {
+              type: "string",
+              description: "Date to search (YYYY-MM-DD format). Optional.",
             },
-          },
-          {
-            name: "getReservationDetails",
-            description: "Get full details of a specific reservation by ID",
-            parameters: {
-              type: SchemaType.OBJECT,
-              properties: {
-                reservationId: {
-                  type: SchemaType.STRING,
-                  description: "The reservation ID to retrieve",
-                },
-              },
-              required: ["reservationId"],
+            courtId: {
+              type: "string",
+              description: "Court ID to filter by. Optional.",
+            },
+            searchTerm: {
+              type: "string",
+              description: "Search term for member name or booking ID. Optional.",
             },
           },
-          {
-            name: "checkAvailability",
-            description: "Check court availability for a specific date",
-            parameters: {
-              type: SchemaType.OBJECT,
-              properties: {
-                date: {
-                  type: SchemaType.STRING,
-                  description: "Date to check availability (YYYY-MM-DD)",
-                },
-                courtId: {
-                  type: SchemaType.STRING,
-                  description: "Optional: specific court ID to check",
-                },
-              },
-              required: ["date"],
+        },
+      },
+      {
+        name: "getReservationDetails",
+        description: "Get full details of a specific reservation by ID",
+        parameters: {
+          type: "object",
+          properties: {
+            reservationId: {
+              type: "string",
+              description: "The reservation ID to retrieve",
             },
           },
-          {
-            name: "moveReservation",
-            description: "Move/reschedule a reservation to a new date, time, or court. ALWAYS check for conflicts first.",
-            parameters: {
-              type: SchemaType.OBJECT,
-              properties: {
-                reservationId: {
-                  type: SchemaType.STRING,
-                  description: "The ID of the reservation to move",
-                },
-                newDate: {
-                  type: SchemaType.STRING,
-                  description: "New date (YYYY-MM-DD format). Optional if not changing date.",
-                },
-                newTimeStart: {
-                  type: SchemaType.STRING,
-                  description: "New start time (HH:mm format). Optional if not changing time.",
-                },
-                newTimeEnd: {
-                  type: SchemaType.STRING,
-                  description: "New end time (HH:mm format). Optional if not changing time.",
-                },
-                newCourtId: {
-                  type: SchemaType.STRING,
-                  description: "New court ID. Optional if not changing court.",
-                },
-                notes: {
-                  type: SchemaType.STRING,
-                  description: "Optional notes about the change",
-                },
-              },
-              required: ["reservationId"],
+          required: ["reservationId"],
+        },
+      },
+      {
+        name: "checkAvailability",
+        description: "Check court availability for a specific date",
+        parameters: {
+          type: "object",
+          properties: {
+            date: {
+              type: "string",
+              description: "Date to check availability (YYYY-MM-DD)",
+            },
+            courtId: {
+              type: "string",
+              description: "Optional: specific court ID to check",
             },
           },
-          {
-            name: "cancelReservation",
-            description: "Cancel a reservation permanently",
-            parameters: {
-              type: SchemaType.OBJECT,
-              properties: {
-                reservationId: {
-                  type: SchemaType.STRING,
-                  description: "The ID of the reservation to cancel",
-                },
-                reason: {
-                  type: SchemaType.STRING,
-                  description: "Optional reason for cancellation",
-                },
-              },
-              required: ["reservationId"],
+          required: ["date"],
+        },
+      },
+      {
+        name: "moveReservation",
+        description: "Move/reschedule a reservation to a new date, time, or court. ALWAYS check for conflicts first. Returns a pending action the admin must confirm.",
+        parameters: {
+          type: "object",
+          properties: {
+            reservationId: {
+              type: "string",
+              description: "The ID of the reservation to move",
+            },
+            newDate: {
+              type: "string",
+              description: "New date (YYYY-MM-DD format). Optional if not changing date.",
+            },
+            newTimeStart: {
+              type: "string",
+              description: "New start time (HH:mm format). Optional if not changing time.",
+            },
+            newTimeEnd: {
+              type: "string",
+              description: "New end time (HH:mm format). Optional if not changing time.",
+            },
+            newCourtId: {
+              type: "string",
+              description: "New court ID. Optional if not changing court.",
+            },
+            notes: {
+              type: "string",
+              description: "Optional notes about the change",
             },
           },
-          {
-            name: "overrideConflictAndMove",
-            description: "Move a reservation even if there's a conflict (admin override). This will CANCEL the conflicting booking.",
-            parameters: {
-              type: SchemaType.OBJECT,
-              properties: {
-                reservationId: {
-                  type: SchemaType.STRING,
-                  description: "The ID of the reservation to move",
-                },
-                conflictingReservationId: {
-                  type: SchemaType.STRING,
-                  description: "The ID of the conflicting reservation to cancel",
-                },
-                newDate: {
-                  type: SchemaType.STRING,
-                  description: "New date (YYYY-MM-DD)",
-                },
-                newTimeStart: {
-                  type: SchemaType.STRING,
-                  description: "New start time (HH:mm)",
-                },
-                newTimeEnd: {
-                  type: SchemaType.STRING,
-                  description: "New end time (HH:mm)",
-                },
-                newCourtId: {
-                  type: SchemaType.STRING,
-                  description: "New court ID",
-                },
-              },
-              required: [
-                "reservationId",
-                "conflictingReservationId",
-                "newDate",
-                "newTimeStart",
-                "newTimeEnd",
-                "newCourtId",
-              ],
+          required: ["reservationId"],
+        },
+      },
+      {
+        name: "cancelReservation",
+        description: "Cancel a reservation permanently. Returns a pending action the admin must confirm.",
+        parameters: {
+          type: "object",
+          properties: {
+            reservationId: {
+              type: "string",
+              description: "The ID of the reservation to cancel",
+            },
+            reason: {
+              type: "string",
+              description: "Optional reason for cancellation",
             },
           },
-          {
-            name: "listAllCourts",
-            description: "Get a list of all available courts",
-            parameters: {
-              type: SchemaType.OBJECT,
-              properties: {},
+          required: ["reservationId"],
+        },
+      },
+      {
+        name: "overrideConflictAndMove",
+        description: "Move a reservation even if there's a conflict (admin override). This will CANCEL the conflicting booking. Returns a pending action the admin must confirm.",
+        parameters: {
+          type: "object",
+          properties: {
+            reservationId: {
+              type: "string",
+              description: "The ID of the reservation to move",
+            },
+            conflictingReservationId: {
+              type: "string",
+              description: "The ID of the conflicting reservation to cancel",
+            },
+            newDate: {
+              type: "string",
+              description: "New date (YYYY-MM-DD)",
+            },
+            newTimeStart: {
+              type: "string",
+              description: "New start time (HH:mm)",
+            },
+            newTimeEnd: {
+              type: "string",
+              description: "New end time (HH:mm)",
+            },
+            newCourtId: {
+              type: "string",
+              description: "New court ID",
             },
           },
-        ],
+          required: [
+            "reservationId",
+            "conflictingReservationId",
+            "newDate",
+            "newTimeStart",
+            "newTimeEnd",
+            "newCourtId",
+          ],
+        },
       },
-    ] as any;
-
-    const model = genAI.getGenerativeModel({
-      model: modelName,
-      tools,
-    });
-
-    // Filter and format history
-    let filteredHistory = conversationHistory.slice(-15); // Keep more context for admin
-    if (filteredHistory.length > 0 && filteredHistory[0].role === "assistant") {
-      filteredHistory = filteredHistory.slice(1);
-    }
-
-    const history = filteredHistory.map((msg) => ({
-      role: msg.role === "user" ? "user" : "model",
-      parts: [{ text: msg.content }],
-    }));
-
-    const historyWithContext = [
       {
-        role: "user",
-        parts: [{ text: ADMIN_BOOKING_CONTEXT }],
+        name: "listAllCourts",
+        description: "Get a list of all available courts",
+        parameters: {
+          type: "object",
+          properties: {},
+        },
       },
-      ...history,
     ];
 
-    const chat = model.startChat({
-      history: historyWithContext,
-      toolConfig: {
-        functionCallingConfig: { mode: "AUTO" },
-      } as any,
-    });
-
     // Tool handler
-    const handleFunctionCall = async (call: ToolCall) => {
-      let args: Record<string, any> = {};
-      if (typeof call.args === "string") {
-        try {
-          args = JSON.parse(call.args);
-        } catch {
-          args = {};
-        }
-      } else if (call.args) {
-        args = call.args;
-      }
-
-      console.log(`[Admin AI] Tool called: ${call.name}`, args);
+    const handleFunctionCall = async (call: ToolCall): Promise<Record<string, any>> => {
+      const args = call.args;
 
       // SEARCH RESERVATIONS
       if (call.name === "searchReservations") {
@@ -385,7 +341,7 @@ export async function chatWithAdminAgent(
       // GET RESERVATION DETAILS
       if (call.name === "getReservationDetails") {
         const reservationId = String(args.reservationId || "");
-        const reservation = await reservationRepository.getById(reservationId);
+        const reservation = await reservationRepository.findById(reservationId);
 
         if (!reservation) {
           return { success: false, error: "Reservation not found" };
@@ -441,7 +397,7 @@ export async function chatWithAdminAgent(
       // MOVE RESERVATION
       if (call.name === "moveReservation") {
         const reservationId = String(args.reservationId || "");
-        const reservation = await reservationRepository.getById(reservationId);
+        const reservation = await reservationRepository.findById(reservationId);
 
         if (!reservation) {
           return { success: false, error: "Reservation not found" };
@@ -485,63 +441,51 @@ export async function chatWithAdminAgent(
           };
         }
 
-        // No conflict, proceed with move
+        // No conflict, hold the move for confirmation
         const court = await getCourt(newCourtId);
         if (!court) {
           return { success: false, error: "Court not found" };
         }
 
-        const updated = await reservationRepository.update(reservationId, {
+        const before = reservationSnapshot(reservation);
+        const after = {
+          ...before,
+          court: court.name,
           date: newDate,
-          courtId: newCourtId,
-          courtName: court.name,
-          timeSlot: { start: newTimeStart, end: newTimeEnd },
-          notes,
-        });
-
-        return {
-          success: true,
-          moved: true,
-          reservation: {
-            id: updated.id,
-            from: {
-              court: reservation.courtName,
-              date: reservation.date,
-              time: `${reservation.timeSlot.start}-${reservation.timeSlot.end}`,
-            },
-            to: {
-              court: updated.courtName,
-              date: updated.date,
-              time: `${updated.timeSlot.start}-${updated.timeSlot.end}`,
-            },
-          },
+          time: `${newTimeStart}-${newTimeEnd}`,
         };
+
+        return propose(
+          "moveReservation",
+          { reservationId, newDate, newTimeStart, newTimeEnd, newCourtId, notes },
+          `Move ${before.member}'s booking from ${before.court} on ${before.date} ${before.time} to ${after.court} on ${after.date} ${after.time}`,
+          [{ entity: "reservation", entityId: reservationId, before, after }]
+        );
       }
 
       // CANCEL RESERVATION
       if (call.name === "cancelReservation") {
         const reservationId = String(args.reservationId || "");
-        const reservation = await reservationRepository.getById(reservationId);
+        const reservation = await reservationRepository.findById(reservationId);
 
         if (!reservation) {
           return { success: false, error: "Reservation not found" };
         }
 
-        await reservationRepository.update(reservationId, { status: "cancelled" });
-
-        return {
-          success: true,
-          cancelled: true,
-          reservation: {
-            id: reservation.id,
-            court: reservation.courtName,
-            date: reservation.date,
-            time: `${reservation.timeSlot.start}-${reservation.timeSlot.end}`,
-            member: reservation.member
-              ? `${reservation.member.firstName} ${reservation.member.lastName}`
-              : reservation.guestName || reservation.customerName,
-          },
-        };
+        const before = reservationSnapshot(reservation);
+        return propose(
+          "cancelReservation",
+          { reservationId },
+          `Cancel ${before.member}'s booking on ${before.court}, ${before.date} ${before.time}`,
+          [
+            {
+              entity: "reservation",
+              entityId: reservationId,
+              before,
+              after: { ...before, status: "cancelled" },
+            },
+          ]
+        );
       }
 
       // OVERRIDE CONFLICT AND MOVE
@@ -554,49 +498,48 @@ export async function chatWithAdminAgent(
         const newCourtId = String(args.newCourtId || "");
 
         // Get both reservations
-        const reservation = await reservationRepository.getById(reservationId);
-        const conflicting = await reservationRepository.getById(conflictingId);
+        const reservation = await reservationRepository.findById(reservationId);
+        const conflicting = await reservationRepository.findById(conflictingId);
 
         if (!reservation || !conflicting) {
           return { success: false, error: "One or both reservations not found" };
         }
 
-        // Cancel the conflicting reservation
-        await reservationRepository.update(conflictingId, { status: "cancelled" });
-
-        // Move the target reservation
         const court = await getCourt(newCourtId);
         if (!court) {
           return { success: false, error: "Court not found" };
         }
 
-        const updated = await reservationRepository.update(reservationId, {
+        const moving = reservationSnapshot(reservation);
+        const cancelling = reservationSnapshot(conflicting);
+        const moved = {
+          ...moving,
+          court: court.name,
           date: newDate,
-          courtId: newCourtId,
-          courtName: court.name,
-          timeSlot: { start: newTimeStart, end: newTimeEnd },
-          notes: reservation.notes + " [Admin override]",
-        });
+          time: `${newTimeStart}-${newTimeEnd}`,
+        };
 
-        return {
-          success: true,
-          override: true,
-          cancelled: {
-            id: conflicting.id,
-            member: conflicting.member
-              ? `${conflicting.member.firstName} ${conflicting.member.lastName}`
-              : conflicting.guestName || conflicting.customerName,
-            court: conflicting.courtName,
-            date: conflicting.date,
-            time: `${conflicting.timeSlot.start}-${conflicting.timeSlot.end}`,
-          },
-          moved: {
-            id: updated.id,
-            court: updated.courtName,
-            date: updated.date,
-            time: `${updated.timeSlot.start}-${updated.timeSlot.end}`,
+        return propose(
+          "overrideConflictAndMove",
+          {
+            reservationId,
+            conflictingReservationId: conflictingId,
+            newDate,
+            newTimeStart,
+            newTimeEnd,
+            newCourtId,
           },
-        };
+          `Cancel ${cancelling.member}'s booking and move ${moving.member}'s booking to ${moved.court} on ${moved.date} ${moved.time}`,
+          [
+            {
+              entity: "reservation",
+              entityId: conflictingId,
+              before: cancelling,
+              after: { ...cancelling, status: "cancelled" },
+            },
+            { entity: "reservation", entityId: reservationId, before: moving, after: moved },
+          ]
+        );
       }
 
       // LIST ALL COURTS
@@ -616,58 +559,42 @@ export async function chatWithAdminAgent(
       return { success: false, error: "Unknown function call" };
     };
 
-    // Extract function calls from response
-    const extractFunctionCalls = (response: any): ToolCall[] => {
-      if (typeof response.functionCalls === "function") {
-        return response.functionCalls() || [];
-      }
-
-      const parts = response.candidates?.[0]?.content?.parts || [];
-      return parts
-        .filter((part: any) => part.functionCall)
-        .map((part: any) => part.functionCall);
-    };
-
     // Send message and handle tool calls
-    let result = await chat.sendMessage(message);
-    let response = await result.response;
+    const history = threadHistory || toHistory(conversationHistory, 15); // Keep more context for admin
+    const result = await runToolLoop({
+      system: ADMIN_BOOKING_CONTEXT,
+      history,
+      message,
+      tools,
+      handleToolCall: handleFunctionCall,
+      logPrefix: "[Admin AI]",
+      stream,
+      toolLabels: TOOL_LABELS,
+    });
 
-    let toolCalls = extractFunctionCalls(response);
+    // Report the last conflict a move ran into
     let conflictDetected: ConflictInfo | undefined;
-
-    while (toolCalls.length > 0) {
-      for (const call of toolCalls) {
-        const toolResult = await handleFunctionCall(call);
-        
-        // Check if we hit a conflict
-        if (toolResult.conflict) {
-          conflictDetected = {
-            hasConflict: true,
-            conflictingBooking: toolResult.conflictingBooking,
-            message: toolResult.conflictMessage,
-          };
-        }
-
-        result = await chat.sendMessage([
-          {
-            functionResponse: {
-              name: call.name,
-              response: toolResult,
-            },
-          },
-        ]);
-        response = await result.response;
+    for (const { response: toolResult } of result.toolResults) {
+      if (toolResult.conflict) {
+        conflictDetected = {
+          hasConflict: true,
+          conflictingBooking: toolResult.conflictingBooking,
+          message: toolResult.conflictMessage,
+        };
       }
-
-      toolCalls = extractFunctionCalls(response);
     }
 
     return {
-      response: response.text(),
+      response: result.text,
       needsConfirmation: conflictDetected?.hasConflict || false,
       conflictInfo: conflictDetected,
+      pendingActions,
+      messages: result.messages.slice(history.length),
     };
   } catch (error: any) {
+    if (error instanceof LLMAbortedError) {
+      throw error;
+    }
     console.error("Error in admin AI agent:", error);
     throw new Error(error.message || "Failed to get response from admin AI agent");
   }
@@ -0,0 +1,222 @@
+/**
+ * Business logic layer for AI agent actions that need an admin's confirmation
+ *
+ * Destructive agent tools (moving, cancelling and overriding bookings,
+ * creating players) don't run when the model calls them. They propose an
+ * action with a before/after preview, which the admin who was chatting
+ * confirms or rejects. Undecided actions expire after AI_ACTION_TTL_MINUTES.
+ * Decided actions are kept as the record of who approved what, and when.
+ */
+
+import {
+  AIAction,
+  AIActionChange,
+  AIActionStatus,
+  AIActionType,
+} from "../types/ai-action";
+import { aiActionRepository } from "./repositories/file-ai-action-repository";
+import {
+  AIActionFailedError,
+  AIActionNotFoundError,
+  AIActionStateError,
+} from "./errors/ai-action-errors";
+import { executeAgentAction } from "./ai/agent-actions";
+import { appendThreadMessage } from "./ai-threads";
+
+export const DEFAULT_ACTION_TTL_MINUTES = 15;
+
+export interface ActionProposal {
+  memberId: string;
+  agent: AIAction["agent"];
+  type: AIActionType;
+  args: Record<string, any>;
+  summary: string;
+  changes: AIActionChange[];
+}
+
+export interface ActionFilter {
+  memberId?: string;
+  status?: AIActionStatus;
+}
+
+function getTtlMinutes(): number {
+  const minutes = Number(process.env.AI_ACTION_TTL_MINUTES);
+  return Number.isFinite(minutes) && minutes > 0 ? minutes : DEFAULT_ACTION_TTL_MINUTES;
+}
+
+/**
+ * Mark a pending action expired once its time is up
+ */
+async function expireIfDue(action: AIAction, now: Date): Promise<AIAction> {
+  if (action.status !== "pending" || new Date(action.expiresAt) > now) {
+    return action;
+  }
+  return (await aiActionRepository.update(action.id, { status: "expired" })) || action;
+}
+
+/**
+ * @throws AIActionNotFoundError if the action is missing or was proposed to another admin
+ * @throws AIActionStateError if the action was already decided or has expired
+ */
+async function getOwnPendingAction(memberId: string, id: string, now: Date): Promise<AIAction> {
+  const found = await aiActionRepository.findById(id);
+  if (!found || found.memberId !== memberId) {
+    throw new AIActionNotFoundError();
+  }
+
+  const action = await expireIfDue(found, now);
+  if (action.status === "expired") {
+    throw new AIActionStateError("This action expired. Ask the assistant again.");
+  }
+  if (action.status !== "pending") {
+    throw new AIActionStateError(`This action was already ${action.status}`);
+  }
+  return action;
+}
+
+/**
+ * Note the outcome in the conversation the action came from, so the
+ * agent knows about it on the next turn
+ */
+async function noteOutcome(action: AIAction, content: string, now: Date): Promise<void> {
+  if (!action.threadId) {
+    return;
+  }
+  try {
+    await appendThreadMessage(action.memberId, action.threadId, content, now);
+  } catch (error) {
+    // The conversation may have been deleted; the action record stands on its own
+    console.warn(`[AI Actions] Could not note outcome of ${action.id}:`, error);
+  }
+}
+
+/**
+ * Store an action for the admin to confirm
+ */
+export async function proposeAction(
+  proposal: ActionProposal,
+  now: Date = new Date()
+): Promise<AIAction> {
+  return aiActionRepository.create({
+    ...proposal,
+    status: "pending",
+    createdAt: now.toISOString(),
+    expiresAt: new Date(now.getTime() + getTtlMinutes() * 60 * 1000).toISOString(),
+  });
+}
+
+/**
+ * What the model is told after proposing an action
+ */
+export function toPendingToolResult(action: AIAction): Record<string, any> {
+  return {
+    success: true,
+    pendingConfirmation: true,
+    actionId: action.id,
+    summary: action.summary,
+    changes: action.changes,
+    expiresAt: action.expiresAt,
+    message:
+      "Nothing has changed yet. The admin must confirm this action in the chat before it runs.",
+  };
+}
+
+/**
+ * List actions, newest first
+ */
+export async function listActions(
+  filter: ActionFilter = {},
+  now: Date = new Date()
+): Promise<AIAction[]> {
+  const actions = await Promise.all(
+    (await aiActionRepository.findAll()).map((action) => expireIfDue(action, now))
+  );
+
+  return actions
+    .filter((a) => !filter.memberId || a.memberId === filter.memberId)
+    .filter((a) => !filter.status || a.status === filter.status)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+/**
+ * Record the conversation that proposed the actions
+ */
+export async function linkActionsToThread(
+  actions: AIAction[],
+  threadId: string
+): Promise<AIAction[]> {
+  const linked: AIAction[] = [];
+  for (const action of actions) {
+    linked.push((await aiActionRepository.update(action.id, { threadId })) || action);
+  }
+  return linked;
+}
+
+/**
+ * Confirm and apply an action
+ * The action is claimed (pending to applying) before it runs, so a double
+ * click or a second tab can't apply it twice
+ * @throws AIActionNotFoundError if the action is missing or was proposed to another admin
+ * @throws AIActionStateError if the action was already decided or has expired
+ * @throws AIActionFailedError if the action no longer applies (it is marked failed)
+ */
+export async function confirmAction(
+  memberId: string,
+  id: string,
+  now: Date = new Date()
+): Promise<AIAction> {
+  const action = await getOwnPendingAction(memberId, id, now);
+  const decidedAt = now.toISOString();
+
+  const claimed = await aiActionRepository.updateIfStatus(id, "pending", {
+    status: "applying",
+    decidedAt,
+  });
+  if (!claimed) {
+    const current = await aiActionRepository.findById(id);
+    throw new AIActionStateError(
+      current?.status === "applying"
+        ? "This action is already being applied"
+        : `This action was already ${current?.status || "decided"}`
+    );
+  }
+
+  let result: Record<string, any>;
+  try {
+    result = await executeAgentAction(action.type, action.args, {
+      actorId: memberId,
+      actorRole: "admin",
+      source: "ai-agent",
+    });
+  } catch (error: any) {
+    const message = error.message || "Action could not be applied";
+    const failed = await aiActionRepository.update(id, { status: "failed", decidedAt, error: message });
+    console.warn(`[AI Actions] ${memberId} confirmed ${action.type} ${id}, which failed: ${message}`);
+    await noteOutcome(failed || action, `Could not apply "${action.summary}": ${message}`, now);
+    throw new AIActionFailedError(message);
+  }
+
+  const confirmed = await aiActionRepository.update(id, { status: "confirmed", decidedAt, result });
+  await noteOutcome(action, `Confirmed: ${action.summary}`, now);
+
+  return confirmed || { ...action, status: "confirmed", decidedAt, result };
+}
+
+/**
+ * Reject an action
+ * @throws AIActionNotFoundError if the action is missing or was proposed to another admin
+ * @throws AIActionStateError if the action was already decided or has expired
+ */
+export async function rejectAction(
+  memberId: string,
+  id: string,
+  now: Date = new Date()
+): Promise<AIAction> {
+  const action = await getOwnPendingAction(memberId, id, now);
+  const decidedAt = now.toISOString();
+
+  const rejected = await aiActionRepository.update(id, { status: "rejected", decidedAt });
+  await noteOutcome(action, `Rejected: ${action.summary}`, now);
+
+  return rejected || { ...action, status: "rejected", decidedAt };
+}
@@ -1,11 +1,11 @@
-import { GoogleGenerativeAI, SchemaType } from "@google/generative-ai";
 import {
   createReservation,
   getAvailabilityByDate,
   getCourt,
 } from "./reservations";
-
-const genAI = new GoogleGenerativeAI(process.env.GOOGLE_API_KEY || "");
+import { LLMMessage, ToolCall, ToolDeclaration } from "../types/llm";
+import { ChatStream, runToolLoop, toHistory } from "./ai/tool-loop";
+import { LLMAbortedError } from "./errors/llm-errors";
 
 const TENNIS_CONTEXT = `
 You are a helpful AI assistant for Providence Tennis Academy, located at 1000 Elmwood Avenue, Providence, RI, USA. Phone: 401-935-4336.
@@ -51,11 +51,6 @@ Booking guidelines:
 Remember: Be concise and direct. If a longer explanation is needed, users will ask for more detail.
 `;
 
-type ToolCall = {
-  name: string;
-  args?: Record<string, any>;
-};
-
 type ParsedBooking = {
   courtId: string;
   date: string;
@@ -72,6 +67,14 @@ export interface ChatMessage {
   timestamp?: Date;
 }
 
+/**
+ * Progress shown while a streamed reply runs each tool
+ */
+const TOOL_LABELS: Record<string, string> = {
+  getCourtAvailability: "Checking availability",
+  createCourtReservation: "Booking the court",
+};
+
 function parseBookingDetails(message: string): ParsedBooking | null {
   const courtMatch = message.match(/court\s*(\d+)/i);
   const dateMatch = message.match(/\b(\d{4}-\d{2}-\d{2})\b/);
@@ -109,16 +112,24 @@ function parseBookingDetails(message: string): ParsedBooking | null {
   };
 }
 
+/**
+ * Chat with the public assistant
+ * @param threadHistory Stored thread transcript; replaces conversationHistory when given
+ * @param stream Reports the reply and tool progress as they happen
+ * @throws LLMAbortedError if the stream is cancelled
+ * @returns The reply; `messages` is this exchange with its tool turns when the model ran
+ */
 export async function chatWithAgent(
   message: string,
-  conversationHistory: ChatMessage[] = []
-): Promise<{ response: string; sources?: Array<{ title: string; url: string }> }> {
+  conversationHistory: ChatMessage[] = [],
+  threadHistory?: LLMMessage[],
+  stream?: ChatStream
+): Promise<{
+  response: string;
+  sources?: Array<{ title: string; url: string }>;
+  messages?: LLMMessage[];
+}> {
   try {
-    const modelName = process.env.GOOGLE_GENAI_MODEL;
-    if (!modelName) {
-      throw new Error("GOOGLE_GENAI_MODEL is not set in environment");
-    }
-
     const parsedBooking = parseBookingDetails(message);
     if (parsedBooking) {
       const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
@@ -157,122 +168,79 @@ export async function chatWithAgent(
       }
     }
 
-    const tools = [
+    const tools: ToolDeclaration[] = [
       {
-        functionDeclarations: [
-          {
-            name: "getCourtAvailability",
-            description: "Get available court time slots for a specific date.",
-            parameters: {
-              type: SchemaType.OBJECT,
-              properties: {
-                date: {
-                  type: SchemaType.STRING,
-                  description: "Date in YYYY-MM-DD format",
-                },
-                courtId: {
-                  type: SchemaType.STRING,
-                  description: "Optional court ID to filter availability",
-                },
-              },
-              required: ["date"],
+        name: "getCourtAvailability",
+        description: "Get available court time slots for a specific date.",
+        parameters: {
+          type: "object",
+          properties: {
+            date: {
+              type: "string",
+              description: "Date in YYYY-MM-DD format",
             },
-          },
-          {
-            name: "createCourtReservation",
-            description: "Create a court reservation in the booking backend.",
-            parameters: {
-              type: SchemaType.OBJECT,
-              properties: {
-                courtId: {
-                  type: SchemaType.STRING,
-                  description: "Court ID to reserve",
-                },
-                date: {
-                  type: SchemaType.STRING,
-                  description: "Date in YYYY-MM-DD format",
-                },
-                timeSlotStart: {
-                  type: SchemaType.STRING,
-                  description: "Start time in HH:mm format",
-                },
-                timeSlotEnd: {
-                  type: SchemaType.STRING,
-                  description: "End time in HH:mm format",
-                },
-                customerName: {
-                  type: SchemaType.STRING,
-                  description: "Customer full name",
-                },
-                customerEmail: {
-                  type: SchemaType.STRING,
-                  description: "Customer email address",
-                },
-                customerPhone: {
-                  type: SchemaType.STRING,
-                  description: "Customer phone number",
-                },
-                notes: {
-                  type: SchemaType.STRING,
-                  description: "Optional booking notes",
-                },
-              },
-              required: [
-                "courtId",
-                "date",
-                "timeSlotStart",
-                "timeSlotEnd",
-                "customerName",
-                "customerEmail",
-                "customerPhone",
-              ],
+            courtId: {
+              type: "string",
+              description: "Optional court ID to filter availability",
             },
           },
-        ],
+          required: ["date"],
+        },
       },
-    ] as any;
-
-    const model = genAI.getGenerativeModel({
-      model: modelName,
-      tools,
-    });
-
-    let filteredHistory = conversationHistory.slice(-10);
-    if (filteredHistory.length > 0 && filteredHistory[0].role === "assistant") {
-      filteredHistory = filteredHistory.slice(1);
-    }
-
-    const history = filteredHistory.map((msg) => ({
-      role: msg.role === "user" ? "user" : "model",
-      parts: [{ text: msg.content }],
-    }));
-
-    const historyWithContext = [
       {
-        role: "user",
-        parts: [{ text: TENNIS_CONTEXT }],
+        name: "createCourtReservation",
+        description: "Create a court reservation in the booking backend.",
+        parameters: {
+          type: "object",
+          properties: {
+            courtId: {
+              type: "string",
+              description: "Court ID to reserve",
+            },
+            date: {
+              type: "string",
+              description: "Date in YYYY-MM-DD format",
+            },
+            timeSlotStart: {
+              type: "string",
+              description: "Start time in HH:mm format",
+            },
+            timeSlotEnd: {
+              type: "string",
+              description: "End time in HH:mm format",
+            },
+            customerName: {
+              type: "string",
+              description: "Customer full name",
+            },
+            customerEmail: {
+              type: "string",
+              description: "Customer email address",
+            },
+            customerPhone: {
+              type: "string",
+              description: "Customer phone number",
+            },
+            notes: {
+              type: "string",
+              description: "Optional booking notes",
+            },
+          },
+          required: [
+            "courtId",
+            "date",
+            "timeSlotStart",
+            "timeSlotEnd",
+            "customerName",
+            "customerEmail",
+            "customerPhone",
+          ],
+        },
       },
-      ...history,
     ];
 
-    const chat = model.startChat({
-      history: historyWithContext,
-      toolConfig: {
-        functionCallingConfig: { mode: "AUTO" },
-      } as any,
-    });
-
     const handleFunctionCall = async (call: ToolCall) => {
-      let args: Record<string, any> = {};
-      if (typeof call.args === "string") {
-        try {
-          args = JSON.parse(call.args);
-        } catch {
-          args = {};
-        }
-      } else if (call.args) {
-        args = call.args;
-      }
+      const args = call.args;
 
       if (call.name === "getCourtAvailability") {
         const date = String(args.date || "");
@@ -350,63 +318,26 @@ export async function chatWithAgent(
       return { success: false, error: "Unknown function call" };
     };
 
-    const extractFunctionCalls = (response: any): ToolCall[] => {
-      if (typeof response.functionCalls === "function") {
-        return response.functionCalls() || [];
-      }
-
-      const parts = response.candidates?.[0]?.content?.parts || [];
-      return parts
-        .filter((part: any) => part.functionCall)
-        .map((part: any) => part.functionCall);
-    };
-
-    let result = await chat.sendMessage(message);
-    let response = await result.response;
-
-    let toolCalls = extractFunctionCalls(response);
-    while (toolCalls.length > 0) {
-      for (const call of toolCalls) {
-        const toolResult = await handleFunctionCall(call);
-        result = await chat.sendMessage([
-          {
-            functionResponse: {
-              name: call.name,
-              response: toolResult,
-            },
-          },
-        ]);
-        response = await result.response;
-      }
-
-      toolCalls = extractFunctionCalls(response);
-    }
-
-    const sources: Array<{ title: string; url: string }> = [];
-    try {
-      const candidate = response.candidates?.[0] as any;
-      const chunks =
-        candidate?.groundingMetadata?.groundingChunks ||
-        candidate?.groundingMetadata?.groundingChuncks;
-      if (chunks) {
-        chunks.forEach((chunk: any) => {
-          if (chunk.web?.uri) {
-            sources.push({
-              title: chunk.web.title || chunk.web.uri || "Source",
-              url: chunk.web.uri,
-            });
-          }
-        });
-      }
-    } catch (sourceError) {
-      console.warn("Could not extract sources:", sourceError);
-    }
+    const history = threadHistory || toHistory(conversationHistory, 10);
+    const result = await runToolLoop({
+      system: TENNIS_CONTEXT,
+      history,
+      message,
+      tools,
+      handleToolCall: handleFunctionCall,
+      stream,
+      toolLabels: TOOL_LABELS,
+    });
 
     return {
-      response: response.text(),
-      sources: sources.length > 0 ? sources : undefined,
+      response: result.text,
+      sources: result.sources,
+      messages: result.messages.slice(history.length),
     };
   } catch (error: any) {
+    if (error instanceof LLMAbortedError) {
+      throw error;
+    }
     console.error("Error in AI agent:", error);
     throw new Error(
       error.message || "Failed to get response from AI agent"
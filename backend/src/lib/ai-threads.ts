@@ -0,0 +1,266 @@
+/**
+ * Business logic layer for persistent AI conversation threads
+ *
+ * Each signed-in member's chats are stored as threads with the full
+ * transcript, tool calls included. Only the newest turns that fit in
+ * AI_HISTORY_TOKEN_BUDGET are replayed to the model. Threads untouched for
+ * AI_THREAD_RETENTION_DAYS are purged, a member keeps at most
+ * AI_THREAD_LIMIT threads and a thread keeps at most AI_THREAD_MAX_MESSAGES.
+ */
+
+import { LLMMessage } from "../types/llm";
+import {
+  AIThread,
+  AIThreadAgent,
+  AIThreadMessage,
+  AIThreadSummary,
+} from "../types/ai-thread";
+import { aiThreadRepository } from "./repositories/file-ai-thread-repository";
+import {
+  AIThreadNotFoundError,
+  AIThreadValidationError,
+} from "./errors/ai-thread-errors";
+import {
+  buildThreadTitle,
+  fitToTokenBudget,
+  TITLE_MAX_LENGTH,
+  trimToMessageLimit,
+} from "./utils/ai-threads";
+
+export const DEFAULT_THREAD_LIMIT = 50;
+export const DEFAULT_MESSAGE_LIMIT = 200;
+export const DEFAULT_RETENTION_DAYS = 90;
+export const DEFAULT_HISTORY_TOKEN_BUDGET = 8000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * An agent's answer to one chat message
+ */
+export interface ChatReply {
+  response: string;
+  messages?: LLMMessage[];        // The exchange with tool turns; defaults to message and response
+}
+
+function getSetting(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+function toSummary(thread: AIThread): AIThreadSummary {
+  return {
+    id: thread.id,
+    agent: thread.agent,
+    title: thread.title,
+    messageCount: thread.messages.length,
+    createdAt: thread.createdAt,
+    updatedAt: thread.updatedAt,
+  };
+}
+
+/**
+ * Load a member's threads, deleting any past the retention period
+ */
+async function getLiveThreads(memberId: string, now: Date): Promise<AIThread[]> {
+  const cutoff = now.getTime() - getSetting("AI_THREAD_RETENTION_DAYS", DEFAULT_RETENTION_DAYS) * DAY_MS;
+  const threads = await aiThreadRepository.findByMember(memberId);
+  const expired = threads.filter((t) => new Date(t.updatedAt).getTime() < cutoff);
+
+  if (expired.length > 0) {
+    await aiThreadRepository.deleteMany(expired.map((t) => t.id));
+  }
+
+  return threads.filter((t) => !expired.includes(t));
+}
+
+/**
+ * @throws AIThreadNotFoundError if the thread is missing, expired or not the member's
+ */
+async function getOwnThread(memberId: string, threadId: string, now: Date): Promise<AIThread> {
+  const threads = await getLiveThreads(memberId, now);
+  const thread = threads.find((t) => t.id === threadId);
+  if (!thread) {
+    throw new AIThreadNotFoundError();
+  }
+  return thread;
+}
+
+/**
+ * List a member's threads, most recently active first
+ */
+export async function listThreads(
+  memberId: string,
+  agent?: AIThreadAgent,
+  now: Date = new Date()
+): Promise<AIThreadSummary[]> {
+  const threads = await getLiveThreads(memberId, now);
+  return threads
+    .filter((t) => !agent || t.agent === agent)
+    .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))
+    .map(toSummary);
+}
+
+/**
+ * Get one of a member's threads with its full transcript
+ * @throws AIThreadNotFoundError if the thread is missing, expired or not the member's
+ */
+export async function getThread(
+  memberId: string,
+  threadId: string,
+  now: Date = new Date()
+): Promise<AIThread> {
+  return getOwnThread(memberId, threadId, now);
+}
+
+/**
+ * Rename a thread
+ * @throws AIThreadValidationError if the title is empty or too long
+ * @throws AIThreadNotFoundError if the thread is missing, expired or not the member's
+ */
+export async function renameThread(
+  memberId: string,
+  threadId: string,
+  title: unknown,
+  now: Date = new Date()
+): Promise<AIThread> {
+  if (typeof title !== "string" || !title.trim()) {
+    throw new AIThreadValidationError("Title is required");
+  }
+  if (title.trim().length > TITLE_MAX_LENGTH) {
+    throw new AIThreadValidationError(`Title must be at most ${TITLE_MAX_LENGTH} characters`);
+  }
+
+  await getOwnThread(memberId, threadId, now);
+  const updated = await aiThreadRepository.update(threadId, {
+    title: title.trim(),
+    updatedAt: now.toISOString(),
+  });
+  if (!updated) {
+    throw new AIThreadNotFoundError();
+  }
+  return updated;
+}
+
+/**
+ * Delete a thread
+ * @throws AIThreadNotFoundError if the thread is missing, expired or not the member's
+ */
+export async function deleteThread(
+  memberId: string,
+  threadId: string,
+  now: Date = new Date()
+): Promise<void> {
+  await getOwnThread(memberId, threadId, now);
+  await aiThreadRepository.deleteMany([threadId]);
+}
+
+/**
+ * History to replay to the model when continuing a thread
+ * Returns the newest whole turns that fit in AI_HISTORY_TOKEN_BUDGET.
+ * @throws AIThreadNotFoundError if the thread is missing, expired or not the member's
+ * @throws AIThreadValidationError if the thread belongs to another agent
+ */
+export async function getThreadHistory(
+  memberId: string,
+  agent: AIThreadAgent,
+  threadId: string,
+  now: Date = new Date()
+): Promise<LLMMessage[]> {
+  const thread = await getOwnThread(memberId, threadId, now);
+  if (thread.agent !== agent) {
+    throw new AIThreadValidationError("Conversation belongs to a different assistant");
+  }
+
+  const messages = thread.messages.map(({ createdAt, ...msg }) => msg as LLMMessage);
+  return fitToTokenBudget(
+    messages,
+    getSetting("AI_HISTORY_TOKEN_BUDGET", DEFAULT_HISTORY_TOKEN_BUDGET)
+  );
+}
+
+/**
+ * Save a chat exchange: the user message, any tool turns and the reply
+ *
+ * Without a threadId a new thread is started, titled after the user
+ * message, and the member's oldest threads past AI_THREAD_LIMIT are deleted.
+ * @throws AIThreadNotFoundError if the thread is missing, expired or not the member's
+ * @throws AIThreadValidationError if the thread belongs to another agent
+ */
+export async function recordThreadTurn(
+  memberId: string,
+  agent: AIThreadAgent,
+  threadId: string | undefined,
+  message: string,
+  reply: ChatReply,
+  now: Date = new Date()
+): Promise<AIThread> {
+  const exchange: LLMMessage[] = reply.messages || [
+    { role: "user", content: message },
+    { role: "assistant", content: reply.response },
+  ];
+  const timestamp = now.toISOString();
+  const stamped = exchange.map((msg) => ({ ...msg, createdAt: timestamp }) as AIThreadMessage);
+  const messageLimit = getSetting("AI_THREAD_MAX_MESSAGES", DEFAULT_MESSAGE_LIMIT);
+
+  if (threadId) {
+    const thread = await getOwnThread(memberId, threadId, now);
+    if (thread.agent !== agent) {
+      throw new AIThreadValidationError("Conversation belongs to a different assistant");
+    }
+
+    const updated = await aiThreadRepository.update(threadId, {
+      messages: trimToMessageLimit([...thread.messages, ...stamped], messageLimit),
+      updatedAt: timestamp,
+    });
+    if (!updated) {
+      throw new AIThreadNotFoundError();
+    }
+    return updated;
+  }
+
+  const thread = await aiThreadRepository.create({
+    memberId,
+    agent,
+    title: buildThreadTitle(message),
+    messages: trimToMessageLimit(stamped, messageLimit),
+    createdAt: timestamp,
+    updatedAt: timestamp,
+  });
+
+  const threadLimit = getSetting("AI_THREAD_LIMIT", DEFAULT_THREAD_LIMIT);
+  const others = (await getLiveThreads(memberId, now))
+    .filter((t) => t.id !== thread.id)
+    .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+  if (others.length >= threadLimit) {
+    await aiThreadRepository.deleteMany(others.slice(threadLimit - 1).map((t) => t.id));
+  }
+
+  return thread;
+}
+
+/**
+ * Add a reply from outside the chat to a thread, such as the outcome of an
+ * action the member confirmed
+ * @throws AIThreadNotFoundError if the thread is missing, expired or not the member's
+ */
+export async function appendThreadMessage(
+  memberId: string,
+  threadId: string,
+  content: string,
+  now: Date = new Date()
+): Promise<AIThread> {
+  const thread = await getOwnThread(memberId, threadId, now);
+  const timestamp = now.toISOString();
+
+  const updated = await aiThreadRepository.update(threadId, {
+    messages: trimToMessageLimit(
+      [...thread.messages, { role: "assistant", content, createdAt: timestamp }],
+      getSetting("AI_THREAD_MAX_MESSAGES", DEFAULT_MESSAGE_LIMIT)
+    ),
+    updatedAt: timestamp,
+  });
+  if (!updated) {
+    throw new AIThreadNotFoundError();
+  }
+  return updated;
+}
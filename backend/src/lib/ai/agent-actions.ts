@@ -0,0 +1,291 @@
+/**
+ * Destructive AI agent actions
+ *
+ * The agents don't run these when the model calls the tool. They build a
+ * preview and propose the action (see ../ai-actions.ts); the code here
+ * applies it once the admin confirms, re-checking the data first.
+ */
+
+import {
+  cancelReservation as cancelBooking,
+  getAllReservations,
+  notifyReservationChanged,
+  validateReservationMove,
+} from "../reservations";
+import { createMember } from "../members";
+import { reservationRepository } from "../repositories";
+import { ConflictError, NotFoundError } from "../errors/reservation-errors";
+import { isActiveReservation, isRescheduled } from "../utils/reservation-status";
+import { timeRangesOverlap } from "../utils/time-ranges";
+import { recordAudit } from "../audit";
+import { AIActionType } from "../../types/ai-action";
+import { AuditContext } from "../../types/audit";
+import { Reservation } from "../../types/reservation";
+
+export interface ConflictInfo {
+  hasConflict: boolean;
+  conflictingBooking?: Reservation;
+  message?: string;
+}
+
+/**
+ * Check if moving a reservation would cause a conflict
+ * @param ignoreReservationId A booking that will be cancelled to make room (overrides)
+ */
+export async function checkMoveConflict(
+  reservationId: string,
+  newDate: string,
+  newTimeStart: string,
+  newTimeEnd: string,
+  newCourtId: string,
+  ignoreReservationId?: string
+): Promise<ConflictInfo> {
+  const allReservations = await getAllReservations();
+  
+  const conflict = allReservations.find((res) => {
+    // Skip the reservation we're moving
+    if (res.id === reservationId || res.id === ignoreReservationId) return false;
+    // Skip cancelled and no-shows
+    if (!isActiveReservation(res)) return false;
+    // Check same date and court
+    if (res.date !== newDate || res.courtId !== newCourtId) return false;
+    // Check time overlap
+    return timeRangesOverlap(newTimeStart, newTimeEnd, res.timeSlot.start, res.timeSlot.end);
+  });
+
+  if (conflict) {
+    const memberInfo = conflict.member
+      ? `${conflict.member.firstName} ${conflict.member.lastName}`
+      : conflict.guestName || conflict.customerName || "Unknown";
+      
+    return {
+      hasConflict: true,
+      conflictingBooking: conflict,
+      message: `⚠️ CONFLICT: Court ${conflict.courtName} is already booked on ${conflict.date} at ${conflict.timeSlot.start}-${conflict.timeSlot.end} by ${memberInfo}. Booking ID: ${conflict.id}`,
+    };
+  }
+
+  return { hasConflict: false };
+}
+
+/**
+ * The fields of a booking shown in a confirmation preview
+ */
+export function reservationSnapshot(reservation: Reservation): Record<string, string> {
+  return {
+    court: reservation.courtName,
+    date: reservation.date,
+    time: `${reservation.timeSlot.start}-${reservation.timeSlot.end}`,
+    member: reservation.member
+      ? `${reservation.member.firstName} ${reservation.member.lastName}`
+      : reservation.guestName || reservation.customerName || "Unknown",
+    status: reservation.status || "confirmed",
+  };
+}
+
+async function getReservationOrThrow(id: string): Promise<Reservation> {
+  const reservation = await reservationRepository.findById(id);
+  if (!reservation) {
+    throw new NotFoundError("Reservation");
+  }
+  return reservation;
+}
+
+/**
+ * Only upcoming bookings can be moved; it may have been cancelled or played since the preview
+ */
+function assertMovable(reservation: Reservation): void {
+  const status = reservation.status || "confirmed";
+  if (status !== "confirmed") {
+    throw new ConflictError(`Reservation ${reservation.id} is ${status} and can no longer be moved`);
+  }
+}
+
+/**
+ * The new court, date and time from a move's tool arguments
+ */
+function toMove(args: Record<string, any>): Pick<Reservation, "courtId" | "date" | "timeSlot"> {
+  return {
+    courtId: args.newCourtId,
+    date: args.newDate,
+    timeSlot: { start: args.newTimeStart, end: args.newTimeEnd },
+  };
+}
+
+/**
+ * Email the new details when the court, date or time changed, as the admin edit does
+ */
+async function notifyIfRescheduled(before: Reservation, after: Reservation): Promise<void> {
+  if (isRescheduled(before, after)) {
+    await notifyReservationChanged(before, after);
+  }
+}
+
+async function moveReservation(args: Record<string, any>, audit: AuditContext) {
+  const reservation = await getReservationOrThrow(args.reservationId);
+  assertMovable(reservation);
+
+  const conflictCheck = await checkMoveConflict(
+    reservation.id,
+    args.newDate,
+    args.newTimeStart,
+    args.newTimeEnd,
+    args.newCourtId
+  );
+  if (conflictCheck.hasConflict) {
+    throw new ConflictError(conflictCheck.message);
+  }
+
+  const moved = await validateReservationMove(reservation, toMove(args), true);
+
+  const updated = await reservationRepository.update(reservation.id, {
+    date: moved.date,
+    courtId: moved.courtId,
+    courtName: moved.courtName,
+    timeSlot: moved.timeSlot,
+    notes: args.notes,
+  });
+  await recordAudit(audit, "reservation.update", "reservation", updated.id, reservation, updated);
+  await notifyIfRescheduled(reservation, updated);
+
+  return {
+    success: true,
+    moved: true,
+    reservation: {
+      id: updated.id,
+      from: {
+        court: reservation.courtName,
+        date: reservation.date,
+        time: `${reservation.timeSlot.start}-${reservation.timeSlot.end}`,
+      },
+      to: {
+        court: updated.courtName,
+        date: updated.date,
+        time: `${updated.timeSlot.start}-${updated.timeSlot.end}`,
+      },
+    },
+  };
+}
+
+async function cancelReservation(args: Record<string, any>, audit: AuditContext) {
+  const reservation = await getReservationOrThrow(args.reservationId);
+
+  // Refunds, notifies and records it the same way as a cancellation from the dashboard
+  await cancelBooking(reservation.id, { audit });
+
+  return {
+    success: true,
+    cancelled: true,
+    reservation: {
+      id: reservation.id,
+      court: reservation.courtName,
+      date: reservation.date,
+      time: `${reservation.timeSlot.start}-${reservation.timeSlot.end}`,
+      member: reservation.member
+        ? `${reservation.member.firstName} ${reservation.member.lastName}`
+        : reservation.guestName || reservation.customerName,
+    },
+  };
+}
+
+async function overrideConflictAndMove(args: Record<string, any>, audit: AuditContext) {
+  const reservation = await getReservationOrThrow(args.reservationId);
+  const conflicting = await getReservationOrThrow(args.conflictingReservationId);
+  assertMovable(reservation);
+
+  const moved = await validateReservationMove(reservation, toMove(args), true);
+
+  // Only the booking being overridden may stand in the way
+  const conflictCheck = await checkMoveConflict(
+    reservation.id,
+    args.newDate,
+    args.newTimeStart,
+    args.newTimeEnd,
+    args.newCourtId,
+    conflicting.id
+  );
+  if (conflictCheck.hasConflict) {
+    throw new ConflictError(conflictCheck.message);
+  }
+
+  // Cancel the conflicting reservation (refunded, not penalized), then move the target reservation
+  await cancelBooking(conflicting.id, { penalize: false, audit });
+  const updated = await reservationRepository.update(reservation.id, {
+    date: moved.date,
+    courtId: moved.courtId,
+    courtName: moved.courtName,
+    timeSlot: moved.timeSlot,
+    notes: [reservation.notes, "[Admin override]"].filter(Boolean).join(" "),
+  });
+  await recordAudit(audit, "reservation.update", "reservation", updated.id, reservation, updated);
+  await notifyIfRescheduled(reservation, updated);
+
+  return {
+    success: true,
+    override: true,
+    cancelled: {
+      id: conflicting.id,
+      member: conflicting.member
+        ? `${conflicting.member.firstName} ${conflicting.member.lastName}`
+        : conflicting.guestName || conflicting.customerName,
+      court: conflicting.courtName,
+      date: conflicting.date,
+      time: `${conflicting.timeSlot.start}-${conflicting.timeSlot.end}`,
+    },
+    moved: {
+      id: updated.id,
+      court: updated.courtName,
+      date: updated.date,
+      time: `${updated.timeSlot.start}-${updated.timeSlot.end}`,
+    },
+  };
+}
+
+async function createNewPlayer(args: Record<string, any>, audit: AuditContext) {
+  const newMember = await createMember(
+    {
+      firstName: args.firstName,
+      lastName: args.lastName,
+      email: args.email,
+      phone: args.phone,
+      role: "player",
+      isActive: true,
+      ntrpRating: args.ntrpRating,
+      notes: args.notes,
+    },
+    audit
+  );
+
+  return {
+    success: true,
+    data: {
+      id: newMember.id,
+      name: `${newMember.firstName} ${newMember.lastName}`,
+      email: newMember.email,
+      memberNumber: newMember.memberNumber,
+      message: `Player ${newMember.firstName} ${newMember.lastName} has been created successfully! They can now sign up with their email (${newMember.email}) to access their account.`,
+    },
+  };
+}
+
+/**
+ * Apply a confirmed action
+ * @param audit The confirming admin, recorded in the audit log with each change
+ * @throws NotFoundError, ConflictError, ValidationError or member errors when it no longer applies
+ */
+export async function executeAgentAction(
+  type: AIActionType,
+  args: Record<string, any>,
+  audit: AuditContext
+): Promise<Record<string, any>> {
+  switch (type) {
+    case "moveReservation":
+      return moveReservation(args, audit);
+    case "cancelReservation":
+      return cancelReservation(args, audit);
+    case "overrideConflictAndMove":
+      return overrideConflictAndMove(args, audit);
+    case "createNewPlayer":
+      return createNewPlayer(args, audit);
+  }
+}
@@ -0,0 +1,140 @@
+/**
+ * LLM provider backed by Google Gemini
+ */
+
+import { Content, GoogleGenerativeAI, Part, Tool } from "@google/generative-ai";
+import { LLMMessage, LLMRequest, LLMResponse, LLMSource, ToolCall } from "../../types/llm";
+import { LLMAbortedError } from "../errors/llm-errors";
+import type { LLMProvider } from "./llm-provider";
+
+const DEFAULT_MODEL = "gemini-3-flash-preview";
+
+function toContent(message: LLMMessage): Content {
+  switch (message.role) {
+    case "user":
+      return { role: "user", parts: [{ text: message.content }] };
+    case "assistant": {
+      const parts: Part[] = message.content ? [{ text: message.content }] : [];
+      for (const call of message.toolCalls || []) {
+        parts.push({ functionCall: { name: call.name, args: call.args } });
+      }
+      return { role: "model", parts };
+    }
+    case "tool":
+      return {
+        role: "function",
+        parts: message.results.map((result) => ({
+          functionResponse: { name: result.name, response: result.response },
+        })),
+      };
+  }
+}
+
+/**
+ * Tool arguments normally arrive as an object, but some models send a JSON string
+ */
+function parseArgs(args: unknown): Record<string, any> {
+  if (typeof args === "string") {
+    try {
+      return JSON.parse(args);
+    } catch {
+      return {};
+    }
+  }
+  return (args as Record<string, any>) || {};
+}
+
+/**
+ * Read the model's turn out of a response candidate
+ */
+function toResponse(candidate: any): LLMResponse {
+  const parts: Part[] = candidate?.content?.parts || [];
+
+  const text = parts
+    .filter((part) => typeof part.text === "string")
+    .map((part) => part.text)
+    .join("");
+
+  const toolCalls: ToolCall[] = parts
+    .filter((part) => part.functionCall)
+    .map((part) => ({
+      name: part.functionCall!.name,
+      args: parseArgs(part.functionCall!.args),
+    }));
+
+  const sources: LLMSource[] = [];
+  const chunks =
+    candidate?.groundingMetadata?.groundingChunks ||
+    candidate?.groundingMetadata?.groundingChuncks;
+  for (const chunk of chunks || []) {
+    if (chunk.web?.uri) {
+      sources.push({ title: chunk.web.title || chunk.web.uri, url: chunk.web.uri });
+    }
+  }
+
+  return { text, toolCalls, sources: sources.length > 0 ? sources : undefined };
+}
+
+export class GeminiProvider implements LLMProvider {
+  readonly name = "gemini";
+  private readonly genAI = new GoogleGenerativeAI(process.env.GOOGLE_API_KEY || "");
+  private readonly modelName = process.env.GOOGLE_GENAI_MODEL || DEFAULT_MODEL;
+
+  private getModel(request: LLMRequest) {
+    return this.genAI.getGenerativeModel({
+      model: this.modelName,
+      // Our schema type names are the same strings as Gemini's SchemaType values
+      tools: [{ functionDeclarations: request.tools }] as Tool[],
+      ...(request.system
+        ? { systemInstruction: { role: "system", parts: [{ text: request.system }] } }
+        : {}),
+    });
+  }
+
+  private toRequest(request: LLMRequest) {
+    return {
+      contents: request.messages.map(toContent),
+      toolConfig: { functionCallingConfig: { mode: "AUTO" } } as any,
+    };
+  }
+
+  async generate(request: LLMRequest): Promise<LLMResponse> {
+    const result = await this.getModel(request).generateContent(this.toRequest(request), {
+      signal: request.signal,
+    });
+
+    return toResponse(result.response.candidates?.[0]);
+  }
+
+  async generateStream(
+    request: LLMRequest,
+    onText: (delta: string) => void
+  ): Promise<LLMResponse> {
+    try {
+      const result = await this.getModel(request).generateContentStream(
+        this.toRequest(request),
+        { signal: request.signal }
+      );
+
+      // Chunks carry new parts only; the last one has the grounding metadata
+      const parts: Part[] = [];
+      let last: any;
+      for await (const chunk of result.stream) {
+        last = chunk.candidates?.[0];
+        for (const part of (last?.content?.parts || []) as Part[]) {
+          if (typeof part.text === "string" && part.text) {
+            onText(part.text);
+          }
+          parts.push(part);
+        }
+      }
+
+      return toResponse({ ...last, content: { parts } });
+    } catch (error) {
+      if (request.signal?.aborted) {
+        throw new LLMAbortedError();
+      }
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,92 @@
+/**
+ * LLM provider abstraction
+ *
+ * LLM_PROVIDER selects the implementation:
+ * - "gemini" (default): Google Gemini via GOOGLE_API_KEY and GOOGLE_GENAI_MODEL
+ * - "fake": replays canned turns from LLM_SCRIPT_FILE (a JSON array of
+ *   { text?, toolCalls? }), then echoes; for offline development and tests
+ */
+
+import { promises as fs } from "fs";
+import { LLMRequest, LLMResponse, ScriptedTurn } from "../../types/llm";
+import { LLMConfigError } from "../errors/llm-errors";
+import { GeminiProvider } from "./gemini-provider";
+import { ScriptedProvider } from "./scripted-provider";
+
+export interface LLMProvider {
+  /** Provider name, for logs */
+  readonly name: string;
+
+  /**
+   * Produce the model's next turn: text, tool calls, or both
+   * @throws Error if the model can't be reached
+   */
+  generate(request: LLMRequest): Promise<LLMResponse>;
+
+  /**
+   * Like generate(), but passes the reply text to onText piece by piece as it arrives
+   * @throws LLMAbortedError if request.signal is aborted
+   * @throws Error if the model can't be reached
+   */
+  generateStream(request: LLMRequest, onText: (delta: string) => void): Promise<LLMResponse>;
+}
+
+let cached: { key: string; provider: LLMProvider } | null = null;
+let override: LLMProvider | null = null;
+
+/**
+ * Get the provider selected by the environment
+ * @throws LLMConfigError for an unknown LLM_PROVIDER value or an unreadable script
+ */
+export async function getLLMProvider(): Promise<LLMProvider> {
+  if (override) {
+    return override;
+  }
+
+  const kind = (process.env.LLM_PROVIDER || "gemini").toLowerCase();
+  const key = `${kind}:${process.env.GOOGLE_GENAI_MODEL || ""}:${process.env.LLM_SCRIPT_FILE || ""}`;
+
+  if (cached && cached.key === key) {
+    return cached.provider;
+  }
+
+  let provider: LLMProvider;
+  switch (kind) {
+    case "gemini":
+      provider = new GeminiProvider();
+      break;
+    case "fake":
+      provider = new ScriptedProvider(await loadScript(process.env.LLM_SCRIPT_FILE));
+      break;
+    default:
+      throw new LLMConfigError(`Unknown LLM_PROVIDER "${kind}". Use gemini or fake.`);
+  }
+
+  cached = { key, provider };
+  return provider;
+}
+
+/**
+ * Use the given provider for every agent until cleared with null (tests)
+ */
+export function setLLMProvider(provider: LLMProvider | null): void {
+  override = provider;
+}
+
+async function loadScript(file: string | undefined): Promise<ScriptedTurn[]> {
+  if (!file) {
+    return [];
+  }
+
+  try {
+    const turns = JSON.parse(await fs.readFile(file, "utf-8"));
+    if (!Array.isArray(turns)) {
+      throw new Error("expected a JSON array of turns");
+    }
+    return turns;
+  } catch (error) {
+    throw new LLMConfigError(
+      `Could not read LLM_SCRIPT_FILE ${file}: ${(error as Error).message}`
+    );
+  }
+}
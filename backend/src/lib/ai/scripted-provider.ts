@@ -0,0 +1,60 @@
+/**
+ * Deterministic LLM provider that replays canned turns
+ *
+ * Each generate() call returns the next scripted turn, so a test can have
+ * the "model" call specific tools and then answer. Once the script runs
+ * out it echoes the latest user message. Requests are kept for assertions.
+ * Streamed replies arrive a word at a time.
+ */
+
+import { LLMRequest, LLMResponse, ScriptedTurn } from "../../types/llm";
+import { LLMAbortedError } from "../errors/llm-errors";
+import type { LLMProvider } from "./llm-provider";
+
+export class ScriptedProvider implements LLMProvider {
+  readonly name = "fake";
+  readonly requests: LLMRequest[] = [];
+  private readonly turns: ScriptedTurn[];
+
+  constructor(turns: ScriptedTurn[] = []) {
+    this.turns = [...turns];
+  }
+
+  /**
+   * Number of scripted turns not yet replayed
+   */
+  get remaining(): number {
+    return this.turns.length;
+  }
+
+  async generate(request: LLMRequest): Promise<LLMResponse> {
+    this.requests.push(request);
+
+    const turn = this.turns.shift();
+    if (turn) {
+      return { text: turn.text || "", toolCalls: turn.toolCalls || [] };
+    }
+
+    const lastUser = [...request.messages].reverse().find((m) => m.role === "user");
+    return {
+      text: `You said: ${lastUser && lastUser.role === "user" ? lastUser.content : ""}`,
+      toolCalls: [],
+    };
+  }
+
+  async generateStream(
+    request: LLMRequest,
+    onText: (delta: string) => void
+  ): Promise<LLMResponse> {
+    const response = await this.generate(request);
+
+    for (const word of response.text.match(/\s*\S+\s*/g) || []) {
+      if (request.signal?.aborted) {
+        throw new LLMAbortedError();
+      }
+      onText(word);
+    }
+
+    return response;
+  }
+}
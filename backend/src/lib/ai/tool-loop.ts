@@ -0,0 +1,164 @@
+/**
+ * Shared function-calling loop for the AI agents
+ *
+ * Sends the conversation to the provider, runs any tools the model calls,
+ * returns their results to the model and repeats until it answers in text.
+ * With a stream, the reply text and tool progress are reported as they happen.
+ */
+
+import {
+  ChatStreamEvent,
+  LLMMessage,
+  LLMRequest,
+  LLMSource,
+  ToolCall,
+  ToolDeclaration,
+} from "../../types/llm";
+import { LLMAbortedError } from "../errors/llm-errors";
+import { getLLMProvider, LLMProvider } from "./llm-provider";
+
+const DEFAULT_MAX_TURNS = 10;
+
+export type ToolHandler = (call: ToolCall) => Promise<Record<string, any>>;
+
+/**
+ * Where a streamed chat turn reports its progress
+ */
+export interface ChatStream {
+  onEvent: (event: ChatStreamEvent) => void;
+  signal?: AbortSignal;           // Stops the turn when the client cancels
+}
+
+export interface ToolLoopOptions {
+  system?: string;
+  history: LLMMessage[];
+  message: string;
+  tools: ToolDeclaration[];
+  handleToolCall: ToolHandler;
+  maxTurns?: number;              // Tool-calling rounds before giving up (default 10)
+  logPrefix?: string;             // e.g. "[Admin AI]"
+  stream?: ChatStream;
+  toolLabels?: Record<string, string>; // Progress text per tool, e.g. "Checking availability"
+}
+
+export interface ToolLoopResult {
+  text: string;
+  sources?: LLMSource[];
+  toolResults: Array<{ call: ToolCall; response: Record<string, any> }>;
+  messages: LLMMessage[];         // History plus this exchange, including tool turns
+}
+
+/**
+ * Convert chat history from the client into provider messages: keeps the
+ * last `limit` user/assistant messages and drops a leading assistant reply
+ */
+export function toHistory(
+  history: Array<{ role: string; content: string }>,
+  limit: number
+): LLMMessage[] {
+  const recent = history
+    .filter((msg) => msg.role === "user" || msg.role === "assistant")
+    .slice(-limit);
+
+  if (recent.length > 0 && recent[0].role !== "user") {
+    recent.shift();
+  }
+
+  return recent.map((msg) =>
+    msg.role === "user"
+      ? { role: "user", content: msg.content }
+      : { role: "assistant", content: msg.content }
+  );
+}
+
+/**
+ * "searchPlayersByName" -> "Search players by name"
+ */
+function defaultToolLabel(name: string): string {
+  const words = name.replace(/([a-z])([A-Z])/g, "$1 $2").toLowerCase();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+/**
+ * @throws LLMAbortedError if the client has cancelled
+ */
+function throwIfAborted(stream?: ChatStream): void {
+  if (stream?.signal?.aborted) {
+    throw new LLMAbortedError();
+  }
+}
+
+function generate(provider: LLMProvider, request: LLMRequest, stream?: ChatStream) {
+  if (!stream) {
+    return provider.generate(request);
+  }
+  throwIfAborted(stream);
+  return provider.generateStream({ ...request, signal: stream.signal }, (text) =>
+    stream.onEvent({ type: "delta", text })
+  );
+}
+
+/**
+ * Run a conversation turn to completion
+ *
+ * Tools run one at a time in the order the model called them. A handler
+ * that throws is reported to the model as { success: false, error }.
+ * A cancelled stream stops before the next model call or tool, never
+ * halfway through a tool.
+ * @throws LLMAbortedError if the stream is cancelled
+ */
+export async function runToolLoop(options: ToolLoopOptions): Promise<ToolLoopResult> {
+  const { system, tools, handleToolCall, stream } = options;
+  const maxTurns = options.maxTurns ?? DEFAULT_MAX_TURNS;
+  const logPrefix = options.logPrefix || "[AI]";
+
+  const provider = await getLLMProvider();
+  const messages: LLMMessage[] = [
+    ...options.history,
+    { role: "user", content: options.message },
+  ];
+  const toolResults: ToolLoopResult["toolResults"] = [];
+
+  let response = await generate(provider, { system, messages: [...messages], tools }, stream);
+  let turns = 0;
+
+  while (response.toolCalls.length > 0 && turns < maxTurns) {
+    turns++;
+    messages.push({ role: "assistant", content: response.text, toolCalls: response.toolCalls });
+
+    const results = [];
+    for (const call of response.toolCalls) {
+      throwIfAborted(stream);
+      console.log(`${logPrefix} Tool called: ${call.name}`, call.args);
+      const label = options.toolLabels?.[call.name] || defaultToolLabel(call.name);
+      stream?.onEvent({ type: "tool_start", name: call.name, label });
+
+      let result: Record<string, any>;
+      try {
+        result = await handleToolCall(call);
+      } catch (error: any) {
+        console.error(`${logPrefix} Error in ${call.name}:`, error);
+        result = { success: false, error: error.message || `Failed to execute ${call.name}` };
+      }
+
+      stream?.onEvent({
+        type: "tool_end",
+        name: call.name,
+        label,
+        success: result.success !== false,
+      });
+      toolResults.push({ call, response: result });
+      results.push({ name: call.name, response: result });
+    }
+    messages.push({ role: "tool", results });
+
+    response = await generate(provider, { system, messages: [...messages], tools }, stream);
+  }
+
+  if (response.toolCalls.length > 0) {
+    console.warn(`${logPrefix} Hit maximum tool-call loop limit`);
+  }
+
+  messages.push({ role: "assistant", content: response.text });
+  return { text: response.text, sources: response.sources, toolResults, messages };
+}
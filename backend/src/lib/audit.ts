@@ -0,0 +1,70 @@
+/**
+ * Business logic layer for the audit log
+ *
+ * State-changing operations record who changed which record, through what
+ * (API, admin dashboard, AI agent or the system) and the fields' before and
+ * after values. Entries are append-only.
+ */
+
+import {
+  AuditAction,
+  AuditContext,
+  AuditEntityType,
+  AuditEntry,
+  AuditFilter,
+} from "../types/audit";
+import { auditLogRepository } from "./repositories/file-audit-log-repository";
+import { diffRecords } from "./utils/audit";
+
+/**
+ * Record a change to a record
+ * Nothing is recorded when no field changed. The change has already
+ * happened, so a failure to record it is logged rather than thrown.
+ * @param before The record before the change, or null when it was created
+ * @param after The record after the change
+ */
+export async function recordAudit(
+  context: AuditContext,
+  action: AuditAction,
+  entityType: AuditEntityType,
+  entityId: string,
+  before: object | null,
+  after: object | null,
+  now: Date = new Date()
+): Promise<AuditEntry | null> {
+  const changes = diffRecords(before, after);
+  if (Object.keys(changes).length === 0) {
+    return null;
+  }
+
+  try {
+    return await auditLogRepository.append({
+      actorId: context.actorId,
+      actorRole: context.actorRole,
+      source: context.source,
+      action,
+      entityType,
+      entityId,
+      changes,
+      createdAt: now.toISOString(),
+    });
+  } catch (error) {
+    console.error(`[Audit] Could not record ${action} on ${entityType} ${entityId}:`, error);
+    return null;
+  }
+}
+
+/**
+ * List audit entries, newest first
+ */
+export async function listAuditEntries(filter: AuditFilter = {}): Promise<AuditEntry[]> {
+  const entries = await auditLogRepository.findAll();
+
+  return entries
+    .filter((e) => !filter.entityType || e.entityType === filter.entityType)
+    .filter((e) => !filter.entityId || e.entityId === filter.entityId)
+    .filter((e) => !filter.actorId || e.actorId === filter.actorId)
+    .filter((e) => !filter.action || e.action === filter.action)
+    .reverse() // Appended in order, so same-millisecond entries stay newest first
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
@@ -3,7 +3,7 @@
  */
 
 import { Request, Response, NextFunction } from "express";
-import { verifyToken } from "./session-manager";
+import { verifySessionToken } from "./session-manager";
 import { UnauthorizedError, ForbiddenError } from "../errors/auth-errors";
 
 // Extend Express Request to include session
@@ -14,6 +14,7 @@ declare global {
         memberId: string;
         email: string;
         role: string;
+        sessionId?: string;
       };
     }
   }
@@ -21,12 +22,13 @@ declare global {
 
 /**
  * Middleware to authenticate requests
+ * Rejects tokens whose session has been revoked (logout, password reset, etc.)
  */
-export function authenticate(
+export async function authenticate(
   req: Request,
   res: Response,
   next: NextFunction
-): void {
+): Promise<void> {
   try {
     // Get token from Authorization header
     const authHeader = req.headers.authorization;
@@ -37,8 +39,8 @@ export function authenticate(
     
     const token = authHeader.substring(7); // Remove "Bearer " prefix
     
-    // Verify token
-    const session = verifyToken(token);
+    // Verify token and its session
+    const session = await verifySessionToken(token);
     
     if (!session) {
       throw new UnauthorizedError("Invalid or expired token");
@@ -49,9 +51,8 @@ export function authenticate(
       memberId: session.memberId,
       email: session.email,
       role: session.role,
+      sessionId: session.sessionId,
     };
-    
-    next();
   } catch (error) {
     if (error instanceof UnauthorizedError) {
       res.status(401).json({
@@ -64,7 +65,10 @@ export function authenticate(
         code: "AUTHENTICATION_FAILED",
       });
     }
+    return;
   }
+
+  next();
 }
 
 /**
@@ -110,30 +114,30 @@ export function requireRole(...allowedRoles: string[]) {
 /**
  * Optional authentication - attaches session if token is valid, but doesn't require it
  */
-export function optionalAuth(
+export async function optionalAuth(
   req: Request,
   res: Response,
   next: NextFunction
-): void {
+): Promise<void> {
   try {
     const authHeader = req.headers.authorization;
     
     if (authHeader && authHeader.startsWith("Bearer ")) {
       const token = authHeader.substring(7);
-      const session = verifyToken(token);
+      const session = await verifySessionToken(token);
       
       if (session) {
         req.session = {
           memberId: session.memberId,
           email: session.email,
           role: session.role,
+          sessionId: session.sessionId,
         };
       }
     }
-    
-    next();
   } catch (error) {
     // Continue without authentication if token is invalid
-    next();
   }
+
+  next();
 }
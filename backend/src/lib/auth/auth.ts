@@ -2,7 +2,7 @@
  * Authentication business logic
  */
 
-import { SignUpRequest, SignInRequest, AuthResponse } from "../../types/auth";
+import { SignUpRequest, SignInRequest, AuthResponse, DeviceInfo } from "../../types/auth";
 import {
   createMember,
   getMemberByEmail,
@@ -10,7 +10,13 @@ import {
   getMember,
 } from "../members";
 import { hashPassword, comparePassword, validatePasswordStrength } from "./password-utils";
-import { createSession, createToken } from "./session-manager";
+import {
+  createSession,
+  issueSessionTokens,
+  revokeAllSessions,
+  revokeSession,
+  rotateRefreshToken,
+} from "./session-manager";
 import { createVerificationToken, verifyToken as verifyEmailToken } from "./email-verification";
 import { createResetToken, verifyResetToken } from "./password-reset";
 import {
@@ -24,6 +30,7 @@ import {
   InvalidVerificationTokenError,
   EmailNotVerifiedError,
   InvalidResetTokenError,
+  InvalidSessionError,
 } from "../errors/auth-errors";
 import { MemberNotFoundError } from "../errors/member-errors";
 import { normalizeEmail } from "../utils/member-validation";
@@ -104,7 +111,10 @@ export async function signUp(data: SignUpRequest): Promise<{
 /**
  * Sign in with email and password
  */
-export async function signIn(data: SignInRequest): Promise<AuthResponse> {
+export async function signIn(
+  data: SignInRequest,
+  device: DeviceInfo = {}
+): Promise<AuthResponse> {
   // Normalize email
   const email = normalizeEmail(data.email);
   
@@ -133,12 +143,14 @@ export async function signIn(data: SignInRequest): Promise<AuthResponse> {
   // Check if email is verified (optional - can be made required later)
   // For now, we'll allow login but might restrict certain features
   
-  // Create session
+  // Create session for this device
   const role = (member as any).role || "player";
-  const session = createSession(member.id, member.email, role);
-  
-  // Create token
-  const token = createToken(session);
+  const { token, refreshToken, expiresAt } = await createSession(
+    member.id,
+    member.email,
+    role,
+    device
+  );
   
   return {
     member: {
@@ -151,6 +163,53 @@ export async function signIn(data: SignInRequest): Promise<AuthResponse> {
       emailVerified: member.emailVerified || false,
     },
     token,
+    refreshToken,
+    expiresAt,
+  };
+}
+
+/**
+ * Exchange a refresh token for a new access token and refresh token
+ * Re-reads the member so role changes and deactivation take effect.
+ */
+export async function refreshAuth(
+  refreshToken: string,
+  device: DeviceInfo = {}
+): Promise<AuthResponse> {
+  const { session, secret } = await rotateRefreshToken(refreshToken, device);
+  
+  let member;
+  try {
+    member = await getMember(session.memberId);
+  } catch (error) {
+    if (error instanceof MemberNotFoundError) {
+      await revokeSession(session.memberId, session.id, "deactivated");
+      throw new InvalidSessionError("Account no longer exists");
+    }
+    throw error;
+  }
+  
+  if (!member.isActive) {
+    await revokeAllSessions(member.id, "deactivated");
+    throw new InvalidSessionError("Account is inactive");
+  }
+  
+  const role = (member as any).role || "player";
+  const tokens = issueSessionTokens(session, secret, member.email, role);
+  
+  return {
+    member: {
+      id: member.id,
+      memberNumber: member.memberNumber,
+      firstName: member.firstName,
+      lastName: member.lastName,
+      email: member.email,
+      role: role,
+      emailVerified: member.emailVerified || false,
+    },
+    token: tokens.token,
+    refreshToken: tokens.refreshToken,
+    expiresAt: tokens.expiresAt,
   };
 }
 
@@ -247,6 +306,9 @@ export async function resetPassword(
     passwordHash,
   });
   
+  // Sign out every device still using the old password
+  await revokeAllSessions(member.id, "password_reset");
+  
   return {
     success: true,
     message: "Password reset successfully",
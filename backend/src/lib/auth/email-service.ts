@@ -1,12 +1,45 @@
 /**
- * Email service for sending authentication emails
- * 
- * Note: This is a basic implementation. In production, use a service like
- * SendGrid, AWS SES, or Nodemailer with SMTP.
+ * Email service for sending member emails
+ *
+ * Messages are rendered from ../email/templates and queued in the outbox,
+ * which delivers them through the transport selected by EMAIL_TRANSPORT.
+ * Sending never throws: a failed email must not fail the action behind it.
  */
 
+import { EmailAttachment, EmailTemplateName, RenderedEmail } from "../../types/email";
+import { queueEmail } from "../email/outbox";
+import {
+  BookingEmailDetails,
+  ProgramEmailDetails,
+  RefundEmailDetails,
+  renderBookingCancellationEmail,
+  renderBookingChangeEmail,
+  renderBookingConfirmationEmail,
+  renderGuardianInviteEmail,
+  renderPartnerInviteEmail,
+  renderPasswordResetEmail,
+  renderProgramCancellationEmail,
+  renderProgramEnrollmentEmail,
+  renderProgramSeatEmail,
+  renderRefundEmail,
+  renderVerificationEmail,
+  renderWaitlistHoldEmail,
+  renderWelcomeEmail,
+} from "../email/templates";
+
 const FRONTEND_URL = process.env.FRONTEND_URL || "http://localhost:3009";
-const EMAIL_FROM = process.env.EMAIL_FROM || "noreply@providencetennis.com";
+
+async function send(
+  email: string,
+  template: EmailTemplateName,
+  rendered: RenderedEmail
+): Promise<void> {
+  try {
+    await queueEmail(email, template, rendered);
+  } catch (error) {
+    console.error(`Failed to queue ${template} email to ${email}:`, error);
+  }
+}
 
 /**
  * Send email verification email
@@ -17,40 +50,7 @@ export async function sendVerificationEmail(
   token: string
 ): Promise<void> {
   const verificationUrl = `${FRONTEND_URL}/verify-email?token=${token}`;
-  
-  // In production, use a real email service
-  // For now, we'll just log it
-  console.log(`
-========================================
-EMAIL VERIFICATION
-========================================
-To: ${email}
-From: ${EMAIL_FROM}
-Subject: Verify your email address
-
-Hi ${name},
-
-Please verify your email address by clicking the link below:
-
-${verificationUrl}
-
-This link will expire in 24 hours.
-
-If you didn't create an account, please ignore this email.
-
-Thanks,
-Providence Tennis Academy
-========================================
-  `);
-  
-  // TODO: Integrate with actual email service (SendGrid, Nodemailer, etc.)
-  // Example with Nodemailer:
-  // await transporter.sendMail({
-  //   from: EMAIL_FROM,
-  //   to: email,
-  //   subject: "Verify your email address",
-  //   html: `...`
-  // });
+  await send(email, "verification", renderVerificationEmail(name, verificationUrl));
 }
 
 /**
@@ -62,62 +62,158 @@ export async function sendPasswordResetEmail(
   token: string
 ): Promise<void> {
   const resetUrl = `${FRONTEND_URL}/reset-password?token=${token}`;
-  
-  // In production, use a real email service
-  // For now, we'll just log it
-  console.log(`
-========================================
-PASSWORD RESET
-========================================
-To: ${email}
-From: ${EMAIL_FROM}
-Subject: Reset your password
-
-Hi ${name},
+  await send(email, "password_reset", renderPasswordResetEmail(name, resetUrl));
+}
 
-You requested to reset your password. Click the link below to reset it:
+/**
+ * Send welcome email after signup
+ */
+export async function sendWelcomeEmail(
+  email: string,
+  name: string
+): Promise<void> {
+  await send(email, "welcome", renderWelcomeEmail(name));
+}
 
-${resetUrl}
+/**
+ * Notify a waitlisted member that a slot is being held for them
+ */
+export async function sendWaitlistHoldEmail(
+  email: string,
+  name: string,
+  hold: { courtName: string; date: string; start: string; end: string; expiresAt: string }
+): Promise<void> {
+  const waitlistUrl = `${FRONTEND_URL}/dashboard/waitlist`;
+  await send(email, "waitlist_hold", renderWaitlistHoldEmail(name, hold, waitlistUrl));
+}
 
-This link will expire in 30 minutes.
+/**
+ * Confirm a new court booking
+ */
+export async function sendBookingConfirmationEmail(
+  email: string,
+  name: string,
+  booking: BookingEmailDetails,
+  invite?: EmailAttachment
+): Promise<void> {
+  const bookingsUrl = `${FRONTEND_URL}/dashboard/bookings`;
+  await send(email, "booking_confirmation", {
+    ...renderBookingConfirmationEmail(name, booking, bookingsUrl),
+    attachments: invite ? [invite] : undefined,
+  });
+}
 
-If you didn't request a password reset, please ignore this email.
+/**
+ * Notify that a court booking was cancelled (with any refund issued)
+ */
+export async function sendBookingCancellationEmail(
+  email: string,
+  name: string,
+  booking: BookingEmailDetails,
+  refund?: RefundEmailDetails,
+  invite?: EmailAttachment
+): Promise<void> {
+  await send(email, "booking_cancellation", {
+    ...renderBookingCancellationEmail(name, booking, refund),
+    attachments: invite ? [invite] : undefined,
+  });
+}
 
-Thanks,
-Providence Tennis Academy
-========================================
-  `);
-  
-  // TODO: Integrate with actual email service
+/**
+ * Notify that staff moved a booking to another time or court
+ */
+export async function sendBookingChangeEmail(
+  email: string,
+  name: string,
+  booking: BookingEmailDetails,
+  previous: BookingEmailDetails,
+  invite?: EmailAttachment
+): Promise<void> {
+  const bookingsUrl = `${FRONTEND_URL}/dashboard/bookings`;
+  await send(email, "booking_change", {
+    ...renderBookingChangeEmail(name, booking, previous, bookingsUrl),
+    attachments: invite ? [invite] : undefined,
+  });
 }
 
 /**
- * Send welcome email after signup
+ * Send a refund receipt
  */
-export async function sendWelcomeEmail(
+export async function sendRefundEmail(
   email: string,
-  name: string
+  name: string,
+  refund: RefundEmailDetails
 ): Promise<void> {
-  console.log(`
-========================================
-WELCOME EMAIL
-========================================
-To: ${email}
-From: ${EMAIL_FROM}
-Subject: Welcome to Providence Tennis Academy!
+  await send(email, "refund", renderRefundEmail(name, refund));
+}
 
-Hi ${name},
+/**
+ * Ask a player to accept a parent's guardian invitation
+ */
+export async function sendGuardianInviteEmail(
+  email: string,
+  name: string,
+  parentName: string
+): Promise<void> {
+  const familyUrl = `${FRONTEND_URL}/dashboard/family`;
+  await send(email, "guardian_invite", renderGuardianInviteEmail(name, parentName, familyUrl));
+}
 
-Welcome to Providence Tennis Academy! We're excited to have you join our community.
+/**
+ * Invite a doubles partner to a booking
+ * Members respond from their bookings; guests get a signed link (respondPath).
+ */
+export async function sendPartnerInviteEmail(
+  email: string,
+  name: string,
+  inviterName: string,
+  booking: BookingEmailDetails,
+  respondPath: string = "/dashboard/bookings"
+): Promise<void> {
+  await send(
+    email,
+    "partner_invite",
+    renderPartnerInviteEmail(name, inviterName, booking, `${FRONTEND_URL}${respondPath}`)
+  );
+}
 
-Your account has been created successfully. Please verify your email address to get started.
+/**
+ * Confirm a program sign-up (enrolled or waitlisted)
+ */
+export async function sendProgramEnrollmentEmail(
+  email: string,
+  name: string,
+  program: ProgramEmailDetails,
+  waitlisted: boolean
+): Promise<void> {
+  const programsUrl = `${FRONTEND_URL}/dashboard/programs`;
+  await send(
+    email,
+    "program_enrollment",
+    renderProgramEnrollmentEmail(name, program, waitlisted, programsUrl)
+  );
+}
 
-If you have any questions, feel free to contact us at 401-935-4336.
+/**
+ * Tell a waitlisted player they've been given a seat
+ */
+export async function sendProgramSeatEmail(
+  email: string,
+  name: string,
+  program: ProgramEmailDetails
+): Promise<void> {
+  const programsUrl = `${FRONTEND_URL}/dashboard/programs`;
+  await send(email, "program_seat", renderProgramSeatEmail(name, program, programsUrl));
+}
 
-Thanks,
-Providence Tennis Academy
-========================================
-  `);
-  
-  // TODO: Integrate with actual email service
+/**
+ * Notify that a program was cancelled (with any refund issued)
+ */
+export async function sendProgramCancellationEmail(
+  email: string,
+  name: string,
+  program: ProgramEmailDetails,
+  refund?: RefundEmailDetails
+): Promise<void> {
+  await send(email, "program_cancellation", renderProgramCancellationEmail(name, program, refund));
 }
@@ -0,0 +1,198 @@
+/**
+ * Authorization policies for member and reservation endpoints
+ *
+ * Ownership-aware checks layered on role-utils: members act on their own
+ * records, coaches can read players, parents act for their linked players,
+ * and admins can do everything. Actors come from the authenticated session
+ * (req.session).
+ */
+
+import { Member } from "../../types/member";
+import { Program } from "../../types/program";
+import { Reservation } from "../../types/reservation";
+import { isAdmin, isStaff, normalizeRole } from "../utils/role-utils";
+
+export interface Actor {
+  memberId: string;
+  role: string;
+}
+
+/**
+ * Member fields only admins may change
+ */
+export const ADMIN_ONLY_MEMBER_FIELDS: (keyof Member)[] = [
+  "role",
+  "isActive",
+  "memberNumber",
+  "emailVerified",
+  "passwordHash",
+  "penaltyCancellations",
+  "notes",
+  "guardianIds",
+  "stripeCustomerId",
+  "calendarToken",
+];
+
+/**
+ * Reservation fields owners (and their parents) may change; admins can change any
+ */
+export const OWNER_EDITABLE_RESERVATION_FIELDS: (keyof Reservation)[] = [
+  "courtId",
+  "date",
+  "timeSlot",
+  "notes",
+  "customerName",
+  "customerEmail",
+  "customerPhone",
+];
+
+/**
+ * Member fields only admins may change once a player has a linked parent
+ * (the player's age decides when they can leave the family link)
+ */
+export const GUARDIAN_LOCKED_MEMBER_FIELDS: (keyof Member)[] = ["dateOfBirth"];
+
+function actorRole(actor: Actor) {
+  return normalizeRole(actor.role);
+}
+
+/**
+ * Check if the actor is the given member
+ */
+export function isSelf(actor: Actor, memberId: string): boolean {
+  return actor.memberId === memberId;
+}
+
+/**
+ * Check if the actor is a linked parent of the given member
+ */
+export function isGuardianOf(actor: Actor, member: Pick<Member, "guardianIds">): boolean {
+  return actorRole(actor) === "parent" && !!member.guardianIds?.includes(actor.memberId);
+}
+
+/**
+ * Coaches and admins can list members (coaches only see players)
+ */
+export function canListMembers(actor: Actor): boolean {
+  return isStaff(actorRole(actor));
+}
+
+/**
+ * Admins can create and deactivate members
+ */
+export function canManageMembers(actor: Actor): boolean {
+  return isAdmin(actorRole(actor));
+}
+
+/**
+ * Members can read themselves, coaches can read players, parents can read
+ * their linked players, admins can read anyone
+ */
+export function canReadMember(
+  actor: Actor,
+  member: Pick<Member, "id" | "role" | "guardianIds">
+): boolean {
+  if (isAdmin(actorRole(actor)) || isSelf(actor, member.id) || isGuardianOf(actor, member)) {
+    return true;
+  }
+
+  return actorRole(actor) === "coach" && normalizeRole(member.role) === "player";
+}
+
+/**
+ * Members can update themselves, admins can update anyone
+ */
+export function canUpdateMember(actor: Actor, memberId: string): boolean {
+  return isAdmin(actorRole(actor)) || isSelf(actor, memberId);
+}
+
+/**
+ * Fields in an update the actor isn't allowed to change
+ * Pass the member being updated so linked players' locked fields are checked.
+ */
+export function getForbiddenMemberFields(
+  actor: Actor,
+  updates: Partial<Member>,
+  member?: Member
+): string[] {
+  if (isAdmin(actorRole(actor))) {
+    return [];
+  }
+
+  const forbidden = ADMIN_ONLY_MEMBER_FIELDS.filter((field) => updates[field] !== undefined);
+  if (member?.guardianIds?.length) {
+    // Resending the current value (e.g. a full profile form) is allowed
+    forbidden.push(
+      ...GUARDIAN_LOCKED_MEMBER_FIELDS.filter(
+        (field) => updates[field] !== undefined && updates[field] !== member[field]
+      )
+    );
+  }
+  return forbidden;
+}
+
+/**
+ * Members can book for themselves, parents for their linked players, admins for anyone
+ */
+export function canBookFor(actor: Actor, member: Pick<Member, "id" | "guardianIds">): boolean {
+  return isAdmin(actorRole(actor)) || isSelf(actor, member.id) || isGuardianOf(actor, member);
+}
+
+/**
+ * Members can change or cancel their own reservations, admins any reservation
+ * Parents can also modify their linked players' reservations (pass the owner).
+ * Guest reservations have no owner, so only admins can modify them.
+ */
+export function canModifyReservation(
+  actor: Actor,
+  reservation: Pick<Reservation, "memberId">,
+  owner?: Pick<Member, "guardianIds"> | null
+): boolean {
+  if (isAdmin(actorRole(actor))) {
+    return true;
+  }
+
+  if (!reservation.memberId) {
+    return false;
+  }
+
+  return isSelf(actor, reservation.memberId) || (!!owner && isGuardianOf(actor, owner));
+}
+
+/**
+ * Fields in a reservation update the actor isn't allowed to change
+ * Payment, status, ownership and override fields are admin-only.
+ */
+export function getForbiddenReservationFields(
+  actor: Actor,
+  updates: Partial<Reservation>
+): string[] {
+  if (isAdmin(actorRole(actor))) {
+    return [];
+  }
+
+  return Object.keys(updates).filter(
+    (field) => !OWNER_EDITABLE_RESERVATION_FIELDS.includes(field as keyof Reservation)
+  );
+}
+
+/**
+ * Coaches manage their own hours, time off and lessons; admins manage anyone's
+ */
+export function canManageCoachSchedule(actor: Actor, coachId: string): boolean {
+  return isAdmin(actorRole(actor)) || isSelf(actor, coachId);
+}
+
+/**
+ * Staff (coaches and admins) can subscribe to a court's bookings
+ */
+export function canViewCourtCalendar(actor: Actor): boolean {
+  return isStaff(actorRole(actor));
+}
+
+/**
+ * A program's coaches see its roster and take attendance; admins can for any program
+ */
+export function canCoachProgram(actor: Actor, program: Pick<Program, "coachIds">): boolean {
+  return isAdmin(actorRole(actor)) || program.coachIds.includes(actor.memberId);
+}
@@ -1,49 +1,88 @@
 /**
- * Session management using JWT tokens
+ * Session management using short-lived JWT access tokens and rotating
+ * refresh tokens
+ *
+ * Every sign-in creates a server-side session (one per device). Access tokens
+ * carry the session ID and are only honoured while that session is active, so
+ * revoking a session logs the device out within one request. Refresh tokens
+ * are "<sessionId>.<secret>"; only a hash of the secret is stored, and each
+ * refresh replaces it. Presenting a replaced token again (outside a short
+ * grace window for concurrent tabs) is treated as theft and revokes the session.
  */
 
 import * as jwt from "jsonwebtoken";
-import { Session } from "../../types/auth";
+import crypto from "crypto";
+import { AuthSession, DeviceInfo, Session, SessionRevokeReason } from "../../types/auth";
+import { sessionRepository } from "../repositories/file-session-repository";
+import { InvalidSessionError } from "../errors/auth-errors";
 
 const JWT_SECRET: string = process.env.JWT_SECRET || "your-secret-key-change-in-production";
-const JWT_EXPIRES_IN: string = process.env.JWT_EXPIRES_IN || "7d"; // 7 days default
+const JWT_EXPIRES_IN: string = process.env.JWT_EXPIRES_IN || "15m"; // Access token lifetime
+const DEFAULT_REFRESH_TOKEN_TTL_DAYS = 30;
+const REUSE_GRACE_MS = 30 * 1000;
 
-// In-memory session store (in production, use Redis or database)
-const activeSessions = new Map<string, Session>();
+export interface SessionTokens {
+  session: Session;
+  token: string;          // Access token
+  refreshToken: string;
+  expiresAt: string;      // Access token expiry
+}
+
+function getRefreshTokenTtlMs(): number {
+  const days = Number(process.env.REFRESH_TOKEN_TTL_DAYS);
+  return (Number.isFinite(days) && days > 0 ? days : DEFAULT_REFRESH_TOKEN_TTL_DAYS) *
+    24 * 60 * 60 * 1000;
+}
+
+function hashSecret(secret: string): string {
+  return crypto.createHash("sha256").update(secret).digest("hex");
+}
+
+function generateSecret(): string {
+  return crypto.randomBytes(32).toString("base64url");
+}
+
+function isActive(session: AuthSession, now: Date = new Date()): boolean {
+  return !session.revokedAt && new Date(session.expiresAt) > now;
+}
 
 /**
- * Create a JWT token for a session
+ * Create a JWT access token for a session
  */
 export function createToken(session: Session): string {
-  const payload = {
+  const payload: Record<string, string> = {
     memberId: session.memberId,
     email: session.email,
     role: session.role,
-    expiresAt: session.expiresAt,
   };
-  
+  if (session.sessionId) {
+    payload.sid = session.sessionId;
+  }
+
   return jwt.sign(payload, JWT_SECRET, {
     expiresIn: JWT_EXPIRES_IN,
   } as jwt.SignOptions);
 }
 
 /**
- * Verify and decode a JWT token
+ * Verify and decode a JWT token (signature and expiry only)
+ * Use verifySessionToken to also check the session hasn't been revoked.
  */
 export function verifyToken(token: string): Session | null {
   try {
     const decoded = jwt.verify(token, JWT_SECRET) as any;
-    
+
     // Check if token is expired
     if (decoded.exp && decoded.exp * 1000 < Date.now()) {
       return null;
     }
-    
+
     return {
       memberId: decoded.memberId,
       email: decoded.email,
       role: decoded.role,
       expiresAt: new Date(decoded.exp * 1000).toISOString(),
+      sessionId: decoded.sid,
     };
   } catch (error) {
     return null;
@@ -51,57 +90,175 @@ export function verifyToken(token: string): Session | null {
 }
 
 /**
- * Create a session object
+ * Verify an access token and check its session is still active
  */
-export function createSession(
-  memberId: string,
+export async function verifySessionToken(token: string): Promise<Session | null> {
+  const session = verifyToken(token);
+  if (!session || !session.sessionId) {
+    return null;
+  }
+
+  const stored = await sessionRepository.findById(session.sessionId);
+  if (!stored || stored.memberId !== session.memberId || !isActive(stored)) {
+    return null;
+  }
+
+  return session;
+}
+
+/**
+ * Sign an access token for a stored session and pair it with its refresh token
+ */
+export function issueSessionTokens(
+  stored: AuthSession,
+  secret: string,
   email: string,
   role: string
-): Session {
-  const expiresAt = new Date();
-  expiresAt.setDate(expiresAt.getDate() + 7); // 7 days from now
-  
+): SessionTokens {
   const session: Session = {
-    memberId,
+    memberId: stored.memberId,
     email,
     role,
-    expiresAt: expiresAt.toISOString(),
+    expiresAt: stored.expiresAt,
+    sessionId: stored.id,
+  };
+  const token = createToken(session);
+  const decoded = jwt.decode(token) as { exp: number };
+
+  return {
+    session,
+    token,
+    refreshToken: `${stored.id}.${secret}`,
+    expiresAt: new Date(decoded.exp * 1000).toISOString(),
   };
-  
-  // Store session in memory
-  activeSessions.set(memberId, session);
-  
-  return session;
 }
 
 /**
- * Get session by member ID
+ * Start a new session for a device and issue its tokens
  */
-export function getSession(memberId: string): Session | null {
-  return activeSessions.get(memberId) || null;
+export async function createSession(
+  memberId: string,
+  email: string,
+  role: string,
+  device: DeviceInfo = {}
+): Promise<SessionTokens> {
+  const secret = generateSecret();
+  const now = new Date();
+
+  const stored = await sessionRepository.create({
+    memberId,
+    refreshTokenHash: hashSecret(secret),
+    userAgent: device.userAgent,
+    ipAddress: device.ipAddress,
+    lastUsedAt: now.toISOString(),
+    expiresAt: new Date(now.getTime() + getRefreshTokenTtlMs()).toISOString(),
+  });
+
+  return issueSessionTokens(stored, secret, email, role);
 }
 
 /**
- * Remove a session (logout)
+ * Exchange a refresh token for a new one (rotation)
+ * The caller re-reads the member and signs the access token via issueSessionTokens.
+ * @throws InvalidSessionError if the token is unknown, expired, revoked or reused
  */
-export function removeSession(memberId: string): void {
-  activeSessions.delete(memberId);
+export async function rotateRefreshToken(
+  refreshToken: string,
+  device: DeviceInfo = {},
+  now: Date = new Date()
+): Promise<{ session: AuthSession; secret: string }> {
+  const separator = refreshToken.indexOf(".");
+  const sessionId = separator > 0 ? refreshToken.substring(0, separator) : "";
+  const secretHash = hashSecret(refreshToken.substring(separator + 1));
+
+  const stored = sessionId ? await sessionRepository.findById(sessionId) : null;
+  if (!stored || !isActive(stored, now)) {
+    throw new InvalidSessionError("Session has expired or was revoked");
+  }
+
+  if (stored.refreshTokenHash !== secretHash) {
+    const recentlyRotated =
+      stored.previousRefreshTokenHash === secretHash &&
+      stored.rotatedAt &&
+      now.getTime() - new Date(stored.rotatedAt).getTime() <= REUSE_GRACE_MS;
+
+    if (!recentlyRotated) {
+      await sessionRepository.update(stored.id, {
+        revokedAt: now.toISOString(),
+        revokedReason: "refresh_token_reuse",
+      });
+    }
+    throw new InvalidSessionError("Refresh token has already been used");
+  }
+
+  const secret = generateSecret();
+  const rotated = await sessionRepository.update(stored.id, {
+    refreshTokenHash: hashSecret(secret),
+    previousRefreshTokenHash: stored.refreshTokenHash,
+    rotatedAt: now.toISOString(),
+    lastUsedAt: now.toISOString(),
+    expiresAt: new Date(now.getTime() + getRefreshTokenTtlMs()).toISOString(),
+    userAgent: device.userAgent || stored.userAgent,
+    ipAddress: device.ipAddress || stored.ipAddress,
+  });
+
+  return { session: rotated as AuthSession, secret };
 }
 
 /**
- * Remove all expired sessions (cleanup)
+ * List a member's active sessions (their signed-in devices)
  */
-export function cleanupExpiredSessions(): void {
+export async function getActiveSessions(memberId: string): Promise<AuthSession[]> {
+  const sessions = await sessionRepository.findByMember(memberId);
   const now = new Date();
-  
-  for (const [memberId, session] of Array.from(activeSessions.entries())) {
-    if (new Date(session.expiresAt) < now) {
-      activeSessions.delete(memberId);
-    }
+  return sessions.filter((s) => isActive(s, now));
+}
+
+/**
+ * Revoke one of a member's sessions
+ * @returns True if an active session was revoked
+ */
+export async function revokeSession(
+  memberId: string,
+  sessionId: string,
+  reason: SessionRevokeReason = "logout"
+): Promise<boolean> {
+  const stored = await sessionRepository.findById(sessionId);
+  if (!stored || stored.memberId !== memberId || stored.revokedAt) {
+    return false;
   }
+
+  await sessionRepository.update(sessionId, {
+    revokedAt: new Date().toISOString(),
+    revokedReason: reason,
+  });
+  return true;
+}
+
+/**
+ * Revoke every session of a member, optionally keeping one
+ * @returns Number of sessions revoked
+ */
+export async function revokeAllSessions(
+  memberId: string,
+  reason: SessionRevokeReason,
+  exceptSessionId?: string
+): Promise<number> {
+  return sessionRepository.revokeByMember(memberId, reason, exceptSessionId);
+}
+
+/**
+ * Remove sessions that expired or were revoked over a day ago (cleanup)
+ */
+export async function cleanupExpiredSessions(now: Date = new Date()): Promise<number> {
+  return sessionRepository.deleteInactive(new Date(now.getTime() - 24 * 60 * 60 * 1000));
 }
 
 // Run cleanup every hour
 if (typeof setInterval !== "undefined") {
-  setInterval(cleanupExpiredSessions, 60 * 60 * 1000); // 1 hour
+  setInterval(() => {
+    cleanupExpiredSessions().catch((error) =>
+      console.error("Error cleaning up sessions:", error)
+    );
+  }, 60 * 60 * 1000); // 1 hour
 }
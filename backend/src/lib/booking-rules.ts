@@ -0,0 +1,80 @@
+/**
+ * Business logic layer for booking rules
+ *
+ * Admins set how far ahead each role can book, how many upcoming
+ * reservations and court hours a member can hold, and the minimum lead
+ * time. A membership plan's booking window replaces the role's window, and
+ * members suspended for penalties can't book at all. Admin bookings can
+ * skip the rules (see rulesOverriddenBy).
+ */
+
+import { BookingRules, ReservationRequest } from "../types/reservation";
+import { bookingRulesRepository } from "./repositories/file-booking-rules-repository";
+import { reservationRepository } from "./repositories";
+import { getMember } from "./members";
+import { getEntitlements } from "./subscriptions";
+import { getPenaltyStatus } from "./penalties";
+import { BookingContext, checkBookingRules, mergeBookingRules } from "./utils/booking-rules";
+
+/**
+ * Get the booking rules in effect
+ */
+export async function getBookingRules(): Promise<BookingRules> {
+  return bookingRulesRepository.get();
+}
+
+/**
+ * Change some or all of the booking rules
+ * @throws ValidationError if a value is malformed
+ * @throws LockError if the rules file is locked
+ */
+export async function updateBookingRules(
+  updates: Partial<BookingRules>,
+  updatedBy?: string
+): Promise<BookingRules> {
+  const current = await bookingRulesRepository.get();
+  const merged = mergeBookingRules(current, updates);
+  return bookingRulesRepository.save({
+    ...merged,
+    updatedAt: new Date().toISOString(),
+    updatedBy,
+  });
+}
+
+/**
+ * Check a reservation request against the booking rules
+ * Member bookings are checked against the member's role, plan and
+ * existing reservations (whoever books for them); guests get the guest window.
+ * @param excludeReservationId A reservation being moved, so it doesn't count against its own caps
+ * @throws ValidationError if the request breaks a rule
+ * @throws MemberNotFoundError if the member doesn't exist
+ */
+export async function enforceBookingRules(
+  request: Pick<ReservationRequest, "memberId" | "date" | "timeSlot">,
+  now: Date = new Date(),
+  excludeReservationId?: string
+): Promise<void> {
+  const rules = await bookingRulesRepository.get();
+  let context: BookingContext = { bookerType: "guest", reservations: [], now };
+
+  if (request.memberId) {
+    const member = await getMember(request.memberId);
+    const entitlements = await getEntitlements(member, request.date);
+    const reservations = await reservationRepository.findAll();
+    const { restrictedUntil } = await getPenaltyStatus(member.id, now);
+
+    context = {
+      bookerType: member.role || "player",
+      planWindow: entitlements
+        ? { planName: entitlements.planName, days: entitlements.bookingWindowDays }
+        : undefined,
+      reservations: reservations.filter(
+        (r) => r.memberId === member.id && r.id !== excludeReservationId
+      ),
+      restrictedUntil: restrictedUntil ? new Date(restrictedUntil) : undefined,
+      now,
+    };
+  }
+
+  checkBookingRules(rules, request, context);
+}
@@ -0,0 +1,312 @@
+/**
+ * Business logic layer for calendar feeds and invites
+ *
+ * Each member has a secret token that goes in their feed URLs, so calendar
+ * apps can subscribe without signing in. Members get their bookings, lessons
+ * and program sessions; coaches also get the lessons and programs they
+ * teach, and staff can subscribe to any court. Events keep the same UID for
+ * the life of a booking, so moves and cancellations update the event in
+ * place instead of adding a new one.
+ */
+
+import { randomBytes } from "crypto";
+import { EmailAttachment } from "../types/email";
+import { Member } from "../types/member";
+import { Program } from "../types/program";
+import { CourtClosure, Reservation } from "../types/reservation";
+import { memberRepository, reservationRepository } from "./repositories";
+import { getAllCourts, getCourt } from "./courts";
+import { listClosures } from "./closures";
+import { getMember } from "./members";
+import { getMemberEnrollments, listPrograms } from "./programs";
+import { canViewCourtCalendar } from "./auth/policies";
+import { NotFoundError } from "./errors/reservation-errors";
+import { buildCalendar, CalendarEvent, CalendarMethod } from "./utils/ical";
+import { normalizeRole } from "./utils/role-utils";
+
+/**
+ * Feeds start this many days back so recent history stays visible
+ */
+export const FEED_HISTORY_DAYS = 90;
+
+const ACADEMY_NAME = "Providence Tennis Academy";
+const UID_DOMAIN = "providencetennis.com";
+
+export interface CalendarFeeds {
+  bookings: string;
+  coaching?: string;               // Coaches only
+  courts?: Array<{ courtId: string; courtName: string; url: string }>; // Staff only
+}
+
+function getOrganizer(): { name: string; email: string } {
+  return { name: ACADEMY_NAME, email: process.env.EMAIL_FROM || "noreply@providencetennis.com" };
+}
+
+function historyStart(now: Date): string {
+  const start = new Date(now.getTime() - FEED_HISTORY_DAYS * 24 * 60 * 60 * 1000);
+  return `${start.getFullYear()}-${String(start.getMonth() + 1).padStart(2, "0")}-${String(
+    start.getDate()
+  ).padStart(2, "0")}`;
+}
+
+function isCoach(member: Member): boolean {
+  return normalizeRole(member.role) === "coach";
+}
+
+function fullName(member: Pick<Member, "firstName" | "lastName">): string {
+  return `${member.firstName} ${member.lastName}`;
+}
+
+/**
+ * Build the feed URLs for a member's token
+ */
+async function feedUrls(member: Member, token: string, baseUrl: string): Promise<CalendarFeeds> {
+  const root = `${baseUrl}/api/calendar/${token}`;
+  const feeds: CalendarFeeds = { bookings: `${root}/bookings.ics` };
+
+  if (isCoach(member)) {
+    feeds.coaching = `${root}/coaching.ics`;
+  }
+  if (canViewCourtCalendar({ memberId: member.id, role: member.role || "player" })) {
+    const courts = await getAllCourts();
+    feeds.courts = courts.map((court) => ({
+      courtId: court.id,
+      courtName: court.name,
+      url: `${root}/courts/${court.id}.ics`,
+    }));
+  }
+
+  return feeds;
+}
+
+/**
+ * Get a member's feed URLs, creating their token on first use
+ * @param baseUrl Public URL of this API (e.g. https://api.example.com)
+ */
+export async function getCalendarFeeds(memberId: string, baseUrl: string): Promise<CalendarFeeds> {
+  let member = await getMember(memberId);
+  if (!member.calendarToken) {
+    member = await memberRepository.update(memberId, {
+      calendarToken: randomBytes(24).toString("base64url"),
+    });
+  }
+
+  return feedUrls(member, member.calendarToken as string, baseUrl);
+}
+
+/**
+ * Replace a member's token; feed URLs handed out before stop working
+ */
+export async function resetCalendarToken(memberId: string, baseUrl: string): Promise<CalendarFeeds> {
+  await getMember(memberId);
+  const member = await memberRepository.update(memberId, {
+    calendarToken: randomBytes(24).toString("base64url"),
+  });
+
+  return feedUrls(member, member.calendarToken as string, baseUrl);
+}
+
+/**
+ * Find the active member a feed token belongs to
+ */
+export async function findMemberByCalendarToken(token: string): Promise<Member | null> {
+  if (!token) {
+    return null;
+  }
+
+  const members = await memberRepository.findAll();
+  return members.find((m) => m.calendarToken === token && m.isActive) || null;
+}
+
+/**
+ * Map a reservation to an event
+ * @param title What the viewer calls it (their own booking, a lesson they teach, ...)
+ */
+function reservationEvent(reservation: Reservation, title: string): CalendarEvent {
+  return {
+    uid: `reservation-${reservation.id}@${UID_DOMAIN}`,
+    date: reservation.date,
+    start: reservation.timeSlot.start,
+    end: reservation.timeSlot.end,
+    summary: `${title} - ${reservation.courtName}`,
+    description: reservation.notes,
+    location: `${reservation.courtName}, ${ACADEMY_NAME}`,
+    status: reservation.status === "cancelled" ? "CANCELLED" : "CONFIRMED",
+    sequence: reservation.sequence || 0,
+    created: reservation.createdAt,
+    lastModified: reservation.updatedAt || reservation.createdAt,
+  };
+}
+
+function programEvents(program: Program, cancelled: boolean): CalendarEvent[] {
+  return program.sessions.map((session) => ({
+    uid: `program-${program.id}-${session.id}@${UID_DOMAIN}`,
+    date: session.date,
+    start: session.start,
+    end: session.end,
+    summary: program.name,
+    description: program.description,
+    location: ACADEMY_NAME,
+    status: cancelled ? "CANCELLED" : "CONFIRMED",
+    sequence: cancelled ? 1 : 0,
+    created: program.createdAt,
+    lastModified: program.updatedAt,
+  }));
+}
+
+function closureEvents(closure: CourtClosure, courtName: string): CalendarEvent[] {
+  const summary = `Closed (${closure.reason}) - ${courtName}`;
+  if (!closure.startTime || !closure.endTime) {
+    return [
+      {
+        uid: `closure-${closure.id}@${UID_DOMAIN}`,
+        date: closure.startDate,
+        endDate: closure.endDate,
+        summary,
+        status: "CONFIRMED",
+        created: closure.createdAt,
+      },
+    ];
+  }
+
+  // Partial-day closures repeat their hours on each day
+  const events: CalendarEvent[] = [];
+  for (
+    let date = new Date(`${closure.startDate}T00:00:00Z`);
+    date.toISOString().substring(0, 10) <= closure.endDate;
+    date.setUTCDate(date.getUTCDate() + 1)
+  ) {
+    const day = date.toISOString().substring(0, 10);
+    events.push({
+      uid: `closure-${closure.id}-${day}@${UID_DOMAIN}`,
+      date: day,
+      start: closure.startTime,
+      end: closure.endTime,
+      summary,
+      status: "CONFIRMED",
+      created: closure.createdAt,
+    });
+  }
+  return events;
+}
+
+function sortEvents(events: CalendarEvent[]): CalendarEvent[] {
+  return events.sort((a, b) =>
+    `${a.date}T${a.start || "00:00"}`.localeCompare(`${b.date}T${b.start || "00:00"}`)
+  );
+}
+
+/**
+ * A member's bookings, partner games, lessons and program sessions
+ */
+export async function renderMemberCalendar(member: Member, now: Date = new Date()): Promise<string> {
+  const from = historyStart(now);
+  const reservations = await reservationRepository.findAll();
+  const members = await memberRepository.findAll();
+  const coachName = (id: string) => {
+    const coach = members.find((m) => m.id === id);
+    return coach ? fullName(coach) : "your coach";
+  };
+
+  const events = reservations
+    .filter((r) => r.date >= from)
+    .filter(
+      (r) =>
+        r.memberId === member.id ||
+        (r.participants || []).some(
+          (p) => p.status === "accepted" && (p.memberId === member.id || p.email === member.email)
+        )
+    )
+    .map((r) => reservationEvent(r, r.coachId ? `Lesson with ${coachName(r.coachId)}` : "Tennis"));
+
+  for (const enrollment of await getMemberEnrollments(member.id)) {
+    if (enrollment.status === "waitlisted") {
+      continue;
+    }
+    const cancelled = enrollment.status === "cancelled" || enrollment.program.status === "cancelled";
+    events.push(...programEvents(enrollment.program, cancelled).filter((e) => e.date >= from));
+  }
+
+  return buildCalendar(sortEvents(events), { name: `${ACADEMY_NAME} - My bookings`, now });
+}
+
+/**
+ * Lessons and programs a coach teaches
+ */
+export async function renderCoachCalendar(coach: Member, now: Date = new Date()): Promise<string> {
+  const from = historyStart(now);
+  const reservations = await reservationRepository.findAll();
+  const members = await memberRepository.findAll();
+  const playerName = (r: Reservation) => {
+    const player = members.find((m) => m.id === r.memberId);
+    return player ? fullName(player) : r.guestName || r.customerName || "Guest";
+  };
+
+  const events = reservations
+    .filter((r) => r.coachId === coach.id && r.date >= from)
+    .map((r) => reservationEvent(r, `Lesson: ${playerName(r)}`));
+
+  const programs = await listPrograms(
+    { coachId: coach.id, includePast: true, includeCancelled: true },
+    now
+  );
+  for (const program of programs) {
+    events.push(
+      ...programEvents(program, program.status === "cancelled").filter((e) => e.date >= from)
+    );
+  }
+
+  return buildCalendar(sortEvents(events), { name: `${ACADEMY_NAME} - Coaching`, now });
+}
+
+/**
+ * Everything on a court: bookings (with who booked them) and closures
+ * @throws NotFoundError if the court does not exist
+ */
+export async function renderCourtCalendar(courtId: string, now: Date = new Date()): Promise<string> {
+  const court = await getCourt(courtId);
+  if (!court) {
+    throw new NotFoundError(`Court ${courtId}`);
+  }
+
+  const from = historyStart(now);
+  const reservations = await reservationRepository.findAll();
+  const members = await memberRepository.findAll();
+  const bookerName = (r: Reservation) => {
+    const booker = members.find((m) => m.id === r.memberId);
+    return booker ? fullName(booker) : r.guestName || r.customerName || "Guest";
+  };
+
+  const events = reservations
+    .filter((r) => r.courtId === courtId && r.date >= from)
+    .map((r) => reservationEvent(r, r.coachId ? `Lesson: ${bookerName(r)}` : bookerName(r)));
+
+  for (const closure of await listClosures({ courtId, from })) {
+    events.push(...closureEvents(closure, court.name));
+  }
+
+  return buildCalendar(sortEvents(events), { name: `${ACADEMY_NAME} - ${court.name}`, now });
+}
+
+/**
+ * A one-event invite to attach to booking emails
+ * REQUEST adds or updates the event; CANCEL removes it.
+ */
+export function renderReservationInvite(
+  reservation: Reservation,
+  method: Exclude<CalendarMethod, "PUBLISH">,
+  attendee: { email: string; name?: string }
+): EmailAttachment {
+  const event: CalendarEvent = {
+    ...reservationEvent(reservation, reservation.coachId ? "Tennis lesson" : "Tennis"),
+    status: method === "CANCEL" ? "CANCELLED" : "CONFIRMED",
+    organizer: getOrganizer(),
+    attendee,
+  };
+
+  return {
+    filename: method === "CANCEL" ? "cancelled.ics" : "booking.ics",
+    contentType: `text/calendar; charset=utf-8; method=${method}`,
+    content: buildCalendar([event], { name: ACADEMY_NAME, method }),
+  };
+}
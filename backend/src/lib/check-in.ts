@@ -0,0 +1,247 @@
+/**
+ * Business logic layer for reservation check-in and no-shows
+ *
+ * Players check in at the front desk (staff look them up by member number)
+ * or by scanning the QR code on their booking. Reservations nobody checks
+ * in to within NO_SHOW_GRACE_MINUTES of the start become no-shows: the
+ * member gets a penalty and the court is released for walk-ins.
+ */
+
+import { format } from "date-fns";
+import QRCode from "qrcode";
+import { Reservation, CheckInMethod } from "../types/reservation";
+import { Member } from "../types/member";
+import { reservationRepository } from "./repositories";
+import { getMemberByNumber } from "./members";
+import { signValue, verifySignature } from "./auth/signed-codes";
+import { recordPenalty } from "./penalties";
+import { MemberNotFoundError } from "./errors/member-errors";
+import { NotFoundError, ValidationError } from "./errors/reservation-errors";
+import {
+  assertCanCheckIn,
+  isActiveReservation,
+  isFinished,
+  isNoShow,
+} from "./utils/reservation-status";
+
+export const DEFAULT_NO_SHOW_GRACE_MINUTES = 15;
+
+export interface CheckInCode {
+  code: string;
+  qrCode: string;   // SVG data URL encoding the code
+}
+
+export interface FrontDeskLookup {
+  member: Pick<Member, "id" | "memberNumber" | "firstName" | "lastName" | "email">;
+  reservations: Reservation[];  // Today's confirmed and checked-in reservations
+}
+
+export interface AttendanceSweep {
+  noShows: string[];    // Reservation IDs marked as no-shows
+  completed: string[];  // Reservation IDs marked as completed
+  failed: string[];     // Reservation IDs that couldn't be updated (retried on the next run)
+}
+
+function getGraceMinutes(): number {
+  const minutes = Number(process.env.NO_SHOW_GRACE_MINUTES);
+  return Number.isFinite(minutes) && minutes >= 0 ? minutes : DEFAULT_NO_SHOW_GRACE_MINUTES;
+}
+
+/**
+ * Work out which reservation a scanned code belongs to
+ * @returns The reservation ID, or null if the code is malformed or forged
+ */
+function verifyCheckInCode(code: string): string | null {
+  const separator = code.lastIndexOf(".");
+  if (separator <= 0) {
+    return null;
+  }
+
+  const reservationId = code.substring(0, separator);
+  return verifySignature("check-in", reservationId, code.substring(separator + 1))
+    ? reservationId
+    : null;
+}
+
+async function getReservation(reservationId: string): Promise<Reservation> {
+  const reservation = await reservationRepository.findById(reservationId);
+  if (!reservation) {
+    throw new NotFoundError(`Reservation ${reservationId}`);
+  }
+  return reservation;
+}
+
+/**
+ * Get the code (and QR code) a player scans to check in
+ * Codes are signed rather than stored, so they never appear in reservation responses.
+ * @throws NotFoundError if the reservation doesn't exist
+ * @throws ValidationError if the reservation can no longer be checked in to
+ */
+export async function getCheckInCode(reservationId: string): Promise<CheckInCode> {
+  const reservation = await getReservation(reservationId);
+  if (!isActiveReservation(reservation)) {
+    throw new ValidationError(
+      reservation.status === "no_show"
+        ? "This reservation was marked as a no-show"
+        : "This reservation was cancelled"
+    );
+  }
+
+  const code = `${reservation.id}.${signValue("check-in", reservation.id)}`;
+  const svg = await QRCode.toString(code, { type: "svg", margin: 1 });
+  return {
+    code,
+    qrCode: `data:image/svg+xml;base64,${Buffer.from(svg).toString("base64")}`,
+  };
+}
+
+/**
+ * Check a player in to their reservation
+ * Staff can check in ahead of the window with force (e.g. correcting the record).
+ * @throws NotFoundError if the reservation doesn't exist
+ * @throws ValidationError if it isn't confirmed or the check-in window is closed
+ */
+export async function checkInReservation(
+  reservationId: string,
+  options: { method: CheckInMethod; checkedInBy?: string; force?: boolean },
+  now: Date = new Date()
+): Promise<Reservation> {
+  const reservation = await getReservation(reservationId);
+  if (!options.force || reservation.status !== "confirmed") {
+    assertCanCheckIn(reservation, now);
+  }
+
+  return reservationRepository.update(reservation.id, {
+    status: "checked_in",
+    checkedInAt: now.toISOString(),
+    checkedInBy: options.checkedInBy,
+    checkInMethod: options.method,
+  });
+}
+
+/**
+ * Check in with the code from a booking's QR code
+ * @throws ValidationError if the code is invalid or the reservation can't be checked in to
+ */
+export async function checkInWithCode(
+  code: string,
+  checkedInBy?: string,
+  now: Date = new Date()
+): Promise<Reservation> {
+  const reservationId = typeof code === "string" ? verifyCheckInCode(code.trim()) : null;
+  if (!reservationId) {
+    throw new ValidationError("Invalid check-in code");
+  }
+
+  return checkInReservation(reservationId, { method: "qr", checkedInBy }, now);
+}
+
+/**
+ * Find a member and today's reservations for the front desk
+ * @throws MemberNotFoundError if no member has the number
+ */
+export async function lookUpMemberForCheckIn(
+  memberNumber: string,
+  now: Date = new Date()
+): Promise<FrontDeskLookup> {
+  const member = memberNumber ? await getMemberByNumber(memberNumber.trim()) : null;
+  if (!member) {
+    throw new MemberNotFoundError(`Member with number ${memberNumber} not found`);
+  }
+
+  const today = format(now, "yyyy-MM-dd");
+  const reservations = (await reservationRepository.findByDate(today))
+    .filter(
+      (r) => r.memberId === member.id && (r.status === "confirmed" || r.status === "checked_in")
+    )
+    .sort((a, b) => a.timeSlot.start.localeCompare(b.timeSlot.start));
+
+  return {
+    member: {
+      id: member.id,
+      memberNumber: member.memberNumber,
+      firstName: member.firstName,
+      lastName: member.lastName,
+      email: member.email,
+    },
+    reservations,
+  };
+}
+
+/**
+ * Mark a confirmed reservation as a no-show, penalize the member and
+ * release the court
+ * @throws NotFoundError if the reservation doesn't exist
+ * @throws ValidationError if it isn't confirmed
+ */
+export async function markNoShow(reservationId: string, now: Date = new Date()): Promise<Reservation> {
+  const reservation = await getReservation(reservationId);
+  if (reservation.status !== "confirmed") {
+    throw new ValidationError("Only confirmed reservations can be marked as a no-show");
+  }
+
+  const updated = await reservationRepository.update(reservation.id, {
+    status: "no_show",
+    noShowAt: now.toISOString(),
+  });
+
+  try {
+    await recordPenalty(updated, "no_show");
+  } catch (error) {
+    // Log error but keep the no-show if the penalty can't be recorded
+    console.error(`Failed to record no-show penalty for reservation ${reservation.id}:`, error);
+  }
+
+  return updated;
+}
+
+/**
+ * Mark a confirmed or checked-in reservation as completed
+ * @throws NotFoundError if the reservation doesn't exist
+ * @throws ValidationError if it was cancelled or a no-show
+ */
+export async function markCompleted(
+  reservationId: string,
+  now: Date = new Date()
+): Promise<Reservation> {
+  const reservation = await getReservation(reservationId);
+  if (reservation.status !== "confirmed" && reservation.status !== "checked_in") {
+    throw new ValidationError("Only confirmed or checked-in reservations can be completed");
+  }
+
+  return reservationRepository.update(reservation.id, {
+    status: "completed",
+    completedAt: now.toISOString(),
+  });
+}
+
+/**
+ * Background job: mark today's unattended reservations as no-shows once
+ * the grace period is over, and complete checked-in reservations that have ended
+ * Earlier days are left alone, so attendance is never guessed for bookings
+ * made before check-in existed. A reservation that fails is logged and
+ * reported without stopping the rest of the run.
+ */
+export async function processAttendance(now: Date = new Date()): Promise<AttendanceSweep> {
+  const graceMinutes = getGraceMinutes();
+  const today = format(now, "yyyy-MM-dd");
+  const reservations = await reservationRepository.findAll();
+  const sweep: AttendanceSweep = { noShows: [], completed: [], failed: [] };
+
+  for (const reservation of reservations) {
+    try {
+      if (reservation.date === today && isNoShow(reservation, now, graceMinutes)) {
+        await markNoShow(reservation.id, now);
+        sweep.noShows.push(reservation.id);
+      } else if (isFinished(reservation, now)) {
+        await markCompleted(reservation.id, now);
+        sweep.completed.push(reservation.id);
+      }
+    } catch (error) {
+      console.error(`Failed to process attendance for reservation ${reservation.id}:`, error);
+      sweep.failed.push(reservation.id);
+    }
+  }
+
+  return sweep;
+}
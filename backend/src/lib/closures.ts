@@ -0,0 +1,132 @@
+/**
+ * Business logic layer for court closures
+ *
+ * Dated maintenance, weather and tournament windows that block bookings
+ */
+
+import {
+  CourtClosure,
+  CourtClosureRequest,
+  Reservation,
+} from "../types/reservation";
+import { closureRepository } from "./repositories/file-closure-repository";
+import { reservationRepository } from "./repositories";
+import { getCourt } from "./courts";
+import { NotFoundError, ValidationError } from "./errors/reservation-errors";
+import { closureBlocks, validateClosureRequest } from "./utils/court-closures";
+import { isActiveReservation } from "./utils/reservation-status";
+
+export interface ClosureFilter {
+  courtId?: string;
+  from?: string; // Closures ending on or after this date
+  to?: string;   // Closures starting on or before this date
+}
+
+/**
+ * List closures, soonest first
+ */
+export async function listClosures(filter: ClosureFilter = {}): Promise<CourtClosure[]> {
+  const closures = await closureRepository.findAll();
+  return closures
+    .filter((c) => !filter.courtId || c.courtId === filter.courtId)
+    .filter((c) => !filter.from || c.endDate >= filter.from)
+    .filter((c) => !filter.to || c.startDate <= filter.to)
+    .sort((a, b) =>
+      `${a.startDate}T${a.startTime || "00:00"}`.localeCompare(
+        `${b.startDate}T${b.startTime || "00:00"}`
+      )
+    );
+}
+
+/**
+ * Get closures covering a date (used by availability)
+ */
+export async function getClosuresForDate(date: string): Promise<CourtClosure[]> {
+  return closureRepository.findByDate(date);
+}
+
+/**
+ * Get active reservations that fall inside a closure window
+ */
+export async function getReservationsAffectedByClosure(
+  closure: CourtClosure
+): Promise<Reservation[]> {
+  const reservations = await reservationRepository.findAll();
+  return reservations
+    .filter(
+      (r) =>
+        isActiveReservation(r) &&
+        closureBlocks(closure, r.courtId, r.date, r.timeSlot.start, r.timeSlot.end)
+    )
+    .sort((a, b) =>
+      `${a.date}T${a.timeSlot.start}`.localeCompare(`${b.date}T${b.timeSlot.start}`)
+    );
+}
+
+/**
+ * Get a closure by ID
+ * @throws NotFoundError if the closure does not exist
+ */
+export async function getClosure(id: string): Promise<CourtClosure> {
+  const closure = await closureRepository.findById(id);
+  if (!closure) {
+    throw new NotFoundError(`Closure ${id}`);
+  }
+  return closure;
+}
+
+/**
+ * Close a court for a date range (optionally only between two times each day)
+ *
+ * Existing reservations inside the window are left in place and returned so
+ * an admin can move or cancel them.
+ * @throws ValidationError if the closure is malformed or the court is unknown/retired
+ */
+export async function createClosure(
+  data: CourtClosureRequest,
+  createdBy?: string
+): Promise<{ closure: CourtClosure; affectedReservations: Reservation[] }> {
+  validateClosureRequest(data);
+
+  const court = await getCourt(data.courtId);
+  if (!court) {
+    throw new ValidationError(`Court ${data.courtId} not found`);
+  }
+  if (court.retired) {
+    throw new ValidationError(`${court.name} has been retired`);
+  }
+
+  const closure = await closureRepository.create({
+    courtId: data.courtId,
+    startDate: data.startDate,
+    endDate: data.endDate || data.startDate,
+    startTime: data.startTime || undefined,
+    endTime: data.endTime || undefined,
+    kind: data.kind || "other",
+    reason: data.reason.trim(),
+    createdBy,
+  });
+
+  const affectedReservations = await getReservationsAffectedByClosure(closure);
+  return { closure, affectedReservations };
+}
+
+/**
+ * Remove a closure, reopening the court for its window
+ * A program's court time is changed through the program instead.
+ * @throws NotFoundError if the closure does not exist
+ * @throws ValidationError if the closure holds a program session
+ */
+export async function deleteClosure(id: string): Promise<void> {
+  const closure = await getClosure(id);
+  if (closure.programId) {
+    throw new ValidationError(
+      `This closure is for ${closure.reason}; change the program's sessions or courts instead`
+    );
+  }
+
+  const deleted = await closureRepository.delete(id);
+  if (!deleted) {
+    throw new NotFoundError(`Closure ${id}`);
+  }
+}
@@ -0,0 +1,286 @@
+/**
+ * Business logic layer for court operations
+ *
+ * Court management (create, update, retire) and operating schedules
+ */
+
+import {
+  Court,
+  CourtRequest,
+  CourtSchedule,
+  Reservation,
+  ScheduleOverride,
+} from "../types/reservation";
+import { courtRepository } from "./repositories/file-court-repository";
+import { reservationRepository } from "./repositories";
+import {
+  CourtInUseError,
+  ConflictError,
+  NotFoundError,
+  ValidationError,
+} from "./errors/reservation-errors";
+import { validateCourtData, validateCourtUpdate } from "./utils/court-validation";
+import {
+  DEFAULT_COURT_SCHEDULE,
+  isWithinOperatingHours,
+  validateCourtSchedule,
+  validateScheduleOverride,
+} from "./utils/court-schedule";
+import { isActiveReservation } from "./utils/reservation-status";
+
+/**
+ * Get courts that can be booked (retired courts are excluded unless requested)
+ */
+export async function getAllCourts(
+  options: { includeRetired?: boolean } = {}
+): Promise<Court[]> {
+  const courts = await courtRepository.findAll();
+  return options.includeRetired ? courts : courts.filter((c) => !c.retired);
+}
+
+/**
+ * Get court by ID (including retired courts, so past bookings still resolve)
+ */
+export async function getCourt(courtId: string): Promise<Court | null> {
+  return courtRepository.findById(courtId);
+}
+
+async function requireActiveCourt(courtId: string): Promise<Court> {
+  const court = await getCourt(courtId);
+  if (!court) {
+    throw new NotFoundError(`Court ${courtId}`);
+  }
+  if (court.retired) {
+    throw new ValidationError(`${court.name} has been retired`);
+  }
+  return court;
+}
+
+/**
+ * Court names must be unique among courts still in service
+ */
+async function assertNameAvailable(name: string, excludeCourtId?: string): Promise<void> {
+  const courts = await getAllCourts();
+  const normalized = name.trim().toLowerCase();
+  const duplicate = courts.find(
+    (c) => c.id !== excludeCourtId && c.name.trim().toLowerCase() === normalized
+  );
+  if (duplicate) {
+    throw new ValidationError(`A court named ${duplicate.name} already exists`);
+  }
+}
+
+/**
+ * Create a new court
+ * @throws ValidationError if the court data is invalid or the name is taken
+ */
+export async function createCourt(data: CourtRequest): Promise<Court> {
+  validateCourtData(data);
+  await assertNameAvailable(data.name);
+
+  return courtRepository.create({
+    name: data.name.trim(),
+    type: data.type,
+    available: data.available !== undefined ? data.available : true,
+    lighting: data.lighting ?? false,
+    environment: data.environment ?? (data.type === "indoor" ? "indoor" : "outdoor"),
+  });
+}
+
+/**
+ * Update a court's details
+ * @throws NotFoundError if the court does not exist
+ * @throws ValidationError if the update is invalid or the court is retired
+ */
+export async function updateCourt(
+  courtId: string,
+  updates: Partial<CourtRequest>
+): Promise<Court> {
+  validateCourtUpdate(updates);
+  await requireActiveCourt(courtId);
+
+  const allowed: Partial<Court> = {};
+  if (updates.name !== undefined) {
+    await assertNameAvailable(updates.name, courtId);
+    allowed.name = updates.name.trim();
+  }
+  if (updates.type !== undefined) allowed.type = updates.type;
+  if (updates.available !== undefined) allowed.available = updates.available;
+  if (updates.lighting !== undefined) allowed.lighting = updates.lighting;
+  if (updates.environment !== undefined) allowed.environment = updates.environment;
+
+  if (Object.keys(allowed).length === 0) {
+    throw new ValidationError("No valid update fields provided");
+  }
+
+  const court = await courtRepository.update(courtId, allowed);
+
+  // Keep the denormalized court name on upcoming bookings in sync
+  if (allowed.name) {
+    const upcoming = await getUpcomingReservationsForCourt(courtId);
+    for (const reservation of upcoming) {
+      await reservationRepository.update(reservation.id, { courtName: court.name });
+    }
+  }
+
+  return court;
+}
+
+/**
+ * Get active (confirmed or checked-in) reservations on a court that have not finished yet
+ */
+export async function getUpcomingReservationsForCourt(
+  courtId: string,
+  now: Date = new Date()
+): Promise<Reservation[]> {
+  const reservations = await reservationRepository.findAll();
+  return reservations
+    .filter(
+      (r) =>
+        r.courtId === courtId &&
+        isActiveReservation(r) &&
+        new Date(`${r.date}T${r.timeSlot.end}`) > now
+    )
+    .sort((a, b) =>
+      `${a.date}T${a.timeSlot.start}`.localeCompare(`${b.date}T${b.timeSlot.start}`)
+    );
+}
+
+/**
+ * Retire a court so it can no longer be booked
+ *
+ * Courts with upcoming reservations are only retired when a replacement
+ * court is given; every upcoming reservation is moved there first.
+ * @throws CourtInUseError if there are upcoming reservations and no replacement
+ * @throws ConflictError if any reservation cannot be moved to the replacement
+ */
+export async function retireCourt(
+  courtId: string,
+  options: { reassignToCourtId?: string } = {}
+): Promise<{ court: Court; reassigned: Reservation[] }> {
+  const court = await requireActiveCourt(courtId);
+  const upcoming = await getUpcomingReservationsForCourt(courtId);
+  const reassigned: Reservation[] = [];
+
+  if (upcoming.length > 0) {
+    if (!options.reassignToCourtId) {
+      throw new CourtInUseError(
+        `${court.name} has ${upcoming.length} upcoming reservation(s). Reassign them to another court before retiring it.`,
+        upcoming.map((r) => r.id)
+      );
+    }
+
+    if (options.reassignToCourtId === courtId) {
+      throw new ValidationError("Reservations must be reassigned to a different court");
+    }
+
+    const target = await getCourt(options.reassignToCourtId);
+    if (!target) {
+      throw new ValidationError(`Court ${options.reassignToCourtId} not found`);
+    }
+    if (target.retired) {
+      throw new ValidationError(`${target.name} has been retired`);
+    }
+
+    // Check every reservation before moving any, so a failure leaves nothing half-moved
+    const blocked: string[] = [];
+    for (const reservation of upcoming) {
+      const { date, timeSlot } = reservation;
+      const fits =
+        isWithinOperatingHours(target.schedule, date, timeSlot.start, timeSlot.end) &&
+        (await reservationRepository.checkAvailability(
+          target.id,
+          date,
+          timeSlot.start,
+          timeSlot.end
+        ));
+      if (!fits) {
+        blocked.push(`${date} ${timeSlot.start}-${timeSlot.end}`);
+      }
+    }
+
+    if (blocked.length > 0) {
+      throw new ConflictError(
+        `Cannot move reservations to ${target.name}: ${blocked.join(", ")}`
+      );
+    }
+
+    for (const reservation of upcoming) {
+      reassigned.push(
+        await reservationRepository.update(reservation.id, {
+          courtId: target.id,
+          courtName: target.name,
+        })
+      );
+    }
+  }
+
+  const retired = await courtRepository.update(courtId, {
+    retired: true,
+    retiredAt: new Date().toISOString(),
+    available: false,
+  });
+
+  return { court: retired, reassigned };
+}
+
+/**
+ * Get a court's schedule (falls back to the default schedule if unset)
+ */
+export async function getCourtSchedule(courtId: string): Promise<CourtSchedule> {
+  const court = await getCourt(courtId);
+  if (!court) {
+    throw new NotFoundError(`Court ${courtId}`);
+  }
+  return court.schedule || DEFAULT_COURT_SCHEDULE;
+}
+
+/**
+ * Replace a court's schedule (weekly hours, slot duration, overrides)
+ * @throws ValidationError if the schedule is malformed
+ * @throws NotFoundError if the court does not exist
+ */
+export async function updateCourtSchedule(
+  courtId: string,
+  schedule: CourtSchedule
+): Promise<CourtSchedule> {
+  const validated = validateCourtSchedule(schedule);
+  const court = await courtRepository.update(courtId, { schedule: validated });
+  return court.schedule!;
+}
+
+/**
+ * Add or replace the override for a single date
+ */
+export async function setScheduleOverride(
+  courtId: string,
+  override: ScheduleOverride
+): Promise<CourtSchedule> {
+  validateScheduleOverride(override);
+  const schedule = await getCourtSchedule(courtId);
+  const overrides = (schedule.overrides || [])
+    .filter((o) => o.date !== override.date)
+    .concat(override)
+    .sort((a, b) => a.date.localeCompare(b.date));
+
+  const court = await courtRepository.update(courtId, {
+    schedule: { ...schedule, overrides },
+  });
+  return court.schedule!;
+}
+
+/**
+ * Remove the override for a date (no-op if none exists)
+ */
+export async function removeScheduleOverride(
+  courtId: string,
+  date: string
+): Promise<CourtSchedule> {
+  const schedule = await getCourtSchedule(courtId);
+  const overrides = (schedule.overrides || []).filter((o) => o.date !== date);
+
+  const court = await courtRepository.update(courtId, {
+    schedule: { ...schedule, overrides },
+  });
+  return court.schedule!;
+}
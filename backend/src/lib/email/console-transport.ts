@@ -0,0 +1,24 @@
+/**
+ * Email transport that logs messages to the console
+ */
+
+import { EmailMessage } from "../../types/email";
+import type { EmailTransport } from "./email-transport";
+
+export class ConsoleTransport implements EmailTransport {
+  readonly name = "console";
+
+  async send(message: EmailMessage): Promise<void> {
+    console.log(`
+========================================
+EMAIL
+========================================
+To: ${message.to}
+From: ${message.from}
+Subject: ${message.subject}
+${message.attachments?.length ? `Attachments: ${message.attachments.map((a) => a.filename).join(", ")}\n` : ""}
+${message.text}
+========================================
+  `);
+  }
+}
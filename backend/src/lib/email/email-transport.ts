@@ -0,0 +1,60 @@
+/**
+ * Email transport abstraction
+ *
+ * EMAIL_TRANSPORT selects the implementation:
+ * - "console" (default): logs messages, for local development
+ * - "file": writes each message to EMAIL_FILE_DIR, for tests and staging
+ * - "smtp": delivers through SMTP_HOST/SMTP_PORT/SMTP_USER/SMTP_PASS
+ */
+
+import { EmailMessage } from "../../types/email";
+import { EmailConfigError } from "../errors/email-errors";
+import { ConsoleTransport } from "./console-transport";
+import { FileTransport } from "./file-transport";
+import { SmtpTransport } from "./smtp-transport";
+
+export interface EmailTransport {
+  /** Transport name recorded on delivered outbox messages */
+  readonly name: string;
+
+  /**
+   * Deliver a message
+   * @throws Error if delivery fails (the outbox will retry)
+   */
+  send(message: EmailMessage): Promise<void>;
+}
+
+let cached: { key: string; transport: EmailTransport } | null = null;
+
+/**
+ * Get the transport selected by the environment
+ * @throws EmailConfigError for an unknown EMAIL_TRANSPORT value
+ */
+export function getEmailTransport(): EmailTransport {
+  const kind = (process.env.EMAIL_TRANSPORT || "console").toLowerCase();
+  const key = `${kind}:${process.env.SMTP_HOST || ""}:${process.env.SMTP_PORT || ""}`;
+
+  if (cached && cached.key === key) {
+    return cached.transport;
+  }
+
+  let transport: EmailTransport;
+  switch (kind) {
+    case "console":
+      transport = new ConsoleTransport();
+      break;
+    case "file":
+      transport = new FileTransport();
+      break;
+    case "smtp":
+      transport = new SmtpTransport();
+      break;
+    default:
+      throw new EmailConfigError(
+        `Unknown EMAIL_TRANSPORT "${kind}". Use console, file or smtp.`
+      );
+  }
+
+  cached = { key, transport };
+  return transport;
+}
@@ -0,0 +1,65 @@
+/**
+ * Email transport that writes each message to a directory
+ *
+ * Messages are written maildir-style: to tmp/ first, then renamed into new/,
+ * so readers never see a partially written file. Each file is the JSON
+ * message, which lets tests assert on exactly what was sent.
+ */
+
+import { promises as fs } from "fs";
+import path from "path";
+import { EmailMessage } from "../../types/email";
+import type { EmailTransport } from "./email-transport";
+
+/**
+ * Directory the file transport writes to (EMAIL_FILE_DIR, default DATA_DIR/mail)
+ */
+export function getMailDir(): string {
+  if (process.env.EMAIL_FILE_DIR) {
+    return path.isAbsolute(process.env.EMAIL_FILE_DIR)
+      ? process.env.EMAIL_FILE_DIR
+      : path.join(process.cwd(), process.env.EMAIL_FILE_DIR);
+  }
+
+  const dataDir = process.env.DATA_DIR
+    ? path.isAbsolute(process.env.DATA_DIR)
+      ? process.env.DATA_DIR
+      : path.join(process.cwd(), process.env.DATA_DIR)
+    : path.join(process.cwd(), "data");
+  return path.join(dataDir, "mail");
+}
+
+/**
+ * Read every message delivered by the file transport, oldest first
+ */
+export async function readDeliveredMail(): Promise<EmailMessage[]> {
+  const dir = path.join(getMailDir(), "new");
+  let files: string[];
+  try {
+    files = (await fs.readdir(dir)).filter((f) => f.endsWith(".json")).sort();
+  } catch {
+    return [];
+  }
+
+  return Promise.all(
+    files.map(async (file) => JSON.parse(await fs.readFile(path.join(dir, file), "utf-8")))
+  );
+}
+
+export class FileTransport implements EmailTransport {
+  readonly name = "file";
+
+  async send(message: EmailMessage): Promise<void> {
+    const dir = getMailDir();
+    await fs.mkdir(path.join(dir, "tmp"), { recursive: true });
+    await fs.mkdir(path.join(dir, "new"), { recursive: true });
+
+    const filename = `${Date.now()}-${process.pid}-${Math.random()
+      .toString(36)
+      .substring(2, 8)}.json`;
+    const tmpPath = path.join(dir, "tmp", filename);
+
+    await fs.writeFile(tmpPath, JSON.stringify(message, null, 2));
+    await fs.rename(tmpPath, path.join(dir, "new", filename));
+  }
+}
@@ -0,0 +1,151 @@
+/**
+ * Email outbox
+ *
+ * Every message is persisted before delivery is attempted. Failed deliveries
+ * stay pending and are retried with exponential backoff by processOutbox()
+ * until MAX_DELIVERY_ATTEMPTS is reached, after which they are marked failed.
+ */
+
+import { EmailTemplateName, OutboxMessage, OutboxStatus, RenderedEmail } from "../../types/email";
+import { outboxRepository } from "../repositories/file-outbox-repository";
+import { OutboxMessageNotFoundError } from "../errors/email-errors";
+import { getEmailTransport } from "./email-transport";
+
+export const MAX_DELIVERY_ATTEMPTS = 5;
+
+export interface OutboxRunResult {
+  sent: number;
+  retrying: number;
+  failed: number;
+}
+
+function getEmailFrom(): string {
+  return process.env.EMAIL_FROM || "noreply@providencetennis.com";
+}
+
+/**
+ * Minutes to wait before the next attempt (1, 2, 4, 8, ...)
+ */
+export function getRetryDelayMinutes(attempts: number): number {
+  return Math.pow(2, Math.max(0, attempts - 1));
+}
+
+/**
+ * Attempt delivery of one outbox message and record the outcome
+ */
+export async function deliverOutboxMessage(
+  message: OutboxMessage,
+  now: Date = new Date()
+): Promise<OutboxMessage> {
+  const attempts = message.attempts + 1;
+
+  try {
+    const transport = getEmailTransport();
+    await transport.send({
+      to: message.to,
+      from: message.from,
+      subject: message.subject,
+      html: message.html,
+      text: message.text,
+      attachments: message.attachments,
+    });
+
+    const sent = await outboxRepository.update(message.id, {
+      status: "sent",
+      attempts,
+      transport: transport.name,
+      sentAt: now.toISOString(),
+      lastError: undefined,
+      nextAttemptAt: undefined,
+    });
+    return sent as OutboxMessage;
+  } catch (error) {
+    const lastError = error instanceof Error ? error.message : String(error);
+    const exhausted = attempts >= MAX_DELIVERY_ATTEMPTS;
+    console.error(`Failed to deliver email ${message.id} (attempt ${attempts}):`, lastError);
+
+    const updated = await outboxRepository.update(message.id, {
+      status: exhausted ? "failed" : "pending",
+      attempts,
+      lastError,
+      nextAttemptAt: exhausted
+        ? undefined
+        : new Date(now.getTime() + getRetryDelayMinutes(attempts) * 60 * 1000).toISOString(),
+    });
+    return updated as OutboxMessage;
+  }
+}
+
+/**
+ * Persist a rendered email and attempt delivery right away
+ * Delivery failures are recorded on the message, not thrown.
+ */
+export async function queueEmail(
+  to: string,
+  template: EmailTemplateName,
+  email: RenderedEmail,
+  now: Date = new Date()
+): Promise<OutboxMessage> {
+  const message = await outboxRepository.create({
+    to,
+    from: getEmailFrom(),
+    subject: email.subject,
+    html: email.html,
+    text: email.text,
+    attachments: email.attachments,
+    template,
+    status: "pending",
+    attempts: 0,
+  });
+
+  return deliverOutboxMessage(message, now);
+}
+
+/**
+ * Retry every pending message that is due
+ */
+export async function processOutbox(now: Date = new Date()): Promise<OutboxRunResult> {
+  const due = await outboxRepository.findDue(now);
+  const result: OutboxRunResult = { sent: 0, retrying: 0, failed: 0 };
+
+  for (const message of due) {
+    const delivered = await deliverOutboxMessage(message, now);
+    if (delivered.status === "sent") {
+      result.sent++;
+    } else if (delivered.status === "failed") {
+      result.failed++;
+    } else {
+      result.retrying++;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * List outbox messages, newest first
+ */
+export async function getOutboxMessages(status?: OutboxStatus): Promise<OutboxMessage[]> {
+  return outboxRepository.findAll(status);
+}
+
+/**
+ * Manually retry a message (e.g. a failed one after fixing SMTP settings)
+ * @throws OutboxMessageNotFoundError if the message doesn't exist
+ */
+export async function retryOutboxMessage(
+  id: string,
+  now: Date = new Date()
+): Promise<OutboxMessage> {
+  const message = await outboxRepository.findById(id);
+  if (!message) {
+    throw new OutboxMessageNotFoundError(id);
+  }
+
+  if (message.status === "sent") {
+    return message;
+  }
+
+  // A manual retry gets a fresh set of attempts
+  return deliverOutboxMessage({ ...message, attempts: 0 }, now);
+}
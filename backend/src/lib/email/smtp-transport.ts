@@ -0,0 +1,45 @@
+/**
+ * Email transport that delivers through an SMTP server
+ */
+
+import nodemailer, { Transporter } from "nodemailer";
+import { EmailMessage } from "../../types/email";
+import { EmailConfigError } from "../errors/email-errors";
+import type { EmailTransport } from "./email-transport";
+
+export class SmtpTransport implements EmailTransport {
+  readonly name = "smtp";
+  private readonly transporter: Transporter;
+
+  constructor() {
+    const host = process.env.SMTP_HOST;
+    if (!host) {
+      throw new EmailConfigError("SMTP transport requires SMTP_HOST");
+    }
+
+    const port = Number(process.env.SMTP_PORT) || 587;
+    this.transporter = nodemailer.createTransport({
+      host,
+      port,
+      secure: process.env.SMTP_SECURE ? process.env.SMTP_SECURE === "true" : port === 465,
+      auth: process.env.SMTP_USER
+        ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASS || "" }
+        : undefined,
+    });
+  }
+
+  async send(message: EmailMessage): Promise<void> {
+    await this.transporter.sendMail({
+      from: message.from,
+      to: message.to,
+      subject: message.subject,
+      html: message.html,
+      text: message.text,
+      attachments: message.attachments?.map((a) => ({
+        filename: a.filename,
+        contentType: a.contentType,
+        content: a.content,
+      })),
+    });
+  }
+}
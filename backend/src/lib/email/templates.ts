@@ -0,0 +1,396 @@
+/**
+ * Email templates
+ *
+ * Each template is described once as a greeting, paragraphs, an optional
+ * details table and an optional call to action, then rendered to both HTML
+ * and plain text so the two bodies never drift apart.
+ */
+
+import { RenderedEmail } from "../../types/email";
+
+const ACADEMY_NAME = "Providence Tennis Academy";
+const ACADEMY_PHONE = "401-935-4336";
+
+interface TemplateContent {
+  subject: string;
+  greeting: string;
+  paragraphs: string[];
+  details?: Array<[string, string]>;
+  action?: { label: string; url: string };
+  footer?: string;
+}
+
+export interface BookingEmailDetails {
+  courtName: string;
+  date: string;          // YYYY-MM-DD
+  start: string;         // HH:mm
+  end: string;           // HH:mm
+  amount?: number;       // Amount paid in cents
+}
+
+export interface ProgramEmailDetails {
+  name: string;          // Program name
+  firstDate: string;     // YYYY-MM-DD
+  lastDate: string;      // YYYY-MM-DD
+  sessions: number;
+  price: number;         // Cents for the whole program
+}
+
+export interface RefundEmailDetails {
+  amount: number;        // Refunded amount in cents
+  currency: string;
+  description?: string;
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+export function formatAmount(cents: number, currency: string = "usd"): string {
+  return new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency: currency.toUpperCase(),
+  }).format(cents / 100);
+}
+
+function bookingDetails(booking: BookingEmailDetails): Array<[string, string]> {
+  const details: Array<[string, string]> = [
+    ["Court", booking.courtName],
+    ["Date", booking.date],
+    ["Time", `${booking.start} - ${booking.end}`],
+  ];
+  if (booking.amount) {
+    details.push(["Paid", formatAmount(booking.amount)]);
+  }
+  return details;
+}
+
+function programDetails(program: ProgramEmailDetails): Array<[string, string]> {
+  return [
+    ["Program", program.name],
+    [
+      "Dates",
+      program.firstDate === program.lastDate
+        ? program.firstDate
+        : `${program.firstDate} to ${program.lastDate}`,
+    ],
+    ["Sessions", String(program.sessions)],
+    ["Price", program.price > 0 ? formatAmount(program.price) : "Free"],
+  ];
+}
+
+function renderText(content: TemplateContent): string {
+  const lines = [content.greeting, ""];
+
+  for (const paragraph of content.paragraphs) {
+    lines.push(paragraph, "");
+  }
+
+  if (content.details && content.details.length > 0) {
+    for (const [label, value] of content.details) {
+      lines.push(`${label}: ${value}`);
+    }
+    lines.push("");
+  }
+
+  if (content.action) {
+    lines.push(`${content.action.label}: ${content.action.url}`, "");
+  }
+
+  if (content.footer) {
+    lines.push(content.footer, "");
+  }
+
+  lines.push("Thanks,", ACADEMY_NAME);
+  return lines.join("\n");
+}
+
+function renderHtml(content: TemplateContent): string {
+  const paragraphs = content.paragraphs
+    .map((p) => `<p style="margin:0 0 16px">${escapeHtml(p)}</p>`)
+    .join("\n");
+
+  const details =
+    content.details && content.details.length > 0
+      ? `<table style="border-collapse:collapse;margin:0 0 16px">
+${content.details
+  .map(
+    ([label, value]) =>
+      `<tr><td style="padding:4px 16px 4px 0;color:#6b7280">${escapeHtml(label)}</td><td style="padding:4px 0;font-weight:600">${escapeHtml(value)}</td></tr>`
+  )
+  .join("\n")}
+</table>`
+      : "";
+
+  const action = content.action
+    ? `<p style="margin:0 0 16px"><a href="${escapeHtml(content.action.url)}" style="display:inline-block;background:#16a34a;color:#ffffff;padding:10px 20px;border-radius:8px;text-decoration:none;font-weight:600">${escapeHtml(content.action.label)}</a></p>`
+    : "";
+
+  const footer = content.footer
+    ? `<p style="margin:0 0 16px;color:#6b7280;font-size:14px">${escapeHtml(content.footer)}</p>`
+    : "";
+
+  return `<!DOCTYPE html>
+<html>
+<body style="margin:0;padding:24px;background:#f3f4f6;font-family:Arial,Helvetica,sans-serif;color:#111827">
+<div style="max-width:560px;margin:0 auto;background:#ffffff;border-radius:12px;padding:32px">
+<h1 style="margin:0 0 24px;font-size:20px;color:#15803d">${ACADEMY_NAME}</h1>
+<p style="margin:0 0 16px">${escapeHtml(content.greeting)}</p>
+${paragraphs}
+${details}
+${action}
+${footer}
+<p style="margin:24px 0 0">Thanks,<br>${ACADEMY_NAME}</p>
+</div>
+</body>
+</html>`;
+}
+
+function render(content: TemplateContent): RenderedEmail {
+  return {
+    subject: content.subject,
+    html: renderHtml(content),
+    text: renderText(content),
+  };
+}
+
+export function renderVerificationEmail(name: string, verificationUrl: string): RenderedEmail {
+  return render({
+    subject: "Verify your email address",
+    greeting: `Hi ${name},`,
+    paragraphs: ["Please verify your email address by clicking the link below."],
+    action: { label: "Verify email", url: verificationUrl },
+    footer:
+      "This link will expire in 24 hours. If you didn't create an account, please ignore this email.",
+  });
+}
+
+export function renderPasswordResetEmail(name: string, resetUrl: string): RenderedEmail {
+  return render({
+    subject: "Reset your password",
+    greeting: `Hi ${name},`,
+    paragraphs: ["You requested to reset your password. Click the link below to reset it."],
+    action: { label: "Reset password", url: resetUrl },
+    footer:
+      "This link will expire in 30 minutes. If you didn't request a password reset, please ignore this email.",
+  });
+}
+
+export function renderWelcomeEmail(name: string): RenderedEmail {
+  return render({
+    subject: `Welcome to ${ACADEMY_NAME}!`,
+    greeting: `Hi ${name},`,
+    paragraphs: [
+      `Welcome to ${ACADEMY_NAME}! We're excited to have you join our community.`,
+      "Your account has been created successfully. Please verify your email address to get started.",
+    ],
+    footer: `If you have any questions, feel free to contact us at ${ACADEMY_PHONE}.`,
+  });
+}
+
+export function renderWaitlistHoldEmail(
+  name: string,
+  hold: { courtName: string; date: string; start: string; end: string; expiresAt: string },
+  waitlistUrl: string
+): RenderedEmail {
+  return render({
+    subject: "A court you were waiting for is available",
+    greeting: `Hi ${name},`,
+    paragraphs: [
+      `Good news! ${hold.courtName} is now free on ${hold.date} from ${hold.start} to ${hold.end}.`,
+      `We're holding it for you until ${new Date(hold.expiresAt).toLocaleString()}.`,
+    ],
+    action: { label: "Book it now", url: waitlistUrl },
+    footer: "After that the slot goes to the next person on the waitlist.",
+  });
+}
+
+export function renderBookingConfirmationEmail(
+  name: string,
+  booking: BookingEmailDetails,
+  bookingsUrl: string
+): RenderedEmail {
+  return render({
+    subject: `Booking confirmed: ${booking.courtName} on ${booking.date}`,
+    greeting: `Hi ${name},`,
+    paragraphs: ["Your court booking is confirmed."],
+    details: bookingDetails(booking),
+    action: { label: "View my bookings", url: bookingsUrl },
+    footer: `Need to change plans? Cancel at least 24 hours ahead for a full refund, or call us at ${ACADEMY_PHONE}.`,
+  });
+}
+
+export function renderBookingCancellationEmail(
+  name: string,
+  booking: BookingEmailDetails,
+  refund?: RefundEmailDetails
+): RenderedEmail {
+  const paragraphs = ["Your court booking has been cancelled."];
+  if (refund) {
+    paragraphs.push(
+      `A refund of ${formatAmount(refund.amount, refund.currency)} has been issued to your original payment method.`
+    );
+  }
+
+  return render({
+    subject: `Booking cancelled: ${booking.courtName} on ${booking.date}`,
+    greeting: `Hi ${name},`,
+    paragraphs,
+    details: bookingDetails({ ...booking, amount: undefined }),
+    footer: `If you didn't cancel this booking, please call us at ${ACADEMY_PHONE}.`,
+  });
+}
+
+export function renderBookingChangeEmail(
+  name: string,
+  booking: BookingEmailDetails,
+  previous: BookingEmailDetails,
+  bookingsUrl: string
+): RenderedEmail {
+  return render({
+    subject: `Booking moved: ${booking.courtName} on ${booking.date}`,
+    greeting: `Hi ${name},`,
+    paragraphs: [
+      `Your booking on ${previous.courtName}, ${previous.date} at ${previous.start} has been moved. Here are the new details.`,
+    ],
+    details: bookingDetails({ ...booking, amount: undefined }),
+    action: { label: "View my bookings", url: bookingsUrl },
+    footer: `If this time doesn't work for you, please call us at ${ACADEMY_PHONE}.`,
+  });
+}
+
+export function renderRefundEmail(name: string, refund: RefundEmailDetails): RenderedEmail {
+  const details: Array<[string, string]> = [
+    ["Amount", formatAmount(refund.amount, refund.currency)],
+  ];
+  if (refund.description) {
+    details.push(["For", refund.description]);
+  }
+
+  return render({
+    subject: `Refund issued: ${formatAmount(refund.amount, refund.currency)}`,
+    greeting: `Hi ${name},`,
+    paragraphs: [
+      "We've issued a refund to your original payment method. It usually appears within 5-10 business days.",
+    ],
+    details,
+  });
+}
+
+/**
+ * Invitation for a player to link a parent's account
+ */
+export function renderGuardianInviteEmail(
+  name: string,
+  parentName: string,
+  familyUrl: string
+): RenderedEmail {
+  return render({
+    subject: `${parentName} wants to link your account`,
+    greeting: `Hi ${name},`,
+    paragraphs: [
+      `${parentName} has invited you to link your ${ACADEMY_NAME} account to theirs.`,
+      "Once linked, they can book and pay for courts on your behalf and see your coaching journal.",
+    ],
+    action: { label: "Review invitation", url: familyUrl },
+    footer: "If you don't know this person, you can decline the invitation.",
+  });
+}
+
+/**
+ * Invitation to play doubles on someone else's court booking
+ */
+export function renderPartnerInviteEmail(
+  name: string,
+  inviterName: string,
+  booking: BookingEmailDetails,
+  respondUrl: string
+): RenderedEmail {
+  return render({
+    subject: `${inviterName} invited you to play on ${booking.date}`,
+    greeting: `Hi ${name},`,
+    paragraphs: [`${inviterName} has booked a court and invited you to join the game.`],
+    details: bookingDetails(booking),
+    action: { label: "Accept or decline", url: respondUrl },
+    footer: `Questions about the booking? Call us at ${ACADEMY_PHONE}.`,
+  });
+}
+
+/**
+ * Confirmation of a program sign-up: a seat, or a place on the waitlist
+ */
+export function renderProgramEnrollmentEmail(
+  name: string,
+  program: ProgramEmailDetails,
+  waitlisted: boolean,
+  programsUrl: string
+): RenderedEmail {
+  return render({
+    subject: waitlisted
+      ? `You're on the waitlist for ${program.name}`
+      : `You're enrolled in ${program.name}`,
+    greeting: `Hi ${name},`,
+    paragraphs: waitlisted
+      ? [
+          `${program.name} is full, so you've been added to the waitlist.`,
+          "If a spot opens up you'll get it automatically, in the order people signed up, and we'll email you.",
+        ]
+      : [
+          `You're enrolled in ${program.name}.`,
+          ...(program.price > 0 ? ["Please pay for your spot from your programs page."] : []),
+        ],
+    details: programDetails(program),
+    action: { label: "View my programs", url: programsUrl },
+    footer: `Questions about the program? Call us at ${ACADEMY_PHONE}.`,
+  });
+}
+
+/**
+ * A waitlisted player has been given a seat
+ */
+export function renderProgramSeatEmail(
+  name: string,
+  program: ProgramEmailDetails,
+  programsUrl: string
+): RenderedEmail {
+  return render({
+    subject: `A spot opened up in ${program.name}`,
+    greeting: `Hi ${name},`,
+    paragraphs: [
+      `Good news! A spot opened up in ${program.name} and you've moved off the waitlist.`,
+      ...(program.price > 0 ? ["Please pay for your spot from your programs page."] : []),
+    ],
+    details: programDetails(program),
+    action: { label: "View my programs", url: programsUrl },
+    footer: "Can't make it after all? Withdraw from your programs page so the next player gets the spot.",
+  });
+}
+
+/**
+ * An admin cancelled a program the player was signed up for
+ */
+export function renderProgramCancellationEmail(
+  name: string,
+  program: ProgramEmailDetails,
+  refund?: RefundEmailDetails
+): RenderedEmail {
+  const paragraphs = [`Unfortunately ${program.name} has been cancelled.`];
+  if (refund) {
+    paragraphs.push(
+      `A refund of ${formatAmount(refund.amount, refund.currency)} has been issued to your original payment method.`
+    );
+  }
+
+  return render({
+    subject: `Program cancelled: ${program.name}`,
+    greeting: `Hi ${name},`,
+    paragraphs,
+    details: programDetails(program),
+    footer: `We're sorry for the change of plans. Questions? Call us at ${ACADEMY_PHONE}.`,
+  });
+}
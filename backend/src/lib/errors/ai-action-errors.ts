@@ -0,0 +1,50 @@
+/**
+ * Custom error classes for pending AI agent actions
+ */
+
+export class AIActionError extends Error {
+  constructor(
+    message: string,
+    public readonly code: string
+  ) {
+    super(message);
+    this.name = this.constructor.name;
+    Error.captureStackTrace(this, this.constructor);
+  }
+}
+
+/**
+ * Thrown when an action does not exist or was proposed to another admin
+ */
+export class AIActionNotFoundError extends AIActionError {
+  constructor(message: string = "Pending action not found") {
+    super(message, "NOT_FOUND");
+  }
+}
+
+/**
+ * Thrown when an action has already been confirmed, rejected or has expired
+ */
+export class AIActionStateError extends AIActionError {
+  constructor(message: string = "Action is no longer pending") {
+    super(message, "INVALID_STATE");
+  }
+}
+
+/**
+ * Thrown when a confirmed action can no longer be applied
+ */
+export class AIActionFailedError extends AIActionError {
+  constructor(message: string = "Action could not be applied") {
+    super(message, "ACTION_FAILED");
+  }
+}
+
+/**
+ * Thrown when a file lock cannot be acquired
+ */
+export class AIActionLockError extends AIActionError {
+  constructor(message: string = "Could not acquire file lock") {
+    super(message, "LOCK_ERROR");
+  }
+}
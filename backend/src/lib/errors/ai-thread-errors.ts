@@ -0,0 +1,41 @@
+/**
+ * Custom error classes for AI conversation threads
+ */
+
+export class AIThreadError extends Error {
+  constructor(
+    message: string,
+    public readonly code: string
+  ) {
+    super(message);
+    this.name = this.constructor.name;
+    Error.captureStackTrace(this, this.constructor);
+  }
+}
+
+/**
+ * Thrown when a thread does not exist or belongs to another member
+ */
+export class AIThreadNotFoundError extends AIThreadError {
+  constructor(message: string = "Conversation not found") {
+    super(message, "NOT_FOUND");
+  }
+}
+
+/**
+ * Thrown when thread data validation fails
+ */
+export class AIThreadValidationError extends AIThreadError {
+  constructor(message: string = "Conversation data validation failed") {
+    super(message, "VALIDATION_ERROR");
+  }
+}
+
+/**
+ * Thrown when a file lock cannot be acquired
+ */
+export class AIThreadLockError extends AIThreadError {
+  constructor(message: string = "Could not acquire file lock") {
+    super(message, "LOCK_ERROR");
+  }
+}
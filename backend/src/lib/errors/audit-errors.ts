@@ -0,0 +1,23 @@
+/**
+ * Custom error classes for the audit log
+ */
+
+export class AuditError extends Error {
+  constructor(
+    message: string,
+    public readonly code: string
+  ) {
+    super(message);
+    this.name = this.constructor.name;
+    Error.captureStackTrace(this, this.constructor);
+  }
+}
+
+/**
+ * Thrown when a file lock cannot be acquired
+ */
+export class AuditLockError extends AuditError {
+  constructor(message: string = "Could not acquire file lock") {
+    super(message, "LOCK_ERROR");
+  }
+}
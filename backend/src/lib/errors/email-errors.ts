@@ -0,0 +1,32 @@
+/**
+ * Custom error classes for email delivery
+ */
+
+export class EmailError extends Error {
+  constructor(
+    message: string,
+    public readonly code: string
+  ) {
+    super(message);
+    this.name = this.constructor.name;
+    Error.captureStackTrace(this, this.constructor);
+  }
+}
+
+/**
+ * Thrown when the email transport is misconfigured
+ */
+export class EmailConfigError extends EmailError {
+  constructor(message: string = "Email transport is not configured") {
+    super(message, "EMAIL_CONFIG_ERROR");
+  }
+}
+
+/**
+ * Thrown when an outbox message cannot be found
+ */
+export class OutboxMessageNotFoundError extends EmailError {
+  constructor(id: string) {
+    super(`Email ${id} not found`, "NOT_FOUND");
+  }
+}
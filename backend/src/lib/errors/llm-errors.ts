@@ -0,0 +1,32 @@
+/**
+ * Custom error classes for LLM providers
+ */
+
+export class LLMError extends Error {
+  constructor(
+    message: string,
+    public readonly code: string
+  ) {
+    super(message);
+    this.name = this.constructor.name;
+    Error.captureStackTrace(this, this.constructor);
+  }
+}
+
+/**
+ * Thrown when the LLM provider is misconfigured
+ */
+export class LLMConfigError extends LLMError {
+  constructor(message: string = "LLM provider is not configured") {
+    super(message, "LLM_CONFIG_ERROR");
+  }
+}
+
+/**
+ * Thrown when the client cancels a streamed response
+ */
+export class LLMAbortedError extends LLMError {
+  constructor(message: string = "Response cancelled") {
+    super(message, "ABORTED");
+  }
+}
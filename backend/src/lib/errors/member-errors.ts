@@ -67,3 +67,21 @@ export class MemberLockError extends MemberError {
     super(message, "LOCK_ERROR");
   }
 }
+
+/**
+ * Thrown when a guardian invitation is not found
+ */
+export class GuardianInviteNotFoundError extends MemberError {
+  constructor(message: string = "Guardian invitation not found") {
+    super(message, "NOT_FOUND");
+  }
+}
+
+/**
+ * Thrown when a parent-child link cannot be created or removed
+ */
+export class GuardianLinkError extends MemberError {
+  constructor(message: string = "Invalid guardian link") {
+    super(message, "INVALID_GUARDIAN_LINK");
+  }
+}
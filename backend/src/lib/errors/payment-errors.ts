@@ -67,6 +67,34 @@ export class InvalidAmountError extends PaymentError {
   }
 }
 
+/**
+ * Thrown when a webhook payload fails Stripe signature verification
+ */
+export class WebhookSignatureError extends PaymentError {
+  constructor(message: string = "Invalid webhook signature") {
+    super(message, "INVALID_SIGNATURE");
+  }
+}
+
+/**
+ * Thrown when a member has no membership subscription
+ */
+export class SubscriptionNotFoundError extends PaymentError {
+  constructor(message: string = "Subscription not found") {
+    super(message, "NOT_FOUND");
+  }
+}
+
+/**
+ * Thrown when a subscription can't be started or changed
+ * (unknown plan, ineligible member, already subscribed)
+ */
+export class SubscriptionError extends PaymentError {
+  constructor(message: string = "Invalid subscription request") {
+    super(message, "SUBSCRIPTION_ERROR");
+  }
+}
+
 /**
  * Thrown when Stripe operation fails
  */
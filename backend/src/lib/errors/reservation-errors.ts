@@ -49,3 +49,15 @@ export class LockError extends ReservationError {
     super(message, 'LOCK_ERROR');
   }
 }
+
+/**
+ * Thrown when a court cannot be retired because it still has upcoming reservations
+ */
+export class CourtInUseError extends ReservationError {
+  constructor(
+    message: string,
+    public readonly reservationIds: string[]
+  ) {
+    super(message, 'COURT_IN_USE');
+  }
+}
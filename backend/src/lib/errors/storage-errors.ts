@@ -0,0 +1,36 @@
+/**
+ * Custom error classes for the storage layer
+ */
+
+export class StorageError extends Error {
+  constructor(
+    message: string,
+    public readonly code: string
+  ) {
+    super(message);
+    this.name = this.constructor.name;
+    Error.captureStackTrace(this, this.constructor);
+  }
+}
+
+/**
+ * Thrown when the storage driver is misconfigured
+ */
+export class StorageConfigError extends StorageError {
+  constructor(message: string = "Storage is not configured") {
+    super(message, "STORAGE_CONFIG_ERROR");
+  }
+}
+
+/**
+ * Thrown when a database migration fails; the database is left at the last
+ * migration that succeeded
+ */
+export class MigrationError extends StorageError {
+  constructor(version: number, cause: unknown) {
+    super(
+      `Migration ${version} failed: ${cause instanceof Error ? cause.message : String(cause)}`,
+      "MIGRATION_ERROR"
+    );
+  }
+}
@@ -0,0 +1,323 @@
+/**
+ * Business logic layer for parent-child (guardian) account links
+ *
+ * A parent invites a player by email; the player accepts to add the parent
+ * to their guardianIds. Linked parents can see the player's journal, book
+ * and pay on their behalf, and get a family overview. Parents can remove a
+ * link at any time; players can leave once they turn 18.
+ */
+
+import { format } from "date-fns";
+import { GuardianInvite, Member } from "../types/member";
+import { Reservation } from "../types/reservation";
+import { JournalEntry } from "../types/journal";
+import { guardianInviteRepository } from "./repositories/file-guardian-invite-repository";
+import { reservationRepository, journalRepository } from "./repositories";
+import { getMember, getMemberByEmail, listMembers, updateMember } from "./members";
+import { sendGuardianInviteEmail } from "./auth/email-service";
+import { normalizeRole } from "./utils/role-utils";
+import { normalizeEmail } from "./utils/member-validation";
+import { isActiveReservation } from "./utils/reservation-status";
+import {
+  GuardianInviteNotFoundError,
+  GuardianLinkError,
+  MemberNotFoundError,
+} from "./errors/member-errors";
+
+export const ADULT_AGE = 18;
+const RECENT_JOURNAL_LIMIT = 5;
+
+export interface FamilyMemberSummary {
+  id: string;
+  memberNumber: string;
+  firstName: string;
+  lastName: string;
+  email: string;
+  dateOfBirth?: string;
+}
+
+export interface ChildOverview {
+  member: FamilyMemberSummary;
+  upcomingReservations: Reservation[];
+  recentJournalEntries: JournalEntry[];
+}
+
+export interface GuardianInviteDetails extends GuardianInvite {
+  parentName: string;
+  childName: string;
+}
+
+export interface FamilyOverview {
+  children: ChildOverview[];          // Linked players (parents only)
+  guardians: FamilyMemberSummary[];   // Linked parents (players only)
+  invites: GuardianInviteDetails[];   // Pending invitations sent or received
+}
+
+function summarize(member: Member): FamilyMemberSummary {
+  return {
+    id: member.id,
+    memberNumber: member.memberNumber,
+    firstName: member.firstName,
+    lastName: member.lastName,
+    email: member.email,
+    dateOfBirth: member.dateOfBirth,
+  };
+}
+
+/**
+ * Age in whole years on the given date, or null if the birth date is unknown
+ */
+export function getAge(dateOfBirth: string | undefined, now: Date = new Date()): number | null {
+  if (!dateOfBirth || !/^\d{4}-\d{2}-\d{2}$/.test(dateOfBirth)) {
+    return null;
+  }
+
+  const [year, month, day] = dateOfBirth.split("-").map(Number);
+  let age = now.getFullYear() - year;
+  if (now.getMonth() + 1 < month || (now.getMonth() + 1 === month && now.getDate() < day)) {
+    age--;
+  }
+  return age;
+}
+
+/**
+ * Check if a parent is linked to a player
+ */
+export function isGuardian(parentId: string, child: Pick<Member, "guardianIds">): boolean {
+  return !!child.guardianIds?.includes(parentId);
+}
+
+/**
+ * Invite a player to link their account to a parent
+ * @throws MemberNotFoundError if no member has the email
+ * @throws GuardianLinkError if the link isn't allowed or already exists
+ */
+export async function inviteChild(parentId: string, childEmail: string): Promise<GuardianInvite> {
+  const parent = await getMember(parentId);
+  if (normalizeRole(parent.role) !== "parent") {
+    throw new GuardianLinkError("Only parent accounts can invite players");
+  }
+
+  const child = await getMemberByEmail(normalizeEmail(childEmail));
+  if (!child) {
+    throw new MemberNotFoundError(`No member found with email ${childEmail}`);
+  }
+  if (normalizeRole(child.role) !== "player") {
+    throw new GuardianLinkError("Only player accounts can be linked to a parent");
+  }
+  if (!child.isActive) {
+    throw new GuardianLinkError("Player account is inactive");
+  }
+  if (isGuardian(parentId, child)) {
+    throw new GuardianLinkError("This player is already linked to your account");
+  }
+
+  const existing = await guardianInviteRepository.findByMember(parentId);
+  const pending = existing.find((i) => i.childId === child.id && i.status === "pending");
+  if (pending) {
+    throw new GuardianLinkError("An invitation to this player is already pending");
+  }
+
+  const invite = await guardianInviteRepository.create({
+    parentId,
+    childId: child.id,
+    status: "pending",
+  });
+
+  await sendGuardianInviteEmail(
+    child.email,
+    child.firstName,
+    `${parent.firstName} ${parent.lastName}`
+  );
+
+  return invite;
+}
+
+/**
+ * Get invitations a member has sent or received, newest first
+ */
+export async function getGuardianInvites(memberId: string): Promise<GuardianInvite[]> {
+  return guardianInviteRepository.findByMember(memberId);
+}
+
+async function getPendingInvite(inviteId: string, memberId: string): Promise<GuardianInvite> {
+  const invite = await guardianInviteRepository.findById(inviteId);
+  if (!invite || (invite.childId !== memberId && invite.parentId !== memberId)) {
+    throw new GuardianInviteNotFoundError(`Guardian invitation ${inviteId} not found`);
+  }
+  if (invite.status !== "pending") {
+    throw new GuardianLinkError(`Invitation has already been ${invite.status}`);
+  }
+  return invite;
+}
+
+/**
+ * Accept or decline an invitation (invited player only)
+ * Accepting adds the parent to the player's guardianIds.
+ */
+export async function respondToInvite(
+  childId: string,
+  inviteId: string,
+  accept: boolean
+): Promise<GuardianInvite> {
+  const invite = await getPendingInvite(inviteId, childId);
+  if (invite.childId !== childId) {
+    throw new GuardianLinkError("Only the invited player can respond to this invitation");
+  }
+
+  if (accept) {
+    const child = await getMember(childId);
+    if (!isGuardian(invite.parentId, child)) {
+      await updateMember(childId, {
+        guardianIds: [...(child.guardianIds || []), invite.parentId],
+      });
+    }
+  }
+
+  return (await guardianInviteRepository.update(invite.id, {
+    status: accept ? "accepted" : "declined",
+    respondedAt: new Date().toISOString(),
+  })) as GuardianInvite;
+}
+
+/**
+ * Withdraw a pending invitation (inviting parent only)
+ */
+export async function cancelInvite(parentId: string, inviteId: string): Promise<GuardianInvite> {
+  const invite = await getPendingInvite(inviteId, parentId);
+  if (invite.parentId !== parentId) {
+    throw new GuardianLinkError("Only the inviting parent can cancel this invitation");
+  }
+
+  return (await guardianInviteRepository.update(invite.id, {
+    status: "cancelled",
+    respondedAt: new Date().toISOString(),
+  })) as GuardianInvite;
+}
+
+/**
+ * Get the players linked to a parent
+ */
+export async function getChildren(parentId: string): Promise<Member[]> {
+  const members = await listMembers({ status: "active" });
+  return members.filter((m) => isGuardian(parentId, m));
+}
+
+/**
+ * Get the parents linked to a player
+ */
+export async function getGuardians(childId: string): Promise<Member[]> {
+  const child = await getMember(childId);
+  const guardians: Member[] = [];
+
+  for (const guardianId of child.guardianIds || []) {
+    try {
+      guardians.push(await getMember(guardianId));
+    } catch (error) {
+      if (!(error instanceof MemberNotFoundError)) {
+        throw error;
+      }
+    }
+  }
+
+  return guardians;
+}
+
+/**
+ * Remove a parent-child link
+ * The parent can always unlink; the player only once they are 18.
+ * @throws GuardianLinkError if the link doesn't exist or the player is under 18
+ */
+export async function unlinkGuardian(
+  actorId: string,
+  childId: string,
+  parentId: string,
+  now: Date = new Date()
+): Promise<Member> {
+  const child = await getMember(childId);
+  if (!isGuardian(parentId, child)) {
+    throw new GuardianLinkError("These accounts are not linked");
+  }
+
+  if (actorId === childId) {
+    const age = getAge(child.dateOfBirth, now);
+    if (age === null || age < ADULT_AGE) {
+      throw new GuardianLinkError(
+        `Players can leave a family link once they turn ${ADULT_AGE}` +
+          (age === null ? " (ask an admin to add your date of birth)" : "")
+      );
+    }
+  } else if (actorId !== parentId) {
+    throw new GuardianLinkError("Only the parent or the player can remove this link");
+  }
+
+  return updateMember(childId, {
+    guardianIds: (child.guardianIds || []).filter((id) => id !== parentId),
+  });
+}
+
+/**
+ * Family dashboard data: a parent's players with their upcoming bookings and
+ * latest journal entries, a player's parents, and open invitations
+ */
+export async function getFamilyOverview(
+  memberId: string,
+  now: Date = new Date()
+): Promise<FamilyOverview> {
+  const [children, guardians, invites, reservations] = await Promise.all([
+    getChildren(memberId),
+    getGuardians(memberId),
+    getGuardianInvites(memberId),
+    reservationRepository.findAll(),
+  ]);
+  const today = format(now, "yyyy-MM-dd");
+
+  const childOverviews = await Promise.all(
+    children.map(async (child) => {
+      const upcomingReservations = reservations
+        .filter((r) => r.memberId === child.id && isActiveReservation(r) && r.date >= today)
+        .sort((a, b) =>
+          `${a.date} ${a.timeSlot.start}`.localeCompare(`${b.date} ${b.timeSlot.start}`)
+        );
+
+      const entries = await journalRepository.findByPlayerId(child.id);
+      const recentJournalEntries = entries
+        .filter((e) => !e.draft)
+        .sort((a, b) => b.sessionDate.localeCompare(a.sessionDate))
+        .slice(0, RECENT_JOURNAL_LIMIT);
+
+      return { member: summarize(child), upcomingReservations, recentJournalEntries };
+    })
+  );
+
+  const names = new Map<string, string>();
+  const nameOf = async (id: string) => {
+    if (!names.has(id)) {
+      try {
+        const member = await getMember(id);
+        names.set(id, `${member.firstName} ${member.lastName}`);
+      } catch (error) {
+        if (!(error instanceof MemberNotFoundError)) {
+          throw error;
+        }
+        names.set(id, "Former member");
+      }
+    }
+    return names.get(id)!;
+  };
+
+  const pendingInvites: GuardianInviteDetails[] = [];
+  for (const invite of invites.filter((i) => i.status === "pending")) {
+    pendingInvites.push({
+      ...invite,
+      parentName: await nameOf(invite.parentId),
+      childName: await nameOf(invite.childId),
+    });
+  }
+
+  return {
+    children: childOverviews,
+    guardians: guardians.map(summarize),
+    invites: pendingInvites,
+  };
+}
@@ -3,7 +3,8 @@
  */
 
 import { JournalEntry, JournalEntryRequest, JournalFilter } from "../types/journal";
-import { journalRepository } from "./repositories/file-journal-repository";
+import { Reservation } from "../types/reservation";
+import { journalRepository } from "./repositories";
 import {
   JournalEntryNotFoundError,
   JournalValidationError,
@@ -110,6 +111,47 @@ export async function createJournalEntry(
   });
 }
 
+/**
+ * Start an empty journal entry for a booked lesson
+ * The coach fills in the summary and pointers after the session; until then
+ * the entry is a draft that players and parents don't see.
+ */
+export async function createLessonJournalDraft(reservation: Reservation): Promise<JournalEntry> {
+  if (!reservation.coachId || !reservation.memberId) {
+    throw new JournalValidationError("Journal drafts need a lesson with a coach and a player");
+  }
+
+  return journalRepository.create({
+    playerId: reservation.memberId,
+    coachId: reservation.coachId,
+    reservationId: reservation.id,
+    sessionDate: reservation.date,
+    sessionTime: reservation.timeSlot.start,
+    summary: "",
+    areasWorkedOn: [],
+    pointersForNextSession: "",
+    draft: true,
+    createdBy: reservation.coachId,
+  });
+}
+
+/**
+ * Remove unfinished journal drafts for a lesson (when it's cancelled)
+ * Entries the coach has already filled in are kept.
+ */
+export async function deleteLessonJournalDrafts(reservation: Reservation): Promise<void> {
+  if (!reservation.coachId) {
+    return;
+  }
+
+  const entries = await journalRepository.findByCoachId(reservation.coachId);
+  for (const entry of entries) {
+    if (entry.draft && entry.reservationId === reservation.id) {
+      await journalRepository.delete(entry.id);
+    }
+  }
+}
+
 /**
  * Get journal entry by ID
  */
@@ -127,7 +169,8 @@ export async function getJournalEntry(id: string): Promise<JournalEntry> {
  * Get journal entries with optional filtering
  */
 export async function getJournalEntries(filter?: JournalFilter): Promise<JournalEntry[]> {
-  return journalRepository.findAll(filter);
+  const entries = await journalRepository.findAll(filter);
+  return filter?.includeDrafts ? entries : entries.filter((entry) => !entry.draft);
 }
 
 /**
@@ -188,6 +231,15 @@ export async function updateJournalEntry(
     updateData.reservationId = updates.reservationId;
   }
 
+  // A lesson draft is published once it has a summary and pointers
+  if (entry.draft) {
+    const summary = updateData.summary ?? entry.summary;
+    const pointers = updateData.pointersForNextSession ?? entry.pointersForNextSession;
+    if (summary && pointers) {
+      updateData.draft = false;
+    }
+  }
+
   return journalRepository.update(id, updateData);
 }
 
@@ -222,6 +274,11 @@ export async function canViewJournalEntry(entryId: string, userId: string): Prom
     return true;
   }
 
+  // Drafts are only for the coach until they're filled in
+  if (entry.draft) {
+    return userRole === "coach" && entry.coachId === userId;
+  }
+
   // Players can view their own entries
   if (entry.playerId === userId) {
     return true;
@@ -232,6 +289,19 @@ export async function canViewJournalEntry(entryId: string, userId: string): Prom
     return true;
   }
 
+  // Parents can view entries for their linked players
+  if (userRole === "parent") {
+    try {
+      const player = await getMember(entry.playerId);
+      return !!player.guardianIds?.includes(userId);
+    } catch (error) {
+      if (error instanceof MemberNotFoundError) {
+        return false;
+      }
+      throw error;
+    }
+  }
+
   return false;
 }
 
@@ -250,6 +320,10 @@ export async function addPlayerReflection(
     throw new JournalAuthorizationError("Only the player who this entry is about can add a reflection");
   }
 
+  if (entry.draft) {
+    throw new JournalValidationError("The coach hasn't written up this session yet");
+  }
+
   // Validate reflection
   if (!reflection || typeof reflection !== "string" || reflection.trim().length === 0) {
     throw new JournalValidationError("Reflection cannot be empty");
@@ -0,0 +1,391 @@
+/**
+ * Business logic layer for coach lessons
+ *
+ * Coaches set weekly teaching hours and time off; members book a lesson type
+ * with a coach at a time the coach teaches. A lesson is a reservation that
+ * holds both the court and the coach, and it starts a journal draft the coach
+ * fills in after the session.
+ */
+
+import {
+  CoachSchedule,
+  CoachTimeOff,
+  CoachTimeOffRequest,
+  LessonRequest,
+  LessonSlot,
+  LessonType,
+  LessonTypeRequest,
+} from "../types/lesson";
+import { JournalEntry } from "../types/journal";
+import { Member } from "../types/member";
+import { Reservation } from "../types/reservation";
+import { lessonTypeRepository } from "./repositories/file-lesson-type-repository";
+import { coachScheduleRepository } from "./repositories/file-coach-schedule-repository";
+import { reservationRepository } from "./repositories";
+import { getMember, getMembersByRole } from "./members";
+import { getAllCourts } from "./courts";
+import { getClosuresForDate } from "./closures";
+import { createReservation } from "./reservations";
+import { createLessonJournalDraft } from "./journal";
+import { getCoachProgramSessions } from "./programs";
+import { ConflictError, NotFoundError, ValidationError } from "./errors/reservation-errors";
+import { closureBlocks } from "./utils/court-closures";
+import { isWithinOperatingHours } from "./utils/court-schedule";
+import {
+  addMinutes,
+  emptyWeeklyHours,
+  getLessonTimes,
+  isCoachAvailable,
+  timeOffBlocks,
+  validateLessonType,
+  validateTimeOffRequest,
+  validateWeeklyHours,
+} from "./utils/lessons";
+import { isActiveReservation } from "./utils/reservation-status";
+import { normalizeRole } from "./utils/role-utils";
+import { timeRangesOverlap } from "./utils/time-ranges";
+
+const DATE_REGEX = /^\d{4}-\d{2}-\d{2}$/;
+const TIME_REGEX = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+export interface CoachSummary {
+  id: string;
+  firstName: string;
+  lastName: string;
+}
+
+/**
+ * List lesson types (inactive ones only when requested)
+ */
+export async function listLessonTypes(
+  options: { includeInactive?: boolean } = {}
+): Promise<LessonType[]> {
+  const lessonTypes = await lessonTypeRepository.findAll();
+  return options.includeInactive ? lessonTypes : lessonTypes.filter((t) => t.active);
+}
+
+/**
+ * Get a lesson type by ID
+ * @throws NotFoundError if the lesson type does not exist
+ */
+export async function getLessonType(id: string): Promise<LessonType> {
+  const lessonType = await lessonTypeRepository.findById(id);
+  if (!lessonType) {
+    throw new NotFoundError(`Lesson type ${id}`);
+  }
+  return lessonType;
+}
+
+/**
+ * Add a lesson type
+ * @throws ValidationError if the lesson type is malformed
+ */
+export async function createLessonType(data: LessonTypeRequest): Promise<LessonType> {
+  validateLessonType(data);
+
+  return lessonTypeRepository.create({
+    name: data.name.trim(),
+    kind: data.kind,
+    durationMinutes: data.durationMinutes,
+    price: data.price,
+    maxPlayers: data.maxPlayers ?? (data.kind === "private" ? 1 : 2),
+    active: data.active ?? true,
+  });
+}
+
+/**
+ * Change a lesson type; lessons already booked keep their time slot
+ * @throws NotFoundError if the lesson type does not exist
+ * @throws ValidationError if the result is malformed
+ */
+export async function updateLessonType(
+  id: string,
+  updates: Partial<LessonTypeRequest>
+): Promise<LessonType> {
+  const existing = await getLessonType(id);
+  const merged: LessonTypeRequest = {
+    name: updates.name ?? existing.name,
+    kind: updates.kind ?? existing.kind,
+    durationMinutes: updates.durationMinutes ?? existing.durationMinutes,
+    price: updates.price ?? existing.price,
+    maxPlayers:
+      updates.maxPlayers ??
+      (updates.kind && updates.kind !== existing.kind
+        ? updates.kind === "private"
+          ? 1
+          : 2
+        : existing.maxPlayers),
+    active: updates.active ?? existing.active,
+  };
+  validateLessonType(merged);
+
+  return lessonTypeRepository.update(id, { ...merged, name: merged.name.trim() });
+}
+
+/**
+ * Get a member who coaches
+ * @throws MemberNotFoundError if the member does not exist
+ * @throws NotFoundError if the member isn't a coach
+ */
+async function getCoach(coachId: string): Promise<Member> {
+  const member = await getMember(coachId);
+  if (normalizeRole(member.role) !== "coach") {
+    throw new NotFoundError(`Coach ${coachId}`);
+  }
+  return member;
+}
+
+/**
+ * List active coaches
+ */
+export async function listCoaches(): Promise<CoachSummary[]> {
+  const coaches = await getMembersByRole("coach");
+  return coaches
+    .filter((c) => c.isActive !== false)
+    .map((c) => ({ id: c.id, firstName: c.firstName, lastName: c.lastName }))
+    .sort((a, b) => `${a.lastName} ${a.firstName}`.localeCompare(`${b.lastName} ${b.firstName}`));
+}
+
+/**
+ * Get a coach's weekly hours and time off (empty until they set them)
+ * @throws MemberNotFoundError or NotFoundError if the coach does not exist
+ */
+export async function getCoachSchedule(coachId: string): Promise<CoachSchedule> {
+  await getCoach(coachId);
+  const schedule = await coachScheduleRepository.findByCoachId(coachId);
+  return schedule || { coachId, weeklyHours: emptyWeeklyHours(), timeOff: [] };
+}
+
+/**
+ * Replace a coach's weekly hours; time off is kept
+ * @throws ValidationError if the hours are malformed
+ */
+export async function setCoachWeeklyHours(
+  coachId: string,
+  weeklyHours: unknown
+): Promise<CoachSchedule> {
+  const schedule = await getCoachSchedule(coachId);
+  return coachScheduleRepository.save({
+    ...schedule,
+    weeklyHours: validateWeeklyHours(weeklyHours),
+  });
+}
+
+/**
+ * Get a coach's active lessons, soonest first
+ */
+export async function getCoachLessons(
+  coachId: string,
+  filter: { from?: string; to?: string } = {}
+): Promise<Reservation[]> {
+  const reservations = await reservationRepository.findAll();
+  return reservations
+    .filter((r) => r.coachId === coachId && isActiveReservation(r))
+    .filter((r) => !filter.from || r.date >= filter.from)
+    .filter((r) => !filter.to || r.date <= filter.to)
+    .sort((a, b) =>
+      `${a.date}T${a.timeSlot.start}`.localeCompare(`${b.date}T${b.timeSlot.start}`)
+    );
+}
+
+/**
+ * Block out days or hours for a coach
+ *
+ * Lessons already booked inside the time off are left in place and returned
+ * so the coach or an admin can move or cancel them.
+ * @throws ValidationError if the time off is malformed
+ */
+export async function addCoachTimeOff(
+  coachId: string,
+  data: CoachTimeOffRequest
+): Promise<{ timeOff: CoachTimeOff; affectedLessons: Reservation[] }> {
+  validateTimeOffRequest(data);
+  const schedule = await getCoachSchedule(coachId);
+
+  const timeOff: CoachTimeOff = {
+    id: `time-off-${Date.now()}-${Math.random().toString(36).substring(2, 8)}`,
+    startDate: data.startDate,
+    endDate: data.endDate || data.startDate,
+    startTime: data.startTime || undefined,
+    endTime: data.endTime || undefined,
+    reason: data.reason?.trim() || undefined,
+    createdAt: new Date().toISOString(),
+  };
+  await coachScheduleRepository.save({ ...schedule, timeOff: [...schedule.timeOff, timeOff] });
+
+  const lessons = await getCoachLessons(coachId, { from: timeOff.startDate, to: timeOff.endDate });
+  const affectedLessons = lessons.filter((r) =>
+    timeOffBlocks(timeOff, r.date, r.timeSlot.start, r.timeSlot.end)
+  );
+  return { timeOff, affectedLessons };
+}
+
+/**
+ * Remove time off, making the coach bookable again for that window
+ * @throws NotFoundError if the time off does not exist
+ */
+export async function removeCoachTimeOff(coachId: string, timeOffId: string): Promise<void> {
+  const schedule = await getCoachSchedule(coachId);
+  if (!schedule.timeOff.some((t) => t.id === timeOffId)) {
+    throw new NotFoundError(`Time off ${timeOffId}`);
+  }
+
+  await coachScheduleRepository.save({
+    ...schedule,
+    timeOff: schedule.timeOff.filter((t) => t.id !== timeOffId),
+  });
+}
+
+/**
+ * Find the lesson times a coach can teach on a date, with the courts free for each
+ * Times when the coach is already teaching (a lesson or a program session),
+ * or no court is free, are left out.
+ * @throws NotFoundError if the coach or lesson type does not exist
+ * @throws ValidationError if the date is malformed or the lesson type is inactive
+ */
+export async function getLessonSlots(
+  coachId: string,
+  date: string,
+  lessonTypeId: string
+): Promise<LessonSlot[]> {
+  if (typeof date !== "string" || !DATE_REGEX.test(date)) {
+    throw new ValidationError("date must be in YYYY-MM-DD format");
+  }
+
+  const lessonType = await getLessonType(lessonTypeId);
+  if (!lessonType.active) {
+    throw new ValidationError(`${lessonType.name} lessons aren't offered right now`);
+  }
+
+  const schedule = await getCoachSchedule(coachId);
+  const [courts, reservations, closures, programSessions] = await Promise.all([
+    getAllCourts(),
+    reservationRepository.findByDate(date),
+    getClosuresForDate(date),
+    getCoachProgramSessions(coachId, date),
+  ]);
+
+  const slots: LessonSlot[] = [];
+  for (const time of getLessonTimes(schedule, date, lessonType.durationMinutes)) {
+    const overlaps = (r: Reservation) =>
+      timeRangesOverlap(time.start, time.end, r.timeSlot.start, r.timeSlot.end);
+
+    if (
+      reservations.some((r) => r.coachId === coachId && overlaps(r)) ||
+      programSessions.some((p) => timeRangesOverlap(time.start, time.end, p.start, p.end))
+    ) {
+      continue;
+    }
+
+    const courtIds = courts
+      .filter(
+        (court) =>
+          isWithinOperatingHours(court.schedule, date, time.start, time.end) &&
+          !closures.some((c) => closureBlocks(c, court.id, date, time.start, time.end)) &&
+          !reservations.some((r) => r.courtId === court.id && overlaps(r))
+      )
+      .map((court) => court.id);
+
+    if (courtIds.length > 0) {
+      slots.push({ ...time, courtIds });
+    }
+  }
+
+  return slots;
+}
+
+/**
+ * Book a lesson: reserve a court and the coach together, then start the
+ * coach's journal draft for it
+ *
+ * The coach must teach at that time. Leave out courtId to take the first
+ * free court. Semi-private lessons can invite partners up to the lesson
+ * type's player limit.
+ * @throws NotFoundError if the coach or lesson type does not exist
+ * @throws ValidationError if the lesson can't be booked at that time
+ * @throws ConflictError if the coach or court is already booked, or the coach
+ * is running a program session
+ */
+export async function bookLesson(
+  request: LessonRequest,
+  bookedBy?: string
+): Promise<{ reservation: Reservation; journalEntry?: JournalEntry }> {
+  if (!request?.coachId || !request.lessonTypeId || !request.memberId) {
+    throw new ValidationError("coachId, lessonTypeId and memberId are required");
+  }
+  if (typeof request.date !== "string" || !DATE_REGEX.test(request.date)) {
+    throw new ValidationError("date must be in YYYY-MM-DD format");
+  }
+  if (typeof request.start !== "string" || !TIME_REGEX.test(request.start)) {
+    throw new ValidationError("start must be in HH:mm format");
+  }
+  if (request.memberId === request.coachId) {
+    throw new ValidationError("Coaches can't book lessons with themselves");
+  }
+
+  const lessonType = await getLessonType(request.lessonTypeId);
+  if (!lessonType.active) {
+    throw new ValidationError(`${lessonType.name} lessons aren't offered right now`);
+  }
+
+  const partners = request.partners || [];
+  if (partners.length > lessonType.maxPlayers - 1) {
+    throw new ValidationError(
+      lessonType.maxPlayers === 1
+        ? `${lessonType.name} is for one player`
+        : `${lessonType.name} is for at most ${lessonType.maxPlayers} players`
+    );
+  }
+
+  const coach = await getCoach(request.coachId);
+  const end = addMinutes(request.start, lessonType.durationMinutes);
+  const schedule = await coachScheduleRepository.findByCoachId(coach.id);
+  if (!isCoachAvailable(schedule, request.date, request.start, end)) {
+    throw new ValidationError(
+      `${coach.firstName} ${coach.lastName} isn't teaching ${request.date} ${request.start}-${end}`
+    );
+  }
+
+  const programSession = (await getCoachProgramSessions(coach.id, request.date)).find((p) =>
+    timeRangesOverlap(request.start, end, p.start, p.end)
+  );
+  if (programSession) {
+    throw new ConflictError(
+      `${coach.firstName} ${coach.lastName} is running ${programSession.programName} ${programSession.start}-${programSession.end}`
+    );
+  }
+
+  let courtId = request.courtId;
+  if (!courtId) {
+    const slot = (await getLessonSlots(coach.id, request.date, lessonType.id)).find(
+      (s) => s.start === request.start
+    );
+    if (!slot) {
+      throw new ConflictError(`No court is free for a lesson ${request.date} ${request.start}-${end}`);
+    }
+    courtId = slot.courtIds[0];
+  }
+
+  const reservation = await createReservation({
+    courtId,
+    date: request.date,
+    timeSlot: { start: request.start, end },
+    memberId: request.memberId,
+    bookedBy: bookedBy && bookedBy !== request.memberId ? bookedBy : undefined,
+    notes: request.notes,
+    partners: partners.length > 0 ? partners : undefined,
+    splitPayment: request.splitPayment,
+    coachId: coach.id,
+    lessonTypeId: lessonType.id,
+  });
+
+  // The lesson stands even if the draft can't be written; the coach can add an entry later
+  let journalEntry: JournalEntry | undefined;
+  try {
+    journalEntry = await createLessonJournalDraft(reservation);
+  } catch (error) {
+    console.error(`Failed to create journal draft for lesson ${reservation.id}:`, error);
+  }
+
+  return { reservation, journalEntry };
+}
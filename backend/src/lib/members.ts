@@ -4,8 +4,8 @@
  * Provides high-level functions for member management
  */
 
-import { Member, MemberRequest, MemberFilter } from "../types/member";
-import { memberRepository } from "./repositories/file-member-repository";
+import { Member, MemberRequest, MemberFilter, PublicMember } from "../types/member";
+import { memberRepository } from "./repositories";
 import {
   MemberNotFoundError,
   InvalidMemberStatusError,
@@ -13,11 +13,15 @@ import {
 } from "./errors/member-errors";
 import { validateMemberData, validateMemberUpdate } from "./utils/member-validation";
 import { normalizeRole, isValidRole, MemberRole } from "./utils/role-utils";
+import { revokeAllSessions } from "./auth/session-manager";
+import { recordAudit } from "./audit";
+import { AuditContext } from "../types/audit";
 
 /**
  * Create a new member with validation
+ * @param audit Who is creating the member; recorded in the audit log when given
  */
-export async function createMember(data: MemberRequest): Promise<Member> {
+export async function createMember(data: MemberRequest, audit?: AuditContext): Promise<Member> {
   // Validate member data
   validateMemberData(data);
   
@@ -25,7 +29,7 @@ export async function createMember(data: MemberRequest): Promise<Member> {
   const role = normalizeRole(data.role);
   
   // Create member via repository
-  return memberRepository.create({
+  const member = await memberRepository.create({
     memberNumber: data.memberNumber,
     firstName: data.firstName.trim(),
     lastName: data.lastName.trim(),
@@ -42,6 +46,20 @@ export async function createMember(data: MemberRequest): Promise<Member> {
     penaltyCancellations: 0,
     unsubscribeEmail: false,
   });
+
+  if (audit) {
+    await recordAudit(audit, "member.create", "member", member.id, null, member);
+  }
+
+  return member;
+}
+
+/**
+ * Strip credentials and secret tokens before a member leaves the API
+ */
+export function toPublicMember(member: Member): PublicMember {
+  const { passwordHash, calendarToken, stripeCustomerId, ...publicMember } = member;
+  return publicMember;
 }
 
 /**
@@ -64,25 +82,57 @@ export async function getMemberByEmail(email: string): Promise<Member | null> {
   return memberRepository.findByEmail(email);
 }
 
+/**
+ * Get member by member number (e.g. from a membership card)
+ */
+export async function getMemberByNumber(memberNumber: string): Promise<Member | null> {
+  return memberRepository.findByMemberNumber(memberNumber);
+}
+
 /**
  * Update member
+ * @param audit Who is making the change; recorded in the audit log when given.
+ * Internal bookkeeping (password hashes, penalty tallies) passes none.
  */
 export async function updateMember(
   id: string,
-  updates: Partial<Member>
+  updates: Partial<Member>,
+  audit?: AuditContext
 ): Promise<Member> {
   // Validate update data
   validateMemberUpdate(updates);
   
   // Update via repository
-  return memberRepository.update(id, updates);
+  const before = audit ? await memberRepository.findById(id) : null;
+  const member = await memberRepository.update(id, updates);
+
+  if (audit && before) {
+    await recordAudit(audit, "member.update", "member", id, before, member);
+  }
+  
+  // Deactivated members are signed out everywhere
+  if (updates.isActive === false) {
+    await revokeAllSessions(id, "deactivated");
+  }
+  
+  return member;
 }
 
 /**
  * Delete/deactivate member
+ * @param audit Who is deactivating the member; recorded in the audit log when given
  */
-export async function deleteMember(id: string): Promise<boolean> {
-  return memberRepository.delete(id);
+export async function deleteMember(id: string, audit?: AuditContext): Promise<boolean> {
+  const before = audit ? await memberRepository.findById(id) : null;
+  const deleted = await memberRepository.delete(id);
+  if (deleted) {
+    await revokeAllSessions(id, "deactivated");
+  }
+  if (deleted && audit && before) {
+    const after = (await memberRepository.findById(id)) || { ...before, isActive: false };
+    await recordAudit(audit, "member.deactivate", "member", id, before, after);
+  }
+  return deleted;
 }
 
 /**
@@ -11,24 +11,24 @@
  * 5. Adapts capabilities based on user role (admin/coach/player)
  */
 
-import { GoogleGenerativeAI, SchemaType } from "@google/generative-ai";
 import { getJournalEntries } from "./journal";
-import { journalRepository } from "./repositories/file-journal-repository";
+import { journalRepository } from "./repositories";
 import {
   getMember,
   searchMembers,
-  createMember,
   listMembers,
 } from "./members";
+import { validateMemberData } from "./utils/member-validation";
 import { JournalAnalytics } from "../types/training-plan";
+import { LLMMessage, ToolCall, ToolDeclaration } from "../types/llm";
+import { AIAction } from "../types/ai-action";
+import { ChatStream, runToolLoop, toHistory } from "./ai/tool-loop";
+import { proposeAction, toPendingToolResult } from "./ai-actions";
 import {
   createTrainingPlan,
   getPlayerTrainingPlans,
 } from "./repositories/file-training-plan-repository";
 
-const genAI = new GoogleGenerativeAI(process.env.GOOGLE_API_KEY || "");
-const modelName = process.env.GOOGLE_GENAI_MODEL || "gemini-3-flash-preview";
-
 // ─── System Prompts ──────────────────────────────────────────────────
 
 function getOrchestratorSystemPrompt(
@@ -112,7 +112,8 @@ You are the AI Tennis Coach & Assistant for Providence Tennis Academy. Your name
 ## Player Creation:
 When creating a new player, you need at minimum: firstName, lastName, email, phone.
 If the admin doesn't provide all details, ask for the missing ones.
-After creating a player, confirm with the details.
+The account isn't created right away: createNewPlayer returns a pending action that the admin
+confirms or rejects with the buttons under your reply. Show the details and ask them to confirm.
 `;
 
   const coachPrompt = `
@@ -247,16 +248,16 @@ async function analyzePlayerJournals(
 /**
  * Training tools available to all authenticated users
  */
-const trainingTools = [
+const trainingTools: ToolDeclaration[] = [
   {
     name: "getPlayerJournalAnalytics",
     description:
       "Analyzes a player's journal entries to provide statistics about their training sessions, focus areas, and progress trends. Returns frequency of areas worked on, recent focus, coach feedback, and improvement trends.",
     parameters: {
-      type: SchemaType.OBJECT,
+      type: "object",
       properties: {
         playerId: {
-          type: SchemaType.STRING,
+          type: "string",
           description: "The ID of the player to analyze",
         },
       },
@@ -268,10 +269,10 @@ const trainingTools = [
     description:
       "Gets basic profile information about a player including name, member number, rating, and join date.",
     parameters: {
-      type: SchemaType.OBJECT,
+      type: "object",
       properties: {
         playerId: {
-          type: SchemaType.STRING,
+          type: "string",
           description: "The ID of the player",
         },
       },
@@ -283,10 +284,10 @@ const trainingTools = [
     description:
       "Retrieves all previous training plans created for the player to track progress over time and avoid repetition.",
     parameters: {
-      type: SchemaType.OBJECT,
+      type: "object",
       properties: {
         playerId: {
-          type: SchemaType.STRING,
+          type: "string",
           description: "The ID of the player",
         },
       },
@@ -298,41 +299,41 @@ const trainingTools = [
     description:
       "Creates a personalized training plan for a player. After calling this, you MUST also call createJournalEntryForPlan to log the plan as a journal entry.",
     parameters: {
-      type: SchemaType.OBJECT,
+      type: "object",
       properties: {
         playerId: {
-          type: SchemaType.STRING,
+          type: "string",
           description: "The ID of the player",
         },
         focusAreas: {
-          type: SchemaType.ARRAY,
+          type: "array",
           description:
             "Main areas to focus on (e.g., ['backhand', 'serve', 'footwork'])",
-          items: { type: SchemaType.STRING },
+          items: { type: "string" },
         },
         strengths: {
-          type: SchemaType.ARRAY,
+          type: "array",
           description: "Player's current strengths",
-          items: { type: SchemaType.STRING },
+          items: { type: "string" },
         },
         areasForImprovement: {
-          type: SchemaType.ARRAY,
+          type: "array",
           description: "Specific areas that need work",
-          items: { type: SchemaType.STRING },
+          items: { type: "string" },
         },
         recommendations: {
-          type: SchemaType.STRING,
+          type: "string",
           description: "Detailed recommendations and strategy",
         },
         suggestedDrills: {
-          type: SchemaType.ARRAY,
+          type: "array",
           description: "Specific drills to practice",
-          items: { type: SchemaType.STRING },
+          items: { type: "string" },
         },
         weeklyGoals: {
-          type: SchemaType.ARRAY,
+          type: "array",
           description: "Achievable weekly goals",
-          items: { type: SchemaType.STRING },
+          items: { type: "string" },
         },
       },
       required: [
@@ -348,29 +349,29 @@ const trainingTools = [
     description:
       "Logs a training plan as a journal entry so it appears in the player's journal history. Call this AFTER creating a training plan. The summary should describe the plan, areasWorkedOn should list the focus areas, and pointersForNextSession should contain the key recommendations.",
     parameters: {
-      type: SchemaType.OBJECT,
+      type: "object",
       properties: {
         playerId: {
-          type: SchemaType.STRING,
+          type: "string",
           description: "The ID of the player the plan is for",
         },
         summary: {
-          type: SchemaType.STRING,
+          type: "string",
           description:
             "A summary of the training plan (e.g., 'AI-Generated Training Plan: Focus on backhand and serve consistency')",
         },
         areasWorkedOn: {
-          type: SchemaType.ARRAY,
+          type: "array",
           description: "The focus areas from the training plan",
-          items: { type: SchemaType.STRING },
+          items: { type: "string" },
         },
         pointersForNextSession: {
-          type: SchemaType.STRING,
+          type: "string",
           description:
             "Key recommendations and goals from the plan for the next sessions",
         },
         additionalNotes: {
-          type: SchemaType.STRING,
+          type: "string",
           description:
             "Optional: Additional details about the plan, drills, or goals",
         },
@@ -388,16 +389,16 @@ const trainingTools = [
 /**
  * Admin/Coach-only tools for player management
  */
-const adminTools = [
+const adminTools: ToolDeclaration[] = [
   {
     name: "searchPlayersByName",
     description:
       "Search for players by name. Returns matching members. Use this when the user mentions a player by name to find their ID.",
     parameters: {
-      type: SchemaType.OBJECT,
+      type: "object",
       properties: {
         searchTerm: {
-          type: SchemaType.STRING,
+          type: "string",
           description:
             "Name or partial name to search for (e.g., 'Jose', 'Smith')",
         },
@@ -410,40 +411,40 @@ const adminTools = [
     description:
       "List all active players at the academy. Use when admin asks to see all players or needs to find someone.",
     parameters: {
-      type: SchemaType.OBJECT,
+      type: "object",
       properties: {},
     },
   },
   {
     name: "createNewPlayer",
     description:
-      "Create a new player account at the academy. Requires firstName, lastName, email, and phone. The player will be created with role 'player' and active status.",
+      "Create a new player account at the academy. Requires firstName, lastName, email, and phone. The player will be created with role 'player' and active status. Returns a pending action the admin must confirm.",
     parameters: {
-      type: SchemaType.OBJECT,
+      type: "object",
       properties: {
         firstName: {
-          type: SchemaType.STRING,
+          type: "string",
           description: "Player's first name",
         },
         lastName: {
-          type: SchemaType.STRING,
+          type: "string",
           description: "Player's last name",
         },
         email: {
-          type: SchemaType.STRING,
+          type: "string",
           description: "Player's email address",
         },
         phone: {
-          type: SchemaType.STRING,
+          type: "string",
           description: "Player's phone number",
         },
         ntrpRating: {
-          type: SchemaType.STRING,
+          type: "string",
           description:
             "Optional: Player's NTRP rating (e.g., '3.5', '4.0')",
         },
         notes: {
-          type: SchemaType.STRING,
+          type: "string",
           description: "Optional: Any notes about the player",
         },
       },
@@ -452,265 +453,280 @@ const adminTools = [
   },
 ];
 
+/**
+ * Progress shown while a streamed reply runs each tool
+ */
+const TOOL_LABELS: Record<string, string> = {
+  getPlayerJournalAnalytics: "Analyzing journal entries",
+  getPlayerProfile: "Looking up the player",
+  getPlayerTrainingHistory: "Reviewing training history",
+  createTrainingPlanForPlayer: "Creating the training plan",
+  createJournalEntryForPlan: "Logging the plan to the journal",
+  searchPlayersByName: "Searching players",
+  listAllPlayers: "Listing players",
+  createNewPlayer: "Preparing the new player",
+};
+
 // ─── Tool Execution ──────────────────────────────────────────────────
 
 async function handleToolCall(
-  call: { name: string; args?: Record<string, any> },
+  call: ToolCall,
   userId: string,
-  userRole: string
-): Promise<any> {
-  const functionName = call.name;
-  const args = call.args || {};
-
-  console.log(`[Orchestrator AI] Tool called: ${functionName}`, args);
-
-  try {
-    switch (functionName) {
-      // ── Training Tools ───────────────────────────────
-
-      case "getPlayerJournalAnalytics": {
-        // Authorization: players can only analyze their own data
-        if (
-          userRole === "player" &&
-          args.playerId !== userId
-        ) {
-          return {
-            success: false,
-            error:
-              "You can only view your own journal analytics. Use your own player ID.",
-          };
-        }
-
-        const analytics = await analyzePlayerJournals(args.playerId);
-        return { success: true, data: analytics };
-      }
-
-      case "getPlayerProfile": {
-        if (
-          userRole === "player" &&
-          args.playerId !== userId
-        ) {
-          return {
-            success: false,
-            error: "You can only view your own profile.",
-          };
-        }
-
-        const member = await getMember(args.playerId);
+  userRole: string,
+  pendingActions: AIAction[]
+): Promise<Record<string, any>> {
+  const args = call.args;
+
+  switch (call.name) {
+    // ── Training Tools ───────────────────────────────
+
+    case "getPlayerJournalAnalytics": {
+      // Authorization: players can only analyze their own data
+      if (
+        userRole === "player" &&
+        args.playerId !== userId
+      ) {
         return {
-          success: true,
-          data: {
-            id: member.id,
-            name: `${member.firstName} ${member.lastName}`,
-            memberNumber: member.memberNumber,
-            joinDate: member.createdAt,
-            role: member.role,
-            ntrpRating: (member as any).ntrpRating || "Not set",
-          },
+          success: false,
+          error:
+            "You can only view your own journal analytics. Use your own player ID.",
         };
       }
 
-      case "getPlayerTrainingHistory": {
-        if (
-          userRole === "player" &&
-          args.playerId !== userId
-        ) {
-          return {
-            success: false,
-            error: "You can only view your own training history.",
-          };
-        }
-
-        const plans = await getPlayerTrainingPlans(args.playerId);
+      const analytics = await analyzePlayerJournals(args.playerId);
+      return { success: true, data: analytics };
+    }
+
+    case "getPlayerProfile": {
+      if (
+        userRole === "player" &&
+        args.playerId !== userId
+      ) {
         return {
-          success: true,
-          data: {
-            totalPlans: plans.length,
-            plans: plans.map((p) => ({
-              id: p.id,
-              created: p.createdAt,
-              focusAreas: p.focusAreas,
-              strengths: p.strengths,
-              areasForImprovement: p.areasForImprovement,
-              recommendations: p.recommendations,
-              suggestedDrills: p.suggestedDrills,
-              weeklyGoals: p.weeklyGoals,
-              version: p.version,
-              lastReview: p.lastReviewDate,
-            })),
-          },
+          success: false,
+          error: "You can only view your own profile.",
         };
       }
 
-      case "createTrainingPlanForPlayer": {
-        if (
-          userRole === "player" &&
-          args.playerId !== userId
-        ) {
-          return {
-            success: false,
-            error: "You can only create plans for yourself.",
-          };
-        }
-
-        const plan = await createTrainingPlan({
-          playerId: args.playerId,
-          focusAreas: args.focusAreas || [],
-          strengths: args.strengths || [],
-          areasForImprovement: args.areasForImprovement || [],
-          recommendations: args.recommendations || "",
-          suggestedDrills: args.suggestedDrills || [],
-          weeklyGoals: args.weeklyGoals || [],
-          progressNotes: "",
-          createdBy: `ai-orchestrator-${userId}`,
-        });
+      const member = await getMember(args.playerId);
+      return {
+        success: true,
+        data: {
+          id: member.id,
+          name: `${member.firstName} ${member.lastName}`,
+          memberNumber: member.memberNumber,
+          joinDate: member.createdAt,
+          role: member.role,
+          ntrpRating: (member as any).ntrpRating || "Not set",
+        },
+      };
+    }
 
+    case "getPlayerTrainingHistory": {
+      if (
+        userRole === "player" &&
+        args.playerId !== userId
+      ) {
         return {
-          success: true,
-          data: {
-            planId: plan.id,
-            message:
-              "Training plan created successfully! Now log it as a journal entry.",
-          },
+          success: false,
+          error: "You can only view your own training history.",
         };
       }
 
-      case "createJournalEntryForPlan": {
-        if (
-          userRole === "player" &&
-          args.playerId !== userId
-        ) {
-          return {
-            success: false,
-            error: "You can only create journal entries for yourself.",
-          };
-        }
-
-        // For AI-generated plan entries, we use the repository directly to bypass
-        // the coach role check. The coachId is set to the requesting user's ID,
-        // and the entry is clearly marked as AI-generated in the summary.
-        const today = new Date().toISOString().split("T")[0];
-
-        const entry = await journalRepository.create({
-          playerId: args.playerId,
-          coachId: userId,
-          sessionDate: today,
-          summary: `[AI Training Plan] ${args.summary}`,
-          areasWorkedOn: args.areasWorkedOn || [],
-          pointersForNextSession: args.pointersForNextSession || "",
-          additionalNotes:
-            args.additionalNotes || "Generated by AI Tennis Coach (Ace)",
-          createdBy: `ai-orchestrator-${userId}`,
-        });
+      const plans = await getPlayerTrainingPlans(args.playerId);
+      return {
+        success: true,
+        data: {
+          totalPlans: plans.length,
+          plans: plans.map((p) => ({
+            id: p.id,
+            created: p.createdAt,
+            focusAreas: p.focusAreas,
+            strengths: p.strengths,
+            areasForImprovement: p.areasForImprovement,
+            recommendations: p.recommendations,
+            suggestedDrills: p.suggestedDrills,
+            weeklyGoals: p.weeklyGoals,
+            version: p.version,
+            lastReview: p.lastReviewDate,
+          })),
+        },
+      };
+    }
 
+    case "createTrainingPlanForPlayer": {
+      if (
+        userRole === "player" &&
+        args.playerId !== userId
+      ) {
         return {
-          success: true,
-          data: {
-            journalEntryId: entry.id,
-            message:
-              "Training plan has been logged as a journal entry! The player can see it in their journal.",
-          },
+          success: false,
+          error: "You can only create plans for yourself.",
         };
       }
 
-      // ── Admin/Coach Tools ────────────────────────────
-
-      case "searchPlayersByName": {
-        if (userRole === "player") {
-          return {
-            success: false,
-            error: "Only admins and coaches can search for other players.",
-          };
-        }
-
-        const results = await searchMembers(args.searchTerm);
-        const players = results.filter(
-          (m) => m.isActive
-        );
+      const plan = await createTrainingPlan({
+        playerId: args.playerId,
+        focusAreas: args.focusAreas || [],
+        strengths: args.strengths || [],
+        areasForImprovement: args.areasForImprovement || [],
+        recommendations: args.recommendations || "",
+        suggestedDrills: args.suggestedDrills || [],
+        weeklyGoals: args.weeklyGoals || [],
+        progressNotes: "",
+        createdBy: `ai-orchestrator-${userId}`,
+      });
+
+      return {
+        success: true,
+        data: {
+          planId: plan.id,
+          message:
+            "Training plan created successfully! Now log it as a journal entry.",
+        },
+      };
+    }
 
+    case "createJournalEntryForPlan": {
+      if (
+        userRole === "player" &&
+        args.playerId !== userId
+      ) {
         return {
-          success: true,
-          data: {
-            count: players.length,
-            players: players.map((p) => ({
-              id: p.id,
-              name: `${p.firstName} ${p.lastName}`,
-              email: p.email,
-              role: p.role || "player",
-              memberNumber: p.memberNumber,
-              ntrpRating: (p as any).ntrpRating || "Not set",
-            })),
-          },
+          success: false,
+          error: "You can only create journal entries for yourself.",
         };
       }
 
-      case "listAllPlayers": {
-        if (userRole === "player") {
-          return {
-            success: false,
-            error: "Only admins and coaches can list all players.",
-          };
-        }
+      // For AI-generated plan entries, we use the repository directly to bypass
+      // the coach role check. The coachId is set to the requesting user's ID,
+      // and the entry is clearly marked as AI-generated in the summary.
+      const today = new Date().toISOString().split("T")[0];
+
+      const entry = await journalRepository.create({
+        playerId: args.playerId,
+        coachId: userId,
+        sessionDate: today,
+        summary: `[AI Training Plan] ${args.summary}`,
+        areasWorkedOn: args.areasWorkedOn || [],
+        pointersForNextSession: args.pointersForNextSession || "",
+        additionalNotes:
+          args.additionalNotes || "Generated by AI Tennis Coach (Ace)",
+        createdBy: `ai-orchestrator-${userId}`,
+      });
+
+      return {
+        success: true,
+        data: {
+          journalEntryId: entry.id,
+          message:
+            "Training plan has been logged as a journal entry! The player can see it in their journal.",
+        },
+      };
+    }
+
+    // ── Admin/Coach Tools ────────────────────────────
 
-        const allMembers = await listMembers({ status: "active" });
+    case "searchPlayersByName": {
+      if (userRole === "player") {
         return {
-          success: true,
-          data: {
-            count: allMembers.length,
-            players: allMembers.map((p) => ({
-              id: p.id,
-              name: `${p.firstName} ${p.lastName}`,
-              email: p.email,
-              role: p.role || "player",
-              memberNumber: p.memberNumber,
-            })),
-          },
+          success: false,
+          error: "Only admins and coaches can search for other players.",
         };
       }
 
-      case "createNewPlayer": {
-        if (userRole !== "admin") {
-          return {
-            success: false,
-            error: "Only admins can create new player accounts.",
-          };
-        }
-
-        const newMember = await createMember({
-          firstName: args.firstName,
-          lastName: args.lastName,
-          email: args.email,
-          phone: args.phone,
-          role: "player",
-          isActive: true,
-          ntrpRating: args.ntrpRating,
-          notes: args.notes,
-        });
+      const results = await searchMembers(args.searchTerm);
+      const players = results.filter(
+        (m) => m.isActive
+      );
+
+      return {
+        success: true,
+        data: {
+          count: players.length,
+          players: players.map((p) => ({
+            id: p.id,
+            name: `${p.firstName} ${p.lastName}`,
+            email: p.email,
+            role: p.role || "player",
+            memberNumber: p.memberNumber,
+            ntrpRating: (p as any).ntrpRating || "Not set",
+          })),
+        },
+      };
+    }
 
+    case "listAllPlayers": {
+      if (userRole === "player") {
         return {
-          success: true,
-          data: {
-            id: newMember.id,
-            name: `${newMember.firstName} ${newMember.lastName}`,
-            email: newMember.email,
-            memberNumber: newMember.memberNumber,
-            message: `Player ${newMember.firstName} ${newMember.lastName} has been created successfully! They can now sign up with their email (${newMember.email}) to access their account.`,
-          },
+          success: false,
+          error: "Only admins and coaches can list all players.",
         };
       }
 
-      default:
+      const allMembers = await listMembers({ status: "active" });
+      return {
+        success: true,
+        data: {
+          count: allMembers.length,
+          players: allMembers.map((p) => ({
+            id: p.id,
+            name: `${p.firstName} ${p.lastName}`,
+            email: p.email,
+            role: p.role || "player",
+            memberNumber: p.memberNumber,
+          })),
+        },
+      };
+    }
+
+    case "createNewPlayer": {
+      if (userRole !== "admin") {
         return {
           success: false,
-          error: `Unknown function: ${functionName}`,
+          error: "Only admins can create new player accounts.",
         };
+      }
+
+      const player = {
+        firstName: String(args.firstName || ""),
+        lastName: String(args.lastName || ""),
+        email: String(args.email || ""),
+        phone: String(args.phone || ""),
+        ntrpRating: args.ntrpRating,
+        notes: args.notes,
+      };
+      validateMemberData({ ...player, role: "player" });
+
+      // Held for the admin to confirm
+      const action = await proposeAction({
+        memberId: userId,
+        agent: "orchestrator",
+        type: "createNewPlayer",
+        args: player,
+        summary: `Create a player account for ${player.firstName} ${player.lastName} (${player.email})`,
+        changes: [
+          {
+            entity: "member",
+            before: null,
+            after: {
+              name: `${player.firstName} ${player.lastName}`,
+              email: player.email,
+              phone: player.phone,
+              role: "player",
+            },
+          },
+        ],
+      });
+      pendingActions.push(action);
+      return toPendingToolResult(action);
     }
-  } catch (error: any) {
-    console.error(`[Orchestrator AI] Error in ${functionName}:`, error);
-    return {
-      success: false,
-      error: error.message || `Failed to execute ${functionName}`,
-    };
+
+    default:
+      return {
+        success: false,
+        error: `Unknown function: ${call.name}`,
+      };
   }
 }
 
@@ -719,103 +735,43 @@ async function handleToolCall(
 export interface OrchestratorChatOptions {
   message: string;
   conversationHistory: Array<{ role: string; content: string }>;
+  threadHistory?: LLMMessage[];   // Stored thread transcript; replaces conversationHistory
   userId: string;
   userRole: string;
   userName: string;
+  stream?: ChatStream;            // Report the reply and tool progress as they happen
 }
 
 export async function chatWithOrchestrator(
   options: OrchestratorChatOptions
-): Promise<{ response: string }> {
-  const { message, conversationHistory, userId, userRole, userName } = options;
+): Promise<{ response: string; pendingActions: AIAction[]; messages: LLMMessage[] }> {
+  const { message, conversationHistory, threadHistory, userId, userRole, userName, stream } =
+    options;
+
+  const pendingActions: AIAction[] = [];
 
   // Build tool list based on role
-  const allTools: any[] = [...trainingTools];
+  const tools = [...trainingTools];
   if (userRole === "admin" || userRole === "coach") {
-    allTools.push(...adminTools);
+    tools.push(...adminTools);
   }
 
-  const model = genAI.getGenerativeModel({
-    model: modelName,
-    tools: [{ functionDeclarations: allTools }] as any,
-    systemInstruction: {
-      parts: [
-        {
-          text: getOrchestratorSystemPrompt(userRole, userName, userId),
-        },
-      ],
-    } as any,
-  });
-
-  // Format conversation history
-  const filteredHistory = conversationHistory
-    .filter((msg) => msg.role === "user" || msg.role === "assistant")
-    .slice(-12); // Keep last 12 messages for context
-
-  // Ensure history starts with a user message
-  if (filteredHistory.length > 0 && filteredHistory[0].role !== "user") {
-    filteredHistory.shift();
-  }
-
-  const formattedHistory = filteredHistory.map((msg) => ({
-    role: msg.role === "assistant" ? "model" : msg.role,
-    parts: [{ text: msg.content }],
-  }));
-
-  const chat = model.startChat({
-    history: formattedHistory,
-  });
-
-  // Send message and handle agentic tool-calling loop
-  let result = await chat.sendMessage(message);
-  let response = result.response;
-
   // Agentic loop: keep calling tools until the model returns a text response
-  let loopCount = 0;
-  const MAX_LOOPS = 10; // Safety limit
-
-  while (
-    loopCount < MAX_LOOPS &&
-    response.candidates?.[0]?.content?.parts?.some(
-      (part: any) => part.functionCall
-    )
-  ) {
-    loopCount++;
-    const functionCalls = response.candidates[0].content.parts.filter(
-      (part: any) => part.functionCall
-    );
-
-    console.log(
-      `[Orchestrator AI] Loop ${loopCount}: Processing ${functionCalls.length} tool call(s)`
-    );
-
-    const functionResponses = await Promise.all(
-      functionCalls.map(async (part: any) => {
-        const toolResult = await handleToolCall(
-          part.functionCall,
-          userId,
-          userRole
-        );
-        return {
-          functionResponse: {
-            name: part.functionCall.name,
-            response: toolResult,
-          },
-        };
-      })
-    );
-
-    // Send tool results back to the model
-    result = await chat.sendMessage(functionResponses);
-    response = result.response;
-  }
-
-  if (loopCount >= MAX_LOOPS) {
-    console.warn(
-      "[Orchestrator AI] Hit maximum tool-call loop limit"
-    );
-  }
+  const history = threadHistory || toHistory(conversationHistory, 12); // Keep last 12 messages for context
+  const result = await runToolLoop({
+    system: getOrchestratorSystemPrompt(userRole, userName, userId),
+    history,
+    message,
+    tools,
+    handleToolCall: (call) => handleToolCall(call, userId, userRole, pendingActions),
+    logPrefix: "[Orchestrator AI]",
+    stream,
+    toolLabels: TOOL_LABELS,
+  });
 
-  const textResponse = response.text();
-  return { response: textResponse };
+  return {
+    response: result.text,
+    pendingActions,
+    messages: result.messages.slice(history.length),
+  };
 }
@@ -0,0 +1,236 @@
+/**
+ * Business logic layer for doubles partners
+ *
+ * The booker invites up to three partners, either members or guests by
+ * email. Members accept or decline from their bookings; guests use the
+ * signed link in their invitation email. When the court fee is split, each
+ * member pays their own share and guests' shares stay with the booker.
+ */
+
+import { PartnerRequest, Reservation, ReservationParticipant } from "../types/reservation";
+import { reservationRepository } from "./repositories";
+import { getMember, getMemberByEmail } from "./members";
+import { getReservationPayments } from "./payments/payments";
+import { sendPartnerInviteEmail } from "./auth/email-service";
+import { signValue, verifySignature } from "./auth/signed-codes";
+import { NotFoundError, ValidationError } from "./errors/reservation-errors";
+import { ForbiddenError } from "./errors/auth-errors";
+import { assertCanAddPartners, splitCourtFee } from "./utils/partners";
+import { isActiveReservation } from "./utils/reservation-status";
+
+async function getReservation(reservationId: string): Promise<Reservation> {
+  const reservation = await reservationRepository.findById(reservationId);
+  if (!reservation) {
+    throw new NotFoundError(`Reservation ${reservationId}`);
+  }
+  return reservation;
+}
+
+function findParticipant(reservation: Reservation, participantId: string): ReservationParticipant {
+  const participant = (reservation.participants || []).find((p) => p.id === participantId);
+  if (!participant) {
+    throw new NotFoundError("Partner invitation");
+  }
+  return participant;
+}
+
+function inviteSignatureValue(reservationId: string, participantId: string): string {
+  return `${reservationId}:${participantId}`;
+}
+
+/**
+ * Turn partner requests into invitations, linking emails that belong to members
+ * @throws MemberNotFoundError if a partner's memberId doesn't exist
+ * @throws ValidationError if the partners can't join (see assertCanAddPartners)
+ */
+export async function preparePartners(
+  requests: PartnerRequest[],
+  booker: { memberId?: string; email?: string },
+  existing: ReservationParticipant[] = []
+): Promise<ReservationParticipant[]> {
+  const bookerEmail = booker.memberId ? (await getMember(booker.memberId)).email : booker.email;
+  const invitedAt = new Date().toISOString();
+
+  const participants: ReservationParticipant[] = [];
+  for (const request of requests) {
+    const member = request.memberId
+      ? await getMember(request.memberId)
+      : await getMemberByEmail(request.email!);
+
+    participants.push({
+      id: `participant-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`,
+      memberId: member?.id,
+      name: member ? `${member.firstName} ${member.lastName}` : request.name,
+      email: member?.email || request.email!,
+      status: "invited",
+      invitedAt,
+    });
+  }
+
+  assertCanAddPartners(existing, participants, { memberId: booker.memberId, email: bookerEmail });
+  return participants;
+}
+
+/**
+ * Email invitations to newly added partners
+ */
+export async function sendPartnerInvites(
+  reservation: Reservation,
+  participants: ReservationParticipant[]
+): Promise<void> {
+  let inviterName = reservation.guestName || reservation.customerName || "A player";
+  if (reservation.memberId) {
+    try {
+      const member = await getMember(reservation.memberId);
+      inviterName = `${member.firstName} ${member.lastName}`;
+    } catch {
+      // Keep the generic name if the booker can't be looked up
+    }
+  }
+
+  const booking = {
+    courtName: reservation.courtName,
+    date: reservation.date,
+    start: reservation.timeSlot.start,
+    end: reservation.timeSlot.end,
+  };
+
+  for (const participant of participants) {
+    // Members respond from their bookings; guests need a link that works signed out
+    const respondPath = participant.memberId
+      ? undefined
+      : `/partner-invite?reservation=${encodeURIComponent(reservation.id)}` +
+        `&participant=${encodeURIComponent(participant.id)}` +
+        `&token=${signValue("partner-invite", inviteSignatureValue(reservation.id, participant.id))}`;
+
+    await sendPartnerInviteEmail(
+      participant.email,
+      participant.name?.split(" ")[0] || "there",
+      inviterName,
+      booking,
+      respondPath
+    );
+  }
+}
+
+/**
+ * Invite more partners to a confirmed reservation
+ * @throws NotFoundError if the reservation doesn't exist
+ * @throws ValidationError if it isn't confirmed or the partners can't join
+ */
+export async function addPartners(
+  reservationId: string,
+  requests: PartnerRequest[]
+): Promise<Reservation> {
+  const reservation = await getReservation(reservationId);
+  if (reservation.status !== "confirmed") {
+    throw new ValidationError("Partners can only be invited to confirmed reservations");
+  }
+
+  const existing = reservation.participants || [];
+  const added = await preparePartners(
+    requests,
+    { memberId: reservation.memberId, email: reservation.guestEmail || reservation.customerEmail },
+    existing
+  );
+
+  const updated = await reservationRepository.update(reservation.id, {
+    participants: [...existing, ...added],
+  });
+  await sendPartnerInvites(updated, added);
+  return updated;
+}
+
+/**
+ * Take a partner off a reservation
+ * @throws NotFoundError if the reservation or partner doesn't exist
+ */
+export async function removePartner(
+  reservationId: string,
+  participantId: string
+): Promise<Reservation> {
+  const reservation = await getReservation(reservationId);
+  findParticipant(reservation, participantId);
+
+  return reservationRepository.update(reservation.id, {
+    participants: (reservation.participants || []).filter((p) => p.id !== participantId),
+  });
+}
+
+/**
+ * Accept or decline a partner invitation
+ * Members answer for their own invitation; guests prove it's theirs with
+ * the token from the invitation email.
+ * @throws NotFoundError if the reservation or invitation doesn't exist
+ * @throws ForbiddenError if the responder isn't the invited partner
+ * @throws ValidationError if the reservation was cancelled or was a no-show
+ */
+export async function respondToPartnerInvite(
+  reservationId: string,
+  participantId: string,
+  accept: boolean,
+  responder: { memberId?: string; token?: string }
+): Promise<Reservation> {
+  const reservation = await getReservation(reservationId);
+  const participant = findParticipant(reservation, participantId);
+
+  const isInvitedMember = !!responder.memberId && participant.memberId === responder.memberId;
+  const hasValidToken =
+    !!responder.token &&
+    verifySignature(
+      "partner-invite",
+      inviteSignatureValue(reservation.id, participant.id),
+      responder.token
+    );
+  if (!isInvitedMember && !hasValidToken) {
+    throw new ForbiddenError("You can only respond to your own invitations");
+  }
+
+  if (!isActiveReservation(reservation)) {
+    throw new ValidationError("This reservation is no longer active");
+  }
+
+  const status = accept ? "accepted" : "declined";
+  return reservationRepository.update(reservation.id, {
+    participants: (reservation.participants || []).map((p) =>
+      p.id === participant.id ? { ...p, status, respondedAt: new Date().toISOString() } : p
+    ),
+  });
+}
+
+/**
+ * Work out what a member still owes on a reservation with a split fee
+ * The booker (or a parent paying for them) pays the booker's share; partners
+ * pay their own once they've accepted.
+ * @param total The quoted court fee in cents
+ * @throws ValidationError if the partner hasn't accepted or the share is already paid
+ */
+export async function getShareToPay(
+  reservation: Reservation,
+  total: number,
+  payerMemberId: string
+): Promise<number> {
+  const participants = reservation.participants || [];
+  const shares = splitCourtFee(total, participants);
+  const paid = (await getReservationPayments(reservation.id)).filter((p) => p.status === "paid");
+
+  const partner = participants.find(
+    (p) => p.memberId === payerMemberId && p.status !== "declined"
+  );
+  if (partner) {
+    if (partner.status !== "accepted") {
+      throw new ValidationError("Accept the invitation before paying your share");
+    }
+    if (paid.some((p) => p.memberId === partner.memberId)) {
+      throw new ValidationError("Your share is already paid");
+    }
+    return shares.partners[partner.id];
+  }
+
+  // Anything not paid by a partner counts towards the booker's share
+  const partnerIds = new Set(participants.map((p) => p.memberId).filter(Boolean));
+  if (paid.some((p) => !p.memberId || !partnerIds.has(p.memberId))) {
+    throw new ValidationError("The booker's share is already paid");
+  }
+  return shares.booker;
+}
@@ -92,6 +92,8 @@ function getPaymentTypeDescription(type: Payment["type"]): string {
       return "Court Booking";
     case "membership":
       return "Membership Fee";
+    case "program":
+      return "Program Enrollment";
     case "other":
       return "Payment";
     default:
@@ -3,7 +3,7 @@
  */
 
 import { Payment, PaymentRequest, ConfirmPaymentRequest } from "../../types/payment";
-import { paymentRepository } from "../repositories/file-payment-repository";
+import { paymentRepository } from "../repositories";
 import {
   createPaymentIntent,
   confirmPaymentIntent,
@@ -45,7 +45,9 @@ export async function processPaymentRequest(
   // Create payment record with pending status
   const payment = await paymentRepository.create({
     memberId: request.memberId,
+    onBehalfOfMemberId: request.onBehalfOfMemberId,
     reservationId: request.reservationId,
+    enrollmentId: request.enrollmentId,
     type: request.type,
     amount: request.amount,
     currency: request.currency || "usd",
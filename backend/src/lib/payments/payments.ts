@@ -10,7 +10,7 @@ import {
   RefundRequest,
   PaymentFilter,
 } from "../../types/payment";
-import { paymentRepository } from "../repositories/file-payment-repository";
+import { paymentRepository } from "../repositories";
 import {
   processPaymentRequest,
   confirmPayment as confirmPaymentProcessor,
@@ -24,6 +24,9 @@ import {
   RefundError,
 } from "../errors/payment-errors";
 import { getMember } from "../members";
+import { sendRefundEmail } from "../auth/email-service";
+import { recordAudit } from "../audit";
+import { AuditContext } from "../../types/audit";
 
 /**
  * Create a payment intent for a booking or membership
@@ -34,13 +37,17 @@ export async function createPaymentIntent(
   // Determine payment type based on request
   const type: PaymentRequest["type"] = request.reservationId
     ? "court_booking"
+    : request.enrollmentId
+    ? "program"
     : request.metadata?.type === "membership"
     ? "membership"
     : "other";
 
   const paymentRequest: PaymentRequest = {
     memberId: request.memberId,
+    onBehalfOfMemberId: request.onBehalfOfMemberId,
     reservationId: request.reservationId,
+    enrollmentId: request.enrollmentId,
     type,
     amount: request.amount,
     currency: request.currency,
@@ -103,8 +110,12 @@ export async function getReservationPayments(
 
 /**
  * Process a refund
+ * @param audit Who asked for the refund; without one it is recorded as a system refund
  */
-export async function processRefund(request: RefundRequest): Promise<Payment> {
+export async function processRefund(
+  request: RefundRequest,
+  audit: AuditContext = { source: "system" }
+): Promise<Payment> {
   const payment = await getPayment(request.paymentId);
 
   if (payment.status !== "paid") {
@@ -144,7 +155,23 @@ export async function processRefund(request: RefundRequest): Promise<Payment> {
     updates.status = "refunded";
   }
 
-  return paymentRepository.update(payment.id, updates);
+  const refunded = await paymentRepository.update(payment.id, updates);
+  await recordAudit(audit, "payment.refund", "payment", payment.id, payment, refunded);
+
+  if (payment.memberId) {
+    try {
+      const member = await getMember(payment.memberId);
+      await sendRefundEmail(member.email, member.firstName, {
+        amount: refund.amount,
+        currency: payment.currency,
+        description: payment.description,
+      });
+    } catch (error) {
+      console.error(`Failed to send refund email for payment ${payment.id}:`, error);
+    }
+  }
+
+  return refunded;
 }
 
 /**
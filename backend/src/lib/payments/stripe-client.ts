@@ -1,14 +1,21 @@
 /**
  * Stripe client wrapper
+ *
+ * STRIPE_CLIENT=stub swaps the Stripe API for an in-memory stub (see
+ * stub-stripe-client.ts) so tests can run payment and subscription flows
+ * without keys or network access.
  */
 
 import Stripe from "stripe";
 import { PaymentIntentRequest, PaymentIntentResponse } from "../../types/payment";
+import { BillingInterval, MembershipPlanId } from "../../types/membership";
+import { StubStripeClient } from "./stub-stripe-client";
 import {
   StripeError,
   PaymentIntentError,
   PaymentConfirmationError,
   RefundError,
+  WebhookSignatureError,
 } from "../errors/payment-errors";
 
 const STRIPE_SECRET_KEY = process.env.STRIPE_SECRET_KEY || "";
@@ -17,22 +24,64 @@ if (!STRIPE_SECRET_KEY) {
   console.warn("WARNING: STRIPE_SECRET_KEY not set. Payment functionality will not work.");
 }
 
+/**
+ * The parts of the Stripe API this app uses
+ */
+export interface StripeApi {
+  paymentIntents: {
+    create(params: Stripe.PaymentIntentCreateParams): Promise<Stripe.PaymentIntent>;
+    retrieve(id: string): Promise<Stripe.PaymentIntent>;
+    update(id: string, params: Stripe.PaymentIntentUpdateParams): Promise<Stripe.PaymentIntent>;
+    confirm(id: string): Promise<Stripe.PaymentIntent>;
+  };
+  refunds: {
+    create(params: Stripe.RefundCreateParams): Promise<Stripe.Refund>;
+  };
+  customers: {
+    create(params: Stripe.CustomerCreateParams): Promise<Stripe.Customer>;
+  };
+  subscriptions: {
+    create(params: Stripe.SubscriptionCreateParams): Promise<Stripe.Subscription>;
+    update(id: string, params: Stripe.SubscriptionUpdateParams): Promise<Stripe.Subscription>;
+  };
+}
+
 // Initialize Stripe client
-export const stripe = STRIPE_SECRET_KEY
+const liveStripe = STRIPE_SECRET_KEY
   ? new Stripe(STRIPE_SECRET_KEY, {
       apiVersion: "2023-10-16",
     })
   : null;
 
+let stubStripe: StubStripeClient | null = null;
+
+/**
+ * Get the Stripe client selected by the environment
+ * @returns Client, or null if Stripe is not configured
+ */
+export function getStripe(): StripeApi | null {
+  if ((process.env.STRIPE_CLIENT || "").toLowerCase() === "stub") {
+    stubStripe = stubStripe || new StubStripeClient();
+    return stubStripe;
+  }
+  return liveStripe;
+}
+
+function requireStripe(): StripeApi {
+  const stripe = getStripe();
+  if (!stripe) {
+    throw new StripeError("Stripe is not configured. Please set STRIPE_SECRET_KEY.");
+  }
+  return stripe;
+}
+
 /**
  * Create a Stripe PaymentIntent
  */
 export async function createPaymentIntent(
   request: PaymentIntentRequest
 ): Promise<PaymentIntentResponse> {
-  if (!stripe) {
-    throw new StripeError("Stripe is not configured. Please set STRIPE_SECRET_KEY.");
-  }
+  const stripe = requireStripe();
 
   try {
     const amount = request.amount;
@@ -79,9 +128,7 @@ export async function confirmPaymentIntent(
   paymentIntentId: string,
   paymentMethodId?: string
 ): Promise<Stripe.PaymentIntent> {
-  if (!stripe) {
-    throw new StripeError("Stripe is not configured. Please set STRIPE_SECRET_KEY.");
-  }
+  const stripe = requireStripe();
 
   try {
     const paymentIntent = await stripe.paymentIntents.retrieve(paymentIntentId);
@@ -122,9 +169,7 @@ export async function confirmPaymentIntent(
 export async function retrievePaymentIntent(
   paymentIntentId: string
 ): Promise<Stripe.PaymentIntent> {
-  if (!stripe) {
-    throw new StripeError("Stripe is not configured. Please set STRIPE_SECRET_KEY.");
-  }
+  const stripe = requireStripe();
 
   try {
     return await stripe.paymentIntents.retrieve(paymentIntentId);
@@ -144,9 +189,7 @@ export async function createRefund(
   amount?: number,
   reason?: string
 ): Promise<Stripe.Refund> {
-  if (!stripe) {
-    throw new StripeError("Stripe is not configured. Please set STRIPE_SECRET_KEY.");
-  }
+  const stripe = requireStripe();
 
   try {
     const refundParams: Stripe.RefundCreateParams = {
@@ -178,3 +221,124 @@ export function getChargeId(paymentIntent: Stripe.PaymentIntent): string | null
   }
   return null;
 }
+
+/**
+ * Verify a webhook payload against its Stripe-Signature header
+ * Verification is local (HMAC with STRIPE_WEBHOOK_SECRET) and needs no API key.
+ * @param payload Raw request body, exactly as received
+ * @param signature Value of the Stripe-Signature header
+ */
+export function constructWebhookEvent(
+  payload: string | Buffer,
+  signature: string | undefined
+): Stripe.Event {
+  const secret = process.env.STRIPE_WEBHOOK_SECRET || "";
+  if (!secret) {
+    throw new StripeError("Stripe webhooks are not configured. Please set STRIPE_WEBHOOK_SECRET.");
+  }
+
+  if (!signature) {
+    throw new WebhookSignatureError("Missing Stripe-Signature header");
+  }
+
+  try {
+    return Stripe.webhooks.constructEvent(payload, signature, secret);
+  } catch (error: any) {
+    throw new WebhookSignatureError(`Invalid webhook signature: ${error.message}`);
+  }
+}
+
+/**
+ * Stripe price ID for a membership plan and billing interval
+ * Configured as STRIPE_PRICE_<PLAN>_<INTERVAL>, e.g. STRIPE_PRICE_ADULT_MONTH.
+ */
+export function getStripePriceId(planId: MembershipPlanId, interval: BillingInterval): string {
+  const key = `STRIPE_PRICE_${planId.toUpperCase()}_${interval.toUpperCase()}`;
+  const priceId = process.env[key];
+  if (priceId) {
+    return priceId;
+  }
+  if (getStripe() instanceof StubStripeClient) {
+    return `price_stub_${planId}_${interval}`;
+  }
+  throw new StripeError(`Stripe price not configured. Please set ${key}.`);
+}
+
+/**
+ * Create a Stripe customer for a member
+ * @returns Stripe customer ID
+ */
+export async function createCustomer(params: {
+  memberId: string;
+  email: string;
+  name: string;
+}): Promise<string> {
+  const stripe = requireStripe();
+
+  try {
+    const customer = await stripe.customers.create({
+      email: params.email,
+      name: params.name,
+      metadata: { memberId: params.memberId },
+    });
+    return customer.id;
+  } catch (error: any) {
+    throw new StripeError(`Failed to create customer: ${error.message}`, error);
+  }
+}
+
+/**
+ * Create a Stripe subscription
+ * The first invoice is left open; its PaymentIntent client secret is returned
+ * so the browser can collect card details. Trials have nothing to pay yet.
+ */
+export async function createSubscription(params: {
+  customerId: string;
+  priceId: string;
+  trialDays?: number;
+  metadata: Record<string, string>;
+}): Promise<{ subscription: Stripe.Subscription; clientSecret?: string }> {
+  const stripe = requireStripe();
+
+  try {
+    const subscription = await stripe.subscriptions.create({
+      customer: params.customerId,
+      items: [{ price: params.priceId }],
+      trial_period_days: params.trialDays,
+      payment_behavior: "default_incomplete",
+      payment_settings: { save_default_payment_method: "on_subscription" },
+      expand: ["latest_invoice.payment_intent"],
+      metadata: params.metadata,
+    });
+
+    const invoice = subscription.latest_invoice;
+    const paymentIntent =
+      invoice && typeof invoice !== "string" ? invoice.payment_intent : null;
+    const clientSecret =
+      paymentIntent && typeof paymentIntent !== "string"
+        ? paymentIntent.client_secret || undefined
+        : undefined;
+
+    return { subscription, clientSecret };
+  } catch (error: any) {
+    throw new StripeError(`Failed to create subscription: ${error.message}`, error);
+  }
+}
+
+/**
+ * Schedule (or undo) cancellation of a subscription at the end of its period
+ */
+export async function setCancelAtPeriodEnd(
+  subscriptionId: string,
+  cancelAtPeriodEnd: boolean
+): Promise<Stripe.Subscription> {
+  const stripe = requireStripe();
+
+  try {
+    return await stripe.subscriptions.update(subscriptionId, {
+      cancel_at_period_end: cancelAtPeriodEnd,
+    });
+  } catch (error: any) {
+    throw new StripeError(`Failed to update subscription: ${error.message}`, error);
+  }
+}
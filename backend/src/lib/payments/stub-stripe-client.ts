@@ -0,0 +1,186 @@
+/**
+ * In-memory stand-in for the Stripe API
+ *
+ * Selected with STRIPE_CLIENT=stub. Objects carry only the fields this app
+ * reads; payment intents succeed on confirm and subscriptions start trialing
+ * (with trial_period_days) or incomplete until a webhook says otherwise.
+ */
+
+import Stripe from "stripe";
+import { StripeApi } from "./stripe-client";
+
+const DAY_SECONDS = 24 * 60 * 60;
+
+function now(): number {
+  return Math.floor(Date.now() / 1000);
+}
+
+function addInterval(start: number, interval: string | undefined): number {
+  const date = new Date(start * 1000);
+  if (interval === "year") {
+    date.setUTCFullYear(date.getUTCFullYear() + 1);
+  } else {
+    date.setUTCMonth(date.getUTCMonth() + 1);
+  }
+  return Math.floor(date.getTime() / 1000);
+}
+
+/**
+ * Stub Stripe client
+ */
+export class StubStripeClient implements StripeApi {
+  private sequence = 0;
+  private intents = new Map<string, Stripe.PaymentIntent>();
+  private subscriptionsById = new Map<string, Stripe.Subscription>();
+
+  private nextId(prefix: string): string {
+    this.sequence += 1;
+    return `${prefix}_stub_${Date.now()}${this.sequence}`;
+  }
+
+  private notFound(kind: string, id: string): Error {
+    return new Error(`No such ${kind}: '${id}'`);
+  }
+
+  paymentIntents = {
+    create: async (params: Stripe.PaymentIntentCreateParams): Promise<Stripe.PaymentIntent> => {
+      const id = this.nextId("pi");
+      const intent = {
+        id,
+        object: "payment_intent",
+        amount: params.amount,
+        currency: params.currency,
+        description: params.description ?? null,
+        metadata: (params.metadata || {}) as Stripe.Metadata,
+        status: "requires_payment_method",
+        client_secret: `${id}_secret_stub`,
+        latest_charge: null,
+        last_payment_error: null,
+        created: now(),
+      } as unknown as Stripe.PaymentIntent;
+
+      this.intents.set(id, intent);
+      return intent;
+    },
+
+    retrieve: async (id: string): Promise<Stripe.PaymentIntent> => {
+      const intent = this.intents.get(id);
+      if (!intent) {
+        throw this.notFound("payment_intent", id);
+      }
+      return intent;
+    },
+
+    update: async (
+      id: string,
+      params: Stripe.PaymentIntentUpdateParams
+    ): Promise<Stripe.PaymentIntent> => {
+      const intent = await this.paymentIntents.retrieve(id);
+      const updated = {
+        ...intent,
+        payment_method: (params.payment_method as string | undefined) ?? intent.payment_method,
+      } as Stripe.PaymentIntent;
+      this.intents.set(id, updated);
+      return updated;
+    },
+
+    confirm: async (id: string): Promise<Stripe.PaymentIntent> => {
+      const intent = await this.paymentIntents.retrieve(id);
+      const confirmed = {
+        ...intent,
+        status: "succeeded",
+        latest_charge: intent.latest_charge || this.nextId("ch"),
+      } as Stripe.PaymentIntent;
+      this.intents.set(id, confirmed);
+      return confirmed;
+    },
+  };
+
+  refunds = {
+    create: async (params: Stripe.RefundCreateParams): Promise<Stripe.Refund> => {
+      return {
+        id: this.nextId("re"),
+        object: "refund",
+        amount: params.amount ?? 0,
+        charge: params.charge ?? null,
+        status: "succeeded",
+        created: now(),
+      } as unknown as Stripe.Refund;
+    },
+  };
+
+  customers = {
+    create: async (params: Stripe.CustomerCreateParams): Promise<Stripe.Customer> => {
+      return {
+        id: this.nextId("cus"),
+        object: "customer",
+        email: params.email ?? null,
+        name: params.name ?? null,
+        metadata: (params.metadata || {}) as Stripe.Metadata,
+        created: now(),
+      } as unknown as Stripe.Customer;
+    },
+  };
+
+  subscriptions = {
+    create: async (params: Stripe.SubscriptionCreateParams): Promise<Stripe.Subscription> => {
+      const id = this.nextId("sub");
+      const metadata = (params.metadata || {}) as Stripe.Metadata;
+      const start = now();
+      const trialEnd = params.trial_period_days
+        ? start + params.trial_period_days * DAY_SECONDS
+        : null;
+
+      // Trials owe nothing up front; otherwise the first invoice awaits payment
+      let latestInvoice: Stripe.Invoice | null = null;
+      if (!trialEnd) {
+        const intent = await this.paymentIntents.create({
+          amount: 0,
+          currency: "usd",
+          metadata: { subscriptionId: id },
+        });
+        latestInvoice = {
+          id: this.nextId("in"),
+          object: "invoice",
+          payment_intent: intent,
+        } as unknown as Stripe.Invoice;
+      }
+
+      const subscription = {
+        id,
+        object: "subscription",
+        customer: params.customer,
+        status: trialEnd ? "trialing" : "incomplete",
+        current_period_start: start,
+        current_period_end: trialEnd ?? addInterval(start, metadata.interval),
+        cancel_at_period_end: false,
+        trial_end: trialEnd,
+        canceled_at: null,
+        ended_at: null,
+        latest_invoice: latestInvoice,
+        metadata,
+        created: start,
+      } as unknown as Stripe.Subscription;
+
+      this.subscriptionsById.set(id, subscription);
+      return subscription;
+    },
+
+    update: async (
+      id: string,
+      params: Stripe.SubscriptionUpdateParams
+    ): Promise<Stripe.Subscription> => {
+      const subscription = this.subscriptionsById.get(id);
+      if (!subscription) {
+        throw this.notFound("subscription", id);
+      }
+
+      const updated = {
+        ...subscription,
+        cancel_at_period_end: params.cancel_at_period_end ?? subscription.cancel_at_period_end,
+      } as Stripe.Subscription;
+      this.subscriptionsById.set(id, updated);
+      return updated;
+    },
+  };
+}
@@ -0,0 +1,314 @@
+/**
+ * Stripe webhook event handling
+ *
+ * Webhooks move payments forward even when the client never calls
+ * /api/payments/confirm (e.g. the browser closed after paying), copy their
+ * status onto reservations and program enrollments, and keep membership
+ * subscriptions' status and renewal dates in step with Stripe.
+ * Each event ID is recorded once processed, so Stripe retries and replays
+ * are no-ops.
+ */
+
+import Stripe from "stripe";
+import { Payment } from "../../types/payment";
+import { Subscription } from "../../types/membership";
+import { Reservation } from "../../types/reservation";
+import { paymentRepository, reservationRepository } from "../repositories";
+import { subscriptionRepository } from "../repositories/file-subscription-repository";
+import { webhookEventRepository } from "../repositories/file-webhook-event-repository";
+import { syncStripeSubscription } from "../subscriptions";
+import { syncEnrollmentPayment } from "../programs";
+import { getPlan } from "../utils/membership-plans";
+import { getChargeId } from "./stripe-client";
+
+export interface WebhookResult {
+  eventId: string;
+  type: string;
+  duplicate: boolean;  // Event was already processed; nothing changed
+  handled: boolean;    // Event type is one we act on
+  paymentId?: string;  // Payment the event applied to (if found)
+  subscriptionId?: string; // Membership subscription the event applied to (if found)
+}
+
+type ReservationPaymentStatus = NonNullable<Reservation["paymentStatus"]>;
+
+function getId(value: string | { id: string } | null | undefined): string | null {
+  if (!value) {
+    return null;
+  }
+  return typeof value === "string" ? value : value.id;
+}
+
+/**
+ * Find the payment a charge or dispute belongs to
+ */
+async function findPayment(
+  paymentIntentId: string | null,
+  chargeId: string | null
+): Promise<Payment | null> {
+  if (paymentIntentId) {
+    const payment = await paymentRepository.findByPaymentIntentId(paymentIntentId);
+    if (payment) {
+      return payment;
+    }
+  }
+
+  if (chargeId) {
+    const payments = await paymentRepository.findAll();
+    return payments.find((p) => p.stripeChargeId === chargeId) || null;
+  }
+
+  return null;
+}
+
+/**
+ * Copy a payment's status onto every reservation linked to it
+ * Reservations with a split fee are paid share by share, so one share's
+ * status isn't the reservation's.
+ */
+async function syncReservationPaymentStatus(payment: Payment): Promise<void> {
+  if (payment.status === "cancelled") {
+    return;
+  }
+
+  const status = payment.status as ReservationPaymentStatus;
+  const reservations = await reservationRepository.findAll();
+  const linked = reservations.filter(
+    (r) =>
+      !r.splitPayment &&
+      (r.paymentId === payment.id || (payment.reservationId && r.id === payment.reservationId))
+  );
+
+  for (const reservation of linked) {
+    if (reservation.paymentStatus !== status) {
+      await reservationRepository.update(reservation.id, { paymentStatus: status });
+    }
+  }
+}
+
+async function applyUpdates(payment: Payment, updates: Partial<Payment>): Promise<Payment> {
+  if (Object.keys(updates).length === 0) {
+    return payment;
+  }
+
+  const updated = await paymentRepository.update(payment.id, updates);
+  if (updated.status !== payment.status) {
+    await syncReservationPaymentStatus(updated);
+    await syncEnrollmentPayment(updated);
+  }
+  return updated;
+}
+
+async function handlePaymentIntentSucceeded(
+  intent: Stripe.PaymentIntent
+): Promise<Payment | null> {
+  const payment = await paymentRepository.findByPaymentIntentId(intent.id);
+  if (!payment) {
+    return null;
+  }
+
+  const updates: Partial<Payment> = {};
+  const chargeId = getChargeId(intent);
+  if (chargeId && !payment.stripeChargeId) {
+    updates.stripeChargeId = chargeId;
+  }
+
+  // Refunds and disputes arrive after success; never roll them back
+  if (payment.status === "pending" || payment.status === "failed" || payment.status === "cancelled") {
+    updates.status = "paid";
+    updates.paidAt = payment.paidAt || new Date(intent.created * 1000).toISOString();
+    updates.failureReason = undefined;
+  }
+
+  return applyUpdates(payment, updates);
+}
+
+async function handlePaymentIntentFailed(
+  intent: Stripe.PaymentIntent
+): Promise<Payment | null> {
+  const payment = await paymentRepository.findByPaymentIntentId(intent.id);
+  if (!payment) {
+    return null;
+  }
+
+  if (payment.status !== "pending") {
+    return payment;
+  }
+
+  return applyUpdates(payment, {
+    status: "failed",
+    failureReason: intent.last_payment_error?.message || "Payment failed",
+  });
+}
+
+async function handleChargeRefunded(charge: Stripe.Charge): Promise<Payment | null> {
+  const payment = await findPayment(getId(charge.payment_intent), charge.id);
+  if (!payment) {
+    return null;
+  }
+
+  const updates: Partial<Payment> = {
+    refundAmount: charge.amount_refunded,
+    refundedAt: payment.refundedAt || new Date().toISOString(),
+  };
+
+  if (!payment.stripeChargeId) {
+    updates.stripeChargeId = charge.id;
+  }
+
+  // Partial refunds keep the payment as paid, matching processRefund
+  if (charge.refunded || charge.amount_refunded >= payment.amount) {
+    updates.status = "refunded";
+  }
+
+  return applyUpdates(payment, updates);
+}
+
+async function handleDispute(
+  type: string,
+  dispute: Stripe.Dispute
+): Promise<Payment | null> {
+  const payment = await findPayment(getId(dispute.payment_intent), getId(dispute.charge));
+  if (!payment) {
+    return null;
+  }
+
+  const updates: Partial<Payment> = { disputeStatus: dispute.status };
+
+  if (type === "charge.dispute.created") {
+    updates.status = "disputed";
+    updates.disputedAt = new Date(dispute.created * 1000).toISOString();
+  } else if (type === "charge.dispute.closed") {
+    // A lost dispute means the funds were withdrawn; keep it flagged
+    updates.status =
+      dispute.status === "won" || dispute.status === "warning_closed" ? "paid" : "disputed";
+  }
+
+  return applyUpdates(payment, updates);
+}
+
+async function findInvoiceSubscription(invoice: Stripe.Invoice): Promise<Subscription | null> {
+  const stripeSubscriptionId = getId(invoice.subscription);
+  return stripeSubscriptionId
+    ? subscriptionRepository.findByStripeSubscriptionId(stripeSubscriptionId)
+    : null;
+}
+
+/**
+ * Record a paid membership invoice as a payment (trial invoices are $0 and skipped)
+ */
+async function handleInvoicePaid(
+  invoice: Stripe.Invoice
+): Promise<{ payment: Payment | null; subscription: Subscription | null }> {
+  let subscription = await findInvoiceSubscription(invoice);
+  if (!subscription) {
+    return { payment: null, subscription: null };
+  }
+
+  if (subscription.status === "past_due") {
+    subscription =
+      (await subscriptionRepository.update(subscription.id, { status: "active" })) || subscription;
+  }
+
+  if (invoice.amount_paid <= 0) {
+    return { payment: null, subscription };
+  }
+
+  const paymentIntentId = getId(invoice.payment_intent);
+  const existing = paymentIntentId
+    ? await paymentRepository.findByPaymentIntentId(paymentIntentId)
+    : null;
+  if (existing) {
+    return { payment: existing, subscription };
+  }
+
+  const plan = getPlan(subscription.planId);
+  const payment = await paymentRepository.create({
+    memberId: subscription.memberId,
+    type: "membership",
+    amount: invoice.amount_paid,
+    currency: invoice.currency,
+    status: "paid",
+    stripePaymentIntentId: paymentIntentId || undefined,
+    stripeChargeId: getId(invoice.charge) || undefined,
+    description: `${plan?.name ?? subscription.planId} membership (${subscription.interval}ly)`,
+    metadata: { subscriptionId: subscription.id, invoiceId: invoice.id },
+    paidAt: new Date((invoice.status_transitions?.paid_at || invoice.created) * 1000).toISOString(),
+  });
+
+  return { payment, subscription };
+}
+
+async function handleInvoicePaymentFailed(invoice: Stripe.Invoice): Promise<Subscription | null> {
+  const subscription = await findInvoiceSubscription(invoice);
+  if (!subscription || subscription.status === "canceled") {
+    return subscription;
+  }
+  return subscriptionRepository.update(subscription.id, { status: "past_due" });
+}
+
+/**
+ * Process a verified Stripe event exactly once
+ * The event is recorded only after it is applied, so a failure lets Stripe retry.
+ */
+export async function handleWebhookEvent(event: Stripe.Event): Promise<WebhookResult> {
+  const result: WebhookResult = {
+    eventId: event.id,
+    type: event.type,
+    duplicate: false,
+    handled: true,
+  };
+
+  if (await webhookEventRepository.findById(event.id)) {
+    return { ...result, duplicate: true };
+  }
+
+  let payment: Payment | null = null;
+  let subscription: Subscription | null = null;
+
+  switch (event.type) {
+    case "payment_intent.succeeded":
+      payment = await handlePaymentIntentSucceeded(event.data.object);
+      break;
+    case "payment_intent.payment_failed":
+      payment = await handlePaymentIntentFailed(event.data.object);
+      break;
+    case "charge.refunded":
+      payment = await handleChargeRefunded(event.data.object);
+      break;
+    case "charge.dispute.created":
+    case "charge.dispute.updated":
+    case "charge.dispute.closed":
+      payment = await handleDispute(event.type, event.data.object);
+      break;
+    case "customer.subscription.created":
+    case "customer.subscription.updated":
+    case "customer.subscription.deleted":
+      subscription = await syncStripeSubscription(event.data.object);
+      break;
+    case "invoice.paid":
+      ({ payment, subscription } = await handleInvoicePaid(event.data.object));
+      break;
+    case "invoice.payment_failed":
+      subscription = await handleInvoicePaymentFailed(event.data.object);
+      break;
+    default:
+      result.handled = false;
+  }
+
+  if (payment) {
+    result.paymentId = payment.id;
+  }
+  if (subscription) {
+    result.subscriptionId = subscription.id;
+  }
+
+  const recorded = await webhookEventRepository.create({
+    id: event.id,
+    type: event.type,
+    paymentId: result.paymentId,
+    subscriptionId: result.subscriptionId,
+  });
+
+  return recorded ? result : { ...result, duplicate: true };
+}
@@ -0,0 +1,145 @@
+/**
+ * Business logic layer for the cancellation policy and member penalties
+ *
+ * Late cancellations and no-shows earn a penalty. Penalties count towards
+ * a booking suspension only while they are inside the policy's rolling
+ * window, and admins can waive them.
+ */
+
+import { Reservation } from "../types/reservation";
+import { CancellationPolicy, Penalty, PenaltyKind, PenaltyStatus } from "../types/penalty";
+import { cancellationPolicyRepository } from "./repositories/file-cancellation-policy-repository";
+import { penaltyRepository } from "./repositories/file-penalty-repository";
+import { getMember, updateMember } from "./members";
+import { NotFoundError, ValidationError } from "./errors/reservation-errors";
+import {
+  activePenalties,
+  getRestrictedUntil,
+  mergeCancellationPolicy,
+} from "./utils/cancellation-policy";
+
+/**
+ * Get the cancellation policy in effect
+ */
+export async function getCancellationPolicy(): Promise<CancellationPolicy> {
+  return cancellationPolicyRepository.get();
+}
+
+/**
+ * Change some or all of the cancellation policy
+ * @throws ValidationError if a value is malformed
+ * @throws LockError if the policy file is locked
+ */
+export async function updateCancellationPolicy(
+  updates: Partial<CancellationPolicy>,
+  updatedBy?: string
+): Promise<CancellationPolicy> {
+  const current = await cancellationPolicyRepository.get();
+  const merged = mergeCancellationPolicy(current, updates);
+  return cancellationPolicyRepository.save({
+    ...merged,
+    updatedAt: new Date().toISOString(),
+    updatedBy,
+  });
+}
+
+/**
+ * Adjust the member's penaltyCancellations tally (never below zero)
+ */
+async function adjustPenaltyTally(memberId: string, change: number): Promise<void> {
+  try {
+    const member = await getMember(memberId);
+    await updateMember(memberId, {
+      penaltyCancellations: Math.max(0, (member.penaltyCancellations || 0) + change),
+    });
+  } catch (error) {
+    // The penalty record is what counts; the tally on the member is informational
+    console.error(`Failed to update penalty cancellations for member ${memberId}:`, error);
+  }
+}
+
+/**
+ * Charge a member's reservation with a penalty
+ * A reservation is only ever penalized once.
+ * @returns The penalty, or null for guest reservations
+ */
+export async function recordPenalty(
+  reservation: Reservation,
+  kind: PenaltyKind,
+  hoursBefore?: number
+): Promise<Penalty | null> {
+  if (!reservation.memberId) {
+    return null;
+  }
+
+  const existing = await penaltyRepository.findByReservation(reservation.id);
+  if (existing) {
+    return existing;
+  }
+
+  const penalty = await penaltyRepository.create({
+    memberId: reservation.memberId,
+    reservationId: reservation.id,
+    kind,
+    reservationDate: reservation.date,
+    reservationStart: reservation.timeSlot.start,
+    hoursBefore,
+  });
+  await adjustPenaltyTally(reservation.memberId, 1);
+
+  return penalty;
+}
+
+/**
+ * Get a member's penalties and whether they are suspended from booking
+ * @throws MemberNotFoundError if the member doesn't exist
+ */
+export async function getPenaltyStatus(
+  memberId: string,
+  now: Date = new Date()
+): Promise<PenaltyStatus> {
+  await getMember(memberId);
+  const [policy, penalties] = await Promise.all([
+    cancellationPolicyRepository.get(),
+    penaltyRepository.findByMember(memberId),
+  ]);
+  const restrictedUntil = getRestrictedUntil(penalties, policy, now);
+
+  return {
+    penalties,
+    activeCount: activePenalties(penalties, policy, now).length,
+    threshold: policy.penaltyThreshold,
+    restrictedUntil: restrictedUntil ? restrictedUntil.toISOString() : null,
+  };
+}
+
+/**
+ * Waive a penalty so it no longer counts against the member
+ * @throws NotFoundError if the penalty doesn't exist
+ * @throws ValidationError if it was already waived
+ */
+export async function waivePenalty(
+  penaltyId: string,
+  waivedBy: string,
+  reason?: string
+): Promise<Penalty> {
+  const penalty = await penaltyRepository.findById(penaltyId);
+  if (!penalty) {
+    throw new NotFoundError(`Penalty ${penaltyId}`);
+  }
+  if (penalty.waivedAt) {
+    throw new ValidationError("This penalty has already been waived");
+  }
+
+  const waived = await penaltyRepository.update(penaltyId, {
+    waivedAt: new Date().toISOString(),
+    waivedBy,
+    waiveReason: typeof reason === "string" && reason.trim() ? reason.trim() : undefined,
+  });
+  if (!waived) {
+    throw new NotFoundError(`Penalty ${penaltyId}`);
+  }
+  await adjustPenaltyTally(penalty.memberId, -1);
+
+  return waived;
+}
@@ -3,19 +3,17 @@
  * Analyzes player's journal history and provides personalized training recommendations
  */
 
-import { GoogleGenerativeAI, SchemaType } from "@google/generative-ai";
 import { getJournalEntries } from "./journal";
 import { getMember } from "./members";
 import { JournalAnalytics } from "../types/training-plan";
+import { ToolCall, ToolDeclaration } from "../types/llm";
+import { runToolLoop, toHistory } from "./ai/tool-loop";
 import {
   createTrainingPlan,
   getPlayerTrainingPlans,
   getLatestTrainingPlan,
 } from "./repositories/file-training-plan-repository";
 
-const genAI = new GoogleGenerativeAI(process.env.GOOGLE_API_KEY || "");
-const modelName = process.env.GOOGLE_GENAI_MODEL || "gemini-3-flash-preview";
-
 const PLAYER_TRAINING_CONTEXT = `
 You are an AI tennis training coach for Providence Tennis Academy. Your role is to help players improve their game by:
 
@@ -163,191 +161,176 @@ async function analyzePlayerJournals(playerId: string): Promise<JournalAnalytics
 /**
  * Function declarations for player training tools
  */
-const playerTrainingTools: any[] = [
+const playerTrainingTools: ToolDeclaration[] = [
   {
-    functionDeclarations: [
-      {
-        name: "getPlayerJournalAnalytics",
-        description: "Analyzes a player's journal entries to provide statistics about their training sessions, focus areas, and progress trends. Returns frequency of areas worked on, recent focus, coach feedback, and improvement trends.",
-        parameters: {
-          type: SchemaType.OBJECT,
-          properties: {
-            playerId: {
-              type: SchemaType.STRING,
-              description: "The ID of the player to analyze",
-            },
-          },
-          required: ["playerId"],
+    name: "getPlayerJournalAnalytics",
+    description: "Analyzes a player's journal entries to provide statistics about their training sessions, focus areas, and progress trends. Returns frequency of areas worked on, recent focus, coach feedback, and improvement trends.",
+    parameters: {
+      type: "object",
+      properties: {
+        playerId: {
+          type: "string",
+          description: "The ID of the player to analyze",
         },
       },
-      {
-        name: "getPlayerProfile",
-        description: "Gets basic profile information about a player including name, member number, and join date.",
-        parameters: {
-          type: SchemaType.OBJECT,
-          properties: {
-            playerId: {
-              type: SchemaType.STRING,
-              description: "The ID of the player",
-            },
-          },
-          required: ["playerId"],
+      required: ["playerId"],
+    },
+  },
+  {
+    name: "getPlayerProfile",
+    description: "Gets basic profile information about a player including name, member number, and join date.",
+    parameters: {
+      type: "object",
+      properties: {
+        playerId: {
+          type: "string",
+          description: "The ID of the player",
         },
       },
-      {
-        name: "getPlayerTrainingHistory",
-        description: "Retrieves all previous training plans created for the player to track progress over time and avoid repetition.",
-        parameters: {
-          type: SchemaType.OBJECT,
-          properties: {
-            playerId: {
-              type: SchemaType.STRING,
-              description: "The ID of the player",
-            },
-          },
-          required: ["playerId"],
+      required: ["playerId"],
+    },
+  },
+  {
+    name: "getPlayerTrainingHistory",
+    description: "Retrieves all previous training plans created for the player to track progress over time and avoid repetition.",
+    parameters: {
+      type: "object",
+      properties: {
+        playerId: {
+          type: "string",
+          description: "The ID of the player",
         },
       },
-      {
-        name: "createTrainingPlanTemplate",
-        description: "Creates a personalized training plan template that can be reviewed by the player's coach. Include focus areas, strengths, areas for improvement, recommendations, suggested drills, and weekly goals.",
-        parameters: {
-          type: SchemaType.OBJECT,
-          properties: {
-            playerId: {
-              type: SchemaType.STRING,
-              description: "The ID of the player",
-            },
-            focusAreas: {
-              type: SchemaType.ARRAY,
-              description: "Main areas to focus on (e.g., ['backhand', 'serve', 'footwork'])",
-              items: {
-                type: SchemaType.STRING,
-              },
-            },
-            strengths: {
-              type: SchemaType.ARRAY,
-              description: "Player's current strengths",
-              items: {
-                type: SchemaType.STRING,
-              },
-            },
-            areasForImprovement: {
-              type: SchemaType.ARRAY,
-              description: "Specific areas that need work",
-              items: {
-                type: SchemaType.STRING,
-              },
-            },
-            recommendations: {
-              type: SchemaType.STRING,
-              description: "Detailed recommendations and strategy",
-            },
-            suggestedDrills: {
-              type: SchemaType.ARRAY,
-              description: "Specific drills to practice",
-              items: {
-                type: SchemaType.STRING,
-              },
-            },
-            weeklyGoals: {
-              type: SchemaType.ARRAY,
-              description: "Achievable weekly goals",
-              items: {
-                type: SchemaType.STRING,
-              },
-            },
+      required: ["playerId"],
+    },
+  },
+  {
+    name: "createTrainingPlanTemplate",
+    description: "Creates a personalized training plan template that can be reviewed by the player's coach. Include focus areas, strengths, areas for improvement, recommendations, suggested drills, and weekly goals.",
+    parameters: {
+      type: "object",
+      properties: {
+        playerId: {
+          type: "string",
+          description: "The ID of the player",
+        },
+        focusAreas: {
+          type: "array",
+          description: "Main areas to focus on (e.g., ['backhand', 'serve', 'footwork'])",
+          items: {
+            type: "string",
+          },
+        },
+        strengths: {
+          type: "array",
+          description: "Player's current strengths",
+          items: {
+            type: "string",
+          },
+        },
+        areasForImprovement: {
+          type: "array",
+          description: "Specific areas that need work",
+          items: {
+            type: "string",
+          },
+        },
+        recommendations: {
+          type: "string",
+          description: "Detailed recommendations and strategy",
+        },
+        suggestedDrills: {
+          type: "array",
+          description: "Specific drills to practice",
+          items: {
+            type: "string",
+          },
+        },
+        weeklyGoals: {
+          type: "array",
+          description: "Achievable weekly goals",
+          items: {
+            type: "string",
           },
-          required: ["playerId", "focusAreas", "recommendations", "weeklyGoals"],
         },
       },
-    ],
+      required: ["playerId", "focusAreas", "recommendations", "weeklyGoals"],
+    },
   },
 ];
 
 /**
  * Handle function calls from the AI agent
  */
-async function handleFunctionCall(call: any, playerId: string): Promise<any> {
-  const functionName = call.name;
-  const args = call.args || {};
-  
-  console.log(`[Player Training AI] Tool called: ${functionName}`, args);
-  
-  try {
-    switch (functionName) {
-      case "getPlayerJournalAnalytics": {
-        const analytics = await analyzePlayerJournals(args.playerId);
-        return {
-          success: true,
-          data: analytics,
-        };
-      }
-      
-      case "getPlayerProfile": {
-        const member = await getMember(args.playerId);
-        return {
-          success: true,
-          data: {
-            name: `${member.firstName} ${member.lastName}`,
-            memberNumber: member.memberNumber,
-            joinDate: member.createdAt,
-            role: member.role,
-          },
-        };
-      }
-      
-      case "getPlayerTrainingHistory": {
-        const plans = await getPlayerTrainingPlans(args.playerId);
-        return {
-          success: true,
-          data: {
-            totalPlans: plans.length,
-            plans: plans.map(p => ({
-              id: p.id,
-              created: p.createdAt,
-              focusAreas: p.focusAreas,
-              version: p.version,
-              lastReview: p.lastReviewDate,
-            })),
-          },
-        };
-      }
-      
-      case "createTrainingPlanTemplate": {
-        const plan = await createTrainingPlan({
-          playerId: args.playerId,
-          focusAreas: args.focusAreas || [],
-          strengths: args.strengths || [],
-          areasForImprovement: args.areasForImprovement || [],
-          recommendations: args.recommendations || "",
-          suggestedDrills: args.suggestedDrills || [],
-          weeklyGoals: args.weeklyGoals || [],
-          progressNotes: "",
-          createdBy: "ai-training-agent",
-        });
-        
-        return {
-          success: true,
-          data: {
-            planId: plan.id,
-            message: "Training plan created! Your coach can review and refine it in your next session.",
-          },
-        };
-      }
+async function handleFunctionCall(call: ToolCall): Promise<Record<string, any>> {
+  const args = call.args;
+
+  switch (call.name) {
+    case "getPlayerJournalAnalytics": {
+      const analytics = await analyzePlayerJournals(args.playerId);
+      return {
+        success: true,
+        data: analytics,
+      };
+    }
+    
+    case "getPlayerProfile": {
+      const member = await getMember(args.playerId);
+      return {
+        success: true,
+        data: {
+          name: `${member.firstName} ${member.lastName}`,
+          memberNumber: member.memberNumber,
+          joinDate: member.createdAt,
+          role: member.role,
+        },
+      };
+    }
+    
+    case "getPlayerTrainingHistory": {
+      const plans = await getPlayerTrainingPlans(args.playerId);
+      return {
+        success: true,
+        data: {
+          totalPlans: plans.length,
+          plans: plans.map(p => ({
+            id: p.id,
+            created: p.createdAt,
+            focusAreas: p.focusAreas,
+            version: p.version,
+            lastReview: p.lastReviewDate,
+          })),
+        },
+      };
+    }
+    
+    case "createTrainingPlanTemplate": {
+      const plan = await createTrainingPlan({
+        playerId: args.playerId,
+        focusAreas: args.focusAreas || [],
+        strengths: args.strengths || [],
+        areasForImprovement: args.areasForImprovement || [],
+        recommendations: args.recommendations || "",
+        suggestedDrills: args.suggestedDrills || [],
+        weeklyGoals: args.weeklyGoals || [],
+        progressNotes: "",
+        createdBy: "ai-training-agent",
+      });
       
-      default:
-        return {
-          success: false,
-          error: `Unknown function: ${functionName}`,
-        };
+      return {
+        success: true,
+        data: {
+          planId: plan.id,
+          message: "Training plan created! Your coach can review and refine it in your next session.",
+        },
+      };
     }
-  } catch (error: any) {
-    console.error(`[Player Training AI] Error in ${functionName}:`, error);
-    return {
-      success: false,
-      error: error.message || `Failed to execute ${functionName}`,
-    };
+    
+    default:
+      return {
+        success: false,
+        error: `Unknown function: ${call.name}`,
+      };
   }
 }
 
@@ -359,64 +342,16 @@ export async function chatWithTrainingAgent(
   conversationHistory: Array<{ role: string; content: string }>,
   playerId: string
 ): Promise<{ response: string }> {
-  const model = genAI.getGenerativeModel({
-    model: modelName,
+  const result = await runToolLoop({
+    system: PLAYER_TRAINING_CONTEXT,
+    history: toHistory(conversationHistory, 10),
+    message,
     tools: playerTrainingTools,
-    systemInstruction: {
-      parts: [{ text: PLAYER_TRAINING_CONTEXT }],
-    },
+    handleToolCall: handleFunctionCall,
+    logPrefix: "[Player Training AI]",
   });
-  
-  // Filter and format conversation history
-  const filteredHistory = conversationHistory
-    .filter(msg => msg.role === "user" || msg.role === "assistant")
-    .slice(-10); // Keep last 10 messages
-  
-  // Ensure history starts with user message
-  if (filteredHistory.length > 0 && filteredHistory[0].role !== "user") {
-    filteredHistory.shift();
-  }
-  
-  // Format history for Gemini
-  const formattedHistory = filteredHistory.map(msg => ({
-    role: msg.role === "assistant" ? "model" : msg.role,
-    parts: [{ text: msg.content }],
-  }));
-  
-  const chat = model.startChat({
-    history: formattedHistory,
-  });
-  
-  // Send message
-  let result = await chat.sendMessage(message);
-  let response = result.response;
-  
-  // Handle function calls
-  while (response.candidates?.[0]?.content?.parts?.some((part: any) => part.functionCall)) {
-    const functionCalls = response.candidates[0].content.parts.filter(
-      (part: any) => part.functionCall
-    );
-    
-    const functionResponses = await Promise.all(
-      functionCalls.map(async (part: any) => {
-        const functionResult = await handleFunctionCall(part.functionCall, playerId);
-        return {
-          functionResponse: {
-            name: part.functionCall.name,
-            response: functionResult,
-          },
-        };
-      })
-    );
-    
-    // Send function results back to model
-    result = await chat.sendMessage(functionResponses);
-    response = result.response;
-  }
-  
-  const textResponse = response.text();
-  
+
   return {
-    response: textResponse,
+    response: result.text,
   };
 }
@@ -0,0 +1,78 @@
+/**
+ * Business logic layer for court booking prices
+ *
+ * Quotes are always computed on the server from the court, time slot and the
+ * booking member's membership plan; payment intents charge the quoted total.
+ * Lessons are charged their lesson type's price instead.
+ */
+
+import { MembershipEntitlements } from "../types/membership";
+import { PriceQuote } from "../types/payment";
+import { Reservation } from "../types/reservation";
+import { getCourt } from "./courts";
+import { getMember } from "./members";
+import { getEntitlements } from "./subscriptions";
+import { lessonTypeRepository } from "./repositories/file-lesson-type-repository";
+import { NotFoundError } from "./errors/reservation-errors";
+import { calculateCourtPrice, calculateLessonPrice } from "./utils/pricing";
+
+export interface QuoteRequest {
+  courtId: string;
+  date: string;
+  timeSlot: {
+    start: string;
+    end: string;
+  };
+  memberId?: string;            // Omit for a guest quote
+}
+
+/**
+ * Quote a court booking for a member or guest
+ * @throws NotFoundError if the court doesn't exist
+ * @throws MemberNotFoundError if the member doesn't exist
+ * @throws ValidationError if the date or time range is invalid
+ */
+export async function quoteCourtBooking(request: QuoteRequest): Promise<PriceQuote> {
+  const court = await getCourt(request.courtId);
+  if (!court) {
+    throw new NotFoundError(`Court ${request.courtId}`);
+  }
+
+  let membership: MembershipEntitlements | null | undefined;
+  if (request.memberId) {
+    const member = await getMember(request.memberId);
+    membership = await getEntitlements(member, request.date);
+  }
+
+  const quote = calculateCourtPrice(court, request.date, request.timeSlot, membership);
+  return request.memberId ? { ...quote, memberId: request.memberId } : quote;
+}
+
+/**
+ * Quote an existing reservation (the amount its payment intent charges)
+ * or a booking about to be made
+ */
+export async function quoteReservation(
+  reservation: Pick<Reservation, "courtId" | "date" | "timeSlot" | "memberId" | "lessonTypeId">
+): Promise<PriceQuote> {
+  if (reservation.lessonTypeId) {
+    const court = await getCourt(reservation.courtId);
+    if (!court) {
+      throw new NotFoundError(`Court ${reservation.courtId}`);
+    }
+    const lessonType = await lessonTypeRepository.findById(reservation.lessonTypeId);
+    if (!lessonType) {
+      throw new NotFoundError(`Lesson type ${reservation.lessonTypeId}`);
+    }
+
+    const quote = calculateLessonPrice(court, reservation.date, reservation.timeSlot, lessonType);
+    return reservation.memberId ? { ...quote, memberId: reservation.memberId } : quote;
+  }
+
+  return quoteCourtBooking({
+    courtId: reservation.courtId,
+    date: reservation.date,
+    timeSlot: reservation.timeSlot,
+    memberId: reservation.memberId,
+  });
+}
@@ -0,0 +1,658 @@
+/**
+ * Business logic layer for programs
+ *
+ * Clinics, camps and junior development groups run as a series of sessions
+ * on fixed courts. Each session closes its courts to bookings. Members
+ * enroll until the program is full, then join a waitlist; a seat that frees
+ * up goes to the first waitlisted player. Coaches take attendance on the
+ * class roster.
+ */
+
+import {
+  AttendanceMark,
+  Program,
+  ProgramEnrollment,
+  ProgramKind,
+  ProgramListing,
+  ProgramRequest,
+  ProgramRoster,
+  ProgramSession,
+  RosterEntry,
+} from "../types/program";
+import { Member } from "../types/member";
+import { Payment } from "../types/payment";
+import { Reservation } from "../types/reservation";
+import { programRepository } from "./repositories/file-program-repository";
+import { programEnrollmentRepository } from "./repositories/file-program-enrollment-repository";
+import { closureRepository } from "./repositories/file-closure-repository";
+import { reservationRepository } from "./repositories";
+import { getCourt } from "./courts";
+import { getMember, validateMemberActive } from "./members";
+import { getAge } from "./guardians";
+import { processRefund } from "./payments/payments";
+import {
+  sendProgramCancellationEmail,
+  sendProgramEnrollmentEmail,
+  sendProgramSeatEmail,
+} from "./auth/email-service";
+import { ProgramEmailDetails } from "./email/templates";
+import { NotFoundError, ValidationError } from "./errors/reservation-errors";
+import { closureBlocks } from "./utils/court-closures";
+import {
+  getEligibilityError,
+  getProgramStart,
+  parseNtrp,
+  scheduleSessions,
+  validateProgramRequest,
+} from "./utils/programs";
+import { isActiveReservation } from "./utils/reservation-status";
+import { normalizeRole } from "./utils/role-utils";
+
+const ATTENDANCE_MARKS: AttendanceMark[] = ["present", "absent"];
+
+export interface ProgramFilter {
+  kind?: ProgramKind;
+  coachId?: string;
+  includePast?: boolean;       // Programs whose last session has passed
+  includeCancelled?: boolean;
+}
+
+/**
+ * An enrollment with the program it's for
+ */
+export interface MemberProgramEnrollment extends ProgramEnrollment {
+  program: Program;
+}
+
+function toLocalDate(now: Date): string {
+  return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, "0")}-${String(
+    now.getDate()
+  ).padStart(2, "0")}`;
+}
+
+function toLocalDateTime(now: Date): string {
+  return `${toLocalDate(now)}T${String(now.getHours()).padStart(2, "0")}:${String(
+    now.getMinutes()
+  ).padStart(2, "0")}`;
+}
+
+function hasStarted(program: Program, now: Date): boolean {
+  return toLocalDateTime(now) >= getProgramStart(program);
+}
+
+function emailDetails(program: Program): ProgramEmailDetails {
+  return {
+    name: program.name,
+    firstDate: program.sessions[0].date,
+    lastDate: program.sessions[program.sessions.length - 1].date,
+    sessions: program.sessions.length,
+    price: program.price,
+  };
+}
+
+async function withSeats(program: Program): Promise<ProgramListing> {
+  const enrollments = await programEnrollmentRepository.findByProgram(program.id);
+  return {
+    ...program,
+    enrolledCount: enrollments.filter((e) => e.status === "enrolled").length,
+    waitlistCount: enrollments.filter((e) => e.status === "waitlisted").length,
+  };
+}
+
+/**
+ * List programs with their seats taken, soonest first
+ * By default only open programs that haven't finished are listed.
+ */
+export async function listPrograms(
+  filter: ProgramFilter = {},
+  now: Date = new Date()
+): Promise<ProgramListing[]> {
+  const today = toLocalDate(now);
+  const programs = (await programRepository.findAll())
+    .filter((p) => !filter.kind || p.kind === filter.kind)
+    .filter((p) => !filter.coachId || p.coachIds.includes(filter.coachId))
+    .filter((p) => filter.includeCancelled || p.status !== "cancelled")
+    .filter((p) => filter.includePast || p.sessions[p.sessions.length - 1].date >= today)
+    .sort((a, b) => getProgramStart(a).localeCompare(getProgramStart(b)));
+
+  return Promise.all(programs.map(withSeats));
+}
+
+/**
+ * Get a program by ID
+ * @throws NotFoundError if the program does not exist
+ */
+export async function getProgram(id: string): Promise<Program> {
+  const program = await programRepository.findById(id);
+  if (!program) {
+    throw new NotFoundError(`Program ${id}`);
+  }
+  return program;
+}
+
+/**
+ * Get a program with its seats taken
+ * @throws NotFoundError if the program does not exist
+ */
+export async function getProgramListing(id: string): Promise<ProgramListing> {
+  return withSeats(await getProgram(id));
+}
+
+/**
+ * Check that every court exists and is in service
+ */
+async function checkCourts(courtIds: string[]): Promise<void> {
+  for (const courtId of courtIds) {
+    const court = await getCourt(courtId);
+    if (!court) {
+      throw new ValidationError(`Court ${courtId} not found`);
+    }
+    if (court.retired) {
+      throw new ValidationError(`${court.name} has been retired`);
+    }
+  }
+}
+
+/**
+ * Check that every assigned coach is a member with the coach role
+ */
+async function checkCoaches(coachIds: string[]): Promise<void> {
+  for (const coachId of coachIds) {
+    let coach: Member;
+    try {
+      coach = await getMember(coachId);
+    } catch {
+      throw new ValidationError(`Coach ${coachId} not found`);
+    }
+    if (normalizeRole(coach.role) !== "coach") {
+      throw new ValidationError(`${coach.firstName} ${coach.lastName} isn't a coach`);
+    }
+  }
+}
+
+/**
+ * Close the program's courts for each session (or reopen them if it's cancelled)
+ * @returns Active reservations already booked inside the sessions
+ */
+async function blockProgramCourts(program: Program): Promise<Reservation[]> {
+  const closures = await closureRepository.replaceForProgram(
+    program.id,
+    program.status === "open"
+      ? program.sessions.flatMap((session) =>
+          program.courtIds.map((courtId) => ({
+            courtId,
+            startDate: session.date,
+            endDate: session.date,
+            startTime: session.start,
+            endTime: session.end,
+            kind: "program" as const,
+            reason: program.name,
+            createdBy: program.createdBy,
+          }))
+        )
+      : []
+  );
+
+  if (closures.length === 0) {
+    return [];
+  }
+
+  const reservations = await reservationRepository.findAll();
+  return reservations
+    .filter(
+      (r) =>
+        isActiveReservation(r) &&
+        closures.some((c) => closureBlocks(c, r.courtId, r.date, r.timeSlot.start, r.timeSlot.end))
+    )
+    .sort((a, b) =>
+      `${a.date}T${a.timeSlot.start}`.localeCompare(`${b.date}T${b.timeSlot.start}`)
+    );
+}
+
+/**
+ * Create a program and close its courts for every session
+ *
+ * Reservations already booked inside the sessions are left in place and
+ * returned so an admin can move or cancel them.
+ * @throws ValidationError if the program is malformed, or a court or coach is unknown
+ */
+export async function createProgram(
+  data: ProgramRequest,
+  createdBy?: string
+): Promise<{ program: Program; affectedReservations: Reservation[] }> {
+  validateProgramRequest(data);
+  const courtIds = [...new Set(data.courtIds)];
+  const coachIds = [...new Set(data.coachIds || [])];
+  await checkCourts(courtIds);
+  await checkCoaches(coachIds);
+
+  const program = await programRepository.create({
+    name: data.name.trim(),
+    kind: data.kind,
+    description: data.description?.trim() || undefined,
+    sessions: scheduleSessions(data.sessions),
+    courtIds,
+    coachIds,
+    capacity: data.capacity,
+    price: data.price,
+    minAge: data.minAge ?? undefined,
+    maxAge: data.maxAge ?? undefined,
+    minNtrp: data.minNtrp ?? undefined,
+    maxNtrp: data.maxNtrp ?? undefined,
+    status: "open",
+    createdBy,
+  });
+
+  const affectedReservations = await blockProgramCourts(program);
+  return { program, affectedReservations };
+}
+
+/**
+ * Change a program; its court closures follow the new sessions and courts
+ *
+ * Sessions kept at the same time keep their attendance. Raising the
+ * capacity gives the new seats to waitlisted players.
+ * @throws NotFoundError if the program does not exist
+ * @throws ValidationError if the result is malformed, the program is cancelled,
+ * or the capacity drops below the players already enrolled
+ */
+export async function updateProgram(
+  id: string,
+  updates: Partial<ProgramRequest>
+): Promise<{ program: Program; affectedReservations: Reservation[] }> {
+  const existing = await getProgram(id);
+  if (existing.status === "cancelled") {
+    throw new ValidationError(`${existing.name} has been cancelled`);
+  }
+
+  const pick = <K extends "minAge" | "maxAge" | "minNtrp" | "maxNtrp">(key: K) =>
+    updates[key] === null ? undefined : updates[key] ?? existing[key];
+
+  const merged: ProgramRequest = {
+    name: updates.name ?? existing.name,
+    kind: updates.kind ?? existing.kind,
+    description: updates.description ?? existing.description,
+    sessions:
+      updates.sessions ??
+      existing.sessions.map((s) => ({ date: s.date, start: s.start, end: s.end })),
+    courtIds: updates.courtIds ?? existing.courtIds,
+    coachIds: updates.coachIds ?? existing.coachIds,
+    capacity: updates.capacity ?? existing.capacity,
+    price: updates.price ?? existing.price,
+    minAge: pick("minAge"),
+    maxAge: pick("maxAge"),
+    minNtrp: pick("minNtrp"),
+    maxNtrp: pick("maxNtrp"),
+  };
+  validateProgramRequest(merged);
+
+  const enrolled = (await programEnrollmentRepository.findByProgram(id)).filter(
+    (e) => e.status === "enrolled"
+  ).length;
+  if (merged.capacity < enrolled) {
+    throw new ValidationError(
+      `${enrolled} players are already enrolled; capacity can't go below that`
+    );
+  }
+
+  const courtIds = [...new Set(merged.courtIds)];
+  const coachIds = [...new Set(merged.coachIds || [])];
+  if (updates.courtIds) {
+    await checkCourts(courtIds);
+  }
+  if (updates.coachIds) {
+    await checkCoaches(coachIds);
+  }
+
+  const program = await programRepository.update(id, {
+    name: merged.name.trim(),
+    kind: merged.kind,
+    description: merged.description?.trim() || undefined,
+    sessions: scheduleSessions(merged.sessions, existing.sessions),
+    courtIds,
+    coachIds,
+    capacity: merged.capacity,
+    price: merged.price,
+    minAge: merged.minAge ?? undefined,
+    maxAge: merged.maxAge ?? undefined,
+    minNtrp: merged.minNtrp ?? undefined,
+    maxNtrp: merged.maxNtrp ?? undefined,
+  });
+
+  const affectedReservations = await blockProgramCourts(program);
+  if (program.capacity > existing.capacity) {
+    await fillFreedSeats(program);
+  }
+  return { program, affectedReservations };
+}
+
+/**
+ * Cancel a program: reopen its courts, cancel every enrollment and refund
+ * what was paid
+ * @throws NotFoundError if the program does not exist
+ * @throws ValidationError if it's already cancelled
+ */
+export async function cancelProgram(id: string): Promise<Program> {
+  const existing = await getProgram(id);
+  if (existing.status === "cancelled") {
+    throw new ValidationError(`${existing.name} has already been cancelled`);
+  }
+
+  const program = await programRepository.update(id, { status: "cancelled" });
+  await blockProgramCourts(program);
+
+  const enrollments = await programEnrollmentRepository.findByProgram(id);
+  for (const enrollment of enrollments.filter((e) => e.status !== "cancelled")) {
+    const refund = await refundEnrollment(enrollment, `${program.name} was cancelled`);
+    await programEnrollmentRepository.update(enrollment.id, {
+      status: "cancelled",
+      cancelledAt: new Date().toISOString(),
+    });
+
+    try {
+      const member = await getMember(enrollment.memberId);
+      await sendProgramCancellationEmail(
+        member.email,
+        member.firstName,
+        emailDetails(program),
+        refund?.refundAmount ? { amount: refund.refundAmount, currency: refund.currency } : undefined
+      );
+    } catch (error) {
+      console.error(`Failed to notify ${enrollment.memberId} about cancelled program ${id}:`, error);
+    }
+  }
+
+  return program;
+}
+
+/**
+ * Refund an enrollment's payment in full, if it was paid
+ * A failed refund is logged rather than failing the withdrawal.
+ */
+async function refundEnrollment(
+  enrollment: ProgramEnrollment,
+  reason: string
+): Promise<Payment | null> {
+  if (!enrollment.paymentId || enrollment.paymentStatus !== "paid") {
+    return null;
+  }
+
+  try {
+    const refunded = await processRefund({ paymentId: enrollment.paymentId, reason });
+    await programEnrollmentRepository.update(enrollment.id, { paymentStatus: "refunded" });
+    return refunded;
+  } catch (error) {
+    console.error(`Failed to refund program enrollment ${enrollment.id}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Give free seats to waitlisted players and let them know
+ */
+async function fillFreedSeats(program: Program): Promise<ProgramEnrollment[]> {
+  const promoted = await programEnrollmentRepository.promoteWaitlisted(
+    program.id,
+    program.capacity
+  );
+
+  for (const enrollment of promoted) {
+    try {
+      const member = await getMember(enrollment.memberId);
+      await sendProgramSeatEmail(member.email, member.firstName, emailDetails(program));
+    } catch (error) {
+      console.error(`Failed to notify ${enrollment.memberId} about a seat in ${program.id}:`, error);
+    }
+  }
+
+  return promoted;
+}
+
+/**
+ * Get an enrollment by ID
+ * @throws NotFoundError if the enrollment does not exist
+ */
+export async function getEnrollment(id: string): Promise<ProgramEnrollment> {
+  const enrollment = await programEnrollmentRepository.findById(id);
+  if (!enrollment) {
+    throw new NotFoundError(`Enrollment ${id}`);
+  }
+  return enrollment;
+}
+
+/**
+ * Sign a player up for a program
+ *
+ * The player takes a seat if one is free, otherwise joins the waitlist.
+ * Programs with a price are paid after enrolling (see /api/payments/create-intent).
+ * @throws NotFoundError if the program does not exist
+ * @throws ValidationError if the program is cancelled or has started, or the
+ * player is outside its age or NTRP range
+ * @throws ConflictError if the player is already enrolled or waitlisted
+ */
+export async function enrollInProgram(
+  programId: string,
+  memberId: string,
+  bookedBy?: string,
+  now: Date = new Date()
+): Promise<ProgramEnrollment> {
+  const program = await getProgram(programId);
+  if (program.status === "cancelled") {
+    throw new ValidationError(`${program.name} has been cancelled`);
+  }
+  if (hasStarted(program, now)) {
+    throw new ValidationError(`${program.name} has already started`);
+  }
+
+  await validateMemberActive(memberId);
+  const member = await getMember(memberId);
+  if (program.coachIds.includes(memberId)) {
+    throw new ValidationError(`Coaches can't enroll in programs they coach`);
+  }
+
+  const firstSession = new Date(`${program.sessions[0].date}T00:00:00`);
+  const ineligible = getEligibilityError(
+    program,
+    getAge(member.dateOfBirth, firstSession),
+    parseNtrp(member.ntrpRating)
+  );
+  if (ineligible) {
+    throw new ValidationError(ineligible);
+  }
+
+  const enrollment = await programEnrollmentRepository.enroll(
+    {
+      programId,
+      memberId,
+      bookedBy: bookedBy && bookedBy !== memberId ? bookedBy : undefined,
+    },
+    program.capacity
+  );
+
+  await sendProgramEnrollmentEmail(
+    member.email,
+    member.firstName,
+    emailDetails(program),
+    enrollment.status === "waitlisted"
+  );
+
+  return enrollment;
+}
+
+/**
+ * Withdraw from a program (or leave its waitlist)
+ *
+ * A paid seat is refunded in full if the program hasn't started. The seat
+ * goes to the first player on the waitlist.
+ * @throws NotFoundError if the enrollment does not exist
+ * @throws ValidationError if it's already cancelled
+ */
+export async function withdrawFromProgram(
+  enrollmentId: string,
+  now: Date = new Date()
+): Promise<{ enrollment: ProgramEnrollment; refund: Payment | null }> {
+  const existing = await getEnrollment(enrollmentId);
+  if (existing.status === "cancelled") {
+    throw new ValidationError("This enrollment has already been cancelled");
+  }
+
+  const program = await getProgram(existing.programId);
+  const refund = hasStarted(program, now)
+    ? null
+    : await refundEnrollment(existing, `Withdrew from ${program.name}`);
+
+  const enrollment = (await programEnrollmentRepository.update(enrollmentId, {
+    status: "cancelled",
+    cancelledAt: now.toISOString(),
+  })) as ProgramEnrollment;
+
+  if (existing.status === "enrolled" && program.status === "open") {
+    try {
+      await fillFreedSeats(program);
+    } catch (error) {
+      // Log error but don't fail the withdrawal if the waitlist update fails
+      console.error(`Failed to fill the seat freed in program ${program.id}:`, error);
+    }
+  }
+
+  return { enrollment, refund };
+}
+
+/**
+ * Get a member's enrollments (including cancelled ones) with their programs, soonest first
+ */
+export async function getMemberEnrollments(memberId: string): Promise<MemberProgramEnrollment[]> {
+  const enrollments = await programEnrollmentRepository.findByMember(memberId);
+  const programs = await programRepository.findAll();
+
+  return enrollments
+    .map((enrollment) => ({
+      ...enrollment,
+      program: programs.find((p) => p.id === enrollment.programId) as Program,
+    }))
+    .filter((e) => e.program)
+    .sort((a, b) => getProgramStart(a.program).localeCompare(getProgramStart(b.program)));
+}
+
+async function toRosterEntry(enrollment: ProgramEnrollment): Promise<RosterEntry> {
+  let member: Member | null = null;
+  try {
+    member = await getMember(enrollment.memberId);
+  } catch {
+    // Deleted members stay on the roster by ID
+  }
+
+  return {
+    enrollmentId: enrollment.id,
+    memberId: enrollment.memberId,
+    firstName: member?.firstName ?? "Former",
+    lastName: member?.lastName ?? "member",
+    email: member?.email ?? "",
+    status: enrollment.status,
+    paymentStatus: enrollment.paymentStatus,
+    attendance: enrollment.attendance || {},
+  };
+}
+
+/**
+ * Get a program's class roster: enrolled players and the waitlist in order
+ * @throws NotFoundError if the program does not exist
+ */
+export async function getProgramRoster(programId: string): Promise<ProgramRoster> {
+  const program = await getProgram(programId);
+  const enrollments = await programEnrollmentRepository.findByProgram(programId);
+
+  const enrolled = await Promise.all(
+    enrollments.filter((e) => e.status === "enrolled").map(toRosterEntry)
+  );
+  const waitlisted = await Promise.all(
+    enrollments.filter((e) => e.status === "waitlisted").map(toRosterEntry)
+  );
+
+  return {
+    program,
+    enrolled: enrolled.sort((a, b) =>
+      `${a.lastName} ${a.firstName}`.localeCompare(`${b.lastName} ${b.firstName}`)
+    ),
+    waitlisted,
+  };
+}
+
+/**
+ * Mark who came to a session
+ * @param marks Attendance keyed by enrollment ID; players left out keep their mark
+ * @throws NotFoundError if the program or session does not exist
+ * @throws ValidationError if a mark is invalid or a player isn't enrolled
+ */
+export async function recordAttendance(
+  programId: string,
+  sessionId: string,
+  marks: unknown
+): Promise<ProgramRoster> {
+  const program = await getProgram(programId);
+  if (!program.sessions.some((s) => s.id === sessionId)) {
+    throw new NotFoundError(`Session ${sessionId}`);
+  }
+  if (!marks || typeof marks !== "object" || Array.isArray(marks)) {
+    throw new ValidationError("attendance must be an object keyed by enrollment ID");
+  }
+
+  const enrollments = await programEnrollmentRepository.findByProgram(programId);
+  const entries = Object.entries(marks as Record<string, unknown>);
+  for (const [enrollmentId, mark] of entries) {
+    if (!ATTENDANCE_MARKS.includes(mark as AttendanceMark)) {
+      throw new ValidationError(`Attendance must be one of: ${ATTENDANCE_MARKS.join(", ")}`);
+    }
+    if (!enrollments.some((e) => e.id === enrollmentId && e.status === "enrolled")) {
+      throw new ValidationError(`Enrollment ${enrollmentId} isn't on this program's roster`);
+    }
+  }
+
+  for (const [enrollmentId, mark] of entries) {
+    const enrollment = enrollments.find((e) => e.id === enrollmentId) as ProgramEnrollment;
+    await programEnrollmentRepository.update(enrollmentId, {
+      attendance: { ...enrollment.attendance, [sessionId]: mark as AttendanceMark },
+    });
+  }
+
+  return getProgramRoster(programId);
+}
+
+/**
+ * Copy a payment's status onto the enrollment it paid for
+ */
+export async function syncEnrollmentPayment(payment: Payment): Promise<void> {
+  if (!payment.enrollmentId || payment.status === "cancelled") {
+    return;
+  }
+
+  const enrollment = await programEnrollmentRepository.findById(payment.enrollmentId);
+  if (!enrollment) {
+    return;
+  }
+
+  if (enrollment.paymentId !== payment.id || enrollment.paymentStatus !== payment.status) {
+    await programEnrollmentRepository.update(enrollment.id, {
+      paymentId: payment.id,
+      paymentStatus: payment.status,
+      paymentAmount: payment.amount,
+    });
+  }
+}
+
+/**
+ * Sessions a coach is running on a date (they can't teach lessons then)
+ */
+export async function getCoachProgramSessions(
+  coachId: string,
+  date: string
+): Promise<Array<ProgramSession & { programName: string }>> {
+  const programs = await programRepository.findAll();
+  return programs
+    .filter((p) => p.status === "open" && p.coachIds.includes(coachId))
+    .flatMap((p) =>
+      p.sessions
+        .filter((s) => s.date === date)
+        .map((s) => ({ ...s, programName: p.name }))
+    );
+}
@@ -0,0 +1,58 @@
+/**
+ * Repository interface for pending AI agent action data access
+ *
+ * This abstraction allows us to swap storage implementations
+ * (file-based, database, etc.) without changing business logic
+ */
+
+import { AIAction, AIActionStatus } from "../../types/ai-action";
+
+export interface IAIActionRepository {
+  /**
+   * Get all actions
+   * @returns Array of all actions
+   */
+  findAll(): Promise<AIAction[]>;
+
+  /**
+   * Get action by ID
+   * @param id Action ID
+   * @returns Action or null if not found
+   */
+  findById(id: string): Promise<AIAction | null>;
+
+  /**
+   * Create a new action
+   * @param action Action data (without id)
+   * @returns Created action with generated id
+   * @throws AIActionLockError if lock cannot be acquired
+   */
+  create(action: Omit<AIAction, "id">): Promise<AIAction>;
+
+  /**
+   * Update an existing action
+   * @param id Action ID
+   * @param updates Partial action data to update
+   * @returns Updated action or null if not found
+   * @throws AIActionLockError if lock cannot be acquired
+   */
+  update(
+    id: string,
+    updates: Partial<Omit<AIAction, "id" | "memberId" | "createdAt">>
+  ): Promise<AIAction | null>;
+
+  /**
+   * Update an action only if it still has the given status
+   * Checked and written under one lock, so only one caller can move it on
+   * @param id Action ID
+   * @param status Status the action must have
+   * @param updates Partial action data to update
+   * @returns Updated action, or null if not found or its status has changed
+   * @throws AIActionLockError if lock cannot be acquired
+   */
+  updateIfStatus(
+    id: string,
+    status: AIActionStatus,
+    updates: Partial<Omit<AIAction, "id" | "memberId" | "createdAt">>
+  ): Promise<AIAction | null>;
+}
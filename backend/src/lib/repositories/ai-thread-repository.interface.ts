@@ -0,0 +1,58 @@
+/**
+ * Repository interface for AI conversation thread data access
+ *
+ * This abstraction allows us to swap storage implementations
+ * (file-based, database, etc.) without changing business logic
+ */
+
+import { AIThread } from "../../types/ai-thread";
+
+export interface IAIThreadRepository {
+  /**
+   * Get all threads
+   * @returns Array of all threads
+   */
+  findAll(): Promise<AIThread[]>;
+
+  /**
+   * Get a member's threads
+   * @param memberId Member ID
+   * @returns Threads owned by the member
+   */
+  findByMember(memberId: string): Promise<AIThread[]>;
+
+  /**
+   * Get thread by ID
+   * @param id Thread ID
+   * @returns Thread or null if not found
+   */
+  findById(id: string): Promise<AIThread | null>;
+
+  /**
+   * Create a new thread
+   * @param thread Thread data (without id)
+   * @returns Created thread with generated id
+   * @throws AIThreadLockError if lock cannot be acquired
+   */
+  create(thread: Omit<AIThread, "id">): Promise<AIThread>;
+
+  /**
+   * Update an existing thread
+   * @param id Thread ID
+   * @param updates Partial thread data to update
+   * @returns Updated thread or null if not found
+   * @throws AIThreadLockError if lock cannot be acquired
+   */
+  update(
+    id: string,
+    updates: Partial<Omit<AIThread, "id" | "memberId" | "createdAt">>
+  ): Promise<AIThread | null>;
+
+  /**
+   * Delete threads
+   * @param ids Thread IDs
+   * @returns Number of threads deleted
+   * @throws AIThreadLockError if lock cannot be acquired
+   */
+  deleteMany(ids: string[]): Promise<number>;
+}
@@ -0,0 +1,23 @@
+/**
+ * Repository interface for audit log data access
+ *
+ * The log is append-only: there is deliberately no update or delete.
+ */
+
+import { AuditEntry } from "../../types/audit";
+
+export interface IAuditLogRepository {
+  /**
+   * Get all entries, oldest first
+   * @returns Array of all entries
+   */
+  findAll(): Promise<AuditEntry[]>;
+
+  /**
+   * Append an entry
+   * @param entry Entry data (without id)
+   * @returns Stored entry with generated id
+   * @throws AuditLockError if lock cannot be acquired
+   */
+  append(entry: Omit<AuditEntry, "id">): Promise<AuditEntry>;
+}
@@ -0,0 +1,24 @@
+/**
+ * Repository interface for booking rules data access
+ *
+ * This abstraction allows us to swap storage implementations
+ * (file-based, database, etc.) without changing business logic
+ */
+
+import { BookingRules } from "../../types/reservation";
+
+export interface IBookingRulesRepository {
+  /**
+   * Get the current booking rules
+   * @returns Saved rules, with defaults for anything not saved
+   */
+  get(): Promise<BookingRules>;
+
+  /**
+   * Replace the booking rules
+   * @param rules Complete rules to save
+   * @returns Saved rules
+   * @throws LockError if lock cannot be acquired
+   */
+  save(rules: BookingRules): Promise<BookingRules>;
+}
@@ -0,0 +1,24 @@
+/**
+ * Repository interface for cancellation policy data access
+ *
+ * This abstraction allows us to swap storage implementations
+ * (file-based, database, etc.) without changing business logic
+ */
+
+import { CancellationPolicy } from "../../types/penalty";
+
+export interface ICancellationPolicyRepository {
+  /**
+   * Get the current cancellation policy
+   * @returns Saved policy, with defaults for anything not saved
+   */
+  get(): Promise<CancellationPolicy>;
+
+  /**
+   * Replace the cancellation policy
+   * @param policy Complete policy to save
+   * @returns Saved policy
+   * @throws LockError if lock cannot be acquired
+   */
+  save(policy: CancellationPolicy): Promise<CancellationPolicy>;
+}
@@ -0,0 +1,58 @@
+/**
+ * Repository interface for court closure data access
+ *
+ * This abstraction allows us to swap storage implementations
+ * (file-based, database, etc.) without changing business logic
+ */
+
+import { CourtClosure } from "../../types/reservation";
+
+export interface IClosureRepository {
+  /**
+   * Get all closures
+   * @returns Array of all closures
+   */
+  findAll(): Promise<CourtClosure[]>;
+
+  /**
+   * Get closures that cover a specific date (any court)
+   * @param date Date in YYYY-MM-DD format
+   * @returns Array of closures covering the date
+   */
+  findByDate(date: string): Promise<CourtClosure[]>;
+
+  /**
+   * Get closure by ID
+   * @param id Closure ID
+   * @returns Closure or null if not found
+   */
+  findById(id: string): Promise<CourtClosure | null>;
+
+  /**
+   * Create a new closure
+   * @param closure Closure data (without id, createdAt)
+   * @returns Created closure with generated id and timestamp
+   * @throws LockError if lock cannot be acquired
+   */
+  create(closure: Omit<CourtClosure, "id" | "createdAt">): Promise<CourtClosure>;
+
+  /**
+   * Delete a closure
+   * @param id Closure ID
+   * @returns true if deleted, false if not found
+   * @throws LockError if lock cannot be acquired
+   */
+  delete(id: string): Promise<boolean>;
+
+  /**
+   * Replace the closures holding a program's court time
+   * @param programId Program ID
+   * @param closures New closures (empty to reopen the courts)
+   * @returns Created closures
+   * @throws LockError if lock cannot be acquired
+   */
+  replaceForProgram(
+    programId: string,
+    closures: Array<Omit<CourtClosure, "id" | "createdAt" | "programId">>
+  ): Promise<CourtClosure[]>;
+}
@@ -0,0 +1,31 @@
+/**
+ * Repository interface for coach schedule data access
+ *
+ * This abstraction allows us to swap storage implementations
+ * (file-based, database, etc.) without changing business logic
+ */
+
+import { CoachSchedule } from "../../types/lesson";
+
+export interface ICoachScheduleRepository {
+  /**
+   * Get every saved coach schedule
+   * @returns Array of schedules
+   */
+  findAll(): Promise<CoachSchedule[]>;
+
+  /**
+   * Get a coach's schedule
+   * @param coachId Member ID of the coach
+   * @returns Schedule or null if the coach hasn't set one
+   */
+  findByCoachId(coachId: string): Promise<CoachSchedule | null>;
+
+  /**
+   * Create or replace a coach's schedule
+   * @param schedule Complete schedule to save
+   * @returns Saved schedule with updatedAt set
+   * @throws LockError if lock cannot be acquired
+   */
+  save(schedule: CoachSchedule): Promise<CoachSchedule>;
+}
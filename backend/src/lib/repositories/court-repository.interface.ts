@@ -0,0 +1,41 @@
+/**
+ * Repository interface for court data access
+ *
+ * This abstraction allows us to swap storage implementations
+ * (file-based, database, etc.) without changing business logic
+ */
+
+import { Court } from "../../types/reservation";
+
+export interface ICourtRepository {
+  /**
+   * Get all courts, including retired ones
+   * @returns Array of all courts
+   */
+  findAll(): Promise<Court[]>;
+
+  /**
+   * Get court by ID
+   * @param id Court ID
+   * @returns Court or null if not found
+   */
+  findById(id: string): Promise<Court | null>;
+
+  /**
+   * Create a new court
+   * @param court Court data (without id)
+   * @returns Created court with generated id
+   * @throws LockError if lock cannot be acquired
+   */
+  create(court: Omit<Court, "id">): Promise<Court>;
+
+  /**
+   * Update an existing court
+   * @param id Court ID
+   * @param updates Partial court data to update
+   * @returns Updated court
+   * @throws NotFoundError if court not found
+   * @throws LockError if lock cannot be acquired
+   */
+  update(id: string, updates: Partial<Court>): Promise<Court>;
+}
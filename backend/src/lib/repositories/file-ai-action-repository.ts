@@ -0,0 +1,182 @@
+/**
+ * File-based implementation of IAIActionRepository
+ *
+ * Uses JSON file storage with file locking for concurrency control
+ */
+
+import { promises as fs } from "fs";
+import path from "path";
+import { AIAction, AIActionStatus } from "../../types/ai-action";
+import { IAIActionRepository } from "./ai-action-repository.interface";
+import { FileLock } from "../utils/file-lock";
+import { AIActionLockError } from "../errors/ai-action-errors";
+
+function getDataDir(): string {
+  return process.env.DATA_DIR
+    ? path.isAbsolute(process.env.DATA_DIR)
+      ? process.env.DATA_DIR
+      : path.join(process.cwd(), process.env.DATA_DIR)
+    : path.join(process.cwd(), "data");
+}
+
+function getActionsFile(): string {
+  return path.join(getDataDir(), "ai-actions.json");
+}
+
+/**
+ * Ensure data directory and actions file exist
+ */
+async function ensureDataFiles(): Promise<void> {
+  try {
+    const actionsFile = getActionsFile();
+    await fs.mkdir(getDataDir(), { recursive: true });
+
+    try {
+      await fs.access(actionsFile);
+    } catch {
+      await fs.writeFile(actionsFile, JSON.stringify([], null, 2));
+    }
+  } catch (error) {
+    console.error("Error initializing data files:", error);
+    throw error;
+  }
+}
+
+/**
+ * Read all actions from file
+ */
+async function readActions(): Promise<AIAction[]> {
+  await ensureDataFiles();
+  try {
+    const data = await fs.readFile(getActionsFile(), "utf-8");
+    return JSON.parse(data);
+  } catch (error) {
+    console.error("Error reading AI actions:", error);
+    return [];
+  }
+}
+
+/**
+ * Write actions to file
+ */
+async function writeActions(actions: AIAction[]): Promise<void> {
+  await ensureDataFiles();
+  await fs.writeFile(getActionsFile(), JSON.stringify(actions, null, 2));
+}
+
+/**
+ * Acquire the actions file lock
+ * @param operation Used in the error message, e.g. "action creation"
+ */
+async function acquireLock(operation: string): Promise<() => Promise<void>> {
+  await ensureDataFiles();
+  const lock = new FileLock(getActionsFile());
+
+  try {
+    return await lock.acquire();
+  } catch (error) {
+    throw new AIActionLockError(
+      `Could not acquire lock for ${operation}: ${
+        error instanceof Error ? error.message : String(error)
+      }`
+    );
+  }
+}
+
+/**
+ * File-based AI action repository implementation
+ */
+export class FileAIActionRepository implements IAIActionRepository {
+  /**
+   * Get all actions
+   */
+  async findAll(): Promise<AIAction[]> {
+    return readActions();
+  }
+
+  /**
+   * Get action by ID
+   */
+  async findById(id: string): Promise<AIAction | null> {
+    const actions = await this.findAll();
+    return actions.find((a) => a.id === id) || null;
+  }
+
+  /**
+   * Create a new action
+   */
+  async create(actionData: Omit<AIAction, "id">): Promise<AIAction> {
+    const release = await acquireLock("action creation");
+
+    try {
+      const actions = await readActions();
+      const newAction: AIAction = {
+        id: `action-${Date.now()}-${Math.random().toString(36).substring(2, 8)}`,
+        ...actionData,
+      };
+
+      actions.push(newAction);
+      await writeActions(actions);
+
+      return newAction;
+    } finally {
+      await release();
+    }
+  }
+
+  /**
+   * Update an existing action
+   */
+  async update(
+    id: string,
+    updates: Partial<Omit<AIAction, "id" | "memberId" | "createdAt">>
+  ): Promise<AIAction | null> {
+    const release = await acquireLock("action update");
+
+    try {
+      const actions = await readActions();
+      const index = actions.findIndex((a) => a.id === id);
+
+      if (index === -1) {
+        return null;
+      }
+
+      actions[index] = { ...actions[index], ...updates, id: actions[index].id };
+      await writeActions(actions);
+
+      return actions[index];
+    } finally {
+      await release();
+    }
+  }
+
+  /**
+   * Update an action only if it still has the given status
+   */
+  async updateIfStatus(
+    id: string,
+    status: AIActionStatus,
+    updates: Partial<Omit<AIAction, "id" | "memberId" | "createdAt">>
+  ): Promise<AIAction | null> {
+    const release = await acquireLock("action update");
+
+    try {
+      const actions = await readActions();
+      const index = actions.findIndex((a) => a.id === id);
+
+      if (index === -1 || actions[index].status !== status) {
+        return null;
+      }
+
+      actions[index] = { ...actions[index], ...updates, id: actions[index].id };
+      await writeActions(actions);
+
+      return actions[index];
+    } finally {
+      await release();
+    }
+  }
+}
+
+// Export singleton instance
+export const aiActionRepository: IAIActionRepository = new FileAIActionRepository();
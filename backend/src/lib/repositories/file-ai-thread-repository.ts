@@ -0,0 +1,187 @@
+/**
+ * File-based implementation of IAIThreadRepository
+ *
+ * Uses JSON file storage with file locking for concurrency control
+ */
+
+import { promises as fs } from "fs";
+import path from "path";
+import { AIThread } from "../../types/ai-thread";
+import { IAIThreadRepository } from "./ai-thread-repository.interface";
+import { FileLock } from "../utils/file-lock";
+import { AIThreadLockError } from "../errors/ai-thread-errors";
+
+function getDataDir(): string {
+  return process.env.DATA_DIR
+    ? path.isAbsolute(process.env.DATA_DIR)
+      ? process.env.DATA_DIR
+      : path.join(process.cwd(), process.env.DATA_DIR)
+    : path.join(process.cwd(), "data");
+}
+
+function getThreadsFile(): string {
+  return path.join(getDataDir(), "ai-threads.json");
+}
+
+/**
+ * Ensure data directory and threads file exist
+ */
+async function ensureDataFiles(): Promise<void> {
+  try {
+    const threadsFile = getThreadsFile();
+    await fs.mkdir(getDataDir(), { recursive: true });
+
+    try {
+      await fs.access(threadsFile);
+    } catch {
+      await fs.writeFile(threadsFile, JSON.stringify([], null, 2));
+    }
+  } catch (error) {
+    console.error("Error initializing data files:", error);
+    throw error;
+  }
+}
+
+/**
+ * Read all threads from file
+ */
+async function readThreads(): Promise<AIThread[]> {
+  await ensureDataFiles();
+  try {
+    const data = await fs.readFile(getThreadsFile(), "utf-8");
+    return JSON.parse(data);
+  } catch (error) {
+    console.error("Error reading AI threads:", error);
+    return [];
+  }
+}
+
+/**
+ * Write threads to file
+ */
+async function writeThreads(threads: AIThread[]): Promise<void> {
+  await ensureDataFiles();
+  await fs.writeFile(getThreadsFile(), JSON.stringify(threads, null, 2));
+}
+
+/**
+ * Acquire the threads file lock
+ * @param action Used in the error message, e.g. "thread creation"
+ */
+async function acquireLock(action: string): Promise<() => Promise<void>> {
+  await ensureDataFiles();
+  const lock = new FileLock(getThreadsFile());
+
+  try {
+    return await lock.acquire();
+  } catch (error) {
+    throw new AIThreadLockError(
+      `Could not acquire lock for ${action}: ${
+        error instanceof Error ? error.message : String(error)
+      }`
+    );
+  }
+}
+
+/**
+ * File-based AI thread repository implementation
+ */
+export class FileAIThreadRepository implements IAIThreadRepository {
+  /**
+   * Get all threads
+   */
+  async findAll(): Promise<AIThread[]> {
+    return readThreads();
+  }
+
+  /**
+   * Get a member's threads
+   */
+  async findByMember(memberId: string): Promise<AIThread[]> {
+    const threads = await this.findAll();
+    return threads.filter((t) => t.memberId === memberId);
+  }
+
+  /**
+   * Get thread by ID
+   */
+  async findById(id: string): Promise<AIThread | null> {
+    const threads = await this.findAll();
+    return threads.find((t) => t.id === id) || null;
+  }
+
+  /**
+   * Create a new thread
+   */
+  async create(threadData: Omit<AIThread, "id">): Promise<AIThread> {
+    const release = await acquireLock("thread creation");
+
+    try {
+      const threads = await readThreads();
+      const newThread: AIThread = {
+        id: `thread-${Date.now()}-${Math.random().toString(36).substring(2, 8)}`,
+        ...threadData,
+      };
+
+      threads.push(newThread);
+      await writeThreads(threads);
+
+      return newThread;
+    } finally {
+      await release();
+    }
+  }
+
+  /**
+   * Update an existing thread
+   */
+  async update(
+    id: string,
+    updates: Partial<Omit<AIThread, "id" | "memberId" | "createdAt">>
+  ): Promise<AIThread | null> {
+    const release = await acquireLock("thread update");
+
+    try {
+      const threads = await readThreads();
+      const index = threads.findIndex((t) => t.id === id);
+
+      if (index === -1) {
+        return null;
+      }
+
+      threads[index] = { ...threads[index], ...updates, id: threads[index].id };
+      await writeThreads(threads);
+
+      return threads[index];
+    } finally {
+      await release();
+    }
+  }
+
+  /**
+   * Delete threads
+   */
+  async deleteMany(ids: string[]): Promise<number> {
+    if (ids.length === 0) {
+      return 0;
+    }
+
+    const release = await acquireLock("thread deletion");
+
+    try {
+      const threads = await readThreads();
+      const remaining = threads.filter((t) => !ids.includes(t.id));
+
+      if (remaining.length !== threads.length) {
+        await writeThreads(remaining);
+      }
+
+      return threads.length - remaining.length;
+    } finally {
+      await release();
+    }
+  }
+}
+
+// Export singleton instance
+export const aiThreadRepository: IAIThreadRepository = new FileAIThreadRepository();
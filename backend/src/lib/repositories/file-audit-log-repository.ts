@@ -0,0 +1,122 @@
+/**
+ * File-based implementation of IAuditLogRepository
+ *
+ * Uses JSON file storage with file locking for concurrency control
+ */
+
+import { promises as fs } from "fs";
+import path from "path";
+import { AuditEntry } from "../../types/audit";
+import { IAuditLogRepository } from "./audit-log-repository.interface";
+import { FileLock } from "../utils/file-lock";
+import { AuditLockError } from "../errors/audit-errors";
+
+function getDataDir(): string {
+  return process.env.DATA_DIR
+    ? path.isAbsolute(process.env.DATA_DIR)
+      ? process.env.DATA_DIR
+      : path.join(process.cwd(), process.env.DATA_DIR)
+    : path.join(process.cwd(), "data");
+}
+
+function getAuditFile(): string {
+  return path.join(getDataDir(), "audit-log.json");
+}
+
+/**
+ * Ensure data directory and audit file exist
+ */
+async function ensureDataFiles(): Promise<void> {
+  try {
+    const auditFile = getAuditFile();
+    await fs.mkdir(getDataDir(), { recursive: true });
+
+    try {
+      await fs.access(auditFile);
+    } catch {
+      await fs.writeFile(auditFile, JSON.stringify([], null, 2));
+    }
+  } catch (error) {
+    console.error("Error initializing data files:", error);
+    throw error;
+  }
+}
+
+/**
+ * Read all entries from file
+ * Errors are thrown, not read as an empty log, so an append can never
+ * overwrite a log it couldn't read
+ */
+async function readEntries(): Promise<AuditEntry[]> {
+  await ensureDataFiles();
+  try {
+    const data = await fs.readFile(getAuditFile(), "utf-8");
+    return JSON.parse(data);
+  } catch (error) {
+    console.error("Error reading audit log:", error);
+    throw error;
+  }
+}
+
+/**
+ * Write entries to file
+ */
+async function writeEntries(entries: AuditEntry[]): Promise<void> {
+  await ensureDataFiles();
+  await fs.writeFile(getAuditFile(), JSON.stringify(entries, null, 2));
+}
+
+/**
+ * Acquire the audit file lock
+ */
+async function acquireLock(): Promise<() => Promise<void>> {
+  await ensureDataFiles();
+  const lock = new FileLock(getAuditFile());
+
+  try {
+    return await lock.acquire();
+  } catch (error) {
+    throw new AuditLockError(
+      `Could not acquire lock for audit entry: ${
+        error instanceof Error ? error.message : String(error)
+      }`
+    );
+  }
+}
+
+/**
+ * File-based audit log repository implementation
+ */
+export class FileAuditLogRepository implements IAuditLogRepository {
+  /**
+   * Get all entries, oldest first
+   */
+  async findAll(): Promise<AuditEntry[]> {
+    return readEntries();
+  }
+
+  /**
+   * Append an entry
+   */
+  async append(entryData: Omit<AuditEntry, "id">): Promise<AuditEntry> {
+    const release = await acquireLock();
+
+    try {
+      const entries = await readEntries();
+      const entry: AuditEntry = {
+        id: `audit-${Date.now()}-${Math.random().toString(36).substring(2, 8)}`,
+        ...entryData,
+      };
+
+      entries.push(entry);
+      await writeEntries(entries);
+
+      return entry;
+    } finally {
+      await release();
+    }
+  }
+}
+
+// Export singleton instance
+export const auditLogRepository: IAuditLogRepository = new FileAuditLogRepository();
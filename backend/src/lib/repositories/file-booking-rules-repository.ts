@@ -0,0 +1,100 @@
+/**
+ * File-based implementation of IBookingRulesRepository
+ *
+ * Uses JSON file storage with file locking for concurrency control.
+ * Until an admin saves rules, the defaults apply.
+ */
+
+import { promises as fs } from "fs";
+import path from "path";
+import { BookingRules } from "../../types/reservation";
+import { IBookingRulesRepository } from "./booking-rules-repository.interface";
+import { FileLock } from "../utils/file-lock";
+import { DEFAULT_BOOKING_RULES } from "../utils/booking-rules";
+import { LockError } from "../errors/reservation-errors";
+
+function getDataDir(): string {
+  return process.env.DATA_DIR
+    ? path.isAbsolute(process.env.DATA_DIR)
+      ? process.env.DATA_DIR
+      : path.join(process.cwd(), process.env.DATA_DIR)
+    : path.join(process.cwd(), "data");
+}
+
+function getBookingRulesFile(): string {
+  return path.join(getDataDir(), "booking-rules.json");
+}
+
+/**
+ * Read saved rules, filling in defaults for missing fields
+ */
+async function readBookingRules(): Promise<BookingRules> {
+  let saved: Partial<BookingRules> = {};
+  try {
+    const data = await fs.readFile(getBookingRulesFile(), "utf-8");
+    saved = JSON.parse(data);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+      console.error("Error reading booking rules:", error);
+    }
+  }
+
+  return {
+    ...DEFAULT_BOOKING_RULES,
+    ...saved,
+    advanceWindowDays: {
+      ...DEFAULT_BOOKING_RULES.advanceWindowDays,
+      ...saved.advanceWindowDays,
+    },
+  };
+}
+
+/**
+ * File-based booking rules repository implementation
+ */
+export class FileBookingRulesRepository implements IBookingRulesRepository {
+  /**
+   * Get the current booking rules
+   */
+  async get(): Promise<BookingRules> {
+    return readBookingRules();
+  }
+
+  /**
+   * Replace the booking rules
+   */
+  async save(rules: BookingRules): Promise<BookingRules> {
+    const rulesFile = getBookingRulesFile();
+    await fs.mkdir(getDataDir(), { recursive: true });
+    try {
+      await fs.access(rulesFile);
+    } catch {
+      await fs.writeFile(rulesFile, JSON.stringify({}, null, 2));
+    }
+
+    const lock = new FileLock(rulesFile);
+    let release: (() => Promise<void>) | null = null;
+
+    try {
+      release = await lock.acquire();
+    } catch (error) {
+      throw new LockError(
+        `Could not acquire lock for booking rules update: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      );
+    }
+
+    try {
+      await fs.writeFile(rulesFile, JSON.stringify(rules, null, 2));
+      return rules;
+    } finally {
+      if (release) {
+        await release();
+      }
+    }
+  }
+}
+
+// Export singleton instance
+export const bookingRulesRepository: IBookingRulesRepository = new FileBookingRulesRepository();
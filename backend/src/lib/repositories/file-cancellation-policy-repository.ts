@@ -0,0 +1,94 @@
+/**
+ * File-based implementation of ICancellationPolicyRepository
+ *
+ * Uses JSON file storage with file locking for concurrency control.
+ * Until an admin saves a policy, the default applies.
+ */
+
+import { promises as fs } from "fs";
+import path from "path";
+import { CancellationPolicy } from "../../types/penalty";
+import { ICancellationPolicyRepository } from "./cancellation-policy-repository.interface";
+import { FileLock } from "../utils/file-lock";
+import { DEFAULT_CANCELLATION_POLICY } from "../utils/cancellation-policy";
+import { LockError } from "../errors/reservation-errors";
+
+function getDataDir(): string {
+  return process.env.DATA_DIR
+    ? path.isAbsolute(process.env.DATA_DIR)
+      ? process.env.DATA_DIR
+      : path.join(process.cwd(), process.env.DATA_DIR)
+    : path.join(process.cwd(), "data");
+}
+
+function getCancellationPolicyFile(): string {
+  return path.join(getDataDir(), "cancellation-policy.json");
+}
+
+/**
+ * Read the saved policy, filling in defaults for missing fields
+ */
+async function readCancellationPolicy(): Promise<CancellationPolicy> {
+  let saved: Partial<CancellationPolicy> = {};
+  try {
+    const data = await fs.readFile(getCancellationPolicyFile(), "utf-8");
+    saved = JSON.parse(data);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+      console.error("Error reading cancellation policy:", error);
+    }
+  }
+
+  return { ...DEFAULT_CANCELLATION_POLICY, ...saved };
+}
+
+/**
+ * File-based cancellation policy repository implementation
+ */
+export class FileCancellationPolicyRepository implements ICancellationPolicyRepository {
+  /**
+   * Get the current cancellation policy
+   */
+  async get(): Promise<CancellationPolicy> {
+    return readCancellationPolicy();
+  }
+
+  /**
+   * Replace the cancellation policy
+   */
+  async save(policy: CancellationPolicy): Promise<CancellationPolicy> {
+    const policyFile = getCancellationPolicyFile();
+    await fs.mkdir(getDataDir(), { recursive: true });
+    try {
+      await fs.access(policyFile);
+    } catch {
+      await fs.writeFile(policyFile, JSON.stringify({}, null, 2));
+    }
+
+    const lock = new FileLock(policyFile);
+    let release: (() => Promise<void>) | null = null;
+
+    try {
+      release = await lock.acquire();
+    } catch (error) {
+      throw new LockError(
+        `Could not acquire lock for cancellation policy update: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      );
+    }
+
+    try {
+      await fs.writeFile(policyFile, JSON.stringify(policy, null, 2));
+      return policy;
+    } finally {
+      if (release) {
+        await release();
+      }
+    }
+  }
+}
+
+// Export singleton instance
+export const cancellationPolicyRepository: ICancellationPolicyRepository =
+  new FileCancellationPolicyRepository();
@@ -0,0 +1,229 @@
+/**
+ * File-based implementation of IClosureRepository
+ *
+ * Uses JSON file storage with file locking for concurrency control
+ */
+
+import { promises as fs } from "fs";
+import path from "path";
+import { CourtClosure } from "../../types/reservation";
+import { IClosureRepository } from "./closure-repository.interface";
+import { FileLock } from "../utils/file-lock";
+import { closureCoversDate } from "../utils/court-closures";
+import { reservationCache } from "../cache/reservation-cache";
+import { LockError } from "../errors/reservation-errors";
+
+function getDataDir(): string {
+  return process.env.DATA_DIR
+    ? path.isAbsolute(process.env.DATA_DIR)
+      ? process.env.DATA_DIR
+      : path.join(process.cwd(), process.env.DATA_DIR)
+    : path.join(process.cwd(), "data");
+}
+
+function getClosuresFile(): string {
+  return path.join(getDataDir(), "closures.json");
+}
+
+/**
+ * Ensure data directory and closures file exist
+ */
+async function ensureDataFiles(): Promise<void> {
+  try {
+    const closuresFile = getClosuresFile();
+    await fs.mkdir(getDataDir(), { recursive: true });
+
+    try {
+      await fs.access(closuresFile);
+    } catch {
+      await fs.writeFile(closuresFile, JSON.stringify([], null, 2));
+    }
+  } catch (error) {
+    console.error("Error initializing data files:", error);
+    throw error;
+  }
+}
+
+/**
+ * Read all closures from file
+ */
+async function readClosures(): Promise<CourtClosure[]> {
+  await ensureDataFiles();
+  try {
+    const data = await fs.readFile(getClosuresFile(), "utf-8");
+    return JSON.parse(data);
+  } catch (error) {
+    console.error("Error reading closures:", error);
+    return [];
+  }
+}
+
+/**
+ * Write closures to file
+ */
+async function writeClosures(closures: CourtClosure[]): Promise<void> {
+  await ensureDataFiles();
+  await fs.writeFile(getClosuresFile(), JSON.stringify(closures, null, 2));
+}
+
+/**
+ * Drop cached availability for every date a closure covers
+ */
+function invalidateClosureDates(closure: CourtClosure): void {
+  const start = new Date(`${closure.startDate}T00:00:00Z`);
+  const end = new Date(`${closure.endDate}T00:00:00Z`);
+  for (let day = start; day <= end; day = new Date(day.getTime() + 86400000)) {
+    reservationCache.invalidate(`availability:${day.toISOString().slice(0, 10)}`);
+  }
+}
+
+/**
+ * File-based closure repository implementation
+ */
+export class FileClosureRepository implements IClosureRepository {
+  /**
+   * Get all closures
+   */
+  async findAll(): Promise<CourtClosure[]> {
+    return readClosures();
+  }
+
+  /**
+   * Get closures covering a date
+   */
+  async findByDate(date: string): Promise<CourtClosure[]> {
+    const closures = await this.findAll();
+    return closures.filter((c) => closureCoversDate(c, date));
+  }
+
+  /**
+   * Get closure by ID
+   */
+  async findById(id: string): Promise<CourtClosure | null> {
+    const closures = await this.findAll();
+    return closures.find((c) => c.id === id) || null;
+  }
+
+  /**
+   * Create a new closure
+   */
+  async create(
+    closureData: Omit<CourtClosure, "id" | "createdAt">
+  ): Promise<CourtClosure> {
+    await ensureDataFiles();
+    const lock = new FileLock(getClosuresFile());
+    let release: (() => Promise<void>) | null = null;
+
+    try {
+      release = await lock.acquire();
+    } catch (error) {
+      throw new LockError(
+        `Could not acquire lock for closure creation: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      );
+    }
+
+    try {
+      const closures = await readClosures();
+      const newClosure: CourtClosure = {
+        id: `closure-${Date.now()}-${Math.random().toString(36).substring(2, 8)}`,
+        ...closureData,
+        createdAt: new Date().toISOString(),
+      };
+
+      closures.push(newClosure);
+      await writeClosures(closures);
+      invalidateClosureDates(newClosure);
+
+      return newClosure;
+    } finally {
+      if (release) {
+        await release();
+      }
+    }
+  }
+
+  /**
+   * Delete a closure
+   */
+  async delete(id: string): Promise<boolean> {
+    await ensureDataFiles();
+    const lock = new FileLock(getClosuresFile());
+    let release: (() => Promise<void>) | null = null;
+
+    try {
+      release = await lock.acquire();
+    } catch (error) {
+      throw new LockError(
+        `Could not acquire lock for closure deletion: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      );
+    }
+
+    try {
+      const closures = await readClosures();
+      const closure = closures.find((c) => c.id === id);
+
+      if (!closure) {
+        return false;
+      }
+
+      await writeClosures(closures.filter((c) => c.id !== id));
+      invalidateClosureDates(closure);
+
+      return true;
+    } finally {
+      if (release) {
+        await release();
+      }
+    }
+  }
+
+  /**
+   * Replace a program's closures in one write
+   */
+  async replaceForProgram(
+    programId: string,
+    closureData: Array<Omit<CourtClosure, "id" | "createdAt" | "programId">>
+  ): Promise<CourtClosure[]> {
+    await ensureDataFiles();
+    const lock = new FileLock(getClosuresFile());
+    let release: (() => Promise<void>) | null = null;
+
+    try {
+      release = await lock.acquire();
+    } catch (error) {
+      throw new LockError(
+        `Could not acquire lock for program closures: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      );
+    }
+
+    try {
+      const closures = await readClosures();
+      const removed = closures.filter((c) => c.programId === programId);
+      const now = new Date().toISOString();
+      const created: CourtClosure[] = closureData.map((data) => ({
+        id: `closure-${Date.now()}-${Math.random().toString(36).substring(2, 8)}`,
+        ...data,
+        programId,
+        createdAt: now,
+      }));
+
+      await writeClosures([...closures.filter((c) => c.programId !== programId), ...created]);
+      [...removed, ...created].forEach(invalidateClosureDates);
+
+      return created;
+    } finally {
+      if (release) {
+        await release();
+      }
+    }
+  }
+}
+
+// Export singleton instance
+export const closureRepository: IClosureRepository = new FileClosureRepository();
@@ -0,0 +1,127 @@
+/**
+ * File-based implementation of ICoachScheduleRepository
+ *
+ * Uses JSON file storage with file locking for concurrency control
+ */
+
+import { promises as fs } from "fs";
+import path from "path";
+import { CoachSchedule } from "../../types/lesson";
+import { ICoachScheduleRepository } from "./coach-schedule-repository.interface";
+import { FileLock } from "../utils/file-lock";
+import { LockError } from "../errors/reservation-errors";
+
+function getDataDir(): string {
+  return process.env.DATA_DIR
+    ? path.isAbsolute(process.env.DATA_DIR)
+      ? process.env.DATA_DIR
+      : path.join(process.cwd(), process.env.DATA_DIR)
+    : path.join(process.cwd(), "data");
+}
+
+function getSchedulesFile(): string {
+  return path.join(getDataDir(), "coach-schedules.json");
+}
+
+/**
+ * Ensure data directory and coach schedules file exist
+ */
+async function ensureDataFiles(): Promise<void> {
+  try {
+    const schedulesFile = getSchedulesFile();
+    await fs.mkdir(getDataDir(), { recursive: true });
+
+    try {
+      await fs.access(schedulesFile);
+    } catch {
+      await fs.writeFile(schedulesFile, JSON.stringify([], null, 2));
+    }
+  } catch (error) {
+    console.error("Error initializing data files:", error);
+    throw error;
+  }
+}
+
+/**
+ * Read all coach schedules from file
+ */
+async function readSchedules(): Promise<CoachSchedule[]> {
+  await ensureDataFiles();
+  try {
+    const data = await fs.readFile(getSchedulesFile(), "utf-8");
+    return JSON.parse(data);
+  } catch (error) {
+    console.error("Error reading coach schedules:", error);
+    return [];
+  }
+}
+
+/**
+ * Write coach schedules to file
+ */
+async function writeSchedules(schedules: CoachSchedule[]): Promise<void> {
+  await ensureDataFiles();
+  await fs.writeFile(getSchedulesFile(), JSON.stringify(schedules, null, 2));
+}
+
+/**
+ * File-based coach schedule repository implementation
+ */
+export class FileCoachScheduleRepository implements ICoachScheduleRepository {
+  /**
+   * Get every saved coach schedule
+   */
+  async findAll(): Promise<CoachSchedule[]> {
+    return readSchedules();
+  }
+
+  /**
+   * Get a coach's schedule
+   */
+  async findByCoachId(coachId: string): Promise<CoachSchedule | null> {
+    const schedules = await this.findAll();
+    return schedules.find((s) => s.coachId === coachId) || null;
+  }
+
+  /**
+   * Create or replace a coach's schedule
+   */
+  async save(schedule: CoachSchedule): Promise<CoachSchedule> {
+    await ensureDataFiles();
+    const lock = new FileLock(getSchedulesFile());
+    let release: (() => Promise<void>) | null = null;
+
+    try {
+      release = await lock.acquire();
+    } catch (error) {
+      throw new LockError(
+        `Could not acquire lock for coach schedule update: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      );
+    }
+
+    try {
+      const schedules = await readSchedules();
+      const saved: CoachSchedule = { ...schedule, updatedAt: new Date().toISOString() };
+      const index = schedules.findIndex((s) => s.coachId === schedule.coachId);
+
+      if (index === -1) {
+        schedules.push(saved);
+      } else {
+        schedules[index] = saved;
+      }
+      await writeSchedules(schedules);
+
+      return saved;
+    } finally {
+      if (release) {
+        await release();
+      }
+    }
+  }
+}
+
+// Export singleton instance
+export const coachScheduleRepository: ICoachScheduleRepository =
+  new FileCoachScheduleRepository();
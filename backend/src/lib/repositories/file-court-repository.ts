@@ -0,0 +1,192 @@
+/**
+ * File-based implementation of ICourtRepository
+ *
+ * Uses JSON file storage with file locking for concurrency control
+ */
+
+import { promises as fs } from "fs";
+import path from "path";
+import { Court } from "../../types/reservation";
+import { ICourtRepository } from "./court-repository.interface";
+import { FileLock } from "../utils/file-lock";
+import { reservationCache } from "../cache/reservation-cache";
+import { NotFoundError, LockError } from "../errors/reservation-errors";
+
+function getDataDir(): string {
+  return process.env.DATA_DIR
+    ? path.isAbsolute(process.env.DATA_DIR)
+      ? process.env.DATA_DIR
+      : path.join(process.cwd(), process.env.DATA_DIR)
+    : path.join(process.cwd(), "data");
+}
+
+function getCourtsFile(): string {
+  return path.join(getDataDir(), "courts.json");
+}
+
+/**
+ * Courts seeded on first run
+ */
+function getDefaultCourts(): Court[] {
+  return Array.from({ length: 10 }, (_, i) => ({
+    id: String(i + 1),
+    name: `Court ${i + 1}`,
+    type: "clay" as const,
+    available: true,
+  }));
+}
+
+/**
+ * Ensure data directory and courts file exist
+ */
+async function ensureDataFiles(): Promise<void> {
+  try {
+    const courtsFile = getCourtsFile();
+    await fs.mkdir(getDataDir(), { recursive: true });
+
+    try {
+      await fs.access(courtsFile);
+    } catch {
+      await fs.writeFile(courtsFile, JSON.stringify(getDefaultCourts(), null, 2));
+    }
+  } catch (error) {
+    console.error("Error initializing data files:", error);
+    throw error;
+  }
+}
+
+/**
+ * Read all courts from file
+ */
+async function readCourts(): Promise<Court[]> {
+  await ensureDataFiles();
+  try {
+    const data = await fs.readFile(getCourtsFile(), "utf-8");
+    return JSON.parse(data);
+  } catch (error) {
+    console.error("Error reading courts:", error);
+    return [];
+  }
+}
+
+/**
+ * Write courts to file
+ */
+async function writeCourts(courts: Court[]): Promise<void> {
+  await ensureDataFiles();
+  await fs.writeFile(getCourtsFile(), JSON.stringify(courts, null, 2));
+}
+
+/**
+ * Next numeric court ID (existing courts use "1".."10")
+ */
+function nextCourtId(courts: Court[]): string {
+  const max = courts.reduce((highest, court) => {
+    const numeric = parseInt(court.id, 10);
+    return Number.isNaN(numeric) ? highest : Math.max(highest, numeric);
+  }, 0);
+  return String(max + 1);
+}
+
+/**
+ * File-based court repository implementation
+ */
+export class FileCourtRepository implements ICourtRepository {
+  /**
+   * Get all courts
+   */
+  async findAll(): Promise<Court[]> {
+    return readCourts();
+  }
+
+  /**
+   * Get court by ID
+   */
+  async findById(id: string): Promise<Court | null> {
+    const courts = await this.findAll();
+    return courts.find((c) => c.id === id) || null;
+  }
+
+  /**
+   * Create a new court
+   */
+  async create(courtData: Omit<Court, "id">): Promise<Court> {
+    await ensureDataFiles();
+    const lock = new FileLock(getCourtsFile());
+    let release: (() => Promise<void>) | null = null;
+
+    try {
+      release = await lock.acquire();
+    } catch (error) {
+      throw new LockError(
+        `Could not acquire lock for court creation: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      );
+    }
+
+    try {
+      const courts = await readCourts();
+      const newCourt: Court = {
+        id: nextCourtId(courts),
+        ...courtData,
+      };
+
+      courts.push(newCourt);
+      await writeCourts(courts);
+
+      // New court appears in every cached date
+      reservationCache.invalidate("availability:.*");
+
+      return newCourt;
+    } finally {
+      if (release) {
+        await release();
+      }
+    }
+  }
+
+  /**
+   * Update an existing court
+   */
+  async update(id: string, updates: Partial<Court>): Promise<Court> {
+    await ensureDataFiles();
+    const lock = new FileLock(getCourtsFile());
+    let release: (() => Promise<void>) | null = null;
+
+    try {
+      release = await lock.acquire();
+    } catch (error) {
+      throw new LockError(
+        `Could not acquire lock for court update: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      );
+    }
+
+    try {
+      const courts = await readCourts();
+      const index = courts.findIndex((c) => c.id === id);
+
+      if (index === -1) {
+        throw new NotFoundError(`Court ${id}`);
+      }
+
+      const updatedCourt = { ...courts[index], ...updates, id };
+      courts[index] = updatedCourt;
+      await writeCourts(courts);
+
+      // Court details and hours affect every cached date
+      reservationCache.invalidate("availability:.*");
+
+      return updatedCourt;
+    } finally {
+      if (release) {
+        await release();
+      }
+    }
+  }
+}
+
+// Export singleton instance
+export const courtRepository: ICourtRepository = new FileCourtRepository();
@@ -0,0 +1,160 @@
+/**
+ * File-based implementation of IGuardianInviteRepository
+ *
+ * Uses JSON file storage with file locking for concurrency control
+ */
+
+import { promises as fs } from "fs";
+import path from "path";
+import { GuardianInvite } from "../../types/member";
+import { IGuardianInviteRepository } from "./guardian-invite-repository.interface";
+import { FileLock } from "../utils/file-lock";
+import { MemberLockError } from "../errors/member-errors";
+
+function getDataDir(): string {
+  return process.env.DATA_DIR
+    ? path.isAbsolute(process.env.DATA_DIR)
+      ? process.env.DATA_DIR
+      : path.join(process.cwd(), process.env.DATA_DIR)
+    : path.join(process.cwd(), "data");
+}
+
+function getInvitesFile(): string {
+  return path.join(getDataDir(), "guardian-invites.json");
+}
+
+/**
+ * Ensure data directory and invites file exist
+ */
+async function ensureDataFiles(): Promise<void> {
+  try {
+    const invitesFile = getInvitesFile();
+    await fs.mkdir(getDataDir(), { recursive: true });
+
+    try {
+      await fs.access(invitesFile);
+    } catch {
+      await fs.writeFile(invitesFile, JSON.stringify([], null, 2));
+    }
+  } catch (error) {
+    console.error("Error initializing data files:", error);
+    throw error;
+  }
+}
+
+/**
+ * Read all invitations from file
+ */
+async function readInvites(): Promise<GuardianInvite[]> {
+  await ensureDataFiles();
+  try {
+    const data = await fs.readFile(getInvitesFile(), "utf-8");
+    return JSON.parse(data);
+  } catch (error) {
+    console.error("Error reading guardian invites:", error);
+    return [];
+  }
+}
+
+/**
+ * Write invitations to file
+ */
+async function writeInvites(invites: GuardianInvite[]): Promise<void> {
+  await ensureDataFiles();
+  await fs.writeFile(getInvitesFile(), JSON.stringify(invites, null, 2));
+}
+
+/**
+ * Run a read-modify-write cycle under the invites file lock
+ */
+async function withInvitesLock<T>(action: string, fn: () => Promise<T>): Promise<T> {
+  await ensureDataFiles();
+  const lock = new FileLock(getInvitesFile());
+  let release: (() => Promise<void>) | null = null;
+
+  try {
+    release = await lock.acquire();
+  } catch (error) {
+    throw new MemberLockError(
+      `Could not acquire lock for guardian invite ${action}: ${
+        error instanceof Error ? error.message : String(error)
+      }`
+    );
+  }
+
+  try {
+    return await fn();
+  } finally {
+    if (release) {
+      await release();
+    }
+  }
+}
+
+/**
+ * File-based guardian invitation repository implementation
+ */
+export class FileGuardianInviteRepository implements IGuardianInviteRepository {
+  /**
+   * Get invitation by ID
+   */
+  async findById(id: string): Promise<GuardianInvite | null> {
+    const invites = await readInvites();
+    return invites.find((i) => i.id === id) || null;
+  }
+
+  /**
+   * Get invitations sent by or to a member, newest first
+   */
+  async findByMember(memberId: string): Promise<GuardianInvite[]> {
+    const invites = await readInvites();
+    return invites
+      .filter((i) => i.parentId === memberId || i.childId === memberId)
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  /**
+   * Create a new invitation
+   */
+  async create(inviteData: Omit<GuardianInvite, "id" | "createdAt">): Promise<GuardianInvite> {
+    return withInvitesLock("creation", async () => {
+      const invites = await readInvites();
+      const newInvite: GuardianInvite = {
+        id: `guardian-invite-${Date.now()}-${Math.random().toString(36).substring(2, 10)}`,
+        ...inviteData,
+        createdAt: new Date().toISOString(),
+      };
+
+      invites.push(newInvite);
+      await writeInvites(invites);
+
+      return newInvite;
+    });
+  }
+
+  /**
+   * Update an existing invitation
+   */
+  async update(
+    id: string,
+    updates: Partial<Omit<GuardianInvite, "id" | "createdAt">>
+  ): Promise<GuardianInvite | null> {
+    return withInvitesLock("update", async () => {
+      const invites = await readInvites();
+      const index = invites.findIndex((i) => i.id === id);
+
+      if (index === -1) {
+        return null;
+      }
+
+      invites[index] = { ...invites[index], ...updates, id: invites[index].id };
+      await writeInvites(invites);
+
+      return invites[index];
+    });
+  }
+}
+
+// Export singleton instance
+export const guardianInviteRepository: IGuardianInviteRepository =
+  new FileGuardianInviteRepository();
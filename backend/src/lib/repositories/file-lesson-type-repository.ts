@@ -0,0 +1,173 @@
+/**
+ * File-based implementation of ILessonTypeRepository
+ *
+ * Uses JSON file storage with file locking for concurrency control.
+ * Until an admin changes them, the default lesson types apply.
+ */
+
+import { promises as fs } from "fs";
+import path from "path";
+import { LessonType } from "../../types/lesson";
+import { ILessonTypeRepository } from "./lesson-type-repository.interface";
+import { FileLock } from "../utils/file-lock";
+import { DEFAULT_LESSON_TYPES } from "../utils/lessons";
+import { LockError, NotFoundError } from "../errors/reservation-errors";
+
+function getDataDir(): string {
+  return process.env.DATA_DIR
+    ? path.isAbsolute(process.env.DATA_DIR)
+      ? process.env.DATA_DIR
+      : path.join(process.cwd(), process.env.DATA_DIR)
+    : path.join(process.cwd(), "data");
+}
+
+function getLessonTypesFile(): string {
+  return path.join(getDataDir(), "lesson-types.json");
+}
+
+/**
+ * Ensure data directory and lesson types file exist, seeded with the defaults
+ */
+async function ensureDataFiles(): Promise<void> {
+  try {
+    const lessonTypesFile = getLessonTypesFile();
+    await fs.mkdir(getDataDir(), { recursive: true });
+
+    try {
+      await fs.access(lessonTypesFile);
+    } catch {
+      await fs.writeFile(lessonTypesFile, JSON.stringify(DEFAULT_LESSON_TYPES, null, 2));
+    }
+  } catch (error) {
+    console.error("Error initializing data files:", error);
+    throw error;
+  }
+}
+
+/**
+ * Read all lesson types from file
+ */
+async function readLessonTypes(): Promise<LessonType[]> {
+  try {
+    const data = await fs.readFile(getLessonTypesFile(), "utf-8");
+    return JSON.parse(data);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+      console.error("Error reading lesson types:", error);
+    }
+    return DEFAULT_LESSON_TYPES.map((type) => ({ ...type }));
+  }
+}
+
+/**
+ * Write lesson types to file
+ */
+async function writeLessonTypes(lessonTypes: LessonType[]): Promise<void> {
+  await ensureDataFiles();
+  await fs.writeFile(getLessonTypesFile(), JSON.stringify(lessonTypes, null, 2));
+}
+
+/**
+ * File-based lesson type repository implementation
+ */
+export class FileLessonTypeRepository implements ILessonTypeRepository {
+  /**
+   * Get all lesson types
+   */
+  async findAll(): Promise<LessonType[]> {
+    return readLessonTypes();
+  }
+
+  /**
+   * Get lesson type by ID
+   */
+  async findById(id: string): Promise<LessonType | null> {
+    const lessonTypes = await this.findAll();
+    return lessonTypes.find((t) => t.id === id) || null;
+  }
+
+  /**
+   * Create a new lesson type
+   */
+  async create(
+    lessonTypeData: Omit<LessonType, "id" | "createdAt" | "updatedAt">
+  ): Promise<LessonType> {
+    await ensureDataFiles();
+    const lock = new FileLock(getLessonTypesFile());
+    let release: (() => Promise<void>) | null = null;
+
+    try {
+      release = await lock.acquire();
+    } catch (error) {
+      throw new LockError(
+        `Could not acquire lock for lesson type creation: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      );
+    }
+
+    try {
+      const lessonTypes = await readLessonTypes();
+      const newLessonType: LessonType = {
+        id: `lesson-type-${Date.now()}-${Math.random().toString(36).substring(2, 8)}`,
+        ...lessonTypeData,
+        createdAt: new Date().toISOString(),
+      };
+
+      lessonTypes.push(newLessonType);
+      await writeLessonTypes(lessonTypes);
+
+      return newLessonType;
+    } finally {
+      if (release) {
+        await release();
+      }
+    }
+  }
+
+  /**
+   * Update an existing lesson type
+   */
+  async update(id: string, updates: Partial<LessonType>): Promise<LessonType> {
+    await ensureDataFiles();
+    const lock = new FileLock(getLessonTypesFile());
+    let release: (() => Promise<void>) | null = null;
+
+    try {
+      release = await lock.acquire();
+    } catch (error) {
+      throw new LockError(
+        `Could not acquire lock for lesson type update: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      );
+    }
+
+    try {
+      const lessonTypes = await readLessonTypes();
+      const index = lessonTypes.findIndex((t) => t.id === id);
+
+      if (index === -1) {
+        throw new NotFoundError(`Lesson type ${id}`);
+      }
+
+      const updatedLessonType: LessonType = {
+        ...lessonTypes[index],
+        ...updates,
+        id,
+        updatedAt: new Date().toISOString(),
+      };
+      lessonTypes[index] = updatedLessonType;
+      await writeLessonTypes(lessonTypes);
+
+      return updatedLessonType;
+    } finally {
+      if (release) {
+        await release();
+      }
+    }
+  }
+}
+
+// Export singleton instance
+export const lessonTypeRepository: ILessonTypeRepository = new FileLessonTypeRepository();
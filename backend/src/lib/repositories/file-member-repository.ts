@@ -370,17 +370,17 @@ export class FileMemberRepository implements IMemberRepository {
       const existingMember = members[index];
 
       // If email is being updated, check for duplicates
-      if (updates.email) {
-        const normalizedEmail = normalizeEmail(updates.email);
+      const changes: Partial<Member> = { ...updates };
+      if (changes.email) {
+        changes.email = normalizeEmail(changes.email); // Store normalized email
         const existingByEmail = members.find(
-          (m) => m.id !== id && normalizeEmail(m.email) === normalizedEmail
+          (m) => m.id !== id && normalizeEmail(m.email) === changes.email
         );
         if (existingByEmail) {
           throw new DuplicateEmailError(
             `Email ${updates.email} is already registered`
           );
         }
-        updates.email = normalizedEmail; // Store normalized email
       }
 
       // If member number is being updated, check for duplicates
@@ -397,7 +397,7 @@ export class FileMemberRepository implements IMemberRepository {
 
       const updatedMember: Member = {
         ...existingMember,
-        ...updates,
+        ...changes,
         lastModified: new Date().toISOString(),
       };
 
@@ -0,0 +1,191 @@
+/**
+ * File-based implementation of IOutboxRepository
+ *
+ * Uses JSON file storage with file locking for concurrency control
+ */
+
+import { promises as fs } from "fs";
+import path from "path";
+import { OutboxMessage, OutboxStatus } from "../../types/email";
+import { IOutboxRepository } from "./outbox-repository.interface";
+import { FileLock } from "../utils/file-lock";
+import { LockError } from "../errors/reservation-errors";
+
+function getDataDir(): string {
+  return process.env.DATA_DIR
+    ? path.isAbsolute(process.env.DATA_DIR)
+      ? process.env.DATA_DIR
+      : path.join(process.cwd(), process.env.DATA_DIR)
+    : path.join(process.cwd(), "data");
+}
+
+function getOutboxFile(): string {
+  return path.join(getDataDir(), "email-outbox.json");
+}
+
+/**
+ * Ensure data directory and outbox file exist
+ */
+async function ensureDataFiles(): Promise<void> {
+  try {
+    const outboxFile = getOutboxFile();
+    await fs.mkdir(getDataDir(), { recursive: true });
+
+    try {
+      await fs.access(outboxFile);
+    } catch {
+      await fs.writeFile(outboxFile, JSON.stringify([], null, 2));
+    }
+  } catch (error) {
+    console.error("Error initializing data files:", error);
+    throw error;
+  }
+}
+
+/**
+ * Read all outbox messages from file
+ */
+async function readOutbox(): Promise<OutboxMessage[]> {
+  await ensureDataFiles();
+  try {
+    const data = await fs.readFile(getOutboxFile(), "utf-8");
+    return JSON.parse(data);
+  } catch (error) {
+    console.error("Error reading email outbox:", error);
+    return [];
+  }
+}
+
+/**
+ * Write outbox messages to file
+ */
+async function writeOutbox(messages: OutboxMessage[]): Promise<void> {
+  await ensureDataFiles();
+  await fs.writeFile(getOutboxFile(), JSON.stringify(messages, null, 2));
+}
+
+/**
+ * File-based outbox repository implementation
+ */
+export class FileOutboxRepository implements IOutboxRepository {
+  /**
+   * Get messages, newest first
+   */
+  async findAll(status?: OutboxStatus): Promise<OutboxMessage[]> {
+    const messages = await readOutbox();
+    return messages
+      .filter((m) => !status || m.status === status)
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  /**
+   * Get message by ID
+   */
+  async findById(id: string): Promise<OutboxMessage | null> {
+    const messages = await readOutbox();
+    return messages.find((m) => m.id === id) || null;
+  }
+
+  /**
+   * Get pending messages that are due for delivery, oldest first
+   */
+  async findDue(now: Date): Promise<OutboxMessage[]> {
+    const messages = await readOutbox();
+    return messages
+      .filter(
+        (m) =>
+          m.status === "pending" &&
+          (!m.nextAttemptAt || new Date(m.nextAttemptAt) <= now)
+      )
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  }
+
+  /**
+   * Add a message to the outbox
+   */
+  async create(
+    messageData: Omit<OutboxMessage, "id" | "createdAt" | "updatedAt">
+  ): Promise<OutboxMessage> {
+    await ensureDataFiles();
+    const lock = new FileLock(getOutboxFile());
+    let release: (() => Promise<void>) | null = null;
+
+    try {
+      release = await lock.acquire();
+    } catch (error) {
+      throw new LockError(
+        `Could not acquire lock for outbox creation: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      );
+    }
+
+    try {
+      const messages = await readOutbox();
+      const now = new Date().toISOString();
+      const newMessage: OutboxMessage = {
+        id: `email-${Date.now()}-${Math.random().toString(36).substring(2, 8)}`,
+        ...messageData,
+        createdAt: now,
+        updatedAt: now,
+      };
+
+      messages.push(newMessage);
+      await writeOutbox(messages);
+
+      return newMessage;
+    } finally {
+      if (release) {
+        await release();
+      }
+    }
+  }
+
+  /**
+   * Update an existing message
+   */
+  async update(
+    id: string,
+    updates: Partial<Omit<OutboxMessage, "id" | "createdAt">>
+  ): Promise<OutboxMessage | null> {
+    await ensureDataFiles();
+    const lock = new FileLock(getOutboxFile());
+    let release: (() => Promise<void>) | null = null;
+
+    try {
+      release = await lock.acquire();
+    } catch (error) {
+      throw new LockError(
+        `Could not acquire lock for outbox update: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      );
+    }
+
+    try {
+      const messages = await readOutbox();
+      const index = messages.findIndex((m) => m.id === id);
+
+      if (index === -1) {
+        return null;
+      }
+
+      messages[index] = {
+        ...messages[index],
+        ...updates,
+        id: messages[index].id,
+        updatedAt: new Date().toISOString(),
+      };
+      await writeOutbox(messages);
+
+      return messages[index];
+    } finally {
+      if (release) {
+        await release();
+      }
+    }
+  }
+}
+
+// Export singleton instance
+export const outboxRepository: IOutboxRepository = new FileOutboxRepository();
@@ -0,0 +1,171 @@
+/**
+ * File-based implementation of IPenaltyRepository
+ *
+ * Uses JSON file storage with file locking for concurrency control
+ */
+
+import { promises as fs } from "fs";
+import path from "path";
+import { Penalty } from "../../types/penalty";
+import { IPenaltyRepository } from "./penalty-repository.interface";
+import { FileLock } from "../utils/file-lock";
+import { LockError } from "../errors/reservation-errors";
+
+function getDataDir(): string {
+  return process.env.DATA_DIR
+    ? path.isAbsolute(process.env.DATA_DIR)
+      ? process.env.DATA_DIR
+      : path.join(process.cwd(), process.env.DATA_DIR)
+    : path.join(process.cwd(), "data");
+}
+
+function getPenaltiesFile(): string {
+  return path.join(getDataDir(), "penalties.json");
+}
+
+/**
+ * Ensure data directory and penalties file exist
+ */
+async function ensureDataFiles(): Promise<void> {
+  try {
+    const penaltiesFile = getPenaltiesFile();
+    await fs.mkdir(getDataDir(), { recursive: true });
+
+    try {
+      await fs.access(penaltiesFile);
+    } catch {
+      await fs.writeFile(penaltiesFile, JSON.stringify([], null, 2));
+    }
+  } catch (error) {
+    console.error("Error initializing data files:", error);
+    throw error;
+  }
+}
+
+/**
+ * Read all penalties from file
+ */
+async function readPenalties(): Promise<Penalty[]> {
+  await ensureDataFiles();
+  try {
+    const data = await fs.readFile(getPenaltiesFile(), "utf-8");
+    return JSON.parse(data);
+  } catch (error) {
+    console.error("Error reading penalties:", error);
+    return [];
+  }
+}
+
+/**
+ * Write penalties to file
+ */
+async function writePenalties(penalties: Penalty[]): Promise<void> {
+  await ensureDataFiles();
+  await fs.writeFile(getPenaltiesFile(), JSON.stringify(penalties, null, 2));
+}
+
+/**
+ * Run a read-modify-write cycle under the penalties file lock
+ */
+async function withPenaltiesLock<T>(action: string, fn: () => Promise<T>): Promise<T> {
+  await ensureDataFiles();
+  const lock = new FileLock(getPenaltiesFile());
+  let release: (() => Promise<void>) | null = null;
+
+  try {
+    release = await lock.acquire();
+  } catch (error) {
+    throw new LockError(
+      `Could not acquire lock for penalty ${action}: ${
+        error instanceof Error ? error.message : String(error)
+      }`
+    );
+  }
+
+  try {
+    return await fn();
+  } finally {
+    if (release) {
+      await release();
+    }
+  }
+}
+
+/**
+ * File-based penalty repository implementation
+ */
+export class FilePenaltyRepository implements IPenaltyRepository {
+  /**
+   * Get penalty by ID
+   */
+  async findById(id: string): Promise<Penalty | null> {
+    const penalties = await readPenalties();
+    return penalties.find((p) => p.id === id) || null;
+  }
+
+  /**
+   * Get a member's penalties, newest first
+   */
+  async findByMember(memberId: string): Promise<Penalty[]> {
+    const penalties = await readPenalties();
+    return penalties
+      .filter((p) => p.memberId === memberId)
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  /**
+   * Get the penalty charged for a reservation
+   */
+  async findByReservation(reservationId: string): Promise<Penalty | null> {
+    const penalties = await readPenalties();
+    return penalties.find((p) => p.reservationId === reservationId) || null;
+  }
+
+  /**
+   * Create a new penalty
+   */
+  async create(penaltyData: Omit<Penalty, "id" | "createdAt">): Promise<Penalty> {
+    return withPenaltiesLock("creation", async () => {
+      const penalties = await readPenalties();
+      const newPenalty: Penalty = {
+        id: `penalty-${Date.now()}-${Math.random().toString(36).substring(2, 10)}`,
+        ...penaltyData,
+        createdAt: new Date().toISOString(),
+      };
+
+      penalties.push(newPenalty);
+      await writePenalties(penalties);
+
+      return newPenalty;
+    });
+  }
+
+  /**
+   * Update an existing penalty
+   */
+  async update(
+    id: string,
+    updates: Partial<Omit<Penalty, "id" | "createdAt">>
+  ): Promise<Penalty | null> {
+    return withPenaltiesLock("update", async () => {
+      const penalties = await readPenalties();
+      const index = penalties.findIndex((p) => p.id === id);
+
+      if (index === -1) {
+        return null;
+      }
+
+      penalties[index] = {
+        ...penalties[index],
+        ...updates,
+        id: penalties[index].id,
+      };
+      await writePenalties(penalties);
+
+      return penalties[index];
+    });
+  }
+}
+
+// Export singleton instance
+export const penaltyRepository: IPenaltyRepository = new FilePenaltyRepository();
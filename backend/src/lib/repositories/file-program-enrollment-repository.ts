@@ -0,0 +1,258 @@
+/**
+ * File-based implementation of IProgramEnrollmentRepository
+ *
+ * Uses JSON file storage with file locking for concurrency control
+ */
+
+import { promises as fs } from "fs";
+import path from "path";
+import { ProgramEnrollment } from "../../types/program";
+import { IProgramEnrollmentRepository } from "./program-enrollment-repository.interface";
+import { FileLock } from "../utils/file-lock";
+import { ConflictError, LockError } from "../errors/reservation-errors";
+
+function getDataDir(): string {
+  return process.env.DATA_DIR
+    ? path.isAbsolute(process.env.DATA_DIR)
+      ? process.env.DATA_DIR
+      : path.join(process.cwd(), process.env.DATA_DIR)
+    : path.join(process.cwd(), "data");
+}
+
+function getEnrollmentsFile(): string {
+  return path.join(getDataDir(), "program-enrollments.json");
+}
+
+/**
+ * Ensure data directory and enrollments file exist
+ */
+async function ensureDataFiles(): Promise<void> {
+  try {
+    const enrollmentsFile = getEnrollmentsFile();
+    await fs.mkdir(getDataDir(), { recursive: true });
+
+    try {
+      await fs.access(enrollmentsFile);
+    } catch {
+      await fs.writeFile(enrollmentsFile, JSON.stringify([], null, 2));
+    }
+  } catch (error) {
+    console.error("Error initializing data files:", error);
+    throw error;
+  }
+}
+
+/**
+ * Read all enrollments from file, oldest first
+ */
+async function readEnrollments(): Promise<ProgramEnrollment[]> {
+  await ensureDataFiles();
+  try {
+    const data = await fs.readFile(getEnrollmentsFile(), "utf-8");
+    const enrollments: ProgramEnrollment[] = JSON.parse(data);
+    return enrollments.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  } catch (error) {
+    console.error("Error reading program enrollments:", error);
+    return [];
+  }
+}
+
+/**
+ * Write enrollments to file
+ */
+async function writeEnrollments(enrollments: ProgramEnrollment[]): Promise<void> {
+  await ensureDataFiles();
+  await fs.writeFile(getEnrollmentsFile(), JSON.stringify(enrollments, null, 2));
+}
+
+/**
+ * File-based program enrollment repository implementation
+ */
+export class FileProgramEnrollmentRepository implements IProgramEnrollmentRepository {
+  /**
+   * Get all enrollments, oldest first
+   */
+  async findAll(): Promise<ProgramEnrollment[]> {
+    return readEnrollments();
+  }
+
+  /**
+   * Get enrollments for a program
+   */
+  async findByProgram(programId: string): Promise<ProgramEnrollment[]> {
+    const enrollments = await this.findAll();
+    return enrollments.filter((e) => e.programId === programId);
+  }
+
+  /**
+   * Get enrollments for a member
+   */
+  async findByMember(memberId: string): Promise<ProgramEnrollment[]> {
+    const enrollments = await this.findAll();
+    return enrollments.filter((e) => e.memberId === memberId);
+  }
+
+  /**
+   * Get enrollment by ID
+   */
+  async findById(id: string): Promise<ProgramEnrollment | null> {
+    const enrollments = await this.findAll();
+    return enrollments.find((e) => e.id === id) || null;
+  }
+
+  /**
+   * Sign a member up, taking a seat or joining the waitlist
+   */
+  async enroll(
+    enrollmentData: Omit<
+      ProgramEnrollment,
+      "id" | "status" | "enrolledAt" | "createdAt" | "updatedAt"
+    >,
+    capacity: number
+  ): Promise<ProgramEnrollment> {
+    await ensureDataFiles();
+    const lock = new FileLock(getEnrollmentsFile());
+    let release: (() => Promise<void>) | null = null;
+
+    try {
+      release = await lock.acquire();
+    } catch (error) {
+      throw new LockError(
+        `Could not acquire lock for program enrollment: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      );
+    }
+
+    try {
+      const enrollments = await readEnrollments();
+      const forProgram = enrollments.filter((e) => e.programId === enrollmentData.programId);
+
+      const existing = forProgram.find(
+        (e) => e.memberId === enrollmentData.memberId && e.status !== "cancelled"
+      );
+      if (existing) {
+        throw new ConflictError(
+          existing.status === "enrolled"
+            ? "Already enrolled in this program"
+            : "Already on the waitlist for this program"
+        );
+      }
+
+      const seatsTaken = forProgram.filter((e) => e.status === "enrolled").length;
+      const now = new Date().toISOString();
+      const newEnrollment: ProgramEnrollment = {
+        id: `enrollment-${Date.now()}-${Math.random().toString(36).substring(2, 8)}`,
+        ...enrollmentData,
+        status: seatsTaken < capacity ? "enrolled" : "waitlisted",
+        enrolledAt: seatsTaken < capacity ? now : undefined,
+        createdAt: now,
+        updatedAt: now,
+      };
+
+      enrollments.push(newEnrollment);
+      await writeEnrollments(enrollments);
+
+      return newEnrollment;
+    } finally {
+      if (release) {
+        await release();
+      }
+    }
+  }
+
+  /**
+   * Move waitlisted members into free seats, oldest sign-up first
+   */
+  async promoteWaitlisted(programId: string, capacity: number): Promise<ProgramEnrollment[]> {
+    await ensureDataFiles();
+    const lock = new FileLock(getEnrollmentsFile());
+    let release: (() => Promise<void>) | null = null;
+
+    try {
+      release = await lock.acquire();
+    } catch (error) {
+      throw new LockError(
+        `Could not acquire lock for waitlist promotion: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      );
+    }
+
+    try {
+      const enrollments = await readEnrollments();
+      const forProgram = enrollments.filter((e) => e.programId === programId);
+      const freeSeats = capacity - forProgram.filter((e) => e.status === "enrolled").length;
+      const promoted = forProgram
+        .filter((e) => e.status === "waitlisted")
+        .slice(0, Math.max(freeSeats, 0));
+
+      if (promoted.length === 0) {
+        return [];
+      }
+
+      const now = new Date().toISOString();
+      for (const enrollment of promoted) {
+        enrollment.status = "enrolled";
+        enrollment.enrolledAt = now;
+        enrollment.updatedAt = now;
+      }
+      await writeEnrollments(enrollments);
+
+      return promoted;
+    } finally {
+      if (release) {
+        await release();
+      }
+    }
+  }
+
+  /**
+   * Update an existing enrollment
+   */
+  async update(
+    id: string,
+    updates: Partial<Omit<ProgramEnrollment, "id" | "createdAt">>
+  ): Promise<ProgramEnrollment | null> {
+    await ensureDataFiles();
+    const lock = new FileLock(getEnrollmentsFile());
+    let release: (() => Promise<void>) | null = null;
+
+    try {
+      release = await lock.acquire();
+    } catch (error) {
+      throw new LockError(
+        `Could not acquire lock for program enrollment update: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      );
+    }
+
+    try {
+      const enrollments = await readEnrollments();
+      const index = enrollments.findIndex((e) => e.id === id);
+
+      if (index === -1) {
+        return null;
+      }
+
+      enrollments[index] = {
+        ...enrollments[index],
+        ...updates,
+        id: enrollments[index].id,
+        updatedAt: new Date().toISOString(),
+      };
+      await writeEnrollments(enrollments);
+
+      return enrollments[index];
+    } finally {
+      if (release) {
+        await release();
+      }
+    }
+  }
+}
+
+// Export singleton instance
+export const programEnrollmentRepository: IProgramEnrollmentRepository =
+  new FileProgramEnrollmentRepository();
@@ -0,0 +1,175 @@
+/**
+ * File-based implementation of IProgramRepository
+ *
+ * Uses JSON file storage with file locking for concurrency control
+ */
+
+import { promises as fs } from "fs";
+import path from "path";
+import { Program } from "../../types/program";
+import { IProgramRepository } from "./program-repository.interface";
+import { FileLock } from "../utils/file-lock";
+import { LockError, NotFoundError } from "../errors/reservation-errors";
+
+function getDataDir(): string {
+  return process.env.DATA_DIR
+    ? path.isAbsolute(process.env.DATA_DIR)
+      ? process.env.DATA_DIR
+      : path.join(process.cwd(), process.env.DATA_DIR)
+    : path.join(process.cwd(), "data");
+}
+
+function getProgramsFile(): string {
+  return path.join(getDataDir(), "programs.json");
+}
+
+/**
+ * Ensure data directory and programs file exist
+ */
+async function ensureDataFiles(): Promise<void> {
+  try {
+    const programsFile = getProgramsFile();
+    await fs.mkdir(getDataDir(), { recursive: true });
+
+    try {
+      await fs.access(programsFile);
+    } catch {
+      await fs.writeFile(programsFile, JSON.stringify([], null, 2));
+    }
+  } catch (error) {
+    console.error("Error initializing data files:", error);
+    throw error;
+  }
+}
+
+/**
+ * Read all programs from file
+ */
+async function readPrograms(): Promise<Program[]> {
+  await ensureDataFiles();
+  try {
+    const data = await fs.readFile(getProgramsFile(), "utf-8");
+    return JSON.parse(data);
+  } catch (error) {
+    console.error("Error reading programs:", error);
+    return [];
+  }
+}
+
+/**
+ * Write programs to file
+ */
+async function writePrograms(programs: Program[]): Promise<void> {
+  await ensureDataFiles();
+  await fs.writeFile(getProgramsFile(), JSON.stringify(programs, null, 2));
+}
+
+/**
+ * File-based program repository implementation
+ */
+export class FileProgramRepository implements IProgramRepository {
+  /**
+   * Get all programs
+   */
+  async findAll(): Promise<Program[]> {
+    return readPrograms();
+  }
+
+  /**
+   * Get program by ID
+   */
+  async findById(id: string): Promise<Program | null> {
+    const programs = await this.findAll();
+    return programs.find((p) => p.id === id) || null;
+  }
+
+  /**
+   * Create a new program
+   */
+  async create(
+    programData: Omit<Program, "id" | "createdAt" | "updatedAt">
+  ): Promise<Program> {
+    await ensureDataFiles();
+    const lock = new FileLock(getProgramsFile());
+    let release: (() => Promise<void>) | null = null;
+
+    try {
+      release = await lock.acquire();
+    } catch (error) {
+      throw new LockError(
+        `Could not acquire lock for program creation: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      );
+    }
+
+    try {
+      const programs = await readPrograms();
+      const now = new Date().toISOString();
+      const newProgram: Program = {
+        id: `program-${Date.now()}-${Math.random().toString(36).substring(2, 8)}`,
+        ...programData,
+        createdAt: now,
+        updatedAt: now,
+      };
+
+      programs.push(newProgram);
+      await writePrograms(programs);
+
+      return newProgram;
+    } finally {
+      if (release) {
+        await release();
+      }
+    }
+  }
+
+  /**
+   * Update an existing program
+   */
+  async update(
+    id: string,
+    updates: Partial<Omit<Program, "id" | "createdAt">>
+  ): Promise<Program> {
+    await ensureDataFiles();
+    const lock = new FileLock(getProgramsFile());
+    let release: (() => Promise<void>) | null = null;
+
+    try {
+      release = await lock.acquire();
+    } catch (error) {
+      throw new LockError(
+        `Could not acquire lock for program update: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      );
+    }
+
+    try {
+      const programs = await readPrograms();
+      const index = programs.findIndex((p) => p.id === id);
+
+      if (index === -1) {
+        throw new NotFoundError(`Program ${id}`);
+      }
+
+      const updatedProgram: Program = {
+        ...programs[index],
+        ...updates,
+        id,
+        updatedAt: new Date().toISOString(),
+      };
+      programs[index] = updatedProgram;
+      await writePrograms(programs);
+
+      return updatedProgram;
+    } finally {
+      if (release) {
+        await release();
+      }
+    }
+  }
+}
+
+// Export singleton instance
+export const programRepository: IProgramRepository = new FileProgramRepository();
@@ -11,28 +11,35 @@ import { IReservationRepository } from "./reservation-repository.interface";
 import { timeRangesOverlap } from "../utils/time-ranges";
 import { FileLock } from "../utils/file-lock";
 import { reservationCache } from "../cache/reservation-cache";
+import { closureRepository } from "./file-closure-repository";
+import { describeClosure, findBlockingClosure } from "../utils/court-closures";
+import { isActiveReservation, isRescheduled } from "../utils/reservation-status";
 import { ConflictError, NotFoundError, LockError } from "../errors/reservation-errors";
 
-const resolvedDataDir = process.env.DATA_DIR
-  ? path.isAbsolute(process.env.DATA_DIR)
-    ? process.env.DATA_DIR
-    : path.join(process.cwd(), process.env.DATA_DIR)
-  : path.join(process.cwd(), "data");
+function getDataDir(): string {
+  return process.env.DATA_DIR
+    ? path.isAbsolute(process.env.DATA_DIR)
+      ? process.env.DATA_DIR
+      : path.join(process.cwd(), process.env.DATA_DIR)
+    : path.join(process.cwd(), "data");
+}
 
-const DATA_DIR = resolvedDataDir;
-const RESERVATIONS_FILE = path.join(DATA_DIR, "reservations.json");
+function getReservationsFile(): string {
+  return path.join(getDataDir(), "reservations.json");
+}
 
 /**
  * Ensure data directory and files exist
  */
 async function ensureDataFiles(): Promise<void> {
   try {
-    await fs.mkdir(DATA_DIR, { recursive: true });
+    const reservationsFile = getReservationsFile();
+    await fs.mkdir(getDataDir(), { recursive: true });
 
     try {
-      await fs.access(RESERVATIONS_FILE);
+      await fs.access(reservationsFile);
     } catch {
-      await fs.writeFile(RESERVATIONS_FILE, JSON.stringify([], null, 2));
+      await fs.writeFile(reservationsFile, JSON.stringify([], null, 2));
     }
   } catch (error) {
     console.error("Error initializing data files:", error);
@@ -46,7 +53,7 @@ async function ensureDataFiles(): Promise<void> {
 async function readReservations(): Promise<Reservation[]> {
   await ensureDataFiles();
   try {
-    const data = await fs.readFile(RESERVATIONS_FILE, "utf-8");
+    const data = await fs.readFile(getReservationsFile(), "utf-8");
     return JSON.parse(data);
   } catch (error) {
     console.error("Error reading reservations:", error);
@@ -60,11 +67,59 @@ async function readReservations(): Promise<Reservation[]> {
 async function writeReservations(reservations: Reservation[]): Promise<void> {
   await ensureDataFiles();
   await fs.writeFile(
-    RESERVATIONS_FILE,
+    getReservationsFile(),
     JSON.stringify(reservations, null, 2)
   );
 }
 
+/**
+ * Throw if a court closure blocks the time range
+ */
+async function assertNotClosed(
+  courtId: string,
+  date: string,
+  start: string,
+  end: string
+): Promise<void> {
+  const closures = await closureRepository.findByDate(date);
+  const closure = findBlockingClosure(closures, courtId, date, start, end);
+  if (closure) {
+    throw new ConflictError(
+      `Court is closed for ${describeClosure(closure)}`
+    );
+  }
+}
+
+/**
+ * Throw if the coach on a lesson is already teaching (on any court) during the time range
+ */
+function assertCoachFree(
+  reservations: Reservation[],
+  coachId: string | undefined,
+  date: string,
+  start: string,
+  end: string,
+  excludeId?: string
+): void {
+  if (!coachId) {
+    return;
+  }
+
+  const lesson = reservations.find(
+    (r) =>
+      r.id !== excludeId &&
+      r.coachId === coachId &&
+      r.date === date &&
+      isActiveReservation(r) &&
+      timeRangesOverlap(start, end, r.timeSlot.start, r.timeSlot.end)
+  );
+  if (lesson) {
+    throw new ConflictError(
+      `Coach already has a lesson ${lesson.timeSlot.start}-${lesson.timeSlot.end}`
+    );
+  }
+}
+
 /**
  * File-based reservation repository implementation
  */
@@ -77,12 +132,12 @@ export class FileReservationRepository implements IReservationRepository {
   }
 
   /**
-   * Get reservations for a specific date
+   * Get reservations for a specific date (cancellations and no-shows excluded)
    */
   async findByDate(date: string): Promise<Reservation[]> {
     const reservations = await this.findAll();
     return reservations.filter(
-      (r) => r.date === date && r.status === "confirmed"
+      (r) => r.date === date && isActiveReservation(r)
     );
   }
 
@@ -101,7 +156,7 @@ export class FileReservationRepository implements IReservationRepository {
     reservationData: Omit<Reservation, "id" | "createdAt" | "status">
   ): Promise<Reservation> {
     // Acquire file lock to prevent race conditions
-    const lock = new FileLock(RESERVATIONS_FILE);
+    const lock = new FileLock(getReservationsFile());
     let release: (() => Promise<void>) | null = null;
 
     try {
@@ -122,7 +177,7 @@ export class FileReservationRepository implements IReservationRepository {
         (r) =>
           r.courtId === reservationData.courtId &&
           r.date === reservationData.date &&
-          r.status === "confirmed" &&
+          isActiveReservation(r) &&
           timeRangesOverlap(
             reservationData.timeSlot.start,
             reservationData.timeSlot.end,
@@ -137,8 +192,30 @@ export class FileReservationRepository implements IReservationRepository {
         );
       }
 
+      // Lessons book the coach too; both are checked under the same lock
+      assertCoachFree(
+        reservations,
+        reservationData.coachId,
+        reservationData.date,
+        reservationData.timeSlot.start,
+        reservationData.timeSlot.end
+      );
+
+      await assertNotClosed(
+        reservationData.courtId,
+        reservationData.date,
+        reservationData.timeSlot.start,
+        reservationData.timeSlot.end
+      );
+
+      // Timestamp IDs; bump past any taken in the same millisecond (series, bulk bookings)
+      let id = Date.now();
+      while (reservations.some((r) => r.id === id.toString())) {
+        id++;
+      }
+
       const newReservation: Reservation = {
-        id: Date.now().toString(),
+        id: id.toString(),
         ...reservationData,
         createdAt: new Date().toISOString(),
         status: "confirmed",
@@ -167,7 +244,7 @@ export class FileReservationRepository implements IReservationRepository {
     updates: Partial<Reservation>
   ): Promise<Reservation> {
     // Acquire file lock
-    const lock = new FileLock(RESERVATIONS_FILE);
+    const lock = new FileLock(getReservationsFile());
     let release: (() => Promise<void>) | null = null;
 
     try {
@@ -189,7 +266,14 @@ export class FileReservationRepository implements IReservationRepository {
       }
 
       const existingReservation = reservations[index];
-      const updatedReservation = { ...existingReservation, ...updates };
+      const updatedReservation: Reservation = {
+        ...existingReservation,
+        ...updates,
+        updatedAt: new Date().toISOString(),
+      };
+      if (isRescheduled(existingReservation, updatedReservation)) {
+        updatedReservation.sequence = (existingReservation.sequence || 0) + 1;
+      }
 
       // If time slot is being updated, check for conflicts
       if (updates.timeSlot || updates.courtId || updates.date) {
@@ -202,7 +286,7 @@ export class FileReservationRepository implements IReservationRepository {
             r.id !== id && // Exclude current reservation
             r.courtId === checkCourtId &&
             r.date === checkDate &&
-            r.status === "confirmed" &&
+            isActiveReservation(r) &&
             timeRangesOverlap(
               checkTimeSlot.start,
               checkTimeSlot.end,
@@ -216,6 +300,22 @@ export class FileReservationRepository implements IReservationRepository {
             `Updated time slot ${checkTimeSlot.start}-${checkTimeSlot.end} conflicts with existing reservation ${conflict.timeSlot.start}-${conflict.timeSlot.end}`
           );
         }
+
+        assertCoachFree(
+          reservations,
+          updatedReservation.coachId,
+          checkDate,
+          checkTimeSlot.start,
+          checkTimeSlot.end,
+          id
+        );
+
+        await assertNotClosed(
+          checkCourtId,
+          checkDate,
+          checkTimeSlot.start,
+          checkTimeSlot.end
+        );
       }
 
       reservations[index] = updatedReservation;
@@ -240,7 +340,7 @@ export class FileReservationRepository implements IReservationRepository {
    */
   async delete(id: string): Promise<boolean> {
     // Acquire file lock
-    const lock = new FileLock(RESERVATIONS_FILE);
+    const lock = new FileLock(getReservationsFile());
     let release: (() => Promise<void>) | null = null;
 
     try {
@@ -262,7 +362,11 @@ export class FileReservationRepository implements IReservationRepository {
       }
 
       const reservation = reservations[index];
-      reservations[index].status = "cancelled";
+      if (reservation.status !== "cancelled") {
+        reservation.sequence = (reservation.sequence || 0) + 1;
+      }
+      reservation.status = "cancelled";
+      reservation.updatedAt = new Date().toISOString();
       await writeReservations(reservations);
 
       // Invalidate cache for the reservation date
@@ -277,7 +381,7 @@ export class FileReservationRepository implements IReservationRepository {
   }
 
   /**
-   * Check if a time slot is available
+   * Check if a time slot is available (not reserved and not inside a closure)
    */
   async checkAvailability(
     courtId: string,
@@ -286,12 +390,17 @@ export class FileReservationRepository implements IReservationRepository {
     end: string,
     excludeReservationId?: string
   ): Promise<boolean> {
+    const closures = await closureRepository.findByDate(date);
+    if (findBlockingClosure(closures, courtId, date, start, end)) {
+      return false;
+    }
+
     const reservations = await this.findByDate(date);
 
     const conflictingReservation = reservations.find(
       (r) =>
         r.courtId === courtId &&
-        r.status === "confirmed" &&
+        isActiveReservation(r) &&
         (!excludeReservationId || r.id !== excludeReservationId) &&
         timeRangesOverlap(start, end, r.timeSlot.start, r.timeSlot.end)
     );
@@ -0,0 +1,167 @@
+/**
+ * File-based implementation of ISeriesRepository
+ *
+ * Uses JSON file storage with file locking for concurrency control
+ */
+
+import { promises as fs } from "fs";
+import path from "path";
+import { ReservationSeries } from "../../types/reservation";
+import { ISeriesRepository } from "./series-repository.interface";
+import { FileLock } from "../utils/file-lock";
+import { LockError } from "../errors/reservation-errors";
+
+function getDataDir(): string {
+  return process.env.DATA_DIR
+    ? path.isAbsolute(process.env.DATA_DIR)
+      ? process.env.DATA_DIR
+      : path.join(process.cwd(), process.env.DATA_DIR)
+    : path.join(process.cwd(), "data");
+}
+
+function getSeriesFile(): string {
+  return path.join(getDataDir(), "reservation-series.json");
+}
+
+/**
+ * Ensure data directory and series file exist
+ */
+async function ensureDataFiles(): Promise<void> {
+  try {
+    const seriesFile = getSeriesFile();
+    await fs.mkdir(getDataDir(), { recursive: true });
+
+    try {
+      await fs.access(seriesFile);
+    } catch {
+      await fs.writeFile(seriesFile, JSON.stringify([], null, 2));
+    }
+  } catch (error) {
+    console.error("Error initializing data files:", error);
+    throw error;
+  }
+}
+
+/**
+ * Read all series from file
+ */
+async function readSeries(): Promise<ReservationSeries[]> {
+  await ensureDataFiles();
+  try {
+    const data = await fs.readFile(getSeriesFile(), "utf-8");
+    return JSON.parse(data);
+  } catch (error) {
+    console.error("Error reading reservation series:", error);
+    return [];
+  }
+}
+
+/**
+ * Write series to file
+ */
+async function writeSeries(series: ReservationSeries[]): Promise<void> {
+  await ensureDataFiles();
+  await fs.writeFile(getSeriesFile(), JSON.stringify(series, null, 2));
+}
+
+/**
+ * File-based series repository implementation
+ */
+export class FileSeriesRepository implements ISeriesRepository {
+  /**
+   * Get all series
+   */
+  async findAll(): Promise<ReservationSeries[]> {
+    return readSeries();
+  }
+
+  /**
+   * Get series by ID
+   */
+  async findById(id: string): Promise<ReservationSeries | null> {
+    const series = await this.findAll();
+    return series.find((s) => s.id === id) || null;
+  }
+
+  /**
+   * Create a new series
+   */
+  async create(
+    seriesData: Omit<ReservationSeries, "id" | "createdAt">
+  ): Promise<ReservationSeries> {
+    await ensureDataFiles();
+    const lock = new FileLock(getSeriesFile());
+    let release: (() => Promise<void>) | null = null;
+
+    try {
+      release = await lock.acquire();
+    } catch (error) {
+      throw new LockError(
+        `Could not acquire lock for series creation: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      );
+    }
+
+    try {
+      const series = await readSeries();
+      const newSeries: ReservationSeries = {
+        id: `series-${Date.now()}-${Math.random().toString(36).substring(2, 8)}`,
+        ...seriesData,
+        createdAt: new Date().toISOString(),
+      };
+
+      series.push(newSeries);
+      await writeSeries(series);
+
+      return newSeries;
+    } finally {
+      if (release) {
+        await release();
+      }
+    }
+  }
+
+  /**
+   * Update an existing series
+   */
+  async update(
+    id: string,
+    updates: Partial<Omit<ReservationSeries, "id" | "createdAt">>
+  ): Promise<ReservationSeries | null> {
+    await ensureDataFiles();
+    const lock = new FileLock(getSeriesFile());
+    let release: (() => Promise<void>) | null = null;
+
+    try {
+      release = await lock.acquire();
+    } catch (error) {
+      throw new LockError(
+        `Could not acquire lock for series update: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      );
+    }
+
+    try {
+      const series = await readSeries();
+      const index = series.findIndex((s) => s.id === id);
+
+      if (index === -1) {
+        return null;
+      }
+
+      series[index] = { ...series[index], ...updates, id: series[index].id };
+      await writeSeries(series);
+
+      return series[index];
+    } finally {
+      if (release) {
+        await release();
+      }
+    }
+  }
+}
+
+// Export singleton instance
+export const seriesRepository: ISeriesRepository = new FileSeriesRepository();
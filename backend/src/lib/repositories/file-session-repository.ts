@@ -0,0 +1,205 @@
+/**
+ * File-based implementation of ISessionRepository
+ *
+ * Uses JSON file storage with file locking for concurrency control
+ */
+
+import { promises as fs } from "fs";
+import path from "path";
+import { AuthSession, SessionRevokeReason } from "../../types/auth";
+import { ISessionRepository } from "./session-repository.interface";
+import { FileLock } from "../utils/file-lock";
+import { LockError } from "../errors/reservation-errors";
+
+function getDataDir(): string {
+  return process.env.DATA_DIR
+    ? path.isAbsolute(process.env.DATA_DIR)
+      ? process.env.DATA_DIR
+      : path.join(process.cwd(), process.env.DATA_DIR)
+    : path.join(process.cwd(), "data");
+}
+
+function getSessionsFile(): string {
+  return path.join(getDataDir(), "sessions.json");
+}
+
+/**
+ * Ensure data directory and sessions file exist
+ */
+async function ensureDataFiles(): Promise<void> {
+  try {
+    const sessionsFile = getSessionsFile();
+    await fs.mkdir(getDataDir(), { recursive: true });
+
+    try {
+      await fs.access(sessionsFile);
+    } catch {
+      await fs.writeFile(sessionsFile, JSON.stringify([], null, 2));
+    }
+  } catch (error) {
+    console.error("Error initializing data files:", error);
+    throw error;
+  }
+}
+
+/**
+ * Read all sessions from file
+ */
+async function readSessions(): Promise<AuthSession[]> {
+  await ensureDataFiles();
+  try {
+    const data = await fs.readFile(getSessionsFile(), "utf-8");
+    return JSON.parse(data);
+  } catch (error) {
+    console.error("Error reading sessions:", error);
+    return [];
+  }
+}
+
+/**
+ * Write sessions to file
+ */
+async function writeSessions(sessions: AuthSession[]): Promise<void> {
+  await ensureDataFiles();
+  await fs.writeFile(getSessionsFile(), JSON.stringify(sessions, null, 2));
+}
+
+/**
+ * Run a read-modify-write cycle under the sessions file lock
+ */
+async function withSessionsLock<T>(action: string, fn: () => Promise<T>): Promise<T> {
+  await ensureDataFiles();
+  const lock = new FileLock(getSessionsFile());
+  let release: (() => Promise<void>) | null = null;
+
+  try {
+    release = await lock.acquire();
+  } catch (error) {
+    throw new LockError(
+      `Could not acquire lock for session ${action}: ${
+        error instanceof Error ? error.message : String(error)
+      }`
+    );
+  }
+
+  try {
+    return await fn();
+  } finally {
+    if (release) {
+      await release();
+    }
+  }
+}
+
+/**
+ * File-based session repository implementation
+ */
+export class FileSessionRepository implements ISessionRepository {
+  /**
+   * Get session by ID
+   */
+  async findById(id: string): Promise<AuthSession | null> {
+    const sessions = await readSessions();
+    return sessions.find((s) => s.id === id) || null;
+  }
+
+  /**
+   * Get a member's sessions, most recently used first
+   */
+  async findByMember(memberId: string): Promise<AuthSession[]> {
+    const sessions = await readSessions();
+    return sessions
+      .filter((s) => s.memberId === memberId)
+      .sort((a, b) => b.lastUsedAt.localeCompare(a.lastUsedAt));
+  }
+
+  /**
+   * Create a new session
+   */
+  async create(sessionData: Omit<AuthSession, "id" | "createdAt">): Promise<AuthSession> {
+    return withSessionsLock("creation", async () => {
+      const sessions = await readSessions();
+      const newSession: AuthSession = {
+        id: `session-${Date.now()}-${Math.random().toString(36).substring(2, 10)}`,
+        ...sessionData,
+        createdAt: new Date().toISOString(),
+      };
+
+      sessions.push(newSession);
+      await writeSessions(sessions);
+
+      return newSession;
+    });
+  }
+
+  /**
+   * Update an existing session
+   */
+  async update(
+    id: string,
+    updates: Partial<Omit<AuthSession, "id" | "createdAt">>
+  ): Promise<AuthSession | null> {
+    return withSessionsLock("update", async () => {
+      const sessions = await readSessions();
+      const index = sessions.findIndex((s) => s.id === id);
+
+      if (index === -1) {
+        return null;
+      }
+
+      sessions[index] = { ...sessions[index], ...updates, id: sessions[index].id };
+      await writeSessions(sessions);
+
+      return sessions[index];
+    });
+  }
+
+  /**
+   * Revoke every active session of a member
+   */
+  async revokeByMember(
+    memberId: string,
+    reason: SessionRevokeReason,
+    exceptId?: string
+  ): Promise<number> {
+    return withSessionsLock("revocation", async () => {
+      const sessions = await readSessions();
+      const now = new Date().toISOString();
+      let revoked = 0;
+
+      for (const session of sessions) {
+        if (session.memberId === memberId && session.id !== exceptId && !session.revokedAt) {
+          session.revokedAt = now;
+          session.revokedReason = reason;
+          revoked++;
+        }
+      }
+
+      if (revoked > 0) {
+        await writeSessions(sessions);
+      }
+      return revoked;
+    });
+  }
+
+  /**
+   * Remove sessions that expired or were revoked before the cutoff
+   */
+  async deleteInactive(before: Date): Promise<number> {
+    return withSessionsLock("cleanup", async () => {
+      const sessions = await readSessions();
+      const cutoff = before.toISOString();
+      const kept = sessions.filter(
+        (s) => s.expiresAt >= cutoff && (!s.revokedAt || s.revokedAt >= cutoff)
+      );
+
+      if (kept.length !== sessions.length) {
+        await writeSessions(kept);
+      }
+      return sessions.length - kept.length;
+    });
+  }
+}
+
+// Export singleton instance
+export const sessionRepository: ISessionRepository = new FileSessionRepository();
@@ -0,0 +1,176 @@
+/**
+ * File-based implementation of ISubscriptionRepository
+ *
+ * Uses JSON file storage with file locking for concurrency control
+ */
+
+import { promises as fs } from "fs";
+import path from "path";
+import { Subscription } from "../../types/membership";
+import { ISubscriptionRepository } from "./subscription-repository.interface";
+import { FileLock } from "../utils/file-lock";
+import { PaymentProcessingError } from "../errors/payment-errors";
+
+function getDataDir(): string {
+  return process.env.DATA_DIR
+    ? path.isAbsolute(process.env.DATA_DIR)
+      ? process.env.DATA_DIR
+      : path.join(process.cwd(), process.env.DATA_DIR)
+    : path.join(process.cwd(), "data");
+}
+
+function getSubscriptionsFile(): string {
+  return path.join(getDataDir(), "subscriptions.json");
+}
+
+/**
+ * Ensure data directory and subscriptions file exist
+ */
+async function ensureDataFiles(): Promise<void> {
+  try {
+    const subscriptionsFile = getSubscriptionsFile();
+    await fs.mkdir(getDataDir(), { recursive: true });
+
+    try {
+      await fs.access(subscriptionsFile);
+    } catch {
+      await fs.writeFile(subscriptionsFile, JSON.stringify([], null, 2));
+    }
+  } catch (error) {
+    console.error("Error initializing data files:", error);
+    throw error;
+  }
+}
+
+/**
+ * Read all subscriptions from file
+ */
+async function readSubscriptions(): Promise<Subscription[]> {
+  await ensureDataFiles();
+  try {
+    const data = await fs.readFile(getSubscriptionsFile(), "utf-8");
+    return JSON.parse(data);
+  } catch (error) {
+    console.error("Error reading subscriptions:", error);
+    return [];
+  }
+}
+
+/**
+ * Write subscriptions to file
+ */
+async function writeSubscriptions(subscriptions: Subscription[]): Promise<void> {
+  await ensureDataFiles();
+  await fs.writeFile(getSubscriptionsFile(), JSON.stringify(subscriptions, null, 2));
+}
+
+/**
+ * Run a read-modify-write cycle under the subscriptions file lock
+ */
+async function withSubscriptionsLock<T>(action: string, fn: () => Promise<T>): Promise<T> {
+  await ensureDataFiles();
+  const lock = new FileLock(getSubscriptionsFile());
+  let release: (() => Promise<void>) | null = null;
+
+  try {
+    release = await lock.acquire();
+  } catch (error) {
+    throw new PaymentProcessingError(
+      `Could not acquire lock for subscription ${action}: ${
+        error instanceof Error ? error.message : String(error)
+      }`
+    );
+  }
+
+  try {
+    return await fn();
+  } finally {
+    if (release) {
+      await release();
+    }
+  }
+}
+
+/**
+ * File-based subscription repository implementation
+ */
+export class FileSubscriptionRepository implements ISubscriptionRepository {
+  /**
+   * Get subscription by ID
+   */
+  async findById(id: string): Promise<Subscription | null> {
+    const subscriptions = await readSubscriptions();
+    return subscriptions.find((s) => s.id === id) || null;
+  }
+
+  /**
+   * Get subscription by Stripe subscription ID
+   */
+  async findByStripeSubscriptionId(stripeSubscriptionId: string): Promise<Subscription | null> {
+    const subscriptions = await readSubscriptions();
+    return subscriptions.find((s) => s.stripeSubscriptionId === stripeSubscriptionId) || null;
+  }
+
+  /**
+   * Get a member's subscriptions, newest first
+   */
+  async findByMember(memberId: string): Promise<Subscription[]> {
+    const subscriptions = await readSubscriptions();
+    return subscriptions
+      .filter((s) => s.memberId === memberId)
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  /**
+   * Create a new subscription
+   */
+  async create(
+    subscriptionData: Omit<Subscription, "id" | "createdAt" | "lastModified">
+  ): Promise<Subscription> {
+    return withSubscriptionsLock("creation", async () => {
+      const subscriptions = await readSubscriptions();
+      const timestamp = new Date().toISOString();
+      const newSubscription: Subscription = {
+        id: `subscription-${Date.now()}-${Math.random().toString(36).substring(2, 10)}`,
+        ...subscriptionData,
+        createdAt: timestamp,
+        lastModified: timestamp,
+      };
+
+      subscriptions.push(newSubscription);
+      await writeSubscriptions(subscriptions);
+
+      return newSubscription;
+    });
+  }
+
+  /**
+   * Update an existing subscription
+   */
+  async update(
+    id: string,
+    updates: Partial<Omit<Subscription, "id" | "createdAt">>
+  ): Promise<Subscription | null> {
+    return withSubscriptionsLock("update", async () => {
+      const subscriptions = await readSubscriptions();
+      const index = subscriptions.findIndex((s) => s.id === id);
+
+      if (index === -1) {
+        return null;
+      }
+
+      subscriptions[index] = {
+        ...subscriptions[index],
+        ...updates,
+        id: subscriptions[index].id,
+        lastModified: new Date().toISOString(),
+      };
+      await writeSubscriptions(subscriptions);
+
+      return subscriptions[index];
+    });
+  }
+}
+
+// Export singleton instance
+export const subscriptionRepository: ISubscriptionRepository = new FileSubscriptionRepository();
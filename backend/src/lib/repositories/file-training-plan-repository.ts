@@ -7,23 +7,28 @@ import path from "path";
 import { TrainingPlan } from "../../types/training-plan";
 import { FileLock } from "../utils/file-lock";
 
-const DATA_DIR = process.env.DATA_DIR
-  ? path.isAbsolute(process.env.DATA_DIR)
-    ? process.env.DATA_DIR
-    : path.join(process.cwd(), process.env.DATA_DIR)
-  : path.join(process.cwd(), "data");
-const TRAINING_PLANS_FILE = path.join(DATA_DIR, "training-plans.json");
+function getDataDir(): string {
+  return process.env.DATA_DIR
+    ? path.isAbsolute(process.env.DATA_DIR)
+      ? process.env.DATA_DIR
+      : path.join(process.cwd(), process.env.DATA_DIR)
+    : path.join(process.cwd(), "data");
+}
+
+function getTrainingPlansFile(): string {
+  return path.join(getDataDir(), "training-plans.json");
+}
 
 /**
  * Ensure data directory and file exist
  */
 async function ensureDataFile(): Promise<void> {
   try {
-    await fs.mkdir(DATA_DIR, { recursive: true });
+    await fs.mkdir(getDataDir(), { recursive: true });
     try {
-      await fs.access(TRAINING_PLANS_FILE);
+      await fs.access(getTrainingPlansFile());
     } catch {
-      await fs.writeFile(TRAINING_PLANS_FILE, JSON.stringify([], null, 2));
+      await fs.writeFile(getTrainingPlansFile(), JSON.stringify([], null, 2));
     }
   } catch (error) {
     console.error("Error ensuring training plans data file:", error);
@@ -36,7 +41,7 @@ async function ensureDataFile(): Promise<void> {
  */
 async function readTrainingPlans(): Promise<TrainingPlan[]> {
   await ensureDataFile();
-  const data = await fs.readFile(TRAINING_PLANS_FILE, "utf-8");
+  const data = await fs.readFile(getTrainingPlansFile(), "utf-8");
   return JSON.parse(data);
 }
 
@@ -44,14 +49,14 @@ async function readTrainingPlans(): Promise<TrainingPlan[]> {
  * Write training plans to file
  */
 async function writeTrainingPlans(plans: TrainingPlan[]): Promise<void> {
-  await fs.writeFile(TRAINING_PLANS_FILE, JSON.stringify(plans, null, 2));
+  await fs.writeFile(getTrainingPlansFile(), JSON.stringify(plans, null, 2));
 }
 
 /**
  * Get all training plans for a player
  */
 export async function getPlayerTrainingPlans(playerId: string): Promise<TrainingPlan[]> {
-  const lock = new FileLock(TRAINING_PLANS_FILE);
+  const lock = new FileLock(getTrainingPlansFile());
   const release = await lock.acquire();
   try {
     const plans = await readTrainingPlans();
@@ -74,7 +79,7 @@ export async function getLatestTrainingPlan(playerId: string): Promise<TrainingP
  * Get training plan by ID
  */
 export async function getTrainingPlanById(id: string): Promise<TrainingPlan | null> {
-  const lock = new FileLock(TRAINING_PLANS_FILE);
+  const lock = new FileLock(getTrainingPlansFile());
   const release = await lock.acquire();
   try {
     const plans = await readTrainingPlans();
@@ -90,7 +95,7 @@ export async function getTrainingPlanById(id: string): Promise<TrainingPlan | nu
 export async function createTrainingPlan(
   planData: Omit<TrainingPlan, "id" | "createdAt" | "lastModified" | "version" | "sessionCount" | "lastReviewDate">
 ): Promise<TrainingPlan> {
-  const lock = new FileLock(TRAINING_PLANS_FILE);
+  const lock = new FileLock(getTrainingPlansFile());
   const release = await lock.acquire();
   try {
     const plans = await readTrainingPlans();
@@ -122,7 +127,7 @@ export async function updateTrainingPlan(
   id: string,
   updates: Partial<Omit<TrainingPlan, "id" | "playerId" | "createdAt" | "createdBy">>
 ): Promise<TrainingPlan> {
-  const lock = new FileLock(TRAINING_PLANS_FILE);
+  const lock = new FileLock(getTrainingPlansFile());
   const release = await lock.acquire();
   try {
     const plans = await readTrainingPlans();
@@ -152,7 +157,7 @@ export async function updateTrainingPlan(
  * Delete a training plan
  */
 export async function deleteTrainingPlan(id: string): Promise<boolean> {
-  const lock = new FileLock(TRAINING_PLANS_FILE);
+  const lock = new FileLock(getTrainingPlansFile());
   const release = await lock.acquire();
   try {
     const plans = await readTrainingPlans();
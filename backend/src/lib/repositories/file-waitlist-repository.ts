@@ -0,0 +1,194 @@
+/**
+ * File-based implementation of IWaitlistRepository
+ *
+ * Uses JSON file storage with file locking for concurrency control
+ */
+
+import { promises as fs } from "fs";
+import path from "path";
+import { WaitlistEntry } from "../../types/reservation";
+import { IWaitlistRepository } from "./waitlist-repository.interface";
+import { FileLock } from "../utils/file-lock";
+import { reservationCache } from "../cache/reservation-cache";
+import { LockError } from "../errors/reservation-errors";
+
+function getDataDir(): string {
+  return process.env.DATA_DIR
+    ? path.isAbsolute(process.env.DATA_DIR)
+      ? process.env.DATA_DIR
+      : path.join(process.cwd(), process.env.DATA_DIR)
+    : path.join(process.cwd(), "data");
+}
+
+function getWaitlistFile(): string {
+  return path.join(getDataDir(), "waitlist.json");
+}
+
+/**
+ * Ensure data directory and waitlist file exist
+ */
+async function ensureDataFiles(): Promise<void> {
+  try {
+    const waitlistFile = getWaitlistFile();
+    await fs.mkdir(getDataDir(), { recursive: true });
+
+    try {
+      await fs.access(waitlistFile);
+    } catch {
+      await fs.writeFile(waitlistFile, JSON.stringify([], null, 2));
+    }
+  } catch (error) {
+    console.error("Error initializing data files:", error);
+    throw error;
+  }
+}
+
+/**
+ * Read all waitlist entries from file
+ */
+async function readWaitlist(): Promise<WaitlistEntry[]> {
+  await ensureDataFiles();
+  try {
+    const data = await fs.readFile(getWaitlistFile(), "utf-8");
+    return JSON.parse(data);
+  } catch (error) {
+    console.error("Error reading waitlist:", error);
+    return [];
+  }
+}
+
+/**
+ * Write waitlist entries to file
+ */
+async function writeWaitlist(entries: WaitlistEntry[]): Promise<void> {
+  await ensureDataFiles();
+  await fs.writeFile(getWaitlistFile(), JSON.stringify(entries, null, 2));
+}
+
+/**
+ * File-based waitlist repository implementation
+ */
+export class FileWaitlistRepository implements IWaitlistRepository {
+  /**
+   * Get all entries, oldest first
+   */
+  async findAll(): Promise<WaitlistEntry[]> {
+    const entries = await readWaitlist();
+    return entries.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  }
+
+  /**
+   * Get entries for a date
+   */
+  async findByDate(date: string): Promise<WaitlistEntry[]> {
+    const entries = await this.findAll();
+    return entries.filter((e) => e.date === date);
+  }
+
+  /**
+   * Get entries for a member
+   */
+  async findByMember(memberId: string): Promise<WaitlistEntry[]> {
+    const entries = await this.findAll();
+    return entries.filter((e) => e.memberId === memberId);
+  }
+
+  /**
+   * Get entry by ID
+   */
+  async findById(id: string): Promise<WaitlistEntry | null> {
+    const entries = await readWaitlist();
+    return entries.find((e) => e.id === id) || null;
+  }
+
+  /**
+   * Create a new entry
+   */
+  async create(
+    entryData: Omit<WaitlistEntry, "id" | "createdAt" | "updatedAt">
+  ): Promise<WaitlistEntry> {
+    await ensureDataFiles();
+    const lock = new FileLock(getWaitlistFile());
+    let release: (() => Promise<void>) | null = null;
+
+    try {
+      release = await lock.acquire();
+    } catch (error) {
+      throw new LockError(
+        `Could not acquire lock for waitlist creation: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      );
+    }
+
+    try {
+      const entries = await readWaitlist();
+      const now = new Date().toISOString();
+      const newEntry: WaitlistEntry = {
+        id: `waitlist-${Date.now()}-${Math.random().toString(36).substring(2, 8)}`,
+        ...entryData,
+        createdAt: now,
+        updatedAt: now,
+      };
+
+      entries.push(newEntry);
+      await writeWaitlist(entries);
+
+      return newEntry;
+    } finally {
+      if (release) {
+        await release();
+      }
+    }
+  }
+
+  /**
+   * Update an existing entry
+   * Availability for the entry's date is invalidated since holds block slots.
+   */
+  async update(
+    id: string,
+    updates: Partial<Omit<WaitlistEntry, "id" | "createdAt">>
+  ): Promise<WaitlistEntry | null> {
+    await ensureDataFiles();
+    const lock = new FileLock(getWaitlistFile());
+    let release: (() => Promise<void>) | null = null;
+
+    try {
+      release = await lock.acquire();
+    } catch (error) {
+      throw new LockError(
+        `Could not acquire lock for waitlist update: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      );
+    }
+
+    try {
+      const entries = await readWaitlist();
+      const index = entries.findIndex((e) => e.id === id);
+
+      if (index === -1) {
+        return null;
+      }
+
+      entries[index] = {
+        ...entries[index],
+        ...updates,
+        id: entries[index].id,
+        updatedAt: new Date().toISOString(),
+      };
+      await writeWaitlist(entries);
+      reservationCache.invalidate(`availability:${entries[index].date}`);
+
+      return entries[index];
+    } finally {
+      if (release) {
+        await release();
+      }
+    }
+  }
+}
+
+// Export singleton instance
+export const waitlistRepository: IWaitlistRepository = new FileWaitlistRepository();
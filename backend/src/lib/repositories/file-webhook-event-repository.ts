@@ -0,0 +1,116 @@
+/**
+ * File-based implementation of IWebhookEventRepository
+ *
+ * Uses JSON file storage with file locking for concurrency control
+ */
+
+import { promises as fs } from "fs";
+import path from "path";
+import { ProcessedWebhookEvent } from "../../types/payment";
+import { IWebhookEventRepository } from "./webhook-event-repository.interface";
+import { FileLock } from "../utils/file-lock";
+import { LockError } from "../errors/reservation-errors";
+
+function getDataDir(): string {
+  return process.env.DATA_DIR
+    ? path.isAbsolute(process.env.DATA_DIR)
+      ? process.env.DATA_DIR
+      : path.join(process.cwd(), process.env.DATA_DIR)
+    : path.join(process.cwd(), "data");
+}
+
+function getWebhookEventsFile(): string {
+  return path.join(getDataDir(), "webhook-events.json");
+}
+
+/**
+ * Ensure data directory and webhook events file exist
+ */
+async function ensureDataFiles(): Promise<void> {
+  try {
+    const eventsFile = getWebhookEventsFile();
+    await fs.mkdir(getDataDir(), { recursive: true });
+
+    try {
+      await fs.access(eventsFile);
+    } catch {
+      await fs.writeFile(eventsFile, JSON.stringify([], null, 2));
+    }
+  } catch (error) {
+    console.error("Error initializing data files:", error);
+    throw error;
+  }
+}
+
+/**
+ * Read all processed events from file
+ */
+async function readEvents(): Promise<ProcessedWebhookEvent[]> {
+  await ensureDataFiles();
+  try {
+    const data = await fs.readFile(getWebhookEventsFile(), "utf-8");
+    return JSON.parse(data);
+  } catch (error) {
+    console.error("Error reading webhook events:", error);
+    return [];
+  }
+}
+
+/**
+ * Write processed events to file
+ */
+async function writeEvents(events: ProcessedWebhookEvent[]): Promise<void> {
+  await ensureDataFiles();
+  await fs.writeFile(getWebhookEventsFile(), JSON.stringify(events, null, 2));
+}
+
+/**
+ * File-based webhook event repository implementation
+ */
+export class FileWebhookEventRepository implements IWebhookEventRepository {
+  /**
+   * Get a processed event by ID
+   */
+  async findById(id: string): Promise<ProcessedWebhookEvent | null> {
+    const events = await readEvents();
+    return events.find((e) => e.id === id) || null;
+  }
+
+  /**
+   * Record an event as processed (no-op if already recorded)
+   */
+  async create(event: Omit<ProcessedWebhookEvent, "processedAt">): Promise<boolean> {
+    await ensureDataFiles();
+    const lock = new FileLock(getWebhookEventsFile());
+    let release: (() => Promise<void>) | null = null;
+
+    try {
+      release = await lock.acquire();
+    } catch (error) {
+      throw new LockError(
+        `Could not acquire lock for webhook event: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      );
+    }
+
+    try {
+      const events = await readEvents();
+      if (events.some((e) => e.id === event.id)) {
+        return false;
+      }
+
+      events.push({ ...event, processedAt: new Date().toISOString() });
+      await writeEvents(events);
+
+      return true;
+    } finally {
+      if (release) {
+        await release();
+      }
+    }
+  }
+}
+
+// Export singleton instance
+export const webhookEventRepository: IWebhookEventRepository = new FileWebhookEventRepository();
@@ -0,0 +1,43 @@
+/**
+ * Repository interface for guardian invitation data access
+ *
+ * This abstraction allows us to swap storage implementations
+ * (file-based, database, etc.) without changing business logic
+ */
+
+import { GuardianInvite } from "../../types/member";
+
+export interface IGuardianInviteRepository {
+  /**
+   * Get invitation by ID
+   * @param id Invitation ID
+   * @returns Invitation or null if not found
+   */
+  findById(id: string): Promise<GuardianInvite | null>;
+
+  /**
+   * Get invitations sent by or to a member, newest first
+   * @param memberId Parent or player member ID
+   */
+  findByMember(memberId: string): Promise<GuardianInvite[]>;
+
+  /**
+   * Create a new invitation
+   * @param invite Invitation data (without id, createdAt)
+   * @returns Created invitation
+   * @throws MemberLockError if lock cannot be acquired
+   */
+  create(invite: Omit<GuardianInvite, "id" | "createdAt">): Promise<GuardianInvite>;
+
+  /**
+   * Update an existing invitation
+   * @param id Invitation ID
+   * @param updates Partial invitation data
+   * @returns Updated invitation or null if not found
+   * @throws MemberLockError if lock cannot be acquired
+   */
+  update(
+    id: string,
+    updates: Partial<Omit<GuardianInvite, "id" | "createdAt">>
+  ): Promise<GuardianInvite | null>;
+}
@@ -0,0 +1,57 @@
+/**
+ * Repository selection
+ *
+ * STORAGE_DRIVER selects where reservations, members, payments and journal
+ * entries are kept:
+ * - "file" (default): JSON files in DATA_DIR
+ * - "sqlite": a SQLite database at SQLITE_PATH (default DATA_DIR/providence.db)
+ *
+ * Everything else (courts, closures, sessions, ...) stays in JSON files.
+ * The driver is read once, when this module is first imported.
+ */
+
+import { StorageConfigError } from "../errors/storage-errors";
+import { IReservationRepository } from "./reservation-repository.interface";
+import { IMemberRepository } from "./member-repository.interface";
+import { IPaymentRepository } from "./payment-repository.interface";
+import { IJournalRepository } from "./journal-repository.interface";
+import { reservationRepository as fileReservationRepository } from "./file-reservation-repository";
+import { memberRepository as fileMemberRepository } from "./file-member-repository";
+import { paymentRepository as filePaymentRepository } from "./file-payment-repository";
+import { journalRepository as fileJournalRepository } from "./file-journal-repository";
+import { SqliteReservationRepository } from "./sqlite-reservation-repository";
+import { SqliteMemberRepository } from "./sqlite-member-repository";
+import { SqlitePaymentRepository } from "./sqlite-payment-repository";
+import { SqliteJournalRepository } from "./sqlite-journal-repository";
+
+export type StorageDriver = "file" | "sqlite";
+
+/**
+ * Get the configured storage driver
+ * @throws StorageConfigError if STORAGE_DRIVER is not a known driver
+ */
+export function getStorageDriver(): StorageDriver {
+  const driver = (process.env.STORAGE_DRIVER || "file").toLowerCase();
+  if (driver !== "file" && driver !== "sqlite") {
+    throw new StorageConfigError(`Unknown STORAGE_DRIVER "${driver}". Use file or sqlite.`);
+  }
+  return driver;
+}
+
+const useSqlite = getStorageDriver() === "sqlite";
+
+export const reservationRepository: IReservationRepository = useSqlite
+  ? new SqliteReservationRepository()
+  : fileReservationRepository;
+
+export const memberRepository: IMemberRepository = useSqlite
+  ? new SqliteMemberRepository()
+  : fileMemberRepository;
+
+export const paymentRepository: IPaymentRepository = useSqlite
+  ? new SqlitePaymentRepository()
+  : filePaymentRepository;
+
+export const journalRepository: IJournalRepository = useSqlite
+  ? new SqliteJournalRepository()
+  : fileJournalRepository;
@@ -0,0 +1,43 @@
+/**
+ * Repository interface for lesson type data access
+ *
+ * This abstraction allows us to swap storage implementations
+ * (file-based, database, etc.) without changing business logic
+ */
+
+import { LessonType } from "../../types/lesson";
+
+export interface ILessonTypeRepository {
+  /**
+   * Get all lesson types
+   * @returns Saved lesson types, or the defaults if none have been saved
+   */
+  findAll(): Promise<LessonType[]>;
+
+  /**
+   * Get lesson type by ID
+   * @param id Lesson type ID
+   * @returns Lesson type or null if not found
+   */
+  findById(id: string): Promise<LessonType | null>;
+
+  /**
+   * Create a new lesson type
+   * @param lessonType Lesson type data (without id, timestamps)
+   * @returns Created lesson type with generated id and timestamp
+   * @throws LockError if lock cannot be acquired
+   */
+  create(
+    lessonType: Omit<LessonType, "id" | "createdAt" | "updatedAt">
+  ): Promise<LessonType>;
+
+  /**
+   * Update an existing lesson type
+   * @param id Lesson type ID
+   * @param updates Fields to change
+   * @returns Updated lesson type
+   * @throws NotFoundError if the lesson type doesn't exist
+   * @throws LockError if lock cannot be acquired
+   */
+  update(id: string, updates: Partial<LessonType>): Promise<LessonType>;
+}
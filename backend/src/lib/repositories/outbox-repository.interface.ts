@@ -0,0 +1,51 @@
+/**
+ * Repository interface for email outbox data access
+ *
+ * This abstraction allows us to swap storage implementations
+ * (file-based, database, etc.) without changing business logic
+ */
+
+import { OutboxMessage, OutboxStatus } from "../../types/email";
+
+export interface IOutboxRepository {
+  /**
+   * Get outbox messages, newest first
+   * @param status Optional delivery status filter
+   * @returns Array of messages
+   */
+  findAll(status?: OutboxStatus): Promise<OutboxMessage[]>;
+
+  /**
+   * Get message by ID
+   * @param id Message ID
+   * @returns Message or null if not found
+   */
+  findById(id: string): Promise<OutboxMessage | null>;
+
+  /**
+   * Get pending messages whose next attempt is due, oldest first
+   * @param now Current time
+   * @returns Array of due messages
+   */
+  findDue(now: Date): Promise<OutboxMessage[]>;
+
+  /**
+   * Add a message to the outbox
+   * @param message Message data (without id, createdAt, updatedAt)
+   * @returns Created message with generated id and timestamps
+   * @throws LockError if lock cannot be acquired
+   */
+  create(message: Omit<OutboxMessage, "id" | "createdAt" | "updatedAt">): Promise<OutboxMessage>;
+
+  /**
+   * Update an existing message
+   * @param id Message ID
+   * @param updates Partial message data to update
+   * @returns Updated message or null if not found
+   * @throws LockError if lock cannot be acquired
+   */
+  update(
+    id: string,
+    updates: Partial<Omit<OutboxMessage, "id" | "createdAt">>
+  ): Promise<OutboxMessage | null>;
+}
@@ -0,0 +1,47 @@
+/**
+ * Repository interface for member penalty data access
+ *
+ * This abstraction allows us to swap storage implementations
+ * (file-based, database, etc.) without changing business logic
+ */
+
+import { Penalty } from "../../types/penalty";
+
+export interface IPenaltyRepository {
+  /**
+   * Get penalty by ID
+   * @param id Penalty ID
+   * @returns Penalty or null if not found
+   */
+  findById(id: string): Promise<Penalty | null>;
+
+  /**
+   * Get a member's penalties, newest first
+   * @param memberId Member ID
+   */
+  findByMember(memberId: string): Promise<Penalty[]>;
+
+  /**
+   * Get the penalty charged for a reservation
+   * @param reservationId Reservation ID
+   * @returns Penalty or null if the reservation wasn't penalized
+   */
+  findByReservation(reservationId: string): Promise<Penalty | null>;
+
+  /**
+   * Create a new penalty
+   * @param penalty Penalty data (without id, createdAt)
+   * @returns Created penalty
+   * @throws LockError if lock cannot be acquired
+   */
+  create(penalty: Omit<Penalty, "id" | "createdAt">): Promise<Penalty>;
+
+  /**
+   * Update an existing penalty
+   * @param id Penalty ID
+   * @param updates Partial penalty data
+   * @returns Updated penalty or null if not found
+   * @throws LockError if lock cannot be acquired
+   */
+  update(id: string, updates: Partial<Omit<Penalty, "id" | "createdAt">>): Promise<Penalty | null>;
+}
@@ -0,0 +1,74 @@
+/**
+ * Repository interface for program enrollment data access
+ *
+ * This abstraction allows us to swap storage implementations
+ * (file-based, database, etc.) without changing business logic
+ */
+
+import { ProgramEnrollment } from "../../types/program";
+
+export interface IProgramEnrollmentRepository {
+  /**
+   * Get all enrollments, oldest first
+   * @returns Array of all enrollments
+   */
+  findAll(): Promise<ProgramEnrollment[]>;
+
+  /**
+   * Get enrollments for a program, oldest first
+   * @param programId Program ID
+   * @returns Array of the program's enrollments
+   */
+  findByProgram(programId: string): Promise<ProgramEnrollment[]>;
+
+  /**
+   * Get enrollments for a member, oldest first
+   * @param memberId Member ID
+   * @returns Array of the member's enrollments
+   */
+  findByMember(memberId: string): Promise<ProgramEnrollment[]>;
+
+  /**
+   * Get enrollment by ID
+   * @param id Enrollment ID
+   * @returns Enrollment or null if not found
+   */
+  findById(id: string): Promise<ProgramEnrollment | null>;
+
+  /**
+   * Sign a member up for a program
+   * Takes a seat if fewer than `capacity` players are enrolled, otherwise
+   * joins the waitlist. Seats are counted under the lock, so two sign-ups
+   * can't take the last seat.
+   * @param enrollment Enrollment data (without id, status, timestamps)
+   * @param capacity Program capacity
+   * @returns Created enrollment, enrolled or waitlisted
+   * @throws ConflictError if the member is already enrolled or waitlisted
+   * @throws LockError if lock cannot be acquired
+   */
+  enroll(
+    enrollment: Omit<ProgramEnrollment, "id" | "status" | "enrolledAt" | "createdAt" | "updatedAt">,
+    capacity: number
+  ): Promise<ProgramEnrollment>;
+
+  /**
+   * Move waitlisted members into free seats, first come first served
+   * @param programId Program ID
+   * @param capacity Program capacity
+   * @returns Enrollments that got a seat
+   * @throws LockError if lock cannot be acquired
+   */
+  promoteWaitlisted(programId: string, capacity: number): Promise<ProgramEnrollment[]>;
+
+  /**
+   * Update an existing enrollment
+   * @param id Enrollment ID
+   * @param updates Partial enrollment data to update
+   * @returns Updated enrollment or null if not found
+   * @throws LockError if lock cannot be acquired
+   */
+  update(
+    id: string,
+    updates: Partial<Omit<ProgramEnrollment, "id" | "createdAt">>
+  ): Promise<ProgramEnrollment | null>;
+}
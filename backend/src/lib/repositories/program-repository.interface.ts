@@ -0,0 +1,41 @@
+/**
+ * Repository interface for program data access
+ *
+ * This abstraction allows us to swap storage implementations
+ * (file-based, database, etc.) without changing business logic
+ */
+
+import { Program } from "../../types/program";
+
+export interface IProgramRepository {
+  /**
+   * Get all programs
+   * @returns Array of all programs
+   */
+  findAll(): Promise<Program[]>;
+
+  /**
+   * Get program by ID
+   * @param id Program ID
+   * @returns Program or null if not found
+   */
+  findById(id: string): Promise<Program | null>;
+
+  /**
+   * Create a new program
+   * @param program Program data (without id, timestamps)
+   * @returns Created program with generated id and timestamps
+   * @throws LockError if lock cannot be acquired
+   */
+  create(program: Omit<Program, "id" | "createdAt" | "updatedAt">): Promise<Program>;
+
+  /**
+   * Update an existing program
+   * @param id Program ID
+   * @param updates Fields to change
+   * @returns Updated program
+   * @throws NotFoundError if the program doesn't exist
+   * @throws LockError if lock cannot be acquired
+   */
+  update(id: string, updates: Partial<Omit<Program, "id" | "createdAt">>): Promise<Program>;
+}
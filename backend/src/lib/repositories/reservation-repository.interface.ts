@@ -17,7 +17,7 @@ export interface IReservationRepository {
   /**
    * Get reservations for a specific date
    * @param date Date in YYYY-MM-DD format
-   * @returns Array of reservations for the date
+   * @returns Reservations still holding a court (not cancelled or no-shows)
    */
   findByDate(date: string): Promise<Reservation[]>;
 
@@ -32,7 +32,7 @@ export interface IReservationRepository {
    * Create a new reservation
    * @param reservation Reservation data (without id, createdAt, status)
    * @returns Created reservation with generated id and timestamps
-   * @throws ConflictError if time slot conflicts with existing reservation
+   * @throws ConflictError if time slot conflicts with an existing reservation or court closure
    * @throws LockError if lock cannot be acquired
    */
   create(
@@ -45,7 +45,7 @@ export interface IReservationRepository {
    * @param updates Partial reservation data to update
    * @returns Updated reservation
    * @throws NotFoundError if reservation not found
-   * @throws ConflictError if updated time slot conflicts
+   * @throws ConflictError if updated time slot conflicts with a reservation or court closure
    * @throws LockError if lock cannot be acquired
    */
   update(id: string, updates: Partial<Reservation>): Promise<Reservation>;
@@ -65,7 +65,7 @@ export interface IReservationRepository {
    * @param start Start time in HH:mm format
    * @param end End time in HH:mm format
    * @param excludeReservationId Optional reservation ID to exclude from check (useful for updates)
-   * @returns true if available, false if conflicted
+   * @returns true if available, false if conflicted or inside a court closure
    */
   checkAvailability(
     courtId: string,
@@ -0,0 +1,43 @@
+/**
+ * Repository interface for recurring reservation series data access
+ *
+ * This abstraction allows us to swap storage implementations
+ * (file-based, database, etc.) without changing business logic
+ */
+
+import { ReservationSeries } from "../../types/reservation";
+
+export interface ISeriesRepository {
+  /**
+   * Get all series
+   * @returns Array of all series
+   */
+  findAll(): Promise<ReservationSeries[]>;
+
+  /**
+   * Get series by ID
+   * @param id Series ID
+   * @returns Series or null if not found
+   */
+  findById(id: string): Promise<ReservationSeries | null>;
+
+  /**
+   * Create a new series
+   * @param series Series data (without id, createdAt)
+   * @returns Created series with generated id and timestamp
+   * @throws LockError if lock cannot be acquired
+   */
+  create(series: Omit<ReservationSeries, "id" | "createdAt">): Promise<ReservationSeries>;
+
+  /**
+   * Update an existing series
+   * @param id Series ID
+   * @param updates Partial series data to update
+   * @returns Updated series or null if not found
+   * @throws LockError if lock cannot be acquired
+   */
+  update(
+    id: string,
+    updates: Partial<Omit<ReservationSeries, "id" | "createdAt">>
+  ): Promise<ReservationSeries | null>;
+}
@@ -0,0 +1,66 @@
+/**
+ * Repository interface for auth session data access
+ *
+ * This abstraction allows us to swap storage implementations
+ * (file-based, database, etc.) without changing business logic
+ */
+
+import { AuthSession, SessionRevokeReason } from "../../types/auth";
+
+export interface ISessionRepository {
+  /**
+   * Get session by ID
+   * @param id Session ID
+   * @returns Session or null if not found
+   */
+  findById(id: string): Promise<AuthSession | null>;
+
+  /**
+   * Get all sessions for a member, most recently used first
+   * @param memberId Member ID
+   * @returns Array of the member's sessions (including revoked ones)
+   */
+  findByMember(memberId: string): Promise<AuthSession[]>;
+
+  /**
+   * Create a new session
+   * @param session Session data (without id, createdAt)
+   * @returns Created session with generated id
+   * @throws LockError if lock cannot be acquired
+   */
+  create(session: Omit<AuthSession, "id" | "createdAt">): Promise<AuthSession>;
+
+  /**
+   * Update an existing session
+   * @param id Session ID
+   * @param updates Partial session data to update
+   * @returns Updated session or null if not found
+   * @throws LockError if lock cannot be acquired
+   */
+  update(
+    id: string,
+    updates: Partial<Omit<AuthSession, "id" | "createdAt">>
+  ): Promise<AuthSession | null>;
+
+  /**
+   * Revoke every active session of a member
+   * @param memberId Member ID
+   * @param reason Why the sessions were revoked
+   * @param exceptId Optional session to keep (e.g. the caller's own)
+   * @returns Number of sessions revoked
+   * @throws LockError if lock cannot be acquired
+   */
+  revokeByMember(
+    memberId: string,
+    reason: SessionRevokeReason,
+    exceptId?: string
+  ): Promise<number>;
+
+  /**
+   * Permanently remove sessions that expired or were revoked before a date
+   * @param before Cutoff date
+   * @returns Number of sessions removed
+   * @throws LockError if lock cannot be acquired
+   */
+  deleteInactive(before: Date): Promise<number>;
+}
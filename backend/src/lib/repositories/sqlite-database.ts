@@ -0,0 +1,115 @@
+/**
+ * SQLite connection for the database-backed repositories
+ *
+ * The database lives at SQLITE_PATH (default DATA_DIR/providence.db) and is
+ * migrated to the latest schema when first opened. It runs in WAL mode so
+ * several server processes can share it: readers never block, and a writer
+ * waits up to SQLITE_BUSY_TIMEOUT_MS for another process's transaction.
+ */
+
+import Database from "better-sqlite3";
+import { mkdirSync } from "fs";
+import path from "path";
+import { MigrationError } from "../errors/storage-errors";
+import { MIGRATIONS } from "./sqlite-migrations";
+
+const DEFAULT_BUSY_TIMEOUT_MS = 5000;
+
+function getDataDir(): string {
+  return process.env.DATA_DIR
+    ? path.isAbsolute(process.env.DATA_DIR)
+      ? process.env.DATA_DIR
+      : path.join(process.cwd(), process.env.DATA_DIR)
+    : path.join(process.cwd(), "data");
+}
+
+/**
+ * Path of the database file
+ */
+export function getDatabasePath(): string {
+  const configured = process.env.SQLITE_PATH;
+  if (configured) {
+    return path.isAbsolute(configured) ? configured : path.join(process.cwd(), configured);
+  }
+  return path.join(getDataDir(), "providence.db");
+}
+
+let connection: { path: string; db: Database.Database } | null = null;
+
+/**
+ * Apply migrations the database hasn't had yet, each in its own transaction
+ * @throws MigrationError if a migration fails
+ */
+export function migrate(db: Database.Database): void {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      version INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      applied_at TEXT NOT NULL
+    )
+  `);
+
+  const applied = new Set(
+    (db.prepare("SELECT version FROM schema_migrations").all() as Array<{ version: number }>).map(
+      (row) => row.version
+    )
+  );
+
+  for (const migration of MIGRATIONS) {
+    if (applied.has(migration.version)) {
+      continue;
+    }
+
+    try {
+      db.transaction(() => {
+        db.exec(migration.sql);
+        db.prepare(
+          "INSERT INTO schema_migrations (version, name, applied_at) VALUES (?, ?, ?)"
+        ).run(migration.version, migration.name, new Date().toISOString());
+      }).immediate();
+    } catch (error) {
+      throw new MigrationError(migration.version, error);
+    }
+  }
+}
+
+/**
+ * Get the open database, opening and migrating it on first use
+ * (or when SQLITE_PATH/DATA_DIR now point somewhere else)
+ */
+export function getDatabase(): Database.Database {
+  const dbPath = getDatabasePath();
+  if (connection && connection.path === dbPath) {
+    return connection.db;
+  }
+
+  closeDatabase();
+  mkdirSync(path.dirname(dbPath), { recursive: true });
+
+  const db = new Database(dbPath);
+  db.pragma("journal_mode = WAL");
+  db.pragma("foreign_keys = ON");
+  db.pragma(`busy_timeout = ${Number(process.env.SQLITE_BUSY_TIMEOUT_MS) || DEFAULT_BUSY_TIMEOUT_MS}`);
+  migrate(db);
+
+  connection = { path: dbPath, db };
+  return db;
+}
+
+/**
+ * Close the database (it is reopened on next use)
+ */
+export function closeDatabase(): void {
+  if (connection) {
+    connection.db.close();
+    connection = null;
+  }
+}
+
+/**
+ * Check if an error means another connection held the database past the busy timeout
+ */
+export function isBusyError(error: unknown): boolean {
+  const code = (error as { code?: string } | null)?.code;
+  return code === "SQLITE_BUSY" || code === "SQLITE_LOCKED";
+}
@@ -0,0 +1,176 @@
+/**
+ * SQLite implementation of IJournalRepository
+ */
+
+import { JournalEntry, JournalFilter } from "../../types/journal";
+import { IJournalRepository } from "./journal-repository.interface";
+import { getDatabase, isBusyError } from "./sqlite-database";
+import {
+  JournalEntryNotFoundError,
+  JournalLockError,
+} from "../errors/journal-errors";
+
+type Row = { data: string };
+
+function toEntry(row: Row): JournalEntry {
+  return JSON.parse(row.data);
+}
+
+function toParams(entry: JournalEntry) {
+  return {
+    id: entry.id,
+    player_id: entry.playerId,
+    coach_id: entry.coachId,
+    session_date: entry.sessionDate,
+    data: JSON.stringify(entry),
+  };
+}
+
+function findByIdSync(id: string): JournalEntry | null {
+  const row = getDatabase().prepare("SELECT data FROM journal_entries WHERE id = ?").get(id) as
+    | Row
+    | undefined;
+  return row ? toEntry(row) : null;
+}
+
+/**
+ * Run a write transaction, reporting a database held by another process as a JournalLockError
+ */
+function runImmediate<T>(action: string, fn: () => T): T {
+  try {
+    return getDatabase().transaction(fn).immediate();
+  } catch (error) {
+    if (isBusyError(error)) {
+      throw new JournalLockError(
+        `Could not acquire lock for journal entry ${action}: ${(error as Error).message}`
+      );
+    }
+    throw error;
+  }
+}
+
+/**
+ * SQLite journal repository implementation
+ */
+export class SqliteJournalRepository implements IJournalRepository {
+  /**
+   * Get all journal entries with optional filtering
+   */
+  async findAll(filter?: JournalFilter): Promise<JournalEntry[]> {
+    const conditions = ["1 = 1"];
+    const values: string[] = [];
+
+    if (filter?.playerId) {
+      conditions.push("player_id = ?");
+      values.push(filter.playerId);
+    }
+    if (filter?.coachId) {
+      conditions.push("coach_id = ?");
+      values.push(filter.coachId);
+    }
+    if (filter?.startDate) {
+      conditions.push("session_date >= ?");
+      values.push(filter.startDate);
+    }
+    if (filter?.endDate) {
+      conditions.push("session_date <= ?");
+      values.push(filter.endDate);
+    }
+
+    const entries = (
+      getDatabase()
+        .prepare(`SELECT data FROM journal_entries WHERE ${conditions.join(" AND ")} ORDER BY rowid`)
+        .all(...values) as Row[]
+    ).map(toEntry);
+
+    if (!filter?.areaWorkedOn) {
+      return entries;
+    }
+    const area = filter.areaWorkedOn.toLowerCase();
+    return entries.filter((e) => e.areasWorkedOn.some((a) => a.toLowerCase().includes(area)));
+  }
+
+  /**
+   * Get journal entry by ID
+   */
+  async findById(id: string): Promise<JournalEntry | null> {
+    return findByIdSync(id);
+  }
+
+  /**
+   * Get journal entries for a specific player
+   */
+  async findByPlayerId(playerId: string, filter?: JournalFilter): Promise<JournalEntry[]> {
+    return this.findAll({ ...filter, playerId });
+  }
+
+  /**
+   * Get journal entries for a specific coach
+   */
+  async findByCoachId(coachId: string, filter?: JournalFilter): Promise<JournalEntry[]> {
+    return this.findAll({ ...filter, coachId });
+  }
+
+  /**
+   * Create a new journal entry
+   */
+  async create(
+    entry: Omit<JournalEntry, "id" | "createdAt" | "lastModified">
+  ): Promise<JournalEntry> {
+    return runImmediate("creation", () => {
+      const now = new Date().toISOString();
+      const newEntry: JournalEntry = {
+        ...entry,
+        id: `journal-${Date.now()}-${Math.random().toString(36).substring(2, 11)}`,
+        createdAt: now,
+        lastModified: now,
+      };
+
+      getDatabase()
+        .prepare(
+          `INSERT INTO journal_entries (id, player_id, coach_id, session_date, data)
+           VALUES (@id, @player_id, @coach_id, @session_date, @data)`
+        )
+        .run(toParams(newEntry));
+      return newEntry;
+    });
+  }
+
+  /**
+   * Update an existing journal entry
+   */
+  async update(id: string, updates: Partial<JournalEntry>): Promise<JournalEntry> {
+    return runImmediate("update", () => {
+      const existing = findByIdSync(id);
+      if (!existing) {
+        throw new JournalEntryNotFoundError(`Journal entry with id ${id} not found`);
+      }
+
+      const updatedEntry: JournalEntry = {
+        ...existing,
+        ...updates,
+        id, // Ensure ID cannot be changed
+        lastModified: new Date().toISOString(),
+      };
+
+      getDatabase()
+        .prepare(
+          `UPDATE journal_entries SET player_id = @player_id, coach_id = @coach_id,
+             session_date = @session_date, data = @data
+           WHERE id = @id`
+        )
+        .run(toParams(updatedEntry));
+      return updatedEntry;
+    });
+  }
+
+  /**
+   * Delete a journal entry
+   */
+  async delete(id: string): Promise<boolean> {
+    return runImmediate("deletion", () => {
+      const result = getDatabase().prepare("DELETE FROM journal_entries WHERE id = ?").run(id);
+      return result.changes > 0;
+    });
+  }
+}
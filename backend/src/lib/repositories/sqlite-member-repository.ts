@@ -0,0 +1,252 @@
+/**
+ * SQLite implementation of IMemberRepository
+ *
+ * Emails and member numbers are unique in the schema as well as checked
+ * here, so two processes can't register the same email.
+ */
+
+import { Member, MemberFilter } from "../../types/member";
+import { IMemberRepository } from "./member-repository.interface";
+import { getDatabase, isBusyError } from "./sqlite-database";
+import {
+  MemberNotFoundError,
+  DuplicateEmailError,
+  DuplicateMemberNumberError,
+  MemberLockError,
+} from "../errors/member-errors";
+import { normalizeEmail } from "../utils/member-validation";
+
+type Row = { data: string };
+
+function toMember(row: Row): Member {
+  return JSON.parse(row.data);
+}
+
+function toParams(member: Member) {
+  return {
+    id: member.id,
+    email: member.email,
+    member_number: member.memberNumber,
+    is_active: member.isActive ? 1 : 0,
+    data: JSON.stringify(member),
+  };
+}
+
+function findOne(column: "id" | "email" | "member_number", value: string): Member | null {
+  const row = getDatabase().prepare(`SELECT data FROM members WHERE ${column} = ?`).get(value) as
+    | Row
+    | undefined;
+  return row ? toMember(row) : null;
+}
+
+/**
+ * Escape LIKE wildcards so a search matches them literally
+ */
+function likePattern(query: string): string {
+  return `%${query.replace(/[\\%_]/g, (c) => `\\${c}`)}%`;
+}
+
+/**
+ * Generate sequential member number (MEM-0001, MEM-0002, etc.)
+ */
+function generateMemberNumber(): string {
+  const rows = getDatabase()
+    .prepare("SELECT member_number FROM members WHERE member_number LIKE 'MEM-%'")
+    .all() as Array<{ member_number: string }>;
+
+  let maxNumber = 0;
+  for (const row of rows) {
+    const match = row.member_number.match(/^MEM-(\d+)$/);
+    if (match) {
+      maxNumber = Math.max(maxNumber, parseInt(match[1], 10));
+    }
+  }
+
+  return `MEM-${String(maxNumber + 1).padStart(4, "0")}`;
+}
+
+/**
+ * Run a write transaction, reporting a database held by another process as a MemberLockError
+ */
+function runImmediate<T>(action: string, fn: () => T): T {
+  try {
+    return getDatabase().transaction(fn).immediate();
+  } catch (error) {
+    if (isBusyError(error)) {
+      throw new MemberLockError(
+        `Could not acquire lock for member ${action}: ${(error as Error).message}`
+      );
+    }
+    throw error;
+  }
+}
+
+/**
+ * SQLite member repository implementation
+ */
+export class SqliteMemberRepository implements IMemberRepository {
+  /**
+   * Get all members with optional filtering
+   */
+  async findAll(filter?: MemberFilter): Promise<Member[]> {
+    const conditions: string[] = [];
+    const params: Record<string, string | number> = {};
+
+    if (filter?.status === "active" || filter?.status === "inactive") {
+      conditions.push("is_active = @isActive");
+      params.isActive = filter.status === "active" ? 1 : 0;
+    }
+
+    const query = filter?.search?.toLowerCase().trim();
+    if (query) {
+      conditions.push(
+        `(lower(json_extract(data, '$.firstName') || ' ' || json_extract(data, '$.lastName')) LIKE @search ESCAPE '\\'
+          OR lower(email) LIKE @search ESCAPE '\\'
+          OR lower(json_extract(data, '$.phone')) LIKE @search ESCAPE '\\'
+          OR lower(member_number) LIKE @search ESCAPE '\\')`
+      );
+      params.search = likePattern(query);
+    }
+
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : "";
+    return (
+      getDatabase().prepare(`SELECT data FROM members ${where} ORDER BY rowid`).all(params) as Row[]
+    ).map(toMember);
+  }
+
+  /**
+   * Get member by ID
+   */
+  async findById(id: string): Promise<Member | null> {
+    return findOne("id", id);
+  }
+
+  /**
+   * Get member by email
+   */
+  async findByEmail(email: string): Promise<Member | null> {
+    return findOne("email", normalizeEmail(email));
+  }
+
+  /**
+   * Get member by member number
+   */
+  async findByMemberNumber(memberNumber: string): Promise<Member | null> {
+    return findOne("member_number", memberNumber);
+  }
+
+  /**
+   * Search members by query
+   */
+  async search(query: string): Promise<Member[]> {
+    return this.findAll({ search: query });
+  }
+
+  /**
+   * Create a new member
+   */
+  async create(memberData: Omit<Member, "id" | "createdAt" | "lastModified">): Promise<Member> {
+    return runImmediate("creation", () => {
+      const normalizedEmail = normalizeEmail(memberData.email);
+      if (findOne("email", normalizedEmail)) {
+        throw new DuplicateEmailError(`Email ${memberData.email} is already registered`);
+      }
+
+      const memberNumber = memberData.memberNumber || generateMemberNumber();
+      if (findOne("member_number", memberNumber)) {
+        throw new DuplicateMemberNumberError(`Member number ${memberNumber} already exists`);
+      }
+
+      // Timestamp IDs; bump past any taken in the same millisecond
+      let id = Date.now();
+      while (findOne("id", id.toString())) {
+        id++;
+      }
+
+      const newMember: Member = {
+        id: id.toString(),
+        ...memberData,
+        email: normalizedEmail,
+        memberNumber,
+        isActive: memberData.isActive !== undefined ? memberData.isActive : true,
+        penaltyCancellations: memberData.penaltyCancellations || 0,
+        unsubscribeEmail: memberData.unsubscribeEmail || false,
+        createdAt: new Date().toISOString(),
+        lastModified: new Date().toISOString(),
+      };
+
+      getDatabase()
+        .prepare(
+          `INSERT INTO members (id, email, member_number, is_active, data)
+           VALUES (@id, @email, @member_number, @is_active, @data)`
+        )
+        .run(toParams(newMember));
+      return newMember;
+    });
+  }
+
+  /**
+   * Update an existing member
+   */
+  async update(id: string, updates: Partial<Member>): Promise<Member> {
+    return runImmediate("update", () => {
+      const existing = findOne("id", id);
+      if (!existing) {
+        throw new MemberNotFoundError(`Member with id ${id}`);
+      }
+
+      // Normalize a copy; the caller's updates are left as they were
+      const changes: Partial<Member> = { ...updates };
+      if (changes.email) {
+        changes.email = normalizeEmail(changes.email);
+        const owner = findOne("email", changes.email);
+        if (owner && owner.id !== id) {
+          throw new DuplicateEmailError(`Email ${updates.email} is already registered`);
+        }
+      }
+
+      if (updates.memberNumber) {
+        const owner = findOne("member_number", updates.memberNumber);
+        if (owner && owner.id !== id) {
+          throw new DuplicateMemberNumberError(
+            `Member number ${updates.memberNumber} already exists`
+          );
+        }
+      }
+
+      const updatedMember: Member = {
+        ...existing,
+        ...changes,
+        lastModified: new Date().toISOString(),
+      };
+
+      getDatabase()
+        .prepare(
+          `UPDATE members SET email = @email, member_number = @member_number,
+             is_active = @is_active, data = @data
+           WHERE id = @id`
+        )
+        .run(toParams(updatedMember));
+      return updatedMember;
+    });
+  }
+
+  /**
+   * Delete/deactivate a member (soft delete by setting isActive: false)
+   */
+  async delete(id: string): Promise<boolean> {
+    return runImmediate("deletion", () => {
+      const member = findOne("id", id);
+      if (!member) {
+        return false;
+      }
+
+      member.isActive = false;
+      member.lastModified = new Date().toISOString();
+      getDatabase()
+        .prepare("UPDATE members SET is_active = @is_active, data = @data WHERE id = @id")
+        .run(toParams(member));
+      return true;
+    });
+  }
+}
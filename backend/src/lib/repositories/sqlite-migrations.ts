@@ -0,0 +1,87 @@
+/**
+ * SQLite schema migrations
+ *
+ * Migrations run in order and each runs once; the versions applied are
+ * recorded in schema_migrations. Never edit a migration that has shipped:
+ * add a new one instead.
+ *
+ * Each table keeps the full record as JSON in `data`, with the fields we
+ * look up, filter or enforce uniqueness on copied into indexed columns.
+ */
+
+export interface Migration {
+  version: number;
+  name: string;
+  sql: string;
+}
+
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    name: "create_reservations",
+    sql: `
+      CREATE TABLE reservations (
+        id TEXT PRIMARY KEY,
+        court_id TEXT NOT NULL,
+        date TEXT NOT NULL,
+        start_time TEXT NOT NULL,
+        end_time TEXT NOT NULL,
+        status TEXT NOT NULL,
+        member_id TEXT,
+        coach_id TEXT,
+        data TEXT NOT NULL
+      );
+      CREATE INDEX idx_reservations_date_court ON reservations (date, court_id);
+      CREATE INDEX idx_reservations_member ON reservations (member_id);
+      CREATE INDEX idx_reservations_coach_date ON reservations (coach_id, date);
+    `,
+  },
+  {
+    version: 2,
+    name: "create_members",
+    sql: `
+      CREATE TABLE members (
+        id TEXT PRIMARY KEY,
+        email TEXT NOT NULL UNIQUE,
+        member_number TEXT NOT NULL UNIQUE,
+        is_active INTEGER NOT NULL,
+        data TEXT NOT NULL
+      );
+      CREATE INDEX idx_members_active ON members (is_active);
+    `,
+  },
+  {
+    version: 3,
+    name: "create_payments",
+    sql: `
+      CREATE TABLE payments (
+        id TEXT PRIMARY KEY,
+        member_id TEXT,
+        reservation_id TEXT,
+        stripe_payment_intent_id TEXT,
+        status TEXT NOT NULL,
+        type TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        data TEXT NOT NULL
+      );
+      CREATE INDEX idx_payments_member ON payments (member_id);
+      CREATE INDEX idx_payments_reservation ON payments (reservation_id);
+      CREATE INDEX idx_payments_intent ON payments (stripe_payment_intent_id);
+    `,
+  },
+  {
+    version: 4,
+    name: "create_journal_entries",
+    sql: `
+      CREATE TABLE journal_entries (
+        id TEXT PRIMARY KEY,
+        player_id TEXT NOT NULL,
+        coach_id TEXT NOT NULL,
+        session_date TEXT NOT NULL,
+        data TEXT NOT NULL
+      );
+      CREATE INDEX idx_journal_player_date ON journal_entries (player_id, session_date);
+      CREATE INDEX idx_journal_coach_date ON journal_entries (coach_id, session_date);
+    `,
+  },
+];
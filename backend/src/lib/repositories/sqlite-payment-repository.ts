@@ -0,0 +1,187 @@
+/**
+ * SQLite implementation of IPaymentRepository
+ */
+
+import { Payment, PaymentFilter } from "../../types/payment";
+import { IPaymentRepository } from "./payment-repository.interface";
+import { getDatabase, isBusyError } from "./sqlite-database";
+import {
+  PaymentNotFoundError,
+  PaymentProcessingError,
+} from "../errors/payment-errors";
+
+type Row = { data: string };
+
+function toPayment(row: Row): Payment {
+  return JSON.parse(row.data);
+}
+
+function toParams(payment: Payment) {
+  return {
+    id: payment.id,
+    member_id: payment.memberId ?? null,
+    reservation_id: payment.reservationId ?? null,
+    stripe_payment_intent_id: payment.stripePaymentIntentId ?? null,
+    status: payment.status,
+    type: payment.type,
+    created_at: payment.createdAt,
+    data: JSON.stringify(payment),
+  };
+}
+
+function findWhere(where: string, ...values: string[]): Payment[] {
+  return (
+    getDatabase()
+      .prepare(`SELECT data FROM payments WHERE ${where} ORDER BY rowid`)
+      .all(...values) as Row[]
+  ).map(toPayment);
+}
+
+/**
+ * Run a write transaction, reporting a database held by another process as a PaymentProcessingError
+ */
+function runImmediate<T>(action: string, fn: () => T): T {
+  try {
+    return getDatabase().transaction(fn).immediate();
+  } catch (error) {
+    if (isBusyError(error)) {
+      throw new PaymentProcessingError(
+        `Could not acquire lock for payment ${action}: ${(error as Error).message}`
+      );
+    }
+    throw error;
+  }
+}
+
+/**
+ * SQLite payment repository implementation
+ */
+export class SqlitePaymentRepository implements IPaymentRepository {
+  /**
+   * Get all payments with optional filtering
+   */
+  async findAll(filter?: PaymentFilter): Promise<Payment[]> {
+    const conditions = ["1 = 1"];
+    const values: string[] = [];
+
+    if (filter?.memberId) {
+      conditions.push("member_id = ?");
+      values.push(filter.memberId);
+    }
+    if (filter?.status) {
+      conditions.push("status = ?");
+      values.push(filter.status);
+    }
+    if (filter?.type) {
+      conditions.push("type = ?");
+      values.push(filter.type);
+    }
+
+    let payments = findWhere(conditions.join(" AND "), ...values);
+
+    // Date bounds are compared in local time, as the file repository does
+    if (filter?.startDate) {
+      const start = new Date(filter.startDate);
+      payments = payments.filter((p) => new Date(p.createdAt) >= start);
+    }
+    if (filter?.endDate) {
+      const end = new Date(filter.endDate);
+      end.setHours(23, 59, 59, 999); // End of day
+      payments = payments.filter((p) => new Date(p.createdAt) <= end);
+    }
+
+    return payments;
+  }
+
+  /**
+   * Get payment by ID
+   */
+  async findById(id: string): Promise<Payment | null> {
+    return findWhere("id = ?", id)[0] || null;
+  }
+
+  /**
+   * Find payments by member ID
+   */
+  async findByMemberId(memberId: string): Promise<Payment[]> {
+    return findWhere("member_id = ?", memberId);
+  }
+
+  /**
+   * Find payments by reservation ID
+   */
+  async findByReservationId(reservationId: string): Promise<Payment[]> {
+    return findWhere("reservation_id = ?", reservationId);
+  }
+
+  /**
+   * Find payment by Stripe PaymentIntent ID
+   */
+  async findByPaymentIntentId(paymentIntentId: string): Promise<Payment | null> {
+    return findWhere("stripe_payment_intent_id = ?", paymentIntentId)[0] || null;
+  }
+
+  /**
+   * Create a new payment
+   */
+  async create(paymentData: Omit<Payment, "id" | "createdAt" | "lastModified">): Promise<Payment> {
+    return runImmediate("creation", () => {
+      // Timestamp IDs; bump past any taken in the same millisecond
+      let id = Date.now();
+      while (findWhere("id = ?", id.toString()).length > 0) {
+        id++;
+      }
+
+      const payment: Payment = {
+        ...paymentData,
+        id: id.toString(),
+        createdAt: new Date().toISOString(),
+        lastModified: new Date().toISOString(),
+      };
+
+      getDatabase()
+        .prepare(
+          `INSERT INTO payments (id, member_id, reservation_id, stripe_payment_intent_id, status, type, created_at, data)
+           VALUES (@id, @member_id, @reservation_id, @stripe_payment_intent_id, @status, @type, @created_at, @data)`
+        )
+        .run(toParams(payment));
+      return payment;
+    });
+  }
+
+  /**
+   * Update a payment
+   */
+  async update(id: string, updates: Partial<Payment>): Promise<Payment> {
+    return runImmediate("update", () => {
+      const existing = findWhere("id = ?", id)[0];
+      if (!existing) {
+        throw new PaymentNotFoundError(`Payment with id ${id} not found`);
+      }
+
+      const updated: Payment = {
+        ...existing,
+        ...updates,
+        id, // Ensure ID doesn't change
+        lastModified: new Date().toISOString(),
+      };
+
+      getDatabase()
+        .prepare(
+          `UPDATE payments SET member_id = @member_id, reservation_id = @reservation_id,
+             stripe_payment_intent_id = @stripe_payment_intent_id, status = @status, type = @type,
+             data = @data
+           WHERE id = @id`
+        )
+        .run(toParams(updated));
+      return updated;
+    });
+  }
+
+  /**
+   * Delete a payment (soft delete)
+   */
+  async delete(id: string): Promise<boolean> {
+    return this.update(id, { status: "cancelled" }).then(() => true);
+  }
+}
@@ -0,0 +1,320 @@
+/**
+ * SQLite implementation of IReservationRepository
+ *
+ * Conflict checks and writes run in one IMMEDIATE transaction, so two
+ * processes can't book the same slot.
+ */
+
+import { CourtClosure, Reservation } from "../../types/reservation";
+import { IReservationRepository } from "./reservation-repository.interface";
+import { getDatabase, isBusyError } from "./sqlite-database";
+import { timeRangesOverlap } from "../utils/time-ranges";
+import { reservationCache } from "../cache/reservation-cache";
+import { closureRepository } from "./file-closure-repository";
+import { describeClosure, findBlockingClosure } from "../utils/court-closures";
+import { isActiveReservation, isRescheduled } from "../utils/reservation-status";
+import { ConflictError, NotFoundError, LockError } from "../errors/reservation-errors";
+
+type Row = { data: string };
+
+function toReservation(row: Row): Reservation {
+  return JSON.parse(row.data);
+}
+
+function toParams(reservation: Reservation) {
+  return {
+    id: reservation.id,
+    court_id: reservation.courtId,
+    date: reservation.date,
+    start_time: reservation.timeSlot.start,
+    end_time: reservation.timeSlot.end,
+    status: reservation.status,
+    member_id: reservation.memberId ?? null,
+    coach_id: reservation.coachId ?? null,
+    data: JSON.stringify(reservation),
+  };
+}
+
+function findByDateSync(date: string): Reservation[] {
+  return (
+    getDatabase()
+      .prepare("SELECT data FROM reservations WHERE date = ? ORDER BY rowid")
+      .all(date) as Row[]
+  ).map(toReservation);
+}
+
+function findByIdSync(id: string): Reservation | null {
+  const row = getDatabase().prepare("SELECT data FROM reservations WHERE id = ?").get(id) as
+    | Row
+    | undefined;
+  return row ? toReservation(row) : null;
+}
+
+/**
+ * Throw if another active reservation on the court overlaps the time range
+ * @param message Prefix for the conflict message ("Time slot" or "Updated time slot")
+ */
+function assertCourtFree(
+  sameDay: Reservation[],
+  courtId: string,
+  start: string,
+  end: string,
+  message: string,
+  excludeId?: string
+): void {
+  const conflict = sameDay.find(
+    (r) =>
+      r.id !== excludeId &&
+      r.courtId === courtId &&
+      isActiveReservation(r) &&
+      timeRangesOverlap(start, end, r.timeSlot.start, r.timeSlot.end)
+  );
+
+  if (conflict) {
+    throw new ConflictError(
+      `${message} ${start}-${end} conflicts with existing reservation ${conflict.timeSlot.start}-${conflict.timeSlot.end}`
+    );
+  }
+}
+
+/**
+ * Throw if the coach on a lesson is already teaching (on any court) during the time range
+ */
+function assertCoachFree(
+  sameDay: Reservation[],
+  coachId: string | undefined,
+  start: string,
+  end: string,
+  excludeId?: string
+): void {
+  if (!coachId) {
+    return;
+  }
+
+  const lesson = sameDay.find(
+    (r) =>
+      r.id !== excludeId &&
+      r.coachId === coachId &&
+      isActiveReservation(r) &&
+      timeRangesOverlap(start, end, r.timeSlot.start, r.timeSlot.end)
+  );
+  if (lesson) {
+    throw new ConflictError(
+      `Coach already has a lesson ${lesson.timeSlot.start}-${lesson.timeSlot.end}`
+    );
+  }
+}
+
+/**
+ * Throw if a court closure blocks the time range
+ */
+function assertNotClosed(
+  closures: CourtClosure[],
+  courtId: string,
+  date: string,
+  start: string,
+  end: string
+): void {
+  const closure = findBlockingClosure(closures, courtId, date, start, end);
+  if (closure) {
+    throw new ConflictError(`Court is closed for ${describeClosure(closure)}`);
+  }
+}
+
+/**
+ * Run a write transaction, reporting a database held by another process as a LockError
+ */
+function runImmediate<T>(action: string, fn: () => T): T {
+  try {
+    return getDatabase().transaction(fn).immediate();
+  } catch (error) {
+    if (isBusyError(error)) {
+      throw new LockError(
+        `Could not acquire lock for reservation ${action}: ${(error as Error).message}`
+      );
+    }
+    throw error;
+  }
+}
+
+/**
+ * SQLite reservation repository implementation
+ */
+export class SqliteReservationRepository implements IReservationRepository {
+  /**
+   * Get all reservations
+   */
+  async findAll(): Promise<Reservation[]> {
+    return (
+      getDatabase().prepare("SELECT data FROM reservations ORDER BY rowid").all() as Row[]
+    ).map(toReservation);
+  }
+
+  /**
+   * Get reservations for a specific date (cancellations and no-shows excluded)
+   */
+  async findByDate(date: string): Promise<Reservation[]> {
+    return findByDateSync(date).filter(isActiveReservation);
+  }
+
+  /**
+   * Get reservation by ID
+   */
+  async findById(id: string): Promise<Reservation | null> {
+    return findByIdSync(id);
+  }
+
+  /**
+   * Create a new reservation
+   */
+  async create(
+    reservationData: Omit<Reservation, "id" | "createdAt" | "status">
+  ): Promise<Reservation> {
+    const { courtId, date, timeSlot } = reservationData;
+    const closures = await closureRepository.findByDate(date);
+
+    const newReservation = runImmediate("creation", () => {
+      const sameDay = findByDateSync(date);
+      assertCourtFree(sameDay, courtId, timeSlot.start, timeSlot.end, "Time slot");
+      // Lessons book the coach too; both are checked in the same transaction
+      assertCoachFree(sameDay, reservationData.coachId, timeSlot.start, timeSlot.end);
+      assertNotClosed(closures, courtId, date, timeSlot.start, timeSlot.end);
+
+      // Timestamp IDs; bump past any taken in the same millisecond (series, bulk bookings)
+      let id = Date.now();
+      while (findByIdSync(id.toString())) {
+        id++;
+      }
+
+      const reservation: Reservation = {
+        id: id.toString(),
+        ...reservationData,
+        createdAt: new Date().toISOString(),
+        status: "confirmed",
+      };
+
+      getDatabase()
+        .prepare(
+          `INSERT INTO reservations (id, court_id, date, start_time, end_time, status, member_id, coach_id, data)
+           VALUES (@id, @court_id, @date, @start_time, @end_time, @status, @member_id, @coach_id, @data)`
+        )
+        .run(toParams(reservation));
+      return reservation;
+    });
+
+    reservationCache.invalidate(`availability:${date}`);
+    return newReservation;
+  }
+
+  /**
+   * Update an existing reservation
+   */
+  async update(id: string, updates: Partial<Reservation>): Promise<Reservation> {
+    const existing = findByIdSync(id);
+    if (!existing) {
+      throw new NotFoundError(`Reservation with id ${id}`);
+    }
+    const closures = await closureRepository.findByDate(updates.date || existing.date);
+
+    const { before, after } = runImmediate("update", () => {
+      // Re-read inside the transaction in case another process changed it
+      const current = findByIdSync(id);
+      if (!current) {
+        throw new NotFoundError(`Reservation with id ${id}`);
+      }
+
+      const updated: Reservation = {
+        ...current,
+        ...updates,
+        updatedAt: new Date().toISOString(),
+      };
+      if (isRescheduled(current, updated)) {
+        updated.sequence = (current.sequence || 0) + 1;
+      }
+
+      if (updates.timeSlot || updates.courtId || updates.date) {
+        const sameDay = findByDateSync(updated.date);
+        const { start, end } = updated.timeSlot;
+        assertCourtFree(sameDay, updated.courtId, start, end, "Updated time slot", id);
+        assertCoachFree(sameDay, updated.coachId, start, end, id);
+        assertNotClosed(closures, updated.courtId, updated.date, start, end);
+      }
+
+      getDatabase()
+        .prepare(
+          `UPDATE reservations SET court_id = @court_id, date = @date, start_time = @start_time,
+             end_time = @end_time, status = @status, member_id = @member_id, coach_id = @coach_id,
+             data = @data
+           WHERE id = @id`
+        )
+        .run(toParams(updated));
+      return { before: current, after: updated };
+    });
+
+    reservationCache.invalidate(`availability:${before.date}`);
+    if (after.date !== before.date) {
+      reservationCache.invalidate(`availability:${after.date}`);
+    }
+
+    return after;
+  }
+
+  /**
+   * Delete (cancel) a reservation
+   */
+  async delete(id: string): Promise<boolean> {
+    const cancelled = runImmediate("deletion", () => {
+      const reservation = findByIdSync(id);
+      if (!reservation) {
+        return null;
+      }
+
+      if (reservation.status !== "cancelled") {
+        reservation.sequence = (reservation.sequence || 0) + 1;
+      }
+      reservation.status = "cancelled";
+      reservation.updatedAt = new Date().toISOString();
+
+      getDatabase()
+        .prepare("UPDATE reservations SET status = @status, data = @data WHERE id = @id")
+        .run(toParams(reservation));
+      return reservation;
+    });
+
+    if (!cancelled) {
+      return false;
+    }
+
+    reservationCache.invalidate(`availability:${cancelled.date}`);
+    return true;
+  }
+
+  /**
+   * Check if a time slot is available (not reserved and not inside a closure)
+   */
+  async checkAvailability(
+    courtId: string,
+    date: string,
+    start: string,
+    end: string,
+    excludeReservationId?: string
+  ): Promise<boolean> {
+    const closures = await closureRepository.findByDate(date);
+    if (findBlockingClosure(closures, courtId, date, start, end)) {
+      return false;
+    }
+
+    const reservations = (
+      getDatabase()
+        .prepare("SELECT data FROM reservations WHERE date = ? AND court_id = ?")
+        .all(date, courtId) as Row[]
+    ).map(toReservation);
+
+    return !reservations.some(
+      (r) =>
+        isActiveReservation(r) &&
+        (!excludeReservationId || r.id !== excludeReservationId) &&
+        timeRangesOverlap(start, end, r.timeSlot.start, r.timeSlot.end)
+    );
+  }
+}
@@ -0,0 +1,52 @@
+/**
+ * Repository interface for membership subscription data access
+ *
+ * This abstraction allows us to swap storage implementations
+ * (file-based, database, etc.) without changing business logic
+ */
+
+import { Subscription } from "../../types/membership";
+
+export interface ISubscriptionRepository {
+  /**
+   * Get subscription by ID
+   * @param id Subscription ID
+   * @returns Subscription or null if not found
+   */
+  findById(id: string): Promise<Subscription | null>;
+
+  /**
+   * Get subscription by Stripe subscription ID
+   * @param stripeSubscriptionId Stripe subscription ID (sub_...)
+   * @returns Subscription or null if not found
+   */
+  findByStripeSubscriptionId(stripeSubscriptionId: string): Promise<Subscription | null>;
+
+  /**
+   * Get a member's subscriptions, newest first
+   * @param memberId Paying member ID
+   */
+  findByMember(memberId: string): Promise<Subscription[]>;
+
+  /**
+   * Create a new subscription
+   * @param subscription Subscription data (without id, createdAt, lastModified)
+   * @returns Created subscription
+   * @throws PaymentProcessingError if lock cannot be acquired
+   */
+  create(
+    subscription: Omit<Subscription, "id" | "createdAt" | "lastModified">
+  ): Promise<Subscription>;
+
+  /**
+   * Update an existing subscription
+   * @param id Subscription ID
+   * @param updates Partial subscription data
+   * @returns Updated subscription or null if not found
+   * @throws PaymentProcessingError if lock cannot be acquired
+   */
+  update(
+    id: string,
+    updates: Partial<Omit<Subscription, "id" | "createdAt">>
+  ): Promise<Subscription | null>;
+}
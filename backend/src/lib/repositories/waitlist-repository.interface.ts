@@ -0,0 +1,57 @@
+/**
+ * Repository interface for waitlist data access
+ *
+ * This abstraction allows us to swap storage implementations
+ * (file-based, database, etc.) without changing business logic
+ */
+
+import { WaitlistEntry } from "../../types/reservation";
+
+export interface IWaitlistRepository {
+  /**
+   * Get all waitlist entries, oldest first
+   * @returns Array of all entries
+   */
+  findAll(): Promise<WaitlistEntry[]>;
+
+  /**
+   * Get entries for a date, oldest first
+   * @param date Date in YYYY-MM-DD format
+   * @returns Array of entries for the date
+   */
+  findByDate(date: string): Promise<WaitlistEntry[]>;
+
+  /**
+   * Get entries for a member, oldest first
+   * @param memberId Member ID
+   * @returns Array of the member's entries
+   */
+  findByMember(memberId: string): Promise<WaitlistEntry[]>;
+
+  /**
+   * Get entry by ID
+   * @param id Entry ID
+   * @returns Entry or null if not found
+   */
+  findById(id: string): Promise<WaitlistEntry | null>;
+
+  /**
+   * Create a new entry
+   * @param entry Entry data (without id, createdAt, updatedAt)
+   * @returns Created entry with generated id and timestamps
+   * @throws LockError if lock cannot be acquired
+   */
+  create(entry: Omit<WaitlistEntry, "id" | "createdAt" | "updatedAt">): Promise<WaitlistEntry>;
+
+  /**
+   * Update an existing entry
+   * @param id Entry ID
+   * @param updates Partial entry data to update
+   * @returns Updated entry or null if not found
+   * @throws LockError if lock cannot be acquired
+   */
+  update(
+    id: string,
+    updates: Partial<Omit<WaitlistEntry, "id" | "createdAt">>
+  ): Promise<WaitlistEntry | null>;
+}
@@ -0,0 +1,26 @@
+/**
+ * Repository interface for processed webhook event data access
+ *
+ * This abstraction allows us to swap storage implementations
+ * (file-based, database, etc.) without changing business logic
+ */
+
+import { ProcessedWebhookEvent } from "../../types/payment";
+
+export interface IWebhookEventRepository {
+  /**
+   * Get a processed event by its Stripe event ID
+   * @param id Stripe event ID
+   * @returns Event record or null if the event has not been processed
+   */
+  findById(id: string): Promise<ProcessedWebhookEvent | null>;
+
+  /**
+   * Record an event as processed
+   * Recording an event ID that already exists is a no-op.
+   * @param event Event record (without processedAt)
+   * @returns True if the event was recorded, false if it was already present
+   * @throws LockError if lock cannot be acquired
+   */
+  create(event: Omit<ProcessedWebhookEvent, "processedAt">): Promise<boolean>;
+}
@@ -0,0 +1,237 @@
+/**
+ * Business logic layer for recurring reservation series
+ *
+ * A series expands an RRULE-style pattern into individual reservations.
+ * Dates that cannot be booked are reported per occurrence instead of
+ * failing the whole series.
+ */
+
+import {
+  Court,
+  Reservation,
+  ReservationSeries,
+  ReservationSeriesRequest,
+  SeriesOccurrence,
+} from "../types/reservation";
+import { seriesRepository } from "./repositories/file-series-repository";
+import { reservationRepository } from "./repositories";
+import { closureRepository } from "./repositories/file-closure-repository";
+import { getCourt } from "./courts";
+import { validateMemberActive } from "./members";
+import { cancelReservation } from "./reservations";
+import { ConflictError, NotFoundError, ValidationError } from "./errors/reservation-errors";
+import { expandRecurrence, formatRRule, parseRRule } from "./utils/recurrence";
+import { getHoursForDate, isWithinOperatingHours } from "./utils/court-schedule";
+import { describeClosure, findBlockingClosure } from "./utils/court-closures";
+import { AuditContext } from "../types/audit";
+
+export type SeriesCancelScope = "all" | "following";
+
+const DATE_REGEX = /^\d{4}-\d{2}-\d{2}$/;
+const TIME_REGEX = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+/**
+ * Validate the request shape and resolve the court
+ * @throws ValidationError if fields are missing or the court is unknown/retired
+ */
+async function resolveSeriesCourt(request: ReservationSeriesRequest): Promise<Court> {
+  if (!request || typeof request.courtId !== "string" || !request.courtId) {
+    throw new ValidationError("courtId is required");
+  }
+  if (typeof request.startDate !== "string" || !DATE_REGEX.test(request.startDate)) {
+    throw new ValidationError("startDate must be in YYYY-MM-DD format");
+  }
+  const { start, end } = request.timeSlot || ({} as ReservationSeriesRequest["timeSlot"]);
+  if (!TIME_REGEX.test(start || "") || !TIME_REGEX.test(end || "") || start >= end) {
+    throw new ValidationError("timeSlot must have start and end in HH:mm format with start before end");
+  }
+
+  const court = await getCourt(request.courtId);
+  if (!court) {
+    throw new ValidationError(`Court ${request.courtId} not found`);
+  }
+  if (court.retired) {
+    throw new ValidationError(`${court.name} has been retired`);
+  }
+  return court;
+}
+
+/**
+ * Check every date of the pattern against hours, closures and existing bookings
+ */
+async function checkOccurrences(
+  court: Court,
+  request: ReservationSeriesRequest
+): Promise<SeriesOccurrence[]> {
+  const dates = expandRecurrence(request.startDate, parseRRule(request.rrule));
+  const closures = await closureRepository.findAll();
+  const { start, end } = request.timeSlot;
+
+  const occurrences: SeriesOccurrence[] = [];
+  for (const date of dates) {
+    const hours = getHoursForDate(court.schedule, date);
+    const closure = findBlockingClosure(closures, court.id, date, start, end);
+    let reason: string | undefined;
+
+    if (!hours) {
+      reason = `${court.name} is closed on ${date}`;
+    } else if (!isWithinOperatingHours(court.schedule, date, start, end)) {
+      reason = `${court.name} is only open ${hours.open}-${hours.close} on ${date}`;
+    } else if (closure) {
+      reason = `Court is closed for ${describeClosure(closure)}`;
+    } else if (!(await reservationRepository.checkAvailability(court.id, date, start, end))) {
+      reason = "Time slot is already booked";
+    }
+
+    occurrences.push(reason ? { date, status: "conflict", reason } : { date, status: "available" });
+  }
+  return occurrences;
+}
+
+/**
+ * Preview which dates of a series can be booked without creating anything
+ * @throws ValidationError if the request or recurrence rule is invalid
+ */
+export async function previewSeries(
+  request: ReservationSeriesRequest
+): Promise<SeriesOccurrence[]> {
+  const court = await resolveSeriesCourt(request);
+  return checkOccurrences(court, request);
+}
+
+/**
+ * Create a series and book every available occurrence
+ *
+ * Conflicting dates are skipped and reported; the rest are still booked.
+ * @throws ValidationError if the request, rule, member or guest details are invalid
+ */
+export async function createSeries(
+  request: ReservationSeriesRequest,
+  createdBy?: string
+): Promise<{ series: ReservationSeries; occurrences: SeriesOccurrence[] }> {
+  const court = await resolveSeriesCourt(request);
+  const rrule = formatRRule(parseRRule(request.rrule));
+
+  if (request.memberId) {
+    await validateMemberActive(request.memberId);
+  } else if (!request.guestName || !request.guestEmail || !request.guestPhone) {
+    throw new ValidationError("Guest information (name, email, phone) required for non-member reservations");
+  }
+
+  const planned = await checkOccurrences(court, request);
+
+  const series = await seriesRepository.create({
+    courtId: court.id,
+    courtName: court.name,
+    startDate: request.startDate,
+    timeSlot: request.timeSlot,
+    rrule,
+    memberId: request.memberId,
+    guestName: request.memberId ? undefined : request.guestName,
+    guestEmail: request.memberId ? undefined : request.guestEmail,
+    guestPhone: request.memberId ? undefined : request.guestPhone,
+    notes: request.notes,
+    status: "active",
+    createdBy,
+  });
+
+  const occurrences: SeriesOccurrence[] = [];
+  for (const occurrence of planned) {
+    if (occurrence.status === "conflict") {
+      occurrences.push(occurrence);
+      continue;
+    }
+
+    const payload: Omit<Reservation, "id" | "createdAt" | "status"> = {
+      courtId: court.id,
+      courtName: court.name,
+      date: occurrence.date,
+      timeSlot: request.timeSlot,
+      notes: request.notes,
+      seriesId: series.id,
+    };
+    if (request.memberId) {
+      payload.memberId = request.memberId;
+    } else {
+      payload.guestName = payload.customerName = request.guestName;
+      payload.guestEmail = payload.customerEmail = request.guestEmail;
+      payload.guestPhone = payload.customerPhone = request.guestPhone;
+    }
+
+    try {
+      const reservation = await reservationRepository.create(payload);
+      occurrences.push({ date: occurrence.date, status: "created", reservationId: reservation.id });
+    } catch (error) {
+      // Someone booked the slot between the check and the write
+      if (error instanceof ConflictError) {
+        occurrences.push({ date: occurrence.date, status: "conflict", reason: error.message });
+        continue;
+      }
+      throw error;
+    }
+  }
+
+  return { series, occurrences };
+}
+
+/**
+ * Get a series with its booked occurrences, earliest first
+ * @throws NotFoundError if the series does not exist
+ */
+export async function getSeries(
+  id: string
+): Promise<{ series: ReservationSeries; reservations: Reservation[] }> {
+  const series = await seriesRepository.findById(id);
+  if (!series) {
+    throw new NotFoundError(`Series ${id}`);
+  }
+
+  const reservations = (await reservationRepository.findAll())
+    .filter((r) => r.seriesId === id)
+    .sort((a, b) => a.date.localeCompare(b.date));
+
+  return { series, reservations };
+}
+
+/**
+ * Cancel every upcoming occurrence ("all") or those on/after fromDate ("following")
+ *
+ * Occurrences that have already finished are kept for history. Series
+ * cancellations are made by staff and do not count as member penalties.
+ * Each cancelled occurrence is recorded in the audit log when audit is given.
+ * @throws NotFoundError if the series does not exist
+ * @throws ValidationError if fromDate is missing or malformed for "following"
+ */
+export async function cancelSeries(
+  id: string,
+  scope: SeriesCancelScope,
+  fromDate?: string,
+  now: Date = new Date(),
+  audit?: AuditContext
+): Promise<{ series: ReservationSeries; cancelledReservationIds: string[] }> {
+  if (scope === "following" && (!fromDate || !DATE_REGEX.test(fromDate))) {
+    throw new ValidationError("fromDate must be in YYYY-MM-DD format");
+  }
+
+  const { reservations } = await getSeries(id);
+  const toCancel = reservations.filter(
+    (r) =>
+      r.status === "confirmed" &&
+      new Date(`${r.date}T${r.timeSlot.end}`) > now &&
+      (scope === "all" || r.date >= (fromDate as string))
+  );
+
+  const cancelledReservationIds: string[] = [];
+  for (const reservation of toCancel) {
+    if (await cancelReservation(reservation.id, { penalize: false, notify: false, audit })) {
+      cancelledReservationIds.push(reservation.id);
+    }
+  }
+
+  const updated = await seriesRepository.update(
+    id,
+    scope === "all" ? { status: "cancelled" } : { cancelledFrom: fromDate }
+  );
+
+  return { series: updated as ReservationSeries, cancelledReservationIds };
+}
@@ -1,77 +1,45 @@
-import { Reservation, Court, ReservationRequest } from "../types/reservation";
-import { promises as fs } from "fs";
-import path from "path";
-import { format, addMinutes, parse, isBefore, differenceInHours } from "date-fns";
+import {
+  Reservation,
+  ReservationParticipant,
+  ReservationRequest,
+  CourtSchedule,
+} from "../types/reservation";
+import { differenceInHours } from "date-fns";
 import { timeRangesOverlap } from "./utils/time-ranges";
-import { reservationRepository } from "./repositories/file-reservation-repository";
+import {
+  generateTimeSlots,
+  getHoursForDate,
+  isWithinOperatingHours,
+} from "./utils/court-schedule";
+import { reservationRepository } from "./repositories";
 import { reservationCache } from "./cache/reservation-cache";
-import { validateMemberActive, getMember, updateMember } from "./members";
-import { ValidationError } from "./errors/reservation-errors";
-import { getPayment, processRefund } from "./payments/payments";
+import { validateMemberActive, getMember } from "./members";
+import { ConflictError, ValidationError } from "./errors/reservation-errors";
+import { getPayment, getReservationPayments, processRefund } from "./payments/payments";
 import { PaymentNotFoundError, RefundError } from "./errors/payment-errors";
-
-const resolvedDataDir = process.env.DATA_DIR
-  ? path.isAbsolute(process.env.DATA_DIR)
-    ? process.env.DATA_DIR
-    : path.join(process.cwd(), process.env.DATA_DIR)
-  : path.join(process.cwd(), "data");
-const DATA_DIR = resolvedDataDir;
-const RESERVATIONS_FILE = path.join(DATA_DIR, "reservations.json");
-const COURTS_FILE = path.join(DATA_DIR, "courts.json");
-
-function generateTimeSlots(): Array<{ start: string; end: string }> {
-  const slots: Array<{ start: string; end: string }> = [];
-  const startTime = parse("08:00", "HH:mm", new Date());
-  const endTime = parse("21:00", "HH:mm", new Date());
-  let currentTime = startTime;
-
-  while (isBefore(currentTime, endTime)) {
-    const slotEnd = addMinutes(currentTime, 60);
-
-    if (isBefore(slotEnd, endTime) || format(slotEnd, "HH:mm") === "21:00") {
-      slots.push({
-        start: format(currentTime, "HH:mm"),
-        end: format(slotEnd, "HH:mm"),
-      });
-    }
-
-    currentTime = slotEnd;
-  }
-
-  return slots;
-}
-
-async function ensureDataFiles() {
-  try {
-    await fs.mkdir(DATA_DIR, { recursive: true });
-
-    try {
-      await fs.access(RESERVATIONS_FILE);
-    } catch {
-      await fs.writeFile(RESERVATIONS_FILE, JSON.stringify([], null, 2));
-    }
-
-    try {
-      await fs.access(COURTS_FILE);
-    } catch {
-      const defaultCourts: Court[] = [
-        { id: "1", name: "Court 1", type: "clay", available: true },
-        { id: "2", name: "Court 2", type: "clay", available: true },
-        { id: "3", name: "Court 3", type: "clay", available: true },
-        { id: "4", name: "Court 4", type: "clay", available: true },
-        { id: "5", name: "Court 5", type: "clay", available: true },
-        { id: "6", name: "Court 6", type: "clay", available: true },
-        { id: "7", name: "Court 7", type: "clay", available: true },
-        { id: "8", name: "Court 8", type: "clay", available: true },
-        { id: "9", name: "Court 9", type: "clay", available: true },
-        { id: "10", name: "Court 10", type: "clay", available: true },
-      ];
-      await fs.writeFile(COURTS_FILE, JSON.stringify(defaultCourts, null, 2));
-    }
-  } catch (error) {
-    console.error("Error initializing data files:", error);
-  }
-}
+import { getAllCourts, getCourt } from "./courts";
+import { getClosuresForDate } from "./closures";
+import { closureBlocks } from "./utils/court-closures";
+import { findBlockingHold, fulfillHold, getActiveHolds, offerFreedSlot } from "./waitlist";
+import { enforceBookingRules } from "./booking-rules";
+import { getCancellationPolicy, recordPenalty } from "./penalties";
+import { calculateRefund, isLateCancellation } from "./utils/cancellation-policy";
+import { holdBlocks } from "./utils/waitlist";
+import { preparePartners, sendPartnerInvites } from "./partners";
+import { deleteLessonJournalDrafts } from "./journal";
+import {
+  sendBookingCancellationEmail,
+  sendBookingChangeEmail,
+  sendBookingConfirmationEmail,
+} from "./auth/email-service";
+import { renderReservationInvite } from "./calendar";
+import { quoteReservation } from "./pricing";
+import { Payment } from "../types/payment";
+import { recordAudit } from "./audit";
+import { AuditContext } from "../types/audit";
+
+// Court lookups live in ./courts; re-exported for existing callers
+export { getAllCourts, getCourt };
 
 /**
  * Get all reservations
@@ -102,17 +70,19 @@ export async function getAvailabilityByDate(date: string) {
     return cached;
   }
 
-  const [courts, reservations] = await Promise.all([
+  const [courts, reservations, closures, holds] = await Promise.all([
     getAllCourts(),
     getReservationsByDate(date),
+    getClosuresForDate(date),
+    getActiveHolds(date),
   ]);
 
-  const timeSlots = generateTimeSlots();
-
   const availability = courts.map((court) => {
     const courtReservations = reservations.filter((r) => r.courtId === court.id);
+    const courtClosures = closures.filter((c) => c.courtId === court.id);
+    const hours = getHoursForDate(court.schedule, date);
 
-    const slots = timeSlots.map((slot) => {
+    const slots = generateTimeSlots(court.schedule, date).map((slot) => {
       // Use time range overlap detection instead of exact match
       const isReserved = courtReservations.some((r) =>
         timeRangesOverlap(
@@ -123,9 +93,18 @@ export async function getAvailabilityByDate(date: string) {
         )
       );
 
+      const isClosed = courtClosures.some((c) =>
+        closureBlocks(c, court.id, date, slot.start, slot.end)
+      );
+
+      // Slots held for a waitlisted member are taken until the hold expires
+      const isHeld = holds.some((h) =>
+        holdBlocks(h, court.id, date, slot.start, slot.end)
+      );
+
       return {
         ...slot,
-        available: !isReserved && court.available,
+        available: !isReserved && !isClosed && !isHeld && court.available,
       };
     });
 
@@ -133,6 +112,15 @@ export async function getAvailabilityByDate(date: string) {
       courtId: court.id,
       courtName: court.name,
       courtType: court.type,
+      hours: hours ? { open: hours.open, close: hours.close } : null,
+      slotDurationMinutes: hours?.slotDurationMinutes ?? null,
+      closedReason: hours ? undefined : getClosedReason(court.schedule, date),
+      closures: courtClosures.map((c) => ({
+        start: c.startTime || hours?.open || "00:00",
+        end: c.endTime || hours?.close || "24:00",
+        kind: c.kind,
+        reason: c.reason,
+      })),
       slots,
     };
   });
@@ -147,6 +135,8 @@ export async function getAvailabilityByDate(date: string) {
  * Create a new reservation
  * Supports both member and guest reservations
  * Phase 4: Integrates payment validation - if paymentId is provided, payment must be paid
+ * Enforces the booking rules unless an admin overrides them (rulesOverriddenBy)
+ * Invites any doubles partners once the court is booked
  */
 export async function createReservation(
   reservationData: ReservationRequest
@@ -165,6 +155,11 @@ export async function createReservation(
     }
   }
 
+  // Advance window, per-member caps and lead time (admins may book past them)
+  if (!reservationData.rulesOverriddenBy) {
+    await enforceBookingRules(reservationData);
+  }
+
   // Phase 4: Validate payment if paymentId is provided
   let paymentId: string | undefined;
   let paymentStatus: "pending" | "paid" | "refunded" | "failed" | undefined;
@@ -175,7 +170,12 @@ export async function createReservation(
       const payment = await getPayment(reservationData.paymentId);
       
       // Verify payment is for the correct member (if member reservation)
-      if (reservationData.memberId && payment.memberId !== reservationData.memberId) {
+      // A parent's payment on behalf of the member also counts
+      if (
+        reservationData.memberId &&
+        payment.memberId !== reservationData.memberId &&
+        payment.onBehalfOfMemberId !== reservationData.memberId
+      ) {
         throw new ValidationError("Payment does not belong to the specified member");
       }
 
@@ -189,6 +189,22 @@ export async function createReservation(
         throw new ValidationError(`Payment type must be 'court_booking' for reservations. Current type: ${payment.type}`);
       }
 
+      // A payment backs a single reservation
+      const linked =
+        payment.reservationId ||
+        (await reservationRepository.findAll()).find((r) => r.paymentId === payment.id)?.id;
+      if (linked) {
+        throw new ValidationError(`Payment is already used for reservation ${linked}`);
+      }
+
+      // The payment must cover the server-side price of this booking
+      const quote = await quoteReservation(reservationData);
+      if (payment.amount < quote.total) {
+        throw new ValidationError(
+          `Payment of ${payment.amount} does not cover the booking price of ${quote.total}`
+        );
+      }
+
       paymentId = payment.id;
       paymentStatus = payment.status as "pending" | "paid" | "refunded" | "failed";
       paymentAmount = payment.amount;
@@ -208,6 +224,52 @@ export async function createReservation(
   if (!court) {
     throw new ValidationError(`Court ${reservationData.courtId} not found`);
   }
+  if (court.retired) {
+    throw new ValidationError(`${court.name} has been retired`);
+  }
+
+  // Reservation must fall inside the court's operating hours for that date
+  const hours = getHoursForDate(court.schedule, reservationData.date);
+  if (!hours) {
+    throw new ValidationError(
+      `${court.name} is closed on ${reservationData.date}`
+    );
+  }
+  if (
+    !isWithinOperatingHours(
+      court.schedule,
+      reservationData.date,
+      reservationData.timeSlot.start,
+      reservationData.timeSlot.end
+    )
+  ) {
+    throw new ValidationError(
+      `${court.name} is only open ${hours.open}-${hours.close} on ${reservationData.date}`
+    );
+  }
+
+  // Slot may be held for another member from the waitlist
+  const hold = await findBlockingHold(
+    reservationData.courtId,
+    reservationData.date,
+    reservationData.timeSlot.start,
+    reservationData.timeSlot.end,
+    reservationData.memberId
+  );
+  if (hold) {
+    throw new ConflictError(
+      `Time slot is held for a waitlisted member until ${hold.hold!.expiresAt}`
+    );
+  }
+
+  // Partners are checked before the court is booked
+  let participants: ReservationParticipant[] | undefined;
+  if (reservationData.partners?.length) {
+    participants = await preparePartners(reservationData.partners, {
+      memberId: reservationData.memberId,
+      email: reservationData.guestEmail || reservationData.customerEmail,
+    });
+  }
 
   // Prepare reservation data for repository
   const reservationPayload: Omit<Reservation, "id" | "createdAt" | "status"> = {
@@ -218,6 +280,23 @@ export async function createReservation(
     notes: reservationData.notes,
   };
 
+  if (reservationData.rulesOverriddenBy) {
+    reservationPayload.rulesOverriddenBy = reservationData.rulesOverriddenBy;
+  }
+
+  if (participants) {
+    reservationPayload.participants = participants;
+  }
+  if (reservationData.splitPayment) {
+    reservationPayload.splitPayment = true;
+  }
+
+  // Lessons also book the coach; the repository rejects double-booked coaches
+  if (reservationData.coachId) {
+    reservationPayload.coachId = reservationData.coachId;
+    reservationPayload.lessonTypeId = reservationData.lessonTypeId;
+  }
+
   // Add payment fields (Phase 4)
   if (paymentId) {
     reservationPayload.paymentId = paymentId;
@@ -228,6 +307,9 @@ export async function createReservation(
   // Add member or guest information
   if (reservationData.memberId) {
     reservationPayload.memberId = reservationData.memberId;
+    if (reservationData.bookedBy && reservationData.bookedBy !== reservationData.memberId) {
+      reservationPayload.bookedBy = reservationData.bookedBy;
+    }
   } else {
     // Use guest fields, prefer new naming but support old for backward compatibility
     reservationPayload.guestName = reservationData.guestName || reservationData.customerName;
@@ -240,15 +322,154 @@ export async function createReservation(
     reservationPayload.customerPhone = reservationPayload.guestPhone;
   }
 
-  return reservationRepository.create(reservationPayload);
+  const reservation = await reservationRepository.create(reservationPayload);
+
+  // Booking a held slot completes the member's waitlist entry
+  try {
+    await fulfillHold(reservation);
+  } catch (error) {
+    console.error(`Failed to update waitlist for reservation ${reservation.id}:`, error);
+  }
+
+  const contact = await getReservationContact(reservation);
+  if (contact) {
+    await sendBookingConfirmationEmail(
+      contact.email,
+      contact.name,
+      {
+        courtName: reservation.courtName,
+        date: reservation.date,
+        start: reservation.timeSlot.start,
+        end: reservation.timeSlot.end,
+        amount: reservation.paymentAmount,
+      },
+      renderReservationInvite(reservation, "REQUEST", contact)
+    );
+  }
+
+  if (participants) {
+    await sendPartnerInvites(reservation, participants);
+  }
+
+  return reservation;
+}
+
+/**
+ * Check a reservation's new court, date or time before it is moved
+ * Re-applies the new-booking checks: operating hours, waitlist holds and the
+ * booking rules (admins may move past them). A paid booking can't move to a
+ * slot that costs more than was paid. The repository rejects closures and
+ * conflicting reservations when the move is saved.
+ * @param adminOverride Set when an admin is moving the booking
+ * @returns The reservation as it will be after the move
+ * @throws ValidationError if the move breaks a rule
+ * @throws ConflictError if the new slot is held for a waitlisted member
+ */
+export async function validateReservationMove(
+  reservation: Reservation,
+  move: Partial<Pick<Reservation, "courtId" | "date" | "timeSlot">>,
+  adminOverride = false
+): Promise<Reservation> {
+  const moved: Reservation = {
+    ...reservation,
+    courtId: move.courtId || reservation.courtId,
+    date: move.date || reservation.date,
+    timeSlot: move.timeSlot || reservation.timeSlot,
+  };
+
+  if (reservation.status === "cancelled") {
+    throw new ValidationError("Cannot move a cancelled reservation");
+  }
+  if (!moved.timeSlot.start || !moved.timeSlot.end || moved.timeSlot.start >= moved.timeSlot.end) {
+    throw new ValidationError("Time slot must have a start before its end");
+  }
+
+  const court = await getCourt(moved.courtId);
+  if (!court) {
+    throw new ValidationError(`Court ${moved.courtId} not found`);
+  }
+  if (court.retired) {
+    throw new ValidationError(`${court.name} has been retired`);
+  }
+  moved.courtName = court.name;
+
+  const hours = getHoursForDate(court.schedule, moved.date);
+  if (!hours) {
+    throw new ValidationError(`${court.name} is closed on ${moved.date}`);
+  }
+  if (!isWithinOperatingHours(court.schedule, moved.date, moved.timeSlot.start, moved.timeSlot.end)) {
+    throw new ValidationError(
+      `${court.name} is only open ${hours.open}-${hours.close} on ${moved.date}`
+    );
+  }
+
+  const hold = await findBlockingHold(
+    moved.courtId,
+    moved.date,
+    moved.timeSlot.start,
+    moved.timeSlot.end,
+    moved.memberId
+  );
+  if (hold) {
+    throw new ConflictError(
+      `Time slot is held for a waitlisted member until ${hold.hold!.expiresAt}`
+    );
+  }
+
+  if (adminOverride) {
+    return moved;
+  }
+
+  if (!reservation.rulesOverriddenBy) {
+    await enforceBookingRules(moved, new Date(), reservation.id);
+  }
+
+  if (reservation.paymentStatus === "paid") {
+    const quote = await quoteReservation(moved);
+    if (quote.total > (reservation.paymentAmount || 0)) {
+      throw new ValidationError(
+        "The new time costs more than was paid; cancel and book it instead"
+      );
+    }
+  }
+
+  return moved;
+}
+
+/**
+ * Email address and first name to notify about a reservation
+ * Members are looked up; guests use the contact details on the booking.
+ */
+async function getReservationContact(
+  reservation: Reservation
+): Promise<{ email: string; name: string } | null> {
+  if (reservation.memberId) {
+    try {
+      const member = await getMember(reservation.memberId);
+      return { email: member.email, name: member.firstName };
+    } catch {
+      return null;
+    }
+  }
+
+  const email = reservation.guestEmail || reservation.customerEmail;
+  const name = reservation.guestName || reservation.customerName;
+  return email ? { email, name: name?.split(" ")[0] || "there" } : null;
 }
 
 /**
  * Cancel a reservation
- * Tracks penalty cancellations for member reservations
- * Phase 4: Handles refunds based on cancellation policy
+ * Refunds paid bookings and penalizes late member cancellations
+ * (unless penalize is false) according to the cancellation policy
+ * Emails the member or guest (unless notify is false)
+ * Offers the freed slot to the waitlist
+ * Records the cancellation and its refunds in the audit log when audit is given
+ * @throws ValidationError if the reservation is already cancelled (so it isn't refunded twice)
  */
-export async function cancelReservation(reservationId: string): Promise<boolean> {
+export async function cancelReservation(
+  reservationId: string,
+  options: { penalize?: boolean; notify?: boolean; audit?: AuditContext } = {}
+): Promise<boolean> {
   // Get reservation before deleting
   const reservation = await reservationRepository.findById(reservationId);
   
@@ -256,85 +477,206 @@ export async function cancelReservation(reservationId: string): Promise<boolean>
     return false;
   }
 
+  if (reservation.status === "cancelled") {
+    throw new ValidationError("Reservation is already cancelled");
+  }
+
+  const policy = await getCancellationPolicy();
+  const reservationDate = new Date(`${reservation.date}T${reservation.timeSlot.start}`);
+  const hoursUntilReservation = differenceInHours(reservationDate, new Date());
+
   // Phase 4: Process refund if payment exists
-  if (reservation.paymentId && reservation.paymentStatus === "paid") {
-    try {
-      // Calculate hours until reservation
-      const reservationDate = new Date(`${reservation.date}T${reservation.timeSlot.start}`);
-      const now = new Date();
-      const hoursUntilReservation = differenceInHours(reservationDate, now);
-
-      // Cancellation policy:
-      // - Full refund if cancelled 24+ hours before reservation
-      // - 50% refund if cancelled 12-24 hours before reservation
-      // - No refund if cancelled less than 12 hours before reservation
-      let refundAmount: number | undefined;
-      let refundReason: string;
-
-      if (hoursUntilReservation >= 24) {
-        // Full refund
-        refundAmount = reservation.paymentAmount;
-        refundReason = "Cancellation 24+ hours before reservation";
-      } else if (hoursUntilReservation >= 12) {
-        // 50% refund
-        refundAmount = Math.floor((reservation.paymentAmount || 0) * 0.5);
-        refundReason = "Cancellation 12-24 hours before reservation (50% refund)";
-      } else {
-        // No refund
-        refundReason = "Cancellation less than 12 hours before reservation (no refund)";
+  // Split reservations refund each share that was paid
+  let refundedPayment: Payment | undefined;
+  for (const fee of await getPaidCourtFees(reservation)) {
+    const refund = calculateRefund(policy, fee.amount, hoursUntilReservation);
+
+    if (refund.amount > 0) {
+      try {
+        const refunded = await processRefund(
+          {
+            paymentId: fee.paymentId,
+            amount: refund.amount,
+            reason: refund.reason,
+          },
+          options.audit
+        );
+        if (!fee.paidByPartner) {
+          refundedPayment = refunded;
+        }
+      } catch (refundError) {
+        // Log refund error but don't fail cancellation
+        console.error(`Failed to process refund for payment ${fee.paymentId}:`, refundError);
       }
+    }
+  }
 
-      // Process refund if applicable
-      if (refundAmount && refundAmount > 0) {
-        try {
-          await processRefund({
-            paymentId: reservation.paymentId,
-            amount: refundAmount,
-            reason: refundReason,
-          });
-        } catch (refundError) {
-          // Log refund error but don't fail cancellation
-          console.error(`Failed to process refund for payment ${reservation.paymentId}:`, refundError);
-          // Update reservation payment status to indicate refund attempt failed
-          // (reservation will still be cancelled)
-        }
+  // Only late member cancellations count as penalties
+  if (
+    reservation.memberId &&
+    options.penalize !== false &&
+    isLateCancellation(policy, hoursUntilReservation)
+  ) {
+    try {
+      await recordPenalty(reservation, "late_cancellation", hoursUntilReservation);
+    } catch (error) {
+      // Log error but don't fail cancellation if the penalty can't be recorded
+      console.error(`Failed to record penalty for reservation ${reservationId}:`, error);
+    }
+  }
+
+  const deleted = await reservationRepository.delete(reservationId);
+  // The cancelled copy carries the bumped sequence the invite needs
+  const cancelled = deleted
+    ? (await reservationRepository.findById(reservationId)) || reservation
+    : reservation;
+
+  if (deleted && options.audit) {
+    await recordAudit(
+      options.audit,
+      "reservation.cancel",
+      "reservation",
+      reservationId,
+      reservation,
+      cancelled
+    );
+  }
+
+  if (deleted && options.notify !== false) {
+    const contact = await getReservationContact(reservation);
+    if (contact) {
+      await sendBookingCancellationEmail(
+        contact.email,
+        contact.name,
+        {
+          courtName: reservation.courtName,
+          date: reservation.date,
+          start: reservation.timeSlot.start,
+          end: reservation.timeSlot.end,
+        },
+        refundedPayment?.refundAmount
+          ? { amount: refundedPayment.refundAmount, currency: refundedPayment.currency }
+          : undefined,
+        renderReservationInvite(cancelled, "CANCEL", contact)
+      );
+    }
+
+    // Partners who were still coming hear about it too
+    for (const participant of reservation.participants || []) {
+      if (participant.status !== "declined") {
+        await sendBookingCancellationEmail(
+          participant.email,
+          participant.name?.split(" ")[0] || "there",
+          {
+            courtName: reservation.courtName,
+            date: reservation.date,
+            start: reservation.timeSlot.start,
+            end: reservation.timeSlot.end,
+          },
+          undefined,
+          renderReservationInvite(cancelled, "CANCEL", { email: participant.email, name: participant.name })
+        );
       }
+    }
+  }
+
+  // A cancelled lesson won't be written up
+  if (deleted && reservation.coachId) {
+    try {
+      await deleteLessonJournalDrafts(reservation);
     } catch (error) {
-      // Log payment error but don't fail cancellation
-      console.error(`Failed to process refund for reservation ${reservationId}:`, error);
+      console.error(`Failed to remove journal draft for lesson ${reservationId}:`, error);
     }
   }
 
-  // Increment penalty cancellations if member reservation
-  if (reservation.memberId) {
+  // Offer the freed slot to the first member on the waitlist
+  if (deleted) {
     try {
-      const member = await getMember(reservation.memberId);
-      await updateMember(reservation.memberId, {
-        penaltyCancellations: (member.penaltyCancellations || 0) + 1,
-      });
+      await offerFreedSlot(reservation);
     } catch (error) {
-      // Log error but don't fail cancellation if member update fails
-      console.error(`Failed to update penalty cancellations for member ${reservation.memberId}:`, error);
+      // Log error but don't fail cancellation if the waitlist update fails
+      console.error(`Failed to offer freed slot from reservation ${reservationId}:`, error);
     }
   }
 
-  return reservationRepository.delete(reservationId);
+  return deleted;
 }
 
-export async function getAllCourts(): Promise<Court[]> {
-  await ensureDataFiles();
-  try {
-    const data = await fs.readFile(COURTS_FILE, "utf-8");
-    return JSON.parse(data);
-  } catch (error) {
-    console.error("Error reading courts:", error);
-    return [];
+/**
+ * Email the booker and accepted partners the new details of a moved
+ * reservation, with an updated calendar invite
+ */
+export async function notifyReservationChanged(
+  before: Reservation,
+  after: Reservation
+): Promise<void> {
+  const booking = {
+    courtName: after.courtName,
+    date: after.date,
+    start: after.timeSlot.start,
+    end: after.timeSlot.end,
+  };
+  const previous = {
+    courtName: before.courtName,
+    date: before.date,
+    start: before.timeSlot.start,
+    end: before.timeSlot.end,
+  };
+
+  const contact = await getReservationContact(after);
+  if (contact) {
+    await sendBookingChangeEmail(
+      contact.email,
+      contact.name,
+      booking,
+      previous,
+      renderReservationInvite(after, "REQUEST", contact)
+    );
   }
+
+  for (const participant of after.participants || []) {
+    if (participant.status === "accepted") {
+      await sendBookingChangeEmail(
+        participant.email,
+        participant.name?.split(" ")[0] || "there",
+        booking,
+        previous,
+        renderReservationInvite(after, "REQUEST", { email: participant.email, name: participant.name })
+      );
+    }
+  }
+}
+
+/**
+ * Paid court fees to refund when a reservation is cancelled
+ * Split reservations have a payment per share; partners' own payments are
+ * flagged because the cancellation email only reports the booker's refund.
+ */
+async function getPaidCourtFees(
+  reservation: Reservation
+): Promise<Array<{ paymentId: string; amount: number; paidByPartner: boolean }>> {
+  if (!reservation.splitPayment) {
+    return reservation.paymentId && reservation.paymentStatus === "paid"
+      ? [{ paymentId: reservation.paymentId, amount: reservation.paymentAmount || 0, paidByPartner: false }]
+      : [];
+  }
+
+  const partnerIds = new Set((reservation.participants || []).map((p) => p.memberId).filter(Boolean));
+  return (await getReservationPayments(reservation.id))
+    .filter((p) => p.status === "paid" && p.type === "court_booking")
+    .map((p) => ({
+      paymentId: p.id,
+      amount: p.amount,
+      paidByPartner: !!p.memberId && partnerIds.has(p.memberId),
+    }));
 }
 
-export async function getCourt(courtId: string): Promise<Court | null> {
-  const courts = await getAllCourts();
-  return courts.find((c) => c.id === courtId) || null;
+function getClosedReason(
+  schedule: CourtSchedule | undefined,
+  date: string
+): string | undefined {
+  const override = (schedule?.overrides || []).find((o) => o.date === date);
+  return override?.reason;
 }
 
 /**
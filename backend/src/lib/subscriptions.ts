@@ -0,0 +1,265 @@
+/**
+ * Business logic layer for membership plans and subscriptions
+ *
+ * Stripe owns billing; we keep a copy of each subscription's plan, period
+ * and status, kept current by webhooks. Members on a trialing or active plan
+ * hold its entitlements (booking window, court discount), and a family plan
+ * extends them to the holder's linked players.
+ */
+
+import Stripe from "stripe";
+import { format } from "date-fns";
+import { Member } from "../types/member";
+import {
+  MembershipEntitlements,
+  MembershipPlan,
+  Subscription,
+} from "../types/membership";
+import { subscriptionRepository } from "./repositories/file-subscription-repository";
+import { getMember, updateMember } from "./members";
+import { getAge } from "./guardians";
+import {
+  createCustomer,
+  createSubscription,
+  getStripePriceId,
+  setCancelAtPeriodEnd,
+} from "./payments/stripe-client";
+import { SubscriptionError, SubscriptionNotFoundError } from "./errors/payment-errors";
+import {
+  ENTITLED_STATUSES,
+  getPlan,
+  isBillingInterval,
+  MEMBERSHIP_PLANS,
+  planAppliesOn,
+  toSubscriptionStatus,
+} from "./utils/membership-plans";
+
+export interface MembershipSummary {
+  subscription: Subscription | null;    // Member's own current subscription
+  plan: MembershipPlan | null;          // Plan of that subscription
+  entitlements: MembershipEntitlements | null; // What applies today (own or family plan)
+}
+
+export interface SubscribeResult {
+  subscription: Subscription;
+  clientSecret?: string;                // Collect the first payment (omitted for trials)
+}
+
+function toIso(seconds: number | null | undefined): string | undefined {
+  return seconds ? new Date(seconds * 1000).toISOString() : undefined;
+}
+
+function toEntitlements(
+  subscription: Subscription,
+  plan: MembershipPlan,
+  coveredBy?: string
+): MembershipEntitlements {
+  return {
+    ...plan.entitlements,
+    planId: plan.id,
+    planName: plan.name,
+    subscriptionId: subscription.id,
+    coveredBy,
+  };
+}
+
+/**
+ * List the plans members can subscribe to
+ */
+export function listPlans(): MembershipPlan[] {
+  return MEMBERSHIP_PLANS;
+}
+
+/**
+ * Get a member's current (not yet canceled) subscription
+ */
+export async function getCurrentSubscription(memberId: string): Promise<Subscription | null> {
+  const subscriptions = await subscriptionRepository.findByMember(memberId);
+  return subscriptions.find((s) => s.status !== "canceled") || null;
+}
+
+/**
+ * Get the plan entitlements a member holds for a booking date
+ * Their own plan wins; otherwise a linked parent's family plan applies.
+ * @returns Entitlements, or null if no plan covers the date
+ */
+export async function getEntitlements(
+  member: Pick<Member, "id" | "guardianIds">,
+  date: string
+): Promise<MembershipEntitlements | null> {
+  const holders = [member.id, ...(member.guardianIds || [])];
+
+  for (const holderId of holders) {
+    const subscription = await getCurrentSubscription(holderId);
+    if (!subscription || !ENTITLED_STATUSES.includes(subscription.status)) {
+      continue;
+    }
+
+    const plan = getPlan(subscription.planId);
+    if (!plan || !planAppliesOn(plan, date)) {
+      continue;
+    }
+
+    if (holderId === member.id) {
+      return toEntitlements(subscription, plan);
+    }
+    if (plan.coversLinkedPlayers) {
+      return toEntitlements(subscription, plan, holderId);
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Get a member's subscription, plan and today's entitlements
+ * @throws MemberNotFoundError if the member doesn't exist
+ */
+export async function getMembershipSummary(
+  memberId: string,
+  now: Date = new Date()
+): Promise<MembershipSummary> {
+  const member = await getMember(memberId);
+  const subscription = await getCurrentSubscription(memberId);
+
+  return {
+    subscription,
+    plan: subscription ? getPlan(subscription.planId) : null,
+    entitlements: await getEntitlements(member, format(now, "yyyy-MM-dd")),
+  };
+}
+
+/**
+ * Start a membership subscription
+ * @throws SubscriptionError for an unknown plan or interval, an ineligible
+ *   member, or a member who already has a subscription
+ * @throws MemberNotFoundError if the member doesn't exist
+ * @throws StripeError if Stripe rejects the request
+ */
+export async function subscribe(
+  memberId: string,
+  planId: unknown,
+  interval: unknown,
+  now: Date = new Date()
+): Promise<SubscribeResult> {
+  const plan = typeof planId === "string" ? getPlan(planId) : null;
+  if (!plan) {
+    throw new SubscriptionError(
+      `Membership plan must be one of: ${MEMBERSHIP_PLANS.map((p) => p.id).join(", ")}`
+    );
+  }
+  if (!isBillingInterval(interval) || plan.prices[interval] === undefined) {
+    const offered = Object.keys(plan.prices).join(" or ");
+    throw new SubscriptionError(`The ${plan.name} plan is billed by the ${offered}`);
+  }
+
+  const member = await getMember(memberId);
+
+  if (plan.maxAge !== undefined) {
+    const age = getAge(member.dateOfBirth, now);
+    if (age === null || age >= plan.maxAge) {
+      throw new SubscriptionError(
+        `The ${plan.name} plan is for players under ${plan.maxAge}` +
+          (age === null ? " (add your date of birth to your profile)" : "")
+      );
+    }
+  }
+
+  const current = await getCurrentSubscription(memberId);
+  if (current) {
+    throw new SubscriptionError(
+      `You already have a ${getPlan(current.planId)?.name ?? current.planId} membership`
+    );
+  }
+
+  let customerId = member.stripeCustomerId;
+  if (!customerId) {
+    customerId = await createCustomer({
+      memberId,
+      email: member.email,
+      name: `${member.firstName} ${member.lastName}`,
+    });
+    await updateMember(memberId, { stripeCustomerId: customerId });
+  }
+
+  const { subscription: stripeSubscription, clientSecret } = await createSubscription({
+    customerId,
+    priceId: getStripePriceId(plan.id, interval),
+    trialDays: plan.trialDays,
+    metadata: { memberId, planId: plan.id, interval },
+  });
+
+  const subscription = await subscriptionRepository.create({
+    memberId,
+    planId: plan.id,
+    interval,
+    status: toSubscriptionStatus(stripeSubscription.status),
+    stripeCustomerId: customerId,
+    stripeSubscriptionId: stripeSubscription.id,
+    currentPeriodStart: toIso(stripeSubscription.current_period_start) || now.toISOString(),
+    currentPeriodEnd: toIso(stripeSubscription.current_period_end) || now.toISOString(),
+    cancelAtPeriodEnd: stripeSubscription.cancel_at_period_end,
+    trialEnd: toIso(stripeSubscription.trial_end),
+  });
+
+  return { subscription, clientSecret };
+}
+
+/**
+ * Cancel (or undo cancelling) a member's subscription at the end of the period
+ * The plan and its entitlements stay in effect until the renewal date.
+ * @throws SubscriptionNotFoundError if the member has no current subscription
+ * @throws StripeError if Stripe rejects the request
+ */
+export async function setSubscriptionCancellation(
+  memberId: string,
+  cancelAtPeriodEnd: boolean
+): Promise<Subscription> {
+  const current = await getCurrentSubscription(memberId);
+  if (!current) {
+    throw new SubscriptionNotFoundError("You don't have a current membership");
+  }
+
+  if (current.cancelAtPeriodEnd === cancelAtPeriodEnd) {
+    return current;
+  }
+
+  if (current.stripeSubscriptionId) {
+    await setCancelAtPeriodEnd(current.stripeSubscriptionId, cancelAtPeriodEnd);
+  }
+
+  const updated = await subscriptionRepository.update(current.id, { cancelAtPeriodEnd });
+  if (!updated) {
+    throw new SubscriptionNotFoundError();
+  }
+  return updated;
+}
+
+/**
+ * Copy a Stripe subscription's status and period onto our record
+ * @returns Updated subscription, or null if it isn't one of ours
+ */
+export async function syncStripeSubscription(
+  stripeSubscription: Stripe.Subscription
+): Promise<Subscription | null> {
+  const subscription = await subscriptionRepository.findByStripeSubscriptionId(
+    stripeSubscription.id
+  );
+  if (!subscription) {
+    return null;
+  }
+
+  const status = toSubscriptionStatus(stripeSubscription.status);
+  return subscriptionRepository.update(subscription.id, {
+    status,
+    currentPeriodStart:
+      toIso(stripeSubscription.current_period_start) || subscription.currentPeriodStart,
+    currentPeriodEnd: toIso(stripeSubscription.current_period_end) || subscription.currentPeriodEnd,
+    cancelAtPeriodEnd: stripeSubscription.cancel_at_period_end,
+    trialEnd: toIso(stripeSubscription.trial_end),
+    canceledAt:
+      status === "canceled"
+        ? toIso(stripeSubscription.ended_at) || subscription.canceledAt || new Date().toISOString()
+        : undefined,
+  });
+}
@@ -0,0 +1,89 @@
+/**
+ * Transcript trimming and titles for AI conversation threads
+ *
+ * Trimming works on whole turns: a user message plus everything the model
+ * and tools produced until the next user message. Dropping whole turns keeps
+ * tool calls next to their results and every transcript starting on a user
+ * message, which is what the providers expect.
+ */
+
+import { LLMMessage } from "../../types/llm";
+
+export const TITLE_MAX_LENGTH = 60;
+
+/**
+ * Rough token count for a message (about four characters per token)
+ */
+export function estimateTokens(message: LLMMessage): number {
+  let text: string;
+  if (message.role === "tool") {
+    text = JSON.stringify(message.results);
+  } else if (message.role === "assistant" && message.toolCalls) {
+    text = message.content + JSON.stringify(message.toolCalls);
+  } else {
+    text = message.content;
+  }
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * Group messages into turns, each starting with a user message
+ * Messages before the first user message belong to no turn and are dropped.
+ */
+export function splitIntoTurns<T extends LLMMessage>(messages: T[]): T[][] {
+  const turns: T[][] = [];
+  for (const message of messages) {
+    if (message.role === "user") {
+      turns.push([message]);
+    } else if (turns.length > 0) {
+      turns[turns.length - 1].push(message);
+    }
+  }
+  return turns;
+}
+
+/**
+ * Keep the newest whole turns that fit in the token budget
+ */
+export function fitToTokenBudget<T extends LLMMessage>(messages: T[], budget: number): T[] {
+  const turns = splitIntoTurns(messages);
+  const kept: T[][] = [];
+  let used = 0;
+
+  for (let i = turns.length - 1; i >= 0; i--) {
+    const cost = turns[i].reduce((sum, message) => sum + estimateTokens(message), 0);
+    if (used + cost > budget) {
+      break;
+    }
+    used += cost;
+    kept.unshift(turns[i]);
+  }
+
+  return kept.flat();
+}
+
+/**
+ * Drop the oldest whole turns until at most `limit` messages remain
+ * The newest turn is always kept, even when it alone is over the limit.
+ */
+export function trimToMessageLimit<T extends LLMMessage>(messages: T[], limit: number): T[] {
+  const turns = splitIntoTurns(messages);
+  let count = turns.reduce((sum, turn) => sum + turn.length, 0);
+
+  while (turns.length > 1 && count > limit) {
+    count -= turns.shift()!.length;
+  }
+
+  return turns.flat();
+}
+
+/**
+ * Title a thread after its first message, on one line
+ */
+export function buildThreadTitle(message: string): string {
+  const title = message.replace(/\s+/g, " ").trim();
+  if (title.length <= TITLE_MAX_LENGTH) {
+    return title || "New conversation";
+  }
+  return `${title.slice(0, TITLE_MAX_LENGTH - 1).trimEnd()}…`;
+}
@@ -0,0 +1,51 @@
+/**
+ * Audit diffs: which fields of a record a change touched
+ */
+
+import { AuditChange } from "../../types/audit";
+
+/**
+ * Bookkeeping fields that change on every write
+ */
+const IGNORED_FIELDS = ["id", "createdAt", "updatedAt", "lastModified", "sequence"];
+
+/**
+ * Secrets are noted as changed but their values are never logged
+ */
+const REDACTED_FIELDS = ["passwordHash", "calendarToken"];
+
+export const REDACTED_VALUE = "[redacted]";
+
+/**
+ * Compare two versions of a record field by field
+ * @param before The record before the change, or null when it was created
+ * @param after The record after the change
+ * @returns Changed fields only; empty when nothing changed
+ */
+export function diffRecords(
+  before: object | null,
+  after: object | null
+): Record<string, AuditChange> {
+  const previous = (before || {}) as Record<string, unknown>;
+  const next = (after || {}) as Record<string, unknown>;
+  const fields = new Set([...Object.keys(previous), ...Object.keys(next)]);
+  const changes: Record<string, AuditChange> = {};
+
+  for (const field of fields) {
+    if (IGNORED_FIELDS.includes(field)) {
+      continue;
+    }
+    if (JSON.stringify(previous[field]) === JSON.stringify(next[field])) {
+      continue;
+    }
+
+    changes[field] = REDACTED_FIELDS.includes(field)
+      ? {
+          before: previous[field] === undefined ? undefined : REDACTED_VALUE,
+          after: next[field] === undefined ? undefined : REDACTED_VALUE,
+        }
+      : { before: previous[field], after: next[field] };
+  }
+
+  return changes;
+}
@@ -0,0 +1,237 @@
+/**
+ * Booking rules: advance windows, per-member caps and lead time
+ */
+
+import {
+  differenceInCalendarDays,
+  differenceInMinutes,
+  format,
+  isSameWeek,
+  parseISO,
+} from "date-fns";
+import { BookerType, BookingRules, Reservation } from "../../types/reservation";
+import { ValidationError } from "../errors/reservation-errors";
+import { isActiveReservation } from "./reservation-status";
+
+export const BOOKER_TYPES: BookerType[] = ["player", "coach", "parent", "admin", "guest"];
+
+const BOOKER_LABELS: Record<BookerType, string> = {
+  player: "Players",
+  coach: "Coaches",
+  parent: "Parents",
+  admin: "Admins",
+  guest: "Guests",
+};
+
+/**
+ * Rules used until an admin sets them: nothing is limited beyond plan booking windows
+ */
+export const DEFAULT_BOOKING_RULES: BookingRules = {
+  advanceWindowDays: {
+    player: null,
+    coach: null,
+    parent: null,
+    admin: null,
+    guest: null,
+  },
+  maxActiveReservations: null,
+  maxHoursPerDay: null,
+  maxHoursPerWeek: null,
+  minLeadMinutes: null,
+};
+
+/**
+ * What the rules need to know about the person booking
+ */
+export interface BookingContext {
+  bookerType: BookerType;
+  planWindow?: { planName: string; days: number }; // Membership plan booking window
+  reservations: Reservation[];                     // The member's existing reservations
+  restrictedUntil?: Date;                          // Booking suspended for penalties
+  now: Date;
+}
+
+function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(":").map(Number);
+  return hours * 60 + minutes;
+}
+
+function durationHours(timeSlot: { start: string; end: string }): number {
+  return (toMinutes(timeSlot.end) - toMinutes(timeSlot.start)) / 60;
+}
+
+function startsAt(date: string, time: string): Date {
+  return parseISO(`${date}T${time}`);
+}
+
+function sumHours(reservations: Reservation[]): number {
+  return reservations.reduce((total, r) => total + durationHours(r.timeSlot), 0);
+}
+
+function plural(count: number, noun: string): string {
+  return `${count} ${noun}${count === 1 ? "" : "s"}`;
+}
+
+/**
+ * Check a new booking against the rules
+ * Per-member caps count confirmed reservations only, and only apply when
+ * the booking is for a member. A penalty suspension blocks booking outright.
+ * @throws ValidationError naming the first rule the booking breaks
+ */
+export function checkBookingRules(
+  rules: BookingRules,
+  booking: Pick<Reservation, "date" | "timeSlot">,
+  context: BookingContext
+): void {
+  const { now } = context;
+  const start = startsAt(booking.date, booking.timeSlot.start);
+
+  if (context.restrictedUntil && context.restrictedUntil > now) {
+    throw new ValidationError(
+      `Booking is suspended until ${format(context.restrictedUntil, "MMMM d, yyyy")} ` +
+        "after repeated late cancellations or no-shows"
+    );
+  }
+
+  if (rules.minLeadMinutes !== null && differenceInMinutes(start, now) < rules.minLeadMinutes) {
+    throw new ValidationError(
+      rules.minLeadMinutes > 0
+        ? `Bookings must start at least ${plural(rules.minLeadMinutes, "minute")} from now`
+        : "Cannot book a time that has already started"
+    );
+  }
+
+  const daysAhead = differenceInCalendarDays(parseISO(booking.date), now);
+  if (context.planWindow) {
+    if (daysAhead > context.planWindow.days) {
+      throw new ValidationError(
+        `${context.planWindow.planName} members can book up to ${plural(context.planWindow.days, "day")} ahead`
+      );
+    }
+  } else {
+    const window = rules.advanceWindowDays[context.bookerType];
+    if (window !== null && window !== undefined && daysAhead > window) {
+      throw new ValidationError(
+        `${BOOKER_LABELS[context.bookerType]} can book up to ${plural(window, "day")} ahead`
+      );
+    }
+  }
+
+  if (context.bookerType === "guest") {
+    return;
+  }
+
+  const confirmed = context.reservations.filter(isActiveReservation);
+
+  if (rules.maxActiveReservations !== null) {
+    const upcoming = confirmed.filter((r) => startsAt(r.date, r.timeSlot.end) > now);
+    if (upcoming.length >= rules.maxActiveReservations) {
+      throw new ValidationError(
+        `Members can hold at most ${plural(rules.maxActiveReservations, "upcoming reservation")}`
+      );
+    }
+  }
+
+  const hours = durationHours(booking.timeSlot);
+
+  if (rules.maxHoursPerDay !== null) {
+    const sameDay = confirmed.filter((r) => r.date === booking.date);
+    if (sumHours(sameDay) + hours > rules.maxHoursPerDay) {
+      throw new ValidationError(
+        `Members can book at most ${plural(rules.maxHoursPerDay, "hour")} of court time per day`
+      );
+    }
+  }
+
+  if (rules.maxHoursPerWeek !== null) {
+    const bookingDay = parseISO(booking.date);
+    const sameWeek = confirmed.filter((r) =>
+      isSameWeek(parseISO(r.date), bookingDay, { weekStartsOn: 1 })
+    );
+    if (sumHours(sameWeek) + hours > rules.maxHoursPerWeek) {
+      throw new ValidationError(
+        `Members can book at most ${plural(rules.maxHoursPerWeek, "hour")} of court time per week`
+      );
+    }
+  }
+}
+
+function validateLimit(value: unknown, label: string, integer: boolean): number | null {
+  if (value === null) {
+    return null;
+  }
+  if (
+    typeof value !== "number" ||
+    !Number.isFinite(value) ||
+    value <= 0 ||
+    (integer && !Number.isInteger(value))
+  ) {
+    throw new ValidationError(
+      `${label} must be a positive ${integer ? "whole number" : "number"} or null for no limit`
+    );
+  }
+  return value;
+}
+
+/**
+ * Apply an admin's changes to the current rules
+ * Omitted fields keep their current value; null removes a limit.
+ * @throws ValidationError if a value is malformed
+ */
+export function mergeBookingRules(
+  current: BookingRules,
+  updates: Partial<BookingRules>
+): BookingRules {
+  if (!updates || typeof updates !== "object") {
+    throw new ValidationError("Booking rules are required");
+  }
+
+  const merged: BookingRules = {
+    ...current,
+    advanceWindowDays: { ...current.advanceWindowDays },
+  };
+
+  if (updates.advanceWindowDays !== undefined) {
+    if (!updates.advanceWindowDays || typeof updates.advanceWindowDays !== "object") {
+      throw new ValidationError("advanceWindowDays must map roles to a number of days");
+    }
+    for (const [type, days] of Object.entries(updates.advanceWindowDays)) {
+      if (!BOOKER_TYPES.includes(type as BookerType)) {
+        throw new ValidationError(
+          `advanceWindowDays roles must be one of: ${BOOKER_TYPES.join(", ")}`
+        );
+      }
+      if (days !== null && (typeof days !== "number" || !Number.isInteger(days) || days < 0)) {
+        throw new ValidationError(
+          `Advance window for ${type} must be a whole number of days or null for no limit`
+        );
+      }
+      merged.advanceWindowDays[type as BookerType] = days;
+    }
+  }
+
+  if (updates.maxActiveReservations !== undefined) {
+    merged.maxActiveReservations = validateLimit(
+      updates.maxActiveReservations,
+      "maxActiveReservations",
+      true
+    );
+  }
+  if (updates.maxHoursPerDay !== undefined) {
+    merged.maxHoursPerDay = validateLimit(updates.maxHoursPerDay, "maxHoursPerDay", false);
+  }
+  if (updates.maxHoursPerWeek !== undefined) {
+    merged.maxHoursPerWeek = validateLimit(updates.maxHoursPerWeek, "maxHoursPerWeek", false);
+  }
+  if (updates.minLeadMinutes !== undefined) {
+    const lead = updates.minLeadMinutes;
+    if (lead !== null && (typeof lead !== "number" || !Number.isInteger(lead) || lead < 0)) {
+      throw new ValidationError(
+        "minLeadMinutes must be a whole number of minutes (0 or more) or null for no limit"
+      );
+    }
+    merged.minLeadMinutes = lead;
+  }
+
+  return merged;
+}
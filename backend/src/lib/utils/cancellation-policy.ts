@@ -0,0 +1,165 @@
+/**
+ * Cancellation policy: refund tiers, late cancellations and penalty windows
+ */
+
+import { addDays, subDays } from "date-fns";
+import { CancellationPolicy, Penalty, RefundTier } from "../../types/penalty";
+import { ValidationError } from "../errors/reservation-errors";
+
+/**
+ * Policy used until an admin changes it
+ */
+export const DEFAULT_CANCELLATION_POLICY: CancellationPolicy = {
+  refundTiers: [
+    { minHoursBefore: 24, refundPercent: 100 },
+    { minHoursBefore: 12, refundPercent: 50 },
+  ],
+  lateCancellationHours: 24,
+  penaltyWindowDays: 90,
+  penaltyThreshold: 3,
+  restrictionDays: 14,
+};
+
+export interface RefundDecision {
+  amount: number;   // Cents to refund (0 = none)
+  reason: string;
+}
+
+/**
+ * Work out the refund for cancelling with hoursBefore hours of notice
+ */
+export function calculateRefund(
+  policy: CancellationPolicy,
+  paidAmount: number,
+  hoursBefore: number
+): RefundDecision {
+  const tier = [...policy.refundTiers]
+    .sort((a, b) => b.minHoursBefore - a.minHoursBefore)
+    .find((t) => hoursBefore >= t.minHoursBefore);
+
+  if (!tier || tier.refundPercent === 0) {
+    const shortest = Math.min(...policy.refundTiers.map((t) => t.minHoursBefore));
+    return {
+      amount: 0,
+      reason: Number.isFinite(shortest)
+        ? `Cancellation less than ${shortest} hours before reservation (no refund)`
+        : "Cancellation (no refund)",
+    };
+  }
+
+  return {
+    amount: Math.floor((paidAmount * tier.refundPercent) / 100),
+    reason: `Cancellation ${tier.minHoursBefore}+ hours before reservation (${tier.refundPercent}% refund)`,
+  };
+}
+
+/**
+ * Whether cancelling with hoursBefore hours of notice earns a penalty
+ */
+export function isLateCancellation(policy: CancellationPolicy, hoursBefore: number): boolean {
+  return hoursBefore < policy.lateCancellationHours;
+}
+
+/**
+ * Unwaived penalties inside the rolling window, newest first
+ */
+export function activePenalties(
+  penalties: Penalty[],
+  policy: CancellationPolicy,
+  now: Date
+): Penalty[] {
+  const windowStart = subDays(now, policy.penaltyWindowDays).toISOString();
+  return penalties
+    .filter((p) => !p.waivedAt && p.createdAt > windowStart)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+/**
+ * End of the booking suspension, if the member is suspended at `now`
+ * Reaching the threshold suspends booking for restrictionDays after the
+ * latest active penalty.
+ */
+export function getRestrictedUntil(
+  penalties: Penalty[],
+  policy: CancellationPolicy,
+  now: Date
+): Date | null {
+  const active = activePenalties(penalties, policy, now);
+  if (active.length < policy.penaltyThreshold) {
+    return null;
+  }
+
+  const until = addDays(new Date(active[0].createdAt), policy.restrictionDays);
+  return until > now ? until : null;
+}
+
+function validateWholeNumber(value: unknown, label: string, minimum: number): number {
+  if (typeof value !== "number" || !Number.isInteger(value) || value < minimum) {
+    throw new ValidationError(`${label} must be a whole number of at least ${minimum}`);
+  }
+  return value;
+}
+
+function validateRefundTiers(tiers: unknown): RefundTier[] {
+  if (!Array.isArray(tiers)) {
+    throw new ValidationError("refundTiers must be an array");
+  }
+
+  const seen = new Set<number>();
+  return tiers.map((tier, index) => {
+    const label = `Refund tier ${index + 1}`;
+    if (!tier || typeof tier !== "object") {
+      throw new ValidationError(`${label} must have minHoursBefore and refundPercent`);
+    }
+    const minHoursBefore = validateWholeNumber(tier.minHoursBefore, `${label} minHoursBefore`, 0);
+    const refundPercent = validateWholeNumber(tier.refundPercent, `${label} refundPercent`, 0);
+    if (refundPercent > 100) {
+      throw new ValidationError(`${label} refundPercent cannot be more than 100`);
+    }
+    if (seen.has(minHoursBefore)) {
+      throw new ValidationError(`Refund tiers must have different minHoursBefore values`);
+    }
+    seen.add(minHoursBefore);
+    return { minHoursBefore, refundPercent };
+  });
+}
+
+/**
+ * Apply an admin's changes to the current policy
+ * Omitted fields keep their current value; refundTiers replaces the whole list.
+ * @throws ValidationError if a value is malformed
+ */
+export function mergeCancellationPolicy(
+  current: CancellationPolicy,
+  updates: Partial<CancellationPolicy>
+): CancellationPolicy {
+  if (!updates || typeof updates !== "object") {
+    throw new ValidationError("Cancellation policy is required");
+  }
+
+  const merged: CancellationPolicy = { ...current };
+
+  if (updates.refundTiers !== undefined) {
+    merged.refundTiers = validateRefundTiers(updates.refundTiers).sort(
+      (a, b) => b.minHoursBefore - a.minHoursBefore
+    );
+  }
+  if (updates.lateCancellationHours !== undefined) {
+    merged.lateCancellationHours = validateWholeNumber(
+      updates.lateCancellationHours,
+      "lateCancellationHours",
+      0
+    );
+  }
+  if (updates.penaltyWindowDays !== undefined) {
+    merged.penaltyWindowDays = validateWholeNumber(updates.penaltyWindowDays, "penaltyWindowDays", 1);
+  }
+  if (updates.penaltyThreshold !== undefined) {
+    merged.penaltyThreshold = validateWholeNumber(updates.penaltyThreshold, "penaltyThreshold", 1);
+  }
+  if (updates.restrictionDays !== undefined) {
+    merged.restrictionDays = validateWholeNumber(updates.restrictionDays, "restrictionDays", 0);
+  }
+
+  return merged;
+}
@@ -0,0 +1,122 @@
+/**
+ * Court closure windows: overlap checks and validation
+ */
+
+import {
+  ClosureKind,
+  CourtClosure,
+  CourtClosureRequest,
+} from "../../types/reservation";
+import { ValidationError } from "../errors/reservation-errors";
+import { timeRangesOverlap } from "./time-ranges";
+
+export const CLOSURE_KINDS: ClosureKind[] = ["maintenance", "weather", "tournament", "other"];
+
+const DATE_REGEX = /^\d{4}-\d{2}-\d{2}$/;
+const TIME_REGEX = /^([01]\d|2[0-3]):[0-5]\d$/;
+const END_TIME_REGEX = /^(([01]\d|2[0-3]):[0-5]\d|24:00)$/;
+
+/**
+ * Check if a closure covers any part of a date
+ */
+export function closureCoversDate(closure: CourtClosure, date: string): boolean {
+  return date >= closure.startDate && date <= closure.endDate;
+}
+
+/**
+ * Check if a closure blocks a time range on a court and date
+ */
+export function closureBlocks(
+  closure: CourtClosure,
+  courtId: string,
+  date: string,
+  start: string,
+  end: string
+): boolean {
+  if (closure.courtId !== courtId || !closureCoversDate(closure, date)) {
+    return false;
+  }
+
+  // All-day closure
+  if (!closure.startTime || !closure.endTime) {
+    return true;
+  }
+
+  return timeRangesOverlap(start, end, closure.startTime, closure.endTime);
+}
+
+/**
+ * Find the first closure that blocks a time range, if any
+ */
+export function findBlockingClosure(
+  closures: CourtClosure[],
+  courtId: string,
+  date: string,
+  start: string,
+  end: string
+): CourtClosure | undefined {
+  return closures.find((c) => closureBlocks(c, courtId, date, start, end));
+}
+
+/**
+ * Describe a closure for error messages, e.g. "maintenance (Resurfacing) 2026-05-01 to 2026-05-03"
+ */
+export function describeClosure(closure: CourtClosure): string {
+  const dates =
+    closure.startDate === closure.endDate
+      ? closure.startDate
+      : `${closure.startDate} to ${closure.endDate}`;
+  const times =
+    closure.startTime && closure.endTime ? ` ${closure.startTime}-${closure.endTime}` : "";
+  return `${closure.kind} (${closure.reason}) ${dates}${times}`;
+}
+
+/**
+ * Validate a closure submitted by an admin
+ * @throws ValidationError if the closure is malformed
+ */
+export function validateClosureRequest(data: CourtClosureRequest): void {
+  if (!data || typeof data.courtId !== "string" || !data.courtId) {
+    throw new ValidationError("courtId is required");
+  }
+
+  if (typeof data.startDate !== "string" || !DATE_REGEX.test(data.startDate)) {
+    throw new ValidationError("startDate must be in YYYY-MM-DD format");
+  }
+
+  if (data.endDate !== undefined) {
+    if (typeof data.endDate !== "string" || !DATE_REGEX.test(data.endDate)) {
+      throw new ValidationError("endDate must be in YYYY-MM-DD format");
+    }
+    if (data.endDate < data.startDate) {
+      throw new ValidationError("endDate cannot be before startDate");
+    }
+  }
+
+  const hasStart = data.startTime !== undefined && data.startTime !== "";
+  const hasEnd = data.endTime !== undefined && data.endTime !== "";
+  if (hasStart !== hasEnd) {
+    throw new ValidationError("startTime and endTime must be provided together");
+  }
+  if (hasStart) {
+    if (typeof data.startTime !== "string" || !TIME_REGEX.test(data.startTime)) {
+      throw new ValidationError("startTime must be in HH:mm format");
+    }
+    if (typeof data.endTime !== "string" || !END_TIME_REGEX.test(data.endTime)) {
+      throw new ValidationError("endTime must be in HH:mm format");
+    }
+    if (data.endTime <= data.startTime) {
+      throw new ValidationError("endTime must be after startTime");
+    }
+  }
+
+  if (data.kind !== undefined && !CLOSURE_KINDS.includes(data.kind)) {
+    throw new ValidationError(
+      `Invalid closure kind. Must be one of: ${CLOSURE_KINDS.join(", ")}`
+    );
+  }
+
+  if (typeof data.reason !== "string" || data.reason.trim().length === 0) {
+    throw new ValidationError("A reason is required");
+  }
+}
@@ -0,0 +1,254 @@
+/**
+ * Court operating hours and slot generation
+ */
+
+import {
+  CourtSchedule,
+  OperatingHours,
+  ScheduleOverride,
+  Weekday,
+} from "../../types/reservation";
+import { ValidationError } from "../errors/reservation-errors";
+
+export const WEEKDAYS: Weekday[] = [
+  "sunday",
+  "monday",
+  "tuesday",
+  "wednesday",
+  "thursday",
+  "friday",
+  "saturday",
+];
+
+const TIME_REGEX = /^([01]\d|2[0-3]):[0-5]\d$/;
+const CLOSE_TIME_REGEX = /^(([01]\d|2[0-3]):[0-5]\d|24:00)$/; // 24:00 = open until midnight
+const DATE_REGEX = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Schedule used for courts that have not been configured (08:00-21:00, 60-minute slots)
+ */
+export const DEFAULT_COURT_SCHEDULE: CourtSchedule = {
+  slotDurationMinutes: 60,
+  weeklyHours: {
+    sunday: { open: "08:00", close: "21:00" },
+    monday: { open: "08:00", close: "21:00" },
+    tuesday: { open: "08:00", close: "21:00" },
+    wednesday: { open: "08:00", close: "21:00" },
+    thursday: { open: "08:00", close: "21:00" },
+    friday: { open: "08:00", close: "21:00" },
+    saturday: { open: "08:00", close: "21:00" },
+  },
+  overrides: [],
+};
+
+/**
+ * Resolved hours for a court on a specific date
+ */
+export interface DailyHours {
+  open: string;
+  close: string;
+  slotDurationMinutes: number;
+  reason?: string;
+}
+
+function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(":").map(Number);
+  return hours * 60 + minutes;
+}
+
+function fromMinutes(total: number): string {
+  const hours = Math.floor(total / 60);
+  const minutes = total % 60;
+  return `${String(hours).padStart(2, "0")}:${String(minutes).padStart(2, "0")}`;
+}
+
+/**
+ * Get the weekday for a YYYY-MM-DD date (independent of server timezone)
+ */
+export function getWeekday(date: string): Weekday {
+  const [year, month, day] = date.split("-").map(Number);
+  return WEEKDAYS[new Date(Date.UTC(year, month - 1, day)).getUTCDay()];
+}
+
+/**
+ * Resolve the operating hours for a date, applying any override for that date
+ * @returns Hours for the date, or null if the court is closed
+ */
+export function getHoursForDate(
+  schedule: CourtSchedule | undefined,
+  date: string
+): DailyHours | null {
+  const effective = schedule || DEFAULT_COURT_SCHEDULE;
+  const override = (effective.overrides || []).find((o) => o.date === date);
+
+  if (override) {
+    if (override.closed || !override.open || !override.close) {
+      return null;
+    }
+    return {
+      open: override.open,
+      close: override.close,
+      slotDurationMinutes:
+        override.slotDurationMinutes || effective.slotDurationMinutes,
+      reason: override.reason,
+    };
+  }
+
+  const hours = effective.weeklyHours[getWeekday(date)];
+  if (!hours) {
+    return null;
+  }
+
+  return {
+    open: hours.open,
+    close: hours.close,
+    slotDurationMinutes: hours.slotDurationMinutes || effective.slotDurationMinutes,
+  };
+}
+
+/**
+ * Generate bookable time slots for a court on a date
+ * Slots that would run past closing time are dropped.
+ */
+export function generateTimeSlots(
+  schedule: CourtSchedule | undefined,
+  date: string
+): Array<{ start: string; end: string }> {
+  const hours = getHoursForDate(schedule, date);
+  if (!hours) {
+    return [];
+  }
+
+  const slots: Array<{ start: string; end: string }> = [];
+  const closeMinutes = toMinutes(hours.close);
+  let current = toMinutes(hours.open);
+
+  while (current + hours.slotDurationMinutes <= closeMinutes) {
+    slots.push({
+      start: fromMinutes(current),
+      end: fromMinutes(current + hours.slotDurationMinutes),
+    });
+    current += hours.slotDurationMinutes;
+  }
+
+  return slots;
+}
+
+/**
+ * Check if a time range falls entirely within a court's hours on a date
+ */
+export function isWithinOperatingHours(
+  schedule: CourtSchedule | undefined,
+  date: string,
+  start: string,
+  end: string
+): boolean {
+  const hours = getHoursForDate(schedule, date);
+  if (!hours) {
+    return false;
+  }
+
+  return (
+    toMinutes(start) >= toMinutes(hours.open) &&
+    toMinutes(end) <= toMinutes(hours.close)
+  );
+}
+
+function validateSlotDuration(value: unknown, label: string): void {
+  if (
+    typeof value !== "number" ||
+    !Number.isInteger(value) ||
+    value < 15 ||
+    value > 240
+  ) {
+    throw new ValidationError(
+      `${label} must be a whole number of minutes between 15 and 240`
+    );
+  }
+}
+
+function validateHours(open: unknown, close: unknown, label: string): void {
+  if (typeof open !== "string" || !TIME_REGEX.test(open)) {
+    throw new ValidationError(`${label}: open time must be in HH:mm format`);
+  }
+  if (typeof close !== "string" || !CLOSE_TIME_REGEX.test(close)) {
+    throw new ValidationError(`${label}: close time must be in HH:mm format`);
+  }
+  if (toMinutes(close) <= toMinutes(open)) {
+    throw new ValidationError(`${label}: close time must be after open time`);
+  }
+}
+
+/**
+ * Validate a single date override
+ * @throws ValidationError if the override is malformed
+ */
+export function validateScheduleOverride(override: ScheduleOverride): void {
+  if (!override || typeof override.date !== "string" || !DATE_REGEX.test(override.date)) {
+    throw new ValidationError("Override date must be in YYYY-MM-DD format");
+  }
+
+  if (override.closed) {
+    return;
+  }
+
+  validateHours(override.open, override.close, `Override ${override.date}`);
+
+  if (override.slotDurationMinutes !== undefined) {
+    validateSlotDuration(
+      override.slotDurationMinutes,
+      `Override ${override.date} slot duration`
+    );
+  }
+}
+
+/**
+ * Validate and normalize a court schedule submitted by an admin
+ * @throws ValidationError if the schedule is malformed
+ */
+export function validateCourtSchedule(schedule: CourtSchedule): CourtSchedule {
+  if (!schedule || typeof schedule !== "object") {
+    throw new ValidationError("Schedule is required");
+  }
+
+  validateSlotDuration(schedule.slotDurationMinutes, "Slot duration");
+
+  if (!schedule.weeklyHours || typeof schedule.weeklyHours !== "object") {
+    throw new ValidationError("Weekly hours are required");
+  }
+
+  const weeklyHours = {} as Record<Weekday, OperatingHours | null>;
+  for (const day of WEEKDAYS) {
+    const hours = schedule.weeklyHours[day];
+    if (!hours) {
+      weeklyHours[day] = null;
+      continue;
+    }
+
+    validateHours(hours.open, hours.close, `Hours for ${day}`);
+    if (hours.slotDurationMinutes !== undefined) {
+      validateSlotDuration(hours.slotDurationMinutes, `Slot duration for ${day}`);
+    }
+    weeklyHours[day] = hours;
+  }
+
+  const overrides = schedule.overrides || [];
+  if (!Array.isArray(overrides)) {
+    throw new ValidationError("Overrides must be an array");
+  }
+  overrides.forEach(validateScheduleOverride);
+
+  const dates = new Set<string>();
+  for (const override of overrides) {
+    if (dates.has(override.date)) {
+      throw new ValidationError(`Duplicate override for ${override.date}`);
+    }
+    dates.add(override.date);
+  }
+
+  return {
+    slotDurationMinutes: schedule.slotDurationMinutes,
+    weeklyHours,
+    overrides: [...overrides].sort((a, b) => a.date.localeCompare(b.date)),
+  };
+}
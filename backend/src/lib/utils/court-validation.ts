@@ -0,0 +1,63 @@
+/**
+ * Validation utilities for court data
+ */
+
+import { CourtRequest, CourtType } from "../../types/reservation";
+import { ValidationError } from "../errors/reservation-errors";
+
+export const COURT_TYPES: CourtType[] = ["clay", "hard", "indoor"];
+const ENVIRONMENTS = ["indoor", "outdoor"];
+
+/**
+ * Validate the optional court fields shared by create and update
+ */
+function validateCourtFields(data: Partial<CourtRequest>): void {
+  if (data.type !== undefined && !COURT_TYPES.includes(data.type)) {
+    throw new ValidationError(
+      `Invalid court type. Must be one of: ${COURT_TYPES.join(", ")}`
+    );
+  }
+
+  if (data.available !== undefined && typeof data.available !== "boolean") {
+    throw new ValidationError("available must be true or false");
+  }
+
+  if (data.lighting !== undefined && typeof data.lighting !== "boolean") {
+    throw new ValidationError("lighting must be true or false");
+  }
+
+  if (data.environment !== undefined && !ENVIRONMENTS.includes(data.environment)) {
+    throw new ValidationError("environment must be either indoor or outdoor");
+  }
+}
+
+/**
+ * Validate court data for creation
+ * @throws ValidationError if validation fails
+ */
+export function validateCourtData(data: CourtRequest): void {
+  if (!data || typeof data.name !== "string" || data.name.trim().length === 0) {
+    throw new ValidationError("Court name is required");
+  }
+
+  if (!data.type) {
+    throw new ValidationError("Court type is required");
+  }
+
+  validateCourtFields(data);
+}
+
+/**
+ * Validate court data for update
+ * @throws ValidationError if validation fails
+ */
+export function validateCourtUpdate(updates: Partial<CourtRequest>): void {
+  if (
+    updates.name !== undefined &&
+    (typeof updates.name !== "string" || updates.name.trim().length === 0)
+  ) {
+    throw new ValidationError("Court name cannot be empty");
+  }
+
+  validateCourtFields(updates);
+}
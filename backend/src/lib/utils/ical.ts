@@ -0,0 +1,189 @@
+/**
+ * iCalendar (RFC 5545) rendering for calendar feeds and email invites
+ *
+ * Bookings are stored in club-local wall time; events are written in UTC so
+ * calendars don't need a VTIMEZONE definition to place them.
+ */
+
+export type CalendarMethod = "PUBLISH" | "REQUEST" | "CANCEL";
+
+export interface CalendarEvent {
+  uid: string;                    // Stable across changes so calendars update in place
+  date: string;                   // YYYY-MM-DD
+  start?: string;                 // HH:mm; omitted for all-day events
+  end?: string;                   // HH:mm
+  endDate?: string;               // YYYY-MM-DD, inclusive, for multi-day all-day events
+  summary: string;
+  description?: string;
+  location?: string;
+  status: "CONFIRMED" | "CANCELLED";
+  sequence?: number;              // Bumped each time the time, place or status changes
+  created?: string;               // ISO 8601
+  lastModified?: string;          // ISO 8601
+  organizer?: { name: string; email: string };
+  attendee?: { name?: string; email: string };
+}
+
+export interface CalendarOptions {
+  name: string;                   // Shown by calendar apps (X-WR-CALNAME)
+  method?: CalendarMethod;        // Defaults to PUBLISH
+  timeZone?: string;              // IANA zone the wall times are in
+  now?: Date;                     // DTSTAMP
+}
+
+const PRODUCT_ID = "-//Providence Tennis Academy//Bookings//EN";
+
+/**
+ * Time zone the club's dates and times are in
+ * (CLUB_TIMEZONE, defaulting to the server's zone)
+ */
+export function getClubTimeZone(): string {
+  return process.env.CLUB_TIMEZONE || Intl.DateTimeFormat().resolvedOptions().timeZone;
+}
+
+/**
+ * Escape a TEXT value (backslashes, separators and newlines)
+ */
+export function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+}
+
+/**
+ * Fold a content line to 75 octets, continuing with a leading space
+ */
+export function foldLine(line: string): string {
+  const bytes = Buffer.from(line, "utf-8");
+  if (bytes.length <= 75) {
+    return line;
+  }
+
+  const parts: string[] = [];
+  let current = "";
+  let currentBytes = 0;
+  for (const char of line) {
+    const size = Buffer.byteLength(char, "utf-8");
+    const limit = parts.length === 0 ? 75 : 74;
+    if (currentBytes + size > limit) {
+      parts.push(current);
+      current = "";
+      currentBytes = 0;
+    }
+    current += char;
+    currentBytes += size;
+  }
+  parts.push(current);
+
+  return parts.join("\r\n ");
+}
+
+function zoneOffsetMs(timestamp: number, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  }).formatToParts(new Date(timestamp));
+  const get = (type: string) => Number(parts.find((p) => p.type === type)?.value);
+
+  return (
+    Date.UTC(get("year"), get("month") - 1, get("day"), get("hour"), get("minute"), get("second")) -
+    timestamp
+  );
+}
+
+function formatUtc(timestamp: number): string {
+  return new Date(timestamp).toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+}
+
+/**
+ * Convert a club-local date and time to a UTC DATE-TIME (e.g. 20260601T130000Z)
+ */
+export function toUtcDateTime(date: string, time: string, timeZone: string): string {
+  const [year, month, day] = date.split("-").map(Number);
+  const [hours, minutes] = time.split(":").map(Number);
+  const wallClock = Date.UTC(year, month - 1, day, hours, minutes);
+
+  // The offset can differ either side of a DST change, so check it at the result
+  let timestamp = wallClock - zoneOffsetMs(wallClock, timeZone);
+  timestamp = wallClock - zoneOffsetMs(timestamp, timeZone);
+  return formatUtc(timestamp);
+}
+
+function toDateValue(date: string): string {
+  return date.replace(/-/g, "");
+}
+
+function nextDay(date: string): string {
+  const [year, month, day] = date.split("-").map(Number);
+  return new Date(Date.UTC(year, month - 1, day + 1)).toISOString().substring(0, 10);
+}
+
+function eventLines(event: CalendarEvent, timeZone: string, stamp: string): string[] {
+  const lines = ["BEGIN:VEVENT", `UID:${event.uid}`, `DTSTAMP:${stamp}`];
+
+  if (event.start && event.end) {
+    lines.push(`DTSTART:${toUtcDateTime(event.date, event.start, timeZone)}`);
+    lines.push(`DTEND:${toUtcDateTime(event.date, event.end, timeZone)}`);
+  } else {
+    lines.push(`DTSTART;VALUE=DATE:${toDateValue(event.date)}`);
+    lines.push(`DTEND;VALUE=DATE:${toDateValue(nextDay(event.endDate || event.date))}`);
+  }
+
+  lines.push(`SUMMARY:${escapeText(event.summary)}`);
+  if (event.description) {
+    lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+  }
+  if (event.location) {
+    lines.push(`LOCATION:${escapeText(event.location)}`);
+  }
+  if (event.organizer) {
+    lines.push(
+      `ORGANIZER;CN=${escapeText(event.organizer.name)}:mailto:${event.organizer.email}`
+    );
+  }
+  if (event.attendee) {
+    const name = event.attendee.name ? `;CN=${escapeText(event.attendee.name)}` : "";
+    lines.push(`ATTENDEE${name};ROLE=REQ-PARTICIPANT:mailto:${event.attendee.email}`);
+  }
+  lines.push(`STATUS:${event.status}`);
+  lines.push(`SEQUENCE:${event.sequence ?? 0}`);
+  if (event.created) {
+    lines.push(`CREATED:${formatUtc(Date.parse(event.created))}`);
+  }
+  if (event.lastModified) {
+    lines.push(`LAST-MODIFIED:${formatUtc(Date.parse(event.lastModified))}`);
+  }
+  lines.push("END:VEVENT");
+
+  return lines;
+}
+
+/**
+ * Render a VCALENDAR with CRLF line endings and folded lines
+ */
+export function buildCalendar(events: CalendarEvent[], options: CalendarOptions): string {
+  const timeZone = options.timeZone || getClubTimeZone();
+  const stamp = formatUtc((options.now || new Date()).getTime());
+
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    `PRODID:${PRODUCT_ID}`,
+    "CALSCALE:GREGORIAN",
+    `METHOD:${options.method || "PUBLISH"}`,
+    `X-WR-CALNAME:${escapeText(options.name)}`,
+    `X-WR-TIMEZONE:${timeZone}`,
+    ...events.flatMap((event) => eventLines(event, timeZone, stamp)),
+    "END:VCALENDAR",
+  ];
+
+  return lines.map(foldLine).join("\r\n") + "\r\n";
+}
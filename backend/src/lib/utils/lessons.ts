@@ -0,0 +1,296 @@
+/**
+ * Coach lessons: lesson types, weekly hours, time off and bookable start times
+ */
+
+import {
+  CoachHours,
+  CoachSchedule,
+  CoachTimeOff,
+  CoachTimeOffRequest,
+  LessonKind,
+  LessonType,
+  LessonTypeRequest,
+} from "../../types/lesson";
+import { Weekday } from "../../types/reservation";
+import { ValidationError } from "../errors/reservation-errors";
+import { getWeekday, WEEKDAYS } from "./court-schedule";
+import { timeRangesOverlap } from "./time-ranges";
+
+export const LESSON_KINDS: LessonKind[] = ["private", "semi_private"];
+
+/**
+ * Minutes between the start times offered for a lesson
+ */
+export const LESSON_START_INTERVAL_MINUTES = 30;
+
+/**
+ * Lesson types offered until an admin changes them
+ */
+export const DEFAULT_LESSON_TYPES: LessonType[] = [
+  {
+    id: "private-60",
+    name: "Private lesson",
+    kind: "private",
+    durationMinutes: 60,
+    price: 9000,
+    maxPlayers: 1,
+    active: true,
+  },
+  {
+    id: "private-30",
+    name: "Private half hour",
+    kind: "private",
+    durationMinutes: 30,
+    price: 5000,
+    maxPlayers: 1,
+    active: true,
+  },
+  {
+    id: "semi-private-60",
+    name: "Semi-private lesson",
+    kind: "semi_private",
+    durationMinutes: 60,
+    price: 12000,
+    maxPlayers: 2,
+    active: true,
+  },
+];
+
+const DATE_REGEX = /^\d{4}-\d{2}-\d{2}$/;
+const TIME_REGEX = /^([01]\d|2[0-3]):[0-5]\d$/;
+const END_TIME_REGEX = /^(([01]\d|2[0-3]):[0-5]\d|24:00)$/;
+
+function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(":").map(Number);
+  return hours * 60 + minutes;
+}
+
+function fromMinutes(total: number): string {
+  const hours = Math.floor(total / 60);
+  const minutes = total % 60;
+  return `${String(hours).padStart(2, "0")}:${String(minutes).padStart(2, "0")}`;
+}
+
+/**
+ * Add minutes to an HH:mm time, e.g. addMinutes("09:30", 60) = "10:30"
+ */
+export function addMinutes(time: string, minutes: number): string {
+  return fromMinutes(toMinutes(time) + minutes);
+}
+
+/**
+ * Weekly hours with no teaching on any day
+ */
+export function emptyWeeklyHours(): Record<Weekday, CoachHours[]> {
+  return Object.fromEntries(WEEKDAYS.map((day) => [day, []])) as unknown as Record<
+    Weekday,
+    CoachHours[]
+  >;
+}
+
+/**
+ * Check a coach's weekly hours; days left out mean no teaching that day
+ * @returns Hours for every weekday, each day's windows sorted
+ * @throws ValidationError if a day or window is malformed or windows overlap
+ */
+export function validateWeeklyHours(value: unknown): Record<Weekday, CoachHours[]> {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    throw new ValidationError("weeklyHours must be an object keyed by weekday");
+  }
+
+  const weeklyHours = emptyWeeklyHours();
+  for (const [day, windows] of Object.entries(value)) {
+    if (!WEEKDAYS.includes(day as Weekday)) {
+      throw new ValidationError(`Invalid weekday: ${day}`);
+    }
+    if (!Array.isArray(windows)) {
+      throw new ValidationError(`Hours for ${day} must be a list`);
+    }
+
+    const sorted = windows
+      .map((window) => {
+        if (
+          typeof window?.start !== "string" ||
+          !TIME_REGEX.test(window.start) ||
+          typeof window?.end !== "string" ||
+          !END_TIME_REGEX.test(window.end)
+        ) {
+          throw new ValidationError(`Hours for ${day} must be in HH:mm format`);
+        }
+        if (toMinutes(window.end) <= toMinutes(window.start)) {
+          throw new ValidationError(`Hours for ${day} must end after they start`);
+        }
+        return { start: window.start, end: window.end };
+      })
+      .sort((a, b) => a.start.localeCompare(b.start));
+
+    for (let i = 1; i < sorted.length; i++) {
+      if (toMinutes(sorted[i].start) < toMinutes(sorted[i - 1].end)) {
+        throw new ValidationError(`Hours for ${day} overlap`);
+      }
+    }
+    weeklyHours[day as Weekday] = sorted;
+  }
+
+  return weeklyHours;
+}
+
+/**
+ * Validate time off submitted by a coach or admin
+ * @throws ValidationError if the dates or times are malformed
+ */
+export function validateTimeOffRequest(data: CoachTimeOffRequest): void {
+  if (!data || typeof data.startDate !== "string" || !DATE_REGEX.test(data.startDate)) {
+    throw new ValidationError("startDate must be in YYYY-MM-DD format");
+  }
+
+  if (data.endDate !== undefined) {
+    if (typeof data.endDate !== "string" || !DATE_REGEX.test(data.endDate)) {
+      throw new ValidationError("endDate must be in YYYY-MM-DD format");
+    }
+    if (data.endDate < data.startDate) {
+      throw new ValidationError("endDate cannot be before startDate");
+    }
+  }
+
+  const hasStart = data.startTime !== undefined && data.startTime !== "";
+  const hasEnd = data.endTime !== undefined && data.endTime !== "";
+  if (hasStart !== hasEnd) {
+    throw new ValidationError("startTime and endTime must be provided together");
+  }
+  if (hasStart) {
+    if (typeof data.startTime !== "string" || !TIME_REGEX.test(data.startTime)) {
+      throw new ValidationError("startTime must be in HH:mm format");
+    }
+    if (typeof data.endTime !== "string" || !END_TIME_REGEX.test(data.endTime)) {
+      throw new ValidationError("endTime must be in HH:mm format");
+    }
+    if (data.endTime <= data.startTime) {
+      throw new ValidationError("endTime must be after startTime");
+    }
+  }
+
+  if (data.reason !== undefined && typeof data.reason !== "string") {
+    throw new ValidationError("reason must be a string");
+  }
+}
+
+/**
+ * Validate a lesson type submitted by an admin
+ * @throws ValidationError if any field is missing or out of range
+ */
+export function validateLessonType(data: LessonTypeRequest): void {
+  if (!data || typeof data.name !== "string" || data.name.trim().length === 0) {
+    throw new ValidationError("name is required");
+  }
+  if (!LESSON_KINDS.includes(data.kind)) {
+    throw new ValidationError(`Invalid lesson kind. Must be one of: ${LESSON_KINDS.join(", ")}`);
+  }
+  if (
+    typeof data.durationMinutes !== "number" ||
+    !Number.isInteger(data.durationMinutes) ||
+    data.durationMinutes < 15 ||
+    data.durationMinutes > 240 ||
+    data.durationMinutes % 15 !== 0
+  ) {
+    throw new ValidationError("durationMinutes must be a multiple of 15 between 15 and 240");
+  }
+  if (typeof data.price !== "number" || !Number.isInteger(data.price) || data.price < 0) {
+    throw new ValidationError("price must be a whole number of cents");
+  }
+
+  if (data.maxPlayers !== undefined) {
+    if (
+      typeof data.maxPlayers !== "number" ||
+      !Number.isInteger(data.maxPlayers) ||
+      data.maxPlayers < 1 ||
+      data.maxPlayers > 4
+    ) {
+      throw new ValidationError("maxPlayers must be between 1 and 4");
+    }
+    if (data.kind === "private" && data.maxPlayers !== 1) {
+      throw new ValidationError("Private lessons are for one player");
+    }
+    if (data.kind === "semi_private" && data.maxPlayers < 2) {
+      throw new ValidationError("Semi-private lessons need room for at least two players");
+    }
+  }
+
+  if (data.active !== undefined && typeof data.active !== "boolean") {
+    throw new ValidationError("active must be true or false");
+  }
+}
+
+/**
+ * Check if time off blocks a time range on a date
+ */
+export function timeOffBlocks(
+  timeOff: CoachTimeOff,
+  date: string,
+  start: string,
+  end: string
+): boolean {
+  if (date < timeOff.startDate || date > timeOff.endDate) {
+    return false;
+  }
+
+  // All-day time off
+  if (!timeOff.startTime || !timeOff.endTime) {
+    return true;
+  }
+
+  return timeRangesOverlap(start, end, timeOff.startTime, timeOff.endTime);
+}
+
+/**
+ * Check if a coach teaches for the whole of a time range on a date
+ */
+export function isCoachAvailable(
+  schedule: CoachSchedule | null,
+  date: string,
+  start: string,
+  end: string
+): boolean {
+  if (!schedule) {
+    return false;
+  }
+
+  const windows = schedule.weeklyHours[getWeekday(date)] || [];
+  const withinHours = windows.some(
+    (window) => toMinutes(start) >= toMinutes(window.start) && toMinutes(end) <= toMinutes(window.end)
+  );
+
+  return withinHours && !schedule.timeOff.some((t) => timeOffBlocks(t, date, start, end));
+}
+
+/**
+ * Lesson times a coach could teach on a date, every LESSON_START_INTERVAL_MINUTES
+ * inside their hours, skipping time off. Existing bookings aren't considered.
+ */
+export function getLessonTimes(
+  schedule: CoachSchedule | null,
+  date: string,
+  durationMinutes: number
+): Array<{ start: string; end: string }> {
+  if (!schedule) {
+    return [];
+  }
+
+  const times: Array<{ start: string; end: string }> = [];
+  for (const window of schedule.weeklyHours[getWeekday(date)] || []) {
+    const close = toMinutes(window.end);
+    for (
+      let current = toMinutes(window.start);
+      current + durationMinutes <= close;
+      current += LESSON_START_INTERVAL_MINUTES
+    ) {
+      const start = fromMinutes(current);
+      const end = fromMinutes(current + durationMinutes);
+      if (!schedule.timeOff.some((t) => timeOffBlocks(t, date, start, end))) {
+        times.push({ start, end });
+      }
+    }
+  }
+
+  return times;
+}
@@ -0,0 +1,104 @@
+/**
+ * Membership plan catalog
+ *
+ * Prices are in cents. Stripe price IDs are configured per plan and interval
+ * (see getStripePriceId in ../payments/stripe-client).
+ */
+
+import {
+  BillingInterval,
+  MembershipPlan,
+  MembershipPlanId,
+  SubscriptionStatus,
+} from "../../types/membership";
+
+export const MEMBERSHIP_PLANS: MembershipPlan[] = [
+  {
+    id: "junior",
+    name: "Junior",
+    description: "For players under 18",
+    prices: { month: 2500, year: 25000 },
+    maxAge: 18,
+    entitlements: { bookingWindowDays: 7, courtDiscount: 0.5 },
+  },
+  {
+    id: "adult",
+    name: "Adult",
+    description: "Full club membership for one player",
+    prices: { month: 6000, year: 60000 },
+    trialDays: 14,
+    entitlements: { bookingWindowDays: 14, courtDiscount: 0.2 },
+  },
+  {
+    id: "family",
+    name: "Family",
+    description: "Covers the holder and every linked junior player",
+    prices: { month: 11000, year: 110000 },
+    trialDays: 14,
+    coversLinkedPlayers: true,
+    entitlements: { bookingWindowDays: 14, courtDiscount: 0.2 },
+  },
+  {
+    id: "off_season",
+    name: "Off-Season",
+    description: "Indoor season membership, November through March",
+    prices: { month: 4000 },
+    seasonMonths: [11, 12, 1, 2, 3],
+    entitlements: { bookingWindowDays: 7, courtDiscount: 0.15 },
+  },
+];
+
+/**
+ * Subscription statuses that grant plan entitlements
+ */
+export const ENTITLED_STATUSES: SubscriptionStatus[] = ["trialing", "active"];
+
+/**
+ * Get a plan by ID
+ */
+export function getPlan(planId: string): MembershipPlan | null {
+  return MEMBERSHIP_PLANS.find((plan) => plan.id === planId) || null;
+}
+
+/**
+ * Check if a plan ID is valid
+ */
+export function isMembershipPlanId(value: unknown): value is MembershipPlanId {
+  return typeof value === "string" && getPlan(value) !== null;
+}
+
+/**
+ * Check if a billing interval name is valid
+ */
+export function isBillingInterval(value: unknown): value is BillingInterval {
+  return value === "month" || value === "year";
+}
+
+/**
+ * Check if a plan's entitlements apply to a booking date (YYYY-MM-DD)
+ */
+export function planAppliesOn(plan: MembershipPlan, date: string): boolean {
+  if (!plan.seasonMonths) {
+    return true;
+  }
+  const month = Number(date.slice(5, 7));
+  return plan.seasonMonths.includes(month);
+}
+
+/**
+ * Map a Stripe subscription status onto ours
+ * Stripe's incomplete and unpaid states are awaiting payment, like past_due.
+ */
+export function toSubscriptionStatus(stripeStatus: string): SubscriptionStatus {
+  switch (stripeStatus) {
+    case "trialing":
+      return "trialing";
+    case "active":
+      return "active";
+    case "canceled":
+    case "incomplete_expired":
+      return "canceled";
+    default:
+      return "past_due";
+  }
+}
@@ -0,0 +1,134 @@
+/**
+ * Doubles partners: who can be invited and how the court fee is split
+ */
+
+import { PartnerRequest, Reservation, ReservationParticipant } from "../../types/reservation";
+import { ValidationError } from "../errors/reservation-errors";
+
+/**
+ * Partners per reservation besides the booker (a doubles four)
+ */
+export const MAX_PARTNERS = 3;
+
+/**
+ * A partner as shown to people other than the booker
+ */
+export type PublicParticipant = Omit<ReservationParticipant, "email">;
+
+export interface CostShares {
+  booker: number;                    // Cents; includes guest partners' shares
+  partners: Record<string, number>;  // Cents owed by member partners, by participant ID
+}
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+/**
+ * Check the partners field of a request and tidy up emails and names
+ * @throws ValidationError if it isn't a list of members or valid emails
+ */
+export function normalizePartnerRequests(value: unknown): PartnerRequest[] {
+  if (!Array.isArray(value)) {
+    throw new ValidationError("partners must be a list");
+  }
+
+  return value.map((partner) => {
+    const memberId = typeof partner?.memberId === "string" ? partner.memberId.trim() : "";
+    const email = typeof partner?.email === "string" ? partner.email.trim().toLowerCase() : "";
+    const name = typeof partner?.name === "string" ? partner.name.trim() : "";
+
+    if (!memberId && !email) {
+      throw new ValidationError("Each partner needs a memberId or an email");
+    }
+    if (email && !EMAIL_PATTERN.test(email)) {
+      throw new ValidationError(`Invalid partner email: ${email}`);
+    }
+
+    return {
+      ...(memberId && { memberId }),
+      ...(email && { email }),
+      ...(name && { name }),
+    };
+  });
+}
+
+/**
+ * Make sure new partners can join a reservation
+ * Declined partners don't count towards the limit but can't be invited twice;
+ * the booker removes them first.
+ * @throws ValidationError if there are too many partners, a duplicate, or the booker
+ */
+export function assertCanAddPartners(
+  existing: ReservationParticipant[],
+  added: Array<Pick<ReservationParticipant, "memberId" | "email">>,
+  booker: { memberId?: string; email?: string }
+): void {
+  const playing = existing.filter((p) => p.status !== "declined");
+  if (playing.length + added.length > MAX_PARTNERS) {
+    throw new ValidationError(`A reservation can have at most ${MAX_PARTNERS} partners`);
+  }
+
+  const bookerEmail = booker.email?.toLowerCase();
+  const seen: Array<Pick<ReservationParticipant, "memberId" | "email">> = [...existing];
+  for (const partner of added) {
+    const email = partner.email.toLowerCase();
+    if ((booker.memberId && partner.memberId === booker.memberId) || email === bookerEmail) {
+      throw new ValidationError("The booker can't also be a partner");
+    }
+    if (
+      seen.some(
+        (p) => (partner.memberId && p.memberId === partner.memberId) || p.email.toLowerCase() === email
+      )
+    ) {
+      throw new ValidationError(`${partner.email} is already invited`);
+    }
+    seen.push(partner);
+  }
+}
+
+/**
+ * Split a court fee evenly between the booker and partners who haven't declined
+ * Guests don't pay online, so their shares go to the booker, as does any
+ * leftover cent.
+ */
+export function splitCourtFee(
+  total: number,
+  participants: ReservationParticipant[] = []
+): CostShares {
+  const playing = participants.filter((p) => p.status !== "declined");
+  const share = Math.floor(total / (playing.length + 1));
+  const partners: Record<string, number> = {};
+
+  for (const participant of playing) {
+    if (participant.memberId) {
+      partners[participant.id] = share;
+    }
+  }
+
+  const partnerTotal = Object.values(partners).reduce((sum, amount) => sum + amount, 0);
+  return { booker: total - partnerTotal, partners };
+}
+
+/**
+ * Check if a member is playing on (or invited to) a reservation as a partner
+ */
+export function isPartnerOn(reservation: Reservation, memberId: string): boolean {
+  return (reservation.participants || []).some(
+    (p) => p.memberId === memberId && p.status !== "declined"
+  );
+}
+
+/**
+ * A reservation with its partners' emails left out, for public listings
+ */
+export function withoutPartnerEmails(
+  reservation: Reservation
+): Omit<Reservation, "participants"> & { participants?: PublicParticipant[] } {
+  if (!reservation.participants) {
+    return reservation;
+  }
+
+  return {
+    ...reservation,
+    participants: reservation.participants.map(({ email: _email, ...participant }) => participant),
+  };
+}
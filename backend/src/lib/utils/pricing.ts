@@ -0,0 +1,164 @@
+/**
+ * Court booking price calculation
+ *
+ * Prices are per-minute prorations of the court type's hourly rate. Minutes
+ * inside the prime-time window are charged at primeTimeMultiplier; guests pay
+ * a per-hour fee on top and members get their plan's discount on court time.
+ * Lessons are a flat price per lesson type that covers the court.
+ */
+
+import { Court } from "../../types/reservation";
+import { LessonType } from "../../types/lesson";
+import { MembershipEntitlements } from "../../types/membership";
+import { PriceLineItem, PriceQuote, PricingRules } from "../../types/payment";
+import { ValidationError } from "../errors/reservation-errors";
+import { getWeekday } from "./court-schedule";
+
+/**
+ * Default rates (cents)
+ */
+export const DEFAULT_PRICING_RULES: PricingRules = {
+  hourlyRates: {
+    hard: 4000,
+    clay: 4500,
+    indoor: 5500,
+  },
+  primeTimeMultiplier: 1.25,
+  primeTime: {
+    weekdays: { start: "17:00", end: "21:00" },
+    weekends: { start: "08:00", end: "13:00" },
+  },
+  guestFeePerHour: 1000,
+};
+
+const TIME_REGEX = /^([01]\d|2[0-3]):[0-5]\d$/;
+const END_TIME_REGEX = /^(([01]\d|2[0-3]):[0-5]\d|24:00)$/;
+const DATE_REGEX = /^\d{4}-\d{2}-\d{2}$/;
+
+function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(":").map(Number);
+  return hours * 60 + minutes;
+}
+
+function formatRate(cents: number): string {
+  return `$${(cents / 100).toFixed(2)}/hr`;
+}
+
+/**
+ * Minutes of a time range that fall inside the date's prime-time window
+ */
+export function getPrimeTimeMinutes(
+  date: string,
+  start: string,
+  end: string,
+  rules: PricingRules = DEFAULT_PRICING_RULES
+): number {
+  const weekday = getWeekday(date);
+  const window =
+    weekday === "saturday" || weekday === "sunday"
+      ? rules.primeTime.weekends
+      : rules.primeTime.weekdays;
+
+  const overlapStart = Math.max(toMinutes(start), toMinutes(window.start));
+  const overlapEnd = Math.min(toMinutes(end), toMinutes(window.end));
+  return Math.max(0, overlapEnd - overlapStart);
+}
+
+/**
+ * Price a court booking
+ * @param membership - Member's plan entitlements, null for members without a plan, undefined for guests
+ * @throws ValidationError if the date or time range is invalid
+ */
+export function calculateCourtPrice(
+  court: Pick<Court, "id" | "name" | "type">,
+  date: string,
+  timeSlot: { start: string; end: string },
+  membership: Pick<MembershipEntitlements, "planId" | "planName" | "courtDiscount"> | null | undefined,
+  rules: PricingRules = DEFAULT_PRICING_RULES
+): Omit<PriceQuote, "memberId"> {
+  if (!DATE_REGEX.test(date)) {
+    throw new ValidationError("Date must be in YYYY-MM-DD format");
+  }
+  if (!TIME_REGEX.test(timeSlot.start) || !END_TIME_REGEX.test(timeSlot.end)) {
+    throw new ValidationError("Times must be in HH:mm format");
+  }
+
+  const durationMinutes = toMinutes(timeSlot.end) - toMinutes(timeSlot.start);
+  if (durationMinutes <= 0) {
+    throw new ValidationError("End time must be after start time");
+  }
+
+  const hourlyRate = rules.hourlyRates[court.type] ?? rules.hourlyRates.hard;
+  const primeRate = Math.round(hourlyRate * rules.primeTimeMultiplier);
+  const primeTimeMinutes = getPrimeTimeMinutes(date, timeSlot.start, timeSlot.end, rules);
+  const offPeakMinutes = durationMinutes - primeTimeMinutes;
+
+  const lineItems: PriceLineItem[] = [];
+  if (offPeakMinutes > 0) {
+    lineItems.push({
+      label: `Off-peak court time (${offPeakMinutes} min @ ${formatRate(hourlyRate)})`,
+      amount: Math.round((hourlyRate * offPeakMinutes) / 60),
+    });
+  }
+  if (primeTimeMinutes > 0) {
+    lineItems.push({
+      label: `Prime-time court time (${primeTimeMinutes} min @ ${formatRate(primeRate)})`,
+      amount: Math.round((primeRate * primeTimeMinutes) / 60),
+    });
+  }
+
+  const courtTime = lineItems.reduce((sum, item) => sum + item.amount, 0);
+
+  if (membership === undefined) {
+    lineItems.push({
+      label: `Guest fee (${formatRate(rules.guestFeePerHour)})`,
+      amount: Math.round((rules.guestFeePerHour * durationMinutes) / 60),
+    });
+  } else if (membership && membership.courtDiscount > 0) {
+    lineItems.push({
+      label: `${membership.planName} member discount (${Math.round(membership.courtDiscount * 100)}%)`,
+      amount: -Math.round(courtTime * membership.courtDiscount),
+    });
+  }
+
+  return {
+    courtId: court.id,
+    courtName: court.name,
+    courtType: court.type,
+    date,
+    timeSlot: { start: timeSlot.start, end: timeSlot.end },
+    durationMinutes,
+    primeTimeMinutes,
+    membershipPlan: membership?.planId,
+    lineItems,
+    total: lineItems.reduce((sum, item) => sum + item.amount, 0),
+    currency: "usd",
+  };
+}
+
+/**
+ * Price a lesson: the lesson type's flat price, court included
+ * @throws ValidationError if the date or time range is invalid
+ */
+export function calculateLessonPrice(
+  court: Pick<Court, "id" | "name" | "type">,
+  date: string,
+  timeSlot: { start: string; end: string },
+  lessonType: Pick<LessonType, "id" | "name" | "price">,
+  rules: PricingRules = DEFAULT_PRICING_RULES
+): Omit<PriceQuote, "memberId"> {
+  const courtQuote = calculateCourtPrice(court, date, timeSlot, null, rules);
+  const lineItems: PriceLineItem[] = [
+    {
+      label: `${lessonType.name} (${courtQuote.durationMinutes} min, court included)`,
+      amount: lessonType.price,
+    },
+  ];
+
+  return {
+    ...courtQuote,
+    lessonTypeId: lessonType.id,
+    lineItems,
+    total: lessonType.price,
+  };
+}
@@ -0,0 +1,205 @@
+/**
+ * Programs: validation, session scheduling and eligibility
+ */
+
+import { Program, ProgramKind, ProgramRequest, ProgramSession } from "../../types/program";
+import { ValidationError } from "../errors/reservation-errors";
+import { timeRangesOverlap } from "./time-ranges";
+
+export const PROGRAM_KINDS: ProgramKind[] = ["clinic", "camp", "junior_development"];
+
+const DATE_REGEX = /^\d{4}-\d{2}-\d{2}$/;
+const TIME_REGEX = /^([01]\d|2[0-3]):[0-5]\d$/;
+const END_TIME_REGEX = /^(([01]\d|2[0-3]):[0-5]\d|24:00)$/;
+
+const MAX_SESSIONS = 100;
+
+function isLimit(value: unknown): boolean {
+  return value === undefined || value === null;
+}
+
+function checkRange(
+  min: unknown,
+  max: unknown,
+  field: string,
+  isValid: (value: number) => boolean,
+  description: string
+): void {
+  for (const [name, value] of [[`min${field}`, min], [`max${field}`, max]] as const) {
+    if (!isLimit(value) && (typeof value !== "number" || !isValid(value))) {
+      throw new ValidationError(`${name} must be ${description}`);
+    }
+  }
+  if (!isLimit(min) && !isLimit(max) && (min as number) > (max as number)) {
+    throw new ValidationError(`min${field} cannot be above max${field}`);
+  }
+}
+
+/**
+ * Validate a program submitted by an admin
+ * @throws ValidationError if any field is missing or out of range, or sessions overlap
+ */
+export function validateProgramRequest(data: ProgramRequest): void {
+  if (!data || typeof data.name !== "string" || data.name.trim().length === 0) {
+    throw new ValidationError("name is required");
+  }
+  if (!PROGRAM_KINDS.includes(data.kind)) {
+    throw new ValidationError(`Invalid program kind. Must be one of: ${PROGRAM_KINDS.join(", ")}`);
+  }
+  if (data.description !== undefined && typeof data.description !== "string") {
+    throw new ValidationError("description must be a string");
+  }
+
+  if (!Array.isArray(data.sessions) || data.sessions.length === 0) {
+    throw new ValidationError("A program needs at least one session");
+  }
+  if (data.sessions.length > MAX_SESSIONS) {
+    throw new ValidationError(`A program can have at most ${MAX_SESSIONS} sessions`);
+  }
+  for (const session of data.sessions) {
+    if (typeof session?.date !== "string" || !DATE_REGEX.test(session.date)) {
+      throw new ValidationError("Session dates must be in YYYY-MM-DD format");
+    }
+    if (
+      typeof session.start !== "string" ||
+      !TIME_REGEX.test(session.start) ||
+      typeof session.end !== "string" ||
+      !END_TIME_REGEX.test(session.end)
+    ) {
+      throw new ValidationError(`Session times on ${session.date} must be in HH:mm format`);
+    }
+    if (session.end <= session.start) {
+      throw new ValidationError(`The session on ${session.date} must end after it starts`);
+    }
+  }
+  for (let i = 0; i < data.sessions.length; i++) {
+    for (let j = i + 1; j < data.sessions.length; j++) {
+      const a = data.sessions[i];
+      const b = data.sessions[j];
+      if (a.date === b.date && timeRangesOverlap(a.start, a.end, b.start, b.end)) {
+        throw new ValidationError(`Sessions on ${a.date} overlap`);
+      }
+    }
+  }
+
+  if (
+    !Array.isArray(data.courtIds) ||
+    data.courtIds.length === 0 ||
+    data.courtIds.some((id) => typeof id !== "string")
+  ) {
+    throw new ValidationError("courtIds must list at least one court");
+  }
+  if (
+    data.coachIds !== undefined &&
+    (!Array.isArray(data.coachIds) || data.coachIds.some((id) => typeof id !== "string"))
+  ) {
+    throw new ValidationError("coachIds must be a list of member IDs");
+  }
+
+  if (typeof data.capacity !== "number" || !Number.isInteger(data.capacity) || data.capacity < 1) {
+    throw new ValidationError("capacity must be a positive whole number");
+  }
+  if (typeof data.price !== "number" || !Number.isInteger(data.price) || data.price < 0) {
+    throw new ValidationError("price must be a whole number of cents");
+  }
+
+  checkRange(
+    data.minAge,
+    data.maxAge,
+    "Age",
+    (age) => Number.isInteger(age) && age >= 0 && age <= 120,
+    "a whole number of years"
+  );
+  checkRange(
+    data.minNtrp,
+    data.maxNtrp,
+    "Ntrp",
+    (rating) => rating >= 1 && rating <= 7 && Number.isInteger(rating * 2),
+    "an NTRP rating from 1.0 to 7.0 in steps of 0.5"
+  );
+}
+
+/**
+ * Turn requested session times into sessions, soonest first
+ * Sessions that already exist at the same time keep their ID, so attendance
+ * taken for them survives a schedule change.
+ */
+export function scheduleSessions(
+  requested: ProgramRequest["sessions"],
+  existing: ProgramSession[] = []
+): ProgramSession[] {
+  const unused = [...existing];
+  return requested
+    .map((session) => {
+      const index = unused.findIndex(
+        (s) => s.date === session.date && s.start === session.start && s.end === session.end
+      );
+      const id =
+        index === -1
+          ? `session-${Date.now()}-${Math.random().toString(36).substring(2, 8)}`
+          : unused.splice(index, 1)[0].id;
+      return { id, date: session.date, start: session.start, end: session.end };
+    })
+    .sort((a, b) => `${a.date}T${a.start}`.localeCompare(`${b.date}T${b.start}`));
+}
+
+/**
+ * When the program's first session starts, as YYYY-MM-DDTHH:mm
+ */
+export function getProgramStart(program: Pick<Program, "sessions">): string {
+  const first = program.sessions[0];
+  return `${first.date}T${first.start}`;
+}
+
+/**
+ * Parse a member's NTRP rating (e.g. "3.5"), or null if it's missing or malformed
+ */
+export function parseNtrp(rating: string | undefined): number | null {
+  if (!rating || !/^\d(\.\d)?$/.test(rating.trim())) {
+    return null;
+  }
+  return Number(rating.trim());
+}
+
+function describeRange(min: number | undefined, max: number | undefined, format: (n: number) => string): string {
+  if (min !== undefined && max !== undefined) {
+    return `${format(min)}-${format(max)}`;
+  }
+  return min !== undefined ? `${format(min)} and up` : `${format(max as number)} and under`;
+}
+
+/**
+ * Check a player against a program's age and NTRP limits
+ * @param age Player's age on the first session (null if unknown)
+ * @param ntrp Player's NTRP rating (null if unknown)
+ * @returns Why the player can't enroll, or null if they can
+ */
+export function getEligibilityError(
+  program: Pick<Program, "name" | "minAge" | "maxAge" | "minNtrp" | "maxNtrp">,
+  age: number | null,
+  ntrp: number | null
+): string | null {
+  const { minAge, maxAge, minNtrp, maxNtrp } = program;
+
+  if (minAge !== undefined || maxAge !== undefined) {
+    const range = describeRange(minAge, maxAge, String);
+    if (age === null) {
+      return `${program.name} is for ages ${range} (add a date of birth to the player's profile)`;
+    }
+    if ((minAge !== undefined && age < minAge) || (maxAge !== undefined && age > maxAge)) {
+      return `${program.name} is for ages ${range}`;
+    }
+  }
+
+  if (minNtrp !== undefined || maxNtrp !== undefined) {
+    const range = describeRange(minNtrp, maxNtrp, (n) => n.toFixed(1));
+    if (ntrp === null) {
+      return `${program.name} is for NTRP ${range} (add an NTRP rating to the player's profile)`;
+    }
+    if ((minNtrp !== undefined && ntrp < minNtrp) || (maxNtrp !== undefined && ntrp > maxNtrp)) {
+      return `${program.name} is for NTRP ${range}`;
+    }
+  }
+
+  return null;
+}
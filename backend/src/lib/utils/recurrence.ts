@@ -0,0 +1,202 @@
+/**
+ * RRULE-style recurrence parsing and expansion for recurring reservations
+ *
+ * Supports the subset of RFC 5545 used for standing bookings:
+ * FREQ (DAILY, WEEKLY, MONTHLY), INTERVAL, BYDAY (weekly only), and
+ * exactly one of COUNT or UNTIL.
+ */
+
+import { Weekday } from "../../types/reservation";
+import { ValidationError } from "../errors/reservation-errors";
+import { WEEKDAYS } from "./court-schedule";
+
+export type RecurrenceFrequency = "DAILY" | "WEEKLY" | "MONTHLY";
+
+export interface RecurrenceRule {
+  freq: RecurrenceFrequency;
+  interval: number;
+  byDay?: Weekday[];
+  count?: number;
+  until?: string; // YYYY-MM-DD, inclusive
+}
+
+/**
+ * Upper bound on occurrences in one series (two years of weekly bookings)
+ */
+export const MAX_OCCURRENCES = 104;
+
+const DAY_CODES: Record<string, Weekday> = {
+  SU: "sunday",
+  MO: "monday",
+  TU: "tuesday",
+  WE: "wednesday",
+  TH: "thursday",
+  FR: "friday",
+  SA: "saturday",
+};
+
+const DATE_REGEX = /^\d{4}-\d{2}-\d{2}$/;
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+function toUtcDate(date: string): Date {
+  const [year, month, day] = date.split("-").map(Number);
+  return new Date(Date.UTC(year, month - 1, day));
+}
+
+function toDateString(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+function addDays(date: Date, days: number): Date {
+  return new Date(date.getTime() + days * MS_PER_DAY);
+}
+
+/**
+ * Parse an RRULE string such as "FREQ=WEEKLY;BYDAY=TU,TH;COUNT=10"
+ * UNTIL may be given as YYYY-MM-DD or the RFC 5545 form YYYYMMDD.
+ * @throws ValidationError if the rule is malformed or unsupported
+ */
+export function parseRRule(rrule: string): RecurrenceRule {
+  if (typeof rrule !== "string" || rrule.trim().length === 0) {
+    throw new ValidationError("Recurrence rule is required");
+  }
+
+  const parts = rrule.trim().replace(/^RRULE:/i, "").split(";").filter(Boolean);
+  const fields: Record<string, string> = {};
+  for (const part of parts) {
+    const [key, value] = part.split("=");
+    if (!key || value === undefined) {
+      throw new ValidationError(`Invalid recurrence rule part: ${part}`);
+    }
+    fields[key.toUpperCase()] = value.toUpperCase();
+  }
+
+  const freq = fields.FREQ as RecurrenceFrequency;
+  if (!["DAILY", "WEEKLY", "MONTHLY"].includes(freq)) {
+    throw new ValidationError("FREQ must be DAILY, WEEKLY or MONTHLY");
+  }
+
+  const rule: RecurrenceRule = { freq, interval: 1 };
+
+  if (fields.INTERVAL !== undefined) {
+    const interval = Number(fields.INTERVAL);
+    if (!Number.isInteger(interval) || interval < 1 || interval > 52) {
+      throw new ValidationError("INTERVAL must be a whole number between 1 and 52");
+    }
+    rule.interval = interval;
+  }
+
+  if (fields.BYDAY !== undefined) {
+    if (freq !== "WEEKLY") {
+      throw new ValidationError("BYDAY is only supported with FREQ=WEEKLY");
+    }
+    const days = fields.BYDAY.split(",").map((code) => {
+      const day = DAY_CODES[code];
+      if (!day) {
+        throw new ValidationError(`Invalid BYDAY value: ${code}`);
+      }
+      return day;
+    });
+    rule.byDay = WEEKDAYS.filter((day) => days.includes(day));
+  }
+
+  if (fields.COUNT !== undefined && fields.UNTIL !== undefined) {
+    throw new ValidationError("Use either COUNT or UNTIL, not both");
+  }
+
+  if (fields.COUNT !== undefined) {
+    const count = Number(fields.COUNT);
+    if (!Number.isInteger(count) || count < 1 || count > MAX_OCCURRENCES) {
+      throw new ValidationError(`COUNT must be between 1 and ${MAX_OCCURRENCES}`);
+    }
+    rule.count = count;
+  } else if (fields.UNTIL !== undefined) {
+    const until = /^\d{8}/.test(fields.UNTIL)
+      ? `${fields.UNTIL.slice(0, 4)}-${fields.UNTIL.slice(4, 6)}-${fields.UNTIL.slice(6, 8)}`
+      : fields.UNTIL;
+    if (!DATE_REGEX.test(until)) {
+      throw new ValidationError("UNTIL must be a date in YYYY-MM-DD format");
+    }
+    rule.until = until;
+  } else {
+    throw new ValidationError("Recurrence rule needs an end date (UNTIL) or occurrence count (COUNT)");
+  }
+
+  return rule;
+}
+
+/**
+ * Format a rule back into a normalized RRULE string
+ */
+export function formatRRule(rule: RecurrenceRule): string {
+  const codeFor = (day: Weekday) =>
+    Object.keys(DAY_CODES).find((code) => DAY_CODES[code] === day);
+
+  const parts = [`FREQ=${rule.freq}`];
+  if (rule.interval !== 1) parts.push(`INTERVAL=${rule.interval}`);
+  if (rule.byDay && rule.byDay.length > 0) {
+    parts.push(`BYDAY=${rule.byDay.map(codeFor).join(",")}`);
+  }
+  if (rule.count !== undefined) parts.push(`COUNT=${rule.count}`);
+  if (rule.until !== undefined) parts.push(`UNTIL=${rule.until}`);
+  return parts.join(";");
+}
+
+/**
+ * Candidate dates in one period of the rule, in order
+ */
+function datesInPeriod(start: Date, rule: RecurrenceRule, period: number): Date[] {
+  if (rule.freq === "DAILY") {
+    return [addDays(start, period * rule.interval)];
+  }
+
+  if (rule.freq === "WEEKLY") {
+    // Weeks start on Monday (RFC 5545 default WKST)
+    const startOffset = (start.getUTCDay() + 6) % 7;
+    const weekStart = addDays(start, -startOffset + period * rule.interval * 7);
+    const days = rule.byDay && rule.byDay.length > 0
+      ? rule.byDay
+      : [WEEKDAYS[start.getUTCDay()]];
+    return days
+      .map((day) => addDays(weekStart, (WEEKDAYS.indexOf(day) + 6) % 7))
+      .sort((a, b) => a.getTime() - b.getTime());
+  }
+
+  // MONTHLY: same day of month; months without that day are skipped (RFC 5545)
+  const target = new Date(
+    Date.UTC(start.getUTCFullYear(), start.getUTCMonth() + period * rule.interval, start.getUTCDate())
+  );
+  return target.getUTCDate() === start.getUTCDate() ? [target] : [];
+}
+
+/**
+ * Expand a rule into occurrence dates starting from startDate
+ * @throws ValidationError if the series would exceed MAX_OCCURRENCES
+ */
+export function expandRecurrence(startDate: string, rule: RecurrenceRule): string[] {
+  if (!DATE_REGEX.test(startDate)) {
+    throw new ValidationError("startDate must be in YYYY-MM-DD format");
+  }
+  if (rule.until !== undefined && rule.until < startDate) {
+    throw new ValidationError("UNTIL cannot be before the start date");
+  }
+
+  const start = toUtcDate(startDate);
+  const dates: string[] = [];
+
+  for (let period = 0; ; period++) {
+    for (const candidate of datesInPeriod(start, rule, period)) {
+      const date = toDateString(candidate);
+      if (date < startDate) continue;
+      if (rule.until !== undefined && date > rule.until) return dates;
+
+      dates.push(date);
+      if (rule.count !== undefined && dates.length >= rule.count) return dates;
+      if (dates.length > MAX_OCCURRENCES) {
+        throw new ValidationError(
+          `A series cannot have more than ${MAX_OCCURRENCES} occurrences`
+        );
+      }
+    }
+  }
+}
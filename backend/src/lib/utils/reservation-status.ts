@@ -0,0 +1,102 @@
+/**
+ * Reservation status checks: which bookings hold a court, check-in windows
+ * and no-show detection
+ */
+
+import { addMinutes, subMinutes } from "date-fns";
+import { Reservation, ReservationStatus } from "../../types/reservation";
+import { ValidationError } from "../errors/reservation-errors";
+
+export const RESERVATION_STATUSES: ReservationStatus[] = [
+  "confirmed",
+  "checked_in",
+  "completed",
+  "no_show",
+  "cancelled",
+];
+
+/**
+ * Check-in opens this many minutes before the reservation starts
+ */
+export const CHECK_IN_OPENS_MINUTES = 30;
+
+/**
+ * Check if a reservation still holds its court
+ * Cancelled reservations and no-shows release the court for other players.
+ */
+export function isActiveReservation(reservation: Pick<Reservation, "status">): boolean {
+  return (
+    reservation.status === "confirmed" ||
+    reservation.status === "checked_in" ||
+    reservation.status === "completed"
+  );
+}
+
+function startOf(reservation: Reservation): Date {
+  return new Date(`${reservation.date}T${reservation.timeSlot.start}`);
+}
+
+function endOf(reservation: Reservation): Date {
+  return new Date(`${reservation.date}T${reservation.timeSlot.end}`);
+}
+
+/**
+ * Make sure a reservation can be checked in at `now`
+ * Check-in opens CHECK_IN_OPENS_MINUTES before the start and closes when
+ * the reservation ends.
+ * @throws ValidationError if it isn't confirmed or the window is closed
+ */
+export function assertCanCheckIn(reservation: Reservation, now: Date): void {
+  switch (reservation.status) {
+    case "checked_in":
+    case "completed":
+      throw new ValidationError("This reservation is already checked in");
+    case "cancelled":
+      throw new ValidationError("This reservation was cancelled");
+    case "no_show":
+      throw new ValidationError("This reservation was marked as a no-show");
+  }
+
+  if (now < subMinutes(startOf(reservation), CHECK_IN_OPENS_MINUTES)) {
+    throw new ValidationError(
+      `Check-in opens ${CHECK_IN_OPENS_MINUTES} minutes before the reservation starts`
+    );
+  }
+  if (now >= endOf(reservation)) {
+    throw new ValidationError("This reservation has already ended");
+  }
+}
+
+/**
+ * Check if nobody checked in within graceMinutes of the start
+ * Walk-ins booked after the start are never no-shows.
+ */
+export function isNoShow(reservation: Reservation, now: Date, graceMinutes: number): boolean {
+  const start = startOf(reservation);
+  return (
+    reservation.status === "confirmed" &&
+    new Date(reservation.createdAt) < start &&
+    addMinutes(start, graceMinutes) <= now
+  );
+}
+
+/**
+ * Check if a checked-in reservation is over
+ */
+export function isFinished(reservation: Reservation, now: Date): boolean {
+  return reservation.status === "checked_in" && endOf(reservation) <= now;
+}
+
+/**
+ * Check if an update moved a reservation or cancelled (or restored) it,
+ * which calendars need to pick up as a new revision
+ */
+export function isRescheduled(before: Reservation, after: Reservation): boolean {
+  return (
+    before.date !== after.date ||
+    before.timeSlot.start !== after.timeSlot.start ||
+    before.timeSlot.end !== after.timeSlot.end ||
+    before.courtId !== after.courtId ||
+    (before.status === "cancelled") !== (after.status === "cancelled")
+  );
+}
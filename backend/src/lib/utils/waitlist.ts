@@ -0,0 +1,86 @@
+/**
+ * Waitlist matching, hold checks and validation
+ */
+
+import { WaitlistEntry, WaitlistRequest } from "../../types/reservation";
+import { ValidationError } from "../errors/reservation-errors";
+import { timeRangesOverlap } from "./time-ranges";
+
+const DATE_REGEX = /^\d{4}-\d{2}-\d{2}$/;
+const TIME_REGEX = /^([01]\d|2[0-3]):[0-5]\d$/;
+const END_TIME_REGEX = /^(([01]\d|2[0-3]):[0-5]\d|24:00)$/;
+
+/**
+ * Check if a freed slot satisfies a waiting entry
+ * The slot must be on the entry's court (or any court) and inside its time range.
+ */
+export function entryMatchesSlot(
+  entry: WaitlistEntry,
+  courtId: string,
+  date: string,
+  start: string,
+  end: string
+): boolean {
+  return (
+    entry.status === "waiting" &&
+    entry.date === date &&
+    (!entry.courtId || entry.courtId === courtId) &&
+    start >= entry.timeRange.start &&
+    end <= entry.timeRange.end
+  );
+}
+
+/**
+ * Check if an entry holds an unexpired offer
+ */
+export function holdIsActive(entry: WaitlistEntry, now: Date = new Date()): boolean {
+  return (
+    entry.status === "offered" &&
+    !!entry.hold &&
+    new Date(entry.hold.expiresAt) > now
+  );
+}
+
+/**
+ * Check if an entry's active hold overlaps a court/date/time range
+ */
+export function holdBlocks(
+  entry: WaitlistEntry,
+  courtId: string,
+  date: string,
+  start: string,
+  end: string,
+  now: Date = new Date()
+): boolean {
+  return (
+    holdIsActive(entry, now) &&
+    entry.date === date &&
+    entry.hold!.courtId === courtId &&
+    timeRangesOverlap(start, end, entry.hold!.timeSlot.start, entry.hold!.timeSlot.end)
+  );
+}
+
+/**
+ * Validate a waitlist join request
+ * @throws ValidationError if the request is malformed
+ */
+export function validateWaitlistRequest(data: WaitlistRequest): void {
+  if (!data || typeof data.date !== "string" || !DATE_REGEX.test(data.date)) {
+    throw new ValidationError("date must be in YYYY-MM-DD format");
+  }
+
+  if (data.courtId !== undefined && (typeof data.courtId !== "string" || !data.courtId)) {
+    throw new ValidationError("courtId must be a court ID (omit it for any court)");
+  }
+
+  const { start, end } = data.timeRange || ({} as WaitlistRequest["timeRange"]);
+  if (typeof start !== "string" || !TIME_REGEX.test(start)) {
+    throw new ValidationError("timeRange.start must be in HH:mm format");
+  }
+  if (typeof end !== "string" || !END_TIME_REGEX.test(end)) {
+    throw new ValidationError("timeRange.end must be in HH:mm format");
+  }
+  if (end <= start) {
+    throw new ValidationError("timeRange.end must be after timeRange.start");
+  }
+}
@@ -0,0 +1,296 @@
+/**
+ * Business logic layer for the court waitlist
+ *
+ * Members wait for a court/date/time range (or any court). When a matching
+ * slot is freed, the first member in line gets a hold that expires after
+ * WAITLIST_HOLD_MINUTES; unclaimed holds pass to the next member.
+ */
+
+import { format } from "date-fns";
+import { Reservation, WaitlistEntry, WaitlistRequest } from "../types/reservation";
+import { waitlistRepository } from "./repositories/file-waitlist-repository";
+import { reservationRepository } from "./repositories";
+import { getCourt } from "./courts";
+import { getMember, validateMemberActive } from "./members";
+import { sendWaitlistHoldEmail } from "./auth/email-service";
+import { NotFoundError, ValidationError } from "./errors/reservation-errors";
+import {
+  entryMatchesSlot,
+  holdBlocks,
+  holdIsActive,
+  validateWaitlistRequest,
+} from "./utils/waitlist";
+import { timeRangesOverlap } from "./utils/time-ranges";
+
+export const DEFAULT_HOLD_MINUTES = 30;
+
+export interface FreedSlot {
+  courtId: string;
+  date: string;
+  timeSlot: {
+    start: string;
+    end: string;
+  };
+}
+
+function getHoldMinutes(): number {
+  const minutes = Number(process.env.WAITLIST_HOLD_MINUTES);
+  return Number.isFinite(minutes) && minutes > 0 ? minutes : DEFAULT_HOLD_MINUTES;
+}
+
+/**
+ * Join the waitlist for a slot
+ * @throws ValidationError if the request is invalid, in the past or a duplicate
+ */
+export async function joinWaitlist(
+  memberId: string,
+  data: WaitlistRequest,
+  now: Date = new Date()
+): Promise<WaitlistEntry> {
+  validateWaitlistRequest(data);
+
+  if (data.date < format(now, "yyyy-MM-dd")) {
+    throw new ValidationError("Cannot join the waitlist for a past date");
+  }
+
+  if (data.courtId) {
+    const court = await getCourt(data.courtId);
+    if (!court) {
+      throw new ValidationError(`Court ${data.courtId} not found`);
+    }
+    if (court.retired) {
+      throw new ValidationError(`${court.name} has been retired`);
+    }
+  }
+
+  await validateMemberActive(memberId);
+
+  const existing = await waitlistRepository.findByMember(memberId);
+  const duplicate = existing.some(
+    (e) =>
+      (e.status === "waiting" || e.status === "offered") &&
+      e.date === data.date &&
+      (e.courtId || undefined) === (data.courtId || undefined) &&
+      e.timeRange.start === data.timeRange.start &&
+      e.timeRange.end === data.timeRange.end
+  );
+  if (duplicate) {
+    throw new ValidationError("You are already on the waitlist for this slot");
+  }
+
+  return waitlistRepository.create({
+    memberId,
+    courtId: data.courtId || undefined,
+    date: data.date,
+    timeRange: { start: data.timeRange.start, end: data.timeRange.end },
+    status: "waiting",
+  });
+}
+
+/**
+ * List a member's waitlist entries by date
+ */
+export async function getMemberWaitlist(
+  memberId: string,
+  now: Date = new Date()
+): Promise<WaitlistEntry[]> {
+  await expireHolds(now);
+  const entries = await waitlistRepository.findByMember(memberId);
+  return entries.sort((a, b) =>
+    `${a.date}T${a.timeRange.start}`.localeCompare(`${b.date}T${b.timeRange.start}`)
+  );
+}
+
+/**
+ * Get a member's own waitlist entry
+ * @throws NotFoundError if the entry doesn't exist or belongs to someone else
+ */
+export async function getMemberWaitlistEntry(
+  memberId: string,
+  id: string,
+  now: Date = new Date()
+): Promise<WaitlistEntry> {
+  await expireHolds(now);
+  const entry = await waitlistRepository.findById(id);
+  if (!entry || entry.memberId !== memberId) {
+    throw new NotFoundError("Waitlist entry");
+  }
+  return entry;
+}
+
+/**
+ * Leave the waitlist; a held slot is passed to the next member in line
+ * @throws NotFoundError if the entry doesn't exist or belongs to someone else
+ * @throws ValidationError if the entry is no longer active
+ */
+export async function leaveWaitlist(
+  memberId: string,
+  id: string,
+  now: Date = new Date()
+): Promise<WaitlistEntry> {
+  const entry = await getMemberWaitlistEntry(memberId, id, now);
+  if (entry.status !== "waiting" && entry.status !== "offered") {
+    throw new ValidationError("Waitlist entry is no longer active");
+  }
+
+  const updated = await waitlistRepository.update(id, {
+    status: "cancelled",
+    hold: undefined,
+  });
+
+  if (entry.hold) {
+    await offerFreedSlot(
+      { courtId: entry.hold.courtId, date: entry.date, timeSlot: entry.hold.timeSlot },
+      now
+    );
+  }
+
+  return updated as WaitlistEntry;
+}
+
+/**
+ * Offer a freed slot to the first matching member in line
+ * Nothing is offered for past slots, unavailable courts or slots that are taken.
+ * @returns The entry that received the hold, or null
+ */
+export async function offerFreedSlot(
+  slot: FreedSlot,
+  now: Date = new Date()
+): Promise<WaitlistEntry | null> {
+  const { courtId, date, timeSlot } = slot;
+  if (new Date(`${date}T${timeSlot.start}`) <= now) {
+    return null;
+  }
+
+  const court = await getCourt(courtId);
+  if (!court || court.retired || !court.available) {
+    return null;
+  }
+
+  const entries = await waitlistRepository.findByDate(date);
+  if (entries.some((e) => holdBlocks(e, courtId, date, timeSlot.start, timeSlot.end, now))) {
+    return null;
+  }
+
+  const next = entries.find((e) =>
+    entryMatchesSlot(e, courtId, date, timeSlot.start, timeSlot.end)
+  );
+  if (!next) {
+    return null;
+  }
+
+  if (
+    !(await reservationRepository.checkAvailability(courtId, date, timeSlot.start, timeSlot.end))
+  ) {
+    return null;
+  }
+
+  const expiresAt = new Date(now.getTime() + getHoldMinutes() * 60 * 1000).toISOString();
+  const offered = await waitlistRepository.update(next.id, {
+    status: "offered",
+    hold: {
+      courtId,
+      courtName: court.name,
+      timeSlot: { start: timeSlot.start, end: timeSlot.end },
+      offeredAt: now.toISOString(),
+      expiresAt,
+    },
+  });
+
+  try {
+    const member = await getMember(next.memberId);
+    await sendWaitlistHoldEmail(member.email, member.firstName, {
+      courtName: court.name,
+      date,
+      start: timeSlot.start,
+      end: timeSlot.end,
+      expiresAt,
+    });
+  } catch (error) {
+    // Log notification error but keep the hold
+    console.error(`Failed to notify waitlisted member ${next.memberId}:`, error);
+  }
+
+  return offered;
+}
+
+/**
+ * Expire unclaimed holds and pass each slot to the next member in line
+ * @returns Number of holds expired
+ */
+export async function expireHolds(now: Date = new Date()): Promise<number> {
+  const entries = await waitlistRepository.findAll();
+  const expired = entries.filter(
+    (e) => e.status === "offered" && e.hold && new Date(e.hold.expiresAt) <= now
+  );
+
+  for (const entry of expired) {
+    await waitlistRepository.update(entry.id, { status: "expired", hold: undefined });
+    await offerFreedSlot(
+      { courtId: entry.hold!.courtId, date: entry.date, timeSlot: entry.hold!.timeSlot },
+      now
+    );
+  }
+
+  return expired.length;
+}
+
+/**
+ * Get unexpired holds for a date (used by availability)
+ */
+export async function getActiveHolds(
+  date: string,
+  now: Date = new Date()
+): Promise<WaitlistEntry[]> {
+  await expireHolds(now);
+  const entries = await waitlistRepository.findByDate(date);
+  return entries.filter((e) => holdIsActive(e, now));
+}
+
+/**
+ * Find another member's active hold that blocks a booking
+ */
+export async function findBlockingHold(
+  courtId: string,
+  date: string,
+  start: string,
+  end: string,
+  memberId?: string,
+  now: Date = new Date()
+): Promise<WaitlistEntry | undefined> {
+  const holds = await getActiveHolds(date, now);
+  return holds.find(
+    (e) => e.memberId !== memberId && holdBlocks(e, courtId, date, start, end, now)
+  );
+}
+
+/**
+ * Mark the member's hold as fulfilled once they book the held slot
+ */
+export async function fulfillHold(reservation: Reservation): Promise<void> {
+  if (!reservation.memberId) {
+    return;
+  }
+
+  const entries = await waitlistRepository.findByMember(reservation.memberId);
+  const held = entries.find(
+    (e) =>
+      e.status === "offered" &&
+      e.hold &&
+      e.date === reservation.date &&
+      e.hold.courtId === reservation.courtId &&
+      timeRangesOverlap(
+        e.hold.timeSlot.start,
+        e.hold.timeSlot.end,
+        reservation.timeSlot.start,
+        reservation.timeSlot.end
+      )
+  );
+
+  if (held) {
+    await waitlistRepository.update(held.id, {
+      status: "fulfilled",
+      reservationId: reservation.id,
+    });
+  }
+}
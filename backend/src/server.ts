@@ -1,8 +1,29 @@
 import "dotenv/config";
 import app from "./app";
+import { processOutbox } from "./lib/email/outbox";
+import { processAttendance } from "./lib/check-in";
+import { expireHolds } from "./lib/waitlist";
 
 const port = Number(process.env.PORT) || 8080;
+const OUTBOX_INTERVAL_MS = 60 * 1000;
+const ATTENDANCE_INTERVAL_MS = 60 * 1000;
+const HOLD_INTERVAL_MS = 60 * 1000;
 
 app.listen(port, () => {
   console.log(`Backend listening on port ${port}`);
 });
+
+// Retry emails whose delivery failed
+setInterval(() => {
+  processOutbox().catch((error) => console.error("Error processing email outbox:", error));
+}, OUTBOX_INTERVAL_MS);
+
+// Mark no-shows after the grace period and complete finished reservations
+setInterval(() => {
+  processAttendance().catch((error) => console.error("Error processing attendance:", error));
+}, ATTENDANCE_INTERVAL_MS);
+
+// Release abandoned waitlist holds and offer the slots to the next member in line
+setInterval(() => {
+  expireHolds().catch((error) => console.error("Error expiring waitlist holds:", error));
+}, HOLD_INTERVAL_MS);
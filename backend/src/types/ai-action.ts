@@ -0,0 +1,44 @@
+/**
+ * Pending AI agent action type definitions
+ */
+
+export type AIActionType =
+  | "moveReservation"
+  | "cancelReservation"
+  | "overrideConflictAndMove"
+  | "createNewPlayer";
+
+export type AIActionStatus =
+  | "pending"                    // Waiting for the admin
+  | "applying"                   // Confirmed and being applied
+  | "confirmed"                  // Confirmed and applied
+  | "rejected"                   // Turned down by the admin
+  | "expired"                    // Not decided in time
+  | "failed";                    // Confirmed, but could no longer be applied
+
+/**
+ * One record the action changes, as shown in the confirmation preview
+ */
+export interface AIActionChange {
+  entity: "reservation" | "member";
+  entityId?: string;             // Absent for records the action creates
+  before: Record<string, string> | null; // null when the action creates the record
+  after: Record<string, string>;
+}
+
+export interface AIAction {
+  id: string;                    // Unique identifier
+  memberId: string;              // Admin whose chat proposed it; only they can decide
+  agent: "admin" | "orchestrator";
+  threadId?: string;             // Conversation the action came from, when saved
+  type: AIActionType;
+  args: Record<string, any>;     // Resolved tool arguments, replayed on confirmation
+  summary: string;               // e.g. "Move Court 1 on 2026-06-01 10:00-11:00 to Court 2"
+  changes: AIActionChange[];
+  status: AIActionStatus;
+  createdAt: string;             // ISO 8601 timestamp
+  expiresAt: string;             // ISO 8601 timestamp
+  decidedAt?: string;            // ISO 8601 timestamp of the confirmation or rejection
+  result?: Record<string, any>;  // What the confirmed action did
+  error?: string;                // Why a confirmed action failed
+}
@@ -0,0 +1,33 @@
+/**
+ * AI conversation thread type definitions
+ */
+
+import { LLMMessage } from "./llm";
+
+export type AIThreadAgent =
+  | "assistant"                  // Public assistant (/api/chat)
+  | "admin"                      // Booking manager (/api/admin/chat)
+  | "orchestrator";              // Ace (/api/orchestrator/chat, /api/training/chat)
+
+export type AIThreadMessage = LLMMessage & {
+  createdAt: string;             // ISO 8601 timestamp
+};
+
+export interface AIThread {
+  id: string;                    // Unique identifier
+  memberId: string;              // Member who owns the thread
+  agent: AIThreadAgent;
+  title: string;                 // From the first message unless renamed
+  messages: AIThreadMessage[];   // Full transcript, including tool calls and results
+  createdAt: string;             // ISO 8601 timestamp
+  updatedAt: string;             // ISO 8601 timestamp of the last message or rename
+}
+
+export interface AIThreadSummary {
+  id: string;
+  agent: AIThreadAgent;
+  title: string;
+  messageCount: number;
+  createdAt: string;
+  updatedAt: string;
+}
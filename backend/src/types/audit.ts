@@ -0,0 +1,59 @@
+/**
+ * Audit log type definitions
+ */
+
+export type AuditSource =
+  | "api"                        // Direct API call
+  | "admin-ui"                   // Admin dashboard
+  | "ai-agent"                   // AI agent action an admin confirmed
+  | "system";                    // Automatic follow-up, e.g. a cancellation refund
+
+export type AuditEntityType = "reservation" | "member" | "payment";
+
+export type AuditAction =
+  | "reservation.create"
+  | "reservation.update"
+  | "reservation.cancel"
+  | "member.create"
+  | "member.update"
+  | "member.deactivate"
+  | "payment.refund";
+
+/**
+ * A changed field's value before and after (undefined when absent)
+ */
+export interface AuditChange {
+  before?: unknown;
+  after?: unknown;
+}
+
+/**
+ * One change to a record; entries are never updated or deleted
+ */
+export interface AuditEntry {
+  id: string;                    // Unique identifier
+  actorId?: string;              // Member who made the change; absent for guests and the system
+  actorRole?: string;            // Actor's role at the time
+  source: AuditSource;
+  action: AuditAction;
+  entityType: AuditEntityType;
+  entityId: string;
+  changes: Record<string, AuditChange>; // Changed fields only
+  createdAt: string;             // ISO 8601 timestamp
+}
+
+/**
+ * Who is making a change and through what
+ */
+export interface AuditContext {
+  actorId?: string;
+  actorRole?: string;
+  source: AuditSource;
+}
+
+export interface AuditFilter {
+  entityType?: AuditEntityType;
+  entityId?: string;
+  actorId?: string;
+  action?: AuditAction;
+}
@@ -26,7 +26,9 @@ export interface AuthResponse {
     role: string;
     emailVerified: boolean;
   };
-  token: string;
+  token: string;          // Short-lived access token
+  refreshToken: string;   // Rotating refresh token
+  expiresAt: string;      // Access token expiry (ISO 8601)
 }
 
 export interface Session {
@@ -34,6 +36,42 @@ export interface Session {
   email: string;
   role: string;
   expiresAt: string; // ISO 8601 timestamp
+  sessionId?: string; // Server-side session the token belongs to
+}
+
+export type SessionRevokeReason =
+  | "logout"
+  | "logout_all"
+  | "revoked_by_member"
+  | "password_reset"
+  | "deactivated"
+  | "refresh_token_reuse";
+
+/**
+ * Server-side session backing a device's refresh token
+ */
+export interface AuthSession {
+  id: string;                        // Session ID (the "sid" claim of access tokens)
+  memberId: string;
+  refreshTokenHash: string;          // SHA-256 of the current refresh token
+  previousRefreshTokenHash?: string; // Hash of the token replaced by the last rotation
+  rotatedAt?: string;                // When the refresh token was last rotated
+  userAgent?: string;
+  ipAddress?: string;
+  createdAt: string;                 // ISO 8601 timestamp
+  lastUsedAt: string;                // Last sign-in or refresh
+  expiresAt: string;                 // Refresh token expiry
+  revokedAt?: string;
+  revokedReason?: SessionRevokeReason;
+}
+
+export interface DeviceInfo {
+  userAgent?: string;
+  ipAddress?: string;
+}
+
+export interface RefreshRequest {
+  refreshToken: string;
 }
 
 export interface EmailVerificationToken {
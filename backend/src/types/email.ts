@@ -0,0 +1,55 @@
+/**
+ * Email type definitions
+ */
+
+export type EmailTemplateName =
+  | "verification"
+  | "password_reset"
+  | "welcome"
+  | "waitlist_hold"
+  | "booking_confirmation"
+  | "booking_cancellation"
+  | "booking_change"
+  | "refund"
+  | "guardian_invite"
+  | "partner_invite"
+  | "program_enrollment"
+  | "program_seat"
+  | "program_cancellation";
+
+export type OutboxStatus = "pending" | "sent" | "failed";
+
+export interface EmailAttachment {
+  filename: string;               // e.g. "booking.ics"
+  contentType: string;            // e.g. "text/calendar; method=REQUEST"
+  content: string;                // UTF-8 text
+}
+
+export interface EmailMessage {
+  to: string;
+  from: string;
+  subject: string;
+  html: string;                   // HTML body
+  text: string;                   // Plain-text alternative
+  attachments?: EmailAttachment[];
+}
+
+export interface RenderedEmail {
+  subject: string;
+  html: string;
+  text: string;
+  attachments?: EmailAttachment[]; // Added by the sender (e.g. calendar invites)
+}
+
+export interface OutboxMessage extends EmailMessage {
+  id: string;                     // Unique outbox message ID
+  template: EmailTemplateName;    // Template the message was rendered from
+  status: OutboxStatus;           // Delivery status
+  attempts: number;               // Delivery attempts so far
+  lastError?: string;             // Error from the most recent failed attempt
+  nextAttemptAt?: string;         // When a pending message is next retried
+  transport?: string;             // Transport that delivered the message
+  sentAt?: string;                // When the message was delivered
+  createdAt: string;              // ISO 8601 timestamp
+  updatedAt: string;              // ISO 8601 timestamp
+}
@@ -16,6 +16,7 @@ export interface JournalEntry {
   pointersForNextSession: string; // Coach's notes for next session
   additionalNotes?: string;      // Optional additional notes
   playerReflection?: string;     // Optional: Player's own notes/reflections
+  draft?: boolean;               // Created with a booked lesson; only the coach sees it until filled in
   
   // Metadata
   createdAt: string;             // ISO 8601 timestamp
@@ -40,4 +41,5 @@ export interface JournalFilter {
   startDate?: string;           // Filter entries from date
   endDate?: string;             // Filter entries to date
   areaWorkedOn?: string;        // Filter by focus area
+  includeDrafts?: boolean;      // Include lesson drafts (coaches and admins)
 }
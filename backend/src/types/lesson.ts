@@ -0,0 +1,93 @@
+/**
+ * Type definitions for coach lessons and coach availability
+ */
+
+import { PartnerRequest, Weekday } from "./reservation";
+
+export type LessonKind = "private" | "semi_private";
+
+/**
+ * A kind of lesson members can book with a coach
+ * The price covers the court as well as the coach.
+ */
+export interface LessonType {
+  id: string;
+  name: string;
+  kind: LessonKind;
+  durationMinutes: number;
+  price: number;          // Cents per lesson
+  maxPlayers: number;     // Players including the booker (1 for private lessons)
+  active: boolean;        // Inactive types can't be booked
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+export interface LessonTypeRequest {
+  name: string;
+  kind: LessonKind;
+  durationMinutes: number;
+  price: number;
+  maxPlayers?: number;    // Defaults to 1 for private and 2 for semi-private
+  active?: boolean;       // Defaults to true
+}
+
+/**
+ * A window a coach teaches in, e.g. 09:00-12:00
+ */
+export interface CoachHours {
+  start: string;          // HH:mm format
+  end: string;            // HH:mm format (24:00 = until midnight)
+}
+
+/**
+ * Days or hours a coach isn't teaching (vacation, tournaments)
+ */
+export interface CoachTimeOff {
+  id: string;
+  startDate: string;      // YYYY-MM-DD format (inclusive)
+  endDate: string;        // YYYY-MM-DD format (inclusive)
+  startTime?: string;     // HH:mm format, applied on each day; omitted = all day
+  endTime?: string;       // HH:mm format, applied on each day; omitted = all day
+  reason?: string;
+  createdAt: string;
+}
+
+export interface CoachTimeOffRequest {
+  startDate: string;
+  endDate?: string;       // Defaults to startDate
+  startTime?: string;
+  endTime?: string;
+  reason?: string;
+}
+
+/**
+ * A coach's weekly teaching hours and time off
+ * Coaches without a saved schedule aren't bookable.
+ */
+export interface CoachSchedule {
+  coachId: string;
+  weeklyHours: Record<Weekday, CoachHours[]>;
+  timeOff: CoachTimeOff[];
+  updatedAt?: string;
+}
+
+export interface LessonRequest {
+  coachId: string;
+  lessonTypeId: string;
+  date: string;           // YYYY-MM-DD format
+  start: string;          // HH:mm format; the end follows from the lesson type
+  memberId: string;       // Player taking the lesson
+  courtId?: string;       // Omit to take any free court
+  partners?: PartnerRequest[]; // Other players on a semi-private lesson
+  splitPayment?: boolean;      // Players pay their own share of the lesson
+  notes?: string;
+}
+
+/**
+ * A start time a coach can teach a lesson type, and the courts free for it
+ */
+export interface LessonSlot {
+  start: string;
+  end: string;
+  courtIds: string[];
+}
@@ -0,0 +1,70 @@
+/**
+ * LLM provider type definitions
+ */
+
+export type ToolSchemaType = "string" | "number" | "integer" | "boolean" | "array" | "object";
+
+export interface ToolSchema {
+  type: ToolSchemaType;
+  description?: string;
+  properties?: Record<string, ToolSchema>;
+  items?: ToolSchema;
+  required?: string[];
+}
+
+export interface ToolDeclaration {
+  name: string;
+  description: string;
+  parameters: ToolSchema;         // Always an "object" schema
+}
+
+export interface ToolCall {
+  name: string;
+  args: Record<string, any>;
+}
+
+export interface ToolResult {
+  name: string;
+  response: Record<string, any>;
+}
+
+export type LLMMessage =
+  | { role: "user"; content: string }
+  | { role: "assistant"; content: string; toolCalls?: ToolCall[] }
+  | { role: "tool"; results: ToolResult[] };
+
+export interface LLMSource {
+  title: string;
+  url: string;
+}
+
+export interface LLMRequest {
+  system?: string;                // System prompt
+  messages: LLMMessage[];         // Conversation so far, oldest first
+  tools: ToolDeclaration[];
+  signal?: AbortSignal;           // Abandons the request when the client goes away
+}
+
+export interface LLMResponse {
+  text: string;                   // Empty when the model only called tools
+  toolCalls: ToolCall[];
+  sources?: LLMSource[];          // Web grounding citations, when the provider returns them
+}
+
+/**
+ * Progress of a streamed chat turn
+ * - delta: the next piece of the reply text
+ * - tool_start / tool_end: a tool the model called, with a label for the UI
+ */
+export type ChatStreamEvent =
+  | { type: "delta"; text: string }
+  | { type: "tool_start"; name: string; label: string }
+  | { type: "tool_end"; name: string; label: string; success: boolean };
+
+/**
+ * One canned model turn for the scripted provider
+ */
+export interface ScriptedTurn {
+  text?: string;
+  toolCalls?: ToolCall[];
+}
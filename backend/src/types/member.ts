@@ -20,7 +20,7 @@ export interface Member {
   address?: string;              // Address as single string (simplified)
   
   // Account Settings
-  penaltyCancellations?: number; // Count of penalty cancellations (default: 0)
+  penaltyCancellations?: number; // Late cancellations and no-shows, less waived ones (default: 0)
   notes?: string;                // Internal notes about member
   unsubscribeEmail?: boolean;    // Unsubscribe from emails (default: false)
   
@@ -34,8 +34,22 @@ export interface Member {
   // Custom Fields (Tennis-specific)
   ntrpRating?: string;           // Tennis rating (e.g., "4.5")
   ustaNumber?: string;           // USTA number
+  
+  // Family (parent accounts linked to a junior player)
+  guardianIds?: string[];        // Member IDs of linked parents
+  
+  // Membership (plans and status live on Subscription)
+  stripeCustomerId?: string;     // Stripe customer billed for subscriptions
+
+  // Calendar feeds (secret token in the .ics URLs; resetting it revokes old links)
+  calendarToken?: string;
 }
 
+/**
+ * A member as returned by the API, without credentials or secret tokens
+ */
+export type PublicMember = Omit<Member, "passwordHash" | "calendarToken" | "stripeCustomerId">;
+
 export interface MemberRequest {
   // Required for creation
   firstName: string;
@@ -60,3 +74,18 @@ export interface MemberFilter {
   status?: "all" | "active" | "inactive";
   search?: string;                // Search by name, email, phone, member number
 }
+
+export type GuardianInviteStatus = "pending" | "accepted" | "declined" | "cancelled";
+
+/**
+ * Invitation from a parent to link a player's account
+ * The player accepts to add the parent to their guardianIds.
+ */
+export interface GuardianInvite {
+  id: string;
+  parentId: string;               // Inviting parent
+  childId: string;                // Invited player
+  status: GuardianInviteStatus;
+  createdAt: string;              // ISO 8601 timestamp
+  respondedAt?: string;           // When accepted, declined or cancelled
+}
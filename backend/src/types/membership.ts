@@ -0,0 +1,56 @@
+/**
+ * Membership plan and subscription type definitions
+ */
+
+export type MembershipPlanId = "junior" | "adult" | "family" | "off_season";
+
+export type BillingInterval = "month" | "year";
+
+export type SubscriptionStatus = "trialing" | "active" | "past_due" | "canceled";
+
+/**
+ * What a plan grants its members; feeds pricing and reservation rules
+ */
+export interface PlanEntitlements {
+  bookingWindowDays: number;      // How far ahead members can book
+  courtDiscount: number;          // Fraction off court time (0.2 = 20%)
+}
+
+export interface MembershipPlan {
+  id: MembershipPlanId;
+  name: string;
+  description: string;
+  prices: Partial<Record<BillingInterval, number>>; // Cents per interval
+  trialDays?: number;             // Free trial before the first charge
+  maxAge?: number;                // Members must be younger than this (needs dateOfBirth)
+  coversLinkedPlayers?: boolean;  // Entitlements extend to players linked via guardianIds
+  seasonMonths?: number[];        // Entitlements apply only to bookings in these months (1-12)
+  entitlements: PlanEntitlements;
+}
+
+export interface Subscription {
+  id: string;
+  memberId: string;               // Member who pays for the plan
+  planId: MembershipPlanId;
+  interval: BillingInterval;
+  status: SubscriptionStatus;
+  stripeCustomerId?: string;
+  stripeSubscriptionId?: string;
+  currentPeriodStart: string;     // ISO 8601 timestamp
+  currentPeriodEnd: string;       // ISO 8601 timestamp; renewal date
+  cancelAtPeriodEnd: boolean;     // Member canceled; plan ends at currentPeriodEnd
+  trialEnd?: string;              // ISO 8601 timestamp
+  canceledAt?: string;            // When the subscription ended
+  createdAt: string;              // ISO 8601 timestamp
+  lastModified: string;           // ISO 8601 timestamp
+}
+
+/**
+ * Entitlements a member holds for a booking date, and where they come from
+ */
+export interface MembershipEntitlements extends PlanEntitlements {
+  planId: MembershipPlanId;
+  planName: string;
+  subscriptionId: string;
+  coveredBy?: string;             // Family plan holder, when the member is a linked player
+}
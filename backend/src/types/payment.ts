@@ -2,14 +2,25 @@
  * Payment type definitions
  */
 
-export type PaymentStatus = "pending" | "paid" | "refunded" | "failed" | "cancelled";
+import { CourtType } from "./reservation";
+import { MembershipPlanId } from "./membership";
 
-export type PaymentType = "court_booking" | "membership" | "other";
+export type PaymentStatus =
+  | "pending"
+  | "paid"
+  | "refunded"
+  | "failed"
+  | "cancelled"
+  | "disputed";
+
+export type PaymentType = "court_booking" | "membership" | "program" | "other";
 
 export interface Payment {
   id: string;                      // Unique payment ID
   memberId?: string;              // Member who made payment (optional for guest payments)
+  onBehalfOfMemberId?: string;    // Linked player a parent paid for
   reservationId?: string;         // Associated reservation (if applicable)
+  enrollmentId?: string;          // Associated program enrollment (if applicable)
   type: PaymentType;              // Type of payment
   amount: number;                  // Payment amount in cents
   currency: string;               // Currency code (default: "usd")
@@ -23,11 +34,16 @@ export interface Payment {
   paidAt?: string;                // When payment was completed
   refundedAt?: string;            // When payment was refunded
   refundAmount?: number;          // Refund amount in cents
+  failureReason?: string;         // Last payment error reported by Stripe
+  disputeStatus?: string;         // Stripe dispute status (e.g. "needs_response", "won", "lost")
+  disputedAt?: string;            // When a dispute was opened
 }
 
 export interface PaymentRequest {
   memberId?: string;              // Member ID (optional for guests)
+  onBehalfOfMemberId?: string;    // Linked player the member is paying for
   reservationId?: string;         // Reservation ID (if applicable)
+  enrollmentId?: string;          // Program enrollment ID (if applicable)
   type: PaymentType;
   amount: number;                 // Amount in cents
   currency?: string;              // Default: "usd"
@@ -39,7 +55,9 @@ export interface PaymentIntentRequest {
   amount: number;                 // Amount in cents
   currency?: string;              // Default: "usd"
   memberId?: string;             // Member ID
+  onBehalfOfMemberId?: string;   // Linked player the member is paying for
   reservationId?: string;        // Reservation ID
+  enrollmentId?: string;         // Program enrollment ID
   description?: string;
   metadata?: Record<string, string>;
 }
@@ -70,3 +88,49 @@ export interface PaymentFilter {
   startDate?: string;             // Start date (YYYY-MM-DD)
   endDate?: string;               // End date (YYYY-MM-DD)
 }
+
+
+export interface ProcessedWebhookEvent {
+  id: string;                     // Stripe event ID (evt_...)
+  type: string;                   // Stripe event type
+  paymentId?: string;             // Payment updated by the event (if any)
+  subscriptionId?: string;        // Subscription updated by the event (if any)
+  processedAt: string;            // ISO 8601 timestamp
+}
+
+/**
+ * Court booking rates (all amounts in cents)
+ */
+export interface PricingRules {
+  hourlyRates: Record<CourtType, number>;  // Off-peak member rate per hour
+  primeTimeMultiplier: number;             // Applied to minutes inside prime time
+  primeTime: {
+    weekdays: { start: string; end: string };  // HH:mm, Monday-Friday
+    weekends: { start: string; end: string };  // HH:mm, Saturday-Sunday
+  };
+  guestFeePerHour: number;                 // Added for non-member bookings
+}
+
+export interface PriceLineItem {
+  label: string;                  // e.g. "Prime-time court time (60 min)"
+  amount: number;                 // Cents (negative for discounts)
+}
+
+export interface PriceQuote {
+  courtId: string;
+  courtName: string;
+  courtType: CourtType;
+  date: string;
+  timeSlot: {
+    start: string;
+    end: string;
+  };
+  durationMinutes: number;
+  primeTimeMinutes: number;
+  memberId?: string;              // Omitted for guest quotes
+  membershipPlan?: MembershipPlanId; // Plan whose entitlements applied
+  lessonTypeId?: string;          // Set for coach lessons (flat lesson price)
+  lineItems: PriceLineItem[];
+  total: number;                  // Cents
+  currency: string;
+}
@@ -0,0 +1,58 @@
+/**
+ * Type definitions for cancellation policy and member penalties
+ */
+
+/**
+ * Share of the booking price refunded when cancelling at least
+ * minHoursBefore hours ahead
+ */
+export interface RefundTier {
+  minHoursBefore: number;
+  refundPercent: number;  // 0-100
+}
+
+/**
+ * Club cancellation policy
+ * Cancelling closer than lateCancellationHours (or not showing up) earns a
+ * penalty. Penalties count for penaltyWindowDays; reaching penaltyThreshold
+ * suspends self-service booking for restrictionDays after the latest one.
+ */
+export interface CancellationPolicy {
+  refundTiers: RefundTier[];      // Checked from the longest notice down; no match = no refund
+  lateCancellationHours: number;
+  penaltyWindowDays: number;
+  penaltyThreshold: number;
+  restrictionDays: number;
+  updatedAt?: string;
+  updatedBy?: string;             // Member ID of the admin who last changed it
+}
+
+export type PenaltyKind = "late_cancellation" | "no_show";
+
+/**
+ * A late cancellation or no-show charged to a member
+ */
+export interface Penalty {
+  id: string;
+  memberId: string;
+  reservationId: string;
+  kind: PenaltyKind;
+  reservationDate: string;        // YYYY-MM-DD
+  reservationStart: string;       // HH:mm
+  hoursBefore?: number;           // Notice given (late cancellations)
+  createdAt: string;
+
+  waivedAt?: string;
+  waivedBy?: string;              // Admin member ID
+  waiveReason?: string;
+}
+
+/**
+ * A member's penalties and any booking restriction they cause
+ */
+export interface PenaltyStatus {
+  penalties: Penalty[];           // Newest first, including waived and expired ones
+  activeCount: number;            // Unwaived penalties inside the rolling window
+  threshold: number;
+  restrictedUntil: string | null; // ISO timestamp while booking is suspended
+}
@@ -0,0 +1,107 @@
+/**
+ * Program type definitions (clinics, camps and junior development groups)
+ */
+
+import { Reservation } from "./reservation";
+
+export type ProgramKind = "clinic" | "camp" | "junior_development";
+
+export type ProgramStatus = "open" | "cancelled";
+
+/**
+ * One meeting of a program; its courts are closed to bookings for the window
+ */
+export interface ProgramSession {
+  id: string;
+  date: string;        // YYYY-MM-DD format
+  start: string;       // HH:mm format
+  end: string;         // HH:mm format
+}
+
+export interface Program {
+  id: string;
+  name: string;
+  kind: ProgramKind;
+  description?: string;
+  sessions: ProgramSession[];     // Soonest first
+  courtIds: string[];             // Courts blocked for every session
+  coachIds: string[];             // Coaches who run the sessions and see the roster
+  capacity: number;               // Enrolled players before new sign-ups join the waitlist
+  price: number;                  // Cents for the whole program
+  minAge?: number;                // Eligibility, inclusive (age on the first session)
+  maxAge?: number;
+  minNtrp?: number;               // Eligibility, inclusive (e.g. 3.0)
+  maxNtrp?: number;
+  status: ProgramStatus;
+  createdBy?: string;             // Member ID of the admin who created it
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ProgramRequest {
+  name: string;
+  kind: ProgramKind;
+  description?: string;
+  sessions: Array<{ date: string; start: string; end: string }>;
+  courtIds: string[];
+  coachIds?: string[];
+  capacity: number;
+  price: number;
+  minAge?: number | null;         // null clears the limit on update
+  maxAge?: number | null;
+  minNtrp?: number | null;
+  maxNtrp?: number | null;
+}
+
+/**
+ * Program with its seats taken, as listed in the catalog
+ */
+export interface ProgramListing extends Program {
+  enrolledCount: number;
+  waitlistCount: number;
+}
+
+/**
+ * enrolled (holding a seat) or waitlisted -> cancelled when the player
+ * withdraws or the program is cancelled; the first waitlisted player is
+ * enrolled when a seat frees up
+ */
+export type EnrollmentStatus = "enrolled" | "waitlisted" | "cancelled";
+
+export type AttendanceMark = "present" | "absent";
+
+export interface ProgramEnrollment {
+  id: string;
+  programId: string;
+  memberId: string;
+  bookedBy?: string;              // Parent/admin who enrolled the player
+  status: EnrollmentStatus;
+  enrolledAt?: string;            // When the player got a seat
+  cancelledAt?: string;
+  paymentId?: string;
+  paymentStatus?: Reservation["paymentStatus"];
+  paymentAmount?: number;
+  attendance?: Record<string, AttendanceMark>; // Keyed by session ID
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * A player on a coach's class roster
+ */
+export interface RosterEntry {
+  enrollmentId: string;
+  memberId: string;
+  firstName: string;
+  lastName: string;
+  email: string;
+  status: EnrollmentStatus;
+  paymentStatus?: ProgramEnrollment["paymentStatus"];
+  attendance: Record<string, AttendanceMark>;
+}
+
+export interface ProgramRoster {
+  program: Program;
+  enrolled: RosterEntry[];
+  waitlisted: RosterEntry[];      // In the order they'll be offered seats
+}
@@ -1,8 +1,88 @@
+export type CourtType = "clay" | "hard" | "indoor";
+
 export interface Court {
   id: string;
   name: string;
-  type: "clay" | "hard" | "indoor";
+  type: CourtType;
   available: boolean;
+  lighting?: boolean;                  // Has lights for evening play
+  environment?: "indoor" | "outdoor";
+  schedule?: CourtSchedule; // Operating hours (defaults to 08:00-21:00, 60-minute slots)
+  retired?: boolean;                   // Retired courts are hidden from booking
+  retiredAt?: string;
+}
+
+/**
+ * Court fields an admin can set when creating or editing a court
+ */
+export interface CourtRequest {
+  name: string;
+  type: CourtType;
+  available?: boolean;
+  lighting?: boolean;
+  environment?: "indoor" | "outdoor";
+}
+
+export type Weekday =
+  | "sunday"
+  | "monday"
+  | "tuesday"
+  | "wednesday"
+  | "thursday"
+  | "friday"
+  | "saturday";
+
+export interface OperatingHours {
+  open: string;                  // HH:mm format
+  close: string;                 // HH:mm format
+  slotDurationMinutes?: number;  // Overrides the schedule default for this day
+}
+
+/**
+ * One-off change to a court's hours for a single date (holidays, events)
+ */
+export interface ScheduleOverride {
+  date: string;                  // YYYY-MM-DD format
+  closed?: boolean;              // true if the court is closed all day
+  open?: string;                 // HH:mm format (required unless closed)
+  close?: string;                // HH:mm format (required unless closed)
+  slotDurationMinutes?: number;
+  reason?: string;               // e.g. "Thanksgiving"
+}
+
+export interface CourtSchedule {
+  slotDurationMinutes: number;                         // Default slot length
+  weeklyHours: Record<Weekday, OperatingHours | null>; // null = closed that day
+  overrides?: ScheduleOverride[];
+}
+
+export type ClosureKind = "maintenance" | "weather" | "tournament" | "program" | "other";
+
+/**
+ * Dated window during which a court cannot be booked (resurfacing, rain, tournaments)
+ */
+export interface CourtClosure {
+  id: string;
+  courtId: string;
+  startDate: string;   // YYYY-MM-DD format (inclusive)
+  endDate: string;     // YYYY-MM-DD format (inclusive)
+  startTime?: string;  // HH:mm format, applied on each day; omitted = all day
+  endTime?: string;    // HH:mm format, applied on each day; omitted = all day
+  kind: ClosureKind;
+  reason: string;
+  programId?: string;  // Set for a program session's court time (kind "program")
+  createdBy?: string;  // Member ID of the admin who created it
+  createdAt: string;
+}
+
+export interface CourtClosureRequest {
+  courtId: string;
+  startDate: string;
+  endDate?: string;    // Defaults to startDate
+  startTime?: string;
+  endTime?: string;
+  kind?: ClosureKind;  // Defaults to "other"
+  reason: string;
 }
 
 export interface TimeSlot {
@@ -13,6 +93,40 @@ export interface TimeSlot {
 
 import { Member } from "./member";
 
+/**
+ * confirmed -> checked_in -> completed, or confirmed -> no_show when nobody
+ * checks in within the grace period
+ */
+export type ReservationStatus = "confirmed" | "checked_in" | "completed" | "no_show" | "cancelled";
+
+export type CheckInMethod = "front_desk" | "qr";
+
+export type ParticipantStatus = "invited" | "accepted" | "declined";
+
+/**
+ * A doubles partner invited to play on someone else's reservation
+ * Partners with a member account are linked by memberId; anyone else is a
+ * guest identified by email.
+ */
+export interface ReservationParticipant {
+  id: string;
+  memberId?: string;
+  name?: string;
+  email: string;
+  status: ParticipantStatus;
+  invitedAt: string;
+  respondedAt?: string;
+}
+
+/**
+ * A partner to invite: an existing member, or a guest by email
+ */
+export interface PartnerRequest {
+  memberId?: string;
+  email?: string;
+  name?: string;
+}
+
 export interface Reservation {
   id: string;
   courtId: string;
@@ -26,6 +140,7 @@ export interface Reservation {
   // Member reservation (if member)
   memberId?: string;
   member?: Member; // Populated if memberId exists
+  bookedBy?: string; // Member ID of a parent/admin who booked on the member's behalf
   
   // Guest reservation (if not member) - kept for backward compatibility
   customerName?: string;
@@ -39,12 +154,32 @@ export interface Reservation {
   
   notes?: string;
   createdAt: string;
-  status: "confirmed" | "cancelled";
+  updatedAt?: string;
+  status: ReservationStatus;
+  sequence?: number; // Bumped when the date, time, court or status changes (iCalendar SEQUENCE)
   
   // Payment fields (Phase 4)
   paymentId?: string;
-  paymentStatus?: "pending" | "paid" | "refunded" | "failed";
+  paymentStatus?: "pending" | "paid" | "refunded" | "failed" | "disputed";
   paymentAmount?: number;
+
+  seriesId?: string; // Set when the reservation is one occurrence of a recurring series
+  rulesOverriddenBy?: string; // Admin who booked past the booking rules
+
+  // Doubles partners (up to three besides the booker)
+  participants?: ReservationParticipant[];
+  splitPayment?: boolean;       // Each member pays their own share of the court fee
+
+  // Coach lesson (the coach is booked alongside the court)
+  coachId?: string;
+  lessonTypeId?: string;
+
+  // Attendance
+  checkedInAt?: string;
+  checkedInBy?: string;         // Member ID of the staff member or player who checked in
+  checkInMethod?: CheckInMethod;
+  completedAt?: string;
+  noShowAt?: string;
 }
 
 export interface ReservationRequest {
@@ -57,6 +192,7 @@ export interface ReservationRequest {
   
   // Member reservation
   memberId?: string;
+  bookedBy?: string; // Set when someone else books for the member
   
   // Guest reservation (if no memberId) - support both naming conventions
   customerName?: string;
@@ -70,4 +206,127 @@ export interface ReservationRequest {
   
   // Payment fields (Phase 4)
   paymentId?: string; // Payment ID (must be paid status for reservation creation)
+
+  rulesOverriddenBy?: string; // Admin ID; skips the booking rules (admin bookings only)
+
+  partners?: PartnerRequest[]; // Doubles partners to invite
+  splitPayment?: boolean;
+
+  coachId?: string;      // Set by lesson booking
+  lessonTypeId?: string;
+}
+
+/**
+ * Recurring (standing) booking, e.g. a weekly league night
+ * Each occurrence is stored as its own Reservation with seriesId set.
+ */
+export interface ReservationSeries {
+  id: string;
+  courtId: string;
+  courtName: string;
+  startDate: string;      // First candidate date (YYYY-MM-DD)
+  timeSlot: {
+    start: string;
+    end: string;
+  };
+  rrule: string;          // RRULE-style pattern, e.g. "FREQ=WEEKLY;BYDAY=TU;COUNT=10"
+
+  memberId?: string;
+  guestName?: string;
+  guestEmail?: string;
+  guestPhone?: string;
+  notes?: string;
+
+  status: "active" | "cancelled";
+  cancelledFrom?: string; // Occurrences on or after this date were cancelled
+  createdBy?: string;     // Member ID of the admin who created it
+  createdAt: string;
+}
+
+export interface ReservationSeriesRequest {
+  courtId: string;
+  startDate: string;
+  timeSlot: {
+    start: string;
+    end: string;
+  };
+  rrule: string;
+
+  memberId?: string;
+  guestName?: string;
+  guestEmail?: string;
+  guestPhone?: string;
+  notes?: string;
+}
+
+/**
+ * Outcome for one date of a series (preview or creation)
+ */
+export interface SeriesOccurrence {
+  date: string;
+  status: "available" | "created" | "conflict";
+  reservationId?: string; // Set when created
+  reason?: string;        // Set when conflict
+}
+
+export type WaitlistStatus = "waiting" | "offered" | "fulfilled" | "expired" | "cancelled";
+
+/**
+ * A member waiting for a slot to free up
+ * Without courtId the member takes any court ("any court at 6pm").
+ */
+export interface WaitlistEntry {
+  id: string;
+  memberId: string;
+  courtId?: string;
+  date: string;           // YYYY-MM-DD
+  timeRange: {
+    start: string;        // Earliest acceptable start (HH:mm)
+    end: string;          // Latest acceptable end (HH:mm)
+  };
+  status: WaitlistStatus;
+
+  // Set while status is "offered": the freed slot reserved for this member
+  hold?: {
+    courtId: string;
+    courtName: string;
+    timeSlot: {
+      start: string;
+      end: string;
+    };
+    offeredAt: string;
+    expiresAt: string;
+  };
+  reservationId?: string; // Set when the hold was booked
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface WaitlistRequest {
+  courtId?: string;
+  date: string;
+  timeRange: {
+    start: string;
+    end: string;
+  };
+}
+
+/**
+ * Who a booking rule applies to: the member's role, or "guest" for bookings without a member
+ */
+export type BookerType = "player" | "coach" | "parent" | "admin" | "guest";
+
+/**
+ * Club-wide limits on self-service bookings
+ * A null limit is not enforced. A membership plan's booking window replaces
+ * the role's advance window for its members.
+ */
+export interface BookingRules {
+  advanceWindowDays: Record<BookerType, number | null>; // How far ahead each role can book
+  maxActiveReservations: number | null; // Upcoming confirmed reservations per member
+  maxHoursPerDay: number | null;        // Court hours per member per date
+  maxHoursPerWeek: number | null;       // Court hours per member per week (Monday-Sunday)
+  minLeadMinutes: number | null;        // Bookings must start at least this many minutes from now
+  updatedAt?: string;
+  updatedBy?: string;                   // Member ID of the admin who last changed them
 }
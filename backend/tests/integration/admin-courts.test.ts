@@ -0,0 +1,241 @@
+/**
+ * Integration tests for admin court management
+ * Tests creating, updating and retiring courts, including reassignment of upcoming reservations
+ */
+
+import { describe, it, expect, beforeAll, beforeEach, afterEach, afterAll } from "vitest";
+import request from "supertest";
+import path from "path";
+import { promises as fs } from "fs";
+import os from "os";
+import app from "../../src/app";
+import { memberCache } from "../../src/lib/cache/member-cache";
+import { reservationCache } from "../../src/lib/cache/reservation-cache";
+
+let tempDir = "";
+let originalDataDir: string | undefined;
+let originalJwtSecret: string | undefined;
+let adminToken = "";
+
+const guest = {
+  customerName: "Court Tester",
+  customerEmail: "court-tester@example.com",
+  customerPhone: "401-555-0102",
+};
+
+beforeAll(async () => {
+  originalDataDir = process.env.DATA_DIR;
+  originalJwtSecret = process.env.JWT_SECRET;
+
+  process.env.JWT_SECRET = "test-secret-key-for-testing-only";
+  process.env.BCRYPT_ROUNDS = "10";
+
+  tempDir = await fs.mkdtemp(
+    path.join(os.tmpdir(), `pta-courts-${Date.now()}-${Math.random().toString(36).substring(7)}-`)
+  );
+  process.env.DATA_DIR = tempDir;
+});
+
+beforeEach(async () => {
+  memberCache.clear();
+  reservationCache.clear();
+
+  // Reset courts, reservations and members for each test
+  await fs.unlink(path.join(tempDir, "courts.json")).catch(() => {});
+  await fs.writeFile(path.join(tempDir, "reservations.json"), JSON.stringify([], null, 2));
+  await fs.writeFile(path.join(tempDir, "members.json"), JSON.stringify([], null, 2));
+
+  adminToken = await getToken("admin");
+});
+
+afterEach(async () => {
+  memberCache.clear();
+  reservationCache.clear();
+});
+
+afterAll(async () => {
+  if (originalDataDir !== undefined) {
+    process.env.DATA_DIR = originalDataDir;
+  } else {
+    delete process.env.DATA_DIR;
+  }
+
+  if (originalJwtSecret !== undefined) {
+    process.env.JWT_SECRET = originalJwtSecret;
+  } else {
+    delete process.env.JWT_SECRET;
+  }
+
+  if (tempDir) {
+    await fs.rm(tempDir, { recursive: true, force: true }).catch(() => {});
+  }
+});
+
+async function getToken(role: string): Promise<string> {
+  const email = `${role}-${Date.now()}-${Math.random().toString(36).substring(7)}@example.com`;
+  const response = await request(app).post("/api/auth/signup").send({
+    firstName: "Court",
+    lastName: "Admin",
+    email,
+    phone: "401-555-0000",
+    password: "Password123",
+    role,
+  });
+  return response.body.token;
+}
+
+async function book(courtId: string, date: string, start: string, end: string) {
+  const response = await request(app)
+    .post("/api/reservations")
+    .send({ courtId, date, timeSlot: { start, end }, ...guest });
+  expect(response.status).toBe(201);
+  return response.body;
+}
+
+describe("Admin Court Management Integration Tests", () => {
+  it("should create a court with lighting and environment", async () => {
+    const response = await request(app)
+      .post("/api/admin/courts")
+      .set("Authorization", `Bearer ${adminToken}`)
+      .send({ name: "Bubble Court", type: "indoor", lighting: true });
+
+    expect(response.status).toBe(201);
+    expect(response.body).toMatchObject({
+      id: "11",
+      name: "Bubble Court",
+      type: "indoor",
+      available: true,
+      lighting: true,
+      environment: "indoor",
+    });
+
+    const courts = await request(app).get("/api/courts");
+    expect(courts.body.map((c: any) => c.name)).toContain("Bubble Court");
+  });
+
+  it("should reject duplicate names and non-admin users", async () => {
+    const duplicate = await request(app)
+      .post("/api/admin/courts")
+      .set("Authorization", `Bearer ${adminToken}`)
+      .send({ name: "court 1", type: "clay" });
+    expect(duplicate.status).toBe(400);
+    expect(duplicate.body.code).toBe("VALIDATION_ERROR");
+
+    const playerToken = await getToken("player");
+    const forbidden = await request(app)
+      .post("/api/admin/courts")
+      .set("Authorization", `Bearer ${playerToken}`)
+      .send({ name: "Court 11", type: "clay" });
+    expect(forbidden.status).toBe(403);
+  });
+
+  it("should update a court and rename its upcoming reservations", async () => {
+    const reservation = await book("2", "2027-05-03", "10:00", "11:00");
+
+    const response = await request(app)
+      .patch("/api/admin/courts/2")
+      .set("Authorization", `Bearer ${adminToken}`)
+      .send({ name: "Stadium Court", type: "hard", lighting: true });
+
+    expect(response.status).toBe(200);
+    expect(response.body).toMatchObject({ id: "2", name: "Stadium Court", type: "hard", lighting: true });
+
+    const updated = await request(app).get(`/api/reservations/${reservation.id}`);
+    expect(updated.body.courtName).toBe("Stadium Court");
+  });
+
+  it("should return 404 when updating an unknown court", async () => {
+    const response = await request(app)
+      .patch("/api/admin/courts/999")
+      .set("Authorization", `Bearer ${adminToken}`)
+      .send({ available: false });
+    expect(response.status).toBe(404);
+  });
+
+  it("should retire a court without upcoming reservations", async () => {
+    const response = await request(app)
+      .post("/api/admin/courts/10/retire")
+      .set("Authorization", `Bearer ${adminToken}`)
+      .send({});
+
+    expect(response.status).toBe(200);
+    expect(response.body.court.retired).toBe(true);
+    expect(response.body.court.available).toBe(false);
+    expect(response.body.reassigned).toEqual([]);
+
+    // Retired courts disappear from booking but stay visible to admins
+    const publicCourts = await request(app).get("/api/courts");
+    expect(publicCourts.body.map((c: any) => c.id)).not.toContain("10");
+
+    const adminCourts = await request(app)
+      .get("/api/admin/courts")
+      .set("Authorization", `Bearer ${adminToken}`);
+    expect(adminCourts.body.find((c: any) => c.id === "10").retired).toBe(true);
+
+    const availability = await request(app).get("/api/availability?date=2027-05-03");
+    expect(availability.body.availability.map((c: any) => c.courtId)).not.toContain("10");
+
+    const booking = await request(app)
+      .post("/api/reservations")
+      .send({ courtId: "10", date: "2027-05-03", timeSlot: { start: "10:00", end: "11:00" }, ...guest });
+    expect(booking.status).toBe(400);
+    expect(booking.body.error).toContain("retired");
+  });
+
+  it("should refuse to retire a court with upcoming reservations", async () => {
+    const reservation = await book("3", "2027-05-03", "10:00", "11:00");
+
+    const response = await request(app)
+      .post("/api/admin/courts/3/retire")
+      .set("Authorization", `Bearer ${adminToken}`)
+      .send({});
+
+    expect(response.status).toBe(409);
+    expect(response.body.code).toBe("COURT_IN_USE");
+    expect(response.body.reservationIds).toEqual([reservation.id]);
+
+    const upcoming = await request(app)
+      .get("/api/admin/courts/3/upcoming-reservations")
+      .set("Authorization", `Bearer ${adminToken}`);
+    expect(upcoming.body.map((r: any) => r.id)).toEqual([reservation.id]);
+  });
+
+  it("should reassign upcoming reservations when retiring", async () => {
+    const first = await book("4", "2027-05-03", "10:00", "11:00");
+    const second = await book("4", "2027-05-04", "12:00", "13:00");
+
+    const response = await request(app)
+      .post("/api/admin/courts/4/retire")
+      .set("Authorization", `Bearer ${adminToken}`)
+      .send({ reassignToCourtId: "5" });
+
+    expect(response.status).toBe(200);
+    expect(response.body.court.retired).toBe(true);
+    expect(response.body.reassigned.map((r: any) => r.id).sort()).toEqual([first.id, second.id].sort());
+
+    const moved = await request(app).get(`/api/reservations/${first.id}`);
+    expect(moved.body.courtId).toBe("5");
+    expect(moved.body.courtName).toBe("Court 5");
+  });
+
+  it("should not move anything when the replacement court is booked", async () => {
+    const reservation = await book("6", "2027-05-03", "10:00", "11:00");
+    await book("7", "2027-05-03", "10:30", "11:30");
+
+    const response = await request(app)
+      .post("/api/admin/courts/6/retire")
+      .set("Authorization", `Bearer ${adminToken}`)
+      .send({ reassignToCourtId: "7" });
+
+    expect(response.status).toBe(409);
+    expect(response.body.error).toContain("2027-05-03 10:00-11:00");
+
+    const unchanged = await request(app).get(`/api/reservations/${reservation.id}`);
+    expect(unchanged.body.courtId).toBe("6");
+
+    const adminCourts = await request(app)
+      .get("/api/admin/courts")
+      .set("Authorization", `Bearer ${adminToken}`);
+    expect(adminCourts.body.find((c: any) => c.id === "6").retired).toBeUndefined();
+  });
+});
@@ -0,0 +1,397 @@
+/**
+ * Integration tests for confirming AI agent actions
+ * The admin agent proposes changes through a scripted model; nothing is
+ * applied until the admin who was chatting confirms it
+ */
+
+import { describe, it, expect, beforeAll, beforeEach, afterEach, afterAll } from "vitest";
+import request from "supertest";
+import path from "path";
+import { promises as fs } from "fs";
+import os from "os";
+import app from "../../src/app";
+import { createSession } from "../../src/lib/auth/session-manager";
+import { memberRepository } from "../../src/lib/repositories/file-member-repository";
+import { reservationRepository } from "../../src/lib/repositories/file-reservation-repository";
+import { aiActionRepository } from "../../src/lib/repositories/file-ai-action-repository";
+import { aiThreadRepository } from "../../src/lib/repositories/file-ai-thread-repository";
+import { memberCache } from "../../src/lib/cache/member-cache";
+import { reservationCache } from "../../src/lib/cache/reservation-cache";
+import { readDeliveredMail } from "../../src/lib/email/file-transport";
+import { setLLMProvider } from "../../src/lib/ai/llm-provider";
+import { ScriptedProvider } from "../../src/lib/ai/scripted-provider";
+
+let tempDir = "";
+const originalEnv: Record<string, string | undefined> = {};
+const ENV_KEYS = ["DATA_DIR", "JWT_SECRET", "AI_ACTION_TTL_MINUTES", "EMAIL_TRANSPORT", "EMAIL_FILE_DIR"];
+const DATE = "2027-11-16";
+
+beforeAll(async () => {
+  for (const key of ENV_KEYS) {
+    originalEnv[key] = process.env[key];
+  }
+
+  process.env.JWT_SECRET = "test-secret-key-for-testing-only";
+  process.env.BCRYPT_ROUNDS = "10";
+
+  tempDir = await fs.mkdtemp(
+    path.join(os.tmpdir(), `pta-actions-${Date.now()}-${Math.random().toString(36).substring(7)}-`)
+  );
+  process.env.DATA_DIR = tempDir;
+  process.env.EMAIL_TRANSPORT = "file";
+  process.env.EMAIL_FILE_DIR = path.join(tempDir, "mail");
+});
+
+beforeEach(async () => {
+  memberCache.clear();
+  reservationCache.clear();
+  delete process.env.AI_ACTION_TTL_MINUTES;
+
+  for (const file of ["reservations.json", "members.json", "ai-threads.json", "ai-actions.json", "email-outbox.json"]) {
+    await fs.writeFile(path.join(tempDir, file), JSON.stringify([], null, 2));
+  }
+  await fs.rm(path.join(tempDir, "mail"), { recursive: true, force: true });
+});
+
+afterEach(async () => {
+  setLLMProvider(null);
+  memberCache.clear();
+  reservationCache.clear();
+});
+
+afterAll(async () => {
+  for (const key of ENV_KEYS) {
+    if (originalEnv[key] !== undefined) {
+      process.env[key] = originalEnv[key];
+    } else {
+      delete process.env[key];
+    }
+  }
+
+  if (tempDir) {
+    await fs.rm(tempDir, { recursive: true, force: true }).catch(() => {});
+  }
+});
+
+async function signUp(role: "player" | "admin" = "admin") {
+  const email = `${role}-${Date.now()}-${Math.random().toString(36).substring(7)}@example.com`;
+  const response = await request(app).post("/api/auth/signup").send({
+    firstName: "Alex",
+    lastName: "Admin",
+    email,
+    phone: "401-555-0000",
+    password: "Password123",
+  });
+  const id = response.body.member.id as string;
+
+  if (role === "player") {
+    return { id, auth: `Bearer ${response.body.token}` };
+  }
+
+  await memberRepository.update(id, { role });
+  memberCache.clear();
+  return { id, auth: `Bearer ${(await createSession(id, email, role)).token}` };
+}
+
+async function book(courtId: string, start: string, end: string) {
+  return reservationRepository.create({
+    courtId,
+    courtName: `Court ${courtId}`,
+    date: DATE,
+    timeSlot: { start, end },
+    customerName: "Guest Player",
+    customerEmail: "guest@example.com",
+    customerPhone: "401-555-0101",
+  });
+}
+
+/**
+ * Have the admin agent propose cancelling a booking; returns the chat response
+ */
+async function proposeCancel(auth: string, reservationId: string) {
+  setLLMProvider(
+    new ScriptedProvider([
+      { toolCalls: [{ name: "cancelReservation", args: { reservationId } }] },
+      { text: "Please confirm the cancellation" },
+    ])
+  );
+  return request(app)
+    .post("/api/admin/chat")
+    .set("Authorization", auth)
+    .send({ message: "Cancel that booking" });
+}
+
+function decide(auth: string, actionId: string, decision: "confirm" | "reject") {
+  return request(app).post(`/api/admin/ai-actions/${actionId}/${decision}`).set("Authorization", auth);
+}
+
+describe("AI action confirmation", () => {
+  it("returns a pending action with a preview and applies it on confirm", async () => {
+    const admin = await signUp();
+    const reservation = await book("3", "09:00", "10:00");
+
+    const response = await proposeCancel(admin.auth, reservation.id);
+
+    expect(response.status).toBe(200);
+    const [action] = response.body.pendingActions;
+    expect(action).toMatchObject({
+      memberId: admin.id,
+      agent: "admin",
+      type: "cancelReservation",
+      status: "pending",
+      threadId: response.body.threadId,
+    });
+    expect(action.changes[0]).toMatchObject({
+      entity: "reservation",
+      entityId: reservation.id,
+      before: { status: "confirmed" },
+      after: { status: "cancelled" },
+    });
+    expect((await reservationRepository.findById(reservation.id))?.status).toBe("confirmed");
+
+    const confirmed = await decide(admin.auth, action.id, "confirm");
+
+    expect(confirmed.status).toBe(200);
+    expect(confirmed.body).toMatchObject({ status: "confirmed", result: { cancelled: true } });
+    expect(confirmed.body.decidedAt).toBeTruthy();
+    expect((await reservationRepository.findById(reservation.id))?.status).toBe("cancelled");
+  });
+
+  it("leaves the booking alone when rejected", async () => {
+    const admin = await signUp();
+    const reservation = await book("3", "09:00", "10:00");
+    const action = (await proposeCancel(admin.auth, reservation.id)).body.pendingActions[0];
+
+    const rejected = await decide(admin.auth, action.id, "reject");
+
+    expect(rejected.status).toBe(200);
+    expect(rejected.body.status).toBe("rejected");
+    expect((await reservationRepository.findById(reservation.id))?.status).toBe("confirmed");
+  });
+
+  it("notes the decision in the conversation", async () => {
+    const admin = await signUp();
+    const reservation = await book("3", "09:00", "10:00");
+    const response = await proposeCancel(admin.auth, reservation.id);
+
+    await decide(admin.auth, response.body.pendingActions[0].id, "confirm");
+
+    const thread = await aiThreadRepository.findById(response.body.threadId);
+    const last = thread?.messages[thread.messages.length - 1];
+    expect(last).toMatchObject({ role: "assistant" });
+    expect(last && "content" in last ? last.content : "").toMatch(/^Confirmed: Cancel/);
+  });
+
+  it("only lets an action be decided once", async () => {
+    const admin = await signUp();
+    const reservation = await book("3", "09:00", "10:00");
+    const action = (await proposeCancel(admin.auth, reservation.id)).body.pendingActions[0];
+
+    await decide(admin.auth, action.id, "confirm");
+    const again = await decide(admin.auth, action.id, "reject");
+
+    expect(again.status).toBe(409);
+    expect(again.body.code).toBe("INVALID_STATE");
+  });
+
+  it("applies an action once when it is confirmed twice at the same time", async () => {
+    const admin = await signUp();
+    const reservation = await book("3", "09:00", "10:00");
+    const action = (await proposeCancel(admin.auth, reservation.id)).body.pendingActions[0];
+
+    const responses = await Promise.all([
+      decide(admin.auth, action.id, "confirm"),
+      decide(admin.auth, action.id, "confirm"),
+    ]);
+
+    expect(responses.map((r) => r.status).sort()).toEqual([200, 409]);
+    expect(responses.find((r) => r.status === 409)?.body.code).toBe("INVALID_STATE");
+    expect((await aiActionRepository.findById(action.id))?.status).toBe("confirmed");
+  });
+
+  it("refuses actions past their expiry", async () => {
+    process.env.AI_ACTION_TTL_MINUTES = "5";
+    const admin = await signUp();
+    const reservation = await book("3", "09:00", "10:00");
+    const action = (await proposeCancel(admin.auth, reservation.id)).body.pendingActions[0];
+    expect(new Date(action.expiresAt).getTime() - new Date(action.createdAt).getTime()).toBe(
+      5 * 60 * 1000
+    );
+
+    await aiActionRepository.update(action.id, {
+      expiresAt: new Date(Date.now() - 1000).toISOString(),
+    });
+    const response = await decide(admin.auth, action.id, "confirm");
+
+    expect(response.status).toBe(409);
+    expect((await aiActionRepository.findById(action.id))?.status).toBe("expired");
+    expect((await reservationRepository.findById(reservation.id))?.status).toBe("confirmed");
+  });
+
+  it("keeps actions to the admin they were proposed to", async () => {
+    const admin = await signUp();
+    const otherAdmin = await signUp();
+    const reservation = await book("3", "09:00", "10:00");
+    const action = (await proposeCancel(admin.auth, reservation.id)).body.pendingActions[0];
+
+    const response = await decide(otherAdmin.auth, action.id, "confirm");
+
+    expect(response.status).toBe(404);
+    expect((await aiActionRepository.findById(action.id))?.status).toBe("pending");
+  });
+
+  it("marks the action failed when it no longer applies", async () => {
+    const admin = await signUp();
+    const reservation = await book("1", "10:00", "11:00");
+    setLLMProvider(
+      new ScriptedProvider([
+        {
+          toolCalls: [
+            {
+              name: "moveReservation",
+              args: {
+                reservationId: reservation.id,
+                newCourtId: "2",
+                newTimeStart: "12:00",
+                newTimeEnd: "13:00",
+              },
+            },
+          ],
+        },
+        { text: "Please confirm the move" },
+      ])
+    );
+    const chat = await request(app)
+      .post("/api/admin/chat")
+      .set("Authorization", admin.auth)
+      .send({ message: "Move it to court 2 at noon" });
+    const action = chat.body.pendingActions[0];
+
+    // Someone takes the slot before the admin confirms
+    await book("2", "12:00", "13:00");
+    const response = await decide(admin.auth, action.id, "confirm");
+
+    expect(response.status).toBe(409);
+    expect(response.body.code).toBe("ACTION_FAILED");
+    expect(await aiActionRepository.findById(action.id)).toMatchObject({
+      status: "failed",
+      error: response.body.error,
+    });
+    expect((await reservationRepository.findById(reservation.id))?.courtId).toBe("1");
+  });
+
+  it("re-checks overlapping bookings and the booking's status on confirm", async () => {
+    const admin = await signUp();
+    const taken = await book("1", "10:00", "11:00");
+    const cancelled = await book("1", "14:00", "15:00");
+    setLLMProvider(
+      new ScriptedProvider([
+        {
+          toolCalls: [
+            {
+              name: "moveReservation",
+              args: { reservationId: taken.id, newCourtId: "2", newTimeStart: "12:00", newTimeEnd: "13:00" },
+            },
+            {
+              name: "moveReservation",
+              args: { reservationId: cancelled.id, newCourtId: "3", newTimeStart: "16:00", newTimeEnd: "17:00" },
+            },
+          ],
+        },
+        { text: "Please confirm the moves" },
+      ])
+    );
+    const chat = await request(app)
+      .post("/api/admin/chat")
+      .set("Authorization", admin.auth)
+      .send({ message: "Move both bookings" });
+    const [overlapMove, cancelledMove] = chat.body.pendingActions;
+
+    // A booking starting half an hour later still overlaps, and the other one is cancelled
+    await book("2", "12:30", "13:30");
+    await reservationRepository.update(cancelled.id, { status: "cancelled" });
+
+    const overlap = await decide(admin.auth, overlapMove.id, "confirm");
+    const moveCancelled = await decide(admin.auth, cancelledMove.id, "confirm");
+
+    expect(overlap.status).toBe(409);
+    expect(overlap.body.error).toContain("CONFLICT");
+    expect(moveCancelled.status).toBe(409);
+    expect(moveCancelled.body.error).toContain("is cancelled");
+    expect(await reservationRepository.findById(cancelled.id)).toMatchObject({
+      status: "cancelled",
+      courtId: "1",
+    });
+  });
+
+  it("checks opening hours on confirm and emails the booker the new time", async () => {
+    const admin = await signUp();
+    const late = await book("1", "10:00", "11:00");
+    const moving = await book("1", "14:00", "15:00");
+    setLLMProvider(
+      new ScriptedProvider([
+        {
+          toolCalls: [
+            {
+              name: "moveReservation",
+              args: { reservationId: late.id, newCourtId: "2", newTimeStart: "21:00", newTimeEnd: "22:00" },
+            },
+            {
+              name: "moveReservation",
+              args: { reservationId: moving.id, newCourtId: "2", newTimeStart: "16:00", newTimeEnd: "17:00" },
+            },
+          ],
+        },
+        { text: "Please confirm the moves" },
+      ])
+    );
+    const chat = await request(app)
+      .post("/api/admin/chat")
+      .set("Authorization", admin.auth)
+      .send({ message: "Move both bookings to court 2" });
+    const [lateMove, move] = chat.body.pendingActions;
+
+    const afterHours = await decide(admin.auth, lateMove.id, "confirm");
+    expect(afterHours.status).toBe(409);
+    expect(afterHours.body.code).toBe("ACTION_FAILED");
+    expect(afterHours.body.error).toContain("is only open 08:00-21:00");
+    expect((await reservationRepository.findById(late.id))?.timeSlot.start).toBe("10:00");
+
+    expect((await decide(admin.auth, move.id, "confirm")).status).toBe(200);
+    const mail = await readDeliveredMail();
+    expect(mail).toHaveLength(1);
+    expect(mail[0]).toMatchObject({ to: "guest@example.com" });
+    expect(mail[0].subject).toContain(`Booking moved: Court 2 on ${DATE}`);
+  });
+
+  it("lists actions for admins, filtered by status and member", async () => {
+    const admin = await signUp();
+    const otherAdmin = await signUp();
+    const player = await signUp("player");
+    const first = await book("3", "09:00", "10:00");
+    const second = await book("4", "09:00", "10:00");
+    const confirmedAction = (await proposeCancel(admin.auth, first.id)).body.pendingActions[0];
+    await proposeCancel(otherAdmin.auth, second.id);
+    await decide(admin.auth, confirmedAction.id, "confirm");
+
+    const all = await request(app).get("/api/admin/ai-actions").set("Authorization", admin.auth);
+    const pending = await request(app)
+      .get("/api/admin/ai-actions?status=pending")
+      .set("Authorization", admin.auth);
+    const mine = await request(app)
+      .get(`/api/admin/ai-actions?memberId=${admin.id}`)
+      .set("Authorization", otherAdmin.auth);
+    const invalid = await request(app)
+      .get("/api/admin/ai-actions?status=maybe")
+      .set("Authorization", admin.auth);
+    const forbidden = await request(app)
+      .get("/api/admin/ai-actions")
+      .set("Authorization", player.auth);
+
+    expect(all.body).toHaveLength(2);
+    expect(pending.body.map((a: any) => a.memberId)).toEqual([otherAdmin.id]);
+    expect(mine.body.map((a: any) => a.id)).toEqual([confirmedAction.id]);
+    expect(invalid.status).toBe(400);
+    expect(forbidden.status).toBe(403);
+  });
+});
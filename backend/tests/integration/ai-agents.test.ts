@@ -0,0 +1,531 @@
+/**
+ * Integration tests for the AI agents
+ * Replays scripted model turns through the chat endpoints so each agent
+ * tool runs end to end against real data, without calling a model
+ */
+
+import { describe, it, expect, beforeAll, beforeEach, afterEach, afterAll } from "vitest";
+import request from "supertest";
+import path from "path";
+import { promises as fs } from "fs";
+import os from "os";
+import app from "../../src/app";
+import { createSession } from "../../src/lib/auth/session-manager";
+import { memberRepository } from "../../src/lib/repositories/file-member-repository";
+import { reservationRepository } from "../../src/lib/repositories/file-reservation-repository";
+import { journalRepository } from "../../src/lib/repositories/file-journal-repository";
+import { getPlayerTrainingPlans } from "../../src/lib/repositories/file-training-plan-repository";
+import { memberCache } from "../../src/lib/cache/member-cache";
+import { reservationCache } from "../../src/lib/cache/reservation-cache";
+import { setLLMProvider } from "../../src/lib/ai/llm-provider";
+import { ScriptedProvider } from "../../src/lib/ai/scripted-provider";
+import { chatWithTrainingAgent } from "../../src/lib/player-training-agent";
+import { ScriptedTurn, ToolCall } from "../../src/types/llm";
+
+let tempDir = "";
+const originalEnv: Record<string, string | undefined> = {};
+const ENV_KEYS = ["DATA_DIR", "JWT_SECRET"];
+const DATE = "2027-11-16";
+
+beforeAll(async () => {
+  for (const key of ENV_KEYS) {
+    originalEnv[key] = process.env[key];
+  }
+
+  process.env.JWT_SECRET = "test-secret-key-for-testing-only";
+  process.env.BCRYPT_ROUNDS = "10";
+
+  tempDir = await fs.mkdtemp(
+    path.join(os.tmpdir(), `pta-ai-${Date.now()}-${Math.random().toString(36).substring(7)}-`)
+  );
+  process.env.DATA_DIR = tempDir;
+});
+
+beforeEach(async () => {
+  memberCache.clear();
+  reservationCache.clear();
+
+  for (const file of [
+    "reservations.json",
+    "members.json",
+    "journal-entries.json",
+    "training-plans.json",
+    "email-outbox.json",
+    "ai-actions.json",
+  ]) {
+    await fs.writeFile(path.join(tempDir, file), JSON.stringify([], null, 2));
+  }
+});
+
+afterEach(async () => {
+  setLLMProvider(null);
+  memberCache.clear();
+  reservationCache.clear();
+});
+
+afterAll(async () => {
+  for (const key of ENV_KEYS) {
+    if (originalEnv[key] !== undefined) {
+      process.env[key] = originalEnv[key];
+    } else {
+      delete process.env[key];
+    }
+  }
+
+  if (tempDir) {
+    await fs.rm(tempDir, { recursive: true, force: true }).catch(() => {});
+  }
+});
+
+async function signUp(role: "player" | "coach" | "admin" = "player") {
+  const email = `${role}-${Date.now()}-${Math.random().toString(36).substring(7)}@example.com`;
+  const response = await request(app).post("/api/auth/signup").send({
+    firstName: role === "player" ? "Sam" : "Alex",
+    lastName: role === "player" ? "Player" : "Staff",
+    email,
+    phone: "401-555-0000",
+    password: "Password123",
+  });
+  const id = response.body.member.id as string;
+
+  if (role === "player") {
+    return { id, email, auth: `Bearer ${response.body.token}` };
+  }
+
+  await memberRepository.update(id, { role });
+  memberCache.clear();
+  return { id, email, auth: `Bearer ${(await createSession(id, email, role)).token}` };
+}
+
+/**
+ * Have the model call one tool and then answer
+ */
+function scriptToolCall(name: string, args: Record<string, any> = {}): ScriptedProvider {
+  return script({ toolCalls: [{ name, args }] }, { text: "Done" });
+}
+
+function script(...turns: ScriptedTurn[]): ScriptedProvider {
+  const provider = new ScriptedProvider(turns);
+  setLLMProvider(provider);
+  return provider;
+}
+
+/**
+ * Results of the tool calls the model was sent back, in call order
+ */
+function toolResults(provider: ScriptedProvider): Record<string, any>[] {
+  const last = provider.requests[provider.requests.length - 1];
+  return last.messages.flatMap((m) => (m.role === "tool" ? m.results.map((r) => r.response) : []));
+}
+
+/**
+ * Confirm an action the agent proposed, as the admin who was chatting
+ */
+async function confirm(auth: string, actionId: string) {
+  return request(app).post(`/api/admin/ai-actions/${actionId}/confirm`).set("Authorization", auth);
+}
+
+async function book(courtId: string, start: string, end: string, customerName = "Guest Player") {
+  return reservationRepository.create({
+    courtId,
+    courtName: `Court ${courtId}`,
+    date: DATE,
+    timeSlot: { start, end },
+    customerName,
+    customerEmail: "guest@example.com",
+    customerPhone: "401-555-0101",
+  });
+}
+
+describe("Public chat agent", () => {
+  it("answers with the scripted text and passes the conversation to the model", async () => {
+    const provider = script({ text: "We have 10 clay courts." });
+
+    const response = await request(app)
+      .post("/api/chat")
+      .send({
+        message: "How many courts?",
+        conversationHistory: [
+          { role: "assistant", content: "Hi!" },
+          { role: "user", content: "Hello" },
+          { role: "assistant", content: "How can I help?" },
+        ],
+      });
+
+    expect(response.status).toBe(200);
+    expect(response.body.response).toBe("We have 10 clay courts.");
+    expect(provider.requests[0].system).toContain("Providence Tennis Academy");
+    expect(provider.requests[0].messages).toEqual([
+      { role: "user", content: "Hello" },
+      { role: "assistant", content: "How can I help?" },
+      { role: "user", content: "How many courts?" },
+    ]);
+  });
+
+  it("getCourtAvailability lists open slots", async () => {
+    await book("1", "10:00", "11:00");
+    const provider = scriptToolCall("getCourtAvailability", { date: DATE, courtId: "1" });
+
+    const response = await request(app).post("/api/chat").send({ message: "Any courts?" });
+
+    expect(response.status).toBe(200);
+    const [result] = toolResults(provider);
+    expect(result.availableSlots.length).toBeGreaterThan(0);
+    expect(result.availableSlots.every((s: any) => s.courtId === "1")).toBe(true);
+    expect(result.availableSlots.some((s: any) => s.timeSlot.start === "10:00")).toBe(false);
+  });
+
+  it("createCourtReservation books the court", async () => {
+    const provider = scriptToolCall("createCourtReservation", {
+      courtId: "2",
+      date: DATE,
+      timeSlotStart: "09:00",
+      timeSlotEnd: "10:00",
+      customerName: "Jamie Guest",
+      customerEmail: "jamie@example.com",
+      customerPhone: "401-555-0123",
+    });
+
+    await request(app).post("/api/chat").send({ message: "Book court 2" });
+
+    const [result] = toolResults(provider);
+    expect(result.success).toBe(true);
+    const stored = await reservationRepository.findById(result.reservation.id);
+    expect(stored).toMatchObject({ courtId: "2", customerName: "Jamie Guest" });
+  });
+
+  it("createCourtReservation rejects missing fields", async () => {
+    const provider = scriptToolCall("createCourtReservation", { courtId: "2", date: DATE });
+
+    await request(app).post("/api/chat").send({ message: "Book court 2" });
+
+    expect(toolResults(provider)[0]).toEqual({
+      success: false,
+      error: "Missing required booking fields",
+    });
+  });
+});
+
+describe("Admin chat agent", () => {
+  async function adminChat(auth: string) {
+    return request(app)
+      .post("/api/admin/chat")
+      .set("Authorization", auth)
+      .send({ message: "Help me with bookings" });
+  }
+
+  it("is for admins only", async () => {
+    const player = await signUp();
+    script({ text: "Hi" });
+
+    expect((await adminChat(player.auth)).status).toBe(403);
+  });
+
+  it("searchReservations finds bookings by name", async () => {
+    const admin = await signUp("admin");
+    await book("1", "10:00", "11:00", "Morgan Lee");
+    await book("2", "10:00", "11:00", "Riley Chen");
+    const provider = scriptToolCall("searchReservations", { date: DATE, searchTerm: "morgan" });
+
+    expect((await adminChat(admin.auth)).status).toBe(200);
+    const [result] = toolResults(provider);
+    expect(result.count).toBe(1);
+    expect(result.reservations[0]).toMatchObject({ courtId: "1", guest: "Morgan Lee" });
+  });
+
+  it("getReservationDetails returns the booking", async () => {
+    const admin = await signUp("admin");
+    const reservation = await book("3", "14:00", "15:00");
+    const provider = scriptToolCall("getReservationDetails", { reservationId: reservation.id });
+
+    await adminChat(admin.auth);
+
+    const [result] = toolResults(provider);
+    expect(result.success).toBe(true);
+    expect(result.reservation).toMatchObject({ id: reservation.id, timeStart: "14:00" });
+  });
+
+  it("checkAvailability lists open slots", async () => {
+    const admin = await signUp("admin");
+    const provider = scriptToolCall("checkAvailability", { date: DATE, courtId: "4" });
+
+    await adminChat(admin.auth);
+
+    const [result] = toolResults(provider);
+    expect(result.success).toBe(true);
+    expect(result.availableSlots[0]).toMatchObject({ courtId: "4" });
+  });
+
+  it("moveReservation moves a booking to a free slot once confirmed", async () => {
+    const admin = await signUp("admin");
+    const reservation = await book("1", "10:00", "11:00");
+    const provider = scriptToolCall("moveReservation", {
+      reservationId: reservation.id,
+      newCourtId: "2",
+      newTimeStart: "12:00",
+      newTimeEnd: "13:00",
+    });
+
+    const response = await adminChat(admin.auth);
+
+    expect(response.body.needsConfirmation).toBe(false);
+    expect(toolResults(provider)[0].pendingConfirmation).toBe(true);
+    const [action] = response.body.pendingActions;
+    expect(action.changes[0]).toMatchObject({
+      entityId: reservation.id,
+      before: { court: "Court 1", time: "10:00-11:00" },
+      after: { court: "Court 2", time: "12:00-13:00" },
+    });
+    expect((await reservationRepository.findById(reservation.id))?.courtId).toBe("1");
+
+    const confirmed = await confirm(admin.auth, action.id);
+
+    expect(confirmed.body.status).toBe("confirmed");
+    expect(confirmed.body.result.moved).toBe(true);
+    expect(await reservationRepository.findById(reservation.id)).toMatchObject({
+      courtId: "2",
+      timeSlot: { start: "12:00", end: "13:00" },
+    });
+  });
+
+  it("moveReservation reports a conflict for confirmation", async () => {
+    const admin = await signUp("admin");
+    const reservation = await book("1", "10:00", "11:00");
+    const other = await book("2", "12:00", "13:00");
+    script({
+      toolCalls: [
+        {
+          name: "moveReservation",
+          args: {
+            reservationId: reservation.id,
+            newCourtId: "2",
+            newTimeStart: "12:00",
+            newTimeEnd: "13:00",
+          },
+        },
+      ],
+    });
+
+    const response = await adminChat(admin.auth);
+
+    expect(response.body.needsConfirmation).toBe(true);
+    expect(response.body.conflictInfo.conflictingBooking.id).toBe(other.id);
+    expect(await reservationRepository.findById(reservation.id)).toMatchObject({ courtId: "1" });
+  });
+
+  it("overrideConflictAndMove cancels the conflicting booking", async () => {
+    const admin = await signUp("admin");
+    const reservation = await book("1", "10:00", "11:00");
+    const other = await book("2", "12:00", "13:00");
+    const provider = scriptToolCall("overrideConflictAndMove", {
+      reservationId: reservation.id,
+      conflictingReservationId: other.id,
+      newDate: DATE,
+      newCourtId: "2",
+      newTimeStart: "12:00",
+      newTimeEnd: "13:00",
+    });
+
+    const response = await adminChat(admin.auth);
+
+    expect(toolResults(provider)[0].pendingConfirmation).toBe(true);
+    expect(response.body.pendingActions[0].changes).toHaveLength(2);
+    expect((await reservationRepository.findById(other.id))?.status).toBe("confirmed");
+
+    const confirmed = await confirm(admin.auth, response.body.pendingActions[0].id);
+
+    expect(confirmed.body.result.override).toBe(true);
+    expect((await reservationRepository.findById(other.id))?.status).toBe("cancelled");
+    expect(await reservationRepository.findById(reservation.id)).toMatchObject({
+      courtId: "2",
+      notes: "[Admin override]",
+    });
+  });
+
+  it("cancelReservation cancels the booking once confirmed", async () => {
+    const admin = await signUp("admin");
+    const reservation = await book("5", "16:00", "17:00");
+    const provider = scriptToolCall("cancelReservation", { reservationId: reservation.id });
+
+    const response = await adminChat(admin.auth);
+
+    expect(toolResults(provider)[0].pendingConfirmation).toBe(true);
+    expect(response.body.pendingActions[0].changes[0].after.status).toBe("cancelled");
+    expect((await reservationRepository.findById(reservation.id))?.status).toBe("confirmed");
+
+    const confirmed = await confirm(admin.auth, response.body.pendingActions[0].id);
+
+    expect(confirmed.body.result.cancelled).toBe(true);
+    expect((await reservationRepository.findById(reservation.id))?.status).toBe("cancelled");
+  });
+
+  it("listAllCourts lists the courts", async () => {
+    const admin = await signUp("admin");
+    const provider = scriptToolCall("listAllCourts");
+
+    await adminChat(admin.auth);
+
+    const [result] = toolResults(provider);
+    expect(result.success).toBe(true);
+    expect(result.courts.length).toBeGreaterThan(0);
+  });
+});
+
+describe("Orchestrator agent", () => {
+  async function orchestratorChat(auth: string) {
+    return request(app)
+      .post("/api/orchestrator/chat")
+      .set("Authorization", auth)
+      .send({ message: "What should I work on?" });
+  }
+
+  it("offers admin tools to coaches and admins only", async () => {
+    const player = await signUp();
+    const coach = await signUp("coach");
+    const playerProvider = script({ text: "Let's train" });
+    await orchestratorChat(player.auth);
+    const coachProvider = script({ text: "Let's train" });
+    await orchestratorChat(coach.auth);
+
+    const names = (p: ScriptedProvider) => p.requests[0].tools.map((t) => t.name);
+    expect(names(playerProvider)).not.toContain("searchPlayersByName");
+    expect(names(coachProvider)).toContain("searchPlayersByName");
+    expect(playerProvider.requests[0].system).toContain(player.id);
+  });
+
+  it("runs the training tools for the player", async () => {
+    const player = await signUp();
+    const coach = await signUp("coach");
+    await journalRepository.create({
+      playerId: player.id,
+      coachId: coach.id,
+      sessionDate: "2027-11-01",
+      summary: "Worked on serves",
+      areasWorkedOn: ["Serve"],
+      pointersForNextSession: "Toss higher",
+      createdBy: coach.id,
+    });
+    const calls: ToolCall[] = [
+      { name: "getPlayerJournalAnalytics", args: { playerId: player.id } },
+      { name: "getPlayerProfile", args: { playerId: player.id } },
+      {
+        name: "createTrainingPlanForPlayer",
+        args: {
+          playerId: player.id,
+          focusAreas: ["Serve"],
+          recommendations: "Serve practice",
+          weeklyGoals: ["50 serves"],
+        },
+      },
+      { name: "getPlayerTrainingHistory", args: { playerId: player.id } },
+      {
+        name: "createJournalEntryForPlan",
+        args: { playerId: player.id, summary: "Serve plan", areasWorkedOn: ["Serve"] },
+      },
+    ];
+    const provider = script({ toolCalls: calls }, { text: "Here is your plan" });
+
+    const response = await orchestratorChat(player.auth);
+
+    expect(response.body.response).toBe("Here is your plan");
+    const [analytics, profile, plan, history, entry] = toolResults(provider);
+    expect(analytics.data.totalSessions).toBe(1);
+    expect(profile.data.id).toBe(player.id);
+    expect(plan.success).toBe(true);
+    expect(history.data.totalPlans).toBe(1);
+    expect(entry.success).toBe(true);
+    expect(await journalRepository.findById(entry.data.journalEntryId)).toMatchObject({
+      summary: "[AI Training Plan] Serve plan",
+    });
+  });
+
+  it("keeps players to their own data", async () => {
+    const player = await signUp();
+    const other = await signUp();
+    const provider = script(
+      {
+        toolCalls: [
+          { name: "getPlayerProfile", args: { playerId: other.id } },
+          { name: "listAllPlayers", args: {} },
+        ],
+      },
+      { text: "Sorry" }
+    );
+
+    await orchestratorChat(player.auth);
+
+    const [profile, list] = toolResults(provider);
+    expect(profile.success).toBe(false);
+    expect(list.success).toBe(false);
+  });
+
+  it("runs the player management tools for admins", async () => {
+    const admin = await signUp("admin");
+    const player = await signUp();
+    const provider = script(
+      {
+        toolCalls: [
+          { name: "searchPlayersByName", args: { searchTerm: "Sam" } },
+          { name: "listAllPlayers", args: {} },
+          {
+            name: "createNewPlayer",
+            args: {
+              firstName: "Nova",
+              lastName: "Rookie",
+              email: "nova@example.com",
+              phone: "401-555-0199",
+            },
+          },
+        ],
+      },
+      { text: "Created" }
+    );
+
+    const response = await orchestratorChat(admin.auth);
+
+    const [search, list, created] = toolResults(provider);
+    expect(search.data.players.map((p: any) => p.id)).toContain(player.id);
+    expect(list.data.count).toBeGreaterThanOrEqual(2);
+    expect(created.pendingConfirmation).toBe(true);
+    expect(await memberRepository.findByEmail("nova@example.com")).toBeNull();
+
+    await confirm(admin.auth, response.body.pendingActions[0].id);
+
+    expect(await memberRepository.findByEmail("nova@example.com")).not.toBeNull();
+  });
+});
+
+describe("Player training agent", () => {
+  it("runs its tools and saves the plan", async () => {
+    const player = await signUp();
+    const provider = script(
+      {
+        toolCalls: [
+          { name: "getPlayerJournalAnalytics", args: { playerId: player.id } },
+          { name: "getPlayerProfile", args: { playerId: player.id } },
+          { name: "getPlayerTrainingHistory", args: { playerId: player.id } },
+          {
+            name: "createTrainingPlanTemplate",
+            args: {
+              playerId: player.id,
+              focusAreas: ["Footwork"],
+              recommendations: "Ladder drills",
+              weeklyGoals: ["3 sessions"],
+            },
+          },
+        ],
+      },
+      { text: "Plan ready" }
+    );
+
+    const result = await chatWithTrainingAgent("Make me a plan", [], player.id);
+
+    expect(result.response).toBe("Plan ready");
+    const [analytics, profile, history, template] = toolResults(provider);
+    expect(analytics.success).toBe(true);
+    expect(profile.data.name).toBe("Sam Player");
+    expect(history.data.totalPlans).toBe(0);
+    expect(template.success).toBe(true);
+    expect(await getPlayerTrainingPlans(player.id)).toHaveLength(1);
+  });
+});
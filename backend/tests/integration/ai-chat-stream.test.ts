@@ -0,0 +1,319 @@
+/**
+ * Integration tests for the streaming (Server-Sent Events) chat endpoints
+ * Checks the event sequence, what is saved, and that closing the
+ * connection cancels the turn
+ */
+
+import { describe, it, expect, beforeAll, beforeEach, afterEach, afterAll } from "vitest";
+import request from "supertest";
+import http from "http";
+import { AddressInfo } from "net";
+import path from "path";
+import { promises as fs } from "fs";
+import os from "os";
+import app from "../../src/app";
+import { createSession } from "../../src/lib/auth/session-manager";
+import { memberRepository } from "../../src/lib/repositories/file-member-repository";
+import { reservationRepository } from "../../src/lib/repositories/file-reservation-repository";
+import { aiThreadRepository } from "../../src/lib/repositories/file-ai-thread-repository";
+import { memberCache } from "../../src/lib/cache/member-cache";
+import { reservationCache } from "../../src/lib/cache/reservation-cache";
+import { LLMProvider, setLLMProvider } from "../../src/lib/ai/llm-provider";
+import { ScriptedProvider } from "../../src/lib/ai/scripted-provider";
+import { LLMAbortedError } from "../../src/lib/errors/llm-errors";
+import { LLMRequest, LLMResponse, ScriptedTurn } from "../../src/types/llm";
+
+let tempDir = "";
+const originalEnv: Record<string, string | undefined> = {};
+const ENV_KEYS = ["DATA_DIR", "JWT_SECRET"];
+
+beforeAll(async () => {
+  for (const key of ENV_KEYS) {
+    originalEnv[key] = process.env[key];
+  }
+
+  process.env.JWT_SECRET = "test-secret-key-for-testing-only";
+  process.env.BCRYPT_ROUNDS = "10";
+
+  tempDir = await fs.mkdtemp(
+    path.join(os.tmpdir(), `pta-stream-${Date.now()}-${Math.random().toString(36).substring(7)}-`)
+  );
+  process.env.DATA_DIR = tempDir;
+});
+
+beforeEach(async () => {
+  memberCache.clear();
+  reservationCache.clear();
+
+  for (const file of ["reservations.json", "members.json", "ai-threads.json", "ai-actions.json"]) {
+    await fs.writeFile(path.join(tempDir, file), JSON.stringify([], null, 2));
+  }
+});
+
+afterEach(async () => {
+  setLLMProvider(null);
+  memberCache.clear();
+  reservationCache.clear();
+});
+
+afterAll(async () => {
+  for (const key of ENV_KEYS) {
+    if (originalEnv[key] !== undefined) {
+      process.env[key] = originalEnv[key];
+    } else {
+      delete process.env[key];
+    }
+  }
+
+  if (tempDir) {
+    await fs.rm(tempDir, { recursive: true, force: true }).catch(() => {});
+  }
+});
+
+async function signUp(role: "player" | "admin" = "player") {
+  const email = `${role}-${Date.now()}-${Math.random().toString(36).substring(7)}@example.com`;
+  const response = await request(app).post("/api/auth/signup").send({
+    firstName: "Sam",
+    lastName: "Player",
+    email,
+    phone: "401-555-0000",
+    password: "Password123",
+  });
+  const id = response.body.member.id as string;
+
+  if (role === "player") {
+    return { id, auth: `Bearer ${response.body.token}` };
+  }
+
+  await memberRepository.update(id, { role });
+  memberCache.clear();
+  return { id, auth: `Bearer ${(await createSession(id, email, role)).token}` };
+}
+
+function script(...turns: ScriptedTurn[]): ScriptedProvider {
+  const provider = new ScriptedProvider(turns);
+  setLLMProvider(provider);
+  return provider;
+}
+
+/**
+ * Parse a Server-Sent Events body into its events
+ */
+function parseEvents(body: string): Array<{ event: string; data: Record<string, any> }> {
+  return body
+    .split("\n\n")
+    .filter((block) => block.trim())
+    .map((block) => {
+      const event = block.match(/^event: (.*)$/m)?.[1] || "";
+      const data = JSON.parse(block.match(/^data: (.*)$/m)?.[1] || "{}");
+      return { event, data };
+    });
+}
+
+function stream(endpoint: string, body: Record<string, any>, auth?: string) {
+  const req = request(app).post(endpoint).send(body);
+  return auth ? req.set("Authorization", auth) : req;
+}
+
+describe("Streaming chat", () => {
+  it("streams tool progress and reply text, then the full response", async () => {
+    const player = await signUp();
+    script(
+      { toolCalls: [{ name: "getPlayerProfile", args: { playerId: player.id } }] },
+      { text: "Work on your serve" }
+    );
+
+    const response = await stream(
+      "/api/orchestrator/chat/stream",
+      { message: "What should I work on?" },
+      player.auth
+    );
+
+    expect(response.status).toBe(200);
+    expect(response.headers["content-type"]).toContain("text/event-stream");
+    const events = parseEvents(response.text);
+    expect(events.map((e) => e.event)).toEqual([
+      "tool_start",
+      "tool_end",
+      "delta",
+      "delta",
+      "delta",
+      "delta",
+      "done",
+    ]);
+    expect(events[0].data).toMatchObject({ name: "getPlayerProfile", label: "Looking up the player" });
+    expect(events[1].data.success).toBe(true);
+    expect(events.filter((e) => e.event === "delta").map((e) => e.data.text).join("")).toBe(
+      "Work on your serve"
+    );
+
+    const done = events[events.length - 1].data;
+    expect(done).toMatchObject({ response: "Work on your serve", pendingActions: [] });
+    const thread = await aiThreadRepository.findById(done.threadId);
+    expect(thread?.messages).toHaveLength(4);
+  });
+
+  it("returns the admin's pending actions when done", async () => {
+    const admin = await signUp("admin");
+    const reservation = await reservationRepository.create({
+      courtId: "1",
+      courtName: "Court 1",
+      date: "2027-11-16",
+      timeSlot: { start: "10:00", end: "11:00" },
+      customerName: "Guest Player",
+      customerEmail: "guest@example.com",
+      customerPhone: "401-555-0101",
+    });
+    script(
+      { toolCalls: [{ name: "cancelReservation", args: { reservationId: reservation.id } }] },
+      { text: "Please confirm" }
+    );
+
+    const response = await stream(
+      "/api/admin/chat/stream",
+      { message: "Cancel it" },
+      admin.auth
+    );
+
+    const events = parseEvents(response.text);
+    expect(events[0].data.label).toBe("Preparing the cancellation");
+    const done = events[events.length - 1];
+    expect(done.event).toBe("done");
+    expect(done.data.pendingActions[0]).toMatchObject({
+      type: "cancelReservation",
+      status: "pending",
+      threadId: done.data.threadId,
+    });
+  });
+
+  it("streams the public assistant to anonymous visitors without saving", async () => {
+    script({ text: "We have 10 clay courts" });
+
+    const response = await stream("/api/chat/stream", { message: "How many courts?" });
+
+    const events = parseEvents(response.text);
+    expect(events[events.length - 1]).toEqual({
+      event: "done",
+      data: { response: "We have 10 clay courts" },
+    });
+    expect(await aiThreadRepository.findAll()).toHaveLength(0);
+  });
+
+  it("streams the legacy training endpoint through the orchestrator", async () => {
+    const player = await signUp();
+    script({ text: "Work on your serve" });
+
+    const response = await stream("/api/training/chat/stream", { message: "Any tips?" }, player.auth);
+    const unauthenticated = await stream("/api/training/chat/stream", { message: "Hi" });
+
+    const events = parseEvents(response.text);
+    expect(events[events.length - 1]).toMatchObject({
+      event: "done",
+      data: { response: "Work on your serve", pendingActions: [] },
+    });
+    expect(unauthenticated.status).toBe(401);
+  });
+
+  it("answers errors before the stream starts as JSON", async () => {
+    const player = await signUp();
+    script({ text: "Hi" });
+
+    const missing = await stream("/api/orchestrator/chat/stream", {}, player.auth);
+    const unknownThread = await stream(
+      "/api/orchestrator/chat/stream",
+      { message: "Hi", threadId: "thread-missing" },
+      player.auth
+    );
+    const forbidden = await stream("/api/admin/chat/stream", { message: "Hi" }, player.auth);
+    const unauthenticated = await stream("/api/orchestrator/chat/stream", { message: "Hi" });
+
+    expect(missing.status).toBe(400);
+    expect(unknownThread.status).toBe(404);
+    expect(unknownThread.body.code).toBe("NOT_FOUND");
+    expect(forbidden.status).toBe(403);
+    expect(unauthenticated.status).toBe(401);
+  });
+
+  it("reports a failure after the stream started as an error event", async () => {
+    const player = await signUp();
+    let calls = 0;
+    const failing: LLMProvider = {
+      name: "failing",
+      generate: async () => {
+        throw new Error("Model unavailable");
+      },
+      generateStream: async () => {
+        calls++;
+        if (calls > 1) {
+          throw new Error("Model unavailable");
+        }
+        return { text: "", toolCalls: [{ name: "getPlayerProfile", args: { playerId: player.id } }] };
+      },
+    };
+    setLLMProvider(failing);
+
+    const response = await stream(
+      "/api/orchestrator/chat/stream",
+      { message: "Hello" },
+      player.auth
+    );
+
+    const events = parseEvents(response.text);
+    expect(events.map((e) => e.event)).toEqual(["tool_start", "tool_end", "error"]);
+    expect(events[2].data.error).toBe("Model unavailable");
+    expect(await aiThreadRepository.findAll()).toHaveLength(0);
+  });
+
+  it("cancels the turn when the client disconnects", async () => {
+    const player = await signUp();
+    let cancelled!: () => void;
+    const wasCancelled = new Promise<void>((resolve) => (cancelled = resolve));
+
+    // Sends one word, then waits until the request is aborted
+    const slow: LLMProvider = {
+      name: "slow",
+      generate: async () => ({ text: "", toolCalls: [] }),
+      generateStream: (req: LLMRequest, onText: (delta: string) => void) =>
+        new Promise<LLMResponse>((_resolve, reject) => {
+          onText("Thinking ");
+          req.signal?.addEventListener("abort", () => {
+            cancelled();
+            reject(new LLMAbortedError());
+          });
+        }),
+    };
+    setLLMProvider(slow);
+
+    const server = app.listen(0);
+    try {
+      const { port } = server.address() as AddressInfo;
+      await new Promise<void>((resolve, reject) => {
+        const req = http.request(
+          {
+            port,
+            method: "POST",
+            path: "/api/orchestrator/chat/stream",
+            headers: { "Content-Type": "application/json", Authorization: player.auth },
+          },
+          (res) => {
+            res.once("data", (chunk) => {
+              expect(chunk.toString()).toContain("event: delta");
+              req.destroy();
+              resolve();
+            });
+          }
+        );
+        req.on("error", () => {});
+        req.on("timeout", () => reject(new Error("No stream received")));
+        req.setTimeout(5000);
+        req.end(JSON.stringify({ message: "Plan my week" }));
+      });
+
+      await wasCancelled;
+    } finally {
+      await new Promise((resolve) => server.close(resolve));
+    }
+
+    expect(await aiThreadRepository.findAll()).toHaveLength(0);
+  });
+});
@@ -0,0 +1,307 @@
+/**
+ * Integration tests for persistent AI conversation threads
+ * Chats through the endpoints with a scripted model and checks what is
+ * stored, what is replayed to the model and who can see each thread
+ */
+
+import { describe, it, expect, beforeAll, beforeEach, afterEach, afterAll } from "vitest";
+import request from "supertest";
+import path from "path";
+import { promises as fs } from "fs";
+import os from "os";
+import app from "../../src/app";
+import { createSession } from "../../src/lib/auth/session-manager";
+import { memberRepository } from "../../src/lib/repositories/file-member-repository";
+import { aiThreadRepository } from "../../src/lib/repositories/file-ai-thread-repository";
+import { memberCache } from "../../src/lib/cache/member-cache";
+import { reservationCache } from "../../src/lib/cache/reservation-cache";
+import { setLLMProvider } from "../../src/lib/ai/llm-provider";
+import { ScriptedProvider } from "../../src/lib/ai/scripted-provider";
+import { ScriptedTurn } from "../../src/types/llm";
+
+let tempDir = "";
+const originalEnv: Record<string, string | undefined> = {};
+const ENV_KEYS = [
+  "DATA_DIR",
+  "JWT_SECRET",
+  "AI_HISTORY_TOKEN_BUDGET",
+  "AI_THREAD_LIMIT",
+  "AI_THREAD_RETENTION_DAYS",
+];
+
+beforeAll(async () => {
+  for (const key of ENV_KEYS) {
+    originalEnv[key] = process.env[key];
+  }
+
+  process.env.JWT_SECRET = "test-secret-key-for-testing-only";
+  process.env.BCRYPT_ROUNDS = "10";
+
+  tempDir = await fs.mkdtemp(
+    path.join(os.tmpdir(), `pta-threads-${Date.now()}-${Math.random().toString(36).substring(7)}-`)
+  );
+  process.env.DATA_DIR = tempDir;
+});
+
+beforeEach(async () => {
+  memberCache.clear();
+  reservationCache.clear();
+  delete process.env.AI_HISTORY_TOKEN_BUDGET;
+  delete process.env.AI_THREAD_LIMIT;
+  delete process.env.AI_THREAD_RETENTION_DAYS;
+
+  for (const file of ["reservations.json", "members.json", "ai-threads.json"]) {
+    await fs.writeFile(path.join(tempDir, file), JSON.stringify([], null, 2));
+  }
+});
+
+afterEach(async () => {
+  setLLMProvider(null);
+  memberCache.clear();
+  reservationCache.clear();
+});
+
+afterAll(async () => {
+  for (const key of ENV_KEYS) {
+    if (originalEnv[key] !== undefined) {
+      process.env[key] = originalEnv[key];
+    } else {
+      delete process.env[key];
+    }
+  }
+
+  if (tempDir) {
+    await fs.rm(tempDir, { recursive: true, force: true }).catch(() => {});
+  }
+});
+
+async function signUp(role: "player" | "admin" = "player") {
+  const email = `${role}-${Date.now()}-${Math.random().toString(36).substring(7)}@example.com`;
+  const response = await request(app).post("/api/auth/signup").send({
+    firstName: "Sam",
+    lastName: "Player",
+    email,
+    phone: "401-555-0000",
+    password: "Password123",
+  });
+  const id = response.body.member.id as string;
+
+  if (role === "player") {
+    return { id, auth: `Bearer ${response.body.token}` };
+  }
+
+  await memberRepository.update(id, { role });
+  memberCache.clear();
+  return { id, auth: `Bearer ${(await createSession(id, email, role)).token}` };
+}
+
+function script(...turns: ScriptedTurn[]): ScriptedProvider {
+  const provider = new ScriptedProvider(turns);
+  setLLMProvider(provider);
+  return provider;
+}
+
+function chat(auth: string, body: Record<string, any>, endpoint = "/api/orchestrator/chat") {
+  return request(app).post(endpoint).set("Authorization", auth).send(body);
+}
+
+describe("AI conversation threads", () => {
+  it("saves the transcript and replays it when the thread continues", async () => {
+    const player = await signUp();
+    script(
+      { toolCalls: [{ name: "getPlayerProfile", args: { playerId: player.id } }] },
+      { text: "Your backhand needs work" }
+    );
+
+    const first = await chat(player.auth, { message: "What should I work on?" });
+
+    expect(first.status).toBe(200);
+    const threadId = first.body.threadId;
+    expect(threadId).toBeTruthy();
+
+    const provider = script({ text: "Try cross-court drills" });
+    const second = await chat(player.auth, { message: "Any drills?", threadId });
+
+    expect(second.body.threadId).toBe(threadId);
+    expect(provider.requests[0].messages.map((m) => m.role)).toEqual([
+      "user",
+      "assistant",
+      "tool",
+      "assistant",
+      "user",
+    ]);
+
+    const thread = await request(app)
+      .get(`/api/ai/threads/${threadId}`)
+      .set("Authorization", player.auth);
+
+    expect(thread.status).toBe(200);
+    expect(thread.body).toMatchObject({
+      agent: "orchestrator",
+      title: "What should I work on?",
+      memberId: player.id,
+    });
+    expect(thread.body.messages).toHaveLength(6);
+    expect(thread.body.messages[1].toolCalls[0].name).toBe("getPlayerProfile");
+    expect(thread.body.messages[5]).toMatchObject({
+      role: "assistant",
+      content: "Try cross-court drills",
+    });
+  });
+
+  it("replays only the newest turns that fit in the token budget", async () => {
+    const player = await signUp();
+    script({ text: "First answer" });
+    const first = await chat(player.auth, { message: "x".repeat(400) });
+    script({ text: "Second answer" });
+    await chat(player.auth, { message: "Short question", threadId: first.body.threadId });
+
+    process.env.AI_HISTORY_TOKEN_BUDGET = "50";
+    const provider = script({ text: "Third answer" });
+    await chat(player.auth, { message: "And now?", threadId: first.body.threadId });
+
+    expect(provider.requests[0].messages).toEqual([
+      { role: "user", content: "Short question" },
+      { role: "assistant", content: "Second answer" },
+      { role: "user", content: "And now?" },
+    ]);
+  });
+
+  it("lists the member's threads, most recent first, filtered by agent", async () => {
+    const admin = await signUp("admin");
+    script({ text: "One" }, { text: "Two" });
+    await chat(admin.auth, { message: "Training question" });
+    await chat(admin.auth, { message: "Booking question" }, "/api/admin/chat");
+
+    const all = await request(app).get("/api/ai/threads").set("Authorization", admin.auth);
+    const admins = await request(app)
+      .get("/api/ai/threads?agent=admin")
+      .set("Authorization", admin.auth);
+    const invalid = await request(app)
+      .get("/api/ai/threads?agent=robot")
+      .set("Authorization", admin.auth);
+
+    expect(all.body.map((t: any) => t.title)).toEqual(["Booking question", "Training question"]);
+    expect(all.body[0]).toMatchObject({ agent: "admin", messageCount: 2 });
+    expect(admins.body).toHaveLength(1);
+    expect(invalid.status).toBe(400);
+  });
+
+  it("keeps each member to their own threads", async () => {
+    const player = await signUp();
+    const other = await signUp();
+    script({ text: "Hi" });
+    const { body } = await chat(player.auth, { message: "Hello" });
+
+    const read = await request(app)
+      .get(`/api/ai/threads/${body.threadId}`)
+      .set("Authorization", other.auth);
+    const removed = await request(app)
+      .delete(`/api/ai/threads/${body.threadId}`)
+      .set("Authorization", other.auth);
+    const continued = await chat(other.auth, { message: "Hi", threadId: body.threadId });
+    const list = await request(app).get("/api/ai/threads").set("Authorization", other.auth);
+
+    expect(read.status).toBe(404);
+    expect(removed.status).toBe(404);
+    expect(continued.status).toBe(404);
+    expect(list.body).toEqual([]);
+    expect(await aiThreadRepository.findById(body.threadId)).not.toBeNull();
+  });
+
+  it("rejects continuing a thread with a different assistant", async () => {
+    const admin = await signUp("admin");
+    script({ text: "Hi" });
+    const { body } = await chat(admin.auth, { message: "Hello" });
+
+    const response = await chat(
+      admin.auth,
+      { message: "Move booking", threadId: body.threadId },
+      "/api/admin/chat"
+    );
+
+    expect(response.status).toBe(400);
+  });
+
+  it("renames and deletes a thread", async () => {
+    const player = await signUp();
+    script({ text: "Hi" });
+    const { body } = await chat(player.auth, { message: "Hello" });
+
+    const renamed = await request(app)
+      .patch(`/api/ai/threads/${body.threadId}`)
+      .set("Authorization", player.auth)
+      .send({ title: "Serve practice" });
+    const empty = await request(app)
+      .patch(`/api/ai/threads/${body.threadId}`)
+      .set("Authorization", player.auth)
+      .send({ title: " " });
+    const removed = await request(app)
+      .delete(`/api/ai/threads/${body.threadId}`)
+      .set("Authorization", player.auth);
+
+    expect(renamed.body.title).toBe("Serve practice");
+    expect(empty.status).toBe(400);
+    expect(removed.status).toBe(200);
+    expect(await aiThreadRepository.findById(body.threadId)).toBeNull();
+  });
+
+  it("deletes the oldest threads past the per-member limit", async () => {
+    process.env.AI_THREAD_LIMIT = "2";
+    const player = await signUp();
+    script({ text: "1" }, { text: "2" }, { text: "3" });
+
+    const first = await chat(player.auth, { message: "First" });
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    await chat(player.auth, { message: "Second" });
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    await chat(player.auth, { message: "Third" });
+
+    const list = await request(app).get("/api/ai/threads").set("Authorization", player.auth);
+
+    expect(list.body.map((t: any) => t.title)).toEqual(["Third", "Second"]);
+    expect(await aiThreadRepository.findById(first.body.threadId)).toBeNull();
+  });
+
+  it("purges threads past the retention period", async () => {
+    process.env.AI_THREAD_RETENTION_DAYS = "30";
+    const player = await signUp();
+    script({ text: "Hi" });
+    const { body } = await chat(player.auth, { message: "Hello" });
+    await aiThreadRepository.update(body.threadId, { updatedAt: "2020-01-01T00:00:00.000Z" });
+
+    const list = await request(app).get("/api/ai/threads").set("Authorization", player.auth);
+
+    expect(list.body).toEqual([]);
+    expect(await aiThreadRepository.findById(body.threadId)).toBeNull();
+  });
+
+  it("saves public chats for signed-in members only", async () => {
+    const player = await signUp();
+    script({ text: "Hi" }, { text: "Hello again" });
+
+    const anonymous = await request(app).post("/api/chat").send({ message: "Hello" });
+    const signedIn = await chat(player.auth, { message: "Hello" }, "/api/chat");
+
+    expect(anonymous.body.threadId).toBeUndefined();
+    expect(signedIn.body.threadId).toBeTruthy();
+    expect(await aiThreadRepository.findAll()).toHaveLength(1);
+  });
+
+  it("does not save turns from clients that resend the history", async () => {
+    const player = await signUp();
+    script({ text: "Sure" });
+
+    const response = await chat(player.auth, {
+      message: "And tomorrow?",
+      conversationHistory: [
+        { role: "user", content: "Hello" },
+        { role: "assistant", content: "Hi" },
+      ],
+    });
+
+    expect(response.status).toBe(200);
+    expect(response.body.threadId).toBeUndefined();
+    expect(await aiThreadRepository.findAll()).toEqual([]);
+  });
+});
@@ -0,0 +1,342 @@
+/**
+ * Integration tests for the audit log
+ * Reservation, member and refund changes record the actor, source and
+ * before/after values, queryable by admins
+ */
+
+import { describe, it, expect, beforeAll, beforeEach, afterEach, afterAll, vi } from "vitest";
+import request from "supertest";
+import path from "path";
+import { promises as fs } from "fs";
+import os from "os";
+import app from "../../src/app";
+import { createSession } from "../../src/lib/auth/session-manager";
+import { memberRepository } from "../../src/lib/repositories/file-member-repository";
+import { reservationRepository } from "../../src/lib/repositories/file-reservation-repository";
+import { paymentRepository } from "../../src/lib/repositories/file-payment-repository";
+import { memberCache } from "../../src/lib/cache/member-cache";
+import { reservationCache } from "../../src/lib/cache/reservation-cache";
+import { setLLMProvider } from "../../src/lib/ai/llm-provider";
+import { ScriptedProvider } from "../../src/lib/ai/scripted-provider";
+
+vi.mock("../../src/lib/payments/stripe-client", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../../src/lib/payments/stripe-client")>()),
+  createRefund: vi.fn(async (_chargeId: string, amount?: number) => ({
+    id: "re_test",
+    amount: amount ?? 4000,
+  })),
+}));
+
+let tempDir = "";
+const originalEnv: Record<string, string | undefined> = {};
+const ENV_KEYS = ["DATA_DIR", "JWT_SECRET"];
+
+beforeAll(async () => {
+  for (const key of ENV_KEYS) {
+    originalEnv[key] = process.env[key];
+  }
+
+  process.env.JWT_SECRET = "test-secret-key-for-testing-only";
+  process.env.BCRYPT_ROUNDS = "10";
+
+  tempDir = await fs.mkdtemp(
+    path.join(os.tmpdir(), `pta-audit-${Date.now()}-${Math.random().toString(36).substring(7)}-`)
+  );
+  process.env.DATA_DIR = tempDir;
+});
+
+beforeEach(async () => {
+  memberCache.clear();
+  reservationCache.clear();
+
+  for (const file of [
+    "reservations.json",
+    "members.json",
+    "payments.json",
+    "ai-threads.json",
+    "ai-actions.json",
+    "audit-log.json",
+  ]) {
+    await fs.writeFile(path.join(tempDir, file), JSON.stringify([], null, 2));
+  }
+});
+
+afterEach(async () => {
+  setLLMProvider(null);
+  memberCache.clear();
+  reservationCache.clear();
+});
+
+afterAll(async () => {
+  for (const key of ENV_KEYS) {
+    if (originalEnv[key] !== undefined) {
+      process.env[key] = originalEnv[key];
+    } else {
+      delete process.env[key];
+    }
+  }
+
+  if (tempDir) {
+    await fs.rm(tempDir, { recursive: true, force: true }).catch(() => {});
+  }
+});
+
+async function signUp(role: "player" | "admin" = "admin") {
+  const email = `${role}-${Date.now()}-${Math.random().toString(36).substring(7)}@example.com`;
+  const response = await request(app).post("/api/auth/signup").send({
+    firstName: "Alex",
+    lastName: "Admin",
+    email,
+    phone: "401-555-0000",
+    password: "Password123",
+  });
+  const id = response.body.member.id as string;
+
+  if (role === "player") {
+    return { id, auth: `Bearer ${response.body.token}` };
+  }
+
+  await memberRepository.update(id, { role });
+  memberCache.clear();
+  return { id, auth: `Bearer ${(await createSession(id, email, role)).token}` };
+}
+
+async function book(courtId = "1") {
+  return reservationRepository.create({
+    courtId,
+    courtName: `Court ${courtId}`,
+    date: "2027-11-16",
+    timeSlot: { start: "10:00", end: "11:00" },
+    customerName: "Guest Player",
+    customerEmail: "guest@example.com",
+    customerPhone: "401-555-0101",
+  });
+}
+
+function history(auth: string, query: string) {
+  return request(app).get(`/api/admin/audit?${query}`).set("Authorization", auth);
+}
+
+describe("Audit log", () => {
+  it("records an admin dashboard move with the before and after values", async () => {
+    const admin = await signUp();
+    const reservation = await book();
+
+    await request(app)
+      .patch(`/api/admin/reservations/${reservation.id}`)
+      .set("Authorization", admin.auth)
+      .send({ courtId: "2" });
+
+    const response = await history(admin.auth, `entityType=reservation&entityId=${reservation.id}`);
+
+    expect(response.status).toBe(200);
+    expect(response.body).toHaveLength(1);
+    expect(response.body[0]).toMatchObject({
+      actorId: admin.id,
+      actorRole: "admin",
+      actorName: "Alex Admin",
+      source: "admin-ui",
+      action: "reservation.update",
+      entityType: "reservation",
+      entityId: reservation.id,
+      changes: {
+        courtId: { before: "1", after: "2" },
+        courtName: { before: "Court 1", after: "Court 2" },
+      },
+    });
+    expect(Object.keys(response.body[0].changes).sort()).toEqual(["courtId", "courtName"]);
+  });
+
+  it("records cancellations, newest first", async () => {
+    const admin = await signUp();
+    const reservation = await book();
+
+    await request(app)
+      .patch(`/api/admin/reservations/${reservation.id}`)
+      .set("Authorization", admin.auth)
+      .send({ notes: "Moved indoors" });
+    await request(app)
+      .delete(`/api/admin/reservations/${reservation.id}`)
+      .set("Authorization", admin.auth);
+
+    const response = await history(admin.auth, `entityId=${reservation.id}`);
+
+    expect(response.body.map((e: any) => e.action)).toEqual([
+      "reservation.cancel",
+      "reservation.update",
+    ]);
+    expect(response.body[0]).toMatchObject({
+      source: "admin-ui",
+      changes: { status: { before: "confirmed", after: "cancelled" } },
+    });
+  });
+
+  it("records owners' edits and ignores a client-supplied source", async () => {
+    const admin = await signUp();
+    const player = await signUp("player");
+    const reservation = await reservationRepository.create({
+      courtId: "1",
+      courtName: "Court 1",
+      date: "2027-11-16",
+      timeSlot: { start: "10:00", end: "11:00" },
+      memberId: player.id,
+      customerName: "Alex Admin",
+      customerEmail: "player@example.com",
+      customerPhone: "401-555-0000",
+    });
+
+    const update = await request(app)
+      .put(`/api/reservations/${reservation.id}`)
+      .set("Authorization", player.auth)
+      .set("X-Audit-Source", "admin-ui")
+      .send({ notes: "Bringing a hopper" });
+    expect(update.status).toBe(200);
+
+    const response = await history(admin.auth, `entityId=${reservation.id}`);
+
+    expect(response.body).toHaveLength(1);
+    expect(response.body[0]).toMatchObject({
+      actorId: player.id,
+      source: "api",
+      action: "reservation.update",
+      changes: { notes: { after: "Bringing a hopper" } },
+    });
+  });
+
+  it("leaves an unreadable log alone instead of starting a new one", async () => {
+    const admin = await signUp();
+    const reservation = await book();
+    await fs.writeFile(path.join(tempDir, "audit-log.json"), "{ not json");
+    const consoleError = vi.spyOn(console, "error").mockImplementation(() => {});
+
+    try {
+      const update = await request(app)
+        .patch(`/api/admin/reservations/${reservation.id}`)
+        .set("Authorization", admin.auth)
+        .send({ notes: "Moved indoors" });
+
+      // The change itself goes through; only the audit entry is lost
+      expect(update.status).toBe(200);
+      expect(await fs.readFile(path.join(tempDir, "audit-log.json"), "utf-8")).toBe("{ not json");
+      expect((await history(admin.auth, "")).status).toBe(500);
+    } finally {
+      consoleError.mockRestore();
+    }
+  });
+
+  it("skips updates that change nothing", async () => {
+    const admin = await signUp();
+    const reservation = await book();
+
+    await request(app)
+      .patch(`/api/admin/reservations/${reservation.id}`)
+      .set("Authorization", admin.auth)
+      .send({ courtId: "1" });
+
+    const response = await history(admin.auth, `entityId=${reservation.id}`);
+
+    expect(response.body).toHaveLength(0);
+  });
+
+  it("records member profile changes without secrets", async () => {
+    const admin = await signUp();
+    const player = await signUp("player");
+
+    await request(app)
+      .patch(`/api/members/${player.id}`)
+      .set("Authorization", player.auth)
+      .send({ phone: "401-555-9999" });
+    await request(app)
+      .patch(`/api/members/${player.id}`)
+      .set("Authorization", admin.auth)
+      .send({ isActive: false });
+
+    const response = await history(admin.auth, `entityType=member&entityId=${player.id}`);
+
+    expect(response.body.map((e: any) => [e.actorId, e.source])).toEqual([
+      [admin.id, "admin-ui"],
+      [player.id, "api"],
+    ]);
+    expect(response.body[0].changes).toEqual({ isActive: { before: true, after: false } });
+    expect(response.body[1].changes).toEqual({
+      phone: { before: "401-555-0000", after: "401-555-9999" },
+    });
+    expect(JSON.stringify(response.body)).not.toContain("passwordHash");
+  });
+
+  it("records refunds", async () => {
+    const admin = await signUp();
+    const payment = await paymentRepository.create({
+      type: "court_booking",
+      amount: 4000,
+      currency: "usd",
+      status: "paid",
+      stripePaymentIntentId: "pi_test_audit",
+      stripeChargeId: "ch_test_audit",
+      paidAt: new Date().toISOString(),
+    });
+
+    const refund = await request(app)
+      .post(`/api/payments/${payment.id}/refund`)
+      .set("Authorization", admin.auth)
+      .send({ reason: "requested_by_customer" });
+    expect(refund.status).toBe(200);
+
+    const response = await history(admin.auth, "action=payment.refund");
+
+    expect(response.body).toHaveLength(1);
+    expect(response.body[0]).toMatchObject({
+      actorId: admin.id,
+      entityType: "payment",
+      entityId: payment.id,
+      changes: {
+        status: { before: "paid", after: "refunded" },
+        refundAmount: { after: 4000 },
+      },
+    });
+  });
+
+  it("attributes confirmed AI agent actions to the confirming admin", async () => {
+    const admin = await signUp();
+    const reservation = await book();
+    setLLMProvider(
+      new ScriptedProvider([
+        { toolCalls: [{ name: "cancelReservation", args: { reservationId: reservation.id } }] },
+        { text: "Please confirm the cancellation" },
+      ])
+    );
+    const chat = await request(app)
+      .post("/api/admin/chat")
+      .set("Authorization", admin.auth)
+      .send({ message: "Cancel that booking" });
+
+    expect((await history(admin.auth, `entityId=${reservation.id}`)).body).toHaveLength(0);
+
+    await request(app)
+      .post(`/api/admin/ai-actions/${chat.body.pendingActions[0].id}/confirm`)
+      .set("Authorization", admin.auth);
+
+    const response = await history(admin.auth, `actorId=${admin.id}`);
+
+    expect(response.body).toHaveLength(1);
+    expect(response.body[0]).toMatchObject({
+      actorId: admin.id,
+      source: "ai-agent",
+      action: "reservation.cancel",
+      entityId: reservation.id,
+    });
+  });
+
+  it("is only readable by admins and validates filters", async () => {
+    const admin = await signUp();
+    const player = await signUp("player");
+
+    const invalidType = await history(admin.auth, "entityType=court");
+    const invalidAction = await history(admin.auth, "action=member.delete");
+    const forbidden = await history(player.auth, "");
+
+    expect(invalidType.status).toBe(400);
+    expect(invalidAction.status).toBe(400);
+    expect(forbidden.status).toBe(403);
+  });
+});
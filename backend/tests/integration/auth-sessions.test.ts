@@ -0,0 +1,220 @@
+/**
+ * Integration tests for server-side sessions: logout, refresh token
+ * rotation, device list, and revocation on password reset / deactivation
+ */
+
+import { describe, it, expect, beforeAll, beforeEach, afterEach, afterAll } from "vitest";
+import request from "supertest";
+import path from "path";
+import { promises as fs } from "fs";
+import os from "os";
+import app from "../../src/app";
+import { memberCache } from "../../src/lib/cache/member-cache";
+import { readDeliveredMail } from "../../src/lib/email/file-transport";
+
+let tempDir = "";
+const originalEnv: Record<string, string | undefined> = {};
+const ENV_KEYS = ["DATA_DIR", "JWT_SECRET", "EMAIL_TRANSPORT", "EMAIL_FILE_DIR"];
+
+beforeAll(async () => {
+  for (const key of ENV_KEYS) {
+    originalEnv[key] = process.env[key];
+  }
+
+  process.env.JWT_SECRET = "test-secret-key-for-testing-only";
+  process.env.BCRYPT_ROUNDS = "10";
+
+  tempDir = await fs.mkdtemp(
+    path.join(os.tmpdir(), `pta-sessions-${Date.now()}-${Math.random().toString(36).substring(7)}-`)
+  );
+  process.env.DATA_DIR = tempDir;
+  process.env.EMAIL_TRANSPORT = "file";
+  process.env.EMAIL_FILE_DIR = path.join(tempDir, "mail");
+});
+
+beforeEach(async () => {
+  memberCache.clear();
+
+  await fs.writeFile(path.join(tempDir, "members.json"), JSON.stringify([], null, 2));
+  await fs.writeFile(path.join(tempDir, "sessions.json"), JSON.stringify([], null, 2));
+  await fs.writeFile(path.join(tempDir, "email-outbox.json"), JSON.stringify([], null, 2));
+  await fs.rm(path.join(tempDir, "mail"), { recursive: true, force: true });
+});
+
+afterEach(async () => {
+  memberCache.clear();
+});
+
+afterAll(async () => {
+  for (const key of ENV_KEYS) {
+    if (originalEnv[key] !== undefined) {
+      process.env[key] = originalEnv[key];
+    } else {
+      delete process.env[key];
+    }
+  }
+
+  if (tempDir) {
+    await fs.rm(tempDir, { recursive: true, force: true }).catch(() => {});
+  }
+});
+
+const PASSWORD = "Password123";
+
+async function signUp(role: "player" | "admin" = "player") {
+  const email = `${role}-${Date.now()}-${Math.random().toString(36).substring(7)}@example.com`;
+  const response = await request(app).post("/api/auth/signup").send({
+    firstName: "Serena",
+    lastName: "Player",
+    email,
+    phone: "401-555-0000",
+    password: PASSWORD,
+    role,
+  });
+  return {
+    id: response.body.member.id,
+    token: response.body.token as string,
+    refreshToken: response.body.refreshToken as string,
+    email,
+  };
+}
+
+async function signIn(email: string, userAgent = "Test Browser") {
+  const response = await request(app)
+    .post("/api/auth/signin")
+    .set("User-Agent", userAgent)
+    .send({ email, password: PASSWORD });
+  return response.body as { token: string; refreshToken: string };
+}
+
+function me(token: string) {
+  return request(app).get("/api/auth/me").set("Authorization", `Bearer ${token}`);
+}
+
+describe("Auth sessions", () => {
+  it("returns refresh tokens and invalidates the access token on logout", async () => {
+    const member = await signUp();
+    expect(member.refreshToken).toBeDefined();
+    expect((await me(member.token)).status).toBe(200);
+
+    const logout = await request(app)
+      .post("/api/auth/logout")
+      .set("Authorization", `Bearer ${member.token}`);
+    expect(logout.status).toBe(200);
+
+    expect((await me(member.token)).status).toBe(401);
+
+    const refresh = await request(app)
+      .post("/api/auth/refresh")
+      .send({ refreshToken: member.refreshToken });
+    expect(refresh.status).toBe(401);
+    expect(refresh.body.code).toBe("INVALID_SESSION");
+  });
+
+  it("rotates refresh tokens and revokes the session when an old one is replayed", async () => {
+    const member = await signUp();
+
+    const refreshed = await request(app)
+      .post("/api/auth/refresh")
+      .send({ refreshToken: member.refreshToken });
+    expect(refreshed.status).toBe(200);
+    expect(refreshed.body.refreshToken).not.toBe(member.refreshToken);
+    expect(refreshed.body.member.id).toBe(member.id);
+    expect((await me(refreshed.body.token)).status).toBe(200);
+
+    // Replay outside the grace window: treat as stolen and revoke the session
+    const [session] = JSON.parse(await fs.readFile(path.join(tempDir, "sessions.json"), "utf-8"));
+    session.rotatedAt = new Date(Date.now() - 5 * 60 * 1000).toISOString();
+    await fs.writeFile(path.join(tempDir, "sessions.json"), JSON.stringify([session], null, 2));
+
+    const replay = await request(app)
+      .post("/api/auth/refresh")
+      .send({ refreshToken: member.refreshToken });
+    expect(replay.status).toBe(401);
+
+    expect((await me(refreshed.body.token)).status).toBe(401);
+    const again = await request(app)
+      .post("/api/auth/refresh")
+      .send({ refreshToken: refreshed.body.refreshToken });
+    expect(again.status).toBe(401);
+  });
+
+  it("lists active devices and revokes a single one", async () => {
+    const member = await signUp();
+    const laptop = await signIn(member.email, "Laptop Browser");
+
+    const list = await request(app)
+      .get("/api/auth/sessions")
+      .set("Authorization", `Bearer ${laptop.token}`);
+    expect(list.status).toBe(200);
+    expect(list.body).toHaveLength(2);
+    const current = list.body.find((s: any) => s.current);
+    expect(current.userAgent).toBe("Laptop Browser");
+    expect(list.body[0].refreshTokenHash).toBeUndefined();
+
+    const other = list.body.find((s: any) => !s.current);
+    const revoked = await request(app)
+      .delete(`/api/auth/sessions/${other.id}`)
+      .set("Authorization", `Bearer ${laptop.token}`);
+    expect(revoked.status).toBe(200);
+    expect((await me(member.token)).status).toBe(401);
+    expect((await me(laptop.token)).status).toBe(200);
+
+    const intruder = await signUp();
+    const foreign = await request(app)
+      .delete(`/api/auth/sessions/${current.id}`)
+      .set("Authorization", `Bearer ${intruder.token}`);
+    expect(foreign.status).toBe(404);
+    expect((await me(laptop.token)).status).toBe(200);
+  });
+
+  it("logs out of all devices", async () => {
+    const member = await signUp();
+    const phone = await signIn(member.email);
+
+    const response = await request(app)
+      .post("/api/auth/logout-all")
+      .set("Authorization", `Bearer ${phone.token}`);
+    expect(response.status).toBe(200);
+    expect(response.body.revoked).toBe(2);
+
+    expect((await me(member.token)).status).toBe(401);
+    expect((await me(phone.token)).status).toBe(401);
+  });
+
+  it("revokes all sessions when the password is reset", async () => {
+    const member = await signUp();
+
+    await request(app).post("/api/auth/forgot-password").send({ email: member.email });
+    const [mail] = await readDeliveredMail();
+    const token = mail.text.match(/token=([^\s&]+)/)![1];
+
+    const reset = await request(app)
+      .post("/api/auth/reset-password")
+      .send({ token, newPassword: "NewPassword456" });
+    expect(reset.status).toBe(200);
+
+    expect((await me(member.token)).status).toBe(401);
+    const refresh = await request(app)
+      .post("/api/auth/refresh")
+      .send({ refreshToken: member.refreshToken });
+    expect(refresh.status).toBe(401);
+  });
+
+  it("revokes all sessions when a member is deactivated", async () => {
+    const admin = await signUp("admin");
+    const member = await signUp();
+
+    const deactivated = await request(app)
+      .delete(`/api/members/${member.id}`)
+      .set("Authorization", `Bearer ${admin.token}`);
+    expect(deactivated.status).toBe(200);
+
+    expect((await me(member.token)).status).toBe(401);
+    const refresh = await request(app)
+      .post("/api/auth/refresh")
+      .send({ refreshToken: member.refreshToken });
+    expect(refresh.status).toBe(401);
+    expect((await me(admin.token)).status).toBe(200);
+  });
+});
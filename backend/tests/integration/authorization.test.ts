@@ -0,0 +1,375 @@
+/**
+ * Integration tests for authorization on member and reservation endpoints
+ * Members touch only their own records, coaches read players, admins do everything
+ */
+
+import { describe, it, expect, beforeAll, beforeEach, afterEach, afterAll } from "vitest";
+import request from "supertest";
+import path from "path";
+import { promises as fs } from "fs";
+import os from "os";
+import app from "../../src/app";
+import { memberCache } from "../../src/lib/cache/member-cache";
+import { reservationCache } from "../../src/lib/cache/reservation-cache";
+
+let tempDir = "";
+const originalEnv: Record<string, string | undefined> = {};
+const ENV_KEYS = ["DATA_DIR", "JWT_SECRET"];
+
+const DATE = "2027-11-10";
+
+beforeAll(async () => {
+  for (const key of ENV_KEYS) {
+    originalEnv[key] = process.env[key];
+  }
+
+  process.env.JWT_SECRET = "test-secret-key-for-testing-only";
+  process.env.BCRYPT_ROUNDS = "10";
+
+  tempDir = await fs.mkdtemp(
+    path.join(os.tmpdir(), `pta-authz-${Date.now()}-${Math.random().toString(36).substring(7)}-`)
+  );
+  process.env.DATA_DIR = tempDir;
+});
+
+beforeEach(async () => {
+  memberCache.clear();
+  reservationCache.clear();
+
+  await fs.writeFile(path.join(tempDir, "reservations.json"), JSON.stringify([], null, 2));
+  await fs.writeFile(path.join(tempDir, "members.json"), JSON.stringify([], null, 2));
+  await fs.writeFile(path.join(tempDir, "sessions.json"), JSON.stringify([], null, 2));
+});
+
+afterEach(async () => {
+  memberCache.clear();
+  reservationCache.clear();
+});
+
+afterAll(async () => {
+  for (const key of ENV_KEYS) {
+    if (originalEnv[key] !== undefined) {
+      process.env[key] = originalEnv[key];
+    } else {
+      delete process.env[key];
+    }
+  }
+
+  if (tempDir) {
+    await fs.rm(tempDir, { recursive: true, force: true }).catch(() => {});
+  }
+});
+
+type Role = "player" | "coach" | "parent" | "admin";
+
+async function signUp(role: Role = "player") {
+  const email = `${role}-${Date.now()}-${Math.random().toString(36).substring(7)}@example.com`;
+  const response = await request(app).post("/api/auth/signup").send({
+    firstName: "Pat",
+    lastName: role,
+    email,
+    phone: "401-555-0000",
+    password: "Password123",
+    role,
+  });
+  return { id: response.body.member.id as string, auth: `Bearer ${response.body.token}` };
+}
+
+async function book(member: { id: string; auth: string } | undefined, start: string) {
+  const end = `${String(Number(start.split(":")[0]) + 1).padStart(2, "0")}:00`;
+  const response = await request(app)
+    .post("/api/reservations")
+    .set(member ? { Authorization: member.auth } : {})
+    .send(
+      member
+        ? { courtId: "2", date: DATE, timeSlot: { start, end }, memberId: member.id }
+        : {
+            courtId: "2",
+            date: DATE,
+            timeSlot: { start, end },
+            guestName: "Gail Guest",
+            guestEmail: "gail@example.com",
+            guestPhone: "401-555-1111",
+          }
+    );
+  expect(response.status).toBe(201);
+  return response.body.id as string;
+}
+
+describe("Member endpoint authorization", () => {
+  it("requires authentication", async () => {
+    const player = await signUp();
+
+    expect((await request(app).get("/api/members")).status).toBe(401);
+    expect((await request(app).get(`/api/members/${player.id}`)).status).toBe(401);
+    expect((await request(app).patch(`/api/members/${player.id}`).send({ phone: "1" })).status).toBe(401);
+  });
+
+  it("lets admins list everyone and coaches list only players", async () => {
+    const admin = await signUp("admin");
+    const coach = await signUp("coach");
+    const player = await signUp("player");
+
+    const all = await request(app).get("/api/members").set("Authorization", admin.auth);
+    expect(all.status).toBe(200);
+    expect(all.body).toHaveLength(3);
+    expect(all.body.some((m: any) => "passwordHash" in m)).toBe(false);
+
+    const players = await request(app)
+      .get("/api/members?role=admin")
+      .set("Authorization", coach.auth);
+    expect(players.status).toBe(200);
+    expect(players.body.map((m: any) => m.id)).toEqual([player.id]);
+
+    const denied = await request(app).get("/api/members").set("Authorization", player.auth);
+    expect(denied.status).toBe(403);
+    expect(denied.body.code).toBe("FORBIDDEN");
+  });
+
+  it("lets members read themselves and coaches read players", async () => {
+    const coach = await signUp("coach");
+    const player = await signUp("player");
+    const other = await signUp("player");
+    const parent = await signUp("parent");
+
+    const self = await request(app).get(`/api/members/${player.id}`).set("Authorization", player.auth);
+    expect(self.status).toBe(200);
+
+    const peer = await request(app).get(`/api/members/${other.id}`).set("Authorization", player.auth);
+    expect(peer.status).toBe(403);
+
+    const coached = await request(app).get(`/api/members/${player.id}`).set("Authorization", coach.auth);
+    expect(coached.status).toBe(200);
+    expect(coached.body.passwordHash).toBeUndefined();
+    expect(coached.body.calendarToken).toBeUndefined();
+
+    const notAPlayer = await request(app)
+      .get(`/api/members/${parent.id}`)
+      .set("Authorization", coach.auth);
+    expect(notAPlayer.status).toBe(403);
+
+    const reservations = await request(app)
+      .get(`/api/members/${player.id}/reservations`)
+      .set("Authorization", other.auth);
+    expect(reservations.status).toBe(403);
+
+    const coachView = await request(app)
+      .get(`/api/members/${player.id}/reservations`)
+      .set("Authorization", coach.auth);
+    expect(coachView.status).toBe(200);
+  });
+
+  it("lets members update their own profile but not admin-only fields", async () => {
+    const admin = await signUp("admin");
+    const player = await signUp("player");
+    const other = await signUp("player");
+    const coach = await signUp("coach");
+
+    const updated = await request(app)
+      .patch(`/api/members/${player.id}`)
+      .set("Authorization", player.auth)
+      .send({ phone: "401-555-9999" });
+    expect(updated.status).toBe(200);
+    expect(updated.body.phone).toBe("401-555-9999");
+
+    const promote = await request(app)
+      .patch(`/api/members/${player.id}`)
+      .set("Authorization", player.auth)
+      .send({ role: "admin" });
+    expect(promote.status).toBe(403);
+    expect(promote.body.error).toContain("role");
+
+    const peer = await request(app)
+      .put(`/api/members/${other.id}`)
+      .set("Authorization", player.auth)
+      .send({ phone: "401-555-0001" });
+    expect(peer.status).toBe(403);
+
+    const coachEdit = await request(app)
+      .patch(`/api/members/${player.id}`)
+      .set("Authorization", coach.auth)
+      .send({ ntrpRating: "4.5" });
+    expect(coachEdit.status).toBe(403);
+
+    const adminEdit = await request(app)
+      .patch(`/api/members/${player.id}`)
+      .set("Authorization", admin.auth)
+      .send({ role: "coach" });
+    expect(adminEdit.status).toBe(200);
+    expect(adminEdit.body.role).toBe("coach");
+  });
+
+  it("restricts creating and deactivating members to admins", async () => {
+    const admin = await signUp("admin");
+    const player = await signUp("player");
+    const newMember = {
+      firstName: "New",
+      lastName: "Member",
+      email: `new-${Date.now()}@example.com`,
+      phone: "401-555-2222",
+    };
+
+    const denied = await request(app)
+      .post("/api/members")
+      .set("Authorization", player.auth)
+      .send(newMember);
+    expect(denied.status).toBe(403);
+
+    const created = await request(app)
+      .post("/api/members")
+      .set("Authorization", admin.auth)
+      .send(newMember);
+    expect(created.status).toBe(201);
+
+    const selfDelete = await request(app)
+      .delete(`/api/members/${player.id}`)
+      .set("Authorization", player.auth);
+    expect(selfDelete.status).toBe(403);
+
+    const deactivated = await request(app)
+      .delete(`/api/members/${created.body.id}`)
+      .set("Authorization", admin.auth);
+    expect(deactivated.status).toBe(200);
+  });
+});
+
+describe("Reservation endpoint authorization", () => {
+  it("only books as a member for a signed-in member, parent or admin", async () => {
+    const player = await signUp("player");
+    const other = await signUp("player");
+    const booking = { courtId: "2", date: DATE, timeSlot: { start: "08:00", end: "09:00" } };
+
+    const anonymous = await request(app)
+      .post("/api/reservations")
+      .send({ ...booking, memberId: player.id });
+    expect(anonymous.status).toBe(401);
+
+    const impersonated = await request(app)
+      .post("/api/reservations")
+      .set("Authorization", other.auth)
+      .send({ ...booking, memberId: player.id });
+    expect(impersonated.status).toBe(403);
+
+    const own = await request(app)
+      .post("/api/reservations")
+      .set("Authorization", player.auth)
+      .send({ ...booking, memberId: player.id });
+    expect(own.status).toBe(201);
+  });
+
+  it("lets only the owner or an admin cancel a reservation", async () => {
+    const admin = await signUp("admin");
+    const owner = await signUp("player");
+    const other = await signUp("player");
+    const first = await book(owner, "09:00");
+    const second = await book(owner, "10:00");
+
+    expect((await request(app).delete(`/api/reservations/${first}`)).status).toBe(401);
+
+    const denied = await request(app)
+      .delete(`/api/reservations/${first}`)
+      .set("Authorization", other.auth);
+    expect(denied.status).toBe(403);
+
+    const cancelled = await request(app)
+      .delete(`/api/reservations/${first}`)
+      .set("Authorization", owner.auth);
+    expect(cancelled.status).toBe(200);
+
+    const byAdmin = await request(app)
+      .delete(`/api/reservations/${second}`)
+      .set("Authorization", admin.auth);
+    expect(byAdmin.status).toBe(200);
+
+    const missing = await request(app)
+      .delete("/api/reservations/does-not-exist")
+      .set("Authorization", owner.auth);
+    expect(missing.status).toBe(404);
+  });
+
+  it("leaves guest reservations to admins", async () => {
+    const admin = await signUp("admin");
+    const player = await signUp("player");
+    const guestBooking = await book(undefined, "11:00");
+
+    const denied = await request(app)
+      .delete(`/api/reservations/${guestBooking}`)
+      .set("Authorization", player.auth);
+    expect(denied.status).toBe(403);
+
+    const cancelled = await request(app)
+      .delete(`/api/reservations/${guestBooking}`)
+      .set("Authorization", admin.auth);
+    expect(cancelled.status).toBe(200);
+  });
+
+  it("lets owners update their reservation but not hand it to someone else", async () => {
+    const owner = await signUp("player");
+    const other = await signUp("player");
+    const reservationId = await book(owner, "12:00");
+
+    const updated = await request(app)
+      .put(`/api/reservations/${reservationId}`)
+      .set("Authorization", owner.auth)
+      .send({ notes: "Bring extra balls" });
+    expect(updated.status).toBe(200);
+    expect(updated.body.notes).toBe("Bring extra balls");
+
+    const denied = await request(app)
+      .put(`/api/reservations/${reservationId}`)
+      .set("Authorization", other.auth)
+      .send({ notes: "Mine now" });
+    expect(denied.status).toBe(403);
+
+    const reassigned = await request(app)
+      .put(`/api/reservations/${reservationId}`)
+      .set("Authorization", owner.auth)
+      .send({ memberId: other.id });
+    expect(reassigned.status).toBe(403);
+  });
+
+  it("keeps payment, status and override fields admin-only", async () => {
+    const owner = await signUp("player");
+    const reservationId = await book(owner, "12:00");
+
+    for (const field of [
+      { paymentStatus: "paid" },
+      { status: "checked_in" },
+      { rulesOverriddenBy: owner.id },
+      { bookedBy: owner.id },
+    ]) {
+      const denied = await request(app)
+        .put(`/api/reservations/${reservationId}`)
+        .set("Authorization", owner.auth)
+        .send(field);
+      expect(denied.status).toBe(403);
+      expect(denied.body.error).toContain(Object.keys(field)[0]);
+    }
+  });
+
+  it("re-checks operating hours and conflicts when an owner moves a reservation", async () => {
+    const owner = await signUp("player");
+    const other = await signUp("player");
+    const reservationId = await book(owner, "12:00");
+    await book(other, "14:00");
+
+    const afterHours = await request(app)
+      .put(`/api/reservations/${reservationId}`)
+      .set("Authorization", owner.auth)
+      .send({ timeSlot: { start: "03:00", end: "04:00" } });
+    expect(afterHours.status).toBe(400);
+
+    const taken = await request(app)
+      .put(`/api/reservations/${reservationId}`)
+      .set("Authorization", owner.auth)
+      .send({ timeSlot: { start: "14:00", end: "15:00" } });
+    expect(taken.status).toBe(409);
+
+    const moved = await request(app)
+      .put(`/api/reservations/${reservationId}`)
+      .set("Authorization", owner.auth)
+      .send({ courtId: "3", timeSlot: { start: "15:00", end: "16:00" } });
+    expect(moved.status).toBe(200);
+    expect(moved.body).toMatchObject({ courtId: "3", courtName: "Court 3" });
+  });
+});
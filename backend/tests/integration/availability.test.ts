@@ -9,9 +9,11 @@ import path from "path";
 import { promises as fs } from "fs";
 import os from "os";
 import app from "../../src/app";
+import { createSession } from "../../src/lib/auth/session-manager";
 import { reservationCache } from "../../src/lib/cache/reservation-cache";
 
 let tempDir = "";
+let adminAuth = "";
 let originalDataDir: string | undefined;
 
 beforeAll(async () => {
@@ -22,6 +24,8 @@ beforeAll(async () => {
   const baseDir = await fs.mkdtemp(path.join(os.tmpdir(), `pta-avail-${Date.now()}-${Math.random().toString(36).substring(7)}-`));
   tempDir = baseDir;
   process.env.DATA_DIR = tempDir;
+  // Admin session for the protected member/reservation endpoints
+  adminAuth = `Bearer ${(await createSession("test-admin", "admin@example.com", "admin")).token}`;
   // Ensure directory exists
   await fs.mkdir(tempDir, { recursive: true });
 });
@@ -223,7 +227,7 @@ describe("Availability Integration Tests", () => {
     expect(slotBefore.available).toBe(false);
 
     // Cancel reservation
-    await request(app).delete(`/api/reservations/${reservationId}`);
+    await request(app).delete(`/api/reservations/${reservationId}`).set("Authorization", adminAuth);
 
     // Check availability again - slot should be available
     const response2 = await request(app).get(
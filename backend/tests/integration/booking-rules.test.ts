@@ -0,0 +1,252 @@
+/**
+ * Integration tests for booking rules
+ * Tests admin configuration, enforcement on member and guest bookings,
+ * and admin overrides through /api/admin/reservations
+ */
+
+import { describe, it, expect, beforeAll, beforeEach, afterEach, afterAll } from "vitest";
+import request from "supertest";
+import path from "path";
+import { promises as fs } from "fs";
+import os from "os";
+import { addDays, format } from "date-fns";
+import app from "../../src/app";
+import { createSession } from "../../src/lib/auth/session-manager";
+import { memberCache } from "../../src/lib/cache/member-cache";
+import { reservationCache } from "../../src/lib/cache/reservation-cache";
+
+let tempDir = "";
+let adminAuth = "";
+const originalEnv: Record<string, string | undefined> = {};
+const ENV_KEYS = ["DATA_DIR", "JWT_SECRET"];
+
+beforeAll(async () => {
+  for (const key of ENV_KEYS) {
+    originalEnv[key] = process.env[key];
+  }
+
+  process.env.JWT_SECRET = "test-secret-key-for-testing-only";
+  process.env.BCRYPT_ROUNDS = "10";
+
+  tempDir = await fs.mkdtemp(
+    path.join(os.tmpdir(), `pta-booking-rules-${Date.now()}-${Math.random().toString(36).substring(7)}-`)
+  );
+  process.env.DATA_DIR = tempDir;
+  adminAuth = `Bearer ${(await createSession("test-admin", "admin@example.com", "admin")).token}`;
+});
+
+beforeEach(async () => {
+  memberCache.clear();
+  reservationCache.clear();
+
+  for (const file of ["reservations.json", "members.json", "subscriptions.json"]) {
+    await fs.writeFile(path.join(tempDir, file), JSON.stringify([], null, 2));
+  }
+  await fs.rm(path.join(tempDir, "booking-rules.json"), { force: true });
+});
+
+afterEach(async () => {
+  memberCache.clear();
+  reservationCache.clear();
+});
+
+afterAll(async () => {
+  for (const key of ENV_KEYS) {
+    if (originalEnv[key] !== undefined) {
+      process.env[key] = originalEnv[key];
+    } else {
+      delete process.env[key];
+    }
+  }
+
+  if (tempDir) {
+    await fs.rm(tempDir, { recursive: true, force: true }).catch(() => {});
+  }
+});
+
+async function signUp(role: "player" | "coach" = "player") {
+  const email = `${role}-${Date.now()}-${Math.random().toString(36).substring(7)}@example.com`;
+  const response = await request(app).post("/api/auth/signup").send({
+    firstName: "Sam",
+    lastName: role,
+    email,
+    phone: "401-555-0000",
+    password: "Password123",
+    role,
+  });
+  return {
+    id: response.body.member.id as string,
+    auth: `Bearer ${response.body.token}`,
+  };
+}
+
+function daysFromNow(days: number): string {
+  return format(addDays(new Date(), days), "yyyy-MM-dd");
+}
+
+function setRules(rules: Record<string, unknown>, auth = adminAuth) {
+  return request(app).put("/api/admin/booking-rules").set("Authorization", auth).send(rules);
+}
+
+function book(
+  member: { id: string; auth: string },
+  date: string,
+  start: string,
+  end: string,
+  courtId = "1"
+) {
+  return request(app)
+    .post("/api/reservations")
+    .set("Authorization", member.auth)
+    .send({ courtId, date, timeSlot: { start, end }, memberId: member.id });
+}
+
+describe("Booking rules configuration", () => {
+  it("has no limits until an admin sets them", async () => {
+    const response = await request(app).get("/api/booking-rules");
+    expect(response.status).toBe(200);
+    expect(response.body).toMatchObject({
+      maxActiveReservations: null,
+      maxHoursPerDay: null,
+      maxHoursPerWeek: null,
+      minLeadMinutes: null,
+    });
+    expect(response.body.advanceWindowDays.player).toBeNull();
+  });
+
+  it("lets only admins change the rules, and validates them", async () => {
+    const member = await signUp();
+    expect((await request(app).put("/api/admin/booking-rules").send({})).status).toBe(401);
+    expect((await setRules({ maxHoursPerDay: 2 }, member.auth)).status).toBe(403);
+
+    const invalid = await setRules({ maxActiveReservations: -1 });
+    expect(invalid.status).toBe(400);
+    expect(invalid.body.code).toBe("VALIDATION_ERROR");
+
+    const updated = await setRules({ advanceWindowDays: { guest: 2 }, maxHoursPerDay: 2 });
+    expect(updated.status).toBe(200);
+    expect(updated.body).toMatchObject({
+      maxHoursPerDay: 2,
+      updatedBy: "test-admin",
+    });
+    expect(updated.body.advanceWindowDays).toMatchObject({ guest: 2, player: null });
+
+    const partial = await setRules({ maxHoursPerWeek: 6 });
+    expect(partial.body).toMatchObject({ maxHoursPerDay: 2, maxHoursPerWeek: 6 });
+    expect((await request(app).get("/api/booking-rules")).body.maxHoursPerWeek).toBe(6);
+  });
+});
+
+describe("Booking rule enforcement", () => {
+  it("limits how far ahead each role can book", async () => {
+    await setRules({ advanceWindowDays: { player: 7, coach: 30, guest: 2 } });
+    const player = await signUp();
+    const coach = await signUp("coach");
+
+    const tooFar = await book(player, daysFromNow(10), "10:00", "11:00");
+    expect(tooFar.status).toBe(400);
+    expect(tooFar.body.error).toBe("Players can book up to 7 days ahead");
+
+    expect((await book(player, daysFromNow(5), "10:00", "11:00")).status).toBe(201);
+    expect((await book(coach, daysFromNow(10), "10:00", "11:00")).status).toBe(201);
+
+    const guest = await request(app)
+      .post("/api/reservations")
+      .send({
+        courtId: "2",
+        date: daysFromNow(3),
+        timeSlot: { start: "10:00", end: "11:00" },
+        guestName: "Guest Player",
+        guestEmail: "guest@example.com",
+        guestPhone: "401-555-0100",
+      });
+    expect(guest.status).toBe(400);
+    expect(guest.body.error).toBe("Guests can book up to 2 days ahead");
+  });
+
+  it("caps upcoming reservations and daily hours per member", async () => {
+    await setRules({ maxActiveReservations: 2, maxHoursPerDay: 2 });
+    const player = await signUp();
+
+    expect((await book(player, daysFromNow(2), "10:00", "11:30")).status).toBe(201);
+
+    const overDaily = await book(player, daysFromNow(2), "12:00", "13:00", "2");
+    expect(overDaily.status).toBe(400);
+    expect(overDaily.body.error).toContain("at most 2 hours of court time per day");
+
+    expect((await book(player, daysFromNow(3), "10:00", "11:00")).status).toBe(201);
+
+    const overActive = await book(player, daysFromNow(4), "10:00", "11:00");
+    expect(overActive.status).toBe(400);
+    expect(overActive.body.error).toContain("at most 2 upcoming reservations");
+
+    // Cancelling frees a place
+    const { body: reservations } = await request(app)
+      .get(`/api/members/${player.id}/reservations`)
+      .set("Authorization", player.auth);
+    await request(app)
+      .delete(`/api/reservations/${reservations[0].id}`)
+      .set("Authorization", player.auth);
+    expect((await book(player, daysFromNow(4), "10:00", "11:00")).status).toBe(201);
+  });
+
+  it("requires the minimum lead time", async () => {
+    await setRules({ minLeadMinutes: 120 });
+    const player = await signUp();
+
+    const past = await book(player, daysFromNow(-1), "10:00", "11:00");
+    expect(past.status).toBe(400);
+    expect(past.body.error).toBe("Bookings must start at least 120 minutes from now");
+  });
+});
+
+describe("Admin overrides", () => {
+  it("books past the rules only when overrideRules is set", async () => {
+    await setRules({ advanceWindowDays: { player: 7 }, maxActiveReservations: 1 });
+    const player = await signUp();
+    const farDate = daysFromNow(20);
+
+    const checked = await request(app)
+      .post("/api/admin/reservations")
+      .set("Authorization", adminAuth)
+      .send({
+        courtId: "1",
+        date: farDate,
+        timeSlot: { start: "10:00", end: "11:00" },
+        memberId: player.id,
+      });
+    expect(checked.status).toBe(400);
+    expect(checked.body.error).toBe("Players can book up to 7 days ahead");
+
+    const overridden = await request(app)
+      .post("/api/admin/reservations")
+      .set("Authorization", adminAuth)
+      .send({
+        courtId: "1",
+        date: farDate,
+        timeSlot: { start: "10:00", end: "11:00" },
+        memberId: player.id,
+        overrideRules: true,
+      });
+    expect(overridden.status).toBe(201);
+    expect(overridden.body.rulesOverriddenBy).toBe("test-admin");
+
+    // The overridden booking still counts toward the member's cap
+    const capped = await book(player, daysFromNow(2), "10:00", "11:00");
+    expect(capped.status).toBe(400);
+    expect(capped.body.error).toContain("at most 1 upcoming reservation");
+
+    // overrideRules is ignored on the public endpoint
+    const publicOverride = await request(app)
+      .post("/api/reservations")
+      .set("Authorization", player.auth)
+      .send({
+        courtId: "2",
+        date: farDate,
+        timeSlot: { start: "10:00", end: "11:00" },
+        memberId: player.id,
+        overrideRules: true,
+      });
+    expect(publicOverride.status).toBe(400);
+  });
+});
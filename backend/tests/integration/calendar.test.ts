@@ -0,0 +1,226 @@
+/**
+ * Integration tests for calendar feeds
+ * Tests feed URLs and tokens, member, coach and court feeds, calendar
+ * invites on booking emails, and moves and cancellations keeping their UID
+ */
+
+import { describe, it, expect, beforeAll, beforeEach, afterEach, afterAll } from "vitest";
+import request from "supertest";
+import path from "path";
+import { promises as fs } from "fs";
+import os from "os";
+import app from "../../src/app";
+import { createSession } from "../../src/lib/auth/session-manager";
+import { memberRepository } from "../../src/lib/repositories/file-member-repository";
+import { memberCache } from "../../src/lib/cache/member-cache";
+import { reservationCache } from "../../src/lib/cache/reservation-cache";
+
+let tempDir = "";
+let adminAuth = "";
+const originalEnv: Record<string, string | undefined> = {};
+const ENV_KEYS = ["DATA_DIR", "JWT_SECRET", "CLUB_TIMEZONE", "PUBLIC_API_URL"];
+
+beforeAll(async () => {
+  for (const key of ENV_KEYS) {
+    originalEnv[key] = process.env[key];
+  }
+
+  process.env.JWT_SECRET = "test-secret-key-for-testing-only";
+  process.env.BCRYPT_ROUNDS = "10";
+  process.env.CLUB_TIMEZONE = "America/New_York";
+  process.env.PUBLIC_API_URL = "https://api.example.com";
+
+  tempDir = await fs.mkdtemp(
+    path.join(os.tmpdir(), `pta-calendar-${Date.now()}-${Math.random().toString(36).substring(7)}-`)
+  );
+  process.env.DATA_DIR = tempDir;
+  adminAuth = `Bearer ${(await createSession("test-admin", "admin@example.com", "admin")).token}`;
+});
+
+beforeEach(async () => {
+  memberCache.clear();
+  reservationCache.clear();
+
+  for (const file of ["reservations.json", "members.json", "closures.json", "email-outbox.json"]) {
+    await fs.writeFile(path.join(tempDir, file), JSON.stringify([], null, 2));
+  }
+});
+
+afterEach(async () => {
+  memberCache.clear();
+  reservationCache.clear();
+});
+
+afterAll(async () => {
+  for (const key of ENV_KEYS) {
+    if (originalEnv[key] !== undefined) {
+      process.env[key] = originalEnv[key];
+    } else {
+      delete process.env[key];
+    }
+  }
+
+  if (tempDir) {
+    await fs.rm(tempDir, { recursive: true, force: true }).catch(() => {});
+  }
+});
+
+async function signUp(role: "player" | "coach" = "player") {
+  const email = `${role}-${Date.now()}-${Math.random().toString(36).substring(7)}@example.com`;
+  const response = await request(app).post("/api/auth/signup").send({
+    firstName: role === "coach" ? "Casey" : "Sam",
+    lastName: role === "coach" ? "Coach" : "Player",
+    email,
+    phone: "401-555-0000",
+    password: "Password123",
+  });
+  const id = response.body.member.id as string;
+
+  if (role === "player") {
+    return { id, email, auth: `Bearer ${response.body.token}` };
+  }
+
+  await memberRepository.update(id, { role: "coach" });
+  memberCache.clear();
+  return { id, email, auth: `Bearer ${(await createSession(id, email, "coach")).token}` };
+}
+
+async function getFeeds(auth: string) {
+  const response = await request(app).get("/api/members/me/calendar").set("Authorization", auth);
+  expect(response.status).toBe(200);
+  return response.body;
+}
+
+/**
+ * Fetch a feed by the URL handed to the member
+ */
+function fetchFeed(url: string) {
+  return request(app).get(url.replace("https://api.example.com", ""));
+}
+
+/**
+ * Join folded lines back up so long values can be matched
+ */
+function unfold(calendar: string): string {
+  return calendar.replace(/\r\n /g, "");
+}
+
+async function readOutbox(): Promise<any[]> {
+  return JSON.parse(await fs.readFile(path.join(tempDir, "email-outbox.json"), "utf-8"));
+}
+
+describe("Calendar feed URLs", () => {
+  it("issues a feed per role and revokes old URLs on reset", async () => {
+    expect((await request(app).get("/api/members/me/calendar")).status).toBe(401);
+
+    const player = await signUp();
+    const feeds = await getFeeds(player.auth);
+    expect(feeds.bookings).toMatch(/^https:\/\/api\.example\.com\/api\/calendar\/[\w-]+\/bookings\.ics$/);
+    expect(feeds.coaching).toBeUndefined();
+    expect(feeds.courts).toBeUndefined();
+    expect((await getFeeds(player.auth)).bookings).toBe(feeds.bookings);
+
+    const feed = await fetchFeed(feeds.bookings);
+    expect(feed.status).toBe(200);
+    expect(feed.headers["content-type"]).toContain("text/calendar");
+    expect(feed.text).toContain("BEGIN:VCALENDAR");
+
+    const reset = await request(app)
+      .post("/api/members/me/calendar/reset")
+      .set("Authorization", player.auth);
+    expect(reset.status).toBe(200);
+    expect(reset.body.bookings).not.toBe(feeds.bookings);
+    expect((await fetchFeed(feeds.bookings)).status).toBe(404);
+    expect((await fetchFeed(reset.body.bookings)).status).toBe(200);
+
+    // Only staff get the coaching and court feeds
+    const token = reset.body.bookings.split("/")[5];
+    expect((await request(app).get(`/api/calendar/${token}/coaching.ics`)).status).toBe(403);
+    expect((await request(app).get(`/api/calendar/${token}/courts/1.ics`)).status).toBe(403);
+
+    const coach = await signUp("coach");
+    const coachFeeds = await getFeeds(coach.auth);
+    expect(coachFeeds.coaching).toMatch(/\/coaching\.ics$/);
+    expect(coachFeeds.courts.length).toBeGreaterThan(0);
+    expect(coachFeeds.courts[0].url).toMatch(/\/courts\/1\.ics$/);
+    expect((await fetchFeed(coachFeeds.coaching)).status).toBe(200);
+    expect((await fetchFeed(coachFeeds.courts[0].url)).status).toBe(200);
+    expect(
+      (await fetchFeed(coachFeeds.courts[0].url.replace("/courts/1.ics", "/courts/99.ics"))).status
+    ).toBe(404);
+  });
+});
+
+describe("Booking events", () => {
+  it("keeps the event UID through moves and cancellation", async () => {
+    const player = await signUp();
+    const coach = await signUp("coach");
+    const feeds = await getFeeds(player.auth);
+    const courtFeed = (await getFeeds(coach.auth)).courts.find((c: any) => c.courtId === "2").url;
+
+    const booked = await request(app)
+      .post("/api/reservations")
+      .set("Authorization", adminAuth)
+      .send({
+        courtId: "1",
+        date: "2027-11-16",
+        timeSlot: { start: "10:00", end: "11:00" },
+        memberId: player.id,
+      });
+    expect(booked.status).toBe(201);
+    const uid = `UID:reservation-${booked.body.id}@providencetennis.com`;
+
+    let feed = (await fetchFeed(feeds.bookings)).text;
+    expect(feed).toContain(uid);
+    expect(feed).toContain("DTSTART:20271116T150000Z");
+    expect(feed).toContain("SEQUENCE:0");
+
+    // The confirmation email carries an invite for the same event
+    const [confirmation] = await readOutbox();
+    expect(confirmation.template).toBe("booking_confirmation");
+    expect(confirmation.attachments[0]).toMatchObject({ filename: "booking.ics" });
+    expect(confirmation.attachments[0].contentType).toContain("method=REQUEST");
+    expect(confirmation.attachments[0].content).toContain(uid);
+    expect(unfold(confirmation.attachments[0].content)).toContain(`mailto:${player.email}`);
+
+    const moved = await request(app)
+      .patch(`/api/admin/reservations/${booked.body.id}`)
+      .set("Authorization", adminAuth)
+      .send({ courtId: "2", timeSlot: { start: "12:00", end: "13:00" } });
+    expect(moved.status).toBe(200);
+    expect(moved.body.sequence).toBe(1);
+
+    feed = (await fetchFeed(feeds.bookings)).text;
+    expect(feed).toContain(uid);
+    expect(feed).toContain("DTSTART:20271116T170000Z");
+    expect(feed).toContain("SEQUENCE:1");
+    expect((await fetchFeed(courtFeed)).text).toContain(uid);
+
+    const change = (await readOutbox()).find((m) => m.template === "booking_change");
+    expect(change.to).toBe(player.email);
+    expect(change.attachments[0].content).toContain("SEQUENCE:1");
+
+    // Notes don't change the event's revision
+    await request(app)
+      .patch(`/api/admin/reservations/${booked.body.id}`)
+      .set("Authorization", adminAuth)
+      .send({ notes: "Bring water" });
+    expect((await fetchFeed(feeds.bookings)).text).toContain("SEQUENCE:1");
+
+    const cancelled = await request(app)
+      .patch(`/api/admin/reservations/${booked.body.id}`)
+      .set("Authorization", adminAuth)
+      .send({ status: "cancelled" });
+    expect(cancelled.status).toBe(200);
+
+    feed = (await fetchFeed(feeds.bookings)).text;
+    expect(feed).toContain(uid);
+    expect(feed).toContain("STATUS:CANCELLED");
+    expect(feed).toContain("SEQUENCE:2");
+
+    const cancellation = (await readOutbox()).find((m) => m.template === "booking_cancellation");
+    expect(cancellation.attachments[0]).toMatchObject({ filename: "cancelled.ics" });
+    expect(cancellation.attachments[0].content).toContain("METHOD:CANCEL");
+    expect(cancellation.attachments[0].content).toContain("SEQUENCE:2");
+  });
+});
@@ -0,0 +1,288 @@
+/**
+ * Integration tests for the cancellation policy and member penalties
+ * Tests policy configuration, late-cancellation penalties, booking
+ * suspensions, rolling decay and admin waivers
+ */
+
+import { describe, it, expect, beforeAll, beforeEach, afterEach, afterAll } from "vitest";
+import request from "supertest";
+import path from "path";
+import { promises as fs } from "fs";
+import os from "os";
+import { addDays, format, subDays } from "date-fns";
+import app from "../../src/app";
+import { createSession } from "../../src/lib/auth/session-manager";
+import { memberCache } from "../../src/lib/cache/member-cache";
+import { reservationCache } from "../../src/lib/cache/reservation-cache";
+
+let tempDir = "";
+let adminAuth = "";
+const originalEnv: Record<string, string | undefined> = {};
+const ENV_KEYS = ["DATA_DIR", "JWT_SECRET"];
+
+beforeAll(async () => {
+  for (const key of ENV_KEYS) {
+    originalEnv[key] = process.env[key];
+  }
+
+  process.env.JWT_SECRET = "test-secret-key-for-testing-only";
+  process.env.BCRYPT_ROUNDS = "10";
+
+  tempDir = await fs.mkdtemp(
+    path.join(os.tmpdir(), `pta-cancellation-${Date.now()}-${Math.random().toString(36).substring(7)}-`)
+  );
+  process.env.DATA_DIR = tempDir;
+  adminAuth = `Bearer ${(await createSession("test-admin", "admin@example.com", "admin")).token}`;
+});
+
+beforeEach(async () => {
+  memberCache.clear();
+  reservationCache.clear();
+
+  for (const file of ["reservations.json", "members.json", "penalties.json"]) {
+    await fs.writeFile(path.join(tempDir, file), JSON.stringify([], null, 2));
+  }
+  await fs.rm(path.join(tempDir, "cancellation-policy.json"), { force: true });
+});
+
+afterEach(async () => {
+  memberCache.clear();
+  reservationCache.clear();
+});
+
+afterAll(async () => {
+  for (const key of ENV_KEYS) {
+    if (originalEnv[key] !== undefined) {
+      process.env[key] = originalEnv[key];
+    } else {
+      delete process.env[key];
+    }
+  }
+
+  if (tempDir) {
+    await fs.rm(tempDir, { recursive: true, force: true }).catch(() => {});
+  }
+});
+
+async function signUp() {
+  const email = `player-${Date.now()}-${Math.random().toString(36).substring(7)}@example.com`;
+  const response = await request(app).post("/api/auth/signup").send({
+    firstName: "Sam",
+    lastName: "Player",
+    email,
+    phone: "401-555-0000",
+    password: "Password123",
+  });
+  return {
+    id: response.body.member.id as string,
+    auth: `Bearer ${response.body.token}`,
+  };
+}
+
+function daysFromNow(days: number): string {
+  return format(addDays(new Date(), days), "yyyy-MM-dd");
+}
+
+function setPolicy(policy: Record<string, unknown>, auth = adminAuth) {
+  return request(app).put("/api/admin/cancellation-policy").set("Authorization", auth).send(policy);
+}
+
+function getPenalties(member: { id: string }, auth: string) {
+  return request(app).get(`/api/members/${member.id}/penalties`).set("Authorization", auth);
+}
+
+async function bookAndCancel(member: { id: string; auth: string }, days: number, start = "10:00") {
+  const [hours, minutes] = start.split(":").map(Number);
+  const end = `${String(hours + 1).padStart(2, "0")}:${String(minutes).padStart(2, "0")}`;
+  const booked = await request(app)
+    .post("/api/reservations")
+    .set("Authorization", member.auth)
+    .send({ courtId: "1", date: daysFromNow(days), timeSlot: { start, end }, memberId: member.id });
+  expect(booked.status).toBe(201);
+
+  const cancelled = await request(app)
+    .delete(`/api/reservations/${booked.body.id}`)
+    .set("Authorization", member.auth);
+  expect(cancelled.status).toBe(200);
+  return booked.body.id as string;
+}
+
+describe("Cancellation policy configuration", () => {
+  it("publishes the default tiers and lets admins change them", async () => {
+    const defaults = await request(app).get("/api/cancellation-policy");
+    expect(defaults.status).toBe(200);
+    expect(defaults.body).toMatchObject({
+      refundTiers: [
+        { minHoursBefore: 24, refundPercent: 100 },
+        { minHoursBefore: 12, refundPercent: 50 },
+      ],
+      lateCancellationHours: 24,
+      penaltyThreshold: 3,
+    });
+
+    const member = await signUp();
+    expect((await setPolicy({ penaltyThreshold: 2 }, member.auth)).status).toBe(403);
+
+    const invalid = await setPolicy({ refundTiers: [{ minHoursBefore: 6, refundPercent: 150 }] });
+    expect(invalid.status).toBe(400);
+
+    const updated = await setPolicy({
+      refundTiers: [{ minHoursBefore: 48, refundPercent: 100 }],
+      restrictionDays: 3,
+    });
+    expect(updated.status).toBe(200);
+    expect(updated.body).toMatchObject({
+      refundTiers: [{ minHoursBefore: 48, refundPercent: 100 }],
+      restrictionDays: 3,
+      lateCancellationHours: 24,
+      updatedBy: "test-admin",
+    });
+  });
+});
+
+describe("Penalties", () => {
+  it("only penalizes late cancellations", async () => {
+    const member = await signUp();
+
+    await bookAndCancel(member, 5);
+    const early = await getPenalties(member, member.auth);
+    expect(early.status).toBe(200);
+    expect(early.body).toMatchObject({ penalties: [], activeCount: 0, restrictedUntil: null });
+
+    // Anything under a week's notice is late under this policy
+    await setPolicy({ lateCancellationHours: 24 * 7 });
+    const reservationId = await bookAndCancel(member, 5);
+
+    const late = await getPenalties(member, member.auth);
+    expect(late.body.activeCount).toBe(1);
+    expect(late.body.penalties[0]).toMatchObject({
+      kind: "late_cancellation",
+      reservationId,
+      reservationDate: daysFromNow(5),
+    });
+
+    const profile = await request(app)
+      .get(`/api/members/${member.id}`)
+      .set("Authorization", adminAuth);
+    expect(profile.body.penaltyCancellations).toBe(1);
+  });
+
+  it("does not cancel or penalize a reservation twice", async () => {
+    await setPolicy({ lateCancellationHours: 24 * 7 });
+    const member = await signUp();
+    const reservationId = await bookAndCancel(member, 5);
+
+    const again = await request(app)
+      .delete(`/api/reservations/${reservationId}`)
+      .set("Authorization", member.auth);
+    expect(again.status).toBe(400);
+    expect(again.body.error).toBe("Reservation is already cancelled");
+
+    const penalties = await getPenalties(member, member.auth);
+    expect(penalties.body.activeCount).toBe(1);
+  });
+
+  it("suspends booking at the threshold until an admin waives a penalty", async () => {
+    await setPolicy({ lateCancellationHours: 24 * 7, penaltyThreshold: 2, restrictionDays: 10 });
+    const member = await signUp();
+
+    await bookAndCancel(member, 3);
+    await bookAndCancel(member, 4);
+
+    const status = await getPenalties(member, member.auth);
+    expect(status.body.activeCount).toBe(2);
+    expect(status.body.restrictedUntil).toBeTruthy();
+
+    const blocked = await request(app)
+      .post("/api/reservations")
+      .set("Authorization", member.auth)
+      .send({
+        courtId: "2",
+        date: daysFromNow(2),
+        timeSlot: { start: "10:00", end: "11:00" },
+        memberId: member.id,
+      });
+    expect(blocked.status).toBe(400);
+    expect(blocked.body.error).toContain("Booking is suspended until");
+
+    // Admin bookings can still override the suspension
+    const overridden = await request(app)
+      .post("/api/admin/reservations")
+      .set("Authorization", adminAuth)
+      .send({
+        courtId: "2",
+        date: daysFromNow(2),
+        timeSlot: { start: "10:00", end: "11:00" },
+        memberId: member.id,
+        overrideRules: true,
+      });
+    expect(overridden.status).toBe(201);
+
+    const penaltyId = status.body.penalties[0].id;
+    expect(
+      (await request(app).post(`/api/admin/penalties/${penaltyId}/waive`).set("Authorization", member.auth))
+        .status
+    ).toBe(403);
+
+    const waived = await request(app)
+      .post(`/api/admin/penalties/${penaltyId}/waive`)
+      .set("Authorization", adminAuth)
+      .send({ reason: "Court was flooded" });
+    expect(waived.status).toBe(200);
+    expect(waived.body).toMatchObject({ waivedBy: "test-admin", waiveReason: "Court was flooded" });
+
+    const lifted = await getPenalties(member, member.auth);
+    expect(lifted.body).toMatchObject({ activeCount: 1, restrictedUntil: null });
+
+    const rebooked = await request(app)
+      .post("/api/reservations")
+      .set("Authorization", member.auth)
+      .send({
+        courtId: "3",
+        date: daysFromNow(2),
+        timeSlot: { start: "10:00", end: "11:00" },
+        memberId: member.id,
+      });
+    expect(rebooked.status).toBe(201);
+
+    const again = await request(app)
+      .post(`/api/admin/penalties/${penaltyId}/waive`)
+      .set("Authorization", adminAuth);
+    expect(again.status).toBe(400);
+
+    const missing = await request(app)
+      .post("/api/admin/penalties/penalty-missing/waive")
+      .set("Authorization", adminAuth);
+    expect(missing.status).toBe(404);
+  });
+
+  it("stops counting penalties once they leave the rolling window", async () => {
+    const member = await signUp();
+    const old = (days: number) => ({
+      id: `penalty-old-${days}`,
+      memberId: member.id,
+      reservationId: `reservation-old-${days}`,
+      kind: "no_show",
+      reservationDate: format(subDays(new Date(), days), "yyyy-MM-dd"),
+      reservationStart: "10:00",
+      createdAt: subDays(new Date(), days).toISOString(),
+    });
+    await fs.writeFile(
+      path.join(tempDir, "penalties.json"),
+      JSON.stringify([old(120), old(100), old(95), old(10)], null, 2)
+    );
+
+    const status = await getPenalties(member, member.auth);
+    expect(status.body.penalties).toHaveLength(4);
+    expect(status.body).toMatchObject({ activeCount: 1, threshold: 3, restrictedUntil: null });
+  });
+
+  it("keeps penalties private to the member, their parents and admins", async () => {
+    const member = await signUp();
+    const stranger = await signUp();
+
+    expect((await getPenalties(member, stranger.auth)).status).toBe(403);
+    expect((await getPenalties(member, adminAuth)).status).toBe(200);
+    expect((await getPenalties({ id: "member-missing" }, adminAuth)).status).toBe(404);
+  });
+});
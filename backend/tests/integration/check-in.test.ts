@@ -0,0 +1,331 @@
+/**
+ * Integration tests for reservation check-in and no-shows
+ * Tests front-desk lookup by member number, QR code check-in, the
+ * no-show sweep (penalties and releasing the court) and admin status changes
+ */
+
+import { describe, it, expect, beforeAll, beforeEach, afterEach, afterAll, vi } from "vitest";
+import request from "supertest";
+import path from "path";
+import { promises as fs } from "fs";
+import os from "os";
+import app from "../../src/app";
+import { createSession } from "../../src/lib/auth/session-manager";
+import { processAttendance } from "../../src/lib/check-in";
+import { memberCache } from "../../src/lib/cache/member-cache";
+import { reservationCache } from "../../src/lib/cache/reservation-cache";
+import { reservationRepository } from "../../src/lib/repositories";
+
+// Check-in depends on the clock, so every test runs on the same morning
+const DATE = "2026-06-01";
+const at = (time: string) => new Date(`${DATE}T${time}:00`);
+
+let tempDir = "";
+let adminAuth = "";
+const originalEnv: Record<string, string | undefined> = {};
+const ENV_KEYS = ["DATA_DIR", "JWT_SECRET", "NO_SHOW_GRACE_MINUTES"];
+
+beforeAll(async () => {
+  for (const key of ENV_KEYS) {
+    originalEnv[key] = process.env[key];
+  }
+
+  process.env.JWT_SECRET = "test-secret-key-for-testing-only";
+  process.env.BCRYPT_ROUNDS = "10";
+  delete process.env.NO_SHOW_GRACE_MINUTES;
+
+  tempDir = await fs.mkdtemp(
+    path.join(os.tmpdir(), `pta-check-in-${Date.now()}-${Math.random().toString(36).substring(7)}-`)
+  );
+  process.env.DATA_DIR = tempDir;
+  adminAuth = `Bearer ${(await createSession("test-admin", "admin@example.com", "admin")).token}`;
+});
+
+beforeEach(async () => {
+  // The clock keeps ticking: member and reservation IDs come from Date.now()
+  vi.useFakeTimers({
+    toFake: ["Date"],
+    now: at("09:50"),
+    shouldAdvanceTime: true,
+    advanceTimeDelta: 1,
+  });
+  memberCache.clear();
+  reservationCache.clear();
+
+  for (const file of ["reservations.json", "members.json", "penalties.json"]) {
+    await fs.writeFile(path.join(tempDir, file), JSON.stringify([], null, 2));
+  }
+});
+
+afterEach(async () => {
+  vi.useRealTimers();
+  memberCache.clear();
+  reservationCache.clear();
+});
+
+afterAll(async () => {
+  for (const key of ENV_KEYS) {
+    if (originalEnv[key] !== undefined) {
+      process.env[key] = originalEnv[key];
+    } else {
+      delete process.env[key];
+    }
+  }
+
+  if (tempDir) {
+    await fs.rm(tempDir, { recursive: true, force: true }).catch(() => {});
+  }
+});
+
+async function signUp() {
+  const email = `player-${Date.now()}-${Math.random().toString(36).substring(7)}@example.com`;
+  const response = await request(app).post("/api/auth/signup").send({
+    firstName: "Sam",
+    lastName: "Player",
+    email,
+    phone: "401-555-0000",
+    password: "Password123",
+  });
+  return {
+    id: response.body.member.id as string,
+    memberNumber: response.body.member.memberNumber as string,
+    auth: `Bearer ${response.body.token}`,
+  };
+}
+
+async function book(
+  member: { id: string; auth: string },
+  start: string,
+  end: string,
+  options: { courtId?: string; date?: string } = {}
+) {
+  const response = await request(app)
+    .post("/api/reservations")
+    .set("Authorization", member.auth)
+    .send({
+      courtId: options.courtId || "1",
+      date: options.date || DATE,
+      timeSlot: { start, end },
+      memberId: member.id,
+    });
+  expect(response.status).toBe(201);
+  return response.body.id as string;
+}
+
+describe("Front desk check-in", () => {
+  it("looks members up by member number and checks them in", async () => {
+    const member = await signUp();
+    const today = await book(member, "10:00", "11:00");
+    await book(member, "10:00", "11:00", { date: "2026-06-02" });
+
+    const lookup = await request(app)
+      .get(`/api/admin/check-in?memberNumber=${member.memberNumber}`)
+      .set("Authorization", adminAuth);
+    expect(lookup.status).toBe(200);
+    expect(lookup.body.member).toMatchObject({ id: member.id, memberNumber: member.memberNumber });
+    expect(lookup.body.reservations.map((r: { id: string }) => r.id)).toEqual([today]);
+
+    expect(
+      (
+        await request(app)
+          .get(`/api/admin/check-in?memberNumber=${member.memberNumber}`)
+          .set("Authorization", member.auth)
+      ).status
+    ).toBe(403);
+    expect(
+      (await request(app).get("/api/admin/check-in?memberNumber=MEM-9999").set("Authorization", adminAuth))
+        .status
+    ).toBe(404);
+
+    const checkedIn = await request(app)
+      .post(`/api/admin/reservations/${today}/check-in`)
+      .set("Authorization", adminAuth);
+    expect(checkedIn.status).toBe(200);
+    expect(checkedIn.body).toMatchObject({
+      status: "checked_in",
+      checkInMethod: "front_desk",
+      checkedInBy: "test-admin",
+    });
+
+    const again = await request(app)
+      .post(`/api/admin/reservations/${today}/check-in`)
+      .set("Authorization", adminAuth);
+    expect(again.status).toBe(400);
+    expect(again.body.error).toContain("already checked in");
+  });
+});
+
+describe("QR code check-in", () => {
+  it("checks in with the signed code from the member's booking", async () => {
+    const member = await signUp();
+    const stranger = await signUp();
+    const reservationId = await book(member, "10:00", "11:00");
+
+    expect(
+      (
+        await request(app)
+          .get(`/api/reservations/${reservationId}/check-in-code`)
+          .set("Authorization", stranger.auth)
+      ).status
+    ).toBe(403);
+
+    const code = await request(app)
+      .get(`/api/reservations/${reservationId}/check-in-code`)
+      .set("Authorization", member.auth);
+    expect(code.status).toBe(200);
+    expect(code.body.code).toMatch(new RegExp(`^${reservationId}\\.`));
+    expect(code.body.qrCode).toMatch(/^data:image\/svg\+xml;base64,/);
+
+    // The code is never part of the reservation itself
+    const reservation = await request(app).get(`/api/reservations/${reservationId}`);
+    expect(JSON.stringify(reservation.body)).not.toContain(code.body.code.split(".")[1]);
+
+    const forged = await request(app)
+      .post("/api/check-in")
+      .send({ code: `${reservationId}.not-the-signature` });
+    expect(forged.status).toBe(400);
+    expect(forged.body.error).toBe("Invalid check-in code");
+
+    const checkedIn = await request(app).post("/api/check-in").send({ code: code.body.code });
+    expect(checkedIn.status).toBe(200);
+    expect(checkedIn.body).toMatchObject({ status: "checked_in", checkInMethod: "qr" });
+  });
+
+  it("only opens check-in shortly before the reservation", async () => {
+    const member = await signUp();
+    const reservationId = await book(member, "12:00", "13:00");
+
+    const code = await request(app)
+      .get(`/api/reservations/${reservationId}/check-in-code`)
+      .set("Authorization", member.auth);
+    const early = await request(app).post("/api/check-in").send({ code: code.body.code });
+    expect(early.status).toBe(400);
+    expect(early.body.error).toContain("Check-in opens 30 minutes before");
+  });
+});
+
+describe("No-shows", () => {
+  it("marks no-shows after the grace period, penalizes them and frees the court", async () => {
+    const absent = await signUp();
+    const present = await signUp();
+    const missed = await book(absent, "10:00", "11:00");
+    const played = await book(present, "10:00", "11:00", { courtId: "2" });
+    await request(app).post(`/api/admin/reservations/${played}/check-in`).set("Authorization", adminAuth);
+
+    expect(await processAttendance(at("10:14"))).toEqual({ noShows: [], completed: [], failed: [] });
+    expect(await processAttendance(at("10:15"))).toEqual({ noShows: [missed], completed: [], failed: [] });
+
+    const reservation = await request(app).get(`/api/reservations/${missed}`);
+    expect(reservation.body).toMatchObject({ status: "no_show" });
+
+    const penalties = await request(app)
+      .get(`/api/members/${absent.id}/penalties`)
+      .set("Authorization", absent.auth);
+    expect(penalties.body.activeCount).toBe(1);
+    expect(penalties.body.penalties[0]).toMatchObject({ kind: "no_show", reservationId: missed });
+
+    const availability = await request(app).get(`/api/availability?date=${DATE}`);
+    const court = availability.body.availability.find((c: { courtId: string }) => c.courtId === "1");
+    expect(court.slots.find((s: { start: string }) => s.start === "10:00").available).toBe(true);
+
+    // A walk-in takes the freed court
+    vi.setSystemTime(at("10:20"));
+    const walkIn = await request(app)
+      .post("/api/admin/reservations")
+      .set("Authorization", adminAuth)
+      .send({
+        courtId: "1",
+        date: DATE,
+        timeSlot: { start: "10:00", end: "11:00" },
+        guestName: "Walk In",
+        guestEmail: "walkin@example.com",
+        guestPhone: "401-555-0101",
+      });
+    expect(walkIn.status).toBe(201);
+
+    expect(await processAttendance(at("11:00"))).toEqual({ noShows: [], completed: [played], failed: [] });
+  });
+
+  it("keeps going when one reservation fails and reports it", async () => {
+    const first = await signUp();
+    const second = await signUp();
+    const broken = await book(first, "10:00", "11:00");
+    const missed = await book(second, "10:00", "11:00", { courtId: "2" });
+
+    const update = reservationRepository.update.bind(reservationRepository);
+    const spy = vi
+      .spyOn(reservationRepository, "update")
+      .mockImplementation(async (id, updates) => {
+        if (id === broken) throw new Error("disk full");
+        return update(id, updates);
+      });
+    const consoleError = vi.spyOn(console, "error").mockImplementation(() => {});
+
+    try {
+      expect(await processAttendance(at("10:15"))).toEqual({
+        noShows: [missed],
+        completed: [],
+        failed: [broken],
+      });
+      expect(consoleError).toHaveBeenCalled();
+    } finally {
+      spy.mockRestore();
+      consoleError.mockRestore();
+    }
+
+    // The next run picks up the one that failed
+    expect(await processAttendance(at("10:16"))).toEqual({ noShows: [broken], completed: [], failed: [] });
+  });
+
+  it("leaves earlier days alone", async () => {
+    const member = await signUp();
+    await book(member, "10:00", "11:00", { date: "2026-05-31" });
+
+    expect(await processAttendance(at("12:00"))).toEqual({ noShows: [], completed: [], failed: [] });
+  });
+});
+
+describe("Admin status changes", () => {
+  it("lets admins record attendance through the reservation status", async () => {
+    const member = await signUp();
+    const later = await book(member, "18:00", "19:00");
+    const missed = await book(member, "10:00", "11:00", { courtId: "2" });
+
+    // Staff can check someone in outside the check-in window
+    const checkedIn = await request(app)
+      .patch(`/api/admin/reservations/${later}`)
+      .set("Authorization", adminAuth)
+      .send({ status: "checked_in" });
+    expect(checkedIn.status).toBe(200);
+    expect(checkedIn.body.status).toBe("checked_in");
+
+    const completed = await request(app)
+      .patch(`/api/admin/reservations/${later}`)
+      .set("Authorization", adminAuth)
+      .send({ status: "completed" });
+    expect(completed.body.status).toBe("completed");
+
+    const noShow = await request(app)
+      .patch(`/api/admin/reservations/${missed}`)
+      .set("Authorization", adminAuth)
+      .send({ status: "no_show" });
+    expect(noShow.status).toBe(200);
+    expect(noShow.body.status).toBe("no_show");
+
+    const profile = await request(app).get(`/api/members/${member.id}`).set("Authorization", adminAuth);
+    expect(profile.body.penaltyCancellations).toBe(1);
+
+    const invalid = await request(app)
+      .patch(`/api/admin/reservations/${missed}`)
+      .set("Authorization", adminAuth)
+      .send({ status: "checked_in" });
+    expect(invalid.status).toBe(400);
+    expect(invalid.body.error).toContain("no-show");
+
+    const unknown = await request(app)
+      .patch(`/api/admin/reservations/${missed}`)
+      .set("Authorization", adminAuth)
+      .send({ status: "played" });
+    expect(unknown.status).toBe(400);
+  });
+});
@@ -0,0 +1,235 @@
+/**
+ * Integration tests for court maintenance and closure windows
+ * Tests admin closure endpoints, availability blocking and affected-booking reports
+ */
+
+import { describe, it, expect, beforeAll, beforeEach, afterEach, afterAll } from "vitest";
+import request from "supertest";
+import path from "path";
+import { promises as fs } from "fs";
+import os from "os";
+import app from "../../src/app";
+import { memberCache } from "../../src/lib/cache/member-cache";
+import { reservationCache } from "../../src/lib/cache/reservation-cache";
+
+let tempDir = "";
+let originalDataDir: string | undefined;
+let originalJwtSecret: string | undefined;
+let adminToken = "";
+
+const guest = {
+  customerName: "Closure Tester",
+  customerEmail: "closure-tester@example.com",
+  customerPhone: "401-555-0103",
+};
+
+beforeAll(async () => {
+  originalDataDir = process.env.DATA_DIR;
+  originalJwtSecret = process.env.JWT_SECRET;
+
+  process.env.JWT_SECRET = "test-secret-key-for-testing-only";
+  process.env.BCRYPT_ROUNDS = "10";
+
+  tempDir = await fs.mkdtemp(
+    path.join(os.tmpdir(), `pta-closures-${Date.now()}-${Math.random().toString(36).substring(7)}-`)
+  );
+  process.env.DATA_DIR = tempDir;
+});
+
+beforeEach(async () => {
+  memberCache.clear();
+  reservationCache.clear();
+
+  // Reset closures, reservations and members for each test
+  await fs.writeFile(path.join(tempDir, "closures.json"), JSON.stringify([], null, 2));
+  await fs.writeFile(path.join(tempDir, "reservations.json"), JSON.stringify([], null, 2));
+  await fs.writeFile(path.join(tempDir, "members.json"), JSON.stringify([], null, 2));
+
+  adminToken = await getToken("admin");
+});
+
+afterEach(async () => {
+  memberCache.clear();
+  reservationCache.clear();
+});
+
+afterAll(async () => {
+  if (originalDataDir !== undefined) {
+    process.env.DATA_DIR = originalDataDir;
+  } else {
+    delete process.env.DATA_DIR;
+  }
+
+  if (originalJwtSecret !== undefined) {
+    process.env.JWT_SECRET = originalJwtSecret;
+  } else {
+    delete process.env.JWT_SECRET;
+  }
+
+  if (tempDir) {
+    await fs.rm(tempDir, { recursive: true, force: true }).catch(() => {});
+  }
+});
+
+async function getToken(role: string): Promise<string> {
+  const email = `${role}-${Date.now()}-${Math.random().toString(36).substring(7)}@example.com`;
+  const response = await request(app).post("/api/auth/signup").send({
+    firstName: "Closure",
+    lastName: "Admin",
+    email,
+    phone: "401-555-0000",
+    password: "Password123",
+    role,
+  });
+  return response.body.token;
+}
+
+describe("Court Closure Integration Tests", () => {
+  it("should block availability and bookings for an all-day closure", async () => {
+    const created = await request(app)
+      .post("/api/admin/closures")
+      .set("Authorization", `Bearer ${adminToken}`)
+      .send({
+        courtId: "3",
+        startDate: "2027-06-01",
+        endDate: "2027-06-03",
+        kind: "maintenance",
+        reason: "Resurfacing",
+      });
+
+    expect(created.status).toBe(201);
+    expect(created.body.closure).toMatchObject({
+      courtId: "3",
+      startDate: "2027-06-01",
+      endDate: "2027-06-03",
+      kind: "maintenance",
+    });
+    expect(created.body.affectedReservations).toEqual([]);
+
+    const availability = await request(app).get("/api/availability?date=2027-06-02");
+    const court3 = availability.body.availability.find((c: any) => c.courtId === "3");
+    expect(court3.slots.every((s: any) => !s.available)).toBe(true);
+    expect(court3.closures).toEqual([
+      { start: "08:00", end: "21:00", kind: "maintenance", reason: "Resurfacing" },
+    ]);
+
+    const court4 = availability.body.availability.find((c: any) => c.courtId === "4");
+    expect(court4.slots.every((s: any) => s.available)).toBe(true);
+
+    const booking = await request(app)
+      .post("/api/reservations")
+      .send({ courtId: "3", date: "2027-06-03", timeSlot: { start: "10:00", end: "11:00" }, ...guest });
+    expect(booking.status).toBe(409);
+    expect(booking.body.error).toContain("Resurfacing");
+
+    const afterClosure = await request(app)
+      .post("/api/reservations")
+      .send({ courtId: "3", date: "2027-06-04", timeSlot: { start: "10:00", end: "11:00" }, ...guest });
+    expect(afterClosure.status).toBe(201);
+  });
+
+  it("should only block the closed hours of a partial-day closure", async () => {
+    await request(app)
+      .post("/api/admin/closures")
+      .set("Authorization", `Bearer ${adminToken}`)
+      .send({
+        courtId: "1",
+        startDate: "2027-06-10",
+        startTime: "14:00",
+        endTime: "16:00",
+        kind: "weather",
+        reason: "Rain",
+      });
+
+    const availability = await request(app).get("/api/availability?date=2027-06-10");
+    const court1 = availability.body.availability.find((c: any) => c.courtId === "1");
+    const closedStarts = court1.slots.filter((s: any) => !s.available).map((s: any) => s.start);
+    expect(closedStarts).toEqual(["14:00", "15:00"]);
+  });
+
+  it("should report existing reservations affected by a new closure", async () => {
+    const inside = await request(app)
+      .post("/api/reservations")
+      .send({ courtId: "2", date: "2027-06-20", timeSlot: { start: "10:00", end: "11:00" }, ...guest });
+    const outside = await request(app)
+      .post("/api/reservations")
+      .send({ courtId: "2", date: "2027-06-20", timeSlot: { start: "18:00", end: "19:00" }, ...guest });
+    expect(inside.status).toBe(201);
+    expect(outside.status).toBe(201);
+
+    const created = await request(app)
+      .post("/api/admin/closures")
+      .set("Authorization", `Bearer ${adminToken}`)
+      .send({
+        courtId: "2",
+        startDate: "2027-06-20",
+        startTime: "09:00",
+        endTime: "17:00",
+        kind: "tournament",
+        reason: "Junior open",
+      });
+
+    expect(created.status).toBe(201);
+    expect(created.body.affectedReservations.map((r: any) => r.id)).toEqual([inside.body.id]);
+    expect(created.body.affectedReservations[0].contactName).toBe("Closure Tester");
+
+    const affected = await request(app)
+      .get(`/api/admin/closures/${created.body.closure.id}/affected-reservations`)
+      .set("Authorization", `Bearer ${adminToken}`);
+    expect(affected.status).toBe(200);
+    expect(affected.body.map((r: any) => r.id)).toEqual([inside.body.id]);
+  });
+
+  it("should list and delete closures", async () => {
+    const created = await request(app)
+      .post("/api/admin/closures")
+      .set("Authorization", `Bearer ${adminToken}`)
+      .send({ courtId: "5", startDate: "2027-07-01", reason: "Net replacement", kind: "maintenance" });
+
+    const list = await request(app)
+      .get("/api/admin/closures?courtId=5")
+      .set("Authorization", `Bearer ${adminToken}`);
+    expect(list.body.map((c: any) => c.id)).toEqual([created.body.closure.id]);
+
+    const filtered = await request(app)
+      .get("/api/admin/closures?from=2027-07-02")
+      .set("Authorization", `Bearer ${adminToken}`);
+    expect(filtered.body).toEqual([]);
+
+    const removed = await request(app)
+      .delete(`/api/admin/closures/${created.body.closure.id}`)
+      .set("Authorization", `Bearer ${adminToken}`);
+    expect(removed.status).toBe(200);
+
+    const booking = await request(app)
+      .post("/api/reservations")
+      .send({ courtId: "5", date: "2027-07-01", timeSlot: { start: "10:00", end: "11:00" }, ...guest });
+    expect(booking.status).toBe(201);
+
+    const missing = await request(app)
+      .delete(`/api/admin/closures/${created.body.closure.id}`)
+      .set("Authorization", `Bearer ${adminToken}`);
+    expect(missing.status).toBe(404);
+  });
+
+  it("should validate closures and require admin", async () => {
+    const invalid = await request(app)
+      .post("/api/admin/closures")
+      .set("Authorization", `Bearer ${adminToken}`)
+      .send({ courtId: "1", startDate: "2027-07-05", endDate: "2027-07-01", reason: "Oops" });
+    expect(invalid.status).toBe(400);
+
+    const unknownCourt = await request(app)
+      .post("/api/admin/closures")
+      .set("Authorization", `Bearer ${adminToken}`)
+      .send({ courtId: "999", startDate: "2027-07-05", reason: "Oops" });
+    expect(unknownCourt.status).toBe(400);
+
+    const playerToken = await getToken("player");
+    const forbidden = await request(app)
+      .post("/api/admin/closures")
+      .set("Authorization", `Bearer ${playerToken}`)
+      .send({ courtId: "1", startDate: "2027-07-05", reason: "Rain" });
+    expect(forbidden.status).toBe(403);
+  });
+});
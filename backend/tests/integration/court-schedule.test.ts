@@ -0,0 +1,236 @@
+/**
+ * Integration tests for configurable court schedules
+ * Tests admin schedule endpoints, availability slots and reservation hour validation
+ */
+
+import { describe, it, expect, beforeAll, beforeEach, afterEach, afterAll } from "vitest";
+import request from "supertest";
+import path from "path";
+import { promises as fs } from "fs";
+import os from "os";
+import app from "../../src/app";
+import { memberCache } from "../../src/lib/cache/member-cache";
+import { reservationCache } from "../../src/lib/cache/reservation-cache";
+
+let tempDir = "";
+let originalDataDir: string | undefined;
+let originalJwtSecret: string | undefined;
+
+const weekdayHours = { open: "06:00", close: "22:00" };
+const indoorSchedule = {
+  slotDurationMinutes: 60,
+  weeklyHours: {
+    sunday: { open: "09:00", close: "15:00", slotDurationMinutes: 90 },
+    monday: weekdayHours,
+    tuesday: weekdayHours,
+    wednesday: weekdayHours,
+    thursday: weekdayHours,
+    friday: weekdayHours,
+    saturday: null,
+  },
+};
+
+beforeAll(async () => {
+  originalDataDir = process.env.DATA_DIR;
+  originalJwtSecret = process.env.JWT_SECRET;
+
+  process.env.JWT_SECRET = "test-secret-key-for-testing-only";
+  process.env.BCRYPT_ROUNDS = "10";
+
+  tempDir = await fs.mkdtemp(
+    path.join(os.tmpdir(), `pta-schedule-${Date.now()}-${Math.random().toString(36).substring(7)}-`)
+  );
+  process.env.DATA_DIR = tempDir;
+});
+
+beforeEach(async () => {
+  memberCache.clear();
+  reservationCache.clear();
+
+  // Reset courts and members so each test starts from the default schedule
+  await fs.unlink(path.join(tempDir, "courts.json")).catch(() => {});
+  await fs.unlink(path.join(tempDir, "courts.json.lock")).catch(() => {});
+  await fs.writeFile(path.join(tempDir, "members.json"), JSON.stringify([], null, 2));
+});
+
+afterEach(async () => {
+  memberCache.clear();
+  reservationCache.clear();
+});
+
+afterAll(async () => {
+  if (originalDataDir !== undefined) {
+    process.env.DATA_DIR = originalDataDir;
+  } else {
+    delete process.env.DATA_DIR;
+  }
+
+  if (originalJwtSecret !== undefined) {
+    process.env.JWT_SECRET = originalJwtSecret;
+  } else {
+    delete process.env.JWT_SECRET;
+  }
+
+  if (tempDir) {
+    await fs.rm(tempDir, { recursive: true, force: true }).catch(() => {});
+  }
+});
+
+async function getToken(role: string): Promise<string> {
+  const email = `${role}-${Date.now()}-${Math.random().toString(36).substring(7)}@example.com`;
+  const response = await request(app).post("/api/auth/signup").send({
+    firstName: "Schedule",
+    lastName: "Tester",
+    email,
+    phone: "401-555-0000",
+    password: "Password123",
+    role,
+  });
+  return response.body.token;
+}
+
+describe("Court Schedule Integration Tests", () => {
+  it("should return the default schedule for unconfigured courts", async () => {
+    const response = await request(app).get("/api/courts/1/schedule");
+
+    expect(response.status).toBe(200);
+    expect(response.body.slotDurationMinutes).toBe(60);
+    expect(response.body.weeklyHours.monday).toEqual({ open: "08:00", close: "21:00" });
+  });
+
+  it("should return 404 for an unknown court", async () => {
+    const response = await request(app).get("/api/courts/999/schedule");
+    expect(response.status).toBe(404);
+  });
+
+  it("should require admin role to update a schedule", async () => {
+    const token = await getToken("player");
+    const response = await request(app)
+      .put("/api/admin/courts/1/schedule")
+      .set("Authorization", `Bearer ${token}`)
+      .send(indoorSchedule);
+
+    expect(response.status).toBe(403);
+  });
+
+  it("should reject an invalid schedule", async () => {
+    const token = await getToken("admin");
+    const response = await request(app)
+      .put("/api/admin/courts/1/schedule")
+      .set("Authorization", `Bearer ${token}`)
+      .send({ ...indoorSchedule, slotDurationMinutes: 7 });
+
+    expect(response.status).toBe(400);
+    expect(response.body.code).toBe("VALIDATION_ERROR");
+  });
+
+  it("should use the updated schedule for availability", async () => {
+    const token = await getToken("admin");
+    const update = await request(app)
+      .put("/api/admin/courts/1/schedule")
+      .set("Authorization", `Bearer ${token}`)
+      .send(indoorSchedule);
+    expect(update.status).toBe(200);
+
+    // 2027-03-07 is a Sunday: 90-minute slots from 09:00 to 15:00
+    const sunday = await request(app).get("/api/availability?date=2027-03-07");
+    const court1 = sunday.body.availability.find((c: any) => c.courtId === "1");
+    expect(court1.hours).toEqual({ open: "09:00", close: "15:00" });
+    expect(court1.slotDurationMinutes).toBe(90);
+    expect(court1.slots.map((s: any) => s.start)).toEqual(["09:00", "10:30", "12:00", "13:30"]);
+
+    // Other courts keep the default hours
+    const court2 = sunday.body.availability.find((c: any) => c.courtId === "2");
+    expect(court2.slots[0].start).toBe("08:00");
+
+    // 2027-03-06 is a Saturday: closed
+    const saturday = await request(app).get("/api/availability?date=2027-03-06");
+    const closedCourt = saturday.body.availability.find((c: any) => c.courtId === "1");
+    expect(closedCourt.hours).toBeNull();
+    expect(closedCourt.slots).toEqual([]);
+  });
+
+  it("should add and remove holiday overrides", async () => {
+    const token = await getToken("admin");
+
+    const added = await request(app)
+      .post("/api/admin/courts/1/schedule/overrides")
+      .set("Authorization", `Bearer ${token}`)
+      .send({ date: "2027-11-25", closed: true, reason: "Thanksgiving" });
+    expect(added.status).toBe(201);
+    expect(added.body.overrides).toHaveLength(1);
+
+    const closed = await request(app).get("/api/availability?date=2027-11-25");
+    const court1 = closed.body.availability.find((c: any) => c.courtId === "1");
+    expect(court1.slots).toEqual([]);
+    expect(court1.closedReason).toBe("Thanksgiving");
+
+    const removed = await request(app)
+      .delete("/api/admin/courts/1/schedule/overrides/2027-11-25")
+      .set("Authorization", `Bearer ${token}`);
+    expect(removed.status).toBe(200);
+    expect(removed.body.overrides).toHaveLength(0);
+
+    const reopened = await request(app).get("/api/availability?date=2027-11-25");
+    const reopenedCourt = reopened.body.availability.find((c: any) => c.courtId === "1");
+    expect(reopenedCourt.slots.length).toBeGreaterThan(0);
+  });
+
+  it("should reject reservations outside operating hours", async () => {
+    const token = await getToken("admin");
+    await request(app)
+      .put("/api/admin/courts/1/schedule")
+      .set("Authorization", `Bearer ${token}`)
+      .send(indoorSchedule);
+
+    const guest = {
+      customerName: "Early Bird",
+      customerEmail: "early@example.com",
+      customerPhone: "401-555-0101",
+    };
+
+    const tooLate = await request(app)
+      .post("/api/reservations")
+      .send({ courtId: "1", date: "2027-03-08", timeSlot: { start: "22:00", end: "23:00" }, ...guest });
+    expect(tooLate.status).toBe(400);
+    expect(tooLate.body.error).toContain("06:00-22:00");
+
+    const closedDay = await request(app)
+      .post("/api/reservations")
+      .send({ courtId: "1", date: "2027-03-06", timeSlot: { start: "10:00", end: "11:00" }, ...guest });
+    expect(closedDay.status).toBe(400);
+    expect(closedDay.body.error).toContain("closed");
+
+    const early = await request(app)
+      .post("/api/reservations")
+      .send({ courtId: "1", date: "2027-03-08", timeSlot: { start: "06:00", end: "07:00" }, ...guest });
+    expect(early.status).toBe(201);
+  });
+
+  it("should keep admin moves within operating hours", async () => {
+    const token = await getToken("admin");
+    const created = await request(app).post("/api/reservations").send({
+      courtId: "2",
+      date: "2027-03-09",
+      timeSlot: { start: "10:00", end: "11:00" },
+      customerName: "Late Mover",
+      customerEmail: "late@example.com",
+      customerPhone: "401-555-0102",
+    });
+    expect(created.status).toBe(201);
+
+    const tooLate = await request(app)
+      .patch(`/api/admin/reservations/${created.body.id}`)
+      .set("Authorization", `Bearer ${token}`)
+      .send({ timeSlot: { start: "21:00", end: "22:00" } });
+    expect(tooLate.status).toBe(400);
+    expect(tooLate.body.error).toContain("08:00-21:00");
+
+    const lastSlot = await request(app)
+      .patch(`/api/admin/reservations/${created.body.id}`)
+      .set("Authorization", `Bearer ${token}`)
+      .send({ timeSlot: { start: "20:00", end: "21:00" } });
+    expect(lastSlot.status).toBe(200);
+    expect(lastSlot.body.timeSlot).toEqual({ start: "20:00", end: "21:00" });
+  });
+});
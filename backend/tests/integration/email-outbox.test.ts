@@ -0,0 +1,207 @@
+/**
+ * Integration tests for email delivery through the outbox
+ * Uses the file transport so tests can assert on exactly what was sent
+ */
+
+import { describe, it, expect, beforeAll, beforeEach, afterEach, afterAll } from "vitest";
+import request from "supertest";
+import path from "path";
+import { promises as fs } from "fs";
+import os from "os";
+import app from "../../src/app";
+import { createSession } from "../../src/lib/auth/session-manager";
+import { memberCache } from "../../src/lib/cache/member-cache";
+import { reservationCache } from "../../src/lib/cache/reservation-cache";
+import { readDeliveredMail } from "../../src/lib/email/file-transport";
+import { processOutbox } from "../../src/lib/email/outbox";
+
+let tempDir = "";
+let adminAuth = "";
+const originalEnv: Record<string, string | undefined> = {};
+const ENV_KEYS = ["DATA_DIR", "JWT_SECRET", "EMAIL_TRANSPORT", "EMAIL_FILE_DIR", "SMTP_HOST"];
+
+const DATE = "2027-11-09";
+
+beforeAll(async () => {
+  for (const key of ENV_KEYS) {
+    originalEnv[key] = process.env[key];
+  }
+
+  process.env.JWT_SECRET = "test-secret-key-for-testing-only";
+  process.env.BCRYPT_ROUNDS = "10";
+
+  tempDir = await fs.mkdtemp(
+    path.join(os.tmpdir(), `pta-email-${Date.now()}-${Math.random().toString(36).substring(7)}-`)
+  );
+  process.env.DATA_DIR = tempDir;
+  // Admin session for the protected member/reservation endpoints
+  adminAuth = `Bearer ${(await createSession("test-admin", "admin@example.com", "admin")).token}`;
+  process.env.EMAIL_FILE_DIR = path.join(tempDir, "mail");
+});
+
+beforeEach(async () => {
+  memberCache.clear();
+  reservationCache.clear();
+  process.env.EMAIL_TRANSPORT = "file";
+  delete process.env.SMTP_HOST;
+
+  await fs.writeFile(path.join(tempDir, "reservations.json"), JSON.stringify([], null, 2));
+  await fs.writeFile(path.join(tempDir, "members.json"), JSON.stringify([], null, 2));
+  await fs.writeFile(path.join(tempDir, "email-outbox.json"), JSON.stringify([], null, 2));
+  await fs.rm(path.join(tempDir, "mail"), { recursive: true, force: true });
+});
+
+afterEach(async () => {
+  memberCache.clear();
+  reservationCache.clear();
+});
+
+afterAll(async () => {
+  for (const key of ENV_KEYS) {
+    if (originalEnv[key] !== undefined) {
+      process.env[key] = originalEnv[key];
+    } else {
+      delete process.env[key];
+    }
+  }
+
+  if (tempDir) {
+    await fs.rm(tempDir, { recursive: true, force: true }).catch(() => {});
+  }
+});
+
+async function signUp(role: "player" | "admin" = "player") {
+  const email = `${role}-${Date.now()}-${Math.random().toString(36).substring(7)}@example.com`;
+  const response = await request(app).post("/api/auth/signup").send({
+    firstName: "Serena",
+    lastName: "Player",
+    email,
+    phone: "401-555-0000",
+    password: "Password123",
+    role,
+  });
+  return { id: response.body.member.id, token: response.body.token, email };
+}
+
+async function readOutbox() {
+  return JSON.parse(await fs.readFile(path.join(tempDir, "email-outbox.json"), "utf-8"));
+}
+
+describe("Email outbox", () => {
+  it("sends a booking confirmation with HTML and text bodies", async () => {
+    const member = await signUp();
+
+    const response = await request(app)
+      .post("/api/reservations")
+      .set("Authorization", `Bearer ${member.token}`)
+      .send({ courtId: "2", date: DATE, timeSlot: { start: "10:00", end: "11:00" }, memberId: member.id });
+    expect(response.status).toBe(201);
+
+    const mail = await readDeliveredMail();
+    expect(mail).toHaveLength(1);
+    expect(mail[0].to).toBe(member.email);
+    expect(mail[0].subject).toBe(`Booking confirmed: Court 2 on ${DATE}`);
+    expect(mail[0].text).toContain("Time: 10:00 - 11:00");
+    expect(mail[0].html).toContain("<td");
+    expect(mail[0].html).toContain("10:00 - 11:00");
+
+    const [message] = await readOutbox();
+    expect(message).toMatchObject({
+      template: "booking_confirmation",
+      status: "sent",
+      attempts: 1,
+      transport: "file",
+    });
+  });
+
+  it("emails guests when their booking is cancelled", async () => {
+    const created = await request(app).post("/api/reservations").send({
+      courtId: "2",
+      date: DATE,
+      timeSlot: { start: "12:00", end: "13:00" },
+      guestName: "Gail Guest",
+      guestEmail: "gail@example.com",
+      guestPhone: "401-555-1111",
+    });
+    expect(created.status).toBe(201);
+
+    const cancelled = await request(app)
+      .delete(`/api/reservations/${created.body.id}`)
+      .set("Authorization", adminAuth);
+    expect(cancelled.status).toBe(200);
+
+    const mail = await readDeliveredMail();
+    expect(mail.map((m) => m.subject)).toEqual([
+      `Booking confirmed: Court 2 on ${DATE}`,
+      `Booking cancelled: Court 2 on ${DATE}`,
+    ]);
+    expect(mail[1].to).toBe("gail@example.com");
+    expect(mail[1].text).toContain("Hi Gail,");
+  });
+
+  it("sends password reset emails through the transport", async () => {
+    const member = await signUp();
+
+    await request(app).post("/api/auth/forgot-password").send({ email: member.email });
+
+    const mail = await readDeliveredMail();
+    expect(mail).toHaveLength(1);
+    expect(mail[0].subject).toBe("Reset your password");
+    expect(mail[0].text).toMatch(/reset-password\?token=/);
+  });
+
+  it("keeps failed deliveries pending and retries them", async () => {
+    const member = await signUp();
+    process.env.EMAIL_TRANSPORT = "smtp"; // No SMTP_HOST, so delivery fails
+
+    await request(app).post("/api/auth/forgot-password").send({ email: member.email });
+
+    let [message] = await readOutbox();
+    expect(message.status).toBe("pending");
+    expect(message.attempts).toBe(1);
+    expect(message.lastError).toContain("SMTP_HOST");
+    expect(message.nextAttemptAt).toBeDefined();
+
+    // Not due yet
+    expect(await processOutbox(new Date())).toEqual({ sent: 0, retrying: 0, failed: 0 });
+
+    process.env.EMAIL_TRANSPORT = "file";
+    const result = await processOutbox(new Date(Date.now() + 2 * 60 * 1000));
+    expect(result.sent).toBe(1);
+
+    [message] = await readOutbox();
+    expect(message.status).toBe("sent");
+    expect(message.attempts).toBe(2);
+    expect(await readDeliveredMail()).toHaveLength(1);
+  });
+
+  it("lets admins list and retry outbox messages", async () => {
+    const admin = await signUp("admin");
+    const player = await signUp();
+    process.env.EMAIL_TRANSPORT = "smtp";
+    await request(app).post("/api/auth/forgot-password").send({ email: player.email });
+
+    const forbidden = await request(app)
+      .get("/api/admin/email/outbox")
+      .set("Authorization", `Bearer ${player.token}`);
+    expect(forbidden.status).toBe(403);
+
+    const pending = await request(app)
+      .get("/api/admin/email/outbox?status=pending")
+      .set("Authorization", `Bearer ${admin.token}`);
+    expect(pending.status).toBe(200);
+    expect(pending.body).toHaveLength(1);
+
+    process.env.EMAIL_TRANSPORT = "file";
+    const retried = await request(app)
+      .post(`/api/admin/email/outbox/${pending.body[0].id}/retry`)
+      .set("Authorization", `Bearer ${admin.token}`);
+    expect(retried.status).toBe(200);
+    expect(retried.body.status).toBe("sent");
+
+    const missing = await request(app)
+      .post("/api/admin/email/outbox/email-missing/retry")
+      .set("Authorization", `Bearer ${admin.token}`);
+    expect(missing.status).toBe(404);
+  });
+});
@@ -0,0 +1,409 @@
+/**
+ * Integration tests for parent-child links: invite/accept, journal access,
+ * booking and paying on a player's behalf, the family dashboard and unlinking
+ */
+
+import { describe, it, expect, beforeAll, beforeEach, afterEach, afterAll } from "vitest";
+import request from "supertest";
+import path from "path";
+import { promises as fs } from "fs";
+import os from "os";
+import app from "../../src/app";
+import { memberCache } from "../../src/lib/cache/member-cache";
+import { reservationCache } from "../../src/lib/cache/reservation-cache";
+import { paymentRepository } from "../../src/lib/repositories/file-payment-repository";
+import { quoteReservation } from "../../src/lib/pricing";
+import { readDeliveredMail } from "../../src/lib/email/file-transport";
+
+let tempDir = "";
+const originalEnv: Record<string, string | undefined> = {};
+const ENV_KEYS = ["DATA_DIR", "JWT_SECRET", "EMAIL_TRANSPORT", "EMAIL_FILE_DIR"];
+
+const DATE = "2027-12-08";
+
+beforeAll(async () => {
+  for (const key of ENV_KEYS) {
+    originalEnv[key] = process.env[key];
+  }
+
+  process.env.JWT_SECRET = "test-secret-key-for-testing-only";
+  process.env.BCRYPT_ROUNDS = "10";
+
+  tempDir = await fs.mkdtemp(
+    path.join(os.tmpdir(), `pta-family-${Date.now()}-${Math.random().toString(36).substring(7)}-`)
+  );
+  process.env.DATA_DIR = tempDir;
+  process.env.EMAIL_TRANSPORT = "file";
+  process.env.EMAIL_FILE_DIR = path.join(tempDir, "mail");
+});
+
+beforeEach(async () => {
+  memberCache.clear();
+  reservationCache.clear();
+
+  for (const file of [
+    "reservations.json",
+    "members.json",
+    "sessions.json",
+    "guardian-invites.json",
+    "journal-entries.json",
+    "payments.json",
+    "email-outbox.json",
+  ]) {
+    await fs.writeFile(path.join(tempDir, file), JSON.stringify([], null, 2));
+  }
+  await fs.rm(path.join(tempDir, "mail"), { recursive: true, force: true });
+});
+
+afterEach(async () => {
+  memberCache.clear();
+  reservationCache.clear();
+});
+
+afterAll(async () => {
+  for (const key of ENV_KEYS) {
+    if (originalEnv[key] !== undefined) {
+      process.env[key] = originalEnv[key];
+    } else {
+      delete process.env[key];
+    }
+  }
+
+  if (tempDir) {
+    await fs.rm(tempDir, { recursive: true, force: true }).catch(() => {});
+  }
+});
+
+type Role = "player" | "coach" | "parent" | "admin";
+
+async function signUp(role: Role = "player", firstName = "Pat") {
+  const email = `${role}-${Date.now()}-${Math.random().toString(36).substring(7)}@example.com`;
+  const response = await request(app).post("/api/auth/signup").send({
+    firstName,
+    lastName: role,
+    email,
+    phone: "401-555-0000",
+    password: "Password123",
+    role,
+  });
+  return { id: response.body.member.id as string, email, auth: `Bearer ${response.body.token}` };
+}
+
+/**
+ * Invite a player from a parent account and accept as the player
+ */
+async function link(parent: { auth: string }, child: { email: string; auth: string }) {
+  const invite = await request(app)
+    .post("/api/members/me/guardian-invites")
+    .set("Authorization", parent.auth)
+    .send({ email: child.email });
+  expect(invite.status).toBe(201);
+
+  const accepted = await request(app)
+    .post(`/api/members/me/guardian-invites/${invite.body.id}/accept`)
+    .set("Authorization", child.auth);
+  expect(accepted.status).toBe(200);
+  return invite.body.id as string;
+}
+
+async function setDateOfBirth(
+  member: { id: string },
+  dateOfBirth: string,
+  admin: { auth: string }
+) {
+  const response = await request(app)
+    .patch(`/api/members/${member.id}`)
+    .set("Authorization", admin.auth)
+    .send({ dateOfBirth });
+  expect(response.status).toBe(200);
+}
+
+describe("Guardian invitations", () => {
+  it("links a parent to a player once the player accepts", async () => {
+    const parent = await signUp("parent", "Paula");
+    const child = await signUp("player", "Junior");
+
+    const invite = await request(app)
+      .post("/api/members/me/guardian-invites")
+      .set("Authorization", parent.auth)
+      .send({ email: child.email });
+    expect(invite.status).toBe(201);
+    expect(invite.body.status).toBe("pending");
+
+    const mail = await readDeliveredMail();
+    expect(mail.some((m: any) => m.to === child.email && m.text.includes("Paula"))).toBe(true);
+
+    const duplicate = await request(app)
+      .post("/api/members/me/guardian-invites")
+      .set("Authorization", parent.auth)
+      .send({ email: child.email });
+    expect(duplicate.status).toBe(400);
+    expect(duplicate.body.code).toBe("INVALID_GUARDIAN_LINK");
+
+    const received = await request(app)
+      .get("/api/members/me/family")
+      .set("Authorization", child.auth);
+    expect(received.body.invites).toHaveLength(1);
+    expect(received.body.invites[0].parentName).toBe("Paula parent");
+
+    const byParent = await request(app)
+      .post(`/api/members/me/guardian-invites/${invite.body.id}/accept`)
+      .set("Authorization", parent.auth);
+    expect(byParent.status).toBe(400);
+
+    const accepted = await request(app)
+      .post(`/api/members/me/guardian-invites/${invite.body.id}/accept`)
+      .set("Authorization", child.auth);
+    expect(accepted.status).toBe(200);
+    expect(accepted.body.status).toBe("accepted");
+
+    const family = await request(app)
+      .get("/api/members/me/family")
+      .set("Authorization", child.auth);
+    expect(family.body.guardians.map((g: any) => g.id)).toEqual([parent.id]);
+    expect(family.body.invites).toHaveLength(0);
+
+    const profile = await request(app)
+      .get(`/api/members/${child.id}`)
+      .set("Authorization", parent.auth);
+    expect(profile.status).toBe(200);
+  });
+
+  it("only lets parents invite players", async () => {
+    const parent = await signUp("parent");
+    const player = await signUp("player");
+    const coach = await signUp("coach");
+
+    const fromPlayer = await request(app)
+      .post("/api/members/me/guardian-invites")
+      .set("Authorization", player.auth)
+      .send({ email: coach.email });
+    expect(fromPlayer.status).toBe(403);
+
+    const toCoach = await request(app)
+      .post("/api/members/me/guardian-invites")
+      .set("Authorization", parent.auth)
+      .send({ email: coach.email });
+    expect(toCoach.status).toBe(400);
+
+    const unknown = await request(app)
+      .post("/api/members/me/guardian-invites")
+      .set("Authorization", parent.auth)
+      .send({ email: "nobody@example.com" });
+    expect(unknown.status).toBe(404);
+  });
+
+  it("lets players decline and parents withdraw invitations", async () => {
+    const parent = await signUp("parent");
+    const child = await signUp("player");
+
+    const first = await request(app)
+      .post("/api/members/me/guardian-invites")
+      .set("Authorization", parent.auth)
+      .send({ email: child.email });
+    const declined = await request(app)
+      .post(`/api/members/me/guardian-invites/${first.body.id}/decline`)
+      .set("Authorization", child.auth);
+    expect(declined.body.status).toBe("declined");
+
+    const second = await request(app)
+      .post("/api/members/me/guardian-invites")
+      .set("Authorization", parent.auth)
+      .send({ email: child.email });
+    expect(second.status).toBe(201);
+    const cancelled = await request(app)
+      .delete(`/api/members/me/guardian-invites/${second.body.id}`)
+      .set("Authorization", parent.auth);
+    expect(cancelled.body.status).toBe("cancelled");
+
+    const family = await request(app)
+      .get("/api/members/me/family")
+      .set("Authorization", parent.auth);
+    expect(family.body.children).toHaveLength(0);
+  });
+
+  it("does not let members set guardians directly", async () => {
+    const parent = await signUp("parent");
+    const child = await signUp("player");
+
+    const response = await request(app)
+      .patch(`/api/members/${child.id}`)
+      .set("Authorization", child.auth)
+      .send({ guardianIds: [parent.id] });
+    expect(response.status).toBe(403);
+  });
+});
+
+describe("Parent access to linked players", () => {
+  it("shows a linked player's journal entries to the parent only", async () => {
+    const coach = await signUp("coach");
+    const parent = await signUp("parent");
+    const stranger = await signUp("parent");
+    const child = await signUp("player");
+    const otherPlayer = await signUp("player");
+    await link(parent, child);
+
+    const entry = await request(app)
+      .post("/api/journal/entries")
+      .set("Authorization", coach.auth)
+      .send({
+        playerId: child.id,
+        sessionDate: "2027-01-10",
+        summary: "Worked on serve",
+        areasWorkedOn: ["serve"],
+        pointersForNextSession: "Toss higher",
+      });
+    expect(entry.status).toBe(201);
+
+    await request(app)
+      .post("/api/journal/entries")
+      .set("Authorization", coach.auth)
+      .send({
+        playerId: otherPlayer.id,
+        sessionDate: "2027-01-11",
+        summary: "Footwork",
+        areasWorkedOn: ["footwork"],
+        pointersForNextSession: "Split step",
+      });
+
+    const single = await request(app)
+      .get(`/api/journal/entries/${entry.body.id}`)
+      .set("Authorization", parent.auth);
+    expect(single.status).toBe(200);
+
+    const denied = await request(app)
+      .get(`/api/journal/entries/${entry.body.id}`)
+      .set("Authorization", stranger.auth);
+    expect(denied.status).toBe(403);
+
+    const list = await request(app).get("/api/journal/entries").set("Authorization", parent.auth);
+    expect(list.status).toBe(200);
+    expect(list.body.entries.map((e: any) => e.playerId)).toEqual([child.id]);
+
+    const strangerList = await request(app)
+      .get("/api/journal/entries")
+      .set("Authorization", stranger.auth);
+    expect(strangerList.body.entries).toHaveLength(0);
+
+    const family = await request(app)
+      .get("/api/members/me/family")
+      .set("Authorization", parent.auth);
+    expect(family.body.children).toHaveLength(1);
+    expect(family.body.children[0].recentJournalEntries[0].id).toBe(entry.body.id);
+  });
+
+  it("lets parents book, pay for and cancel a linked player's reservations", async () => {
+    const parent = await signUp("parent");
+    const stranger = await signUp("parent");
+    const child = await signUp("player");
+    await link(parent, child);
+
+    const slot = { courtId: "3", date: DATE, timeSlot: { start: "09:00", end: "10:00" } };
+    const quote = await quoteReservation({ ...slot, memberId: child.id });
+    const payment = await paymentRepository.create({
+      memberId: parent.id,
+      onBehalfOfMemberId: child.id,
+      type: "court_booking",
+      amount: quote.total,
+      currency: "usd",
+      status: "paid",
+      stripePaymentIntentId: "pi_test_family",
+      paidAt: new Date().toISOString(),
+    });
+
+    const booked = await request(app)
+      .post("/api/reservations")
+      .set("Authorization", parent.auth)
+      .send({ ...slot, memberId: child.id, paymentId: payment.id });
+    expect(booked.status).toBe(201);
+    expect(booked.body.memberId).toBe(child.id);
+    expect(booked.body.bookedBy).toBe(parent.id);
+    expect(booked.body.paymentStatus).toBe("paid");
+
+    const notLinked = await request(app)
+      .post("/api/reservations")
+      .set("Authorization", stranger.auth)
+      .send({ courtId: "3", date: DATE, timeSlot: { start: "10:00", end: "11:00" }, memberId: child.id });
+    expect(notLinked.status).toBe(403);
+
+    const strangerIntent = await request(app)
+      .post("/api/payments/create-intent")
+      .set("Authorization", stranger.auth)
+      .send({ amount: 40, reservationId: booked.body.id });
+    expect(strangerIntent.status).toBe(403);
+
+    const family = await request(app)
+      .get("/api/members/me/family")
+      .set("Authorization", parent.auth);
+    expect(family.body.children[0].upcomingReservations.map((r: any) => r.id)).toEqual([
+      booked.body.id,
+    ]);
+
+    const strangerCancel = await request(app)
+      .delete(`/api/reservations/${booked.body.id}`)
+      .set("Authorization", stranger.auth);
+    expect(strangerCancel.status).toBe(403);
+
+    const cancelled = await request(app)
+      .delete(`/api/reservations/${booked.body.id}`)
+      .set("Authorization", parent.auth);
+    expect(cancelled.status).toBe(200);
+  });
+});
+
+describe("Leaving a family link", () => {
+  it("keeps players under 18 linked until they turn 18", async () => {
+    const admin = await signUp("admin");
+    const parent = await signUp("parent");
+    const child = await signUp("player");
+    await link(parent, child);
+
+    const noBirthDate = await request(app)
+      .delete(`/api/members/me/guardians/${parent.id}`)
+      .set("Authorization", child.auth);
+    expect(noBirthDate.status).toBe(400);
+
+    // Linked players can't change their own age to leave the link
+    const selfEdit = await request(app)
+      .patch(`/api/members/${child.id}`)
+      .set("Authorization", child.auth)
+      .send({ dateOfBirth: "1990-01-01" });
+    expect(selfEdit.status).toBe(403);
+
+    const youngYear = new Date().getFullYear() - 12;
+    await setDateOfBirth(child, `${youngYear}-01-01`, admin);
+    const minor = await request(app)
+      .delete(`/api/members/me/guardians/${parent.id}`)
+      .set("Authorization", child.auth);
+    expect(minor.status).toBe(400);
+    expect(minor.body.code).toBe("INVALID_GUARDIAN_LINK");
+
+    const adultYear = new Date().getFullYear() - 19;
+    await setDateOfBirth(child, `${adultYear}-01-01`, admin);
+    const adult = await request(app)
+      .delete(`/api/members/me/guardians/${parent.id}`)
+      .set("Authorization", child.auth);
+    expect(adult.status).toBe(200);
+
+    const profile = await request(app)
+      .get(`/api/members/${child.id}`)
+      .set("Authorization", parent.auth);
+    expect(profile.status).toBe(403);
+  });
+
+  it("lets parents remove a linked player at any age", async () => {
+    const parent = await signUp("parent");
+    const child = await signUp("player");
+    await link(parent, child);
+
+    const removed = await request(app)
+      .delete(`/api/members/me/children/${child.id}`)
+      .set("Authorization", parent.auth);
+    expect(removed.status).toBe(200);
+
+    const family = await request(app)
+      .get("/api/members/me/family")
+      .set("Authorization", parent.auth);
+    expect(family.body.children).toHaveLength(0);
+  });
+});
@@ -0,0 +1,380 @@
+/**
+ * Integration tests for coach lessons
+ * Tests lesson types, coach weekly hours and time off, lesson slots, booking
+ * a coach and court together, journal drafts and lesson pricing
+ */
+
+import { describe, it, expect, beforeAll, beforeEach, afterEach, afterAll, vi } from "vitest";
+import request from "supertest";
+import path from "path";
+import { promises as fs } from "fs";
+import os from "os";
+import app from "../../src/app";
+import { createSession } from "../../src/lib/auth/session-manager";
+import { memberRepository } from "../../src/lib/repositories/file-member-repository";
+import { listAuditEntries } from "../../src/lib/audit";
+import { memberCache } from "../../src/lib/cache/member-cache";
+import { reservationCache } from "../../src/lib/cache/reservation-cache";
+
+// Payment intents are created without calling Stripe
+vi.mock("../../src/lib/payments/stripe-client", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../../src/lib/payments/stripe-client")>()),
+  createPaymentIntent: vi.fn(async (intent: { amount: number; currency?: string }) => ({
+    clientSecret: "pi_test_secret",
+    paymentIntentId: `pi_test_${Math.random().toString(36).substring(7)}`,
+    amount: intent.amount,
+    currency: intent.currency || "usd",
+  })),
+}));
+
+let tempDir = "";
+let adminAuth = "";
+const originalEnv: Record<string, string | undefined> = {};
+const ENV_KEYS = ["DATA_DIR", "JWT_SECRET"];
+
+// Monday
+const DATE = "2027-11-15";
+
+beforeAll(async () => {
+  for (const key of ENV_KEYS) {
+    originalEnv[key] = process.env[key];
+  }
+
+  process.env.JWT_SECRET = "test-secret-key-for-testing-only";
+  process.env.BCRYPT_ROUNDS = "10";
+
+  tempDir = await fs.mkdtemp(
+    path.join(os.tmpdir(), `pta-lessons-${Date.now()}-${Math.random().toString(36).substring(7)}-`)
+  );
+  process.env.DATA_DIR = tempDir;
+  adminAuth = `Bearer ${(await createSession("test-admin", "admin@example.com", "admin")).token}`;
+});
+
+beforeEach(async () => {
+  memberCache.clear();
+  reservationCache.clear();
+
+  for (const file of [
+    "reservations.json",
+    "members.json",
+    "payments.json",
+    "journal-entries.json",
+    "coach-schedules.json",
+  ]) {
+    await fs.writeFile(path.join(tempDir, file), JSON.stringify([], null, 2));
+  }
+  await fs.rm(path.join(tempDir, "lesson-types.json"), { force: true });
+});
+
+afterEach(async () => {
+  memberCache.clear();
+  reservationCache.clear();
+});
+
+afterAll(async () => {
+  for (const key of ENV_KEYS) {
+    if (originalEnv[key] !== undefined) {
+      process.env[key] = originalEnv[key];
+    } else {
+      delete process.env[key];
+    }
+  }
+
+  if (tempDir) {
+    await fs.rm(tempDir, { recursive: true, force: true }).catch(() => {});
+  }
+});
+
+async function signUp(role: "player" | "coach" = "player") {
+  const email = `${role}-${Date.now()}-${Math.random().toString(36).substring(7)}@example.com`;
+  const response = await request(app).post("/api/auth/signup").send({
+    firstName: role === "coach" ? "Casey" : "Sam",
+    lastName: role === "coach" ? "Coach" : "Player",
+    email,
+    phone: "401-555-0000",
+    password: "Password123",
+  });
+  const id = response.body.member.id as string;
+
+  if (role === "player") {
+    return { id, auth: `Bearer ${response.body.token}` };
+  }
+
+  await memberRepository.update(id, { role: "coach" });
+  memberCache.clear();
+  return { id, auth: `Bearer ${(await createSession(id, email, "coach")).token}` };
+}
+
+async function setHours(coach: { id: string; auth: string }) {
+  const response = await request(app)
+    .put(`/api/coaches/${coach.id}/availability`)
+    .set("Authorization", coach.auth)
+    .send({ weeklyHours: { monday: [{ start: "09:00", end: "12:00" }] } });
+  expect(response.status).toBe(200);
+}
+
+function bookLesson(auth: string, body: object) {
+  return request(app).post("/api/lessons").set("Authorization", auth).send(body);
+}
+
+function getSlots(coachId: string, lessonTypeId = "private-60") {
+  return request(app).get(`/api/coaches/${coachId}/slots?date=${DATE}&lessonTypeId=${lessonTypeId}`);
+}
+
+describe("Lesson types", () => {
+  it("lists the defaults and lets admins add and retire types", async () => {
+    const defaults = await request(app).get("/api/lesson-types");
+    expect(defaults.status).toBe(200);
+    expect(defaults.body.map((t: { id: string }) => t.id)).toEqual([
+      "private-60",
+      "private-30",
+      "semi-private-60",
+    ]);
+
+    const player = await signUp();
+    const body = { name: "Private 90", kind: "private", durationMinutes: 90, price: 13000 };
+    expect(
+      (await request(app).post("/api/admin/lesson-types").set("Authorization", player.auth).send(body))
+        .status
+    ).toBe(403);
+
+    const invalid = await request(app)
+      .post("/api/admin/lesson-types")
+      .set("Authorization", adminAuth)
+      .send({ ...body, durationMinutes: 50 });
+    expect(invalid.status).toBe(400);
+
+    const created = await request(app)
+      .post("/api/admin/lesson-types")
+      .set("Authorization", adminAuth)
+      .send(body);
+    expect(created.status).toBe(201);
+    expect(created.body).toMatchObject({ ...body, maxPlayers: 1, active: true });
+
+    const retired = await request(app)
+      .patch(`/api/admin/lesson-types/${created.body.id}`)
+      .set("Authorization", adminAuth)
+      .send({ active: false });
+    expect(retired.status).toBe(200);
+    expect(retired.body).toMatchObject({ name: "Private 90", active: false });
+
+    expect((await request(app).get("/api/lesson-types")).body).toHaveLength(3);
+    const all = await request(app).get("/api/admin/lesson-types").set("Authorization", adminAuth);
+    expect(all.body).toHaveLength(4);
+
+    expect(
+      (
+        await request(app)
+          .patch("/api/admin/lesson-types/lesson-type-unknown")
+          .set("Authorization", adminAuth)
+          .send({ price: 100 })
+      ).status
+    ).toBe(404);
+  });
+});
+
+describe("Coach availability", () => {
+  it("lets coaches set their own hours and time off", async () => {
+    const coach = await signUp("coach");
+    const player = await signUp();
+
+    const coaches = await request(app).get("/api/coaches");
+    expect(coaches.body).toEqual([{ id: coach.id, firstName: "Casey", lastName: "Coach" }]);
+
+    // Coaches aren't bookable until they set hours
+    expect((await getSlots(coach.id)).body.slots).toEqual([]);
+
+    expect(
+      (
+        await request(app)
+          .put(`/api/coaches/${coach.id}/availability`)
+          .set("Authorization", player.auth)
+          .send({ weeklyHours: { monday: [] } })
+      ).status
+    ).toBe(403);
+    const overlapping = await request(app)
+      .put(`/api/coaches/${coach.id}/availability`)
+      .set("Authorization", coach.auth)
+      .send({ weeklyHours: { monday: [{ start: "09:00", end: "11:00" }, { start: "10:00", end: "12:00" }] } });
+    expect(overlapping.status).toBe(400);
+
+    await setHours(coach);
+    const slots = await getSlots(coach.id);
+    expect(slots.status).toBe(200);
+    expect(slots.body.slots.map((s: { start: string }) => s.start)).toEqual([
+      "09:00",
+      "09:30",
+      "10:00",
+      "10:30",
+      "11:00",
+    ]);
+    expect(slots.body.slots[0].courtIds.length).toBeGreaterThan(0);
+
+    const timeOff = await request(app)
+      .post(`/api/coaches/${coach.id}/time-off`)
+      .set("Authorization", coach.auth)
+      .send({ startDate: DATE, startTime: "09:00", endTime: "10:30", reason: "Dentist" });
+    expect(timeOff.status).toBe(201);
+    expect(timeOff.body.affectedLessons).toEqual([]);
+    expect((await getSlots(coach.id)).body.slots.map((s: { start: string }) => s.start)).toEqual([
+      "10:30",
+      "11:00",
+    ]);
+
+    const schedule = await request(app)
+      .get(`/api/coaches/${coach.id}/availability`)
+      .set("Authorization", coach.auth);
+    expect(schedule.body.weeklyHours.monday).toEqual([{ start: "09:00", end: "12:00" }]);
+    expect(schedule.body.timeOff).toHaveLength(1);
+
+    const removed = await request(app)
+      .delete(`/api/coaches/${coach.id}/time-off/${timeOff.body.timeOff.id}`)
+      .set("Authorization", coach.auth);
+    expect(removed.status).toBe(204);
+    expect((await getSlots(coach.id)).body.slots).toHaveLength(5);
+
+    expect((await getSlots(player.id)).status).toBe(404);
+  });
+});
+
+describe("Booking lessons", () => {
+  it("books the coach and a court together and starts a journal draft", async () => {
+    const coach = await signUp("coach");
+    const player = await signUp();
+    const other = await signUp();
+    await setHours(coach);
+
+    const outsideHours = await bookLesson(player.auth, {
+      coachId: coach.id,
+      lessonTypeId: "private-60",
+      date: DATE,
+      start: "13:00",
+    });
+    expect(outsideHours.status).toBe(400);
+    expect(outsideHours.body.error).toContain("isn't teaching");
+
+    const withPartner = await bookLesson(player.auth, {
+      coachId: coach.id,
+      lessonTypeId: "private-60",
+      date: DATE,
+      start: "09:00",
+      partners: [{ email: "friend@example.com" }],
+    });
+    expect(withPartner.status).toBe(400);
+
+    const lesson = await bookLesson(player.auth, {
+      coachId: coach.id,
+      lessonTypeId: "private-60",
+      date: DATE,
+      start: "09:00",
+    });
+    expect(lesson.status).toBe(201);
+    expect(lesson.body).toMatchObject({
+      memberId: player.id,
+      coachId: coach.id,
+      lessonTypeId: "private-60",
+      timeSlot: { start: "09:00", end: "10:00" },
+    });
+    expect(await listAuditEntries({ entityId: lesson.body.id })).toMatchObject([
+      { action: "reservation.create", actorId: player.id, source: "api" },
+    ]);
+
+    // The coach can't be on two courts at once
+    const clash = await bookLesson(other.auth, {
+      coachId: coach.id,
+      lessonTypeId: "private-30",
+      date: DATE,
+      start: "09:30",
+      courtId: lesson.body.courtId === "1" ? "2" : "1",
+    });
+    expect(clash.status).toBe(409);
+    expect(clash.body.error).toContain("Coach already has a lesson");
+    expect((await getSlots(coach.id)).body.slots.map((s: { start: string }) => s.start)).toEqual([
+      "10:00",
+      "10:30",
+      "11:00",
+    ]);
+
+    const lessons = await request(app)
+      .get(`/api/coaches/${coach.id}/lessons`)
+      .set("Authorization", coach.auth);
+    expect(lessons.body.map((r: { id: string }) => r.id)).toEqual([lesson.body.id]);
+    expect(
+      (await request(app).get(`/api/coaches/${coach.id}/lessons`).set("Authorization", player.auth))
+        .status
+    ).toBe(403);
+
+    // The draft is the coach's until it's written up
+    const coachEntries = await request(app)
+      .get("/api/journal/entries")
+      .set("Authorization", coach.auth);
+    expect(coachEntries.body.entries).toHaveLength(1);
+    const draft = coachEntries.body.entries[0];
+    expect(draft).toMatchObject({
+      playerId: player.id,
+      coachId: coach.id,
+      reservationId: lesson.body.id,
+      sessionDate: DATE,
+      sessionTime: "09:00",
+      draft: true,
+    });
+    expect(
+      (await request(app).get("/api/journal/entries").set("Authorization", player.auth)).body.entries
+    ).toEqual([]);
+    expect(
+      (await request(app).get(`/api/journal/entries/${draft.id}`).set("Authorization", player.auth))
+        .status
+    ).toBe(403);
+
+    const written = await request(app)
+      .put(`/api/journal/entries/${draft.id}`)
+      .set("Authorization", coach.auth)
+      .send({ summary: "Worked on serve", pointersForNextSession: "Toss higher" });
+    expect(written.status).toBe(200);
+    expect(written.body.draft).toBe(false);
+    expect(
+      (await request(app).get("/api/journal/entries").set("Authorization", player.auth)).body.entries
+    ).toHaveLength(1);
+
+    const affected = await request(app)
+      .post(`/api/coaches/${coach.id}/time-off`)
+      .set("Authorization", coach.auth)
+      .send({ startDate: DATE });
+    expect(affected.body.affectedLessons.map((r: { id: string }) => r.id)).toEqual([lesson.body.id]);
+  });
+
+  it("charges the lesson price and drops the draft when the lesson is cancelled", async () => {
+    const coach = await signUp("coach");
+    const player = await signUp();
+    await setHours(coach);
+
+    const lesson = await bookLesson(player.auth, {
+      coachId: coach.id,
+      lessonTypeId: "semi-private-60",
+      date: DATE,
+      start: "10:00",
+      partners: [{ email: "friend@example.com" }],
+    });
+    expect(lesson.status).toBe(201);
+    expect(lesson.body.participants).toHaveLength(1);
+
+    const intent = await request(app)
+      .post("/api/payments/create-intent")
+      .set("Authorization", player.auth)
+      .send({ reservationId: lesson.body.id });
+    expect(intent.status).toBe(200);
+    expect(intent.body.amount).toBe(12000);
+    expect(intent.body.quote.lessonTypeId).toBe("semi-private-60");
+
+    const cancelled = await request(app)
+      .delete(`/api/reservations/${lesson.body.id}`)
+      .set("Authorization", player.auth);
+    expect(cancelled.status).toBe(200);
+
+    const coachEntries = await request(app)
+      .get("/api/journal/entries")
+      .set("Authorization", coach.auth);
+    expect(coachEntries.body.entries).toEqual([]);
+    expect((await getSlots(coach.id)).body.slots).toHaveLength(5);
+  });
+});
@@ -9,10 +9,12 @@ import path from "path";
 import { promises as fs } from "fs";
 import os from "os";
 import app from "../../src/app";
+import { createSession } from "../../src/lib/auth/session-manager";
 import { memberCache } from "../../src/lib/cache/member-cache";
 import { reservationCache } from "../../src/lib/cache/reservation-cache";
 
 let tempDir = "";
+let adminAuth = "";
 let originalDataDir: string | undefined;
 
 beforeAll(async () => {
@@ -25,6 +27,8 @@ beforeAll(async () => {
   );
   tempDir = baseDir;
   process.env.DATA_DIR = tempDir;
+  // Admin session for the protected member/reservation endpoints
+  adminAuth = `Bearer ${(await createSession("test-admin", "admin@example.com", "admin")).token}`;
   // Ensure directory exists
   await fs.mkdir(tempDir, { recursive: true });
 });
@@ -96,7 +100,7 @@ afterAll(async () => {
 describe("Member API Endpoints Integration Tests (Phase 7)", () => {
   describe("1. GET /api/members - List all members", () => {
     it("should return empty array when no members exist", async () => {
-      const response = await request(app).get("/api/members");
+      const response = await request(app).get("/api/members").set("Authorization", adminAuth);
       
       expect(response.status).toBe(200);
       expect(Array.isArray(response.body)).toBe(true);
@@ -107,21 +111,21 @@ describe("Member API Endpoints Integration Tests (Phase 7)", () => {
       const uniqueId = Date.now();
       
       // Create multiple members
-      await request(app).post("/api/members").send({
+      await request(app).post("/api/members").set("Authorization", adminAuth).send({
         firstName: "First",
         lastName: "Member",
         email: `first-${uniqueId}@example.com`,
         phone: "401-555-1111",
       });
 
-      await request(app).post("/api/members").send({
+      await request(app).post("/api/members").set("Authorization", adminAuth).send({
         firstName: "Second",
         lastName: "Member",
         email: `second-${uniqueId}@example.com`,
         phone: "401-555-2222",
       });
 
-      const response = await request(app).get("/api/members");
+      const response = await request(app).get("/api/members").set("Authorization", adminAuth);
       
       expect(response.status).toBe(200);
       expect(Array.isArray(response.body)).toBe(true);
@@ -131,7 +135,7 @@ describe("Member API Endpoints Integration Tests (Phase 7)", () => {
     it("should filter by active status (filter=active)", async () => {
       const uniqueId = Date.now();
       
-      await request(app).post("/api/members").send({
+      await request(app).post("/api/members").set("Authorization", adminAuth).send({
         firstName: "Active",
         lastName: "Member",
         email: `active-${uniqueId}@example.com`,
@@ -139,7 +143,7 @@ describe("Member API Endpoints Integration Tests (Phase 7)", () => {
         isActive: true,
       });
 
-      await request(app).post("/api/members").send({
+      await request(app).post("/api/members").set("Authorization", adminAuth).send({
         firstName: "Inactive",
         lastName: "Member",
         email: `inactive-${uniqueId}@example.com`,
@@ -147,7 +151,9 @@ describe("Member API Endpoints Integration Tests (Phase 7)", () => {
         isActive: false,
       });
 
-      const response = await request(app).get("/api/members?filter=active");
+      const response = await request(app)
+        .get("/api/members?filter=active")
+        .set("Authorization", adminAuth);
       
       expect(response.status).toBe(200);
       expect(response.body.every((m: any) => m.isActive === true)).toBe(true);
@@ -156,7 +162,7 @@ describe("Member API Endpoints Integration Tests (Phase 7)", () => {
     it("should filter by inactive status (filter=inactive)", async () => {
       const uniqueId = Date.now();
       
-      await request(app).post("/api/members").send({
+      await request(app).post("/api/members").set("Authorization", adminAuth).send({
         firstName: "Active",
         lastName: "Member",
         email: `active-${uniqueId}@example.com`,
@@ -164,7 +170,7 @@ describe("Member API Endpoints Integration Tests (Phase 7)", () => {
         isActive: true,
       });
 
-      await request(app).post("/api/members").send({
+      await request(app).post("/api/members").set("Authorization", adminAuth).send({
         firstName: "Inactive",
         lastName: "Member",
         email: `inactive-${uniqueId}@example.com`,
@@ -172,7 +178,9 @@ describe("Member API Endpoints Integration Tests (Phase 7)", () => {
         isActive: false,
       });
 
-      const response = await request(app).get("/api/members?filter=inactive");
+      const response = await request(app)
+        .get("/api/members?filter=inactive")
+        .set("Authorization", adminAuth);
       
       expect(response.status).toBe(200);
       expect(response.body.every((m: any) => m.isActive === false)).toBe(true);
@@ -181,7 +189,7 @@ describe("Member API Endpoints Integration Tests (Phase 7)", () => {
     it("should return all members when filter=all", async () => {
       const uniqueId = Date.now();
       
-      await request(app).post("/api/members").send({
+      await request(app).post("/api/members").set("Authorization", adminAuth).send({
         firstName: "Active",
         lastName: "Member",
         email: `active-${uniqueId}@example.com`,
@@ -189,7 +197,7 @@ describe("Member API Endpoints Integration Tests (Phase 7)", () => {
         isActive: true,
       });
 
-      await request(app).post("/api/members").send({
+      await request(app).post("/api/members").set("Authorization", adminAuth).send({
         firstName: "Inactive",
         lastName: "Member",
         email: `inactive-${uniqueId}@example.com`,
@@ -197,7 +205,9 @@ describe("Member API Endpoints Integration Tests (Phase 7)", () => {
         isActive: false,
       });
 
-      const response = await request(app).get("/api/members?filter=all");
+      const response = await request(app)
+        .get("/api/members?filter=all")
+        .set("Authorization", adminAuth);
       
       expect(response.status).toBe(200);
       expect(response.body.length).toBe(2);
@@ -206,21 +216,23 @@ describe("Member API Endpoints Integration Tests (Phase 7)", () => {
     it("should search members by query (search parameter)", async () => {
       const uniqueId = Date.now();
       
-      await request(app).post("/api/members").send({
+      await request(app).post("/api/members").set("Authorization", adminAuth).send({
         firstName: "Searchable",
         lastName: "User",
         email: `searchable-${uniqueId}@example.com`,
         phone: "401-555-1111",
       });
 
-      await request(app).post("/api/members").send({
+      await request(app).post("/api/members").set("Authorization", adminAuth).send({
         firstName: "Other",
         lastName: "Person",
         email: `other-${uniqueId}@example.com`,
         phone: "401-555-2222",
       });
 
-      const response = await request(app).get("/api/members?search=Searchable");
+      const response = await request(app)
+        .get("/api/members?search=Searchable")
+        .set("Authorization", adminAuth);
       
       expect(response.status).toBe(200);
       expect(response.body.length).toBeGreaterThan(0);
@@ -230,7 +242,7 @@ describe("Member API Endpoints Integration Tests (Phase 7)", () => {
     it("should combine filter and search parameters", async () => {
       const uniqueId = Date.now();
       
-      await request(app).post("/api/members").send({
+      await request(app).post("/api/members").set("Authorization", adminAuth).send({
         firstName: "Active",
         lastName: "Searchable",
         email: `active-search-${uniqueId}@example.com`,
@@ -238,7 +250,7 @@ describe("Member API Endpoints Integration Tests (Phase 7)", () => {
         isActive: true,
       });
 
-      await request(app).post("/api/members").send({
+      await request(app).post("/api/members").set("Authorization", adminAuth).send({
         firstName: "Inactive",
         lastName: "Searchable",
         email: `inactive-search-${uniqueId}@example.com`,
@@ -246,7 +258,9 @@ describe("Member API Endpoints Integration Tests (Phase 7)", () => {
         isActive: false,
       });
 
-      const response = await request(app).get("/api/members?filter=active&search=Searchable");
+      const response = await request(app)
+        .get("/api/members?filter=active&search=Searchable")
+        .set("Authorization", adminAuth);
       
       expect(response.status).toBe(200);
       expect(response.body.every((m: any) => m.isActive === true)).toBe(true);
@@ -258,7 +272,9 @@ describe("Member API Endpoints Integration Tests (Phase 7)", () => {
     it("should return member by ID", async () => {
       const uniqueId = Date.now();
       
-      const createResponse = await request(app).post("/api/members").send({
+      const createResponse = await request(app)
+        .post("/api/members")
+        .set("Authorization", adminAuth).send({
         firstName: "Get",
         lastName: "Test",
         email: `get-${uniqueId}@example.com`,
@@ -266,7 +282,9 @@ describe("Member API Endpoints Integration Tests (Phase 7)", () => {
       });
 
       const memberId = createResponse.body.id;
-      const response = await request(app).get(`/api/members/${memberId}`);
+      const response = await request(app)
+        .get(`/api/members/${memberId}`)
+        .set("Authorization", adminAuth);
       
       expect(response.status).toBe(200);
       expect(response.body.id).toBe(memberId);
@@ -276,7 +294,9 @@ describe("Member API Endpoints Integration Tests (Phase 7)", () => {
     });
 
     it("should return 404 for non-existent member", async () => {
-      const response = await request(app).get("/api/members/non-existent-id");
+      const response = await request(app)
+        .get("/api/members/non-existent-id")
+        .set("Authorization", adminAuth);
       
       expect(response.status).toBe(404);
       expect(response.body.error).toBeDefined();
@@ -296,6 +316,7 @@ describe("Member API Endpoints Integration Tests (Phase 7)", () => {
 
       const response = await request(app)
         .post("/api/members")
+        .set("Authorization", adminAuth)
         .send(payload);
 
       expect(response.status).toBe(201);
@@ -327,6 +348,7 @@ describe("Member API Endpoints Integration Tests (Phase 7)", () => {
 
       const response = await request(app)
         .post("/api/members")
+        .set("Authorization", adminAuth)
         .send(payload);
 
       expect(response.status).toBe(201);
@@ -341,6 +363,7 @@ describe("Member API Endpoints Integration Tests (Phase 7)", () => {
     it("should return 400 for missing required fields", async () => {
       const response = await request(app)
         .post("/api/members")
+        .set("Authorization", adminAuth)
         .send({
           firstName: "Incomplete",
           // Missing lastName, email, phone
@@ -354,7 +377,7 @@ describe("Member API Endpoints Integration Tests (Phase 7)", () => {
       const uniqueId = Date.now();
       const email = `duplicate-${uniqueId}@example.com`;
       
-      await request(app).post("/api/members").send({
+      await request(app).post("/api/members").set("Authorization", adminAuth).send({
         firstName: "First",
         lastName: "User",
         email: email,
@@ -363,6 +386,7 @@ describe("Member API Endpoints Integration Tests (Phase 7)", () => {
 
       const response = await request(app)
         .post("/api/members")
+        .set("Authorization", adminAuth)
         .send({
           firstName: "Second",
           lastName: "User",
@@ -379,7 +403,9 @@ describe("Member API Endpoints Integration Tests (Phase 7)", () => {
     it("should update member with full data", async () => {
       const uniqueId = Date.now();
       
-      const createResponse = await request(app).post("/api/members").send({
+      const createResponse = await request(app)
+        .post("/api/members")
+        .set("Authorization", adminAuth).send({
         firstName: "Original",
         lastName: "Name",
         email: `original-${uniqueId}@example.com`,
@@ -397,6 +423,7 @@ describe("Member API Endpoints Integration Tests (Phase 7)", () => {
 
       const response = await request(app)
         .put(`/api/members/${memberId}`)
+        .set("Authorization", adminAuth)
         .send(updatePayload);
 
       expect(response.status).toBe(200);
@@ -408,7 +435,9 @@ describe("Member API Endpoints Integration Tests (Phase 7)", () => {
     it("should return 400 when no update data provided", async () => {
       const uniqueId = Date.now();
       
-      const createResponse = await request(app).post("/api/members").send({
+      const createResponse = await request(app)
+        .post("/api/members")
+        .set("Authorization", adminAuth).send({
         firstName: "Test",
         lastName: "User",
         email: `test-${uniqueId}@example.com`,
@@ -417,6 +446,7 @@ describe("Member API Endpoints Integration Tests (Phase 7)", () => {
 
       const response = await request(app)
         .put(`/api/members/${createResponse.body.id}`)
+        .set("Authorization", adminAuth)
         .send({});
 
       expect(response.status).toBe(400);
@@ -426,6 +456,7 @@ describe("Member API Endpoints Integration Tests (Phase 7)", () => {
     it("should return 404 for non-existent member", async () => {
       const response = await request(app)
         .put("/api/members/non-existent-id")
+        .set("Authorization", adminAuth)
         .send({
           firstName: "Updated",
         });
@@ -439,7 +470,9 @@ describe("Member API Endpoints Integration Tests (Phase 7)", () => {
     it("should update member status with PATCH", async () => {
       const uniqueId = Date.now();
       
-      const createResponse = await request(app).post("/api/members").send({
+      const createResponse = await request(app)
+        .post("/api/members")
+        .set("Authorization", adminAuth).send({
         firstName: "Status",
         lastName: "Change",
         email: `status-${uniqueId}@example.com`,
@@ -450,6 +483,7 @@ describe("Member API Endpoints Integration Tests (Phase 7)", () => {
       const memberId = createResponse.body.id;
       const response = await request(app)
         .patch(`/api/members/${memberId}`)
+        .set("Authorization", adminAuth)
         .send({
           isActive: false,
         });
@@ -462,7 +496,9 @@ describe("Member API Endpoints Integration Tests (Phase 7)", () => {
     it("should allow partial update of any field", async () => {
       const uniqueId = Date.now();
       
-      const createResponse = await request(app).post("/api/members").send({
+      const createResponse = await request(app)
+        .post("/api/members")
+        .set("Authorization", adminAuth).send({
         firstName: "Partial",
         lastName: "Update",
         email: `partial-${uniqueId}@example.com`,
@@ -472,6 +508,7 @@ describe("Member API Endpoints Integration Tests (Phase 7)", () => {
       const memberId = createResponse.body.id;
       const response = await request(app)
         .patch(`/api/members/${memberId}`)
+        .set("Authorization", adminAuth)
         .send({
           firstName: "Updated",
         });
@@ -484,7 +521,9 @@ describe("Member API Endpoints Integration Tests (Phase 7)", () => {
     it("should return 400 when no update data provided", async () => {
       const uniqueId = Date.now();
       
-      const createResponse = await request(app).post("/api/members").send({
+      const createResponse = await request(app)
+        .post("/api/members")
+        .set("Authorization", adminAuth).send({
         firstName: "Test",
         lastName: "User",
         email: `test-${uniqueId}@example.com`,
@@ -493,6 +532,7 @@ describe("Member API Endpoints Integration Tests (Phase 7)", () => {
 
       const response = await request(app)
         .patch(`/api/members/${createResponse.body.id}`)
+        .set("Authorization", adminAuth)
         .send({});
 
       expect(response.status).toBe(400);
@@ -504,7 +544,9 @@ describe("Member API Endpoints Integration Tests (Phase 7)", () => {
     it("should soft delete member (set isActive to false)", async () => {
       const uniqueId = Date.now();
       
-      const createResponse = await request(app).post("/api/members").send({
+      const createResponse = await request(app)
+        .post("/api/members")
+        .set("Authorization", adminAuth).send({
         firstName: "Delete",
         lastName: "Test",
         email: `delete-${uniqueId}@example.com`,
@@ -513,20 +555,26 @@ describe("Member API Endpoints Integration Tests (Phase 7)", () => {
       });
 
       const memberId = createResponse.body.id;
-      const deleteResponse = await request(app).delete(`/api/members/${memberId}`);
+      const deleteResponse = await request(app)
+        .delete(`/api/members/${memberId}`)
+        .set("Authorization", adminAuth);
 
       expect(deleteResponse.status).toBe(200);
       expect(deleteResponse.body.success).toBe(true);
       expect(deleteResponse.body.message).toBe("Member deactivated successfully");
 
       // Verify member is still accessible but inactive
-      const getResponse = await request(app).get(`/api/members/${memberId}`);
+      const getResponse = await request(app)
+        .get(`/api/members/${memberId}`)
+        .set("Authorization", adminAuth);
       expect(getResponse.status).toBe(200);
       expect(getResponse.body.isActive).toBe(false);
     });
 
     it("should return 404 for non-existent member", async () => {
-      const response = await request(app).delete("/api/members/non-existent-id");
+      const response = await request(app)
+        .delete("/api/members/non-existent-id")
+        .set("Authorization", adminAuth);
 
       expect(response.status).toBe(404);
       expect(response.body.code).toBe("NOT_FOUND");
@@ -537,7 +585,9 @@ describe("Member API Endpoints Integration Tests (Phase 7)", () => {
     it("should return empty array for member with no reservations", async () => {
       const uniqueId = Date.now();
       
-      const createResponse = await request(app).post("/api/members").send({
+      const createResponse = await request(app)
+        .post("/api/members")
+        .set("Authorization", adminAuth).send({
         firstName: "No",
         lastName: "Reservations",
         email: `no-res-${uniqueId}@example.com`,
@@ -545,7 +595,8 @@ describe("Member API Endpoints Integration Tests (Phase 7)", () => {
       });
 
       const response = await request(app)
-        .get(`/api/members/${createResponse.body.id}/reservations`);
+        .get(`/api/members/${createResponse.body.id}/reservations`)
+        .set("Authorization", adminAuth);
 
       expect(response.status).toBe(200);
       expect(Array.isArray(response.body)).toBe(true);
@@ -558,7 +609,9 @@ describe("Member API Endpoints Integration Tests (Phase 7)", () => {
       const uniqueHour = 10 + Math.floor((uniqueId / 100) % 5);
       
       // Create member
-      const createResponse = await request(app).post("/api/members").send({
+      const createResponse = await request(app)
+        .post("/api/members")
+        .set("Authorization", adminAuth).send({
         firstName: "With",
         lastName: "Reservations",
         email: `with-res-${uniqueId}@example.com`,
@@ -568,7 +621,7 @@ describe("Member API Endpoints Integration Tests (Phase 7)", () => {
       const memberId = createResponse.body.id;
 
       // Create reservation for member
-      await request(app).post("/api/reservations").send({
+      await request(app).post("/api/reservations").set("Authorization", adminAuth).send({
         courtId: "1",
         date: uniqueDate,
         timeSlot: {
@@ -579,7 +632,8 @@ describe("Member API Endpoints Integration Tests (Phase 7)", () => {
       });
 
       const response = await request(app)
-        .get(`/api/members/${memberId}/reservations`);
+        .get(`/api/members/${memberId}/reservations`)
+        .set("Authorization", adminAuth);
 
       expect(response.status).toBe(200);
       expect(Array.isArray(response.body)).toBe(true);
@@ -589,7 +643,8 @@ describe("Member API Endpoints Integration Tests (Phase 7)", () => {
 
     it("should return 404 for non-existent member", async () => {
       const response = await request(app)
-        .get("/api/members/non-existent-id/reservations");
+        .get("/api/members/non-existent-id/reservations")
+        .set("Authorization", adminAuth);
 
       expect(response.status).toBe(404);
       expect(response.body.code).toBe("NOT_FOUND");
@@ -601,7 +656,9 @@ describe("Member API Endpoints Integration Tests (Phase 7)", () => {
       const uniqueId = Date.now();
       
       // CREATE
-      const createResponse = await request(app).post("/api/members").send({
+      const createResponse = await request(app)
+        .post("/api/members")
+        .set("Authorization", adminAuth).send({
         firstName: "Lifecycle",
         lastName: "Test",
         email: `lifecycle-${uniqueId}@example.com`,
@@ -611,13 +668,16 @@ describe("Member API Endpoints Integration Tests (Phase 7)", () => {
       const memberId = createResponse.body.id;
 
       // READ
-      const getResponse = await request(app).get(`/api/members/${memberId}`);
+      const getResponse = await request(app)
+        .get(`/api/members/${memberId}`)
+        .set("Authorization", adminAuth);
       expect(getResponse.status).toBe(200);
       expect(getResponse.body.id).toBe(memberId);
 
       // UPDATE (PUT)
       const putResponse = await request(app)
         .put(`/api/members/${memberId}`)
+        .set("Authorization", adminAuth)
         .send({
           firstName: "Updated",
           lastName: "Test",
@@ -630,6 +690,7 @@ describe("Member API Endpoints Integration Tests (Phase 7)", () => {
       // UPDATE (PATCH)
       const patchResponse = await request(app)
         .patch(`/api/members/${memberId}`)
+        .set("Authorization", adminAuth)
         .send({
           isActive: false,
         });
@@ -637,24 +698,31 @@ describe("Member API Endpoints Integration Tests (Phase 7)", () => {
       expect(patchResponse.body.isActive).toBe(false);
 
       // DELETE (soft delete)
-      const deleteResponse = await request(app).delete(`/api/members/${memberId}`);
+      const deleteResponse = await request(app)
+        .delete(`/api/members/${memberId}`)
+        .set("Authorization", adminAuth);
       expect(deleteResponse.status).toBe(200);
       expect(deleteResponse.body.success).toBe(true);
 
       // Verify member is inactive
-      const finalGetResponse = await request(app).get(`/api/members/${memberId}`);
+      const finalGetResponse = await request(app)
+        .get(`/api/members/${memberId}`)
+        .set("Authorization", adminAuth);
       expect(finalGetResponse.body.isActive).toBe(false);
     });
 
     it("should handle all endpoints with proper error responses", async () => {
       // GET non-existent
-      const getResponse = await request(app).get("/api/members/non-existent");
+      const getResponse = await request(app)
+        .get("/api/members/non-existent")
+        .set("Authorization", adminAuth);
       expect(getResponse.status).toBe(404);
       expect(getResponse.body.code).toBe("NOT_FOUND");
 
       // PUT non-existent
       const putResponse = await request(app)
         .put("/api/members/non-existent")
+        .set("Authorization", adminAuth)
         .send({ firstName: "Test" });
       expect(putResponse.status).toBe(404);
       expect(putResponse.body.code).toBe("NOT_FOUND");
@@ -662,12 +730,15 @@ describe("Member API Endpoints Integration Tests (Phase 7)", () => {
       // PATCH non-existent
       const patchResponse = await request(app)
         .patch("/api/members/non-existent")
+        .set("Authorization", adminAuth)
         .send({ firstName: "Test" });
       expect(patchResponse.status).toBe(404);
       expect(patchResponse.body.code).toBe("NOT_FOUND");
 
       // DELETE non-existent
-      const deleteResponse = await request(app).delete("/api/members/non-existent");
+      const deleteResponse = await request(app)
+        .delete("/api/members/non-existent")
+        .set("Authorization", adminAuth);
       expect(deleteResponse.status).toBe(404);
       expect(deleteResponse.body.code).toBe("NOT_FOUND");
     });
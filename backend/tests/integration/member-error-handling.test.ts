@@ -9,6 +9,7 @@ import path from "path";
 import { promises as fs } from "fs";
 import os from "os";
 import app from "../../src/app";
+import { createSession } from "../../src/lib/auth/session-manager";
 import { memberCache } from "../../src/lib/cache/member-cache";
 import {
   MemberNotFoundError,
@@ -20,6 +21,7 @@ import {
 } from "../../src/lib/errors/member-errors";
 
 let tempDir = "";
+let adminAuth = "";
 let originalDataDir: string | undefined;
 
 beforeAll(async () => {
@@ -32,6 +34,8 @@ beforeAll(async () => {
   );
   tempDir = baseDir;
   process.env.DATA_DIR = tempDir;
+  // Admin session for the protected member/reservation endpoints
+  adminAuth = `Bearer ${(await createSession("test-admin", "admin@example.com", "admin")).token}`;
   // Ensure directory exists
   await fs.mkdir(tempDir, { recursive: true });
 });
@@ -96,7 +100,8 @@ describe("Member Error Handling Integration Tests", () => {
   describe("MemberNotFoundError", () => {
     it("should return 404 when getting non-existent member", async () => {
       const response = await request(app)
-        .get("/api/members/non-existent-id");
+        .get("/api/members/non-existent-id")
+        .set("Authorization", adminAuth);
 
       expect(response.status).toBe(404);
       expect(response.body.error).toBeDefined();
@@ -106,6 +111,7 @@ describe("Member Error Handling Integration Tests", () => {
     it("should return 404 when updating non-existent member", async () => {
       const response = await request(app)
         .put("/api/members/non-existent-id")
+        .set("Authorization", adminAuth)
         .send({ firstName: "Updated" });
 
       expect(response.status).toBe(404);
@@ -116,6 +122,7 @@ describe("Member Error Handling Integration Tests", () => {
     it("should return 404 when patching non-existent member", async () => {
       const response = await request(app)
         .patch("/api/members/non-existent-id")
+        .set("Authorization", adminAuth)
         .send({ firstName: "Updated" });
 
       expect(response.status).toBe(404);
@@ -125,7 +132,8 @@ describe("Member Error Handling Integration Tests", () => {
 
     it("should return 404 when deleting non-existent member", async () => {
       const response = await request(app)
-        .delete("/api/members/non-existent-id");
+        .delete("/api/members/non-existent-id")
+        .set("Authorization", adminAuth);
 
       expect(response.status).toBe(404);
       expect(response.body.error).toBeDefined();
@@ -134,7 +142,8 @@ describe("Member Error Handling Integration Tests", () => {
 
     it("should return 404 when getting reservations for non-existent member", async () => {
       const response = await request(app)
-        .get("/api/members/non-existent-id/reservations");
+        .get("/api/members/non-existent-id/reservations")
+        .set("Authorization", adminAuth);
 
       expect(response.status).toBe(404);
       expect(response.body.error).toBeDefined();
@@ -150,6 +159,7 @@ describe("Member Error Handling Integration Tests", () => {
       // Create first member
       await request(app)
         .post("/api/members")
+        .set("Authorization", adminAuth)
         .send({
           firstName: "First",
           lastName: "User",
@@ -160,6 +170,7 @@ describe("Member Error Handling Integration Tests", () => {
       // Try to create second member with same email
       const response = await request(app)
         .post("/api/members")
+        .set("Authorization", adminAuth)
         .send({
           firstName: "Second",
           lastName: "User",
@@ -181,6 +192,7 @@ describe("Member Error Handling Integration Tests", () => {
       // Create first member
       const member1 = await request(app)
         .post("/api/members")
+        .set("Authorization", adminAuth)
         .send({
           firstName: "First",
           lastName: "User",
@@ -191,6 +203,7 @@ describe("Member Error Handling Integration Tests", () => {
       // Create second member
       const member2 = await request(app)
         .post("/api/members")
+        .set("Authorization", adminAuth)
         .send({
           firstName: "Second",
           lastName: "User",
@@ -201,6 +214,7 @@ describe("Member Error Handling Integration Tests", () => {
       // Try to update second member to first member's email
       const response = await request(app)
         .put(`/api/members/${member2.body.id}`)
+        .set("Authorization", adminAuth)
         .send({
           email: email1,
         });
@@ -217,6 +231,7 @@ describe("Member Error Handling Integration Tests", () => {
       // Create first member with lowercase email
       await request(app)
         .post("/api/members")
+        .set("Authorization", adminAuth)
         .send({
           firstName: "First",
           lastName: "User",
@@ -227,6 +242,7 @@ describe("Member Error Handling Integration Tests", () => {
       // Try to create second member with uppercase email
       const response = await request(app)
         .post("/api/members")
+        .set("Authorization", adminAuth)
         .send({
           firstName: "Second",
           lastName: "User",
@@ -247,6 +263,7 @@ describe("Member Error Handling Integration Tests", () => {
       // Create first member with specific member number
       await request(app)
         .post("/api/members")
+        .set("Authorization", adminAuth)
         .send({
           firstName: "First",
           lastName: "User",
@@ -258,6 +275,7 @@ describe("Member Error Handling Integration Tests", () => {
       // Try to create second member with same member number
       const response = await request(app)
         .post("/api/members")
+        .set("Authorization", adminAuth)
         .send({
           firstName: "Second",
           lastName: "User",
@@ -280,6 +298,7 @@ describe("Member Error Handling Integration Tests", () => {
       // Create first member
       const member1 = await request(app)
         .post("/api/members")
+        .set("Authorization", adminAuth)
         .send({
           firstName: "First",
           lastName: "User",
@@ -291,6 +310,7 @@ describe("Member Error Handling Integration Tests", () => {
       // Create second member
       const member2 = await request(app)
         .post("/api/members")
+        .set("Authorization", adminAuth)
         .send({
           firstName: "Second",
           lastName: "User",
@@ -302,6 +322,7 @@ describe("Member Error Handling Integration Tests", () => {
       // Try to update second member to first member's number
       const response = await request(app)
         .put(`/api/members/${member2.body.id}`)
+        .set("Authorization", adminAuth)
         .send({
           memberNumber: memberNumber1,
         });
@@ -321,6 +342,7 @@ describe("Member Error Handling Integration Tests", () => {
       // Create inactive member
       const member = await request(app)
         .post("/api/members")
+        .set("Authorization", adminAuth)
         .send({
           firstName: "Inactive",
           lastName: "Member",
@@ -332,6 +354,7 @@ describe("Member Error Handling Integration Tests", () => {
       // Try to create reservation with inactive member
       const response = await request(app)
         .post("/api/reservations")
+        .set("Authorization", adminAuth)
         .send({
           courtId: "1",
           date: uniqueDate,
@@ -353,6 +376,7 @@ describe("Member Error Handling Integration Tests", () => {
     it("should return 400 when creating member with missing required fields", async () => {
       const response = await request(app)
         .post("/api/members")
+        .set("Authorization", adminAuth)
         .send({
           firstName: "Test",
           // Missing lastName, email, phone
@@ -365,6 +389,7 @@ describe("Member Error Handling Integration Tests", () => {
     it("should return 400 when creating member with invalid email format", async () => {
       const response = await request(app)
         .post("/api/members")
+        .set("Authorization", adminAuth)
         .send({
           firstName: "Test",
           lastName: "User",
@@ -383,6 +408,7 @@ describe("Member Error Handling Integration Tests", () => {
       // Create member
       const member = await request(app)
         .post("/api/members")
+        .set("Authorization", adminAuth)
         .send({
           firstName: "Test",
           lastName: "User",
@@ -393,6 +419,7 @@ describe("Member Error Handling Integration Tests", () => {
       // Try to update with invalid email
       const response = await request(app)
         .put(`/api/members/${member.body.id}`)
+        .set("Authorization", adminAuth)
         .send({
           email: "invalid-email-format",
         });
@@ -405,7 +432,8 @@ describe("Member Error Handling Integration Tests", () => {
   describe("Error Response Format", () => {
     it("should include error code in response", async () => {
       const response = await request(app)
-        .get("/api/members/non-existent-id");
+        .get("/api/members/non-existent-id")
+        .set("Authorization", adminAuth);
 
       expect(response.status).toBe(404);
       expect(response.body).toHaveProperty("error");
@@ -420,6 +448,7 @@ describe("Member Error Handling Integration Tests", () => {
       // Create first member
       await request(app)
         .post("/api/members")
+        .set("Authorization", adminAuth)
         .send({
           firstName: "First",
           lastName: "User",
@@ -430,6 +459,7 @@ describe("Member Error Handling Integration Tests", () => {
       // Try duplicate
       const response = await request(app)
         .post("/api/members")
+        .set("Authorization", adminAuth)
         .send({
           firstName: "Second",
           lastName: "User",
@@ -482,7 +512,8 @@ describe("Member Error Handling Integration Tests", () => {
   describe("HTTP Status Code Mapping", () => {
     it("should return 404 for MemberNotFoundError", async () => {
       const response = await request(app)
-        .get("/api/members/non-existent");
+        .get("/api/members/non-existent")
+        .set("Authorization", adminAuth);
 
       expect(response.status).toBe(404);
       expect(response.body.code).toBe("NOT_FOUND");
@@ -494,6 +525,7 @@ describe("Member Error Handling Integration Tests", () => {
 
       await request(app)
         .post("/api/members")
+        .set("Authorization", adminAuth)
         .send({
           firstName: "First",
           lastName: "User",
@@ -503,6 +535,7 @@ describe("Member Error Handling Integration Tests", () => {
 
       const response = await request(app)
         .post("/api/members")
+        .set("Authorization", adminAuth)
         .send({
           firstName: "Second",
           lastName: "User",
@@ -520,6 +553,7 @@ describe("Member Error Handling Integration Tests", () => {
 
       await request(app)
         .post("/api/members")
+        .set("Authorization", adminAuth)
         .send({
           firstName: "First",
           lastName: "User",
@@ -530,6 +564,7 @@ describe("Member Error Handling Integration Tests", () => {
 
       const response = await request(app)
         .post("/api/members")
+        .set("Authorization", adminAuth)
         .send({
           firstName: "Second",
           lastName: "User",
@@ -549,6 +584,7 @@ describe("Member Error Handling Integration Tests", () => {
 
       const member = await request(app)
         .post("/api/members")
+        .set("Authorization", adminAuth)
         .send({
           firstName: "Inactive",
           lastName: "Member",
@@ -559,6 +595,7 @@ describe("Member Error Handling Integration Tests", () => {
 
       const response = await request(app)
         .post("/api/reservations")
+        .set("Authorization", adminAuth)
         .send({
           courtId: "1",
           date: uniqueDate,
@@ -576,6 +613,7 @@ describe("Member Error Handling Integration Tests", () => {
     it("should return 400 for MemberValidationError", async () => {
       const response = await request(app)
         .post("/api/members")
+        .set("Authorization", adminAuth)
         .send({
           firstName: "Test",
           lastName: "User",
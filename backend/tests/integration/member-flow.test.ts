@@ -10,10 +10,12 @@ import path from "path";
 import { promises as fs } from "fs";
 import os from "os";
 import app from "../../src/app";
+import { createSession } from "../../src/lib/auth/session-manager";
 import { memberCache } from "../../src/lib/cache/member-cache";
 import { reservationCache } from "../../src/lib/cache/reservation-cache";
 
 let tempDir = "";
+let adminAuth = "";
 let originalDataDir: string | undefined;
 
 beforeAll(async () => {
@@ -26,6 +28,8 @@ beforeAll(async () => {
   );
   tempDir = baseDir;
   process.env.DATA_DIR = tempDir;
+  // Admin session for the protected member/reservation endpoints
+  adminAuth = `Bearer ${(await createSession("test-admin", "admin@example.com", "admin")).token}`;
   // Ensure directory exists
   await fs.mkdir(tempDir, { recursive: true });
 });
@@ -102,6 +106,7 @@ describe("Member Flow Integration Tests", () => {
       // CREATE
       const createResponse = await request(app)
         .post("/api/members")
+        .set("Authorization", adminAuth)
         .send({
           firstName: "Integration",
           lastName: "Test",
@@ -118,7 +123,9 @@ describe("Member Flow Integration Tests", () => {
       const memberId = createResponse.body.id;
 
       // READ
-      const getResponse = await request(app).get(`/api/members/${memberId}`);
+      const getResponse = await request(app)
+        .get(`/api/members/${memberId}`)
+        .set("Authorization", adminAuth);
       expect(getResponse.status).toBe(200);
       expect(getResponse.body.id).toBe(memberId);
       expect(getResponse.body.firstName).toBe("Integration");
@@ -126,6 +133,7 @@ describe("Member Flow Integration Tests", () => {
       // UPDATE
       const updateResponse = await request(app)
         .put(`/api/members/${memberId}`)
+        .set("Authorization", adminAuth)
         .send({
           firstName: "Updated",
           notes: "Integration test notes",
@@ -136,12 +144,16 @@ describe("Member Flow Integration Tests", () => {
       expect(updateResponse.body.notes).toBe("Integration test notes");
 
       // DELETE (soft delete)
-      const deleteResponse = await request(app).delete(`/api/members/${memberId}`);
+      const deleteResponse = await request(app)
+        .delete(`/api/members/${memberId}`)
+        .set("Authorization", adminAuth);
       expect(deleteResponse.status).toBe(200);
       expect(deleteResponse.body.success).toBe(true);
 
       // Verify member is inactive but still accessible
-      const getAfterDeleteResponse = await request(app).get(`/api/members/${memberId}`);
+      const getAfterDeleteResponse = await request(app)
+        .get(`/api/members/${memberId}`)
+        .set("Authorization", adminAuth);
       expect(getAfterDeleteResponse.status).toBe(200);
       expect(getAfterDeleteResponse.body.isActive).toBe(false);
     });
@@ -151,6 +163,7 @@ describe("Member Flow Integration Tests", () => {
       
       const createResponse = await request(app)
         .post("/api/members")
+        .set("Authorization", adminAuth)
         .send({
           firstName: "Patch",
           lastName: "Test",
@@ -164,6 +177,7 @@ describe("Member Flow Integration Tests", () => {
       // PATCH to change status only
       const patchResponse = await request(app)
         .patch(`/api/members/${memberId}`)
+        .set("Authorization", adminAuth)
         .send({
           isActive: false,
         });
@@ -181,6 +195,7 @@ describe("Member Flow Integration Tests", () => {
       // Create active members
       await request(app)
         .post("/api/members")
+        .set("Authorization", adminAuth)
         .send({
           firstName: "Active1",
           lastName: "Member",
@@ -191,6 +206,7 @@ describe("Member Flow Integration Tests", () => {
 
       await request(app)
         .post("/api/members")
+        .set("Authorization", adminAuth)
         .send({
           firstName: "Active2",
           lastName: "Member",
@@ -202,6 +218,7 @@ describe("Member Flow Integration Tests", () => {
       // Create inactive member
       await request(app)
         .post("/api/members")
+        .set("Authorization", adminAuth)
         .send({
           firstName: "Inactive",
           lastName: "Member",
@@ -211,19 +228,25 @@ describe("Member Flow Integration Tests", () => {
         });
 
       // Test active filter
-      const activeResponse = await request(app).get("/api/members?filter=active");
+      const activeResponse = await request(app)
+        .get("/api/members?filter=active")
+        .set("Authorization", adminAuth);
       expect(activeResponse.status).toBe(200);
       expect(activeResponse.body.length).toBe(2);
       expect(activeResponse.body.every((m: any) => m.isActive === true)).toBe(true);
 
       // Test inactive filter
-      const inactiveResponse = await request(app).get("/api/members?filter=inactive");
+      const inactiveResponse = await request(app)
+        .get("/api/members?filter=inactive")
+        .set("Authorization", adminAuth);
       expect(inactiveResponse.status).toBe(200);
       expect(inactiveResponse.body.length).toBe(1);
       expect(inactiveResponse.body[0].isActive).toBe(false);
 
       // Test all filter
-      const allResponse = await request(app).get("/api/members?filter=all");
+      const allResponse = await request(app)
+        .get("/api/members?filter=all")
+        .set("Authorization", adminAuth);
       expect(allResponse.status).toBe(200);
       expect(allResponse.body.length).toBe(3);
     });
@@ -233,6 +256,7 @@ describe("Member Flow Integration Tests", () => {
       
       await request(app)
         .post("/api/members")
+        .set("Authorization", adminAuth)
         .send({
           firstName: "Searchable",
           lastName: "User",
@@ -242,6 +266,7 @@ describe("Member Flow Integration Tests", () => {
 
       await request(app)
         .post("/api/members")
+        .set("Authorization", adminAuth)
         .send({
           firstName: "Other",
           lastName: "Person",
@@ -250,18 +275,24 @@ describe("Member Flow Integration Tests", () => {
         });
 
       // Search by first name
-      const nameResponse = await request(app).get("/api/members?search=Searchable");
+      const nameResponse = await request(app)
+        .get("/api/members?search=Searchable")
+        .set("Authorization", adminAuth);
       expect(nameResponse.status).toBe(200);
       expect(nameResponse.body.length).toBe(1);
       expect(nameResponse.body[0].firstName).toBe("Searchable");
 
       // Search by email
-      const emailResponse = await request(app).get(`/api/members?search=searchable-${uniqueId}`);
+      const emailResponse = await request(app)
+        .get(`/api/members?search=searchable-${uniqueId}`)
+        .set("Authorization", adminAuth);
       expect(emailResponse.status).toBe(200);
       expect(emailResponse.body.length).toBe(1);
 
       // Search by phone
-      const phoneResponse = await request(app).get("/api/members?search=401-555-1111");
+      const phoneResponse = await request(app)
+        .get("/api/members?search=401-555-1111")
+        .set("Authorization", adminAuth);
       expect(phoneResponse.status).toBe(200);
       expect(phoneResponse.body.length).toBe(1);
     });
@@ -271,6 +302,7 @@ describe("Member Flow Integration Tests", () => {
       
       await request(app)
         .post("/api/members")
+        .set("Authorization", adminAuth)
         .send({
           firstName: "Active",
           lastName: "Searchable",
@@ -281,6 +313,7 @@ describe("Member Flow Integration Tests", () => {
 
       await request(app)
         .post("/api/members")
+        .set("Authorization", adminAuth)
         .send({
           firstName: "Inactive",
           lastName: "Searchable",
@@ -289,7 +322,9 @@ describe("Member Flow Integration Tests", () => {
           isActive: false,
         });
 
-      const response = await request(app).get("/api/members?filter=active&search=Searchable");
+      const response = await request(app)
+        .get("/api/members?filter=active&search=Searchable")
+        .set("Authorization", adminAuth);
       expect(response.status).toBe(200);
       expect(response.body.length).toBe(1);
       expect(response.body[0].isActive).toBe(true);
@@ -301,6 +336,7 @@ describe("Member Flow Integration Tests", () => {
     it("should return 400 for missing required fields", async () => {
       const response = await request(app)
         .post("/api/members")
+        .set("Authorization", adminAuth)
         .send({
           firstName: "Incomplete",
           // Missing lastName, email, phone
@@ -317,6 +353,7 @@ describe("Member Flow Integration Tests", () => {
       // Create first member
       await request(app)
         .post("/api/members")
+        .set("Authorization", adminAuth)
         .send({
           firstName: "First",
           lastName: "User",
@@ -327,6 +364,7 @@ describe("Member Flow Integration Tests", () => {
       // Try to create duplicate
       const response = await request(app)
         .post("/api/members")
+        .set("Authorization", adminAuth)
         .send({
           firstName: "Second",
           lastName: "User",
@@ -339,7 +377,9 @@ describe("Member Flow Integration Tests", () => {
     });
 
     it("should return 404 for non-existent member", async () => {
-      const response = await request(app).get("/api/members/non-existent-id");
+      const response = await request(app)
+        .get("/api/members/non-existent-id")
+        .set("Authorization", adminAuth);
       
       expect(response.status).toBe(404);
       expect(response.body.code).toBe("NOT_FOUND");
@@ -350,6 +390,7 @@ describe("Member Flow Integration Tests", () => {
       
       const createResponse = await request(app)
         .post("/api/members")
+        .set("Authorization", adminAuth)
         .send({
           firstName: "Update",
           lastName: "Test",
@@ -362,6 +403,7 @@ describe("Member Flow Integration Tests", () => {
       // Try to update with empty data
       const response = await request(app)
         .put(`/api/members/${memberId}`)
+        .set("Authorization", adminAuth)
         .send({});
 
       expect(response.status).toBe(400);
@@ -373,6 +415,7 @@ describe("Member Flow Integration Tests", () => {
       
       const member1 = await request(app)
         .post("/api/members")
+        .set("Authorization", adminAuth)
         .send({
           firstName: "First",
           lastName: "User",
@@ -382,6 +425,7 @@ describe("Member Flow Integration Tests", () => {
 
       const member2 = await request(app)
         .post("/api/members")
+        .set("Authorization", adminAuth)
         .send({
           firstName: "Second",
           lastName: "User",
@@ -391,6 +435,7 @@ describe("Member Flow Integration Tests", () => {
 
       const response = await request(app)
         .put(`/api/members/${member2.body.id}`)
+        .set("Authorization", adminAuth)
         .send({
           email: `first-${uniqueId}@example.com`,
         });
@@ -406,6 +451,7 @@ describe("Member Flow Integration Tests", () => {
       
       const response = await request(app)
         .post("/api/members")
+        .set("Authorization", adminAuth)
         .send({
           firstName: "Default",
           lastName: "Status",
@@ -422,6 +468,7 @@ describe("Member Flow Integration Tests", () => {
       
       const response = await request(app)
         .post("/api/members")
+        .set("Authorization", adminAuth)
         .send({
           firstName: "Inactive",
           lastName: "Member",
@@ -439,6 +486,7 @@ describe("Member Flow Integration Tests", () => {
       
       const createResponse = await request(app)
         .post("/api/members")
+        .set("Authorization", adminAuth)
         .send({
           firstName: "Status",
           lastName: "Change",
@@ -452,6 +500,7 @@ describe("Member Flow Integration Tests", () => {
       // Deactivate
       const deactivateResponse = await request(app)
         .patch(`/api/members/${memberId}`)
+        .set("Authorization", adminAuth)
         .send({ isActive: false });
 
       expect(deactivateResponse.status).toBe(200);
@@ -460,6 +509,7 @@ describe("Member Flow Integration Tests", () => {
       // Reactivate
       const reactivateResponse = await request(app)
         .patch(`/api/members/${memberId}`)
+        .set("Authorization", adminAuth)
         .send({ isActive: true });
 
       expect(reactivateResponse.status).toBe(200);
@@ -473,6 +523,7 @@ describe("Member Flow Integration Tests", () => {
       
       const member1 = await request(app)
         .post("/api/members")
+        .set("Authorization", adminAuth)
         .send({
           firstName: "First",
           lastName: "Member",
@@ -482,6 +533,7 @@ describe("Member Flow Integration Tests", () => {
 
       const member2 = await request(app)
         .post("/api/members")
+        .set("Authorization", adminAuth)
         .send({
           firstName: "Second",
           lastName: "Member",
@@ -498,6 +550,7 @@ describe("Member Flow Integration Tests", () => {
       
       const response = await request(app)
         .post("/api/members")
+        .set("Authorization", adminAuth)
         .send({
           firstName: "Custom",
           lastName: "Number",
@@ -517,6 +570,7 @@ describe("Member Flow Integration Tests", () => {
       
       const response = await request(app)
         .post("/api/members")
+        .set("Authorization", adminAuth)
         .send({
           firstName: "Email",
           lastName: "Test",
@@ -535,6 +589,7 @@ describe("Member Flow Integration Tests", () => {
       // Create member with lowercase email
       await request(app)
         .post("/api/members")
+        .set("Authorization", adminAuth)
         .send({
           firstName: "First",
           lastName: "User",
@@ -545,6 +600,7 @@ describe("Member Flow Integration Tests", () => {
       // Try to create with uppercase email
       const response = await request(app)
         .post("/api/members")
+        .set("Authorization", adminAuth)
         .send({
           firstName: "Second",
           lastName: "User",
@@ -563,6 +619,7 @@ describe("Member Flow Integration Tests", () => {
       
       const memberResponse = await request(app)
         .post("/api/members")
+        .set("Authorization", adminAuth)
         .send({
           firstName: "No",
           lastName: "Reservations",
@@ -573,7 +630,8 @@ describe("Member Flow Integration Tests", () => {
       const memberId = memberResponse.body.id;
 
       const response = await request(app)
-        .get(`/api/members/${memberId}/reservations`);
+        .get(`/api/members/${memberId}/reservations`)
+        .set("Authorization", adminAuth);
 
       expect(response.status).toBe(200);
       expect(Array.isArray(response.body)).toBe(true);
@@ -582,7 +640,8 @@ describe("Member Flow Integration Tests", () => {
 
     it("should return 404 for non-existent member", async () => {
       const response = await request(app)
-        .get("/api/members/non-existent-id/reservations");
+        .get("/api/members/non-existent-id/reservations")
+        .set("Authorization", adminAuth);
 
       expect(response.status).toBe(404);
       expect(response.body.code).toBe("NOT_FOUND");
@@ -599,6 +658,7 @@ describe("Member Flow Integration Tests", () => {
         promises.push(
           request(app)
             .post("/api/members")
+            .set("Authorization", adminAuth)
             .send({
               firstName: `Concurrent${i}`,
               lastName: "Test",
@@ -617,7 +677,7 @@ describe("Member Flow Integration Tests", () => {
       });
 
       // Verify all members were created
-      const listResponse = await request(app).get("/api/members");
+      const listResponse = await request(app).get("/api/members").set("Authorization", adminAuth);
       expect(listResponse.body.length).toBe(5);
     });
   });
@@ -629,6 +689,7 @@ describe("Member Flow Integration Tests", () => {
       // 1. CREATE
       const createResponse = await request(app)
         .post("/api/members")
+        .set("Authorization", adminAuth)
         .send({
           firstName: "Lifecycle",
           lastName: "Test",
@@ -646,6 +707,7 @@ describe("Member Flow Integration Tests", () => {
       // 2. UPDATE
       const updateResponse = await request(app)
         .put(`/api/members/${memberId}`)
+        .set("Authorization", adminAuth)
         .send({
           notes: "Lifecycle test notes",
           ntrpRating: "4.5",
@@ -658,33 +720,43 @@ describe("Member Flow Integration Tests", () => {
       // 3. DEACTIVATE
       const deactivateResponse = await request(app)
         .patch(`/api/members/${memberId}`)
+        .set("Authorization", adminAuth)
         .send({ isActive: false });
 
       expect(deactivateResponse.status).toBe(200);
       expect(deactivateResponse.body.isActive).toBe(false);
 
       // Verify filtered list
-      const activeListResponse = await request(app).get("/api/members?filter=active");
+      const activeListResponse = await request(app)
+        .get("/api/members?filter=active")
+        .set("Authorization", adminAuth);
       expect(activeListResponse.body.find((m: any) => m.id === memberId)).toBeUndefined();
 
-      const inactiveListResponse = await request(app).get("/api/members?filter=inactive");
+      const inactiveListResponse = await request(app)
+        .get("/api/members?filter=inactive")
+        .set("Authorization", adminAuth);
       expect(inactiveListResponse.body.find((m: any) => m.id === memberId)).toBeDefined();
 
       // 4. REACTIVATE
       const reactivateResponse = await request(app)
         .patch(`/api/members/${memberId}`)
+        .set("Authorization", adminAuth)
         .send({ isActive: true });
 
       expect(reactivateResponse.status).toBe(200);
       expect(reactivateResponse.body.isActive).toBe(true);
 
       // 5. DELETE (soft delete)
-      const deleteResponse = await request(app).delete(`/api/members/${memberId}`);
+      const deleteResponse = await request(app)
+        .delete(`/api/members/${memberId}`)
+        .set("Authorization", adminAuth);
       expect(deleteResponse.status).toBe(200);
       expect(deleteResponse.body.success).toBe(true);
 
       // Verify member is still accessible but inactive
-      const finalGetResponse = await request(app).get(`/api/members/${memberId}`);
+      const finalGetResponse = await request(app)
+        .get(`/api/members/${memberId}`)
+        .set("Authorization", adminAuth);
       expect(finalGetResponse.status).toBe(200);
       expect(finalGetResponse.body.isActive).toBe(false);
     });
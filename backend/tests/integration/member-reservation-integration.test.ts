@@ -10,10 +10,12 @@ import path from "path";
 import { promises as fs } from "fs";
 import os from "os";
 import app from "../../src/app";
+import { createSession } from "../../src/lib/auth/session-manager";
 import { memberCache } from "../../src/lib/cache/member-cache";
 import { reservationCache } from "../../src/lib/cache/reservation-cache";
 
 let tempDir = "";
+let adminAuth = "";
 let originalDataDir: string | undefined;
 
 beforeAll(async () => {
@@ -26,6 +28,8 @@ beforeAll(async () => {
   );
   tempDir = baseDir;
   process.env.DATA_DIR = tempDir;
+  // Admin session for the protected member/reservation endpoints
+  adminAuth = `Bearer ${(await createSession("test-admin", "admin@example.com", "admin")).token}`;
   // Ensure directory exists
   await fs.mkdir(tempDir, { recursive: true });
 });
@@ -120,6 +124,7 @@ describe("Member-Reservation Integration Tests", () => {
       // Create member
       const memberResponse = await request(app)
         .post("/api/members")
+        .set("Authorization", adminAuth)
         .send({
           firstName: "Member",
           lastName: "Reservation",
@@ -132,6 +137,7 @@ describe("Member-Reservation Integration Tests", () => {
       // Create reservation with memberId
       const reservationResponse = await request(app)
         .post("/api/reservations")
+        .set("Authorization", adminAuth)
         .send({
           courtId: "1",
           date: uniqueDate,
@@ -153,6 +159,7 @@ describe("Member-Reservation Integration Tests", () => {
       // Create inactive member
       const memberResponse = await request(app)
         .post("/api/members")
+        .set("Authorization", adminAuth)
         .send({
           firstName: "Inactive",
           lastName: "Member",
@@ -166,6 +173,7 @@ describe("Member-Reservation Integration Tests", () => {
       // Try to create reservation with inactive member
       const reservationResponse = await request(app)
         .post("/api/reservations")
+        .set("Authorization", adminAuth)
         .send({
           courtId: "1",
           date: uniqueDate,
@@ -187,6 +195,7 @@ describe("Member-Reservation Integration Tests", () => {
       // Create member
       const memberResponse = await request(app)
         .post("/api/members")
+        .set("Authorization", adminAuth)
         .send({
           firstName: "Multiple",
           lastName: "Reservations",
@@ -199,6 +208,7 @@ describe("Member-Reservation Integration Tests", () => {
       // Create first reservation
       const res1 = await request(app)
         .post("/api/reservations")
+        .set("Authorization", adminAuth)
         .send({
           courtId: "1",
           date: uniqueDate1,
@@ -209,6 +219,7 @@ describe("Member-Reservation Integration Tests", () => {
       // Create second reservation
       const res2 = await request(app)
         .post("/api/reservations")
+        .set("Authorization", adminAuth)
         .send({
           courtId: "2",
           date: uniqueDate2,
@@ -221,7 +232,8 @@ describe("Member-Reservation Integration Tests", () => {
 
       // Get member's reservations
       const memberReservationsResponse = await request(app)
-        .get(`/api/members/${memberId}/reservations`);
+        .get(`/api/members/${memberId}/reservations`)
+        .set("Authorization", adminAuth);
 
       expect(memberReservationsResponse.status).toBe(200);
       expect(Array.isArray(memberReservationsResponse.body)).toBe(true);
@@ -287,6 +299,7 @@ describe("Member-Reservation Integration Tests", () => {
       // Create member
       const memberResponse = await request(app)
         .post("/api/members")
+        .set("Authorization", adminAuth)
         .send({
           firstName: "Penalty",
           lastName: "Test",
@@ -300,6 +313,7 @@ describe("Member-Reservation Integration Tests", () => {
       // Create reservation
       const reservationResponse = await request(app)
         .post("/api/reservations")
+        .set("Authorization", adminAuth)
         .send({
           courtId: "1",
           date: uniqueDate,
@@ -317,7 +331,9 @@ describe("Member-Reservation Integration Tests", () => {
       expect(getResResponse.body.memberId).toBe(memberId);
 
       // Cancel reservation
-      const cancelResponse = await request(app).delete(`/api/reservations/${reservationId}`);
+      const cancelResponse = await request(app)
+        .delete(`/api/reservations/${reservationId}`)
+        .set("Authorization", adminAuth);
       expect(cancelResponse.status).toBe(200);
 
       // Small delay to ensure member update and cache invalidation completes
@@ -327,7 +343,9 @@ describe("Member-Reservation Integration Tests", () => {
       memberCache.clear();
 
       // Check penalty cancellations increased
-      const updatedMemberResponse = await request(app).get(`/api/members/${memberId}`);
+      const updatedMemberResponse = await request(app)
+        .get(`/api/members/${memberId}`)
+        .set("Authorization", adminAuth);
       expect(updatedMemberResponse.status).toBe(200);
       expect(updatedMemberResponse.body.penaltyCancellations).toBe(1);
     });
@@ -352,7 +370,9 @@ describe("Member-Reservation Integration Tests", () => {
       const reservationId = reservationResponse.body.id;
 
       // Cancel reservation (should not affect any member)
-      const cancelResponse = await request(app).delete(`/api/reservations/${reservationId}`);
+      const cancelResponse = await request(app)
+        .delete(`/api/reservations/${reservationId}`)
+        .set("Authorization", adminAuth);
       expect(cancelResponse.status).toBe(200);
       
       // No member to check, but should not throw errors
@@ -370,6 +390,7 @@ describe("Member-Reservation Integration Tests", () => {
       // Create active member
       const memberResponse = await request(app)
         .post("/api/members")
+        .set("Authorization", adminAuth)
         .send({
           firstName: "Status",
           lastName: "Change",
@@ -383,6 +404,7 @@ describe("Member-Reservation Integration Tests", () => {
       // Create first reservation (should succeed)
       const res1 = await request(app)
         .post("/api/reservations")
+        .set("Authorization", adminAuth)
         .send({
           courtId: "1",
           date: uniqueDate1,
@@ -395,11 +417,13 @@ describe("Member-Reservation Integration Tests", () => {
       // Deactivate member
       await request(app)
         .patch(`/api/members/${memberId}`)
+        .set("Authorization", adminAuth)
         .send({ isActive: false });
 
       // Try to create second reservation (should fail)
       const res2 = await request(app)
         .post("/api/reservations")
+        .set("Authorization", adminAuth)
         .send({
           courtId: "2",
           date: uniqueDate2,
@@ -423,6 +447,7 @@ describe("Member-Reservation Integration Tests", () => {
       // Create member
       const memberResponse = await request(app)
         .post("/api/members")
+        .set("Authorization", adminAuth)
         .send({
           firstName: "Mixed",
           lastName: "Test",
@@ -435,6 +460,7 @@ describe("Member-Reservation Integration Tests", () => {
       // Create member reservation
       const memberRes = await request(app)
         .post("/api/reservations")
+        .set("Authorization", adminAuth)
         .send({
           courtId: "1",
           date: uniqueDate1,
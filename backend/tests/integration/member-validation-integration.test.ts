@@ -10,9 +10,11 @@ import path from "path";
 import { promises as fs } from "fs";
 import os from "os";
 import app from "../../src/app";
+import { createSession } from "../../src/lib/auth/session-manager";
 import { memberCache } from "../../src/lib/cache/member-cache";
 
 let tempDir = "";
+let adminAuth = "";
 let originalDataDir: string | undefined;
 
 beforeAll(async () => {
@@ -25,6 +27,8 @@ beforeAll(async () => {
   );
   tempDir = baseDir;
   process.env.DATA_DIR = tempDir;
+  // Admin session for the protected member/reservation endpoints
+  adminAuth = `Bearer ${(await createSession("test-admin", "admin@example.com", "admin")).token}`;
   // Ensure directory exists
   await fs.mkdir(tempDir, { recursive: true });
 });
@@ -99,6 +103,7 @@ describe("Member Validation Integration Tests", () => {
       for (const email of validEmails) {
         const response = await request(app)
           .post("/api/members")
+          .set("Authorization", adminAuth)
           .send({
             firstName: "Test",
             lastName: "User",
@@ -124,6 +129,7 @@ describe("Member Validation Integration Tests", () => {
       for (const email of invalidEmails) {
         const response = await request(app)
           .post("/api/members")
+          .set("Authorization", adminAuth)
           .send({
             firstName: "Test",
             lastName: "User",
@@ -148,6 +154,7 @@ describe("Member Validation Integration Tests", () => {
 
       const response = await request(app)
         .post("/api/members")
+        .set("Authorization", adminAuth)
         .send({
           firstName: "Test",
           lastName: "User",
@@ -167,6 +174,7 @@ describe("Member Validation Integration Tests", () => {
 
       const response = await request(app)
         .post("/api/members")
+        .set("Authorization", adminAuth)
         .send({
           firstName: "Test",
           lastName: "User",
@@ -185,6 +193,7 @@ describe("Member Validation Integration Tests", () => {
       const uniqueId = Date.now();
       const response = await request(app)
         .post("/api/members")
+        .set("Authorization", adminAuth)
         .send({
           lastName: "User",
           email: `test-${uniqueId}@example.com`,
@@ -199,6 +208,7 @@ describe("Member Validation Integration Tests", () => {
       const uniqueId = Date.now();
       const response = await request(app)
         .post("/api/members")
+        .set("Authorization", adminAuth)
         .send({
           firstName: "Test",
           email: `test-${uniqueId}@example.com`,
@@ -212,6 +222,7 @@ describe("Member Validation Integration Tests", () => {
     it("should reject member creation without email", async () => {
       const response = await request(app)
         .post("/api/members")
+        .set("Authorization", adminAuth)
         .send({
           firstName: "Test",
           lastName: "User",
@@ -226,6 +237,7 @@ describe("Member Validation Integration Tests", () => {
       const uniqueId = Date.now();
       const response = await request(app)
         .post("/api/members")
+        .set("Authorization", adminAuth)
         .send({
           firstName: "Test",
           lastName: "User",
@@ -242,6 +254,7 @@ describe("Member Validation Integration Tests", () => {
       // Empty firstName
       const response1 = await request(app)
         .post("/api/members")
+        .set("Authorization", adminAuth)
         .send({
           firstName: "   ",
           lastName: "User",
@@ -253,6 +266,7 @@ describe("Member Validation Integration Tests", () => {
       // Empty lastName
       const response2 = await request(app)
         .post("/api/members")
+        .set("Authorization", adminAuth)
         .send({
           firstName: "Test",
           lastName: "",
@@ -264,6 +278,7 @@ describe("Member Validation Integration Tests", () => {
       // Empty email
       const response3 = await request(app)
         .post("/api/members")
+        .set("Authorization", adminAuth)
         .send({
           firstName: "Test",
           lastName: "User",
@@ -275,6 +290,7 @@ describe("Member Validation Integration Tests", () => {
       // Empty phone
       const response4 = await request(app)
         .post("/api/members")
+        .set("Authorization", adminAuth)
         .send({
           firstName: "Test",
           lastName: "User",
@@ -290,6 +306,7 @@ describe("Member Validation Integration Tests", () => {
       const uniqueId = Date.now();
       const response = await request(app)
         .post("/api/members")
+        .set("Authorization", adminAuth)
         .send({
           firstName: "Test",
           lastName: "User",
@@ -314,6 +331,7 @@ describe("Member Validation Integration Tests", () => {
         const uniqueEmail = `test-${uniqueId}-${Date.now()}-${Math.random()}@example.com`;
         const response = await request(app)
           .post("/api/members")
+          .set("Authorization", adminAuth)
           .send({
             firstName: "Test",
             lastName: "User",
@@ -332,6 +350,7 @@ describe("Member Validation Integration Tests", () => {
       const uniqueId = Date.now();
       const response = await request(app)
         .post("/api/members")
+        .set("Authorization", adminAuth)
         .send({
           firstName: "Test",
           lastName: "User",
@@ -351,6 +370,7 @@ describe("Member Validation Integration Tests", () => {
       // Create member
       const member = await request(app)
         .post("/api/members")
+        .set("Authorization", adminAuth)
         .send({
           firstName: "Test",
           lastName: "User",
@@ -361,6 +381,7 @@ describe("Member Validation Integration Tests", () => {
       // Try to update with invalid email
       const response = await request(app)
         .put(`/api/members/${member.body.id}`)
+        .set("Authorization", adminAuth)
         .send({
           email: "invalid-email-format",
         });
@@ -376,6 +397,7 @@ describe("Member Validation Integration Tests", () => {
       // Create member
       const member = await request(app)
         .post("/api/members")
+        .set("Authorization", adminAuth)
         .send({
           firstName: "Test",
           lastName: "User",
@@ -386,6 +408,7 @@ describe("Member Validation Integration Tests", () => {
       // Try to update with empty firstName
       const response1 = await request(app)
         .put(`/api/members/${member.body.id}`)
+        .set("Authorization", adminAuth)
         .send({
           firstName: "   ",
         });
@@ -394,6 +417,7 @@ describe("Member Validation Integration Tests", () => {
       // Try to update with empty lastName
       const response2 = await request(app)
         .put(`/api/members/${member.body.id}`)
+        .set("Authorization", adminAuth)
         .send({
           lastName: "",
         });
@@ -402,6 +426,7 @@ describe("Member Validation Integration Tests", () => {
       // Try to update with empty email
       const response3 = await request(app)
         .put(`/api/members/${member.body.id}`)
+        .set("Authorization", adminAuth)
         .send({
           email: "   ",
         });
@@ -410,6 +435,7 @@ describe("Member Validation Integration Tests", () => {
       // Try to update with empty phone
       const response4 = await request(app)
         .put(`/api/members/${member.body.id}`)
+        .set("Authorization", adminAuth)
         .send({
           phone: "",
         });
@@ -422,6 +448,7 @@ describe("Member Validation Integration Tests", () => {
       // Create member
       const member = await request(app)
         .post("/api/members")
+        .set("Authorization", adminAuth)
         .send({
           firstName: "Test",
           lastName: "User",
@@ -432,6 +459,7 @@ describe("Member Validation Integration Tests", () => {
       // Try to update with negative penalty
       const response = await request(app)
         .put(`/api/members/${member.body.id}`)
+        .set("Authorization", adminAuth)
         .send({
           penaltyCancellations: -1,
         });
@@ -447,6 +475,7 @@ describe("Member Validation Integration Tests", () => {
       // Create member
       const member = await request(app)
         .post("/api/members")
+        .set("Authorization", adminAuth)
         .send({
           firstName: "Test",
           lastName: "User",
@@ -457,6 +486,7 @@ describe("Member Validation Integration Tests", () => {
       // Update with valid date
       const response = await request(app)
         .put(`/api/members/${member.body.id}`)
+        .set("Authorization", adminAuth)
         .send({
           dateOfBirth: "1985-06-20",
         });
@@ -471,6 +501,7 @@ describe("Member Validation Integration Tests", () => {
       // Create member
       const member = await request(app)
         .post("/api/members")
+        .set("Authorization", adminAuth)
         .send({
           firstName: "Test",
           lastName: "User",
@@ -481,6 +512,7 @@ describe("Member Validation Integration Tests", () => {
       // Update only firstName (partial update)
       const response = await request(app)
         .patch(`/api/members/${member.body.id}`)
+        .set("Authorization", adminAuth)
         .send({
           firstName: "Updated",
         });
@@ -495,6 +527,7 @@ describe("Member Validation Integration Tests", () => {
     it("should return validation error with proper format", async () => {
       const response = await request(app)
         .post("/api/members")
+        .set("Authorization", adminAuth)
         .send({
           firstName: "Test",
           lastName: "User",
@@ -516,6 +549,7 @@ describe("Member Validation Integration Tests", () => {
       // Missing firstName - API checks required fields first
       const response1 = await request(app)
         .post("/api/members")
+        .set("Authorization", adminAuth)
         .send({
           lastName: "User",
           email: `test1-${uniqueId}@example.com`,
@@ -527,6 +561,7 @@ describe("Member Validation Integration Tests", () => {
       // Invalid email - should get validation error
       const response2 = await request(app)
         .post("/api/members")
+        .set("Authorization", adminAuth)
         .send({
           firstName: "Test",
           lastName: "User",
@@ -540,6 +575,7 @@ describe("Member Validation Integration Tests", () => {
       // Invalid date format - should get validation error
       const response3 = await request(app)
         .post("/api/members")
+        .set("Authorization", adminAuth)
         .send({
           firstName: "Test",
           lastName: "User",
@@ -560,6 +596,7 @@ describe("Member Validation Integration Tests", () => {
       // Try to create with invalid email
       const createResponse = await request(app)
         .post("/api/members")
+        .set("Authorization", adminAuth)
         .send({
           firstName: "Test",
           lastName: "User",
@@ -571,7 +608,8 @@ describe("Member Validation Integration Tests", () => {
 
       // Verify member was not created
       const listResponse = await request(app)
-        .get("/api/members");
+        .get("/api/members")
+        .set("Authorization", adminAuth);
 
       const member = listResponse.body.find((m: any) => m.email === "invalid-email");
       expect(member).toBeUndefined();
@@ -583,6 +621,7 @@ describe("Member Validation Integration Tests", () => {
 
       const createResponse = await request(app)
         .post("/api/members")
+        .set("Authorization", adminAuth)
         .send({
           firstName: "Test",
           lastName: "User",
@@ -595,7 +634,8 @@ describe("Member Validation Integration Tests", () => {
 
       // Verify stored email is normalized
       const getResponse = await request(app)
-        .get(`/api/members/${createResponse.body.id}`);
+        .get(`/api/members/${createResponse.body.id}`)
+        .set("Authorization", adminAuth);
 
       expect(getResponse.body.email).toBe(mixedCaseEmail.toLowerCase());
     });
@@ -607,6 +647,7 @@ describe("Member Validation Integration Tests", () => {
       // Create first member
       await request(app)
         .post("/api/members")
+        .set("Authorization", adminAuth)
         .send({
           firstName: "First",
           lastName: "User",
@@ -617,6 +658,7 @@ describe("Member Validation Integration Tests", () => {
       // Try to create second with invalid email format (should fail validation before duplicate check)
       const response = await request(app)
         .post("/api/members")
+        .set("Authorization", adminAuth)
         .send({
           firstName: "Second",
           lastName: "User",
@@ -0,0 +1,286 @@
+/**
+ * Integration tests for doubles partners
+ * Tests inviting members and guests, accepting and declining (signed in or
+ * with the emailed link), partner limits and split court fees
+ */
+
+import { describe, it, expect, beforeAll, beforeEach, afterEach, afterAll, vi } from "vitest";
+import request from "supertest";
+import path from "path";
+import { promises as fs } from "fs";
+import os from "os";
+import app from "../../src/app";
+import { memberCache } from "../../src/lib/cache/member-cache";
+import { reservationCache } from "../../src/lib/cache/reservation-cache";
+import { paymentRepository } from "../../src/lib/repositories/file-payment-repository";
+import { readDeliveredMail } from "../../src/lib/email/file-transport";
+
+// Payment intents are created without calling Stripe
+vi.mock("../../src/lib/payments/stripe-client", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../../src/lib/payments/stripe-client")>()),
+  createPaymentIntent: vi.fn(async (intent: { amount: number; currency?: string }) => ({
+    clientSecret: "pi_test_secret",
+    paymentIntentId: `pi_test_${Math.random().toString(36).substring(7)}`,
+    amount: intent.amount,
+    currency: intent.currency || "usd",
+  })),
+}));
+
+let tempDir = "";
+const originalEnv: Record<string, string | undefined> = {};
+const ENV_KEYS = ["DATA_DIR", "JWT_SECRET", "EMAIL_TRANSPORT", "EMAIL_FILE_DIR"];
+
+// Monday; members pay $45/hr for clay courts off-peak
+const DATE = "2027-11-15";
+
+beforeAll(async () => {
+  for (const key of ENV_KEYS) {
+    originalEnv[key] = process.env[key];
+  }
+
+  process.env.JWT_SECRET = "test-secret-key-for-testing-only";
+  process.env.BCRYPT_ROUNDS = "10";
+
+  tempDir = await fs.mkdtemp(
+    path.join(os.tmpdir(), `pta-partners-${Date.now()}-${Math.random().toString(36).substring(7)}-`)
+  );
+  process.env.DATA_DIR = tempDir;
+  process.env.EMAIL_TRANSPORT = "file";
+  process.env.EMAIL_FILE_DIR = path.join(tempDir, "mail");
+});
+
+beforeEach(async () => {
+  memberCache.clear();
+  reservationCache.clear();
+
+  for (const file of ["reservations.json", "members.json", "payments.json", "email-outbox.json"]) {
+    await fs.writeFile(path.join(tempDir, file), JSON.stringify([], null, 2));
+  }
+  await fs.rm(path.join(tempDir, "mail"), { recursive: true, force: true });
+});
+
+afterEach(async () => {
+  memberCache.clear();
+  reservationCache.clear();
+});
+
+afterAll(async () => {
+  for (const key of ENV_KEYS) {
+    if (originalEnv[key] !== undefined) {
+      process.env[key] = originalEnv[key];
+    } else {
+      delete process.env[key];
+    }
+  }
+
+  if (tempDir) {
+    await fs.rm(tempDir, { recursive: true, force: true }).catch(() => {});
+  }
+});
+
+async function signUp(firstName = "Sam") {
+  const email = `player-${Date.now()}-${Math.random().toString(36).substring(7)}@example.com`;
+  const response = await request(app).post("/api/auth/signup").send({
+    firstName,
+    lastName: "Player",
+    email,
+    phone: "401-555-0000",
+    password: "Password123",
+  });
+  return { id: response.body.member.id as string, email, auth: `Bearer ${response.body.token}` };
+}
+
+async function book(
+  member: { id: string; auth: string },
+  partners: Array<{ memberId?: string; email?: string; name?: string }>,
+  options: { start?: string; splitPayment?: boolean } = {}
+) {
+  const start = options.start || "09:00";
+  const response = await request(app)
+    .post("/api/reservations")
+    .set("Authorization", member.auth)
+    .send({
+      courtId: "1",
+      date: DATE,
+      timeSlot: { start, end: `${String(Number(start.substring(0, 2)) + 1).padStart(2, "0")}:00` },
+      memberId: member.id,
+      partners,
+      splitPayment: options.splitPayment,
+    });
+  expect(response.status).toBe(201);
+  return response.body;
+}
+
+function respond(reservationId: string, participantId: string, body: object, auth?: string) {
+  const req = request(app).post(`/api/reservations/${reservationId}/partners/${participantId}/respond`);
+  return (auth ? req.set("Authorization", auth) : req).send(body);
+}
+
+describe("Partner invitations", () => {
+  it("invites members and guests, who accept or decline", async () => {
+    const booker = await signUp("Dana");
+    const partner = await signUp();
+    const stranger = await signUp();
+
+    const reservation = await book(booker, [
+      { memberId: partner.id },
+      { email: "Guest.Player@example.com", name: "Gail Guest" },
+    ]);
+    expect(reservation.participants).toHaveLength(2);
+    const [member, guest] = reservation.participants;
+    expect(member).toMatchObject({ memberId: partner.id, email: partner.email, status: "invited" });
+    expect(guest).toMatchObject({ email: "guest.player@example.com", name: "Gail Guest", status: "invited" });
+    expect(guest.memberId).toBeUndefined();
+
+    // Anyone can look the booking up, but only the booker sees the partners' emails
+    const listed = await request(app).get(`/api/reservations?date=${DATE}`);
+    expect(JSON.stringify(listed.body)).not.toContain("guest.player@example.com");
+    const lookedUp = await request(app)
+      .get(`/api/reservations/${reservation.id}`)
+      .set("Authorization", stranger.auth);
+    expect(lookedUp.body.participants[1]).toMatchObject({ name: "Gail Guest" });
+    expect(lookedUp.body.participants[1].email).toBeUndefined();
+    const own = await request(app)
+      .get(`/api/reservations/${reservation.id}`)
+      .set("Authorization", booker.auth);
+    expect(own.body.participants[1].email).toBe("guest.player@example.com");
+
+    // Members respond from their bookings; guests get a signed link
+    const mail = await readDeliveredMail();
+    const memberMail = mail.find((m) => m.to === partner.email)!;
+    expect(memberMail.text).toContain("Dana Player has booked a court");
+    expect(memberMail.text).toContain("/dashboard/bookings");
+    const guestMail = mail.find((m) => m.to === "guest.player@example.com")!;
+    const token = guestMail.text.match(/token=([\w-]+)/)![1];
+    expect(guestMail.text).toContain(`participant=${guest.id}`);
+
+    const bookings = await request(app)
+      .get("/api/members/me/reservations")
+      .set("Authorization", partner.auth);
+    expect(bookings.body.map((r: { id: string }) => r.id)).toEqual([reservation.id]);
+
+    expect((await respond(reservation.id, member.id, { accept: true }, stranger.auth)).status).toBe(403);
+    expect((await respond(reservation.id, member.id, { accept: "yes" }, partner.auth)).status).toBe(400);
+    const accepted = await respond(reservation.id, member.id, { accept: true }, partner.auth);
+    expect(accepted.status).toBe(200);
+    expect(accepted.body.participants[0]).toMatchObject({ status: "accepted" });
+    expect(accepted.body.participants[0].respondedAt).toBeDefined();
+
+    expect((await respond(reservation.id, guest.id, { accept: false, token: "forged" })).status).toBe(403);
+    expect((await respond(reservation.id, guest.id, { accept: false, token: { length: 22 } })).status).toBe(400);
+    expect((await respond(reservation.id, member.id, { accept: false, token })).status).toBe(403);
+    const declined = await respond(reservation.id, guest.id, { accept: false, token });
+    expect(declined.status).toBe(200);
+    expect(declined.body.participants[1]).toMatchObject({ status: "declined" });
+
+    expect((await respond(reservation.id, "participant-unknown", { accept: true }, partner.auth)).status).toBe(
+      404
+    );
+  });
+
+  it("limits partners and only lets the booker manage them", async () => {
+    const booker = await signUp();
+    const partner = await signUp();
+    const reservation = await book(booker, [{ memberId: partner.id }]);
+
+    const invite = (auth: string, partners: object[]) =>
+      request(app)
+        .post(`/api/reservations/${reservation.id}/partners`)
+        .set("Authorization", auth)
+        .send({ partners });
+
+    expect((await invite(partner.auth, [{ email: "friend@example.com" }])).status).toBe(403);
+
+    const self = await invite(booker.auth, [{ email: booker.email }]);
+    expect(self.status).toBe(400);
+    expect(self.body.error).toBe("The booker can't also be a partner");
+
+    const duplicate = await invite(booker.auth, [{ email: partner.email }]);
+    expect(duplicate.status).toBe(400);
+    expect(duplicate.body.error).toContain("already invited");
+
+    expect((await invite(booker.auth, [{ memberId: "member-unknown" }])).status).toBe(404);
+
+    const added = await invite(booker.auth, [{ email: "one@example.com" }, { email: "two@example.com" }]);
+    expect(added.status).toBe(200);
+    expect(added.body.participants).toHaveLength(3);
+
+    const tooMany = await invite(booker.auth, [{ email: "three@example.com" }]);
+    expect(tooMany.status).toBe(400);
+    expect(tooMany.body.error).toContain("at most 3 partners");
+
+    const partnerId = added.body.participants[0].id;
+    expect(
+      (
+        await request(app)
+          .delete(`/api/reservations/${reservation.id}/partners/${partnerId}`)
+          .set("Authorization", partner.auth)
+      ).status
+    ).toBe(403);
+    const removed = await request(app)
+      .delete(`/api/reservations/${reservation.id}/partners/${partnerId}`)
+      .set("Authorization", booker.auth);
+    expect(removed.status).toBe(200);
+    expect(removed.body.participants).toHaveLength(2);
+
+    const bookings = await request(app)
+      .get("/api/members/me/reservations")
+      .set("Authorization", partner.auth);
+    expect(bookings.body).toEqual([]);
+  });
+});
+
+describe("Split court fees", () => {
+  it("charges each member their share and the booker the guests' shares", async () => {
+    const booker = await signUp();
+    const first = await signUp();
+    const second = await signUp();
+    const stranger = await signUp();
+    const reservation = await book(
+      booker,
+      [{ memberId: first.id }, { memberId: second.id }, { email: "guest@example.com" }],
+      { splitPayment: true }
+    );
+    expect(reservation.splitPayment).toBe(true);
+
+    const pay = (auth: string) =>
+      request(app)
+        .post("/api/payments/create-intent")
+        .set("Authorization", auth)
+        .send({ reservationId: reservation.id });
+
+    // $45 between four players; the guest's quarter stays with the booker
+    const notAccepted = await pay(first.auth);
+    expect(notAccepted.status).toBe(400);
+    expect(notAccepted.body.error).toBe("Accept the invitation before paying your share");
+
+    const firstId = reservation.participants[0].id;
+    await respond(reservation.id, firstId, { accept: true }, first.auth);
+    const share = await pay(first.auth);
+    expect(share.status).toBe(200);
+    expect(share.body.amount).toBe(1125);
+    expect(share.body.quote.total).toBe(4500);
+
+    const bookerShare = await pay(booker.auth);
+    expect(bookerShare.body.amount).toBe(2250);
+
+    expect((await pay(stranger.auth)).status).toBe(403);
+
+    await paymentRepository.create({
+      memberId: first.id,
+      reservationId: reservation.id,
+      type: "court_booking",
+      amount: 1125,
+      currency: "usd",
+      status: "paid",
+      stripePaymentIntentId: "pi_test_first_share",
+      paidAt: new Date().toISOString(),
+    });
+    const again = await pay(first.auth);
+    expect(again.status).toBe(400);
+    expect(again.body.error).toBe("Your share is already paid");
+
+    // The booker's share is still open
+    expect((await pay(booker.auth)).status).toBe(200);
+  });
+});
@@ -10,6 +10,7 @@ import os from "os";
 import app from "../../src/app";
 import { memberCache } from "../../src/lib/cache/member-cache";
 import { reservationCache } from "../../src/lib/cache/reservation-cache";
+import { paymentRepository } from "../../src/lib/repositories/file-payment-repository";
 
 let tempDir = "";
 let originalDataDir: string | undefined;
@@ -141,25 +142,25 @@ describe("Payment API Endpoints Integration Tests (Phase 3)", () => {
       expect(response.status).toBe(401);
     });
 
-    it("should reject request without amount", async () => {
+    it("should reject request without a reservation", async () => {
       const response = await request(app)
         .post("/api/payments/create-intent")
         .set("Authorization", `Bearer ${authToken}`)
-        .send({});
+        .send({ amount: 0.5 });
       
       expect(response.status).toBe(400);
-      expect(response.body.error).toContain("Amount is required");
+      expect(response.body.error).toContain("reservationId is required");
     });
 
-    it("should reject zero amount", async () => {
+    it("should reject unknown reservation", async () => {
       const response = await request(app)
         .post("/api/payments/create-intent")
         .set("Authorization", `Bearer ${authToken}`)
         .send({
-          amount: 0,
+          reservationId: "does-not-exist",
         });
       
-      expect(response.status).toBe(400);
+      expect(response.status).toBe(404);
     });
 
     it("should create payment intent (will fail without real Stripe key, but tests structure)", async () => {
@@ -242,25 +243,26 @@ describe("Payment API Endpoints Integration Tests (Phase 3)", () => {
     });
   });
 
-  describe("POST /api/payments/membership", () => {
-    it("should require authentication", async () => {
-      const response = await request(app)
-        .post("/api/payments/membership")
-        .send({
-          amount: 100.00,
-        });
-      
-      expect(response.status).toBe(401);
-    });
+  describe("POST /api/payments/:id/refund", () => {
+    it("should not let members refund their own payments", async () => {
+      const payment = await paymentRepository.create({
+        memberId,
+        type: "court_booking",
+        amount: 4000,
+        currency: "usd",
+        status: "paid",
+        stripePaymentIntentId: "pi_test_member_refund",
+        stripeChargeId: "ch_test_member_refund",
+        paidAt: new Date().toISOString(),
+      });
 
-    it("should reject request without amount", async () => {
       const response = await request(app)
-        .post("/api/payments/membership")
+        .post(`/api/payments/${payment.id}/refund`)
         .set("Authorization", `Bearer ${authToken}`)
-        .send({});
-      
-      expect(response.status).toBe(400);
-      expect(response.body.error).toContain("Amount is required");
+        .send({ amount: 40 });
+
+      expect(response.status).toBe(403);
+      expect((await paymentRepository.findById(payment.id))?.status).toBe("paid");
     });
   });
 });
@@ -1,16 +1,20 @@
 /**
- * Integration tests for payment repository (Phase 3)
+ * Integration tests for payment repository (Phase 3), run against both storage drivers
  */
 
 import { describe, it, expect, beforeAll, beforeEach, afterEach, afterAll } from "vitest";
 import path from "path";
 import { promises as fs } from "fs";
 import os from "os";
-import { paymentRepository } from "../../src/lib/repositories/file-payment-repository";
+import { FilePaymentRepository } from "../../src/lib/repositories/file-payment-repository";
+import { SqlitePaymentRepository } from "../../src/lib/repositories/sqlite-payment-repository";
+import { IPaymentRepository } from "../../src/lib/repositories/payment-repository.interface";
+import { closeDatabase } from "../../src/lib/repositories/sqlite-database";
 import { Payment } from "../../src/types/payment";
 
 let tempDir = "";
 let originalDataDir: string | undefined;
+let paymentRepository: IPaymentRepository;
 
 beforeAll(async () => {
   originalDataDir = process.env.DATA_DIR;
@@ -32,6 +36,12 @@ beforeEach(async () => {
       await fs.unlink(paymentsLockFile).catch(() => {});
       await new Promise(resolve => setTimeout(resolve, 50));
       await fs.writeFile(paymentsFile, JSON.stringify([], null, 2)).catch(() => {});
+
+      // Start the SQLite repository from an empty database
+      closeDatabase();
+      for (const suffix of ["", "-wal", "-shm"]) {
+        await fs.unlink(path.join(tempDir, `providence.db${suffix}`)).catch(() => {});
+      }
     } catch {
       // ignore errors
     }
@@ -49,6 +59,8 @@ afterEach(async () => {
 });
 
 afterAll(async () => {
+  closeDatabase();
+
   if (originalDataDir !== undefined) {
     process.env.DATA_DIR = originalDataDir;
   } else {
@@ -64,7 +76,14 @@ afterAll(async () => {
   }
 });
 
-describe("Payment Repository Integration Tests (Phase 3)", () => {
+describe.each([
+  ["FilePaymentRepository", () => new FilePaymentRepository()],
+  ["SqlitePaymentRepository", () => new SqlitePaymentRepository()],
+])("Payment Repository Integration Tests (Phase 3): %s", (_name, createRepository: () => IPaymentRepository) => {
+  beforeEach(() => {
+    paymentRepository = createRepository();
+  });
+
   describe("Payment CRUD Operations", () => {
     it("should create a payment", async () => {
       const payment = await paymentRepository.create({
@@ -112,6 +131,8 @@ describe("Payment Repository Integration Tests (Phase 3)", () => {
         currency: "usd",
         status: "pending",
       });
+      // SQLite can write both within the same millisecond
+      await new Promise((resolve) => setTimeout(resolve, 5));
 
       const updated = await paymentRepository.update(created.id, {
         status: "paid",
@@ -0,0 +1,282 @@
+/**
+ * Integration tests for the Stripe webhook endpoint
+ *
+ * Events are signed locally with the test webhook secret, so no network is needed.
+ */
+
+import { describe, it, expect, beforeAll, beforeEach, afterAll } from "vitest";
+import request from "supertest";
+import path from "path";
+import { promises as fs } from "fs";
+import os from "os";
+import Stripe from "stripe";
+import app from "../../src/app";
+import { reservationCache } from "../../src/lib/cache/reservation-cache";
+
+const WEBHOOK_SECRET = "whsec_test_providence_tennis";
+
+let tempDir = "";
+let originalDataDir: string | undefined;
+let originalWebhookSecret: string | undefined;
+
+beforeAll(async () => {
+  originalDataDir = process.env.DATA_DIR;
+  originalWebhookSecret = process.env.STRIPE_WEBHOOK_SECRET;
+
+  process.env.STRIPE_WEBHOOK_SECRET = WEBHOOK_SECRET;
+
+  tempDir = await fs.mkdtemp(path.join(os.tmpdir(), "pta-webhook-"));
+  process.env.DATA_DIR = tempDir;
+});
+
+beforeEach(async () => {
+  reservationCache.clear();
+
+  const now = new Date().toISOString();
+  await fs.writeFile(
+    path.join(tempDir, "payments.json"),
+    JSON.stringify(
+      [
+        {
+          id: "payment-1",
+          memberId: "member-1",
+          type: "court_booking",
+          amount: 4000,
+          currency: "usd",
+          status: "pending",
+          stripePaymentIntentId: "pi_test_1",
+          createdAt: now,
+          lastModified: now,
+        },
+      ],
+      null,
+      2
+    )
+  );
+  await fs.writeFile(
+    path.join(tempDir, "reservations.json"),
+    JSON.stringify(
+      [
+        {
+          id: "reservation-1",
+          courtId: "1",
+          courtName: "Court 1",
+          date: "2030-06-03",
+          timeSlot: { start: "10:00", end: "11:00" },
+          memberId: "member-1",
+          createdAt: now,
+          status: "confirmed",
+          paymentId: "payment-1",
+          paymentStatus: "pending",
+          paymentAmount: 4000,
+        },
+      ],
+      null,
+      2
+    )
+  );
+  await fs.writeFile(path.join(tempDir, "webhook-events.json"), JSON.stringify([], null, 2));
+});
+
+afterAll(async () => {
+  if (originalDataDir !== undefined) {
+    process.env.DATA_DIR = originalDataDir;
+  } else {
+    delete process.env.DATA_DIR;
+  }
+
+  if (originalWebhookSecret !== undefined) {
+    process.env.STRIPE_WEBHOOK_SECRET = originalWebhookSecret;
+  } else {
+    delete process.env.STRIPE_WEBHOOK_SECRET;
+  }
+
+  if (tempDir) {
+    await fs.rm(tempDir, { recursive: true, force: true }).catch(() => {});
+  }
+});
+
+function buildEvent(id: string, type: string, object: Record<string, unknown>) {
+  return {
+    id,
+    object: "event",
+    type,
+    api_version: "2023-10-16",
+    created: Math.floor(Date.now() / 1000),
+    livemode: false,
+    data: { object },
+  };
+}
+
+function sendEvent(event: object, secret: string = WEBHOOK_SECRET) {
+  const payload = JSON.stringify(event);
+  const signature = Stripe.webhooks.generateTestHeaderString({ payload, secret });
+
+  return request(app)
+    .post("/api/payments/webhook")
+    .set("Content-Type", "application/json")
+    .set("Stripe-Signature", signature)
+    .send(payload);
+}
+
+async function readJson(file: string) {
+  return JSON.parse(await fs.readFile(path.join(tempDir, file), "utf-8"));
+}
+
+const succeeded = buildEvent("evt_succeeded_1", "payment_intent.succeeded", {
+  id: "pi_test_1",
+  object: "payment_intent",
+  amount: 4000,
+  created: 1893456000,
+  latest_charge: "ch_test_1",
+  status: "succeeded",
+});
+
+describe("POST /api/payments/webhook", () => {
+  it("rejects payloads with a missing or invalid signature", async () => {
+    const missing = await request(app)
+      .post("/api/payments/webhook")
+      .set("Content-Type", "application/json")
+      .send(JSON.stringify(succeeded));
+    expect(missing.status).toBe(400);
+    expect(missing.body.code).toBe("INVALID_SIGNATURE");
+
+    const forged = await sendEvent(succeeded, "whsec_wrong_secret");
+    expect(forged.status).toBe(400);
+    expect(forged.body.code).toBe("INVALID_SIGNATURE");
+
+    const [payment] = await readJson("payments.json");
+    expect(payment.status).toBe("pending");
+  });
+
+  it("marks the payment and linked reservation paid on payment_intent.succeeded", async () => {
+    const response = await sendEvent(succeeded);
+
+    expect(response.status).toBe(200);
+    expect(response.body).toMatchObject({
+      received: true,
+      duplicate: false,
+      handled: true,
+      paymentId: "payment-1",
+    });
+
+    const [payment] = await readJson("payments.json");
+    expect(payment.status).toBe("paid");
+    expect(payment.stripeChargeId).toBe("ch_test_1");
+    expect(payment.paidAt).toBeDefined();
+
+    const [reservation] = await readJson("reservations.json");
+    expect(reservation.paymentStatus).toBe("paid");
+  });
+
+  it("treats a replayed event as a no-op", async () => {
+    await sendEvent(succeeded);
+    await sendEvent(
+      buildEvent("evt_refund_1", "charge.refunded", {
+        id: "ch_test_1",
+        object: "charge",
+        payment_intent: "pi_test_1",
+        amount: 4000,
+        amount_refunded: 4000,
+        refunded: true,
+      })
+    );
+
+    const replay = await sendEvent(succeeded);
+    expect(replay.status).toBe(200);
+    expect(replay.body.duplicate).toBe(true);
+
+    const [payment] = await readJson("payments.json");
+    expect(payment.status).toBe("refunded");
+    expect(payment.refundAmount).toBe(4000);
+
+    const [reservation] = await readJson("reservations.json");
+    expect(reservation.paymentStatus).toBe("refunded");
+
+    const events = await readJson("webhook-events.json");
+    expect(events.map((e: { id: string }) => e.id)).toEqual(["evt_succeeded_1", "evt_refund_1"]);
+  });
+
+  it("marks a pending payment failed on payment_intent.payment_failed", async () => {
+    const response = await sendEvent(
+      buildEvent("evt_failed_1", "payment_intent.payment_failed", {
+        id: "pi_test_1",
+        object: "payment_intent",
+        status: "requires_payment_method",
+        last_payment_error: { message: "Your card was declined." },
+      })
+    );
+
+    expect(response.status).toBe(200);
+
+    const [payment] = await readJson("payments.json");
+    expect(payment.status).toBe("failed");
+    expect(payment.failureReason).toBe("Your card was declined.");
+
+    const [reservation] = await readJson("reservations.json");
+    expect(reservation.paymentStatus).toBe("failed");
+  });
+
+  it("keeps partially refunded payments paid", async () => {
+    await sendEvent(succeeded);
+    await sendEvent(
+      buildEvent("evt_refund_partial", "charge.refunded", {
+        id: "ch_test_1",
+        object: "charge",
+        payment_intent: "pi_test_1",
+        amount: 4000,
+        amount_refunded: 1500,
+        refunded: false,
+      })
+    );
+
+    const [payment] = await readJson("payments.json");
+    expect(payment.status).toBe("paid");
+    expect(payment.refundAmount).toBe(1500);
+  });
+
+  it("flags disputed payments and restores them when the dispute is won", async () => {
+    await sendEvent(succeeded);
+
+    const dispute = {
+      id: "dp_test_1",
+      object: "dispute",
+      charge: "ch_test_1",
+      payment_intent: "pi_test_1",
+      amount: 4000,
+      created: 1893456000,
+    };
+
+    await sendEvent(
+      buildEvent("evt_dispute_created", "charge.dispute.created", {
+        ...dispute,
+        status: "needs_response",
+      })
+    );
+
+    let [payment] = await readJson("payments.json");
+    expect(payment.status).toBe("disputed");
+    expect(payment.disputeStatus).toBe("needs_response");
+    let [reservation] = await readJson("reservations.json");
+    expect(reservation.paymentStatus).toBe("disputed");
+
+    await sendEvent(
+      buildEvent("evt_dispute_closed", "charge.dispute.closed", { ...dispute, status: "won" })
+    );
+
+    [payment] = await readJson("payments.json");
+    expect(payment.status).toBe("paid");
+    expect(payment.disputeStatus).toBe("won");
+    [reservation] = await readJson("reservations.json");
+    expect(reservation.paymentStatus).toBe("paid");
+  });
+
+  it("acknowledges event types it does not handle", async () => {
+    const response = await sendEvent(
+      buildEvent("evt_customer_1", "customer.created", { id: "cus_test_1", object: "customer" })
+    );
+
+    expect(response.status).toBe(200);
+    expect(response.body.handled).toBe(false);
+  });
+});
@@ -13,10 +13,12 @@ import path from "path";
 import { promises as fs } from "fs";
 import os from "os";
 import app from "../../src/app";
+import { createSession } from "../../src/lib/auth/session-manager";
 import { memberCache } from "../../src/lib/cache/member-cache";
 import { reservationCache } from "../../src/lib/cache/reservation-cache";
 
 let tempDir = "";
+let adminAuth = "";
 let originalDataDir: string | undefined;
 
 beforeAll(async () => {
@@ -29,6 +31,8 @@ beforeAll(async () => {
   );
   tempDir = baseDir;
   process.env.DATA_DIR = tempDir;
+  // Admin session for the protected member/reservation endpoints
+  adminAuth = `Bearer ${(await createSession("test-admin", "admin@example.com", "admin")).token}`;
   // Ensure directory exists
   await fs.mkdir(tempDir, { recursive: true });
 });
@@ -123,6 +127,7 @@ describe("Phase 8: Reservation Integration Tests", () => {
       // Create member
       const memberResponse = await request(app)
         .post("/api/members")
+        .set("Authorization", adminAuth)
         .send({
           firstName: "Type",
           lastName: "Test",
@@ -135,6 +140,7 @@ describe("Phase 8: Reservation Integration Tests", () => {
       // Create reservation with memberId
       const reservationResponse = await request(app)
         .post("/api/reservations")
+        .set("Authorization", adminAuth)
         .send({
           courtId: "1",
           date: uniqueDate,
@@ -202,6 +208,7 @@ describe("Phase 8: Reservation Integration Tests", () => {
       // Create active member
       const memberResponse = await request(app)
         .post("/api/members")
+        .set("Authorization", adminAuth)
         .send({
           firstName: "Active",
           lastName: "Member",
@@ -215,6 +222,7 @@ describe("Phase 8: Reservation Integration Tests", () => {
       // Create reservation should succeed
       const reservationResponse = await request(app)
         .post("/api/reservations")
+        .set("Authorization", adminAuth)
         .send({
           courtId: "1",
           date: uniqueDate,
@@ -234,6 +242,7 @@ describe("Phase 8: Reservation Integration Tests", () => {
       // Create inactive member
       const memberResponse = await request(app)
         .post("/api/members")
+        .set("Authorization", adminAuth)
         .send({
           firstName: "Inactive",
           lastName: "Member",
@@ -247,6 +256,7 @@ describe("Phase 8: Reservation Integration Tests", () => {
       // Create reservation should fail
       const reservationResponse = await request(app)
         .post("/api/reservations")
+        .set("Authorization", adminAuth)
         .send({
           courtId: "1",
           date: uniqueDate,
@@ -310,6 +320,7 @@ describe("Phase 8: Reservation Integration Tests", () => {
       // Create member
       const memberResponse = await request(app)
         .post("/api/members")
+        .set("Authorization", adminAuth)
         .send({
           firstName: "Penalty",
           lastName: "Test",
@@ -323,6 +334,7 @@ describe("Phase 8: Reservation Integration Tests", () => {
       // Create reservation
       const reservationResponse = await request(app)
         .post("/api/reservations")
+        .set("Authorization", adminAuth)
         .send({
           courtId: "1",
           date: uniqueDate,
@@ -335,7 +347,8 @@ describe("Phase 8: Reservation Integration Tests", () => {
 
       // Cancel reservation
       const cancelResponse = await request(app)
-        .delete(`/api/reservations/${reservationId}`);
+        .delete(`/api/reservations/${reservationId}`)
+        .set("Authorization", adminAuth);
 
       expect(cancelResponse.status).toBe(200);
 
@@ -345,7 +358,8 @@ describe("Phase 8: Reservation Integration Tests", () => {
 
       // Check penalty cancellations increased
       const updatedMemberResponse = await request(app)
-        .get(`/api/members/${memberId}`);
+        .get(`/api/members/${memberId}`)
+        .set("Authorization", adminAuth);
 
       expect(updatedMemberResponse.status).toBe(200);
       expect(updatedMemberResponse.body.penaltyCancellations).toBe(1);
@@ -372,7 +386,8 @@ describe("Phase 8: Reservation Integration Tests", () => {
 
       // Cancel reservation (should not affect any member)
       const cancelResponse = await request(app)
-        .delete(`/api/reservations/${reservationId}`);
+        .delete(`/api/reservations/${reservationId}`)
+        .set("Authorization", adminAuth);
 
       expect(cancelResponse.status).toBe(200);
       // No member to check, but should not throw errors
@@ -388,6 +403,7 @@ describe("Phase 8: Reservation Integration Tests", () => {
       // Create member
       const memberResponse = await request(app)
         .post("/api/members")
+        .set("Authorization", adminAuth)
         .send({
           firstName: "Multiple",
           lastName: "Penalties",
@@ -400,6 +416,7 @@ describe("Phase 8: Reservation Integration Tests", () => {
       // Create and cancel first reservation
       const res1 = await request(app)
         .post("/api/reservations")
+        .set("Authorization", adminAuth)
         .send({
           courtId: "1",
           date: uniqueDate1,
@@ -407,12 +424,15 @@ describe("Phase 8: Reservation Integration Tests", () => {
           memberId: memberId,
         });
 
-      await request(app).delete(`/api/reservations/${res1.body.id}`);
+      await request(app)
+        .delete(`/api/reservations/${res1.body.id}`)
+        .set("Authorization", adminAuth);
       await new Promise(resolve => setTimeout(resolve, 100));
 
       // Create and cancel second reservation
       const res2 = await request(app)
         .post("/api/reservations")
+        .set("Authorization", adminAuth)
         .send({
           courtId: "2",
           date: uniqueDate2,
@@ -420,13 +440,16 @@ describe("Phase 8: Reservation Integration Tests", () => {
           memberId: memberId,
         });
 
-      await request(app).delete(`/api/reservations/${res2.body.id}`);
+      await request(app)
+        .delete(`/api/reservations/${res2.body.id}`)
+        .set("Authorization", adminAuth);
       await new Promise(resolve => setTimeout(resolve, 150));
       memberCache.clear();
 
       // Check penalty cancellations
       const updatedMemberResponse = await request(app)
-        .get(`/api/members/${memberId}`);
+        .get(`/api/members/${memberId}`)
+        .set("Authorization", adminAuth);
 
       expect(updatedMemberResponse.status).toBe(200);
       expect(updatedMemberResponse.body.penaltyCancellations).toBe(2);
@@ -493,6 +516,7 @@ describe("Phase 8: Reservation Integration Tests", () => {
       // Create member
       const memberResponse = await request(app)
         .post("/api/members")
+        .set("Authorization", adminAuth)
         .send({
           firstName: "Lifecycle",
           lastName: "Test",
@@ -505,6 +529,7 @@ describe("Phase 8: Reservation Integration Tests", () => {
       // Create reservation
       const createResponse = await request(app)
         .post("/api/reservations")
+        .set("Authorization", adminAuth)
         .send({
           courtId: "1",
           date: uniqueDate,
@@ -517,7 +542,8 @@ describe("Phase 8: Reservation Integration Tests", () => {
 
       // Retrieve member's reservations
       const memberReservationsResponse = await request(app)
-        .get(`/api/members/${memberId}/reservations`);
+        .get(`/api/members/${memberId}/reservations`)
+        .set("Authorization", adminAuth);
 
       expect(memberReservationsResponse.status).toBe(200);
       expect(memberReservationsResponse.body.length).toBe(1);
@@ -526,7 +552,8 @@ describe("Phase 8: Reservation Integration Tests", () => {
 
       // Cancel reservation
       const cancelResponse = await request(app)
-        .delete(`/api/reservations/${reservationId}`);
+        .delete(`/api/reservations/${reservationId}`)
+        .set("Authorization", adminAuth);
 
       expect(cancelResponse.status).toBe(200);
 
@@ -534,7 +561,8 @@ describe("Phase 8: Reservation Integration Tests", () => {
       await new Promise(resolve => setTimeout(resolve, 150));
       memberCache.clear();
       const updatedMemberResponse = await request(app)
-        .get(`/api/members/${memberId}`);
+        .get(`/api/members/${memberId}`)
+        .set("Authorization", adminAuth);
 
       expect(updatedMemberResponse.body.penaltyCancellations).toBe(1);
     });
@@ -549,6 +577,7 @@ describe("Phase 8: Reservation Integration Tests", () => {
       // Create member
       const memberResponse = await request(app)
         .post("/api/members")
+        .set("Authorization", adminAuth)
         .send({
           firstName: "Mixed",
           lastName: "Test",
@@ -561,6 +590,7 @@ describe("Phase 8: Reservation Integration Tests", () => {
       // Create member reservation
       const memberRes = await request(app)
         .post("/api/reservations")
+        .set("Authorization", adminAuth)
         .send({
           courtId: "1",
           date: uniqueDate1,
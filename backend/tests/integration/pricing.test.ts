@@ -0,0 +1,179 @@
+/**
+ * Integration tests for server-side pricing: quote endpoint and
+ * payment intents that ignore client-supplied amounts
+ */
+
+import { describe, it, expect, beforeAll, beforeEach, afterEach, afterAll } from "vitest";
+import request from "supertest";
+import path from "path";
+import { promises as fs } from "fs";
+import os from "os";
+import app from "../../src/app";
+import { memberCache } from "../../src/lib/cache/member-cache";
+import { reservationCache } from "../../src/lib/cache/reservation-cache";
+
+let tempDir = "";
+const originalEnv: Record<string, string | undefined> = {};
+const ENV_KEYS = ["DATA_DIR", "JWT_SECRET"];
+
+// Monday; default courts are clay ($45/hr off-peak, $56.25/hr prime time)
+const DATE = "2027-11-08";
+
+beforeAll(async () => {
+  for (const key of ENV_KEYS) {
+    originalEnv[key] = process.env[key];
+  }
+
+  process.env.JWT_SECRET = "test-secret-key-for-testing-only";
+  process.env.BCRYPT_ROUNDS = "10";
+
+  tempDir = await fs.mkdtemp(
+    path.join(os.tmpdir(), `pta-pricing-${Date.now()}-${Math.random().toString(36).substring(7)}-`)
+  );
+  process.env.DATA_DIR = tempDir;
+});
+
+beforeEach(async () => {
+  memberCache.clear();
+  reservationCache.clear();
+
+  await fs.writeFile(path.join(tempDir, "reservations.json"), JSON.stringify([], null, 2));
+  await fs.writeFile(path.join(tempDir, "members.json"), JSON.stringify([], null, 2));
+  await fs.writeFile(path.join(tempDir, "sessions.json"), JSON.stringify([], null, 2));
+  await fs.writeFile(path.join(tempDir, "subscriptions.json"), JSON.stringify([], null, 2));
+});
+
+afterEach(async () => {
+  memberCache.clear();
+  reservationCache.clear();
+});
+
+afterAll(async () => {
+  for (const key of ENV_KEYS) {
+    if (originalEnv[key] !== undefined) {
+      process.env[key] = originalEnv[key];
+    } else {
+      delete process.env[key];
+    }
+  }
+
+  if (tempDir) {
+    await fs.rm(tempDir, { recursive: true, force: true }).catch(() => {});
+  }
+});
+
+async function signUp(role: "player" | "parent" | "admin" = "player") {
+  const email = `${role}-${Date.now()}-${Math.random().toString(36).substring(7)}@example.com`;
+  const response = await request(app).post("/api/auth/signup").send({
+    firstName: "Pat",
+    lastName: role,
+    email,
+    phone: "401-555-0000",
+    password: "Password123",
+    role,
+  });
+  return { id: response.body.member.id as string, auth: `Bearer ${response.body.token}` };
+}
+
+function quote(query: string, auth?: string) {
+  const req = request(app).get(`/api/pricing/quote?courtId=1&date=${DATE}&${query}`);
+  return auth ? req.set("Authorization", auth) : req;
+}
+
+describe("GET /api/pricing/quote", () => {
+  it("quotes guests the court rate plus the guest fee", async () => {
+    const response = await quote("start=09:00&end=10:00");
+    expect(response.status).toBe(200);
+    expect(response.body.courtType).toBe("clay");
+    expect(response.body.memberId).toBeUndefined();
+    expect(response.body.total).toBe(4500 + 1000);
+    expect(response.body.lineItems).toHaveLength(2);
+  });
+
+  it("quotes members by time of day and membership plan", async () => {
+    const member = await signUp();
+
+    const offPeak = await quote("start=09:00&end=10:00", member.auth);
+    expect(offPeak.body.total).toBe(4500);
+    expect(offPeak.body.memberId).toBe(member.id);
+
+    const prime = await quote("start=18:00&end=19:00", member.auth);
+    expect(prime.body.primeTimeMinutes).toBe(60);
+    expect(prime.body.total).toBe(5625);
+
+    const now = new Date().toISOString();
+    await fs.writeFile(
+      path.join(tempDir, "subscriptions.json"),
+      JSON.stringify([
+        {
+          id: "subscription-1",
+          memberId: member.id,
+          planId: "adult",
+          interval: "month",
+          status: "active",
+          currentPeriodStart: now,
+          currentPeriodEnd: now,
+          cancelAtPeriodEnd: false,
+          createdAt: now,
+          lastModified: now,
+        },
+      ])
+    );
+
+    const adult = await quote("start=18:00&end=19:00", member.auth);
+    expect(adult.body.membershipPlan).toBe("adult");
+    expect(adult.body.total).toBe(5625 - 1125);
+  });
+
+  it("doesn't let members quote for someone else", async () => {
+    const member = await signUp();
+    const other = await signUp();
+
+    const foreign = await quote(`start=09:00&end=10:00&memberId=${other.id}`, member.auth);
+    expect(foreign.status).toBe(403);
+  });
+
+  it("validates the request", async () => {
+    expect((await request(app).get("/api/pricing/quote?courtId=1")).status).toBe(400);
+    expect((await quote("start=10:00&end=09:00")).status).toBe(400);
+
+    const unknownCourt = await request(app).get(
+      `/api/pricing/quote?courtId=99&date=${DATE}&start=09:00&end=10:00`
+    );
+    expect(unknownCourt.status).toBe(404);
+  });
+});
+
+describe("POST /api/payments/create-intent pricing", () => {
+  it("requires a reservation to price", async () => {
+    const member = await signUp();
+
+    const response = await request(app)
+      .post("/api/payments/create-intent")
+      .set("Authorization", member.auth)
+      .send({ amount: 0.5 });
+    expect(response.status).toBe(400);
+    expect(response.body.error).toContain("reservationId is required");
+  });
+
+  it("refuses to charge cancelled or already-paid reservations", async () => {
+    const member = await signUp();
+    const booked = await request(app)
+      .post("/api/reservations")
+      .set("Authorization", member.auth)
+      .send({ courtId: "1", date: DATE, timeSlot: { start: "09:00", end: "10:00" }, memberId: member.id });
+    expect(booked.status).toBe(201);
+
+    const cancelled = await request(app)
+      .delete(`/api/reservations/${booked.body.id}`)
+      .set("Authorization", member.auth);
+    expect(cancelled.status).toBe(200);
+
+    const response = await request(app)
+      .post("/api/payments/create-intent")
+      .set("Authorization", member.auth)
+      .send({ reservationId: booked.body.id, amount: 0.5 });
+    expect(response.status).toBe(400);
+    expect(response.body.error).toContain("cancelled");
+  });
+});
@@ -0,0 +1,350 @@
+/**
+ * Integration tests for programs
+ * Tests the program catalog, court blocking, enrollment with waitlists,
+ * paying for a seat, withdrawals and refunds, class rosters and attendance
+ */
+
+import { describe, it, expect, beforeAll, beforeEach, afterEach, afterAll, vi } from "vitest";
+import request from "supertest";
+import path from "path";
+import { promises as fs } from "fs";
+import os from "os";
+import app from "../../src/app";
+import { createSession } from "../../src/lib/auth/session-manager";
+import { memberRepository } from "../../src/lib/repositories/file-member-repository";
+import { memberCache } from "../../src/lib/cache/member-cache";
+import { reservationCache } from "../../src/lib/cache/reservation-cache";
+
+// Payments are created, confirmed and refunded without calling Stripe
+vi.mock("../../src/lib/payments/stripe-client", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../../src/lib/payments/stripe-client")>()),
+  createPaymentIntent: vi.fn(async (intent: { amount: number; currency?: string }) => ({
+    clientSecret: "pi_test_secret",
+    paymentIntentId: `pi_test_${Math.random().toString(36).substring(7)}`,
+    amount: intent.amount,
+    currency: intent.currency || "usd",
+  })),
+  confirmPaymentIntent: vi.fn(async (paymentIntentId: string) => ({
+    id: paymentIntentId,
+    status: "succeeded",
+    latest_charge: "ch_test",
+  })),
+  createRefund: vi.fn(async (_chargeId: string, amount?: number) => ({
+    id: "re_test",
+    amount: amount ?? 16000,
+  })),
+}));
+
+let tempDir = "";
+let adminAuth = "";
+const originalEnv: Record<string, string | undefined> = {};
+const ENV_KEYS = ["DATA_DIR", "JWT_SECRET"];
+
+const guest = {
+  customerName: "Program Tester",
+  customerEmail: "program-tester@example.com",
+  customerPhone: "401-555-0104",
+};
+
+const clinic = {
+  name: "Tuesday Clinic",
+  kind: "clinic",
+  sessions: [
+    { date: "2027-11-16", start: "18:00", end: "19:30" },
+    { date: "2027-11-23", start: "18:00", end: "19:30" },
+  ],
+  courtIds: ["1", "2"],
+  capacity: 8,
+  price: 16000,
+};
+
+beforeAll(async () => {
+  for (const key of ENV_KEYS) {
+    originalEnv[key] = process.env[key];
+  }
+
+  process.env.JWT_SECRET = "test-secret-key-for-testing-only";
+  process.env.BCRYPT_ROUNDS = "10";
+
+  tempDir = await fs.mkdtemp(
+    path.join(os.tmpdir(), `pta-programs-${Date.now()}-${Math.random().toString(36).substring(7)}-`)
+  );
+  process.env.DATA_DIR = tempDir;
+  adminAuth = `Bearer ${(await createSession("test-admin", "admin@example.com", "admin")).token}`;
+});
+
+beforeEach(async () => {
+  memberCache.clear();
+  reservationCache.clear();
+
+  for (const file of [
+    "programs.json",
+    "program-enrollments.json",
+    "closures.json",
+    "reservations.json",
+    "members.json",
+    "payments.json",
+    "coach-schedules.json",
+  ]) {
+    await fs.writeFile(path.join(tempDir, file), JSON.stringify([], null, 2));
+  }
+});
+
+afterEach(async () => {
+  memberCache.clear();
+  reservationCache.clear();
+});
+
+afterAll(async () => {
+  for (const key of ENV_KEYS) {
+    if (originalEnv[key] !== undefined) {
+      process.env[key] = originalEnv[key];
+    } else {
+      delete process.env[key];
+    }
+  }
+
+  if (tempDir) {
+    await fs.rm(tempDir, { recursive: true, force: true }).catch(() => {});
+  }
+});
+
+async function signUp(role: "player" | "coach" = "player") {
+  const email = `${role}-${Date.now()}-${Math.random().toString(36).substring(7)}@example.com`;
+  const response = await request(app).post("/api/auth/signup").send({
+    firstName: role === "coach" ? "Casey" : "Sam",
+    lastName: role === "coach" ? "Coach" : "Player",
+    email,
+    phone: "401-555-0000",
+    password: "Password123",
+  });
+  const id = response.body.member.id as string;
+
+  if (role === "player") {
+    return { id, auth: `Bearer ${response.body.token}` };
+  }
+
+  await memberRepository.update(id, { role: "coach" });
+  memberCache.clear();
+  return { id, auth: `Bearer ${(await createSession(id, email, "coach")).token}` };
+}
+
+function createProgram(body: object) {
+  return request(app).post("/api/admin/programs").set("Authorization", adminAuth).send(body);
+}
+
+function enroll(programId: string, auth: string) {
+  return request(app).post(`/api/programs/${programId}/enroll`).set("Authorization", auth).send({});
+}
+
+describe("Program catalog", () => {
+  it("lets admins create programs that close their courts", async () => {
+    const player = await signUp();
+    const booked = await request(app)
+      .post("/api/reservations")
+      .send({ courtId: "1", date: "2027-11-16", timeSlot: { start: "18:00", end: "19:00" }, ...guest });
+    expect(booked.status).toBe(201);
+
+    expect(
+      (await request(app).post("/api/admin/programs").set("Authorization", player.auth).send(clinic))
+        .status
+    ).toBe(403);
+    expect((await createProgram({ ...clinic, sessions: [] })).status).toBe(400);
+    expect((await createProgram({ ...clinic, courtIds: ["99"] })).status).toBe(400);
+
+    const created = await createProgram(clinic);
+    expect(created.status).toBe(201);
+    expect(created.body.program).toMatchObject({ name: "Tuesday Clinic", status: "open", capacity: 8 });
+    expect(created.body.program.sessions).toHaveLength(2);
+    expect(created.body.affectedReservations.map((r: { id: string }) => r.id)).toEqual([booked.body.id]);
+
+    const availability = await request(app).get("/api/availability?date=2027-11-23");
+    const court2 = availability.body.availability.find((c: any) => c.courtId === "2");
+    expect(court2.closures).toEqual([
+      { start: "18:00", end: "19:30", kind: "program", reason: "Tuesday Clinic" },
+    ]);
+
+    const clash = await request(app)
+      .post("/api/reservations")
+      .send({ courtId: "2", date: "2027-11-23", timeSlot: { start: "19:00", end: "20:00" }, ...guest });
+    expect(clash.status).toBe(409);
+
+    const closures = await request(app)
+      .get("/api/admin/closures?courtId=2")
+      .set("Authorization", adminAuth);
+    const deleted = await request(app)
+      .delete(`/api/admin/closures/${closures.body[0].id}`)
+      .set("Authorization", adminAuth);
+    expect(deleted.status).toBe(400);
+
+    const catalog = await request(app).get("/api/programs");
+    expect(catalog.status).toBe(200);
+    expect(catalog.body).toHaveLength(1);
+    expect(catalog.body[0]).toMatchObject({ enrolledCount: 0, waitlistCount: 0 });
+    expect((await request(app).get("/api/programs?kind=camp")).body).toEqual([]);
+    expect((await request(app).get("/api/programs?kind=league")).status).toBe(400);
+
+    // Moving the second session reopens its old time
+    const moved = await request(app)
+      .patch(`/api/admin/programs/${created.body.program.id}`)
+      .set("Authorization", adminAuth)
+      .send({ sessions: [clinic.sessions[0], { date: "2027-11-30", start: "18:00", end: "19:30" }] });
+    expect(moved.status).toBe(200);
+    expect(moved.body.program.sessions[0].id).toBe(created.body.program.sessions[0].id);
+    const reopened = await request(app).get("/api/availability?date=2027-11-23");
+    expect(reopened.body.availability.find((c: any) => c.courtId === "2").closures).toEqual([]);
+  });
+});
+
+describe("Program enrollment", () => {
+  it("fills seats, then the waitlist, and moves the waitlist up on withdrawal", async () => {
+    const first = await signUp();
+    const second = await signUp();
+    const program = (await createProgram({ ...clinic, capacity: 1 })).body.program;
+
+    const seat = await enroll(program.id, first.auth);
+    expect(seat.status).toBe(201);
+    expect(seat.body.status).toBe("enrolled");
+
+    const waitlisted = await enroll(program.id, second.auth);
+    expect(waitlisted.body.status).toBe("waitlisted");
+    expect((await enroll(program.id, first.auth)).status).toBe(409);
+
+    // Waitlisted players can't pay yet
+    const tooSoon = await request(app)
+      .post("/api/payments/create-intent")
+      .set("Authorization", second.auth)
+      .send({ enrollmentId: waitlisted.body.id });
+    expect(tooSoon.status).toBe(400);
+
+    const intent = await request(app)
+      .post("/api/payments/create-intent")
+      .set("Authorization", first.auth)
+      .send({ enrollmentId: seat.body.id, amount: 1 });
+    expect(intent.status).toBe(200);
+    expect(intent.body.amount).toBe(16000);
+
+    const confirmed = await request(app)
+      .post("/api/payments/confirm")
+      .set("Authorization", first.auth)
+      .send({ paymentIntentId: intent.body.paymentIntentId });
+    expect(confirmed.status).toBe(200);
+    expect(confirmed.body).toMatchObject({ type: "program", enrollmentId: seat.body.id });
+
+    const mine = await request(app).get("/api/members/me/programs").set("Authorization", first.auth);
+    expect(mine.body).toHaveLength(1);
+    expect(mine.body[0]).toMatchObject({ paymentStatus: "paid", program: { name: "Tuesday Clinic" } });
+
+    expect(
+      (
+        await request(app)
+          .delete(`/api/programs/${program.id}/enrollments/${seat.body.id}`)
+          .set("Authorization", second.auth)
+      ).status
+    ).toBe(403);
+
+    const withdrawn = await request(app)
+      .delete(`/api/programs/${program.id}/enrollments/${seat.body.id}`)
+      .set("Authorization", first.auth);
+    expect(withdrawn.status).toBe(200);
+    expect(withdrawn.body.enrollment.status).toBe("cancelled");
+    expect(withdrawn.body.refund).toMatchObject({ status: "refunded", refundAmount: 16000 });
+
+    const promoted = await request(app).get("/api/members/me/programs").set("Authorization", second.auth);
+    expect(promoted.body[0].status).toBe("enrolled");
+    expect((await request(app).get(`/api/programs/${program.id}`)).body).toMatchObject({
+      enrolledCount: 1,
+      waitlistCount: 0,
+    });
+  });
+
+  it("checks age and NTRP limits", async () => {
+    const player = await signUp();
+    const juniors = (
+      await createProgram({ ...clinic, name: "Junior Development", kind: "junior_development", minAge: 8, maxAge: 12 })
+    ).body.program;
+
+    const noBirthday = await enroll(juniors.id, player.auth);
+    expect(noBirthday.status).toBe(400);
+    expect(noBirthday.body.error).toContain("date of birth");
+
+    await memberRepository.update(player.id, { dateOfBirth: "2017-01-01" });
+    memberCache.clear();
+    expect((await enroll(juniors.id, player.auth)).status).toBe(201);
+
+    const advanced = (await createProgram({ ...clinic, name: "Advanced Drills", minNtrp: 4 })).body.program;
+    await memberRepository.update(player.id, { ntrpRating: "3.0" });
+    memberCache.clear();
+    const tooLow = await enroll(advanced.id, player.auth);
+    expect(tooLow.status).toBe(400);
+    expect(tooLow.body.error).toBe("Advanced Drills is for NTRP 4.0 and up");
+  });
+});
+
+describe("Program rosters", () => {
+  it("lets coaches take attendance and keeps their lesson calendar clear", async () => {
+    const coach = await signUp("coach");
+    const player = await signUp();
+    const other = await signUp();
+    const program = (
+      await createProgram({
+        ...clinic,
+        sessions: [{ date: "2027-11-15", start: "10:00", end: "11:00" }],
+        coachIds: [coach.id],
+      })
+    ).body.program;
+    const enrollment = (await enroll(program.id, player.auth)).body;
+    expect((await enroll(program.id, coach.auth)).status).toBe(400);
+
+    const roster = await request(app)
+      .get(`/api/programs/${program.id}/roster`)
+      .set("Authorization", coach.auth);
+    expect(roster.status).toBe(200);
+    expect(roster.body.enrolled).toMatchObject([{ enrollmentId: enrollment.id, firstName: "Sam" }]);
+    expect(
+      (await request(app).get(`/api/programs/${program.id}/roster`).set("Authorization", other.auth)).status
+    ).toBe(403);
+
+    const sessionId = program.sessions[0].id;
+    const marked = await request(app)
+      .put(`/api/programs/${program.id}/sessions/${sessionId}/attendance`)
+      .set("Authorization", coach.auth)
+      .send({ attendance: { [enrollment.id]: "present" } });
+    expect(marked.status).toBe(200);
+    expect(marked.body.enrolled[0].attendance).toEqual({ [sessionId]: "present" });
+    expect(
+      (
+        await request(app)
+          .put(`/api/programs/${program.id}/sessions/${sessionId}/attendance`)
+          .set("Authorization", coach.auth)
+          .send({ attendance: { [enrollment.id]: "late" } })
+      ).status
+    ).toBe(400);
+
+    const coachPrograms = await request(app)
+      .get(`/api/coaches/${coach.id}/programs`)
+      .set("Authorization", coach.auth);
+    expect(coachPrograms.body.map((p: { id: string }) => p.id)).toEqual([program.id]);
+
+    await request(app)
+      .put(`/api/coaches/${coach.id}/availability`)
+      .set("Authorization", coach.auth)
+      .send({ weeklyHours: { monday: [{ start: "09:00", end: "12:00" }] } });
+    const slots = await request(app).get(
+      `/api/coaches/${coach.id}/slots?date=2027-11-15&lessonTypeId=private-60`
+    );
+    expect(slots.body.slots.map((s: { start: string }) => s.start)).toEqual(["09:00", "11:00"]);
+
+    const cancelled = await request(app)
+      .post(`/api/admin/programs/${program.id}/cancel`)
+      .set("Authorization", adminAuth);
+    expect(cancelled.status).toBe(200);
+    expect(cancelled.body.status).toBe("cancelled");
+
+    const availability = await request(app).get("/api/availability?date=2027-11-15");
+    expect(availability.body.availability.find((c: any) => c.courtId === "1").closures).toEqual([]);
+    const mine = await request(app).get("/api/members/me/programs").set("Authorization", player.auth);
+    expect(mine.body[0].status).toBe("cancelled");
+    expect((await request(app).get("/api/programs")).body).toEqual([]);
+  });
+});
@@ -10,9 +10,11 @@ import path from "path";
 import { promises as fs } from "fs";
 import os from "os";
 import app from "../../src/app";
+import { createSession } from "../../src/lib/auth/session-manager";
 import { reservationCache } from "../../src/lib/cache/reservation-cache";
 
 let tempDir = "";
+let adminAuth = "";
 let originalDataDir: string | undefined;
 
 beforeAll(async () => {
@@ -23,6 +25,8 @@ beforeAll(async () => {
   const baseDir = await fs.mkdtemp(path.join(os.tmpdir(), `pta-flow-${Date.now()}-${Math.random().toString(36).substring(7)}-`));
   tempDir = baseDir;
   process.env.DATA_DIR = tempDir;
+  // Admin session for the protected member/reservation endpoints
+  adminAuth = `Bearer ${(await createSession("test-admin", "admin@example.com", "admin")).token}`;
   // Ensure directory exists
   await fs.mkdir(tempDir, { recursive: true });
 });
@@ -283,7 +287,9 @@ describe("Reservation Flow Integration Tests", () => {
       await request(app).get(`/api/availability?date=${date}`);
 
       // Cancel reservation
-      await request(app).delete(`/api/reservations/${reservationId}`);
+      await request(app)
+        .delete(`/api/reservations/${reservationId}`)
+        .set("Authorization", adminAuth);
 
       // Cache should be invalidated
       const cached = reservationCache.get(`availability:${date}`);
@@ -295,7 +301,7 @@ describe("Reservation Flow Integration Tests", () => {
     it("should handle concurrent reservation attempts", async () => {
       // Use unique time slot for this test
       const uniqueMs = Date.now() % 1000;
-      const startHour = 16 + Math.floor(uniqueMs / 60);
+      const startHour = 16 + Math.floor(uniqueMs / 250); // 16-19, inside court hours
       const startMin = uniqueMs % 60;
       const endHour = startHour + 1;
       const endMin = startMin;
@@ -14,7 +14,9 @@ import { paymentRepository } from "../../src/lib/repositories/file-payment-repos
 import { reservationRepository } from "../../src/lib/repositories/file-reservation-repository";
 import { createPaymentIntent, confirmPayment } from "../../src/lib/payments/payments";
 import { createReservation, cancelReservation } from "../../src/lib/reservations";
+import { updateCourtSchedule } from "../../src/lib/courts";
 import { signUp } from "../../src/lib/auth/auth";
+import { quoteReservation } from "../../src/lib/pricing";
 import { processPaymentRequest } from "../../src/lib/payments/payment-processor";
 
 let tempDir = "";
@@ -43,6 +45,21 @@ beforeAll(async () => {
   process.env.DATA_DIR = tempDir;
   await fs.mkdir(tempDir, { recursive: true });
 
+  // Refund tier tests book relative to the current time, so keep court 1 open around the clock
+  const allDay = { open: "00:00", close: "24:00" };
+  await updateCourtSchedule("1", {
+    slotDurationMinutes: 60,
+    weeklyHours: {
+      sunday: allDay,
+      monday: allDay,
+      tuesday: allDay,
+      wednesday: allDay,
+      thursday: allDay,
+      friday: allDay,
+      saturday: allDay,
+    },
+  });
+
   // Create test member
   const member = await signUp({
     firstName: "Test",
@@ -93,6 +110,8 @@ beforeEach(async () => {
       await fs.writeFile(membersFile, JSON.stringify(testMember ? [testMember] : [], null, 2)).catch(() => {});
       await fs.writeFile(paymentsFile, JSON.stringify([], null, 2)).catch(() => {});
       await fs.writeFile(reservationsFile, JSON.stringify([], null, 2)).catch(() => {});
+      // Late cancellations in one test would otherwise suspend the member in the next
+      await fs.writeFile(path.join(tempDir, "penalties.json"), JSON.stringify([], null, 2)).catch(() => {});
       
       // Additional wait to ensure files are written
       await new Promise(resolve => setTimeout(resolve, 100));
@@ -165,11 +184,23 @@ describe("Reservation-Payment Integration Tests (Phase 4)", () => {
   describe("Reservation Creation with Payment", () => {
     it("should create reservation with valid paid payment", async () => {
       const uniqueId = Date.now();
+      // Use unique date and court to avoid conflicts; the price depends on both
+      const booking = {
+        courtId: getUniqueCourtId(),
+        date: getTestDate(30 + (uniqueId % 100)), // Far future date with uniqueness
+        timeSlot: {
+          start: "09:00",
+          end: "10:00",
+        },
+        memberId: testMemberId,
+      };
+      const quote = await quoteReservation(booking);
+
       // Create payment directly in repository (bypassing Stripe for test)
       const payment = await paymentRepository.create({
         memberId: testMemberId,
         type: "court_booking",
-        amount: 5000,
+        amount: quote.total,
         currency: "usd",
         status: "paid",
         description: "Court Booking",
@@ -180,21 +211,11 @@ describe("Reservation-Payment Integration Tests (Phase 4)", () => {
 
       expect(payment.status).toBe("paid");
 
-      // Create reservation with payment (use unique date and court to avoid conflicts)
-      const reservation = await createReservation({
-        courtId: getUniqueCourtId(),
-        date: getTestDate(30 + (uniqueId % 100)), // Far future date with uniqueness
-        timeSlot: {
-          start: "09:00",
-          end: "10:00",
-        },
-        memberId: testMemberId,
-        paymentId: payment.id,
-      });
+      const reservation = await createReservation({ ...booking, paymentId: payment.id });
 
       expect(reservation.paymentId).toBe(payment.id);
       expect(reservation.paymentStatus).toBe("paid");
-      expect(reservation.paymentAmount).toBe(5000);
+      expect(reservation.paymentAmount).toBe(quote.total);
     });
 
     it("should reject reservation with pending payment", async () => {
@@ -298,6 +319,64 @@ describe("Reservation-Payment Integration Tests (Phase 4)", () => {
       ).rejects.toThrow("Payment type must be 'court_booking'");
     });
 
+    it("should reject a payment already used for another reservation", async () => {
+      const uniqueId = Date.now();
+      const booking = {
+        courtId: getUniqueCourtId(),
+        date: getTestDate(30 + (uniqueId % 100)),
+        timeSlot: { start: "12:00", end: "13:00" },
+        memberId: testMemberId,
+      };
+      const payment = await paymentRepository.create({
+        memberId: testMemberId,
+        type: "court_booking",
+        amount: (await quoteReservation(booking)).total,
+        currency: "usd",
+        status: "paid",
+        description: "Court Booking",
+        stripePaymentIntentId: "pi_test_reused",
+        stripeChargeId: "ch_test_reused",
+        paidAt: new Date().toISOString(),
+      });
+
+      const first = await createReservation({ ...booking, paymentId: payment.id });
+
+      await expect(
+        createReservation({
+          courtId: getUniqueCourtId(),
+          date: getTestDate(31 + (uniqueId % 100)),
+          timeSlot: { start: "12:00", end: "13:00" },
+          memberId: testMemberId,
+          paymentId: payment.id,
+        })
+      ).rejects.toThrow(`Payment is already used for reservation ${first.id}`);
+    });
+
+    it("should reject a payment that doesn't cover the booking price", async () => {
+      const payment = await paymentRepository.create({
+        memberId: testMemberId,
+        type: "court_booking",
+        amount: 100,
+        currency: "usd",
+        status: "paid",
+        description: "Court Booking",
+        stripePaymentIntentId: "pi_test_short",
+        stripeChargeId: "ch_test_short",
+        paidAt: new Date().toISOString(),
+      });
+
+      const uniqueId = Date.now();
+      await expect(
+        createReservation({
+          courtId: getUniqueCourtId(),
+          date: getTestDate(30 + (uniqueId % 100)),
+          timeSlot: { start: "08:00", end: "10:00" },
+          memberId: testMemberId,
+          paymentId: payment.id,
+        })
+      ).rejects.toThrow("does not cover the booking price");
+    });
+
     it("should allow reservation without payment (backward compatibility)", async () => {
       const uniqueId = Date.now();
       // Create reservation without payment (use unique date)
@@ -319,25 +398,11 @@ describe("Reservation-Payment Integration Tests (Phase 4)", () => {
 
   describe("Reservation Cancellation with Refunds", () => {
     it("should process full refund for cancellation 24+ hours before reservation", async () => {
-      // Create payment
-      const payment = await paymentRepository.create({
-        memberId: testMemberId,
-        type: "court_booking",
-        amount: 5000,
-        currency: "usd",
-        status: "paid",
-        description: "Court Booking",
-        stripePaymentIntentId: "pi_test_123",
-        stripeChargeId: "ch_test_123",
-        paidAt: new Date().toISOString(),
-      });
-
       // Create reservation for tomorrow (more than 24 hours away)
       const tomorrow = new Date();
       tomorrow.setDate(tomorrow.getDate() + 1);
       const tomorrowStr = tomorrow.toISOString().split("T")[0];
-
-      const reservation = await createReservation({
+      const booking = {
         courtId: "5",
         date: tomorrowStr,
         timeSlot: {
@@ -345,9 +410,23 @@ describe("Reservation-Payment Integration Tests (Phase 4)", () => {
           end: "11:00",
         },
         memberId: testMemberId,
-        paymentId: payment.id,
+      };
+
+      // Create payment for the booking's price (prime time depends on the day)
+      const payment = await paymentRepository.create({
+        memberId: testMemberId,
+        type: "court_booking",
+        amount: (await quoteReservation(booking)).total,
+        currency: "usd",
+        status: "paid",
+        description: "Court Booking",
+        stripePaymentIntentId: "pi_test_123",
+        stripeChargeId: "ch_test_123",
+        paidAt: new Date().toISOString(),
       });
 
+      const reservation = await createReservation({ ...booking, paymentId: payment.id });
+
       // Cancel reservation
       const cancelled = await cancelReservation(reservation.id);
 
@@ -361,26 +440,12 @@ describe("Reservation-Payment Integration Tests (Phase 4)", () => {
     });
 
     it("should process 50% refund for cancellation 12-24 hours before reservation", async () => {
-      // Create payment
-      const payment = await paymentRepository.create({
-        memberId: testMemberId,
-        type: "court_booking",
-        amount: 5000,
-        currency: "usd",
-        status: "paid",
-        description: "Court Booking",
-        stripePaymentIntentId: "pi_test_123",
-        stripeChargeId: "ch_test_123",
-        paidAt: new Date().toISOString(),
-      });
-
       // Create reservation for 18 hours from now
       const future = new Date();
       future.setHours(future.getHours() + 18);
       const futureStr = future.toISOString().split("T")[0];
       const futureHour = future.getHours().toString().padStart(2, "0");
-
-      const reservation = await createReservation({
+      const booking = {
         courtId: "1",
         date: futureStr,
         timeSlot: {
@@ -388,9 +453,23 @@ describe("Reservation-Payment Integration Tests (Phase 4)", () => {
           end: `${(parseInt(futureHour) + 1).toString().padStart(2, "0")}:00`,
         },
         memberId: testMemberId,
-        paymentId: payment.id,
+      };
+
+      // Create payment for the booking's price (prime time depends on the hour)
+      const payment = await paymentRepository.create({
+        memberId: testMemberId,
+        type: "court_booking",
+        amount: (await quoteReservation(booking)).total,
+        currency: "usd",
+        status: "paid",
+        description: "Court Booking",
+        stripePaymentIntentId: "pi_test_123",
+        stripeChargeId: "ch_test_123",
+        paidAt: new Date().toISOString(),
       });
 
+      const reservation = await createReservation({ ...booking, paymentId: payment.id });
+
       // Cancel reservation
       const cancelled = await cancelReservation(reservation.id);
 
@@ -402,26 +481,12 @@ describe("Reservation-Payment Integration Tests (Phase 4)", () => {
     });
 
     it("should not refund for cancellation less than 12 hours before reservation", async () => {
-      // Create payment
-      const payment = await paymentRepository.create({
-        memberId: testMemberId,
-        type: "court_booking",
-        amount: 5000,
-        currency: "usd",
-        status: "paid",
-        description: "Court Booking",
-        stripePaymentIntentId: "pi_test_123",
-        stripeChargeId: "ch_test_123",
-        paidAt: new Date().toISOString(),
-      });
-
       // Create reservation for 6 hours from now
       const future = new Date();
       future.setHours(future.getHours() + 6);
       const futureStr = future.toISOString().split("T")[0];
       const futureHour = future.getHours().toString().padStart(2, "0");
-
-      const reservation = await createReservation({
+      const booking = {
         courtId: "1",
         date: futureStr,
         timeSlot: {
@@ -429,9 +494,23 @@ describe("Reservation-Payment Integration Tests (Phase 4)", () => {
           end: `${(parseInt(futureHour) + 1).toString().padStart(2, "0")}:00`,
         },
         memberId: testMemberId,
-        paymentId: payment.id,
+      };
+
+      // Create payment for the booking's price (prime time depends on the hour)
+      const payment = await paymentRepository.create({
+        memberId: testMemberId,
+        type: "court_booking",
+        amount: (await quoteReservation(booking)).total,
+        currency: "usd",
+        status: "paid",
+        description: "Court Booking",
+        stripePaymentIntentId: "pi_test_123",
+        stripeChargeId: "ch_test_123",
+        paidAt: new Date().toISOString(),
       });
 
+      const reservation = await createReservation({ ...booking, paymentId: payment.id });
+
       // Cancel reservation
       const cancelled = await cancelReservation(reservation.id);
 
@@ -464,11 +543,23 @@ describe("Reservation-Payment Integration Tests (Phase 4)", () => {
 
   describe("API Endpoint Integration", () => {
     it("should create reservation via API with payment", async () => {
+      const uniqueId = Date.now();
+      // Use a unique date; the price depends on the court and day
+      const booking = {
+        courtId: getUniqueCourtId(),
+        date: getTestDate(30 + (uniqueId % 100)), // Far future date with uniqueness
+        timeSlot: {
+          start: "15:00",
+          end: "16:00",
+        },
+        memberId: testMemberId,
+      };
+
       // Create payment directly (bypassing Stripe API for test)
       const payment = await paymentRepository.create({
         memberId: testMemberId,
         type: "court_booking",
-        amount: 5000,
+        amount: (await quoteReservation(booking)).total,
         currency: "usd",
         status: "paid",
         description: "Court Booking",
@@ -477,21 +568,11 @@ describe("Reservation-Payment Integration Tests (Phase 4)", () => {
         paidAt: new Date().toISOString(),
       });
 
-      const uniqueId = Date.now();
-      // Create reservation with payment via API (use unique date)
+      // Create reservation with payment via API
       const reservationResponse = await request(app)
         .post("/api/reservations")
         .set("Authorization", `Bearer ${testMemberToken}`)
-        .send({
-          courtId: getUniqueCourtId(),
-          date: getTestDate(30 + (uniqueId % 100)), // Far future date with uniqueness
-          timeSlot: {
-            start: "15:00",
-            end: "16:00",
-          },
-          memberId: testMemberId,
-          paymentId: payment.id,
-        });
+        .send({ ...booking, paymentId: payment.id });
 
       expect(reservationResponse.status).toBe(201);
       expect(reservationResponse.body.paymentId).toBe(payment.id);
@@ -0,0 +1,273 @@
+/**
+ * Integration tests for recurring reservation series
+ * Tests preview, per-occurrence conflicts and single/following/all cancellation
+ */
+
+import { describe, it, expect, beforeAll, beforeEach, afterEach, afterAll } from "vitest";
+import request from "supertest";
+import path from "path";
+import { promises as fs } from "fs";
+import os from "os";
+import app from "../../src/app";
+import { memberCache } from "../../src/lib/cache/member-cache";
+import { reservationCache } from "../../src/lib/cache/reservation-cache";
+
+let tempDir = "";
+let originalDataDir: string | undefined;
+let originalJwtSecret: string | undefined;
+let adminToken = "";
+
+const guest = {
+  guestName: "League Captain",
+  guestEmail: "league@example.com",
+  guestPhone: "401-555-0104",
+};
+
+// 2027-09-07 is a Tuesday
+const weeklySeries = {
+  courtId: "4",
+  startDate: "2027-09-07",
+  timeSlot: { start: "18:00", end: "19:00" },
+  rrule: "FREQ=WEEKLY;BYDAY=TU;COUNT=4",
+  ...guest,
+};
+
+beforeAll(async () => {
+  originalDataDir = process.env.DATA_DIR;
+  originalJwtSecret = process.env.JWT_SECRET;
+
+  process.env.JWT_SECRET = "test-secret-key-for-testing-only";
+  process.env.BCRYPT_ROUNDS = "10";
+
+  tempDir = await fs.mkdtemp(
+    path.join(os.tmpdir(), `pta-series-${Date.now()}-${Math.random().toString(36).substring(7)}-`)
+  );
+  process.env.DATA_DIR = tempDir;
+});
+
+beforeEach(async () => {
+  memberCache.clear();
+  reservationCache.clear();
+
+  // Reset series, closures, reservations and members for each test
+  await fs.writeFile(path.join(tempDir, "reservation-series.json"), JSON.stringify([], null, 2));
+  await fs.writeFile(path.join(tempDir, "closures.json"), JSON.stringify([], null, 2));
+  await fs.writeFile(path.join(tempDir, "reservations.json"), JSON.stringify([], null, 2));
+  await fs.writeFile(path.join(tempDir, "members.json"), JSON.stringify([], null, 2));
+
+  adminToken = await getToken("admin");
+});
+
+afterEach(async () => {
+  memberCache.clear();
+  reservationCache.clear();
+});
+
+afterAll(async () => {
+  if (originalDataDir !== undefined) {
+    process.env.DATA_DIR = originalDataDir;
+  } else {
+    delete process.env.DATA_DIR;
+  }
+
+  if (originalJwtSecret !== undefined) {
+    process.env.JWT_SECRET = originalJwtSecret;
+  } else {
+    delete process.env.JWT_SECRET;
+  }
+
+  if (tempDir) {
+    await fs.rm(tempDir, { recursive: true, force: true }).catch(() => {});
+  }
+});
+
+async function getToken(role: string): Promise<string> {
+  const email = `${role}-${Date.now()}-${Math.random().toString(36).substring(7)}@example.com`;
+  const response = await request(app).post("/api/auth/signup").send({
+    firstName: "Series",
+    lastName: "Admin",
+    email,
+    phone: "401-555-0000",
+    password: "Password123",
+    role,
+  });
+  return response.body.token;
+}
+
+async function createWeeklySeries() {
+  return request(app)
+    .post("/api/admin/reservations/series")
+    .set("Authorization", `Bearer ${adminToken}`)
+    .send(weeklySeries);
+}
+
+describe("Reservation Series Integration Tests", () => {
+  it("should preview conflicts per occurrence without booking", async () => {
+    const existing = await request(app).post("/api/reservations").send({
+      courtId: "4",
+      date: "2027-09-14",
+      timeSlot: { start: "18:00", end: "19:00" },
+      customerName: guest.guestName,
+      customerEmail: guest.guestEmail,
+      customerPhone: guest.guestPhone,
+    });
+    expect(existing.status).toBe(201);
+
+    await request(app)
+      .post("/api/admin/closures")
+      .set("Authorization", `Bearer ${adminToken}`)
+      .send({ courtId: "4", startDate: "2027-09-21", kind: "tournament", reason: "Fall open" });
+
+    const preview = await request(app)
+      .post("/api/admin/reservations/series/preview")
+      .set("Authorization", `Bearer ${adminToken}`)
+      .send(weeklySeries);
+
+    expect(preview.status).toBe(200);
+    expect(preview.body.occurrences).toEqual([
+      { date: "2027-09-07", status: "available" },
+      { date: "2027-09-14", status: "conflict", reason: "Time slot is already booked" },
+      {
+        date: "2027-09-21",
+        status: "conflict",
+        reason: "Court is closed for tournament (Fall open) 2027-09-21",
+      },
+      { date: "2027-09-28", status: "available" },
+    ]);
+
+    const reservations = await request(app).get("/api/reservations");
+    expect(reservations.body).toHaveLength(1);
+  });
+
+  it("should create available occurrences and report conflicts", async () => {
+    await request(app).post("/api/reservations").send({
+      courtId: "4",
+      date: "2027-09-14",
+      timeSlot: { start: "18:30", end: "19:30" },
+      customerName: guest.guestName,
+      customerEmail: guest.guestEmail,
+      customerPhone: guest.guestPhone,
+    });
+
+    const created = await createWeeklySeries();
+
+    expect(created.status).toBe(201);
+    expect(created.body.series).toMatchObject({
+      courtId: "4",
+      rrule: "FREQ=WEEKLY;BYDAY=TU;COUNT=4",
+      status: "active",
+    });
+    expect(created.body.occurrences.map((o: any) => o.status)).toEqual([
+      "created",
+      "conflict",
+      "created",
+      "created",
+    ]);
+
+    const fetched = await request(app)
+      .get(`/api/admin/reservations/series/${created.body.series.id}`)
+      .set("Authorization", `Bearer ${adminToken}`);
+    expect(fetched.status).toBe(200);
+    expect(fetched.body.reservations.map((r: any) => r.date)).toEqual([
+      "2027-09-07",
+      "2027-09-21",
+      "2027-09-28",
+    ]);
+    expect(fetched.body.reservations[0]).toMatchObject({
+      seriesId: created.body.series.id,
+      contactName: "League Captain",
+    });
+  });
+
+  it("should cancel a single occurrence, following occurrences, or the whole series", async () => {
+    const created = await createWeeklySeries();
+    const ids = created.body.occurrences.map((o: any) => o.reservationId);
+
+    const single = await request(app)
+      .delete(`/api/admin/reservations/${ids[0]}`)
+      .set("Authorization", `Bearer ${adminToken}`);
+    expect(single.status).toBe(200);
+
+    const following = await request(app)
+      .delete(`/api/admin/reservations/${ids[2]}?scope=following`)
+      .set("Authorization", `Bearer ${adminToken}`);
+    expect(following.status).toBe(200);
+    expect(following.body.cancelledReservationIds).toEqual([ids[2], ids[3]]);
+    expect(following.body.series.cancelledFrom).toBe("2027-09-21");
+
+    let fetched = await request(app)
+      .get(`/api/admin/reservations/series/${created.body.series.id}`)
+      .set("Authorization", `Bearer ${adminToken}`);
+    expect(fetched.body.reservations.map((r: any) => r.status)).toEqual([
+      "cancelled",
+      "confirmed",
+      "cancelled",
+      "cancelled",
+    ]);
+
+    const all = await request(app)
+      .delete(`/api/admin/reservations/${ids[1]}?scope=all`)
+      .set("Authorization", `Bearer ${adminToken}`);
+    expect(all.status).toBe(200);
+    expect(all.body.cancelledReservationIds).toEqual([ids[1]]);
+    expect(all.body.series.status).toBe("cancelled");
+
+    fetched = await request(app)
+      .get(`/api/admin/reservations/series/${created.body.series.id}`)
+      .set("Authorization", `Bearer ${adminToken}`);
+    expect(fetched.body.reservations.every((r: any) => r.status === "cancelled")).toBe(true);
+  });
+
+  it("should reject series scopes for standalone reservations", async () => {
+    const standalone = await request(app).post("/api/reservations").send({
+      courtId: "2",
+      date: "2027-09-08",
+      timeSlot: { start: "10:00", end: "11:00" },
+      customerName: guest.guestName,
+      customerEmail: guest.guestEmail,
+      customerPhone: guest.guestPhone,
+    });
+
+    const response = await request(app)
+      .delete(`/api/admin/reservations/${standalone.body.id}?scope=all`)
+      .set("Authorization", `Bearer ${adminToken}`);
+    expect(response.status).toBe(400);
+
+    const invalidScope = await request(app)
+      .delete(`/api/admin/reservations/${standalone.body.id}?scope=everything`)
+      .set("Authorization", `Bearer ${adminToken}`);
+    expect(invalidScope.status).toBe(400);
+  });
+
+  it("should validate series requests and require admin", async () => {
+    const noEnd = await request(app)
+      .post("/api/admin/reservations/series")
+      .set("Authorization", `Bearer ${adminToken}`)
+      .send({ ...weeklySeries, rrule: "FREQ=WEEKLY;BYDAY=TU" });
+    expect(noEnd.status).toBe(400);
+
+    const noGuest = await request(app)
+      .post("/api/admin/reservations/series")
+      .set("Authorization", `Bearer ${adminToken}`)
+      .send({ ...weeklySeries, guestName: undefined });
+    expect(noGuest.status).toBe(400);
+
+    const unknownMember = await request(app)
+      .post("/api/admin/reservations/series")
+      .set("Authorization", `Bearer ${adminToken}`)
+      .send({ ...weeklySeries, memberId: "missing-member" });
+    expect(unknownMember.status).toBe(400);
+
+    const missing = await request(app)
+      .get("/api/admin/reservations/series/series-missing")
+      .set("Authorization", `Bearer ${adminToken}`);
+    expect(missing.status).toBe(404);
+
+    const playerToken = await getToken("player");
+    const forbidden = await request(app)
+      .post("/api/admin/reservations/series/preview")
+      .set("Authorization", `Bearer ${playerToken}`)
+      .send(weeklySeries);
+    expect(forbidden.status).toBe(403);
+  });
+});
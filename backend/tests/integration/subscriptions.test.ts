@@ -0,0 +1,351 @@
+/**
+ * Integration tests for membership plans and subscriptions
+ *
+ * Stripe is replaced by the in-memory stub (STRIPE_CLIENT=stub); lifecycle
+ * changes arrive as webhooks signed with the test secret.
+ */
+
+import { describe, it, expect, beforeAll, beforeEach, afterEach, afterAll } from "vitest";
+import request from "supertest";
+import path from "path";
+import { promises as fs } from "fs";
+import os from "os";
+import Stripe from "stripe";
+import { addDays, format } from "date-fns";
+import app from "../../src/app";
+import { memberCache } from "../../src/lib/cache/member-cache";
+import { reservationCache } from "../../src/lib/cache/reservation-cache";
+
+const WEBHOOK_SECRET = "whsec_test_providence_tennis";
+
+let tempDir = "";
+const originalEnv: Record<string, string | undefined> = {};
+const ENV_KEYS = ["DATA_DIR", "JWT_SECRET", "STRIPE_CLIENT", "STRIPE_WEBHOOK_SECRET"];
+
+beforeAll(async () => {
+  for (const key of ENV_KEYS) {
+    originalEnv[key] = process.env[key];
+  }
+
+  process.env.JWT_SECRET = "test-secret-key-for-testing-only";
+  process.env.BCRYPT_ROUNDS = "10";
+  process.env.STRIPE_CLIENT = "stub";
+  process.env.STRIPE_WEBHOOK_SECRET = WEBHOOK_SECRET;
+
+  tempDir = await fs.mkdtemp(
+    path.join(os.tmpdir(), `pta-subscriptions-${Date.now()}-${Math.random().toString(36).substring(7)}-`)
+  );
+  process.env.DATA_DIR = tempDir;
+});
+
+beforeEach(async () => {
+  memberCache.clear();
+  reservationCache.clear();
+
+  for (const file of [
+    "reservations.json",
+    "members.json",
+    "sessions.json",
+    "subscriptions.json",
+    "payments.json",
+    "webhook-events.json",
+    "guardian-invites.json",
+  ]) {
+    await fs.writeFile(path.join(tempDir, file), JSON.stringify([], null, 2));
+  }
+});
+
+afterEach(async () => {
+  memberCache.clear();
+  reservationCache.clear();
+});
+
+afterAll(async () => {
+  for (const key of ENV_KEYS) {
+    if (originalEnv[key] !== undefined) {
+      process.env[key] = originalEnv[key];
+    } else {
+      delete process.env[key];
+    }
+  }
+
+  if (tempDir) {
+    await fs.rm(tempDir, { recursive: true, force: true }).catch(() => {});
+  }
+});
+
+async function signUp(role: "player" | "parent" = "player") {
+  const email = `${role}-${Date.now()}-${Math.random().toString(36).substring(7)}@example.com`;
+  const response = await request(app).post("/api/auth/signup").send({
+    firstName: "Sam",
+    lastName: role,
+    email,
+    phone: "401-555-0000",
+    password: "Password123",
+    role,
+  });
+  return {
+    id: response.body.member.id as string,
+    email,
+    auth: `Bearer ${response.body.token}`,
+  };
+}
+
+function subscribe(member: { auth: string }, planId: string, interval: string) {
+  return request(app)
+    .post("/api/members/me/subscription")
+    .set("Authorization", member.auth)
+    .send({ planId, interval });
+}
+
+function getSubscription(member: { auth: string }) {
+  return request(app).get("/api/members/me/subscription").set("Authorization", member.auth);
+}
+
+let eventSequence = 0;
+
+function sendEvent(type: string, object: Record<string, unknown>) {
+  eventSequence += 1;
+  const payload = JSON.stringify({
+    id: `evt_subscription_${Date.now()}_${eventSequence}`,
+    object: "event",
+    type,
+    api_version: "2023-10-16",
+    created: Math.floor(Date.now() / 1000),
+    livemode: false,
+    data: { object },
+  });
+  const signature = Stripe.webhooks.generateTestHeaderString({ payload, secret: WEBHOOK_SECRET });
+
+  return request(app)
+    .post("/api/payments/webhook")
+    .set("Content-Type", "application/json")
+    .set("Stripe-Signature", signature)
+    .send(payload);
+}
+
+function daysFromNow(days: number): string {
+  return format(addDays(new Date(), days), "yyyy-MM-dd");
+}
+
+describe("GET /api/membership/plans", () => {
+  it("lists plans with prices and entitlements", async () => {
+    const response = await request(app).get("/api/membership/plans");
+    expect(response.status).toBe(200);
+    expect(response.body.plans.map((p: any) => p.id)).toEqual([
+      "junior",
+      "adult",
+      "family",
+      "off_season",
+    ]);
+    expect(response.body.plans[1].entitlements.bookingWindowDays).toBe(14);
+  });
+});
+
+describe("Subscribing", () => {
+  it("starts trials and tracks the renewal date", async () => {
+    const member = await signUp();
+
+    const created = await subscribe(member, "adult", "month");
+    expect(created.status).toBe(201);
+    expect(created.body.clientSecret).toBeUndefined();
+    expect(created.body.subscription.status).toBe("trialing");
+    expect(created.body.subscription.stripeSubscriptionId).toMatch(/^sub_stub_/);
+    expect(created.body.subscription.currentPeriodEnd).toBe(created.body.subscription.trialEnd);
+
+    const summary = await getSubscription(member);
+    expect(summary.body.plan.id).toBe("adult");
+    expect(summary.body.entitlements).toMatchObject({ planId: "adult", courtDiscount: 0.2 });
+
+    const again = await subscribe(member, "family", "year");
+    expect(again.status).toBe(400);
+    expect(again.body.error).toContain("already have");
+  });
+
+  it("activates paid plans from Stripe webhooks", async () => {
+    const member = await signUp();
+    await request(app)
+      .patch(`/api/members/${member.id}`)
+      .set("Authorization", member.auth)
+      .send({ dateOfBirth: format(addDays(new Date(), -12 * 365), "yyyy-MM-dd") });
+
+    const created = await subscribe(member, "junior", "month");
+    expect(created.status).toBe(201);
+    expect(created.body.clientSecret).toBeTruthy();
+    expect(created.body.subscription.status).toBe("past_due");
+    expect((await getSubscription(member)).body.entitlements).toBeNull();
+
+    const stripeSubscriptionId = created.body.subscription.stripeSubscriptionId;
+    const periodEnd = Math.floor(addDays(new Date(), 30).getTime() / 1000);
+
+    const paid = await sendEvent("invoice.paid", {
+      id: "in_test_1",
+      object: "invoice",
+      subscription: stripeSubscriptionId,
+      payment_intent: "pi_test_invoice_1",
+      charge: "ch_test_invoice_1",
+      amount_paid: 2500,
+      currency: "usd",
+      created: Math.floor(Date.now() / 1000),
+    });
+    expect(paid.status).toBe(200);
+    expect(paid.body.subscriptionId).toBe(created.body.subscription.id);
+
+    const payments = await request(app).get("/api/payments").set("Authorization", member.auth);
+    const membershipPayment = payments.body.find((p: any) => p.type === "membership");
+    expect(membershipPayment).toMatchObject({ amount: 2500, status: "paid", memberId: member.id });
+
+    await sendEvent("customer.subscription.updated", {
+      id: stripeSubscriptionId,
+      object: "subscription",
+      status: "active",
+      current_period_start: Math.floor(Date.now() / 1000),
+      current_period_end: periodEnd,
+      cancel_at_period_end: false,
+      trial_end: null,
+      ended_at: null,
+    });
+
+    const active = await getSubscription(member);
+    expect(active.body.subscription.status).toBe("active");
+    expect(active.body.subscription.currentPeriodEnd).toBe(new Date(periodEnd * 1000).toISOString());
+    expect(active.body.entitlements.planId).toBe("junior");
+
+    await sendEvent("invoice.payment_failed", {
+      id: "in_test_2",
+      object: "invoice",
+      subscription: stripeSubscriptionId,
+      amount_paid: 0,
+      currency: "usd",
+      created: Math.floor(Date.now() / 1000),
+    });
+    const pastDue = await getSubscription(member);
+    expect(pastDue.body.subscription.status).toBe("past_due");
+    expect(pastDue.body.entitlements).toBeNull();
+  });
+
+  it("rejects unknown plans, unsupported intervals and ineligible members", async () => {
+    const member = await signUp();
+
+    expect((await request(app).post("/api/members/me/subscription").send({})).status).toBe(401);
+    expect((await subscribe(member, "", "month")).status).toBe(400);
+    expect((await subscribe(member, "gold", "month")).status).toBe(400);
+
+    const yearly = await subscribe(member, "off_season", "year");
+    expect(yearly.status).toBe(400);
+    expect(yearly.body.error).toContain("billed by the month");
+
+    const junior = await subscribe(member, "junior", "month");
+    expect(junior.status).toBe(400);
+    expect(junior.body.error).toContain("under 18");
+  });
+});
+
+describe("Plan entitlements", () => {
+  it("set the booking window and court discount", async () => {
+    const member = await signUp();
+    expect((await subscribe(member, "adult", "month")).status).toBe(201);
+
+    const tooFar = await request(app)
+      .post("/api/reservations")
+      .set("Authorization", member.auth)
+      .send({
+        courtId: "1",
+        date: daysFromNow(20),
+        timeSlot: { start: "09:00", end: "10:00" },
+        memberId: member.id,
+      });
+    expect(tooFar.status).toBe(400);
+    expect(tooFar.body.error).toContain("14 days ahead");
+
+    const inWindow = await request(app)
+      .post("/api/reservations")
+      .set("Authorization", member.auth)
+      .send({
+        courtId: "1",
+        date: daysFromNow(7),
+        timeSlot: { start: "09:00", end: "10:00" },
+        memberId: member.id,
+      });
+    expect(inWindow.status).toBe(201);
+
+    const quote = await request(app)
+      .get(`/api/pricing/quote?courtId=1&date=${daysFromNow(7)}&start=09:00&end=10:00`)
+      .set("Authorization", member.auth);
+    expect(quote.body.membershipPlan).toBe("adult");
+    expect(quote.body.lineItems.at(-1).label).toContain("Adult member discount (20%)");
+  });
+
+  it("extend family plans to linked players", async () => {
+    const parent = await signUp("parent");
+    const child = await signUp();
+
+    const invite = await request(app)
+      .post("/api/members/me/guardian-invites")
+      .set("Authorization", parent.auth)
+      .send({ email: child.email });
+    await request(app)
+      .post(`/api/members/me/guardian-invites/${invite.body.id}/accept`)
+      .set("Authorization", child.auth);
+
+    expect((await subscribe(parent, "family", "year")).status).toBe(201);
+
+    const summary = await getSubscription(child);
+    expect(summary.body.subscription).toBeNull();
+    expect(summary.body.entitlements).toMatchObject({ planId: "family", coveredBy: parent.id });
+
+    const viaParent = await request(app)
+      .get(`/api/members/${child.id}/subscription`)
+      .set("Authorization", parent.auth);
+    expect(viaParent.status).toBe(200);
+    expect(viaParent.body.entitlements.planId).toBe("family");
+
+    const stranger = await signUp();
+    const forbidden = await request(app)
+      .get(`/api/members/${child.id}/subscription`)
+      .set("Authorization", stranger.auth);
+    expect(forbidden.status).toBe(403);
+  });
+});
+
+describe("Canceling", () => {
+  it("cancels at period end, resumes, and ends when Stripe deletes the subscription", async () => {
+    const member = await signUp();
+    const created = await subscribe(member, "adult", "year");
+
+    expect((await request(app).delete("/api/members/me/subscription")).status).toBe(401);
+
+    const canceled = await request(app)
+      .delete("/api/members/me/subscription")
+      .set("Authorization", member.auth);
+    expect(canceled.status).toBe(200);
+    expect(canceled.body.cancelAtPeriodEnd).toBe(true);
+    expect(canceled.body.status).toBe("trialing");
+
+    const resumed = await request(app)
+      .post("/api/members/me/subscription/resume")
+      .set("Authorization", member.auth);
+    expect(resumed.body.cancelAtPeriodEnd).toBe(false);
+
+    await sendEvent("customer.subscription.deleted", {
+      id: created.body.subscription.stripeSubscriptionId,
+      object: "subscription",
+      status: "canceled",
+      current_period_start: Math.floor(Date.now() / 1000),
+      current_period_end: Math.floor(Date.now() / 1000),
+      cancel_at_period_end: false,
+      trial_end: null,
+      ended_at: Math.floor(Date.now() / 1000),
+    });
+
+    const ended = await getSubscription(member);
+    expect(ended.body).toMatchObject({ subscription: null, plan: null, entitlements: null });
+
+    const missing = await request(app)
+      .delete("/api/members/me/subscription")
+      .set("Authorization", member.auth);
+    expect(missing.status).toBe(404);
+
+    expect((await subscribe(member, "adult", "month")).status).toBe(201);
+  });
+});
@@ -0,0 +1,302 @@
+/**
+ * Integration tests for the court waitlist
+ * Tests joining, holds offered on cancellation, hold expiry and booking a held slot
+ */
+
+import { describe, it, expect, beforeAll, beforeEach, afterEach, afterAll } from "vitest";
+import request from "supertest";
+import path from "path";
+import { promises as fs } from "fs";
+import os from "os";
+import app from "../../src/app";
+import { createSession } from "../../src/lib/auth/session-manager";
+import { memberCache } from "../../src/lib/cache/member-cache";
+import { reservationCache } from "../../src/lib/cache/reservation-cache";
+import { expireHolds } from "../../src/lib/waitlist";
+import { waitlistRepository } from "../../src/lib/repositories/file-waitlist-repository";
+
+let tempDir = "";
+let adminAuth = "";
+let originalDataDir: string | undefined;
+let originalJwtSecret: string | undefined;
+let originalHoldMinutes: string | undefined;
+
+const DATE = "2027-10-05";
+const SIX_PM = { start: "18:00", end: "19:00" };
+
+interface TestMember {
+  id: string;
+  token: string;
+}
+
+beforeAll(async () => {
+  originalDataDir = process.env.DATA_DIR;
+  originalJwtSecret = process.env.JWT_SECRET;
+  originalHoldMinutes = process.env.WAITLIST_HOLD_MINUTES;
+
+  process.env.JWT_SECRET = "test-secret-key-for-testing-only";
+  process.env.BCRYPT_ROUNDS = "10";
+
+  tempDir = await fs.mkdtemp(
+    path.join(os.tmpdir(), `pta-waitlist-${Date.now()}-${Math.random().toString(36).substring(7)}-`)
+  );
+  process.env.DATA_DIR = tempDir;
+  // Admin session for the protected member/reservation endpoints
+  adminAuth = `Bearer ${(await createSession("test-admin", "admin@example.com", "admin")).token}`;
+});
+
+beforeEach(async () => {
+  memberCache.clear();
+  reservationCache.clear();
+  delete process.env.WAITLIST_HOLD_MINUTES;
+
+  // Reset waitlist, reservations and members for each test
+  await fs.writeFile(path.join(tempDir, "waitlist.json"), JSON.stringify([], null, 2));
+  await fs.writeFile(path.join(tempDir, "reservations.json"), JSON.stringify([], null, 2));
+  await fs.writeFile(path.join(tempDir, "members.json"), JSON.stringify([], null, 2));
+});
+
+afterEach(async () => {
+  memberCache.clear();
+  reservationCache.clear();
+});
+
+afterAll(async () => {
+  if (originalDataDir !== undefined) {
+    process.env.DATA_DIR = originalDataDir;
+  } else {
+    delete process.env.DATA_DIR;
+  }
+
+  if (originalJwtSecret !== undefined) {
+    process.env.JWT_SECRET = originalJwtSecret;
+  } else {
+    delete process.env.JWT_SECRET;
+  }
+
+  if (originalHoldMinutes !== undefined) {
+    process.env.WAITLIST_HOLD_MINUTES = originalHoldMinutes;
+  } else {
+    delete process.env.WAITLIST_HOLD_MINUTES;
+  }
+
+  if (tempDir) {
+    await fs.rm(tempDir, { recursive: true, force: true }).catch(() => {});
+  }
+});
+
+async function signUp(name: string): Promise<TestMember> {
+  const email = `${name}-${Date.now()}-${Math.random().toString(36).substring(7)}@example.com`;
+  const response = await request(app).post("/api/auth/signup").send({
+    firstName: name,
+    lastName: "Player",
+    email,
+    phone: "401-555-0000",
+    password: "Password123",
+    role: "player",
+  });
+  return { id: response.body.member.id, token: response.body.token };
+}
+
+async function bookSixPm(member: TestMember, courtId = "3") {
+  return request(app)
+    .post("/api/reservations")
+    .set("Authorization", `Bearer ${member.token}`)
+    .send({ courtId, date: DATE, timeSlot: SIX_PM, memberId: member.id });
+}
+
+async function joinWaitlist(member: TestMember, body: Record<string, unknown>) {
+  return request(app)
+    .post("/api/members/me/waitlist")
+    .set("Authorization", `Bearer ${member.token}`)
+    .send(body);
+}
+
+async function getWaitlist(member: TestMember) {
+  return request(app)
+    .get("/api/members/me/waitlist")
+    .set("Authorization", `Bearer ${member.token}`);
+}
+
+describe("Waitlist Integration Tests", () => {
+  it("should hold a freed slot for the first member in line and let them book it", async () => {
+    const booker = await signUp("Booker");
+    const first = await signUp("First");
+    const second = await signUp("Second");
+
+    const booking = await bookSixPm(booker);
+    expect(booking.status).toBe(201);
+
+    const anyCourt = await joinWaitlist(first, { date: DATE, timeRange: SIX_PM });
+    expect(anyCourt.status).toBe(201);
+    expect(anyCourt.body).toMatchObject({ status: "waiting", date: DATE });
+    expect(anyCourt.body.courtId).toBeUndefined();
+    await joinWaitlist(second, { courtId: "3", date: DATE, timeRange: SIX_PM });
+
+    const cancelled = await request(app)
+      .delete(`/api/reservations/${booking.body.id}`)
+      .set("Authorization", adminAuth);
+    expect(cancelled.status).toBe(200);
+
+    const firstList = await getWaitlist(first);
+    expect(firstList.body).toHaveLength(1);
+    expect(firstList.body[0]).toMatchObject({
+      status: "offered",
+      hold: { courtId: "3", timeSlot: SIX_PM },
+    });
+    expect(new Date(firstList.body[0].hold.expiresAt).getTime()).toBeGreaterThan(Date.now());
+
+    const secondList = await getWaitlist(second);
+    expect(secondList.body[0].status).toBe("waiting");
+
+    // Held slot is unavailable to everyone else
+    const availability = await request(app).get(`/api/availability?date=${DATE}`);
+    const court3 = availability.body.availability.find((c: any) => c.courtId === "3");
+    expect(court3.slots.find((s: any) => s.start === "18:00").available).toBe(false);
+
+    const sniped = await bookSixPm(second);
+    expect(sniped.status).toBe(409);
+    expect(sniped.body.error).toContain("waitlisted");
+
+    const claimed = await request(app)
+      .post(`/api/members/me/waitlist/${firstList.body[0].id}/book`)
+      .set("Authorization", `Bearer ${first.token}`)
+      .send({});
+    expect(claimed.status).toBe(201);
+    expect(claimed.body).toMatchObject({ courtId: "3", date: DATE, memberId: first.id });
+
+    const fulfilled = await getWaitlist(first);
+    expect(fulfilled.body[0]).toMatchObject({
+      status: "fulfilled",
+      reservationId: claimed.body.id,
+    });
+  });
+
+  it("should pass an expired hold to the next member in line", async () => {
+    process.env.WAITLIST_HOLD_MINUTES = "0.001"; // 60ms
+
+    const booker = await signUp("Booker");
+    const first = await signUp("First");
+    const second = await signUp("Second");
+
+    const booking = await bookSixPm(booker);
+    await joinWaitlist(first, { date: DATE, timeRange: { start: "17:00", end: "20:00" } });
+    await joinWaitlist(second, { courtId: "3", date: DATE, timeRange: SIX_PM });
+
+    await request(app)
+      .delete(`/api/reservations/${booking.body.id}`)
+      .set("Authorization", adminAuth);
+    await new Promise((resolve) => setTimeout(resolve, 100));
+
+    const firstList = await getWaitlist(first);
+    expect(firstList.body[0].status).toBe("expired");
+    expect(firstList.body[0].hold).toBeUndefined();
+
+    const secondList = await getWaitlist(second);
+    expect(secondList.body[0]).toMatchObject({
+      status: "offered",
+      hold: { courtId: "3", timeSlot: SIX_PM },
+    });
+
+    const late = await request(app)
+      .post(`/api/members/me/waitlist/${firstList.body[0].id}/book`)
+      .set("Authorization", `Bearer ${first.token}`);
+    expect(late.status).toBe(400);
+  });
+
+  it("should release abandoned holds on the sweep without waiting for a read", async () => {
+    process.env.WAITLIST_HOLD_MINUTES = "0.001"; // 60ms
+
+    const booker = await signUp("Booker");
+    const first = await signUp("First");
+    const second = await signUp("Second");
+
+    const booking = await bookSixPm(booker);
+    await joinWaitlist(first, { date: DATE, timeRange: SIX_PM });
+    await joinWaitlist(second, { date: DATE, timeRange: SIX_PM });
+    await request(app)
+      .delete(`/api/reservations/${booking.body.id}`)
+      .set("Authorization", adminAuth);
+    await new Promise((resolve) => setTimeout(resolve, 100));
+
+    expect(await expireHolds()).toBe(1);
+
+    const [firstEntry] = await waitlistRepository.findByMember(first.id);
+    const [secondEntry] = await waitlistRepository.findByMember(second.id);
+    expect(firstEntry).toMatchObject({ status: "expired" });
+    expect(secondEntry).toMatchObject({ status: "offered", hold: { courtId: "3" } });
+  });
+
+  it("should not offer slots outside the waitlisted court or time range", async () => {
+    const booker = await signUp("Booker");
+    const waiter = await signUp("Waiter");
+
+    const otherCourt = await bookSixPm(booker, "5");
+    await joinWaitlist(waiter, { courtId: "3", date: DATE, timeRange: SIX_PM });
+    await request(app)
+      .delete(`/api/reservations/${otherCourt.body.id}`)
+      .set("Authorization", adminAuth);
+
+    const list = await getWaitlist(waiter);
+    expect(list.body[0].status).toBe("waiting");
+  });
+
+  it("should pass a held slot on when the holder leaves the waitlist", async () => {
+    const booker = await signUp("Booker");
+    const first = await signUp("First");
+    const second = await signUp("Second");
+
+    const booking = await bookSixPm(booker);
+    const firstEntry = await joinWaitlist(first, { date: DATE, timeRange: SIX_PM });
+    await joinWaitlist(second, { date: DATE, timeRange: SIX_PM });
+    await request(app)
+      .delete(`/api/reservations/${booking.body.id}`)
+      .set("Authorization", adminAuth);
+
+    const forbidden = await request(app)
+      .delete(`/api/members/me/waitlist/${firstEntry.body.id}`)
+      .set("Authorization", `Bearer ${second.token}`);
+    expect(forbidden.status).toBe(404);
+
+    const left = await request(app)
+      .delete(`/api/members/me/waitlist/${firstEntry.body.id}`)
+      .set("Authorization", `Bearer ${first.token}`);
+    expect(left.status).toBe(200);
+    expect(left.body.status).toBe("cancelled");
+
+    const secondList = await getWaitlist(second);
+    expect(secondList.body[0].status).toBe("offered");
+
+    const again = await request(app)
+      .delete(`/api/members/me/waitlist/${firstEntry.body.id}`)
+      .set("Authorization", `Bearer ${first.token}`);
+    expect(again.status).toBe(400);
+  });
+
+  it("should validate waitlist requests and require authentication", async () => {
+    const member = await signUp("Validator");
+
+    const past = await joinWaitlist(member, { date: "2020-01-01", timeRange: SIX_PM });
+    expect(past.status).toBe(400);
+
+    const badRange = await joinWaitlist(member, {
+      date: DATE,
+      timeRange: { start: "19:00", end: "18:00" },
+    });
+    expect(badRange.status).toBe(400);
+
+    const unknownCourt = await joinWaitlist(member, {
+      courtId: "999",
+      date: DATE,
+      timeRange: SIX_PM,
+    });
+    expect(unknownCourt.status).toBe(400);
+
+    await joinWaitlist(member, { date: DATE, timeRange: SIX_PM });
+    const duplicate = await joinWaitlist(member, { date: DATE, timeRange: SIX_PM });
+    expect(duplicate.status).toBe(400);
+
+    const anonymous = await request(app).get("/api/members/me/waitlist");
+    expect(anonymous.status).toBe(401);
+  });
+});
@@ -9,10 +9,12 @@ import path from "path";
 import { promises as fs } from "fs";
 import os from "os";
 import app from "../../src/app";
+import { createSession } from "../../src/lib/auth/session-manager";
 import { memberCache } from "../../src/lib/cache/member-cache";
 import { reservationCache } from "../../src/lib/cache/reservation-cache";
 
 let tempDir = "";
+let adminAuth = "";
 let originalDataDir: string | undefined;
 
 beforeAll(async () => {
@@ -22,6 +24,8 @@ beforeAll(async () => {
   );
   tempDir = baseDir;
   process.env.DATA_DIR = tempDir;
+  // Admin session for the protected member/reservation endpoints
+  adminAuth = `Bearer ${(await createSession("test-admin", "admin@example.com", "admin")).token}`;
   await fs.mkdir(tempDir, { recursive: true });
 });
 
@@ -87,7 +91,7 @@ describe("Member System Performance Tests", () => {
       // Create some test data
       const uniqueId = Date.now();
       for (let i = 0; i < 10; i++) {
-        await request(app).post("/api/members").send({
+        await request(app).post("/api/members").set("Authorization", adminAuth).send({
           firstName: `Perf${i}`,
           lastName: "Test",
           email: `perf-${uniqueId}-${i}@example.com`,
@@ -96,7 +100,7 @@ describe("Member System Performance Tests", () => {
       }
 
       const startTime = Date.now();
-      const response = await request(app).get("/api/members");
+      const response = await request(app).get("/api/members").set("Authorization", adminAuth);
       const duration = Date.now() - startTime;
 
       expect(response.status).toBe(200);
@@ -108,6 +112,7 @@ describe("Member System Performance Tests", () => {
       const uniqueId = Date.now();
       const createResponse = await request(app)
         .post("/api/members")
+        .set("Authorization", adminAuth)
         .send({
           firstName: "Perf",
           lastName: "Test",
@@ -117,7 +122,9 @@ describe("Member System Performance Tests", () => {
 
       const memberId = createResponse.body.id;
       const startTime = Date.now();
-      const response = await request(app).get(`/api/members/${memberId}`);
+      const response = await request(app)
+        .get(`/api/members/${memberId}`)
+        .set("Authorization", adminAuth);
       const duration = Date.now() - startTime;
 
       expect(response.status).toBe(200);
@@ -130,6 +137,7 @@ describe("Member System Performance Tests", () => {
       const startTime = Date.now();
       const response = await request(app)
         .post("/api/members")
+        .set("Authorization", adminAuth)
         .send({
           firstName: "Perf",
           lastName: "Create",
@@ -147,6 +155,7 @@ describe("Member System Performance Tests", () => {
       const uniqueId = Date.now();
       const createResponse = await request(app)
         .post("/api/members")
+        .set("Authorization", adminAuth)
         .send({
           firstName: "Perf",
           lastName: "Update",
@@ -158,6 +167,7 @@ describe("Member System Performance Tests", () => {
       const startTime = Date.now();
       const response = await request(app)
         .patch(`/api/members/${memberId}`)
+        .set("Authorization", adminAuth)
         .send({ firstName: "Updated" });
       const duration = Date.now() - startTime;
 
@@ -168,7 +178,7 @@ describe("Member System Performance Tests", () => {
 
     it("should search members within threshold", async () => {
       const uniqueId = Date.now();
-      await request(app).post("/api/members").send({
+      await request(app).post("/api/members").set("Authorization", adminAuth).send({
         firstName: "Searchable",
         lastName: "User",
         email: `search-perf-${uniqueId}@example.com`,
@@ -176,7 +186,9 @@ describe("Member System Performance Tests", () => {
       });
 
       const startTime = Date.now();
-      const response = await request(app).get("/api/members?search=Searchable");
+      const response = await request(app)
+        .get("/api/members?search=Searchable")
+        .set("Authorization", adminAuth);
       const duration = Date.now() - startTime;
 
       expect(response.status).toBe(200);
@@ -186,7 +198,7 @@ describe("Member System Performance Tests", () => {
 
     it("should filter members within threshold", async () => {
       const uniqueId = Date.now();
-      await request(app).post("/api/members").send({
+      await request(app).post("/api/members").set("Authorization", adminAuth).send({
         firstName: "Filter",
         lastName: "Test",
         email: `filter-perf-${uniqueId}@example.com`,
@@ -195,7 +207,9 @@ describe("Member System Performance Tests", () => {
       });
 
       const startTime = Date.now();
-      const response = await request(app).get("/api/members?filter=active");
+      const response = await request(app)
+        .get("/api/members?filter=active")
+        .set("Authorization", adminAuth);
       const duration = Date.now() - startTime;
 
       expect(response.status).toBe(200);
@@ -214,6 +228,7 @@ describe("Member System Performance Tests", () => {
         promises.push(
           request(app)
             .post("/api/members")
+            .set("Authorization", adminAuth)
             .send({
               firstName: `Concurrent${i}`,
               lastName: "Test",
@@ -241,6 +256,7 @@ describe("Member System Performance Tests", () => {
       const uniqueId = Date.now();
       const createResponse = await request(app)
         .post("/api/members")
+        .set("Authorization", adminAuth)
         .send({
           firstName: "Concurrent",
           lastName: "Read",
@@ -253,7 +269,7 @@ describe("Member System Performance Tests", () => {
       const promises = [];
 
       for (let i = 0; i < concurrentRequests; i++) {
-        promises.push(request(app).get(`/api/members/${memberId}`));
+        promises.push(request(app).get(`/api/members/${memberId}`).set("Authorization", adminAuth));
       }
 
       const startTime = Date.now();
@@ -276,6 +292,7 @@ describe("Member System Performance Tests", () => {
       const uniqueId = Date.now();
       const createResponse = await request(app)
         .post("/api/members")
+        .set("Authorization", adminAuth)
         .send({
           firstName: "Cache",
           lastName: "Test",
@@ -287,12 +304,12 @@ describe("Member System Performance Tests", () => {
 
       // First read (cache miss)
       const startTime1 = Date.now();
-      await request(app).get(`/api/members/${memberId}`);
+      await request(app).get(`/api/members/${memberId}`).set("Authorization", adminAuth);
       const firstRead = Date.now() - startTime1;
 
       // Second read (cache hit)
       const startTime2 = Date.now();
-      await request(app).get(`/api/members/${memberId}`);
+      await request(app).get(`/api/members/${memberId}`).set("Authorization", adminAuth);
       const secondRead = Date.now() - startTime2;
 
       console.log(`✓ Cache performance: First read ${firstRead}ms, Second read ${secondRead}ms`);
@@ -314,7 +331,7 @@ describe("Member System Performance Tests", () => {
 
       // Create multiple members
       for (let i = 0; i < memberCount; i++) {
-        await request(app).post("/api/members").send({
+        await request(app).post("/api/members").set("Authorization", adminAuth).send({
           firstName: `Scale${i}`,
           lastName: "Test",
           email: `scale-${uniqueId}-${i}@example.com`,
@@ -323,7 +340,7 @@ describe("Member System Performance Tests", () => {
       }
 
       const startTime = Date.now();
-      const response = await request(app).get("/api/members");
+      const response = await request(app).get("/api/members").set("Authorization", adminAuth);
       const duration = Date.now() - startTime;
 
       expect(response.status).toBe(200);
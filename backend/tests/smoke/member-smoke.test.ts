@@ -10,10 +10,12 @@ import path from "path";
 import { promises as fs } from "fs";
 import os from "os";
 import app from "../../src/app";
+import { createSession } from "../../src/lib/auth/session-manager";
 import { memberCache } from "../../src/lib/cache/member-cache";
 import { reservationCache } from "../../src/lib/cache/reservation-cache";
 
 let tempDir = "";
+let adminAuth = "";
 let originalDataDir: string | undefined;
 
 beforeAll(async () => {
@@ -23,6 +25,8 @@ beforeAll(async () => {
   );
   tempDir = baseDir;
   process.env.DATA_DIR = tempDir;
+  // Admin session for the protected member/reservation endpoints
+  adminAuth = `Bearer ${(await createSession("test-admin", "admin@example.com", "admin")).token}`;
   await fs.mkdir(tempDir, { recursive: true });
 });
 
@@ -72,7 +76,7 @@ afterAll(async () => {
 
 describe("Member System Smoke Tests", () => {
   it("should respond to health check (GET /api/members)", async () => {
-    const response = await request(app).get("/api/members");
+    const response = await request(app).get("/api/members").set("Authorization", adminAuth);
     expect(response.status).toBe(200);
     expect(Array.isArray(response.body)).toBe(true);
   });
@@ -81,6 +85,7 @@ describe("Member System Smoke Tests", () => {
     const uniqueId = Date.now();
     const response = await request(app)
       .post("/api/members")
+      .set("Authorization", adminAuth)
       .send({
         firstName: "Smoke",
         lastName: "Test",
@@ -97,6 +102,7 @@ describe("Member System Smoke Tests", () => {
     const uniqueId = Date.now();
     const createResponse = await request(app)
       .post("/api/members")
+      .set("Authorization", adminAuth)
       .send({
         firstName: "Retrieve",
         lastName: "Test",
@@ -105,7 +111,9 @@ describe("Member System Smoke Tests", () => {
       });
 
     const memberId = createResponse.body.id;
-    const getResponse = await request(app).get(`/api/members/${memberId}`);
+    const getResponse = await request(app)
+      .get(`/api/members/${memberId}`)
+      .set("Authorization", adminAuth);
 
     expect(getResponse.status).toBe(200);
     expect(getResponse.body.id).toBe(memberId);
@@ -115,6 +123,7 @@ describe("Member System Smoke Tests", () => {
     const uniqueId = Date.now();
     const createResponse = await request(app)
       .post("/api/members")
+      .set("Authorization", adminAuth)
       .send({
         firstName: "Update",
         lastName: "Test",
@@ -125,6 +134,7 @@ describe("Member System Smoke Tests", () => {
     const memberId = createResponse.body.id;
     const updateResponse = await request(app)
       .patch(`/api/members/${memberId}`)
+      .set("Authorization", adminAuth)
       .send({ firstName: "Updated" });
 
     expect(updateResponse.status).toBe(200);
@@ -133,7 +143,7 @@ describe("Member System Smoke Tests", () => {
 
   it("should filter members by active status", async () => {
     const uniqueId = Date.now();
-    await request(app).post("/api/members").send({
+    await request(app).post("/api/members").set("Authorization", adminAuth).send({
       firstName: "Active",
       lastName: "Member",
       email: `active-${uniqueId}@example.com`,
@@ -141,21 +151,25 @@ describe("Member System Smoke Tests", () => {
       isActive: true,
     });
 
-    const response = await request(app).get("/api/members?filter=active");
+    const response = await request(app)
+      .get("/api/members?filter=active")
+      .set("Authorization", adminAuth);
     expect(response.status).toBe(200);
     expect(Array.isArray(response.body)).toBe(true);
   });
 
   it("should search members", async () => {
     const uniqueId = Date.now();
-    await request(app).post("/api/members").send({
+    await request(app).post("/api/members").set("Authorization", adminAuth).send({
       firstName: "Searchable",
       lastName: "User",
       email: `search-${uniqueId}@example.com`,
       phone: "401-555-1234",
     });
 
-    const response = await request(app).get("/api/members?search=Searchable");
+    const response = await request(app)
+      .get("/api/members?search=Searchable")
+      .set("Authorization", adminAuth);
     expect(response.status).toBe(200);
     expect(Array.isArray(response.body)).toBe(true);
   });
@@ -164,6 +178,7 @@ describe("Member System Smoke Tests", () => {
     const uniqueId = Date.now();
     const memberResponse = await request(app)
       .post("/api/members")
+      .set("Authorization", adminAuth)
       .send({
         firstName: "Reservation",
         lastName: "Test",
@@ -177,6 +192,7 @@ describe("Member System Smoke Tests", () => {
 
     const reservationResponse = await request(app)
       .post("/api/reservations")
+      .set("Authorization", adminAuth)
       .send({
         courtId: "1",
         date: uniqueDate,
@@ -192,7 +208,9 @@ describe("Member System Smoke Tests", () => {
   });
 
   it("should handle error responses correctly", async () => {
-    const response = await request(app).get("/api/members/non-existent-id");
+    const response = await request(app)
+      .get("/api/members/non-existent-id")
+      .set("Authorization", adminAuth);
     expect(response.status).toBe(404);
     expect(response.body.error).toBeDefined();
     expect(response.body.code).toBe("NOT_FOUND");
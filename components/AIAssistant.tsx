@@ -2,6 +2,9 @@
 
 import { useState, useRef, useEffect } from "react";
 import { motion, AnimatePresence } from "framer-motion";
+import { useAuth } from "@/lib/auth/auth-context";
+import { getAIThread, toChatMessages } from "@/lib/api/ai-thread-api";
+import { streamChat } from "@/lib/api/ai-chat-stream";
 
 type ChatMessage = {
   role: "user" | "assistant";
@@ -18,22 +21,32 @@ const buildApiUrl = (path: string) => (apiBaseUrl ? `${apiBaseUrl}${path}` : pat
 
 interface Message extends ChatMessage {
   sources?: Array<{ title: string; url: string }>;
+  status?: string;                // Tool in progress while the reply streams
+  stopped?: boolean;              // Cancelled before it finished
 }
 
+// Signed-in members' open conversation, resumed after a reload
+const THREAD_KEY = "pta_ai_thread_assistant";
+
+const WELCOME_MESSAGE =
+  "Hello! I'm your AI assistant for Providence Tennis Academy. I can help you with:\n\n• Booking court reservations\n• Information about our programs and facilities\n• Tennis-related questions\n• General inquiries\n\nHow can I help you today?";
+
+const welcome = (): Message => ({
+  role: "assistant",
+  content: WELCOME_MESSAGE,
+  timestamp: new Date(),
+});
+
 export default function AIAssistant() {
+  const { token } = useAuth();
   const [isOpen, setIsOpen] = useState(false);
-  const [messages, setMessages] = useState<Message[]>([
-    {
-      role: "assistant",
-      content:
-        "Hello! I'm your AI assistant for Providence Tennis Academy. I can help you with:\n\n• Booking court reservations\n• Information about our programs and facilities\n• Tennis-related questions\n• General inquiries\n\nHow can I help you today?",
-      timestamp: new Date(),
-    },
-  ]);
+  const [messages, setMessages] = useState<Message[]>([welcome()]);
+  const [threadId, setThreadId] = useState<string | null>(null);
   const [input, setInput] = useState("");
   const [isLoading, setIsLoading] = useState(false);
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const inputRef = useRef<HTMLInputElement>(null);
+  const abortRef = useRef<AbortController | null>(null);
 
   const scrollToBottom = () => {
     messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
@@ -49,6 +62,44 @@ export default function AIAssistant() {
     }
   }, [isOpen]);
 
+  // Don't leave a reply streaming after the page changes
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  // Resume the member's last conversation
+  useEffect(() => {
+    if (!token) {
+      setThreadId(null);
+      return;
+    }
+
+    const storedId = localStorage.getItem(THREAD_KEY);
+    setThreadId(storedId);
+    if (!storedId) return;
+
+    let cancelled = false;
+    getAIThread(storedId, token)
+      .then((thread) => {
+        if (!cancelled) setMessages([welcome(), ...toChatMessages(thread)]);
+      })
+      .catch(() => {
+        // Deleted, expired or another member's conversation
+        if (cancelled) return;
+        localStorage.removeItem(THREAD_KEY);
+        setThreadId(null);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [token]);
+
+  // Start over; a signed-in member's previous conversation stays saved
+  const handleNewChat = () => {
+    localStorage.removeItem(THREAD_KEY);
+    setThreadId(null);
+    setMessages([welcome()]);
+  };
+
   const handleSend = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!input.trim() || isLoading) return;
@@ -59,47 +110,78 @@ export default function AIAssistant() {
       timestamp: new Date(),
     };
 
-    setMessages((prev) => [...prev, userMessage]);
+    // The reply streams into an empty bubble after the user's message
+    setMessages((prev) => [
+      ...prev,
+      userMessage,
+      { role: "assistant", content: "", timestamp: new Date() },
+    ]);
     setInput("");
     setIsLoading(true);
 
+    const updateReply = (update: (reply: Message) => Message) =>
+      setMessages((prev) => [...prev.slice(0, -1), update(prev[prev.length - 1])]);
+
+    const controller = new AbortController();
+    abortRef.current = controller;
+
     try {
-      const response = await fetch(buildApiUrl("/api/chat"), {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          message: userMessage.content,
-          conversationHistory: messages,
-        }),
-      });
+      // Signed-in members' history is kept on the server
+      const data = await streamChat(
+        buildApiUrl("/api/chat/stream"),
+        token
+          ? { message: userMessage.content, threadId: threadId || undefined }
+          : { message: userMessage.content, conversationHistory: messages },
+        {
+          token: token || undefined,
+          signal: controller.signal,
+          onEvent: (event) => {
+            if (event.type === "delta") {
+              updateReply((reply) => ({
+                ...reply,
+                content: reply.content + event.text,
+                status: undefined,
+              }));
+            } else if (event.type === "tool_start") {
+              updateReply((reply) => ({ ...reply, status: `${event.label}...` }));
+            }
+          },
+        }
+      );
 
-      if (!response.ok) {
-        throw new Error("Failed to get response");
+      if (data.threadId) {
+        localStorage.setItem(THREAD_KEY, data.threadId);
+        setThreadId(data.threadId);
       }
-
-      const data = await response.json();
-      const assistantMessage: Message = {
-        role: "assistant",
+      updateReply((reply) => ({
+        ...reply,
         content: data.response,
         sources: data.sources,
-        timestamp: new Date(),
-      };
-
-      setMessages((prev) => [...prev, assistantMessage]);
+        status: undefined,
+      }));
     } catch (error) {
-      console.error("Error:", error);
-      const errorMessage: Message = {
-        role: "assistant",
-        content:
-          "I'm sorry, I encountered an error. Please try again or contact us directly at 401-935-4336.",
-        timestamp: new Date(),
-      };
-      setMessages((prev) => [...prev, errorMessage]);
+      if (controller.signal.aborted) {
+        updateReply((reply) => ({ ...reply, status: undefined, stopped: true }));
+      } else {
+        console.error("Error:", error);
+        updateReply(() => ({
+          role: "assistant",
+          content:
+            "I'm sorry, I encountered an error. Please try again or contact us directly at 401-935-4336.",
+          timestamp: new Date(),
+        }));
+      }
     } finally {
+      abortRef.current = null;
       setIsLoading(false);
     }
   };
 
+  // Stop the reply; the server drops the unfinished turn
+  const handleStop = () => {
+    abortRef.current?.abort();
+  };
+
   return (
     <>
       {/* Chat Button */}
@@ -152,23 +234,44 @@ export default function AIAssistant() {
                 <h3 className="font-bold text-lg">AI Assistant</h3>
                 <p className="text-xs opacity-90">Providence Tennis Academy</p>
               </div>
-              <button
-                onClick={() => setIsOpen(false)}
-                className="text-white hover:text-gray-200 transition-colors"
-                aria-label="Close chat"
-              >
-                <svg
-                  className="w-5 h-5"
-                  fill="none"
-                  strokeLinecap="round"
-                  strokeLinejoin="round"
-                  strokeWidth="2"
-                  viewBox="0 0 24 24"
-                  stroke="currentColor"
+              <div className="flex items-center gap-3">
+                <button
+                  onClick={handleNewChat}
+                  disabled={isLoading}
+                  className="text-white hover:text-gray-200 transition-colors disabled:opacity-50"
+                  aria-label="New chat"
+                  title="New chat"
+                >
+                  <svg
+                    className="w-5 h-5"
+                    fill="none"
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                    strokeWidth="2"
+                    viewBox="0 0 24 24"
+                    stroke="currentColor"
+                  >
+                    <path d="M12 4v16m8-8H4" />
+                  </svg>
+                </button>
+                <button
+                  onClick={() => setIsOpen(false)}
+                  className="text-white hover:text-gray-200 transition-colors"
+                  aria-label="Close chat"
                 >
-                  <path d="M6 18L18 6M6 6l12 12" />
-                </svg>
-              </button>
+                  <svg
+                    className="w-5 h-5"
+                    fill="none"
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                    strokeWidth="2"
+                    viewBox="0 0 24 24"
+                    stroke="currentColor"
+                  >
+                    <path d="M6 18L18 6M6 6l12 12" />
+                  </svg>
+                </button>
+              </div>
             </div>
 
             {/* Messages */}
@@ -189,9 +292,31 @@ export default function AIAssistant() {
                         : "bg-white text-gray-800 border border-gray-200"
                     }`}
                   >
-                    <p className="text-sm whitespace-pre-wrap leading-relaxed">
-                      {message.content}
-                    </p>
+                    {message.content ? (
+                      <p className="text-sm whitespace-pre-wrap leading-relaxed">
+                        {message.content}
+                      </p>
+                    ) : (
+                      !message.stopped && (
+                        <div className="flex space-x-2 py-1">
+                          <div className="w-2 h-2 bg-gray-400 rounded-full animate-bounce"></div>
+                          <div
+                            className="w-2 h-2 bg-gray-400 rounded-full animate-bounce"
+                            style={{ animationDelay: "0.2s" }}
+                          ></div>
+                          <div
+                            className="w-2 h-2 bg-gray-400 rounded-full animate-bounce"
+                            style={{ animationDelay: "0.4s" }}
+                          ></div>
+                        </div>
+                      )
+                    )}
+                    {message.status && (
+                      <p className="text-xs text-gray-500 italic mt-2">{message.status}</p>
+                    )}
+                    {message.stopped && (
+                      <p className="text-xs text-gray-400 italic mt-1">Stopped</p>
+                    )}
                     {message.sources && message.sources.length > 0 && (
                       <div className="mt-3 pt-3 border-t border-gray-200">
                         <p className="text-xs font-semibold mb-2 text-gray-600">
@@ -215,23 +340,6 @@ export default function AIAssistant() {
                   </div>
                 </motion.div>
               ))}
-              {isLoading && (
-                <div className="flex justify-start">
-                  <div className="bg-white rounded-2xl px-4 py-3 border border-gray-200">
-                    <div className="flex space-x-2">
-                      <div className="w-2 h-2 bg-gray-400 rounded-full animate-bounce"></div>
-                      <div
-                        className="w-2 h-2 bg-gray-400 rounded-full animate-bounce"
-                        style={{ animationDelay: "0.2s" }}
-                      ></div>
-                      <div
-                        className="w-2 h-2 bg-gray-400 rounded-full animate-bounce"
-                        style={{ animationDelay: "0.4s" }}
-                      ></div>
-                    </div>
-                  </div>
-                </div>
-              )}
               <div ref={messagesEndRef} />
             </div>
 
@@ -250,23 +358,37 @@ export default function AIAssistant() {
                   className="flex-1 px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent outline-none"
                   disabled={isLoading}
                 />
-                <button
-                  type="submit"
-                  disabled={!input.trim() || isLoading}
-                  className="bg-primary-600 text-white px-6 py-2 rounded-lg hover:bg-primary-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
-                >
-                  <svg
-                    className="w-5 h-5"
-                    fill="none"
-                    strokeLinecap="round"
-                    strokeLinejoin="round"
-                    strokeWidth="2"
-                    viewBox="0 0 24 24"
-                    stroke="currentColor"
+                {isLoading ? (
+                  <button
+                    type="button"
+                    onClick={handleStop}
+                    className="bg-gray-600 text-white px-6 py-2 rounded-lg hover:bg-gray-700 transition-colors"
+                    aria-label="Stop response"
+                    title="Stop"
                   >
-                    <path d="M12 19l9 2-9-18-9 18 9-2zm0 0v-8" />
-                  </svg>
-                </button>
+                    <svg className="w-5 h-5" fill="currentColor" viewBox="0 0 24 24">
+                      <rect x="6" y="6" width="12" height="12" rx="1" />
+                    </svg>
+                  </button>
+                ) : (
+                  <button
+                    type="submit"
+                    disabled={!input.trim()}
+                    className="bg-primary-600 text-white px-6 py-2 rounded-lg hover:bg-primary-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    <svg
+                      className="w-5 h-5"
+                      fill="none"
+                      strokeLinecap="round"
+                      strokeLinejoin="round"
+                      strokeWidth="2"
+                      viewBox="0 0 24 24"
+                      stroke="currentColor"
+                    >
+                      <path d="M12 19l9 2-9-18-9 18 9-2zm0 0v-8" />
+                    </svg>
+                  </button>
+                )}
               </div>
               <p className="text-xs text-gray-500 mt-2 text-center">
                 Powered by Gemini AI with web search
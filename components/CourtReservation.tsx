@@ -6,11 +6,15 @@ import { motion, AnimatePresence } from "framer-motion";
 import { format, addDays, startOfDay, startOfWeek, isAfter, isSameDay } from "date-fns";
 import { ReservationRequest } from "@/types/reservation";
 import { useAuth } from "../lib/auth/auth-context";
-import { createPaymentIntent, confirmPaymentOnServer } from "../lib/api/payment-api";
+import {
+  createPaymentIntent,
+  confirmPaymentOnServer,
+  getPriceQuote,
+  PriceQuote,
+} from "../lib/api/payment-api";
+import { FamilyMember, getFamily } from "../lib/api/family-api";
 import StripePaymentForm from "./StripePaymentForm";
 
-const COURT_BOOKING_PRICE = 40; // $40 per hour
-
 export interface CourtReservationPrefill {
   customerName?: string;
   customerEmail?: string;
@@ -33,6 +37,15 @@ interface AvailabilitySlot {
   courtId: string;
   courtName: string;
   courtType: string;
+  hours: { open: string; close: string } | null;
+  slotDurationMinutes: number | null;
+  closedReason?: string;
+  closures?: Array<{
+    start: string;
+    end: string;
+    kind: string;
+    reason: string;
+  }>;
   slots: Array<{
     start: string;
     end: string;
@@ -50,6 +63,22 @@ interface ApiError {
   code?: string;
 }
 
+const formatCents = (cents: number) =>
+  `${cents < 0 ? "-" : ""}$${(Math.abs(cents) / 100).toFixed(2)}`;
+
+const formatSlotDuration = (slot: { start: string; end: string } | null) => {
+  if (!slot) return "";
+  const toMinutes = (time: string) => {
+    const [hours, minutes] = time.split(":").map(Number);
+    return hours * 60 + minutes;
+  };
+  const minutes = toMinutes(slot.end) - toMinutes(slot.start);
+  if (minutes % 60 === 0) {
+    return `${minutes / 60} Hour${minutes === 60 ? "" : "s"}`;
+  }
+  return `${minutes} Minutes`;
+};
+
 const defaultReservationData = (prefill?: CourtReservationPrefill): ReservationRequest => ({
   courtId: "",
   date: "",
@@ -83,6 +112,10 @@ export default function CourtReservation({
   const [clientSecret, setClientSecret] = useState<string | null>(null);
   const [paymentIntentId, setPaymentIntentId] = useState<string | null>(null);
   const [paymentComplete, setPaymentComplete] = useState(false);
+  const [linkedPlayers, setLinkedPlayers] = useState<FamilyMember[]>([]);
+  const [quote, setQuote] = useState<PriceQuote | null>(null);
+  const [paymentAmount, setPaymentAmount] = useState<number | null>(null);
+  const [partnerEmails, setPartnerEmails] = useState("");
 
   // Sync prefill when it changes (e.g. user loads after mount)
   useEffect(() => {
@@ -102,6 +135,35 @@ export default function CourtReservation({
     }));
   }, [user?.id]);
 
+  // Parents can book for their linked players
+  useEffect(() => {
+    if (user?.role !== "parent" || !token) {
+      setLinkedPlayers([]);
+      return;
+    }
+    getFamily(token)
+      .then((family) => setLinkedPlayers(family.children.map((child) => child.member)))
+      .catch(() => setLinkedPlayers([]));
+  }, [user?.role, token]);
+
+  // Server-side price for the selected slot (member rate when signed in)
+  useEffect(() => {
+    if (step !== "details" || !selectedCourt || !selectedTimeSlot) return;
+    setQuote(null);
+    getPriceQuote(
+      {
+        courtId: selectedCourt,
+        date: format(selectedDate, "yyyy-MM-dd"),
+        start: selectedTimeSlot.start,
+        end: selectedTimeSlot.end,
+        memberId: user && reservationData.memberId !== user.id ? reservationData.memberId : undefined,
+      },
+      token
+    )
+      .then(setQuote)
+      .catch(() => setQuote(null));
+  }, [step, selectedCourt, selectedDate, selectedTimeSlot, reservationData.memberId, user?.id, token]);
+
   // Generate week dates
   const weekStart = startOfWeek(selectedDate, { weekStartsOn: 0 });
   const weekDates = Array.from({ length: 7 }, (_, i) => addDays(weekStart, i));
@@ -174,10 +236,20 @@ export default function CourtReservation({
       headers.Authorization = `Bearer ${token}`;
     }
 
+    // Doubles partners are invited by email once the court is booked
+    const partners = partnerEmails
+      .split(/[\s,]+/)
+      .filter(Boolean)
+      .map((email) => ({ email }));
+
     const response = await fetch(buildApiUrl("/api/reservations"), {
       method: "POST",
       headers,
-      body: JSON.stringify(reservationData),
+      body: JSON.stringify({
+        ...reservationData,
+        partners: partners.length > 0 ? partners : undefined,
+        splitPayment: partners.length > 0 && reservationData.splitPayment,
+      }),
     });
 
     if (response.ok) {
@@ -269,11 +341,11 @@ export default function CourtReservation({
       const description = `${courtName} booking on ${dateStr} at ${timeStr}`;
 
       const intent = await createPaymentIntent(token!, {
-        amount: COURT_BOOKING_PRICE,
         reservationId: resId,
         description,
       });
 
+      setPaymentAmount(intent.amount);
       setClientSecret(intent.clientSecret);
       setPaymentIntentId(intent.paymentIntentId);
       setStep("payment");
@@ -545,6 +617,7 @@ export default function CourtReservation({
                         const availableCount = court.slots.filter(
                           (s) => s.available
                         ).length;
+                        const isClosed = !court.hours;
 
                         return (
                           <div
@@ -563,16 +636,33 @@ export default function CourtReservation({
                                 <p className="text-sm text-gray-600 capitalize">
                                   {court.courtType} Court
                                 </p>
+                                <p className="text-xs text-gray-500">
+                                  {court.hours
+                                    ? `Open ${court.hours.open} - ${court.hours.close} · ${court.slotDurationMinutes}-minute slots`
+                                    : `Closed${court.closedReason ? ` (${court.closedReason})` : ""}`}
+                                </p>
+                                {court.hours &&
+                                  court.closures?.map((closure) => (
+                                    <p
+                                      key={`${closure.start}-${closure.end}`}
+                                      className="text-xs text-yellow-700"
+                                    >
+                                      Closed {closure.start} - {closure.end}: {closure.reason}
+                                    </p>
+                                  ))}
                               </div>
                               <button
                                 onClick={() => handleCourtSelect(court.courtId)}
-                                className={`px-4 py-2 rounded-lg font-medium transition-all ${
+                                disabled={isClosed}
+                                className={`px-4 py-2 rounded-lg font-medium transition-all disabled:opacity-50 disabled:cursor-not-allowed ${
                                   selectedCourt === court.courtId
                                     ? "bg-primary-600 text-white"
                                     : "bg-gray-100 text-gray-700 hover:bg-gray-200"
                                 }`}
                               >
-                                {selectedCourt === court.courtId
+                                {isClosed
+                                  ? "Closed"
+                                  : selectedCourt === court.courtId
                                   ? "Selected"
                                   : `Select (${availableCount} slots)`}
                               </button>
@@ -592,6 +682,7 @@ export default function CourtReservation({
                                       handleTimeSlotSelect(slot.start, slot.end)
                                     }
                                     disabled={!slot.available}
+                                    title={`${slot.start} - ${slot.end}`}
                                     className={`p-2 rounded text-sm font-medium transition-all ${
                                       slot.available
                                         ? selectedTimeSlot?.start === slot.start
@@ -648,9 +739,21 @@ export default function CourtReservation({
                   {user ? (
                     <div className="mt-4 p-4 bg-gray-50 rounded-lg border border-gray-200">
                       <div className="flex items-center justify-between">
-                        <span className="text-sm font-semibold text-gray-700">Court Booking - 1 Hour</span>
-                        <span className="text-lg font-bold text-primary-700">${COURT_BOOKING_PRICE.toFixed(2)}</span>
+                        <span className="text-sm font-semibold text-gray-700">Court Booking - {formatSlotDuration(selectedTimeSlot)}</span>
+                        <span className="text-lg font-bold text-primary-700">
+                          {quote ? formatCents(quote.total) : "..."}
+                        </span>
                       </div>
+                      {quote && (
+                        <ul className="mt-2 space-y-1">
+                          {quote.lineItems.map((item) => (
+                            <li key={item.label} className="flex justify-between text-xs text-gray-600">
+                              <span>{item.label}</span>
+                              <span>{formatCents(item.amount)}</span>
+                            </li>
+                          ))}
+                        </ul>
+                      )}
                       <p className="text-xs text-gray-500 mt-1">
                         You will be taken to a secure payment page after filling in your details.
                       </p>
@@ -659,13 +762,40 @@ export default function CourtReservation({
                     <div className="mt-4 p-4 bg-gray-50 rounded-lg border border-gray-200">
                       <p className="text-sm text-gray-600">
                         <span className="font-semibold">Pricing &amp; policy:</span>{" "}
-                        Payment and cancellation policy apply. Contact the front desk or check your membership for current rates.
+                        {quote
+                          ? `Guest rate ${formatCents(quote.total)}, paid at the front desk. Members save on every booking.`
+                          : "Payment and cancellation policy apply. Contact the front desk or check your membership for current rates."}
                       </p>
                     </div>
                   )}
                 </div>
 
                 <form onSubmit={handleSubmit} className="space-y-6">
+                  {user && linkedPlayers.length > 0 && (
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-2">
+                        Booking for
+                      </label>
+                      <select
+                        value={reservationData.memberId ?? user.id}
+                        onChange={(e) =>
+                          setReservationData({
+                            ...reservationData,
+                            memberId: e.target.value,
+                          })
+                        }
+                        className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                      >
+                        <option value={user.id}>Myself</option>
+                        {linkedPlayers.map((player) => (
+                          <option key={player.id} value={player.id}>
+                            {player.firstName} {player.lastName}
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+                  )}
+
                   <div>
                     <label className="block text-sm font-medium text-gray-700 mb-2">
                       Full Name *
@@ -723,6 +853,36 @@ export default function CourtReservation({
                     />
                   </div>
 
+                  {user && (
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-2">
+                        Doubles Partners (Optional)
+                      </label>
+                      <input
+                        type="text"
+                        value={partnerEmails}
+                        onChange={(e) => setPartnerEmails(e.target.value)}
+                        className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                        placeholder="Up to 3 emails, separated by commas"
+                      />
+                      {partnerEmails.trim() && (
+                        <label className="mt-2 flex items-center gap-2 text-sm text-gray-600">
+                          <input
+                            type="checkbox"
+                            checked={reservationData.splitPayment ?? false}
+                            onChange={(e) =>
+                              setReservationData({
+                                ...reservationData,
+                                splitPayment: e.target.checked,
+                              })
+                            }
+                          />
+                          Split the court fee (members pay their own share)
+                        </label>
+                      )}
+                    </div>
+                  )}
+
                   <div>
                     <label className="block text-sm font-medium text-gray-700 mb-2">
                       Notes (Optional)
@@ -757,7 +917,7 @@ export default function CourtReservation({
                       {loading
                         ? "Processing..."
                         : user
-                        ? `Continue to Payment ($${COURT_BOOKING_PRICE.toFixed(2)})`
+                        ? `Continue to Payment${quote ? ` (${formatCents(quote.total)})` : ""}`
                         : "Confirm Reservation"}
                     </button>
                   </div>
@@ -804,7 +964,7 @@ export default function CourtReservation({
 
                 <StripePaymentForm
                   clientSecret={clientSecret}
-                  amount={COURT_BOOKING_PRICE}
+                  amount={(paymentAmount ?? 0) / 100}
                   onSuccess={handlePaymentSuccess}
                   onError={handlePaymentError}
                   onBack={() => setStep("details")}
@@ -850,7 +1010,7 @@ export default function CourtReservation({
                   {paymentComplete && (
                     <div className="mt-3 pt-3 border-t border-gray-200">
                       <p className="text-sm text-green-700 font-semibold">
-                        Payment: ${COURT_BOOKING_PRICE.toFixed(2)} paid
+                        Payment: {formatCents(paymentAmount ?? 0)} paid
                       </p>
                     </div>
                   )}
@@ -1,10 +1,20 @@
 "use client";
 
+import { useEffect, useState } from "react";
 import { motion } from "framer-motion";
 import Link from "next/link";
 import Image from "next/image";
+import { getPrograms, ProgramListing } from "../lib/api/program-api";
 
 export default function ProgramsShowcase() {
+  const [upcoming, setUpcoming] = useState<ProgramListing[]>([]);
+
+  useEffect(() => {
+    getPrograms()
+      .then((data) => setUpcoming(data.slice(0, 3)))
+      .catch(() => setUpcoming([]));
+  }, []);
+
   const programs = [
     {
       id: "juniors",
@@ -121,6 +131,35 @@ export default function ProgramsShowcase() {
             </motion.div>
           ))}
         </div>
+
+        {upcoming.length > 0 && (
+          <div className="mt-16">
+            <h3 className="text-2xl font-bold text-center mb-8">Starting Soon</h3>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+              {upcoming.map((program) => (
+                <Link
+                  key={program.id}
+                  href="/dashboard/programs"
+                  className="card bg-gradient-to-br from-primary-50 to-white hover:shadow-lg transition-shadow"
+                >
+                  <h4 className="text-xl font-bold text-gray-900 mb-2">{program.name}</h4>
+                  <p className="text-gray-600 mb-2">
+                    {program.sessions.length} session{program.sessions.length === 1 ? "" : "s"} from{" "}
+                    {new Date(`${program.sessions[0].date}T00:00`).toLocaleDateString("en-US", {
+                      month: "short",
+                      day: "numeric",
+                    })}
+                  </p>
+                  <p className="text-sm font-semibold text-primary-600">
+                    {program.enrolledCount >= program.capacity
+                      ? "Full - join the waitlist"
+                      : `${program.capacity - program.enrolledCount} seats left`}
+                  </p>
+                </Link>
+              ))}
+            </div>
+          </div>
+        )}
       </div>
     </section>
   );
@@ -3,6 +3,15 @@
 import { useState, useRef, useEffect } from "react";
 import { motion, AnimatePresence } from "framer-motion";
 import ReactMarkdown from "react-markdown";
+import { getAIThread, toChatMessages } from "../../lib/api/ai-thread-api";
+import { streamChat } from "../../lib/api/ai-chat-stream";
+import {
+  AIAction,
+  confirmAIAction,
+  getAIActions,
+  rejectAIAction,
+} from "../../lib/api/ai-action-api";
+import PendingActionCard from "./PendingActionCard";
 
 interface Message {
   role: "user" | "assistant";
@@ -12,10 +21,16 @@ interface Message {
     hasConflict: boolean;
     message?: string;
   };
+  pendingActions?: AIAction[];
+  status?: string;                // Tool in progress while the reply streams
+  stopped?: boolean;              // Cancelled before it finished
 }
 
 type ChatMode = "training" | "booking";
 
+// The open conversation for each mode, resumed after a reload
+const THREAD_KEY_PREFIX = "pta_ai_thread_";
+
 interface AdminAIAssistantProps {
   token: string;
   userRole?: string;
@@ -91,10 +106,13 @@ export default function AdminAIAssistant({ token, userRole }: AdminAIAssistantPr
       content: getWelcomeMessage(userRole, "training"),
     },
   ]);
+  const [threadId, setThreadId] = useState<string | null>(null);
   const [input, setInput] = useState("");
   const [isLoading, setIsLoading] = useState(false);
+  const [decidingActionId, setDecidingActionId] = useState<string | null>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const inputRef = useRef<HTMLInputElement>(null);
+  const abortRef = useRef<AbortController | null>(null);
 
   const scrollToBottom = () => {
     messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
@@ -110,6 +128,37 @@ export default function AdminAIAssistant({ token, userRole }: AdminAIAssistantPr
     }
   }, [isOpen]);
 
+  // Don't leave a reply streaming after the page changes
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  // Resume the last conversation for this mode
+  useEffect(() => {
+    const storageKey = `${THREAD_KEY_PREFIX}${chatMode}`;
+    const storedId = localStorage.getItem(storageKey);
+    setThreadId(storedId);
+    if (!storedId) return;
+
+    let cancelled = false;
+    getAIThread(storedId, token)
+      .then((thread) => {
+        if (cancelled) return;
+        setMessages([
+          { role: "assistant", content: getWelcomeMessage(userRole, chatMode) },
+          ...toChatMessages(thread),
+        ]);
+      })
+      .catch(() => {
+        // Deleted, expired or another member's conversation
+        if (cancelled) return;
+        localStorage.removeItem(storageKey);
+        setThreadId(null);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [chatMode, token, userRole]);
+
   // Reset messages when mode changes
   const handleModeSwitch = (newMode: ChatMode) => {
     setChatMode(newMode);
@@ -121,68 +170,142 @@ export default function AdminAIAssistant({ token, userRole }: AdminAIAssistantPr
     ]);
   };
 
+  // Start over; the previous conversation stays saved on the server
+  const handleNewChat = () => {
+    localStorage.removeItem(`${THREAD_KEY_PREFIX}${chatMode}`);
+    setThreadId(null);
+    setMessages([
+      {
+        role: "assistant",
+        content: getWelcomeMessage(userRole, chatMode),
+      },
+    ]);
+  };
+
   const handleSend = async () => {
     if (!input.trim() || isLoading) return;
 
     const userMessage = input.trim();
     setInput("");
-    setMessages((prev) => [...prev, { role: "user", content: userMessage }]);
+    // The reply streams into an empty bubble after the user's message
+    setMessages((prev) => [
+      ...prev,
+      { role: "user", content: userMessage },
+      { role: "assistant", content: "" },
+    ]);
     setIsLoading(true);
 
-    try {
-      const conversationHistory = messages.map((msg) => ({
-        role: msg.role,
-        content: msg.content,
-      }));
+    const updateReply = (update: (reply: Message) => Message) =>
+      setMessages((prev) => [...prev.slice(0, -1), update(prev[prev.length - 1])]);
+
+    const controller = new AbortController();
+    abortRef.current = controller;
 
+    try {
       // Route to appropriate endpoint
       let endpoint: string;
       if (chatMode === "booking" && isAdmin) {
-        endpoint = "/api/admin/chat";
+        endpoint = "/api/admin/chat/stream";
       } else {
-        endpoint = "/api/orchestrator/chat";
+        endpoint = "/api/orchestrator/chat/stream";
       }
 
-      const response = await fetch(
+      const data = await streamChat(
         `${process.env.NEXT_PUBLIC_API_BASE_URL || "http://localhost:8080"}${endpoint}`,
         {
-          method: "POST",
-          headers: {
-            "Content-Type": "application/json",
-            Authorization: `Bearer ${token}`,
+          message: userMessage,
+          threadId: threadId || undefined,
+        },
+        {
+          token,
+          signal: controller.signal,
+          onEvent: (event) => {
+            if (event.type === "delta") {
+              updateReply((reply) => ({
+                ...reply,
+                content: reply.content + event.text,
+                status: undefined,
+              }));
+            } else if (event.type === "tool_start") {
+              updateReply((reply) => ({ ...reply, status: `${event.label}...` }));
+            }
           },
-          body: JSON.stringify({
-            message: userMessage,
-            conversationHistory,
-          }),
         }
       );
 
-      if (!response.ok) {
-        throw new Error("Failed to get response from AI");
+      if (data.threadId) {
+        localStorage.setItem(`${THREAD_KEY_PREFIX}${chatMode}`, data.threadId);
+        setThreadId(data.threadId);
+      }
+      updateReply(() => ({
+        role: "assistant",
+        content: data.response,
+        needsConfirmation: data.needsConfirmation,
+        conflictInfo: data.conflictInfo,
+        pendingActions: data.pendingActions,
+      }));
+    } catch (error: any) {
+      if (controller.signal.aborted) {
+        updateReply((reply) => ({ ...reply, status: undefined, stopped: true }));
+      } else {
+        console.error("Error chatting with AI:", error);
+        updateReply(() => ({
+          role: "assistant",
+          content: "Sorry, I encountered an error. Please try again.",
+        }));
       }
+    } finally {
+      abortRef.current = null;
+      setIsLoading(false);
+    }
+  };
 
-      const data = await response.json();
+  // Stop the reply; the server drops the unfinished turn
+  const handleStop = () => {
+    abortRef.current?.abort();
+  };
+
+  const updateAction = (updated: AIAction) => {
+    setMessages((prev) =>
+      prev.map((message) =>
+        message.pendingActions?.some((a) => a.id === updated.id)
+          ? {
+              ...message,
+              pendingActions: message.pendingActions.map((a) =>
+                a.id === updated.id ? updated : a
+              ),
+            }
+          : message
+      )
+    );
+  };
+
+  // Nothing the agent proposed runs until the admin confirms it here
+  const handleDecision = async (action: AIAction, decision: "confirm" | "reject") => {
+    setDecidingActionId(action.id);
+    try {
+      const updated =
+        decision === "confirm"
+          ? await confirmAIAction(action.id, token)
+          : await rejectAIAction(action.id, token);
+      updateAction(updated);
       setMessages((prev) => [
         ...prev,
         {
           role: "assistant",
-          content: data.response,
-          needsConfirmation: data.needsConfirmation,
-          conflictInfo: data.conflictInfo,
+          content: `${decision === "confirm" ? "Confirmed" : "Rejected"}: ${action.summary}`,
         },
       ]);
     } catch (error: any) {
-      console.error("Error chatting with AI:", error);
+      // Expired, already decided or no longer applicable: show where it stands now
+      const latest = (await getAIActions(token).catch(() => [])).find((a) => a.id === action.id);
+      if (latest) updateAction(latest);
       setMessages((prev) => [
         ...prev,
-        {
-          role: "assistant",
-          content: "Sorry, I encountered an error. Please try again.",
-        },
+        { role: "assistant", content: error.message || "Sorry, that action could not be applied." },
       ]);
     } finally {
-      setIsLoading(false);
+      setDecidingActionId(null);
     }
   };
 
@@ -292,24 +415,46 @@ export default function AdminAIAssistant({ token, userRole }: AdminAIAssistantPr
                     </p>
                   </div>
                 </div>
-                <button
-                  onClick={() => setIsOpen(false)}
-                  className="hover:bg-white/20 rounded-full p-1 transition"
-                >
-                  <svg
-                    className="w-5 h-5"
-                    fill="none"
-                    stroke="currentColor"
-                    viewBox="0 0 24 24"
+                <div className="flex items-center gap-1">
+                  <button
+                    onClick={handleNewChat}
+                    disabled={isLoading}
+                    className="hover:bg-white/20 rounded-full p-1 transition disabled:opacity-50"
+                    title="New chat"
+                  >
+                    <svg
+                      className="w-5 h-5"
+                      fill="none"
+                      stroke="currentColor"
+                      viewBox="0 0 24 24"
+                    >
+                      <path
+                        strokeLinecap="round"
+                        strokeLinejoin="round"
+                        strokeWidth={2}
+                        d="M12 4v16m8-8H4"
+                      />
+                    </svg>
+                  </button>
+                  <button
+                    onClick={() => setIsOpen(false)}
+                    className="hover:bg-white/20 rounded-full p-1 transition"
                   >
-                    <path
-                      strokeLinecap="round"
-                      strokeLinejoin="round"
-                      strokeWidth={2}
-                      d="M6 18L18 6M6 6l12 12"
-                    />
-                  </svg>
-                </button>
+                    <svg
+                      className="w-5 h-5"
+                      fill="none"
+                      stroke="currentColor"
+                      viewBox="0 0 24 24"
+                    >
+                      <path
+                        strokeLinecap="round"
+                        strokeLinejoin="round"
+                        strokeWidth={2}
+                        d="M6 18L18 6M6 6l12 12"
+                      />
+                    </svg>
+                  </button>
+                </div>
               </div>
 
               {/* Mode Toggle for Admin */}
@@ -341,73 +486,95 @@ export default function AdminAIAssistant({ token, userRole }: AdminAIAssistantPr
 
             {/* Messages */}
             <div className="flex-1 overflow-y-auto p-4 space-y-4 bg-gray-50">
-              {messages.map((message, index) => (
-                <motion.div
-                  key={index}
-                  initial={{ opacity: 0, y: 10 }}
-                  animate={{ opacity: 1, y: 0 }}
-                  className={`flex ${
-                    message.role === "user" ? "justify-end" : "justify-start"
-                  }`}
-                >
-                  <div
-                    className={`max-w-[85%] rounded-2xl px-4 py-3 ${
-                      message.role === "user"
-                        ? "bg-gradient-to-r from-primary-600 to-primary-500 text-white"
-                        : message.conflictInfo?.hasConflict
-                        ? "bg-yellow-50 border-2 border-yellow-400 text-gray-800"
-                        : "bg-white border border-gray-200 text-gray-800"
+              {messages.map((message, index) =>
+                // The reply being streamed shows as the indicator below until text arrives
+                !message.content && !message.stopped ? null : (
+                  <motion.div
+                    key={index}
+                    initial={{ opacity: 0, y: 10 }}
+                    animate={{ opacity: 1, y: 0 }}
+                    className={`flex ${
+                      message.role === "user" ? "justify-end" : "justify-start"
                     }`}
                   >
-                    {message.conflictInfo?.hasConflict && (
-                      <div className="mb-2 flex items-start gap-2">
-                        <span className="text-yellow-600 text-xl">&#9888;</span>
-                        <span className="font-semibold text-yellow-800">Conflict Detected</span>
+                    <div
+                      className={`max-w-[85%] rounded-2xl px-4 py-3 ${
+                        message.role === "user"
+                          ? "bg-gradient-to-r from-primary-600 to-primary-500 text-white"
+                          : message.conflictInfo?.hasConflict
+                          ? "bg-yellow-50 border-2 border-yellow-400 text-gray-800"
+                          : "bg-white border border-gray-200 text-gray-800"
+                      }`}
+                    >
+                      {message.conflictInfo?.hasConflict && (
+                        <div className="mb-2 flex items-start gap-2">
+                          <span className="text-yellow-600 text-xl">&#9888;</span>
+                          <span className="font-semibold text-yellow-800">Conflict Detected</span>
+                        </div>
+                      )}
+                      <div className="text-sm prose prose-sm max-w-none prose-headings:mt-3 prose-headings:mb-2 prose-p:my-2 prose-ul:my-2 prose-ol:my-2 prose-li:my-1 prose-table:my-3 prose-strong:font-semibold prose-strong:text-gray-900">
+                        <ReactMarkdown
+                          components={{
+                            table: ({ node, ...props }) => (
+                              <table className="min-w-full divide-y divide-gray-200 border border-gray-300 rounded-lg overflow-hidden" {...props} />
+                            ),
+                            thead: ({ node, ...props }) => (
+                              <thead className="bg-gray-100" {...props} />
+                            ),
+                            th: ({ node, ...props }) => (
+                              <th className="px-3 py-2 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider border-b border-gray-300" {...props} />
+                            ),
+                            td: ({ node, ...props }) => (
+                              <td className="px-3 py-2 text-sm text-gray-800 border-b border-gray-200" {...props} />
+                            ),
+                            tr: ({ node, ...props }) => (
+                              <tr className="hover:bg-gray-50" {...props} />
+                            ),
+                            ul: ({ node, ...props }) => (
+                              <ul className="list-disc pl-5 space-y-1" {...props} />
+                            ),
+                            ol: ({ node, ...props }) => (
+                              <ol className="list-decimal pl-5 space-y-1" {...props} />
+                            ),
+                            h3: ({ node, ...props }) => (
+                              <h3 className="text-base font-bold text-gray-900 mt-3 mb-2" {...props} />
+                            ),
+                            strong: ({ node, ...props }) => (
+                              <strong className="font-semibold text-gray-900" {...props} />
+                            ),
+                            p: ({ node, ...props }) => (
+                              <p className="my-2 leading-relaxed" {...props} />
+                            ),
+                          }}
+                        >
+                          {message.content}
+                        </ReactMarkdown>
                       </div>
-                    )}
-                    <div className="text-sm prose prose-sm max-w-none prose-headings:mt-3 prose-headings:mb-2 prose-p:my-2 prose-ul:my-2 prose-ol:my-2 prose-li:my-1 prose-table:my-3 prose-strong:font-semibold prose-strong:text-gray-900">
-                      <ReactMarkdown
-                        components={{
-                          table: ({ node, ...props }) => (
-                            <table className="min-w-full divide-y divide-gray-200 border border-gray-300 rounded-lg overflow-hidden" {...props} />
-                          ),
-                          thead: ({ node, ...props }) => (
-                            <thead className="bg-gray-100" {...props} />
-                          ),
-                          th: ({ node, ...props }) => (
-                            <th className="px-3 py-2 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider border-b border-gray-300" {...props} />
-                          ),
-                          td: ({ node, ...props }) => (
-                            <td className="px-3 py-2 text-sm text-gray-800 border-b border-gray-200" {...props} />
-                          ),
-                          tr: ({ node, ...props }) => (
-                            <tr className="hover:bg-gray-50" {...props} />
-                          ),
-                          ul: ({ node, ...props }) => (
-                            <ul className="list-disc pl-5 space-y-1" {...props} />
-                          ),
-                          ol: ({ node, ...props }) => (
-                            <ol className="list-decimal pl-5 space-y-1" {...props} />
-                          ),
-                          h3: ({ node, ...props }) => (
-                            <h3 className="text-base font-bold text-gray-900 mt-3 mb-2" {...props} />
-                          ),
-                          strong: ({ node, ...props }) => (
-                            <strong className="font-semibold text-gray-900" {...props} />
-                          ),
-                          p: ({ node, ...props }) => (
-                            <p className="my-2 leading-relaxed" {...props} />
-                          ),
-                        }}
-                      >
-                        {message.content}
-                      </ReactMarkdown>
+                      {message.status && (
+                        <p className="text-xs text-gray-500 italic mt-1">{message.status}</p>
+                      )}
+                      {message.stopped && (
+                        <p className="text-xs text-gray-400 italic mt-1">Stopped</p>
+                      )}
+                      {message.pendingActions && message.pendingActions.length > 0 && (
+                        <div className="mt-3 space-y-2">
+                          {message.pendingActions.map((action) => (
+                            <PendingActionCard
+                              key={action.id}
+                              action={action}
+                              onConfirm={() => handleDecision(action, "confirm")}
+                              onReject={() => handleDecision(action, "reject")}
+                              isSubmitting={decidingActionId === action.id}
+                            />
+                          ))}
+                        </div>
+                      )}
                     </div>
-                  </div>
-                </motion.div>
-              ))}
+                  </motion.div>
+                )
+              )}
 
-              {isLoading && (
+              {isLoading && !messages[messages.length - 1]?.content && (
                 <motion.div
                   initial={{ opacity: 0 }}
                   animate={{ opacity: 1 }}
@@ -426,7 +593,8 @@ export default function AdminAIAssistant({ token, userRole }: AdminAIAssistantPr
                       ></div>
                     </div>
                     <span className="text-sm text-gray-600">
-                      {chatMode === "booking" ? "Processing..." : "Analyzing..."}
+                      {messages[messages.length - 1]?.status ||
+                        (chatMode === "booking" ? "Processing..." : "Analyzing...")}
                     </span>
                   </div>
                 </motion.div>
@@ -470,25 +638,38 @@ export default function AdminAIAssistant({ token, userRole }: AdminAIAssistantPr
                   className="flex-1 border border-gray-300 rounded-xl px-4 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent"
                   disabled={isLoading}
                 />
-                <button
-                  onClick={handleSend}
-                  disabled={isLoading || !input.trim()}
-                  className="bg-gradient-to-r from-primary-600 to-primary-500 text-white rounded-xl px-4 py-2 hover:from-primary-700 hover:to-primary-600 transition disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2"
-                >
-                  <svg
-                    className="w-5 h-5"
-                    fill="none"
-                    stroke="currentColor"
-                    viewBox="0 0 24 24"
+                {isLoading ? (
+                  <button
+                    onClick={handleStop}
+                    className="bg-gray-600 text-white rounded-xl px-4 py-2 hover:bg-gray-700 transition flex items-center gap-2"
+                    aria-label="Stop response"
+                    title="Stop"
                   >
-                    <path
-                      strokeLinecap="round"
-                      strokeLinejoin="round"
-                      strokeWidth={2}
-                      d="M12 19l9 2-9-18-9 18 9-2zm0 0v-8"
-                    />
-                  </svg>
-                </button>
+                    <svg className="w-5 h-5" fill="currentColor" viewBox="0 0 24 24">
+                      <rect x="6" y="6" width="12" height="12" rx="1" />
+                    </svg>
+                  </button>
+                ) : (
+                  <button
+                    onClick={handleSend}
+                    disabled={!input.trim()}
+                    className="bg-gradient-to-r from-primary-600 to-primary-500 text-white rounded-xl px-4 py-2 hover:from-primary-700 hover:to-primary-600 transition disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2"
+                  >
+                    <svg
+                      className="w-5 h-5"
+                      fill="none"
+                      stroke="currentColor"
+                      viewBox="0 0 24 24"
+                    >
+                      <path
+                        strokeLinecap="round"
+                        strokeLinejoin="round"
+                        strokeWidth={2}
+                        d="M12 19l9 2-9-18-9 18 9-2zm0 0v-8"
+                      />
+                    </svg>
+                  </button>
+                )}
               </div>
               <p className="text-xs text-gray-500 mt-2 text-center">
                 {chatMode === "booking"
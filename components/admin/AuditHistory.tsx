@@ -0,0 +1,108 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { format } from "date-fns";
+import {
+  AuditAction,
+  AuditEntityType,
+  AuditEntry,
+  AuditSource,
+  getAuditEntries,
+} from "../../lib/api/audit-api";
+
+interface AuditHistoryProps {
+  token: string;
+  entityType: AuditEntityType;
+  entityId: string;
+}
+
+const ACTION_LABELS: Record<AuditAction, string> = {
+  "reservation.create": "Booked",
+  "reservation.update": "Updated",
+  "reservation.cancel": "Cancelled",
+  "member.create": "Created",
+  "member.update": "Updated",
+  "member.deactivate": "Deactivated",
+  "payment.refund": "Refunded",
+};
+
+const SOURCE_LABELS: Record<AuditSource, string> = {
+  api: "API",
+  "admin-ui": "Admin dashboard",
+  "ai-agent": "AI assistant",
+  system: "System",
+};
+
+function formatValue(value: unknown): string {
+  if (value === undefined || value === null || value === "") return "—";
+  if (typeof value === "object" && "start" in value && "end" in value) {
+    const slot = value as { start: string; end: string };
+    return `${slot.start}-${slot.end}`;
+  }
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value);
+}
+
+export default function AuditHistory({ token, entityType, entityId }: AuditHistoryProps) {
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    setIsLoading(true);
+    setError("");
+    getAuditEntries(token, { entityType, entityId })
+      .then((data) => setEntries(data))
+      .catch((err) => setError(err.message || "Failed to load history"))
+      .finally(() => setIsLoading(false));
+  }, [token, entityType, entityId]);
+
+  if (isLoading) {
+    return <p className="text-sm text-gray-500">Loading history...</p>;
+  }
+  if (error) {
+    return <p className="text-sm text-red-600">{error}</p>;
+  }
+  if (entries.length === 0) {
+    return <p className="text-sm text-gray-500">No recorded changes yet.</p>;
+  }
+
+  return (
+    <ol className="space-y-3 max-h-96 overflow-y-auto">
+      {entries.map((entry) => (
+        <li key={entry.id} className="rounded-lg border border-gray-200 p-3 text-sm">
+          <div className="flex items-start justify-between gap-2">
+            <span className="font-medium text-gray-900">
+              {ACTION_LABELS[entry.action]} by{" "}
+              {entry.actorName || (entry.actorId ? `member ${entry.actorId}` : "a guest")}
+              {entry.actorRole && (
+                <span className="ml-1 text-xs text-gray-500 capitalize">({entry.actorRole})</span>
+              )}
+            </span>
+            <span className="text-xs text-gray-500 whitespace-nowrap">
+              {format(new Date(entry.createdAt), "MMM d, yyyy h:mm a")}
+            </span>
+          </div>
+          <p className="text-xs text-gray-500 mb-2">via {SOURCE_LABELS[entry.source]}</p>
+          <table className="w-full text-xs">
+            <tbody>
+              {Object.entries(entry.changes).map(([field, change]) => (
+                <tr key={field}>
+                  <td className="py-0.5 pr-2 text-gray-500 align-top">{field}</td>
+                  <td className="py-0.5 text-gray-800">
+                    {change.before !== undefined && (
+                      <span className="line-through text-red-600 mr-1">
+                        {formatValue(change.before)}
+                      </span>
+                    )}
+                    <span className="text-green-700 font-medium">{formatValue(change.after)}</span>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </li>
+      ))}
+    </ol>
+  );
+}
@@ -3,9 +3,10 @@
 import { useState, useMemo } from "react";
 import { format, addDays, startOfWeek, addWeeks, subWeeks } from "date-fns";
 import { DndContext, DragEndEvent, DragOverlay, DragStartEvent } from "@dnd-kit/core";
-import { AdminReservation, Court } from "../../lib/api/admin-booking-api";
+import { AdminReservation, CancelScope, Court } from "../../lib/api/admin-booking-api";
 import DraggableBookingBlock from "./DraggableBookingBlock";
 import CalendarTimeSlot from "./CalendarTimeSlot";
+import CancelBookingDialog from "./CancelBookingDialog";
 
 interface BookingCalendarGridProps {
   reservations: AdminReservation[];
@@ -15,6 +16,7 @@ interface BookingCalendarGridProps {
     courtId: string;
     timeSlot: { start: string; end: string };
   }) => Promise<void>;
+  onReservationCancel?: (id: string, scope: CancelScope) => Promise<void>;
   isLoading?: boolean;
 }
 
@@ -41,12 +43,15 @@ export default function BookingCalendarGrid({
   reservations,
   courts,
   onReservationUpdate,
+  onReservationCancel,
   isLoading = false,
 }: BookingCalendarGridProps) {
   const [currentWeekStart, setCurrentWeekStart] = useState(() =>
     startOfWeek(new Date(), { weekStartsOn: 1 }) // Monday
   );
   const [activeReservation, setActiveReservation] = useState<AdminReservation | null>(null);
+  const [cancellingReservation, setCancellingReservation] = useState<AdminReservation | null>(null);
+  const [isCancelling, setIsCancelling] = useState(false);
   const [error, setError] = useState<string>("");
   const [successMessage, setSuccessMessage] = useState<string>("");
 
@@ -89,7 +94,7 @@ export default function BookingCalendarGrid({
   ): boolean => {
     return reservations.some((res) => {
       if (res.id === movingReservationId) return false; // Don't conflict with self
-      if (res.status === "cancelled") return false;
+      if (res.status === "cancelled" || res.status === "no_show") return false; // Released courts
       if (res.date !== date) return false;
       if (res.courtId !== courtId) return false; // Only conflict on the same court
       // Check if time slots match (for hourly slots)
@@ -151,6 +156,25 @@ export default function BookingCalendarGrid({
     setActiveReservation(null);
   };
 
+  // Cancel a booking (or part of its series) from the grid
+  const handleConfirmCancel = async (scope: CancelScope) => {
+    if (!cancellingReservation || !onReservationCancel) return;
+    try {
+      setIsCancelling(true);
+      await onReservationCancel(cancellingReservation.id, scope);
+      setSuccessMessage(
+        scope === "single" ? "Booking cancelled" : "Series bookings cancelled"
+      );
+      setTimeout(() => setSuccessMessage(""), 3000);
+    } catch (err: any) {
+      setError(err.message || "Failed to cancel booking");
+      setTimeout(() => setError(""), 5000);
+    } finally {
+      setIsCancelling(false);
+      setCancellingReservation(null);
+    }
+  };
+
   // Format date range for header
   const weekRangeText = `${format(weekDays[0], "MMM d")} - ${format(
     weekDays[6],
@@ -294,6 +318,7 @@ export default function BookingCalendarGrid({
                             key={reservation.id}
                             reservation={reservation}
                             courtColor={getCourtColor(reservation.courtId)}
+                            onCancel={onReservationCancel ? setCancellingReservation : undefined}
                           />
                         ))}
                       </CalendarTimeSlot>
@@ -325,6 +350,15 @@ export default function BookingCalendarGrid({
           </div>
         ) : null}
       </DragOverlay>
+
+      {cancellingReservation && (
+        <CancelBookingDialog
+          reservation={cancellingReservation}
+          onConfirm={handleConfirmCancel}
+          onClose={() => setCancellingReservation(null)}
+          isSubmitting={isCancelling}
+        />
+      )}
     </DndContext>
   );
 }
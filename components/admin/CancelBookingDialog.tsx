@@ -0,0 +1,94 @@
+"use client";
+
+import { useState } from "react";
+import { AdminReservation, CancelScope } from "../../lib/api/admin-booking-api";
+
+interface CancelBookingDialogProps {
+  reservation: AdminReservation;
+  onConfirm: (scope: CancelScope) => void;
+  onClose: () => void;
+  isSubmitting?: boolean;
+}
+
+const SCOPE_OPTIONS: Array<{ value: CancelScope; label: string; description: string }> = [
+  {
+    value: "single",
+    label: "This booking only",
+    description: "Other dates in the series stay booked.",
+  },
+  {
+    value: "following",
+    label: "This and following bookings",
+    description: "Cancels this date and every later date in the series.",
+  },
+  {
+    value: "all",
+    label: "All upcoming bookings in the series",
+    description: "Cancels every date that has not been played yet.",
+  },
+];
+
+export default function CancelBookingDialog({
+  reservation,
+  onConfirm,
+  onClose,
+  isSubmitting = false,
+}: CancelBookingDialogProps) {
+  const [scope, setScope] = useState<CancelScope>("single");
+
+  return (
+    <div className="fixed inset-0 bg-black/40 flex items-center justify-center z-50">
+      <div className="bg-white rounded-xl shadow-xl w-full max-w-md p-6 space-y-4">
+        <div className="flex items-center justify-between">
+          <h2 className="text-xl font-bold">Cancel Booking</h2>
+          <button className="text-gray-400 hover:text-gray-600" onClick={onClose}>
+            ✕
+          </button>
+        </div>
+
+        <p className="text-sm text-gray-600">
+          {reservation.courtName} on {reservation.date}, {reservation.timeSlot.start}-
+          {reservation.timeSlot.end} · {reservation.contactName || reservation.guestName || "Guest"}
+        </p>
+
+        {reservation.seriesId && (
+          <div className="space-y-2">
+            <p className="text-sm font-medium text-gray-700">This booking repeats. Cancel:</p>
+            {SCOPE_OPTIONS.map((option) => (
+              <label
+                key={option.value}
+                className="flex items-start gap-2 p-2 rounded-lg border border-gray-200 cursor-pointer"
+              >
+                <input
+                  type="radio"
+                  name="cancel-scope"
+                  value={option.value}
+                  checked={scope === option.value}
+                  onChange={() => setScope(option.value)}
+                  className="mt-1"
+                />
+                <span>
+                  <span className="block text-sm font-medium">{option.label}</span>
+                  <span className="block text-xs text-gray-500">{option.description}</span>
+                </span>
+              </label>
+            ))}
+          </div>
+        )}
+
+        <div className="flex justify-end gap-3">
+          <button className="btn-secondary" onClick={onClose} disabled={isSubmitting}>
+            Keep Booking
+          </button>
+          <button
+            className="btn-primary bg-red-600 hover:bg-red-700"
+            onClick={() => onConfirm(scope)}
+            disabled={isSubmitting}
+          >
+            {isSubmitting ? "Cancelling..." : "Cancel Booking"}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
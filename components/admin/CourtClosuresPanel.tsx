@@ -0,0 +1,281 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { format } from "date-fns";
+import {
+  AdminCourt,
+  ClosureInput,
+  ClosureKind,
+  CourtClosure,
+  createClosure,
+  deleteClosure,
+  getClosures,
+} from "../../lib/api/admin-court-api";
+import { AdminReservation } from "../../lib/api/admin-booking-api";
+
+interface CourtClosuresPanelProps {
+  token: string;
+  courts: AdminCourt[];
+}
+
+const CLOSURE_KINDS: ClosureKind[] = ["maintenance", "weather", "tournament", "other"];
+
+const today = () => format(new Date(), "yyyy-MM-dd");
+
+const emptyForm = (): ClosureInput => ({
+  courtId: "",
+  startDate: today(),
+  endDate: "",
+  startTime: "",
+  endTime: "",
+  kind: "maintenance",
+  reason: "",
+});
+
+const formatWindow = (closure: CourtClosure) => {
+  const dates =
+    closure.startDate === closure.endDate
+      ? closure.startDate
+      : `${closure.startDate} – ${closure.endDate}`;
+  return closure.startTime && closure.endTime
+    ? `${dates}, ${closure.startTime}-${closure.endTime}`
+    : `${dates}, all day`;
+};
+
+export default function CourtClosuresPanel({ token, courts }: CourtClosuresPanelProps) {
+  const [closures, setClosures] = useState<CourtClosure[]>([]);
+  const [form, setForm] = useState<ClosureInput>(emptyForm);
+  const [affected, setAffected] = useState<AdminReservation[] | null>(null);
+  const [error, setError] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  const loadClosures = async () => {
+    try {
+      setClosures(await getClosures(token, { from: today() }));
+    } catch (err: any) {
+      setError(err.message || "Failed to load closures");
+    }
+  };
+
+  useEffect(() => {
+    loadClosures();
+  }, [token]);
+
+  const courtName = (courtId: string) =>
+    courts.find((court) => court.id === courtId)?.name ?? `Court ${courtId}`;
+
+  const handleCreate = async () => {
+    try {
+      setIsSaving(true);
+      setError("");
+      const result = await createClosure(
+        {
+          ...form,
+          endDate: form.endDate || undefined,
+          startTime: form.startTime || undefined,
+          endTime: form.endTime || undefined,
+        },
+        token
+      );
+      setAffected(result.affectedReservations);
+      setForm(emptyForm());
+      await loadClosures();
+    } catch (err: any) {
+      setError(err.message || "Failed to create closure");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    try {
+      setError("");
+      await deleteClosure(id, token);
+      await loadClosures();
+    } catch (err: any) {
+      setError(err.message || "Failed to remove closure");
+    }
+  };
+
+  return (
+    <div className="card space-y-4">
+      <div>
+        <h2 className="text-xl font-bold">Closures</h2>
+        <p className="text-sm text-gray-600">
+          Block a court for resurfacing, weather or tournaments. Booked slots inside the window
+          are listed so they can be moved or cancelled.
+        </p>
+      </div>
+
+      {error && (
+        <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+          {error}
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-3 lg:grid-cols-6 gap-3">
+        <div>
+          <label className="text-sm text-gray-600">Court</label>
+          <select
+            value={form.courtId}
+            onChange={(event) => setForm((prev) => ({ ...prev, courtId: event.target.value }))}
+            className="mt-1 w-full rounded-lg border border-gray-200 px-3 py-2 text-sm"
+          >
+            <option value="">Select</option>
+            {courts
+              .filter((court) => !court.retired)
+              .map((court) => (
+                <option key={court.id} value={court.id}>
+                  {court.name}
+                </option>
+              ))}
+          </select>
+        </div>
+        <div>
+          <label className="text-sm text-gray-600">From</label>
+          <input
+            type="date"
+            value={form.startDate}
+            onChange={(event) => setForm((prev) => ({ ...prev, startDate: event.target.value }))}
+            className="mt-1 w-full rounded-lg border border-gray-200 px-3 py-2 text-sm"
+          />
+        </div>
+        <div>
+          <label className="text-sm text-gray-600">To (optional)</label>
+          <input
+            type="date"
+            value={form.endDate}
+            onChange={(event) => setForm((prev) => ({ ...prev, endDate: event.target.value }))}
+            className="mt-1 w-full rounded-lg border border-gray-200 px-3 py-2 text-sm"
+          />
+        </div>
+        <div>
+          <label className="text-sm text-gray-600">Hours (optional)</label>
+          <div className="mt-1 flex gap-1">
+            <input
+              type="time"
+              value={form.startTime}
+              onChange={(event) => setForm((prev) => ({ ...prev, startTime: event.target.value }))}
+              className="w-full rounded-lg border border-gray-200 px-2 py-2 text-sm"
+            />
+            <input
+              type="time"
+              value={form.endTime}
+              onChange={(event) => setForm((prev) => ({ ...prev, endTime: event.target.value }))}
+              className="w-full rounded-lg border border-gray-200 px-2 py-2 text-sm"
+            />
+          </div>
+        </div>
+        <div>
+          <label className="text-sm text-gray-600">Type</label>
+          <select
+            value={form.kind}
+            onChange={(event) =>
+              setForm((prev) => ({ ...prev, kind: event.target.value as ClosureKind }))
+            }
+            className="mt-1 w-full rounded-lg border border-gray-200 px-3 py-2 text-sm capitalize"
+          >
+            {CLOSURE_KINDS.map((kind) => (
+              <option key={kind} value={kind}>
+                {kind}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="text-sm text-gray-600">Reason</label>
+          <input
+            type="text"
+            value={form.reason}
+            onChange={(event) => setForm((prev) => ({ ...prev, reason: event.target.value }))}
+            placeholder="e.g. Resurfacing"
+            className="mt-1 w-full rounded-lg border border-gray-200 px-3 py-2 text-sm"
+          />
+        </div>
+      </div>
+      <div className="flex justify-end">
+        <button
+          className="btn-primary"
+          onClick={handleCreate}
+          disabled={isSaving || !form.courtId || !form.startDate || !form.reason.trim()}
+        >
+          {isSaving ? "Saving..." : "Add Closure"}
+        </button>
+      </div>
+
+      {affected && (
+        <div
+          className={`p-4 rounded-lg border text-sm ${
+            affected.length > 0
+              ? "bg-yellow-50 border-yellow-200 text-yellow-800"
+              : "bg-green-50 border-green-200 text-green-800"
+          }`}
+        >
+          {affected.length === 0 ? (
+            "Closure added. No existing bookings are affected."
+          ) : (
+            <>
+              <p className="font-medium mb-2">
+                Closure added. {affected.length} existing booking
+                {affected.length === 1 ? " falls" : "s fall"} inside it and should be moved or
+                cancelled in{" "}
+                <Link href="/dashboard/admin/bookings" className="underline">
+                  Admin Bookings
+                </Link>
+                :
+              </p>
+              <ul className="space-y-1">
+                {affected.map((reservation) => (
+                  <li key={reservation.id}>
+                    {reservation.date} {reservation.timeSlot.start}-{reservation.timeSlot.end} ·{" "}
+                    {reservation.courtName} · {reservation.contactName || "Guest"}
+                    {reservation.contactEmail && ` (${reservation.contactEmail})`}
+                  </li>
+                ))}
+              </ul>
+            </>
+          )}
+        </div>
+      )}
+
+      {closures.length === 0 ? (
+        <p className="text-sm text-gray-500">No upcoming closures.</p>
+      ) : (
+        <table className="min-w-full text-sm">
+          <thead>
+            <tr className="text-left text-gray-500 border-b">
+              <th className="py-2 pr-4">Court</th>
+              <th className="py-2 pr-4">When</th>
+              <th className="py-2 pr-4">Type</th>
+              <th className="py-2 pr-4">Reason</th>
+              <th className="py-2"></th>
+            </tr>
+          </thead>
+          <tbody>
+            {closures.map((closure) => (
+              <tr key={closure.id} className="border-b last:border-b-0">
+                <td className="py-2 pr-4">{courtName(closure.courtId)}</td>
+                <td className="py-2 pr-4">{formatWindow(closure)}</td>
+                <td className="py-2 pr-4 capitalize">{closure.kind}</td>
+                <td className="py-2 pr-4">{closure.reason}</td>
+                <td className="py-2 text-right">
+                  {closure.kind === "program" ? (
+                    <span className="text-gray-400">Set by program</span>
+                  ) : (
+                    <button
+                      className="text-red-600 hover:text-red-700 font-medium"
+                      onClick={() => handleDelete(closure.id)}
+                    >
+                      Remove
+                    </button>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
@@ -6,11 +6,13 @@ import { AdminReservation } from "../../lib/api/admin-booking-api";
 interface DraggableBookingBlockProps {
   reservation: AdminReservation;
   courtColor: string;
+  onCancel?: (reservation: AdminReservation) => void;
 }
 
 export default function DraggableBookingBlock({
   reservation,
   courtColor,
+  onCancel,
 }: DraggableBookingBlockProps) {
   const { attributes, listeners, setNodeRef, transform, isDragging } = useDraggable({
     id: reservation.id,
@@ -39,8 +41,25 @@ export default function DraggableBookingBlock({
       <div className="font-semibold flex items-center gap-1">
         <span className="text-[10px]">🏟️</span>
         {reservation.courtName}
+        {onCancel && (
+          <button
+            type="button"
+            // Keep the click from starting a drag
+            onPointerDown={(event) => event.stopPropagation()}
+            onClick={() => onCancel(reservation)}
+            className="ml-auto text-[10px] opacity-60 hover:opacity-100"
+            title="Cancel booking"
+          >
+            ✕
+          </button>
+        )}
       </div>
 
+      {/* Recurring Series */}
+      {reservation.seriesId && (
+        <div className="text-[10px] font-medium opacity-75">↻ Series</div>
+      )}
+
       {/* Contact Name */}
       <div className="truncate font-medium">
         {reservation.contactName || reservation.guestName || "Guest"}
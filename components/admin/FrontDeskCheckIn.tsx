@@ -0,0 +1,109 @@
+"use client";
+
+import { FormEvent, useState } from "react";
+import {
+  FrontDeskLookup,
+  checkInAdminReservation,
+  lookUpMemberForCheckIn,
+} from "../../lib/api/admin-booking-api";
+
+interface FrontDeskCheckInProps {
+  token: string;
+  onCheckedIn?: () => void;
+}
+
+export default function FrontDeskCheckIn({ token, onCheckedIn }: FrontDeskCheckInProps) {
+  const [memberNumber, setMemberNumber] = useState("");
+  const [lookup, setLookup] = useState<FrontDeskLookup | null>(null);
+  const [error, setError] = useState("");
+  const [isLoading, setIsLoading] = useState(false);
+
+  const handleLookup = async (event: FormEvent) => {
+    event.preventDefault();
+    if (!memberNumber.trim()) return;
+    setIsLoading(true);
+    setError("");
+    try {
+      setLookup(await lookUpMemberForCheckIn(memberNumber.trim(), token));
+    } catch (err: any) {
+      setLookup(null);
+      setError(err.message || "Failed to look up member");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleCheckIn = async (id: string) => {
+    setIsLoading(true);
+    setError("");
+    try {
+      const checkedIn = await checkInAdminReservation(id, token);
+      setLookup((prev) =>
+        prev
+          ? {
+              ...prev,
+              reservations: prev.reservations.map((r) => (r.id === id ? checkedIn : r)),
+            }
+          : prev
+      );
+      onCheckedIn?.();
+    } catch (err: any) {
+      setError(err.message || "Failed to check in");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="card space-y-4">
+      <h2 className="text-lg font-semibold">Front desk check-in</h2>
+      <form onSubmit={handleLookup} className="flex gap-3">
+        <input
+          type="text"
+          value={memberNumber}
+          onChange={(event) => setMemberNumber(event.target.value)}
+          placeholder="Member number (e.g. MEM-0001)"
+          className="flex-1 rounded-lg border border-gray-200 px-3 py-2 text-sm"
+        />
+        <button type="submit" className="btn-primary" disabled={isLoading}>
+          Look up
+        </button>
+      </form>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      {lookup && (
+        <div className="space-y-2">
+          <p className="text-sm text-gray-700">
+            {lookup.member.firstName} {lookup.member.lastName} · {lookup.member.memberNumber}
+          </p>
+          {lookup.reservations.length === 0 ? (
+            <p className="text-sm text-gray-500">No reservations today.</p>
+          ) : (
+            lookup.reservations.map((reservation) => (
+              <div
+                key={reservation.id}
+                className="flex items-center justify-between rounded-lg border border-gray-200 p-3 text-sm"
+              >
+                <span>
+                  {reservation.courtName}, {reservation.timeSlot.start}-{reservation.timeSlot.end}
+                </span>
+                {reservation.status === "checked_in" ? (
+                  <span className="text-green-700 font-medium">Checked in</span>
+                ) : (
+                  <button
+                    className="text-primary-600 hover:text-primary-700 font-medium"
+                    onClick={() => handleCheckIn(reservation.id)}
+                    disabled={isLoading}
+                  >
+                    Check in
+                  </button>
+                )}
+              </div>
+            ))
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
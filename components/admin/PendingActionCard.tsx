@@ -0,0 +1,104 @@
+"use client";
+
+import { AIAction, AIActionChange } from "../../lib/api/ai-action-api";
+
+interface PendingActionCardProps {
+  action: AIAction;
+  onConfirm: () => void;
+  onReject: () => void;
+  isSubmitting?: boolean;
+}
+
+const STATUS_LABELS: Record<AIAction["status"], { label: string; className: string }> = {
+  pending: { label: "Awaiting confirmation", className: "bg-yellow-100 text-yellow-800" },
+  applying: { label: "Applying", className: "bg-yellow-100 text-yellow-800" },
+  confirmed: { label: "Confirmed", className: "bg-green-100 text-green-800" },
+  rejected: { label: "Rejected", className: "bg-gray-100 text-gray-700" },
+  expired: { label: "Expired", className: "bg-gray-100 text-gray-700" },
+  failed: { label: "Failed", className: "bg-red-100 text-red-800" },
+};
+
+function ChangeDiff({ change }: { change: AIActionChange }) {
+  const fields = Object.keys(change.after);
+
+  return (
+    <table className="w-full text-xs">
+      <tbody>
+        {fields.map((field) => {
+          const before = change.before?.[field];
+          const after = change.after[field];
+          const changed = before !== after;
+
+          return (
+            <tr key={field}>
+              <td className="py-0.5 pr-2 text-gray-500 capitalize align-top">{field}</td>
+              <td className="py-0.5 text-gray-800">
+                {changed && before !== undefined && (
+                  <span className="line-through text-red-600 mr-1">{before}</span>
+                )}
+                <span className={changed ? "text-green-700 font-medium" : ""}>{after}</span>
+              </td>
+            </tr>
+          );
+        })}
+      </tbody>
+    </table>
+  );
+}
+
+export default function PendingActionCard({
+  action,
+  onConfirm,
+  onReject,
+  isSubmitting = false,
+}: PendingActionCardProps) {
+  const status = STATUS_LABELS[action.status];
+  const expiresAt = new Date(action.expiresAt).toLocaleTimeString([], {
+    hour: "numeric",
+    minute: "2-digit",
+  });
+
+  return (
+    <div className="bg-white border-2 border-primary-200 rounded-xl p-3 space-y-2">
+      <div className="flex items-start justify-between gap-2">
+        <p className="text-sm font-semibold text-gray-900">{action.summary}</p>
+        <span className={`text-xs rounded-full px-2 py-0.5 whitespace-nowrap ${status.className}`}>
+          {status.label}
+        </span>
+      </div>
+
+      {action.changes.map((change, index) => (
+        <div key={index} className="border-t border-gray-100 pt-2">
+          <p className="text-xs font-medium text-gray-600 mb-1">
+            {change.before ? `Update ${change.entity}` : `New ${change.entity}`}
+          </p>
+          <ChangeDiff change={change} />
+        </div>
+      ))}
+
+      {action.error && <p className="text-xs text-red-600">{action.error}</p>}
+
+      {action.status === "pending" && (
+        <div className="flex items-center justify-between pt-1">
+          <span className="text-xs text-gray-500">Expires at {expiresAt}</span>
+          <div className="flex gap-2">
+            <button
+              className="text-xs px-3 py-1.5 rounded-lg border border-gray-300 text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+              onClick={onReject}
+              disabled={isSubmitting}
+            >
+              Reject
+            </button>
+            <button
+              className="text-xs px-3 py-1.5 rounded-lg bg-primary-600 text-white hover:bg-primary-700 disabled:opacity-50"
+              onClick={onConfirm}
+              disabled={isSubmitting}
+            >
+              {isSubmitting ? "Applying..." : "Confirm"}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
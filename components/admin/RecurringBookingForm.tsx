@@ -0,0 +1,367 @@
+"use client";
+
+import { useState } from "react";
+import { format } from "date-fns";
+import {
+  Court,
+  createReservationSeries,
+  previewReservationSeries,
+  ReservationSeriesInput,
+  SeriesOccurrence,
+} from "../../lib/api/admin-booking-api";
+
+interface RecurringBookingFormProps {
+  token: string;
+  courts: Court[];
+  onClose: () => void;
+  onCreated: () => void;
+}
+
+type Frequency = "DAILY" | "WEEKLY" | "MONTHLY";
+
+const WEEKDAY_CODES = [
+  { code: "MO", label: "Mon" },
+  { code: "TU", label: "Tue" },
+  { code: "WE", label: "Wed" },
+  { code: "TH", label: "Thu" },
+  { code: "FR", label: "Fri" },
+  { code: "SA", label: "Sat" },
+  { code: "SU", label: "Sun" },
+];
+
+const STATUS_STYLES: Record<SeriesOccurrence["status"], string> = {
+  available: "text-green-700",
+  created: "text-green-700",
+  conflict: "text-red-700",
+};
+
+export default function RecurringBookingForm({
+  token,
+  courts,
+  onClose,
+  onCreated,
+}: RecurringBookingFormProps) {
+  const [form, setForm] = useState({
+    courtId: "",
+    startDate: format(new Date(), "yyyy-MM-dd"),
+    timeStart: "18:00",
+    timeEnd: "19:00",
+    frequency: "WEEKLY" as Frequency,
+    interval: 1,
+    byDay: [] as string[],
+    endType: "count" as "count" | "until",
+    count: 8,
+    until: "",
+    memberId: "",
+    guestName: "",
+    guestEmail: "",
+    guestPhone: "",
+    notes: "",
+  });
+  const [occurrences, setOccurrences] = useState<SeriesOccurrence[] | null>(null);
+  const [created, setCreated] = useState(false);
+  const [error, setError] = useState("");
+  const [isWorking, setIsWorking] = useState(false);
+
+  const update = (changes: Partial<typeof form>) => {
+    setForm((prev) => ({ ...prev, ...changes }));
+    setOccurrences(null);
+    setCreated(false);
+  };
+
+  const toggleDay = (code: string) =>
+    update({
+      byDay: form.byDay.includes(code)
+        ? form.byDay.filter((day) => day !== code)
+        : [...form.byDay, code],
+    });
+
+  const buildRequest = (): ReservationSeriesInput => {
+    const parts = [`FREQ=${form.frequency}`];
+    if (form.interval > 1) parts.push(`INTERVAL=${form.interval}`);
+    if (form.frequency === "WEEKLY" && form.byDay.length > 0) {
+      parts.push(`BYDAY=${form.byDay.join(",")}`);
+    }
+    parts.push(form.endType === "count" ? `COUNT=${form.count}` : `UNTIL=${form.until}`);
+
+    return {
+      courtId: form.courtId,
+      startDate: form.startDate,
+      timeSlot: { start: form.timeStart, end: form.timeEnd },
+      rrule: parts.join(";"),
+      memberId: form.memberId || undefined,
+      guestName: form.memberId ? undefined : form.guestName,
+      guestEmail: form.memberId ? undefined : form.guestEmail,
+      guestPhone: form.memberId ? undefined : form.guestPhone,
+      notes: form.notes || undefined,
+    };
+  };
+
+  const handlePreview = async () => {
+    try {
+      setIsWorking(true);
+      setError("");
+      setOccurrences(await previewReservationSeries(buildRequest(), token));
+    } catch (err: any) {
+      setError(err.message || "Failed to preview series");
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleCreate = async () => {
+    try {
+      setIsWorking(true);
+      setError("");
+      const result = await createReservationSeries(buildRequest(), token);
+      setOccurrences(result.occurrences);
+      setCreated(true);
+      onCreated();
+    } catch (err: any) {
+      setError(err.message || "Failed to create series");
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const conflicts = occurrences?.filter((o) => o.status === "conflict").length ?? 0;
+
+  return (
+    <div className="fixed inset-0 bg-black/40 flex items-center justify-center z-50">
+      <div className="bg-white rounded-xl shadow-xl w-full max-w-2xl p-6 space-y-4 max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between">
+          <h2 className="text-xl font-bold">New Recurring Booking</h2>
+          <button className="text-gray-400 hover:text-gray-600" onClick={onClose}>
+            ✕
+          </button>
+        </div>
+
+        {error && (
+          <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+            {error}
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
+          <div>
+            <label className="text-sm text-gray-600">Court</label>
+            <select
+              value={form.courtId}
+              onChange={(event) => update({ courtId: event.target.value })}
+              className="mt-1 w-full rounded-lg border border-gray-200 px-3 py-2 text-sm"
+            >
+              <option value="">Select</option>
+              {courts.map((court) => (
+                <option key={court.id} value={court.id}>
+                  {court.name}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="text-sm text-gray-600">Starting</label>
+            <input
+              type="date"
+              value={form.startDate}
+              onChange={(event) => update({ startDate: event.target.value })}
+              className="mt-1 w-full rounded-lg border border-gray-200 px-3 py-2 text-sm"
+            />
+          </div>
+          <div>
+            <label className="text-sm text-gray-600">Start</label>
+            <input
+              type="time"
+              value={form.timeStart}
+              onChange={(event) => update({ timeStart: event.target.value })}
+              className="mt-1 w-full rounded-lg border border-gray-200 px-3 py-2 text-sm"
+            />
+          </div>
+          <div>
+            <label className="text-sm text-gray-600">End</label>
+            <input
+              type="time"
+              value={form.timeEnd}
+              onChange={(event) => update({ timeEnd: event.target.value })}
+              className="mt-1 w-full rounded-lg border border-gray-200 px-3 py-2 text-sm"
+            />
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
+          <div>
+            <label className="text-sm text-gray-600">Repeats</label>
+            <select
+              value={form.frequency}
+              onChange={(event) => update({ frequency: event.target.value as Frequency })}
+              className="mt-1 w-full rounded-lg border border-gray-200 px-3 py-2 text-sm"
+            >
+              <option value="DAILY">Daily</option>
+              <option value="WEEKLY">Weekly</option>
+              <option value="MONTHLY">Monthly</option>
+            </select>
+          </div>
+          <div>
+            <label className="text-sm text-gray-600">Every</label>
+            <input
+              type="number"
+              min={1}
+              value={form.interval}
+              onChange={(event) => update({ interval: Math.max(1, Number(event.target.value)) })}
+              className="mt-1 w-full rounded-lg border border-gray-200 px-3 py-2 text-sm"
+            />
+          </div>
+          <div>
+            <label className="text-sm text-gray-600">Ends</label>
+            <select
+              value={form.endType}
+              onChange={(event) => update({ endType: event.target.value as "count" | "until" })}
+              className="mt-1 w-full rounded-lg border border-gray-200 px-3 py-2 text-sm"
+            >
+              <option value="count">After a number of dates</option>
+              <option value="until">On a date</option>
+            </select>
+          </div>
+          <div>
+            <label className="text-sm text-gray-600">
+              {form.endType === "count" ? "Occurrences" : "End date"}
+            </label>
+            {form.endType === "count" ? (
+              <input
+                type="number"
+                min={1}
+                value={form.count}
+                onChange={(event) => update({ count: Math.max(1, Number(event.target.value)) })}
+                className="mt-1 w-full rounded-lg border border-gray-200 px-3 py-2 text-sm"
+              />
+            ) : (
+              <input
+                type="date"
+                value={form.until}
+                onChange={(event) => update({ until: event.target.value })}
+                className="mt-1 w-full rounded-lg border border-gray-200 px-3 py-2 text-sm"
+              />
+            )}
+          </div>
+        </div>
+
+        {form.frequency === "WEEKLY" && (
+          <div className="flex flex-wrap gap-2">
+            {WEEKDAY_CODES.map((day) => (
+              <button
+                key={day.code}
+                type="button"
+                onClick={() => toggleDay(day.code)}
+                className={`px-3 py-1 rounded-full border text-sm ${
+                  form.byDay.includes(day.code)
+                    ? "bg-primary-600 border-primary-600 text-white"
+                    : "border-gray-300 text-gray-700"
+                }`}
+              >
+                {day.label}
+              </button>
+            ))}
+            <span className="text-xs text-gray-500 self-center">
+              Defaults to the start date&apos;s weekday
+            </span>
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
+          <div>
+            <label className="text-sm text-gray-600">Member ID (optional)</label>
+            <input
+              type="text"
+              value={form.memberId}
+              onChange={(event) => update({ memberId: event.target.value })}
+              className="mt-1 w-full rounded-lg border border-gray-200 px-3 py-2 text-sm"
+            />
+          </div>
+          {!form.memberId && (
+            <>
+              <div>
+                <label className="text-sm text-gray-600">Guest name</label>
+                <input
+                  type="text"
+                  value={form.guestName}
+                  onChange={(event) => update({ guestName: event.target.value })}
+                  className="mt-1 w-full rounded-lg border border-gray-200 px-3 py-2 text-sm"
+                />
+              </div>
+              <div>
+                <label className="text-sm text-gray-600">Guest email</label>
+                <input
+                  type="email"
+                  value={form.guestEmail}
+                  onChange={(event) => update({ guestEmail: event.target.value })}
+                  className="mt-1 w-full rounded-lg border border-gray-200 px-3 py-2 text-sm"
+                />
+              </div>
+              <div>
+                <label className="text-sm text-gray-600">Guest phone</label>
+                <input
+                  type="tel"
+                  value={form.guestPhone}
+                  onChange={(event) => update({ guestPhone: event.target.value })}
+                  className="mt-1 w-full rounded-lg border border-gray-200 px-3 py-2 text-sm"
+                />
+              </div>
+            </>
+          )}
+        </div>
+
+        <div>
+          <label className="text-sm text-gray-600">Notes</label>
+          <input
+            type="text"
+            value={form.notes}
+            onChange={(event) => update({ notes: event.target.value })}
+            placeholder="e.g. Tuesday men's league"
+            className="mt-1 w-full rounded-lg border border-gray-200 px-3 py-2 text-sm"
+          />
+        </div>
+
+        {occurrences && (
+          <div className="border border-gray-200 rounded-lg p-3 space-y-2">
+            <p className="text-sm font-medium">
+              {created
+                ? `Series created: ${occurrences.length - conflicts} booked, ${conflicts} skipped`
+                : `${occurrences.length - conflicts} of ${occurrences.length} dates available`}
+            </p>
+            <ul className="text-sm max-h-48 overflow-y-auto space-y-1">
+              {occurrences.map((occurrence) => (
+                <li key={occurrence.date} className={STATUS_STYLES[occurrence.status]}>
+                  {occurrence.date} · {occurrence.status}
+                  {occurrence.reason && ` — ${occurrence.reason}`}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        <div className="flex justify-end gap-3">
+          <button className="btn-secondary" onClick={onClose} disabled={isWorking}>
+            Close
+          </button>
+          {!created && (
+            <>
+              <button
+                className="btn-secondary"
+                onClick={handlePreview}
+                disabled={isWorking || !form.courtId}
+              >
+                Preview Dates
+              </button>
+              <button
+                className="btn-primary"
+                onClick={handleCreate}
+                disabled={isWorking || !occurrences}
+              >
+                {isWorking ? "Saving..." : "Create Series"}
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
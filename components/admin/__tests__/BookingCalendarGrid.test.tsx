@@ -219,4 +219,28 @@ describe("BookingCalendarGrid", () => {
     // (Visual color testing would require snapshot or visual regression testing)
     expect(screen.getByText("Court 1")).toBeInTheDocument();
   });
+
+  test("cancels a series occurrence with the chosen scope", async () => {
+    const mockOnCancel = jest.fn().mockResolvedValue(undefined);
+    const seriesReservations: AdminReservation[] = [
+      { ...mockReservations[0], seriesId: "series-1" },
+    ];
+
+    render(
+      <BookingCalendarGrid
+        reservations={seriesReservations}
+        courts={mockCourts}
+        onReservationUpdate={mockOnUpdate}
+        onReservationCancel={mockOnCancel}
+      />
+    );
+
+    expect(screen.getByText("↻ Series")).toBeInTheDocument();
+
+    fireEvent.click(screen.getByTitle("Cancel booking"));
+    fireEvent.click(screen.getByLabelText(/this and following bookings/i));
+    fireEvent.click(screen.getByRole("button", { name: "Cancel Booking" }));
+
+    expect(mockOnCancel).toHaveBeenCalledWith("res-1", "following");
+  });
 });
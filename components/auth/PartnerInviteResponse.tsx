@@ -0,0 +1,103 @@
+"use client";
+
+import { useState } from "react";
+import { motion } from "framer-motion";
+import { useSearchParams } from "next/navigation";
+import Link from "next/link";
+import { respondToPartnerInvite } from "../../lib/api/booking-api";
+
+/**
+ * Lets a guest partner answer an invitation from the link in their email
+ */
+export default function PartnerInviteResponse() {
+  const searchParams = useSearchParams();
+  const reservationId = searchParams.get("reservation");
+  const participantId = searchParams.get("participant");
+  const inviteToken = searchParams.get("token");
+  const [status, setStatus] = useState<"pending" | "accepted" | "declined" | "error">(
+    reservationId && participantId && inviteToken ? "pending" : "error"
+  );
+  const [message, setMessage] = useState(
+    reservationId && participantId && inviteToken ? "" : "Invalid invitation link."
+  );
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleRespond = async (accept: boolean) => {
+    if (!reservationId || !participantId || !inviteToken) return;
+    setIsSubmitting(true);
+    try {
+      await respondToPartnerInvite(reservationId, participantId, accept, { inviteToken });
+      setStatus(accept ? "accepted" : "declined");
+    } catch (error: any) {
+      setStatus("error");
+      setMessage(error.message || "Failed to respond to the invitation.");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ duration: 0.5 }}
+      className="card max-w-md mx-auto text-center"
+    >
+      {status === "pending" && (
+        <>
+          <div className="text-6xl mb-4">🎾</div>
+          <h2 className="text-3xl font-bold mb-4">
+            <span className="gradient-text">You're Invited</span>
+          </h2>
+          <p className="text-gray-600 mb-6">Will you be joining the game?</p>
+          <div className="flex gap-3">
+            <button
+              type="button"
+              onClick={() => handleRespond(true)}
+              disabled={isSubmitting}
+              className="btn-primary flex-1"
+            >
+              Accept
+            </button>
+            <button
+              type="button"
+              onClick={() => handleRespond(false)}
+              disabled={isSubmitting}
+              className="btn-secondary flex-1"
+            >
+              Decline
+            </button>
+          </div>
+        </>
+      )}
+
+      {(status === "accepted" || status === "declined") && (
+        <>
+          <div className="text-6xl mb-4">{status === "accepted" ? "✅" : "👋"}</div>
+          <h2 className="text-3xl font-bold mb-4 text-green-600">
+            {status === "accepted" ? "You're In!" : "Invitation Declined"}
+          </h2>
+          <p className="text-gray-600 mb-6">
+            {status === "accepted"
+              ? "You're on the booking. See you there!"
+              : "No problem. The booker can invite someone else."}
+          </p>
+          <Link href="/signup" className="btn-secondary inline-block">
+            Create an account
+          </Link>
+        </>
+      )}
+
+      {status === "error" && (
+        <>
+          <div className="text-6xl mb-4">❌</div>
+          <h2 className="text-3xl font-bold mb-4 text-red-600">Something Went Wrong</h2>
+          <p className="text-gray-600 mb-6">{message}</p>
+          <Link href="/" className="btn-primary inline-block">
+            Back to Home
+          </Link>
+        </>
+      )}
+    </motion.div>
+  );
+}
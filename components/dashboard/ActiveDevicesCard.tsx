@@ -0,0 +1,147 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { motion } from "framer-motion";
+import { ActiveSession, getActiveSessions, revokeSession } from "../../lib/api/auth-api";
+
+interface ActiveDevicesCardProps {
+  token: string;
+  onLogoutAll: () => Promise<void>;
+}
+
+function describeDevice(session: ActiveSession): string {
+  const agent = session.userAgent || "";
+  const browser = /Edg\//.test(agent)
+    ? "Edge"
+    : /Chrome\//.test(agent)
+      ? "Chrome"
+      : /Firefox\//.test(agent)
+        ? "Firefox"
+        : /Safari\//.test(agent)
+          ? "Safari"
+          : null;
+  const platform = /iPhone|iPad/.test(agent)
+    ? "iOS"
+    : /Android/.test(agent)
+      ? "Android"
+      : /Mac OS X/.test(agent)
+        ? "macOS"
+        : /Windows/.test(agent)
+          ? "Windows"
+          : /Linux/.test(agent)
+            ? "Linux"
+            : null;
+
+  if (browser && platform) return `${browser} on ${platform}`;
+  return browser || platform || agent || "Unknown device";
+}
+
+export default function ActiveDevicesCard({ token, onLogoutAll }: ActiveDevicesCardProps) {
+  const [sessions, setSessions] = useState<ActiveSession[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    const loadSessions = async () => {
+      try {
+        setIsLoading(true);
+        setSessions(await getActiveSessions(token));
+      } catch (err: unknown) {
+        setError(err instanceof Error ? err.message : "Failed to load active devices");
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    loadSessions();
+  }, [token]);
+
+  const handleRevoke = async (sessionId: string) => {
+    try {
+      setBusyId(sessionId);
+      setError("");
+      await revokeSession(token, sessionId);
+      setSessions((current) => current.filter((s) => s.id !== sessionId));
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : "Failed to sign out device");
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleLogoutAll = async () => {
+    if (!confirm("Sign out of every device, including this one?")) return;
+
+    try {
+      setBusyId("all");
+      await onLogoutAll();
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : "Failed to log out of all devices");
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="card"
+    >
+      <div className="flex items-center justify-between mb-6">
+        <h2 className="text-2xl font-bold">
+          <span className="gradient-text">Active Devices</span>
+        </h2>
+        <button
+          onClick={handleLogoutAll}
+          disabled={busyId !== null}
+          className="btn-secondary text-sm disabled:opacity-50"
+        >
+          Log out all devices
+        </button>
+      </div>
+
+      {error && (
+        <div className="mb-4 p-4 bg-red-50 border border-red-200 rounded-lg text-red-700">
+          {error}
+        </div>
+      )}
+
+      {isLoading ? (
+        <p className="text-gray-600">Loading devices...</p>
+      ) : sessions.length === 0 ? (
+        <p className="text-gray-600">No active devices</p>
+      ) : (
+        <ul className="divide-y divide-gray-100">
+          {sessions.map((session) => (
+            <li key={session.id} className="flex items-center justify-between py-3">
+              <div>
+                <p className="font-medium text-gray-900">
+                  {describeDevice(session)}
+                  {session.current && (
+                    <span className="ml-2 px-2 py-0.5 text-xs rounded-full bg-green-100 text-green-800">
+                      This device
+                    </span>
+                  )}
+                </p>
+                <p className="text-sm text-gray-500">
+                  {session.ipAddress ? `${session.ipAddress} · ` : ""}
+                  Last active {new Date(session.lastUsedAt).toLocaleString()}
+                </p>
+              </div>
+              {!session.current && (
+                <button
+                  onClick={() => handleRevoke(session.id)}
+                  disabled={busyId !== null}
+                  className="text-sm text-red-600 hover:text-red-700 font-medium disabled:opacity-50"
+                >
+                  {busyId === session.id ? "Signing out..." : "Sign out"}
+                </button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </motion.div>
+  );
+}
@@ -2,10 +2,29 @@
 
 import { motion } from "framer-motion";
 import { format } from "date-fns";
-import { useState, useEffect } from "react";
+import { FormEvent, useState, useEffect } from "react";
 import { useAuth } from "@/lib/auth/auth-context";
 import CoachJournalForm from "@/components/journal/CoachJournalForm";
 import { getLatestJournalEntryForPlayer, JournalEntry } from "@/lib/api/journal-api";
+import {
+  CheckInCode,
+  getCheckInCode,
+  invitePartners,
+  ParticipantStatus,
+  removePartner,
+  Reservation,
+  ReservationParticipant,
+  ReservationStatus,
+  respondToPartnerInvite,
+} from "@/lib/api/booking-api";
+
+const MAX_PARTNERS = 3;
+
+const PARTNER_STATUS_STYLES: Record<ParticipantStatus, string> = {
+  invited: "bg-yellow-100 text-yellow-800",
+  accepted: "bg-green-100 text-green-700",
+  declined: "bg-gray-100 text-gray-600",
+};
 
 interface BookingCardProps {
   reservation: {
@@ -17,10 +36,12 @@ interface BookingCardProps {
       end: string;
     };
     memberId?: string;
-    status: "confirmed" | "cancelled";
-    paymentStatus?: "pending" | "paid" | "refunded" | "failed";
+    status: ReservationStatus;
+    paymentStatus?: "pending" | "paid" | "refunded" | "failed" | "disputed";
     paymentAmount?: number;
     createdAt: string;
+    participants?: ReservationParticipant[];
+    splitPayment?: boolean;
   };
   onCancel?: (id: string) => void;
   isCancelling?: boolean;
@@ -48,9 +69,25 @@ export default function BookingCard({
   const [lastJournalEntry, setLastJournalEntry] = useState<JournalEntry | null>(null);
   const [showJournalPreview, setShowJournalPreview] = useState(false);
   const [loadingJournal, setLoadingJournal] = useState(false);
+  const [checkInCode, setCheckInCode] = useState<CheckInCode | null>(null);
+  const [checkInError, setCheckInError] = useState<string | null>(null);
+  const [participants, setParticipants] = useState<ReservationParticipant[]>(
+    reservation.participants || []
+  );
+  const [partnerEmail, setPartnerEmail] = useState("");
+  const [partnerError, setPartnerError] = useState<string | null>(null);
+  const [isUpdatingPartners, setIsUpdatingPartners] = useState(false);
   const bookingStart = new Date(`${reservation.date}T${reservation.timeSlot?.start ?? "00:00"}`);
   const isUpcoming = bookingStart >= new Date();
   const isCancelled = reservation.status === "cancelled";
+  const isNoShow = reservation.status === "no_show";
+  const isToday = reservation.date === format(new Date(), "yyyy-MM-dd");
+  const canShowCheckInCode =
+    reservation.status === "confirmed" && isToday && user?.id === reservation.memberId;
+  // Partners see the booking too, but only the booker manages it
+  const myInvite = participants.find((p) => p.memberId && p.memberId === user?.id);
+  const canManagePartners = !myInvite && isUpcoming && reservation.status === "confirmed";
+  const playingPartners = participants.filter((p) => p.status !== "declined").length;
   const showConfirm = confirmCancelId === reservation.id;
   const useInlineConfirm = Boolean(onCancelClick && onKeep && onConfirmCancel);
   const isCoach = user?.role === "coach" || user?.role === "admin";
@@ -94,6 +131,57 @@ export default function BookingCard({
     }
   };
 
+  const toggleCheckInCode = async () => {
+    if (checkInCode) {
+      setCheckInCode(null);
+      return;
+    }
+    if (!token) return;
+    setCheckInError(null);
+    try {
+      setCheckInCode(await getCheckInCode(reservation.id, token));
+    } catch (error: any) {
+      setCheckInError(error.message || "Failed to load check-in code");
+    }
+  };
+
+  const updatePartners = async (action: (token: string) => Promise<Reservation>) => {
+    if (!token) return false;
+    setIsUpdatingPartners(true);
+    setPartnerError(null);
+    try {
+      const updated = await action(token);
+      setParticipants(updated.participants || []);
+      return true;
+    } catch (error: any) {
+      setPartnerError(error.message || "Failed to update partners");
+      return false;
+    } finally {
+      setIsUpdatingPartners(false);
+    }
+  };
+
+  const handleInvitePartner = async (event: FormEvent) => {
+    event.preventDefault();
+    const email = partnerEmail.trim();
+    if (!email) return;
+    if (await updatePartners((token) => invitePartners(reservation.id, [{ email }], token))) {
+      setPartnerEmail("");
+    }
+  };
+
+  const statusLabel = isCancelled
+    ? "Cancelled"
+    : isNoShow
+    ? "No-show"
+    : reservation.status === "checked_in"
+    ? "Checked in"
+    : reservation.status === "completed"
+    ? "Completed"
+    : isUpcoming
+    ? "Upcoming"
+    : "Past";
+
   const handleCancelClick = () => {
     if (useInlineConfirm && onCancelClick) {
       onCancelClick(reservation.id);
@@ -106,7 +194,7 @@ export default function BookingCard({
     <motion.div
       initial={{ opacity: 0, y: 10 }}
       animate={{ opacity: 1, y: 0 }}
-      className={`card ${isCancelled ? "opacity-60" : ""}`}
+      className={`card ${isCancelled || isNoShow ? "opacity-60" : ""}`}
     >
       <div className="flex items-start justify-between">
         <div className="flex-1">
@@ -116,12 +204,14 @@ export default function BookingCard({
               className={`px-2 py-1 text-xs font-semibold rounded-full ${
                 isCancelled
                   ? "bg-gray-100 text-gray-600"
+                  : isNoShow
+                  ? "bg-red-100 text-red-700"
                   : isUpcoming
                   ? "bg-green-100 text-green-700"
                   : "bg-primary-100 text-primary-700"
               }`}
             >
-              {isCancelled ? "Cancelled" : isUpcoming ? "Upcoming" : "Past"}
+              {statusLabel}
             </span>
           </div>
 
@@ -164,8 +254,19 @@ export default function BookingCard({
             </button>
           )}
 
+          {/* Check-in QR code (the member's own bookings, on the day) */}
+          {canShowCheckInCode && (
+            <button
+              type="button"
+              onClick={toggleCheckInCode}
+              className="px-4 py-2 text-sm font-medium text-green-700 hover:bg-green-50 rounded-lg transition-colors"
+            >
+              {checkInCode ? "✕ Hide check-in code" : "📱 Check-in code"}
+            </button>
+          )}
+
           {/* Cancel Button (Upcoming only) */}
-          {isUpcoming && !isCancelled && (onCancel || onConfirmCancel) && (
+          {isUpcoming && !isCancelled && !myInvite && (onCancel || onConfirmCancel) && (
             <>
               {showConfirm ? (
                 <>
@@ -207,6 +308,109 @@ export default function BookingCard({
         </div>
       </div>
 
+      {/* Doubles partners */}
+      {!isCancelled && (participants.length > 0 || canManagePartners) && (
+        <div className="mt-4 pt-4 border-t border-gray-200 space-y-2 text-sm">
+          <p className="font-medium text-gray-700">
+            👥 Partners
+            {reservation.splitPayment && (
+              <span className="ml-2 text-xs font-normal text-gray-500">Court fee is split</span>
+            )}
+          </p>
+          {participants.map((participant) => (
+            <div key={participant.id} className="flex items-center justify-between">
+              <span className="text-gray-600">{participant.name || participant.email}</span>
+              <div className="flex items-center gap-2">
+                <span
+                  className={`px-2 py-0.5 text-xs font-semibold rounded-full capitalize ${
+                    PARTNER_STATUS_STYLES[participant.status]
+                  }`}
+                >
+                  {participant.status}
+                </span>
+                {canManagePartners && (
+                  <button
+                    type="button"
+                    onClick={() =>
+                      updatePartners((token) => removePartner(reservation.id, participant.id, token))
+                    }
+                    disabled={isUpdatingPartners}
+                    className="text-xs text-red-600 hover:text-red-700 disabled:opacity-50"
+                  >
+                    Remove
+                  </button>
+                )}
+              </div>
+            </div>
+          ))}
+
+          {/* The signed-in member's own invitation */}
+          {myInvite?.status === "invited" && isUpcoming && (
+            <div className="flex items-center gap-2 pt-1">
+              <span className="text-gray-700">You're invited to play.</span>
+              <button
+                type="button"
+                onClick={() =>
+                  updatePartners((token) =>
+                    respondToPartnerInvite(reservation.id, myInvite.id, true, { token })
+                  )
+                }
+                disabled={isUpdatingPartners}
+                className="px-3 py-1 text-sm font-medium text-green-700 hover:bg-green-50 rounded-lg disabled:opacity-50"
+              >
+                Accept
+              </button>
+              <button
+                type="button"
+                onClick={() =>
+                  updatePartners((token) =>
+                    respondToPartnerInvite(reservation.id, myInvite.id, false, { token })
+                  )
+                }
+                disabled={isUpdatingPartners}
+                className="px-3 py-1 text-sm font-medium text-gray-600 hover:bg-gray-100 rounded-lg disabled:opacity-50"
+              >
+                Decline
+              </button>
+            </div>
+          )}
+
+          {canManagePartners && playingPartners < MAX_PARTNERS && (
+            <form onSubmit={handleInvitePartner} className="flex gap-2 pt-1">
+              <input
+                type="email"
+                value={partnerEmail}
+                onChange={(event) => setPartnerEmail(event.target.value)}
+                placeholder="Partner's email"
+                className="flex-1 rounded-lg border border-gray-200 px-3 py-1.5 text-sm"
+              />
+              <button
+                type="submit"
+                disabled={isUpdatingPartners || !partnerEmail.trim()}
+                className="px-3 py-1.5 text-sm font-medium text-primary-600 hover:bg-primary-50 rounded-lg disabled:opacity-50"
+              >
+                Invite
+              </button>
+            </form>
+          )}
+          {partnerError && <p className="text-red-600">{partnerError}</p>}
+        </div>
+      )}
+
+      {/* Check-in QR code */}
+      {(checkInCode || checkInError) && (
+        <div className="mt-4 pt-4 border-t border-gray-200 flex flex-col items-center gap-2">
+          {checkInCode ? (
+            <>
+              <img src={checkInCode.qrCode} alt="Check-in QR code" className="w-40 h-40" />
+              <p className="text-xs text-gray-500">Scan at the front desk when you arrive</p>
+            </>
+          ) : (
+            <p className="text-sm text-red-600">{checkInError}</p>
+          )}
+        </div>
+      )}
+
       {/* Last Journal Entry Preview */}
       {!isCancelled && lastJournalEntry && !showJournalForm && (
         <div className="mt-4 pt-4 border-t border-gray-200">
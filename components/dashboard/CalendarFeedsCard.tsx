@@ -0,0 +1,111 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { motion } from "framer-motion";
+import { CalendarFeeds, getCalendarFeeds, resetCalendarFeeds } from "../../lib/api/calendar-api";
+
+interface CalendarFeedsCardProps {
+  token: string;
+}
+
+/**
+ * Subscription links for Google Calendar, Apple Calendar, Outlook, etc.
+ */
+export default function CalendarFeedsCard({ token }: CalendarFeedsCardProps) {
+  const [feeds, setFeeds] = useState<CalendarFeeds | null>(null);
+  const [copied, setCopied] = useState<string | null>(null);
+  const [isResetting, setIsResetting] = useState(false);
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    getCalendarFeeds(token)
+      .then(setFeeds)
+      .catch((err: unknown) =>
+        setError(err instanceof Error ? err.message : "Failed to load calendar feeds")
+      );
+  }, [token]);
+
+  const handleCopy = async (url: string) => {
+    try {
+      await navigator.clipboard.writeText(url);
+      setCopied(url);
+    } catch {
+      setError("Couldn't copy the link. Select it and copy it instead.");
+    }
+  };
+
+  const handleReset = async () => {
+    if (!confirm("Calendars subscribed to your current links will stop updating. Continue?")) return;
+
+    try {
+      setIsResetting(true);
+      setError("");
+      setFeeds(await resetCalendarFeeds(token));
+      setCopied(null);
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : "Failed to reset calendar feeds");
+    } finally {
+      setIsResetting(false);
+    }
+  };
+
+  const links = feeds
+    ? [
+        { label: "My bookings, lessons and programs", url: feeds.bookings },
+        ...(feeds.coaching ? [{ label: "Lessons and programs I coach", url: feeds.coaching }] : []),
+        ...(feeds.courts || []).map((court) => ({ label: court.courtName, url: court.url })),
+      ]
+    : [];
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="card"
+    >
+      <div className="flex items-center justify-between mb-2">
+        <h2 className="text-2xl font-bold">
+          <span className="gradient-text">Calendar Feeds</span>
+        </h2>
+        <button
+          onClick={handleReset}
+          disabled={!feeds || isResetting}
+          className="btn-secondary text-sm disabled:opacity-50"
+        >
+          {isResetting ? "Resetting..." : "Reset links"}
+        </button>
+      </div>
+      <p className="text-sm text-gray-600 mb-6">
+        Subscribe to these links in your calendar app to see your court time there. Keep them
+        private: anyone with a link can see that calendar.
+      </p>
+
+      {error && (
+        <div className="mb-4 p-4 bg-red-50 border border-red-200 rounded-lg text-red-700">
+          {error}
+        </div>
+      )}
+
+      {!feeds ? (
+        !error && <p className="text-gray-600">Loading calendar feeds...</p>
+      ) : (
+        <ul className="divide-y divide-gray-100">
+          {links.map((link) => (
+            <li key={link.url} className="flex items-center justify-between gap-4 py-3">
+              <div className="min-w-0">
+                <p className="font-medium text-gray-900">{link.label}</p>
+                <p className="text-sm text-gray-500 truncate">{link.url}</p>
+              </div>
+              <button
+                onClick={() => handleCopy(link.url)}
+                className="text-sm text-primary-600 hover:text-primary-700 font-medium shrink-0"
+              >
+                {copied === link.url ? "Copied" : "Copy link"}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </motion.div>
+  );
+}
@@ -0,0 +1,289 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { format } from "date-fns";
+import { useAuth } from "../../lib/auth/auth-context";
+import {
+  addCoachTimeOff,
+  CoachHours,
+  CoachSchedule,
+  CoachTimeOffInput,
+  getCoachAvailability,
+  removeCoachTimeOff,
+  setCoachWeeklyHours,
+  Weekday,
+} from "../../lib/api/lesson-api";
+
+interface CoachAvailabilityEditorProps {
+  coachId: string;
+}
+
+const WEEKDAYS: Weekday[] = [
+  "monday",
+  "tuesday",
+  "wednesday",
+  "thursday",
+  "friday",
+  "saturday",
+  "sunday",
+];
+
+const emptyTimeOff = (): CoachTimeOffInput => ({
+  startDate: format(new Date(), "yyyy-MM-dd"),
+  endDate: "",
+  startTime: "",
+  endTime: "",
+  reason: "",
+});
+
+/**
+ * Lets a coach (or an admin) set weekly teaching hours and block out time off
+ */
+export default function CoachAvailabilityEditor({ coachId }: CoachAvailabilityEditorProps) {
+  const { token } = useAuth();
+  const [schedule, setSchedule] = useState<CoachSchedule | null>(null);
+  const [hours, setHours] = useState<Partial<Record<Weekday, CoachHours[]>>>({});
+  const [timeOff, setTimeOff] = useState<CoachTimeOffInput>(emptyTimeOff);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState("");
+  const [message, setMessage] = useState("");
+
+  useEffect(() => {
+    if (!token) return;
+    getCoachAvailability(coachId, token)
+      .then((data) => {
+        setSchedule(data);
+        setHours(data.weeklyHours);
+      })
+      .catch((err: unknown) =>
+        setError(err instanceof Error ? err.message : "Failed to load availability")
+      );
+  }, [token, coachId]);
+
+  const updateWindow = (day: Weekday, index: number, field: keyof CoachHours, value: string) => {
+    setHours((prev) => ({
+      ...prev,
+      [day]: (prev[day] || []).map((window, i) => (i === index ? { ...window, [field]: value } : window)),
+    }));
+  };
+
+  const addWindow = (day: Weekday) => {
+    setHours((prev) => ({ ...prev, [day]: [...(prev[day] || []), { start: "09:00", end: "12:00" }] }));
+  };
+
+  const removeWindow = (day: Weekday, index: number) => {
+    setHours((prev) => ({ ...prev, [day]: (prev[day] || []).filter((_, i) => i !== index) }));
+  };
+
+  const handleSaveHours = async () => {
+    if (!token) return;
+    try {
+      setIsSaving(true);
+      setError("");
+      setMessage("");
+      const saved = await setCoachWeeklyHours(coachId, hours, token);
+      setSchedule(saved);
+      setHours(saved.weeklyHours);
+      setMessage("Weekly hours saved.");
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : "Failed to save weekly hours");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleAddTimeOff = async () => {
+    if (!token) return;
+    try {
+      setIsSaving(true);
+      setError("");
+      setMessage("");
+      const result = await addCoachTimeOff(
+        coachId,
+        {
+          startDate: timeOff.startDate,
+          endDate: timeOff.endDate || undefined,
+          startTime: timeOff.startTime || undefined,
+          endTime: timeOff.endTime || undefined,
+          reason: timeOff.reason || undefined,
+        },
+        token
+      );
+      setSchedule((prev) => (prev ? { ...prev, timeOff: [...prev.timeOff, result.timeOff] } : prev));
+      setTimeOff(emptyTimeOff());
+      setMessage(
+        result.affectedLessons.length > 0
+          ? `Time off added. ${result.affectedLessons.length} booked lesson(s) fall inside it and need to be moved.`
+          : "Time off added."
+      );
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : "Failed to add time off");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRemoveTimeOff = async (timeOffId: string) => {
+    if (!token) return;
+    try {
+      setError("");
+      await removeCoachTimeOff(coachId, timeOffId, token);
+      setSchedule((prev) =>
+        prev ? { ...prev, timeOff: prev.timeOff.filter((t) => t.id !== timeOffId) } : prev
+      );
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : "Failed to remove time off");
+    }
+  };
+
+  if (!schedule) {
+    return error ? (
+      <div className="p-4 bg-red-50 border border-red-200 rounded-lg text-red-700">{error}</div>
+    ) : null;
+  }
+
+  return (
+    <div className="space-y-6">
+      {error && (
+        <div className="p-4 bg-red-50 border border-red-200 rounded-lg text-red-700">{error}</div>
+      )}
+      {message && (
+        <div className="p-4 bg-green-50 border border-green-200 rounded-lg text-green-700">
+          {message}
+        </div>
+      )}
+
+      <div className="card space-y-4">
+        <h2 className="text-xl font-bold">Weekly Teaching Hours</h2>
+        <div className="space-y-3">
+          {WEEKDAYS.map((day) => (
+            <div key={day} className="flex flex-col md:flex-row md:items-center gap-2">
+              <span className="w-28 text-sm font-semibold capitalize">{day}</span>
+              <div className="flex flex-wrap items-center gap-2">
+                {(hours[day] || []).length === 0 && (
+                  <span className="text-sm text-gray-500">Not teaching</span>
+                )}
+                {(hours[day] || []).map((window, index) => (
+                  <div key={index} className="flex items-center gap-1">
+                    <input
+                      type="time"
+                      value={window.start}
+                      onChange={(event) => updateWindow(day, index, "start", event.target.value)}
+                      className="rounded-lg border border-gray-200 px-2 py-1 text-sm"
+                    />
+                    <span className="text-gray-500">-</span>
+                    <input
+                      type="time"
+                      value={window.end}
+                      onChange={(event) => updateWindow(day, index, "end", event.target.value)}
+                      className="rounded-lg border border-gray-200 px-2 py-1 text-sm"
+                    />
+                    <button
+                      type="button"
+                      onClick={() => removeWindow(day, index)}
+                      className="text-red-600 hover:text-red-700 text-sm px-1"
+                      aria-label={`Remove ${day} hours`}
+                    >
+                      ✕
+                    </button>
+                  </div>
+                ))}
+                <button
+                  type="button"
+                  onClick={() => addWindow(day)}
+                  className="text-primary-600 hover:text-primary-700 text-sm font-medium"
+                >
+                  + Add hours
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+        <div className="flex justify-end">
+          <button className="btn-primary" onClick={handleSaveHours} disabled={isSaving}>
+            {isSaving ? "Saving..." : "Save Hours"}
+          </button>
+        </div>
+      </div>
+
+      <div className="card space-y-4">
+        <h2 className="text-xl font-bold">Time Off</h2>
+        <div className="grid grid-cols-1 md:grid-cols-5 gap-3">
+          <div>
+            <label className="text-sm text-gray-600">From</label>
+            <input
+              type="date"
+              value={timeOff.startDate}
+              onChange={(event) => setTimeOff((prev) => ({ ...prev, startDate: event.target.value }))}
+              className="mt-1 w-full rounded-lg border border-gray-200 px-3 py-2 text-sm"
+            />
+          </div>
+          <div>
+            <label className="text-sm text-gray-600">Until (optional)</label>
+            <input
+              type="date"
+              value={timeOff.endDate}
+              onChange={(event) => setTimeOff((prev) => ({ ...prev, endDate: event.target.value }))}
+              className="mt-1 w-full rounded-lg border border-gray-200 px-3 py-2 text-sm"
+            />
+          </div>
+          <div>
+            <label className="text-sm text-gray-600">Start time (optional)</label>
+            <input
+              type="time"
+              value={timeOff.startTime}
+              onChange={(event) => setTimeOff((prev) => ({ ...prev, startTime: event.target.value }))}
+              className="mt-1 w-full rounded-lg border border-gray-200 px-3 py-2 text-sm"
+            />
+          </div>
+          <div>
+            <label className="text-sm text-gray-600">End time (optional)</label>
+            <input
+              type="time"
+              value={timeOff.endTime}
+              onChange={(event) => setTimeOff((prev) => ({ ...prev, endTime: event.target.value }))}
+              className="mt-1 w-full rounded-lg border border-gray-200 px-3 py-2 text-sm"
+            />
+          </div>
+          <div>
+            <label className="text-sm text-gray-600">Reason</label>
+            <input
+              type="text"
+              value={timeOff.reason}
+              onChange={(event) => setTimeOff((prev) => ({ ...prev, reason: event.target.value }))}
+              placeholder="Vacation"
+              className="mt-1 w-full rounded-lg border border-gray-200 px-3 py-2 text-sm"
+            />
+          </div>
+        </div>
+        <div className="flex justify-end">
+          <button className="btn-secondary" onClick={handleAddTimeOff} disabled={isSaving}>
+            Add Time Off
+          </button>
+        </div>
+
+        {schedule.timeOff.length > 0 && (
+          <ul className="divide-y">
+            {schedule.timeOff.map((entry) => (
+              <li key={entry.id} className="py-2 flex items-center justify-between text-sm">
+                <span>
+                  {entry.startDate === entry.endDate
+                    ? entry.startDate
+                    : `${entry.startDate} to ${entry.endDate}`}
+                  {entry.startTime && entry.endTime ? ` · ${entry.startTime}-${entry.endTime}` : " · All day"}
+                  {entry.reason ? ` · ${entry.reason}` : ""}
+                </span>
+                <button
+                  className="text-red-600 hover:text-red-700 font-medium"
+                  onClick={() => handleRemoveTimeOff(entry.id)}
+                >
+                  Remove
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
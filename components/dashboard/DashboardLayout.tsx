@@ -17,16 +17,25 @@ export default function DashboardLayout({ children }: DashboardLayoutProps) {
   const baseNavItems = [
     { name: "Overview", href: "/dashboard", icon: "📊" },
     { name: "Book a Court", href: "/dashboard/book", icon: "🎾" },
+    { name: user?.role === "coach" ? "My Lessons" : "Lessons", href: "/dashboard/lessons", icon: "🎓" },
+    { name: "Programs", href: "/dashboard/programs", icon: "🏫" },
     { name: "Profile", href: "/dashboard/profile", icon: "👤" },
     { name: "Bookings", href: "/dashboard/bookings", icon: "📅" },
+    { name: "Waitlist", href: "/dashboard/waitlist", icon: "⏳" },
     { name: "Payments", href: "/dashboard/payments", icon: "💳" },
+    { name: "Membership", href: "/dashboard/membership", icon: "🏅" },
     { name: "Journal", href: "/dashboard/journal", icon: "📝" },
+    ...(user?.role === "parent" || user?.role === "player"
+      ? [{ name: "Family", href: "/dashboard/family", icon: "👨‍👩‍👧" }]
+      : []),
   ];
   const navItems =
     user?.role === "admin"
       ? [
           ...baseNavItems,
           { name: "Admin Bookings", href: "/dashboard/admin/bookings", icon: "🛠️" },
+          { name: "Courts", href: "/dashboard/admin/courts", icon: "🏟️" },
+          { name: "Members", href: "/dashboard/admin/members", icon: "👥" },
         ]
       : baseNavItems;
 
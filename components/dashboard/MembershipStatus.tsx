@@ -1,6 +1,11 @@
 "use client";
 
+import { useEffect, useState } from "react";
+import Link from "next/link";
 import { motion } from "framer-motion";
+import { format } from "date-fns";
+import { useAuth } from "../../lib/auth/auth-context";
+import { getMySubscription, MembershipSummary } from "../../lib/api/membership-api";
 
 interface MembershipStatusProps {
   memberId: string;
@@ -8,11 +13,35 @@ interface MembershipStatusProps {
   role?: string;
 }
 
+const SUBSCRIPTION_STATUS_LABELS: Record<string, { label: string; className: string }> = {
+  trialing: { label: "Trial", className: "bg-blue-100 text-blue-700" },
+  active: { label: "Active", className: "bg-green-100 text-green-700" },
+  past_due: { label: "Payment Due", className: "bg-yellow-100 text-yellow-700" },
+  canceled: { label: "Canceled", className: "bg-gray-100 text-gray-700" },
+};
+
 export default function MembershipStatus({
   memberId,
   isActive = true,
   role,
 }: MembershipStatusProps) {
+  const { token } = useAuth();
+  const [membership, setMembership] = useState<MembershipSummary | null>(null);
+
+  useEffect(() => {
+    if (!token) return;
+    getMySubscription(token)
+      .then(setMembership)
+      .catch(() => setMembership(null));
+  }, [token, memberId]);
+
+  const subscription = membership?.subscription;
+  const entitlements = membership?.entitlements;
+  const status = subscription ? SUBSCRIPTION_STATUS_LABELS[subscription.status] : null;
+  const planName =
+    membership?.plan?.name ??
+    (entitlements?.coveredBy ? `${entitlements.planName} (family)` : "None");
+
   return (
     <motion.div
       initial={{ opacity: 0, scale: 0.95 }}
@@ -37,6 +66,37 @@ export default function MembershipStatus({
           <span className="text-gray-600">Role</span>
           <span className="font-semibold text-primary-600 capitalize">{role || "Player"}</span>
         </div>
+        <div className="flex items-center justify-between">
+          <span className="text-gray-600">Plan</span>
+          <span className="font-semibold">{planName}</span>
+        </div>
+        {subscription && status && (
+          <>
+            <div className="flex items-center justify-between">
+              <span className="text-gray-600">Billing</span>
+              <span className={`px-3 py-1 rounded-full text-sm font-semibold ${status.className}`}>
+                {status.label}
+              </span>
+            </div>
+            <div className="flex items-center justify-between">
+              <span className="text-gray-600">
+                {subscription.cancelAtPeriodEnd ? "Ends" : "Renews"}
+              </span>
+              <span className="font-semibold">
+                {format(new Date(subscription.currentPeriodEnd), "MMM d, yyyy")}
+              </span>
+            </div>
+          </>
+        )}
+        {entitlements && (
+          <p className="text-sm text-gray-600">
+            Book up to {entitlements.bookingWindowDays} days ahead with{" "}
+            {Math.round(entitlements.courtDiscount * 100)}% off court time.
+          </p>
+        )}
+        <Link href="/dashboard/membership" className="btn-secondary block text-center text-sm">
+          {subscription ? "Manage Membership" : "View Plans"}
+        </Link>
       </div>
     </motion.div>
   );
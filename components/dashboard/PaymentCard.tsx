@@ -6,10 +6,10 @@ import { format } from "date-fns";
 interface PaymentCardProps {
   payment: {
     id: string;
-    type: "court_booking" | "membership" | "other";
+    type: "court_booking" | "membership" | "program" | "other";
     amount: number;
     currency: string;
-    status: "pending" | "paid" | "refunded" | "failed" | "cancelled";
+    status: "pending" | "paid" | "refunded" | "failed" | "cancelled" | "disputed";
     description?: string;
     createdAt: string;
     paidAt?: string;
@@ -45,6 +45,7 @@ export default function PaymentCard({ payment, onViewInvoice }: PaymentCardProps
         return "bg-primary-100 text-primary-700";
       case "failed":
       case "cancelled":
+      case "disputed":
         return "bg-red-100 text-red-700";
       default:
         return "bg-gray-100 text-gray-700";
@@ -57,6 +58,8 @@ export default function PaymentCard({ payment, onViewInvoice }: PaymentCardProps
         return "Court Booking";
       case "membership":
         return "Membership";
+      case "program":
+        return "Program";
       default:
         return "Other";
     }
@@ -37,7 +37,11 @@ export default function ProfileCard({ member, onUpdate, isUpdating = false }: Pr
     setError("");
 
     try {
-      await onUpdate(formData);
+      // Only send the date of birth when it changes (linked players can't change it)
+      const { dateOfBirth, ...updates } = formData;
+      await onUpdate(
+        dateOfBirth !== (member.dateOfBirth || "") ? { ...updates, dateOfBirth } : updates
+      );
       setIsEditing(false);
     } catch (err: any) {
       setError(err.message || "Failed to update profile");
@@ -0,0 +1,113 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { format } from "date-fns";
+import { useAuth } from "../../lib/auth/auth-context";
+import {
+  AttendanceMark,
+  getProgramRoster,
+  ProgramListing,
+  ProgramRoster,
+  recordAttendance,
+} from "../../lib/api/program-api";
+
+interface ProgramRosterCardProps {
+  program: ProgramListing;
+}
+
+/**
+ * Class roster for a coach's program, with attendance for one session at a time
+ */
+export default function ProgramRosterCard({ program }: ProgramRosterCardProps) {
+  const { token } = useAuth();
+  const [roster, setRoster] = useState<ProgramRoster | null>(null);
+  const [sessionId, setSessionId] = useState(program.sessions[0]?.id ?? "");
+  const [savingId, setSavingId] = useState<string | null>(null);
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    if (!token) return;
+    getProgramRoster(program.id, token)
+      .then(setRoster)
+      .catch((err: unknown) => setError(err instanceof Error ? err.message : "Failed to load roster"));
+  }, [program.id, token]);
+
+  const handleMark = async (enrollmentId: string, mark: AttendanceMark) => {
+    if (!token || !sessionId) return;
+    try {
+      setSavingId(enrollmentId);
+      setError("");
+      setRoster(await recordAttendance(program.id, sessionId, { [enrollmentId]: mark }, token));
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : "Failed to save attendance");
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  return (
+    <div className="card space-y-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <h3 className="text-lg font-bold">{program.name}</h3>
+          <p className="text-sm text-gray-500">
+            {program.enrolledCount}/{program.capacity} enrolled · {program.waitlistCount} waitlisted
+          </p>
+        </div>
+        <select
+          value={sessionId}
+          onChange={(event) => setSessionId(event.target.value)}
+          className="rounded-lg border border-gray-200 px-3 py-2 text-sm"
+        >
+          {program.sessions.map((session) => (
+            <option key={session.id} value={session.id}>
+              {format(new Date(`${session.date}T00:00`), "EEE, MMM d")} · {session.start}-{session.end}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      {!roster ? (
+        <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary-600 mx-auto" />
+      ) : roster.enrolled.length === 0 ? (
+        <p className="text-gray-600 text-sm">Nobody has enrolled yet.</p>
+      ) : (
+        <ul className="divide-y">
+          {roster.enrolled.map((entry) => {
+            const mark = entry.attendance[sessionId];
+            return (
+              <li key={entry.enrollmentId} className="py-2 flex items-center justify-between text-sm">
+                <span>
+                  {entry.firstName} {entry.lastName}
+                  {entry.paymentStatus !== "paid" && (
+                    <span className="ml-2 text-xs text-yellow-700">Unpaid</span>
+                  )}
+                </span>
+                <span className="space-x-2">
+                  {(["present", "absent"] as AttendanceMark[]).map((option) => (
+                    <button
+                      key={option}
+                      className={mark === option ? "btn-primary text-xs" : "btn-secondary text-xs"}
+                      disabled={savingId === entry.enrollmentId}
+                      onClick={() => handleMark(entry.enrollmentId, option)}
+                    >
+                      {option === "present" ? "Present" : "Absent"}
+                    </button>
+                  ))}
+                </span>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      {roster && roster.waitlisted.length > 0 && (
+        <p className="text-sm text-gray-500">
+          Waitlist: {roster.waitlisted.map((entry) => `${entry.firstName} ${entry.lastName}`).join(", ")}
+        </p>
+      )}
+    </div>
+  );
+}
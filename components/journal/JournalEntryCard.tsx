@@ -73,6 +73,11 @@ export default function JournalEntryCard({ entry, userRole, onUpdate }: JournalE
             {entry.sessionTime && ` at ${entry.sessionTime}`}
           </p>
         </div>
+        {entry.draft && (
+          <span className="px-2 py-1 bg-gray-100 text-gray-700 rounded-full text-xs font-medium">
+            Draft · write up after the lesson
+          </span>
+        )}
       </div>
 
       <div className="mb-4">
@@ -2,6 +2,8 @@
  * Admin booking (reservation) API client functions
  */
 
+import { ReservationStatus } from "./booking-api";
+
 const API_BASE_URL = process.env.NEXT_PUBLIC_API_BASE_URL || "http://localhost:8080";
 
 export interface AdminReservation {
@@ -19,10 +21,14 @@ export interface AdminReservation {
   guestPhone?: string;
   notes?: string;
   createdAt: string;
-  status: "confirmed" | "cancelled";
+  status: ReservationStatus;
   paymentId?: string;
-  paymentStatus?: "pending" | "paid" | "refunded" | "failed";
+  paymentStatus?: "pending" | "paid" | "refunded" | "failed" | "disputed";
   paymentAmount?: number;
+  seriesId?: string;
+  checkedInAt?: string;
+  checkInMethod?: "front_desk" | "qr";
+  noShowAt?: string;
   contactName?: string;
   contactEmail?: string;
   member?: {
@@ -44,11 +50,54 @@ export interface Court {
 export interface AdminReservationFilters {
   dateFrom?: string;
   dateTo?: string;
-  status?: "confirmed" | "cancelled";
+  status?: ReservationStatus;
   courtId?: string;
   search?: string;
 }
 
+export type CancelScope = "single" | "following" | "all";
+
+export interface ReservationSeriesInput {
+  courtId: string;
+  startDate: string;
+  timeSlot: {
+    start: string;
+    end: string;
+  };
+  rrule: string;
+  memberId?: string;
+  guestName?: string;
+  guestEmail?: string;
+  guestPhone?: string;
+  notes?: string;
+}
+
+export interface ReservationSeries extends ReservationSeriesInput {
+  id: string;
+  courtName: string;
+  status: "active" | "cancelled";
+  cancelledFrom?: string;
+  createdAt: string;
+}
+
+export interface SeriesOccurrence {
+  date: string;
+  status: "available" | "created" | "conflict";
+  reservationId?: string;
+  reason?: string;
+}
+
+export interface FrontDeskLookup {
+  member: {
+    id: string;
+    memberNumber: string;
+    firstName: string;
+    lastName: string;
+    email: string;
+  };
+  reservations: AdminReservation[]; // Today's confirmed and checked-in reservations
+}
+
 interface ApiError {
   error: string;
   code?: string;
@@ -96,7 +145,7 @@ export async function updateAdminReservation(
     courtId: string;
     timeSlot: { start: string; end: string };
     notes: string;
-    status: "confirmed" | "cancelled";
+    status: ReservationStatus;
   }>,
   token: string
 ): Promise<AdminReservation> {
@@ -119,9 +168,11 @@ export async function updateAdminReservation(
 
 export async function cancelAdminReservation(
   id: string,
-  token: string
+  token: string,
+  scope: CancelScope = "single"
 ): Promise<void> {
-  const response = await fetch(`${API_BASE_URL}/api/admin/reservations/${id}`, {
+  const query = scope === "single" ? "" : `?scope=${scope}`;
+  const response = await fetch(`${API_BASE_URL}/api/admin/reservations/${id}${query}`, {
     method: "DELETE",
     headers: {
       Authorization: `Bearer ${token}`,
@@ -135,6 +186,90 @@ export async function cancelAdminReservation(
   }
 }
 
+export async function lookUpMemberForCheckIn(
+  memberNumber: string,
+  token: string
+): Promise<FrontDeskLookup> {
+  const query = new URLSearchParams({ memberNumber }).toString();
+  const response = await fetch(`${API_BASE_URL}/api/admin/check-in?${query}`, {
+    method: "GET",
+    headers: {
+      Authorization: `Bearer ${token}`,
+      "Content-Type": "application/json",
+    },
+  });
+
+  if (!response.ok) {
+    const error: ApiError = await response.json();
+    throw new Error(error.error || "Failed to look up member");
+  }
+
+  return response.json();
+}
+
+export async function checkInAdminReservation(
+  id: string,
+  token: string
+): Promise<AdminReservation> {
+  const response = await fetch(`${API_BASE_URL}/api/admin/reservations/${id}/check-in`, {
+    method: "POST",
+    headers: {
+      Authorization: `Bearer ${token}`,
+      "Content-Type": "application/json",
+    },
+  });
+
+  if (!response.ok) {
+    const error: ApiError = await response.json();
+    throw new Error(error.error || "Failed to check in");
+  }
+
+  return response.json();
+}
+
+export async function previewReservationSeries(
+  series: ReservationSeriesInput,
+  token: string
+): Promise<SeriesOccurrence[]> {
+  const response = await fetch(`${API_BASE_URL}/api/admin/reservations/series/preview`, {
+    method: "POST",
+    headers: {
+      Authorization: `Bearer ${token}`,
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify(series),
+  });
+
+  if (!response.ok) {
+    const error: ApiError = await response.json();
+    throw new Error(error.error || "Failed to preview series");
+  }
+
+  const data = await response.json();
+  return data.occurrences;
+}
+
+export async function createReservationSeries(
+  series: ReservationSeriesInput,
+  token: string
+): Promise<{ series: ReservationSeries; occurrences: SeriesOccurrence[] }> {
+  const response = await fetch(`${API_BASE_URL}/api/admin/reservations/series`, {
+    method: "POST",
+    headers: {
+      Authorization: `Bearer ${token}`,
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify(series),
+  });
+
+  if (!response.ok) {
+    const error: ApiError = await response.json();
+    throw new Error(error.error || "Failed to create series");
+  }
+
+  return response.json();
+}
+
 export async function getCourts(token: string): Promise<Court[]> {
   const response = await fetch(`${API_BASE_URL}/api/courts`, {
     method: "GET",
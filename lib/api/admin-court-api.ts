@@ -0,0 +1,227 @@
+/**
+ * Admin court management API client functions
+ */
+
+import { AdminReservation } from "./admin-booking-api";
+
+const API_BASE_URL = process.env.NEXT_PUBLIC_API_BASE_URL || "http://localhost:8080";
+
+export type CourtType = "clay" | "hard" | "indoor";
+
+export interface AdminCourt {
+  id: string;
+  name: string;
+  type: CourtType;
+  available: boolean;
+  lighting?: boolean;
+  environment?: "indoor" | "outdoor";
+  retired?: boolean;
+  retiredAt?: string;
+}
+
+export interface CourtInput {
+  name: string;
+  type: CourtType;
+  available?: boolean;
+  lighting?: boolean;
+  environment?: "indoor" | "outdoor";
+}
+
+interface ApiError {
+  error: string;
+  code?: string;
+}
+
+export async function getAdminCourts(token: string): Promise<AdminCourt[]> {
+  const response = await fetch(`${API_BASE_URL}/api/admin/courts`, {
+    method: "GET",
+    headers: {
+      Authorization: `Bearer ${token}`,
+      "Content-Type": "application/json",
+    },
+  });
+
+  if (!response.ok) {
+    const error: ApiError = await response.json();
+    throw new Error(error.error || "Failed to fetch courts");
+  }
+
+  return response.json();
+}
+
+export async function createCourt(
+  court: CourtInput,
+  token: string
+): Promise<AdminCourt> {
+  const response = await fetch(`${API_BASE_URL}/api/admin/courts`, {
+    method: "POST",
+    headers: {
+      Authorization: `Bearer ${token}`,
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify(court),
+  });
+
+  if (!response.ok) {
+    const error: ApiError = await response.json();
+    throw new Error(error.error || "Failed to create court");
+  }
+
+  return response.json();
+}
+
+export async function updateCourt(
+  id: string,
+  updates: Partial<CourtInput>,
+  token: string
+): Promise<AdminCourt> {
+  const response = await fetch(`${API_BASE_URL}/api/admin/courts/${id}`, {
+    method: "PATCH",
+    headers: {
+      Authorization: `Bearer ${token}`,
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify(updates),
+  });
+
+  if (!response.ok) {
+    const error: ApiError = await response.json();
+    throw new Error(error.error || "Failed to update court");
+  }
+
+  return response.json();
+}
+
+export async function getUpcomingCourtReservations(
+  id: string,
+  token: string
+): Promise<AdminReservation[]> {
+  const response = await fetch(
+    `${API_BASE_URL}/api/admin/courts/${id}/upcoming-reservations`,
+    {
+      method: "GET",
+      headers: {
+        Authorization: `Bearer ${token}`,
+        "Content-Type": "application/json",
+      },
+    }
+  );
+
+  if (!response.ok) {
+    const error: ApiError = await response.json();
+    throw new Error(error.error || "Failed to fetch upcoming reservations");
+  }
+
+  return response.json();
+}
+
+export async function retireCourt(
+  id: string,
+  token: string,
+  reassignToCourtId?: string
+): Promise<{ court: AdminCourt; reassigned: AdminReservation[] }> {
+  const response = await fetch(`${API_BASE_URL}/api/admin/courts/${id}/retire`, {
+    method: "POST",
+    headers: {
+      Authorization: `Bearer ${token}`,
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify(reassignToCourtId ? { reassignToCourtId } : {}),
+  });
+
+  if (!response.ok) {
+    const error: ApiError = await response.json();
+    throw new Error(error.error || "Failed to retire court");
+  }
+
+  return response.json();
+}
+
+export type ClosureKind = "maintenance" | "weather" | "tournament" | "program" | "other";
+
+export interface CourtClosure {
+  id: string;
+  courtId: string;
+  startDate: string;
+  endDate: string;
+  startTime?: string;
+  endTime?: string;
+  kind: ClosureKind;
+  reason: string;
+  createdAt: string;
+}
+
+export interface ClosureInput {
+  courtId: string;
+  startDate: string;
+  endDate?: string;
+  startTime?: string;
+  endTime?: string;
+  kind: ClosureKind;
+  reason: string;
+}
+
+export async function getClosures(
+  token: string,
+  filters?: { courtId?: string; from?: string; to?: string }
+): Promise<CourtClosure[]> {
+  const params = new URLSearchParams();
+  if (filters?.courtId) params.set("courtId", filters.courtId);
+  if (filters?.from) params.set("from", filters.from);
+  if (filters?.to) params.set("to", filters.to);
+  const query = params.toString();
+
+  const response = await fetch(
+    `${API_BASE_URL}/api/admin/closures${query ? `?${query}` : ""}`,
+    {
+      method: "GET",
+      headers: {
+        Authorization: `Bearer ${token}`,
+        "Content-Type": "application/json",
+      },
+    }
+  );
+
+  if (!response.ok) {
+    const error: ApiError = await response.json();
+    throw new Error(error.error || "Failed to fetch closures");
+  }
+
+  return response.json();
+}
+
+export async function createClosure(
+  closure: ClosureInput,
+  token: string
+): Promise<{ closure: CourtClosure; affectedReservations: AdminReservation[] }> {
+  const response = await fetch(`${API_BASE_URL}/api/admin/closures`, {
+    method: "POST",
+    headers: {
+      Authorization: `Bearer ${token}`,
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify(closure),
+  });
+
+  if (!response.ok) {
+    const error: ApiError = await response.json();
+    throw new Error(error.error || "Failed to create closure");
+  }
+
+  return response.json();
+}
+
+export async function deleteClosure(id: string, token: string): Promise<void> {
+  const response = await fetch(`${API_BASE_URL}/api/admin/closures/${id}`, {
+    method: "DELETE",
+    headers: {
+      Authorization: `Bearer ${token}`,
+      "Content-Type": "application/json",
+    },
+  });
+
+  if (!response.ok) {
+    const error: ApiError = await response.json();
+    throw new Error(error.error || "Failed to delete closure");
+  }
+}
@@ -0,0 +1,107 @@
+/**
+ * AI agent action API client functions (admin only)
+ */
+
+const API_BASE_URL = process.env.NEXT_PUBLIC_API_BASE_URL || "http://localhost:8080";
+
+export type AIActionType =
+  | "moveReservation"
+  | "cancelReservation"
+  | "overrideConflictAndMove"
+  | "createNewPlayer";
+
+export type AIActionStatus =
+  | "pending"
+  | "applying"
+  | "confirmed"
+  | "rejected"
+  | "expired"
+  | "failed";
+
+export interface AIActionChange {
+  entity: "reservation" | "member";
+  entityId?: string;
+  before: Record<string, string> | null;
+  after: Record<string, string>;
+}
+
+export interface AIAction {
+  id: string;
+  memberId: string;
+  agent: "admin" | "orchestrator";
+  threadId?: string;
+  type: AIActionType;
+  args: Record<string, any>;
+  summary: string;
+  changes: AIActionChange[];
+  status: AIActionStatus;
+  createdAt: string;
+  expiresAt: string;
+  decidedAt?: string;
+  result?: Record<string, any>;
+  error?: string;
+}
+
+interface ApiError {
+  error: string;
+  code?: string;
+}
+
+export async function getAIActions(
+  token: string,
+  filters: { status?: AIActionStatus; memberId?: string } = {}
+): Promise<AIAction[]> {
+  const params = new URLSearchParams();
+  if (filters.status) params.append("status", filters.status);
+  if (filters.memberId) params.append("memberId", filters.memberId);
+  const query = params.toString() ? `?${params.toString()}` : "";
+
+  const response = await fetch(`${API_BASE_URL}/api/admin/ai-actions${query}`, {
+    method: "GET",
+    headers: {
+      Authorization: `Bearer ${token}`,
+      "Content-Type": "application/json",
+    },
+  });
+
+  if (!response.ok) {
+    const error: ApiError = await response.json();
+    throw new Error(error.error || "Failed to fetch AI actions");
+  }
+
+  return response.json();
+}
+
+export async function confirmAIAction(id: string, token: string): Promise<AIAction> {
+  const response = await fetch(`${API_BASE_URL}/api/admin/ai-actions/${id}/confirm`, {
+    method: "POST",
+    headers: {
+      Authorization: `Bearer ${token}`,
+      "Content-Type": "application/json",
+    },
+  });
+
+  if (!response.ok) {
+    const error: ApiError = await response.json();
+    throw new Error(error.error || "Failed to confirm action");
+  }
+
+  return response.json();
+}
+
+export async function rejectAIAction(id: string, token: string): Promise<AIAction> {
+  const response = await fetch(`${API_BASE_URL}/api/admin/ai-actions/${id}/reject`, {
+    method: "POST",
+    headers: {
+      Authorization: `Bearer ${token}`,
+      "Content-Type": "application/json",
+    },
+  });
+
+  if (!response.ok) {
+    const error: ApiError = await response.json();
+    throw new Error(error.error || "Failed to reject action");
+  }
+
+  return response.json();
+}
@@ -0,0 +1,81 @@
+/**
+ * Streaming AI chat client
+ *
+ * The chat endpoints' /stream variants answer with Server-Sent Events:
+ * reply text as it is written, tool progress, then the full response.
+ */
+
+export type ChatStreamEvent =
+  | { type: "delta"; text: string }
+  | { type: "tool_start"; name: string; label: string }
+  | { type: "tool_end"; name: string; label: string; success: boolean };
+
+interface StreamChatOptions {
+  token?: string;
+  signal?: AbortSignal;           // Abort to cancel; the server then drops the turn
+  onEvent: (event: ChatStreamEvent) => void;
+}
+
+interface ApiError {
+  error: string;
+  code?: string;
+}
+
+/**
+ * Send a chat message to a streaming endpoint
+ * @returns The same body the non-streaming endpoint returns
+ * @throws Error with the server's message; an AbortError when cancelled
+ */
+export async function streamChat<T = Record<string, any>>(
+  url: string,
+  body: Record<string, any>,
+  options: StreamChatOptions
+): Promise<T> {
+  const response = await fetch(url, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      Accept: "text/event-stream",
+      ...(options.token ? { Authorization: `Bearer ${options.token}` } : {}),
+    },
+    body: JSON.stringify(body),
+    signal: options.signal,
+  });
+
+  if (!response.ok || !response.body) {
+    const error: ApiError = await response.json().catch(() => ({ error: "" }));
+    throw new Error(error.error || "Failed to get response from AI");
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  while (true) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+
+    // Events are separated by a blank line; the last piece may be incomplete
+    const blocks = buffer.split("\n\n");
+    buffer = blocks.pop() || "";
+
+    for (const block of blocks) {
+      const event = block.match(/^event: (.*)$/m)?.[1];
+      const data = block.match(/^data: (.*)$/m)?.[1];
+      if (!event || !data) continue;
+
+      const payload = JSON.parse(data);
+      if (event === "done") {
+        reader.cancel().catch(() => {});
+        return payload as T;
+      }
+      if (event === "error") {
+        throw new Error((payload as ApiError).error || "Failed to get response from AI");
+      }
+      options.onEvent(payload as ChatStreamEvent);
+    }
+  }
+
+  throw new Error("The response ended unexpectedly");
+}
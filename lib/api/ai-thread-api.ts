@@ -0,0 +1,133 @@
+/**
+ * AI conversation thread API client functions
+ */
+
+const API_BASE_URL = process.env.NEXT_PUBLIC_API_BASE_URL || "http://localhost:8080";
+
+export type AIThreadAgent = "assistant" | "admin" | "orchestrator";
+
+export type AIThreadMessage =
+  | { role: "user"; content: string; createdAt: string }
+  | {
+      role: "assistant";
+      content: string;
+      toolCalls?: Array<{ name: string; args: Record<string, any> }>;
+      createdAt: string;
+    }
+  | {
+      role: "tool";
+      results: Array<{ name: string; response: Record<string, any> }>;
+      createdAt: string;
+    };
+
+export interface AIThreadSummary {
+  id: string;
+  agent: AIThreadAgent;
+  title: string;
+  messageCount: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface AIThread {
+  id: string;
+  memberId: string;
+  agent: AIThreadAgent;
+  title: string;
+  messages: AIThreadMessage[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+interface ApiError {
+  error: string;
+  code?: string;
+}
+
+export async function getAIThreads(
+  token: string,
+  agent?: AIThreadAgent
+): Promise<AIThreadSummary[]> {
+  const query = agent ? `?agent=${agent}` : "";
+  const response = await fetch(`${API_BASE_URL}/api/ai/threads${query}`, {
+    method: "GET",
+    headers: {
+      Authorization: `Bearer ${token}`,
+      "Content-Type": "application/json",
+    },
+  });
+
+  if (!response.ok) {
+    const error: ApiError = await response.json();
+    throw new Error(error.error || "Failed to fetch conversations");
+  }
+
+  return response.json();
+}
+
+export async function getAIThread(id: string, token: string): Promise<AIThread> {
+  const response = await fetch(`${API_BASE_URL}/api/ai/threads/${id}`, {
+    method: "GET",
+    headers: {
+      Authorization: `Bearer ${token}`,
+      "Content-Type": "application/json",
+    },
+  });
+
+  if (!response.ok) {
+    const error: ApiError = await response.json();
+    throw new Error(error.error || "Failed to fetch conversation");
+  }
+
+  return response.json();
+}
+
+export async function renameAIThread(
+  id: string,
+  title: string,
+  token: string
+): Promise<AIThread> {
+  const response = await fetch(`${API_BASE_URL}/api/ai/threads/${id}`, {
+    method: "PATCH",
+    headers: {
+      Authorization: `Bearer ${token}`,
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({ title }),
+  });
+
+  if (!response.ok) {
+    const error: ApiError = await response.json();
+    throw new Error(error.error || "Failed to rename conversation");
+  }
+
+  return response.json();
+}
+
+export async function deleteAIThread(id: string, token: string): Promise<void> {
+  const response = await fetch(`${API_BASE_URL}/api/ai/threads/${id}`, {
+    method: "DELETE",
+    headers: {
+      Authorization: `Bearer ${token}`,
+      "Content-Type": "application/json",
+    },
+  });
+
+  if (!response.ok) {
+    const error: ApiError = await response.json();
+    throw new Error(error.error || "Failed to delete conversation");
+  }
+}
+
+/**
+ * Chat bubbles for a stored thread: user messages and text replies only
+ */
+export function toChatMessages(
+  thread: AIThread
+): Array<{ role: "user" | "assistant"; content: string }> {
+  return thread.messages.flatMap((message) =>
+    message.role === "tool" || !message.content
+      ? []
+      : [{ role: message.role, content: message.content }]
+  );
+}
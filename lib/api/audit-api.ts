@@ -0,0 +1,75 @@
+/**
+ * Audit log API client functions (admin only)
+ */
+
+const API_BASE_URL = process.env.NEXT_PUBLIC_API_BASE_URL || "http://localhost:8080";
+
+export type AuditSource = "api" | "admin-ui" | "ai-agent" | "system";
+
+export type AuditEntityType = "reservation" | "member" | "payment";
+
+export type AuditAction =
+  | "reservation.create"
+  | "reservation.update"
+  | "reservation.cancel"
+  | "member.create"
+  | "member.update"
+  | "member.deactivate"
+  | "payment.refund";
+
+export interface AuditChange {
+  before?: unknown;
+  after?: unknown;
+}
+
+export interface AuditEntry {
+  id: string;
+  actorId?: string;
+  actorRole?: string;
+  actorName?: string;
+  source: AuditSource;
+  action: AuditAction;
+  entityType: AuditEntityType;
+  entityId: string;
+  changes: Record<string, AuditChange>;
+  createdAt: string;
+}
+
+export interface AuditFilters {
+  entityType?: AuditEntityType;
+  entityId?: string;
+  actorId?: string;
+  action?: AuditAction;
+}
+
+interface ApiError {
+  error: string;
+  code?: string;
+}
+
+export async function getAuditEntries(
+  token: string,
+  filters: AuditFilters = {}
+): Promise<AuditEntry[]> {
+  const params = new URLSearchParams();
+  if (filters.entityType) params.append("entityType", filters.entityType);
+  if (filters.entityId) params.append("entityId", filters.entityId);
+  if (filters.actorId) params.append("actorId", filters.actorId);
+  if (filters.action) params.append("action", filters.action);
+  const query = params.toString() ? `?${params.toString()}` : "";
+
+  const response = await fetch(`${API_BASE_URL}/api/admin/audit${query}`, {
+    method: "GET",
+    headers: {
+      Authorization: `Bearer ${token}`,
+      "Content-Type": "application/json",
+    },
+  });
+
+  if (!response.ok) {
+    const error: ApiError = await response.json();
+    throw new Error(error.error || "Failed to fetch history");
+  }
+
+  return response.json();
+}
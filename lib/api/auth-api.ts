@@ -20,7 +20,9 @@ export interface SignInRequest {
 }
 
 export interface AuthResponse {
-  token: string;
+  token: string;          // Short-lived access token
+  refreshToken: string;   // Rotates on every refresh
+  expiresAt: string;      // Access token expiry (ISO 8601)
   member: {
     id: string;
     firstName: string;
@@ -45,6 +47,16 @@ export interface ResetPasswordRequest {
   password: string;
 }
 
+export interface ActiveSession {
+  id: string;
+  userAgent?: string;
+  ipAddress?: string;
+  createdAt: string;
+  lastUsedAt: string;
+  expiresAt: string;
+  current: boolean;
+}
+
 export interface ApiError {
   error: string;
   code?: string;
@@ -129,6 +141,84 @@ export async function signOut(token: string): Promise<void> {
   }
 }
 
+/**
+ * Exchange a refresh token for a new access token and refresh token
+ */
+export async function refreshSession(refreshToken: string): Promise<AuthResponse> {
+  const response = await fetch(`${API_BASE_URL}/api/auth/refresh`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({ refreshToken }),
+  });
+
+  if (!response.ok) {
+    const error: ApiError = await response.json();
+    throw new Error(error.error || "Failed to refresh session");
+  }
+
+  return response.json();
+}
+
+/**
+ * Sign out of every device
+ */
+export async function signOutAllDevices(token: string): Promise<{ revoked: number }> {
+  const response = await fetch(`${API_BASE_URL}/api/auth/logout-all`, {
+    method: "POST",
+    headers: {
+      "Authorization": `Bearer ${token}`,
+      "Content-Type": "application/json",
+    },
+  });
+
+  if (!response.ok) {
+    const error: ApiError = await response.json();
+    throw new Error(error.error || "Failed to log out of all devices");
+  }
+
+  return response.json();
+}
+
+/**
+ * List the devices the member is signed in on
+ */
+export async function getActiveSessions(token: string): Promise<ActiveSession[]> {
+  const response = await fetch(`${API_BASE_URL}/api/auth/sessions`, {
+    method: "GET",
+    headers: {
+      "Authorization": `Bearer ${token}`,
+      "Content-Type": "application/json",
+    },
+  });
+
+  if (!response.ok) {
+    const error: ApiError = await response.json();
+    throw new Error(error.error || "Failed to load active devices");
+  }
+
+  return response.json();
+}
+
+/**
+ * Sign out one of the member's devices
+ */
+export async function revokeSession(token: string, sessionId: string): Promise<void> {
+  const response = await fetch(`${API_BASE_URL}/api/auth/sessions/${sessionId}`, {
+    method: "DELETE",
+    headers: {
+      "Authorization": `Bearer ${token}`,
+      "Content-Type": "application/json",
+    },
+  });
+
+  if (!response.ok) {
+    const error: ApiError = await response.json();
+    throw new Error(error.error || "Failed to sign out device");
+  }
+}
+
 /**
  * Verify email address
  */
@@ -4,6 +4,26 @@
 
 const API_BASE_URL = process.env.NEXT_PUBLIC_API_BASE_URL || "http://localhost:8080";
 
+export type ReservationStatus = "confirmed" | "checked_in" | "completed" | "no_show" | "cancelled";
+
+export type ParticipantStatus = "invited" | "accepted" | "declined";
+
+export interface ReservationParticipant {
+  id: string;
+  memberId?: string;
+  name?: string;
+  email: string;
+  status: ParticipantStatus;
+  invitedAt: string;
+  respondedAt?: string;
+}
+
+export interface PartnerRequest {
+  memberId?: string;
+  email?: string;
+  name?: string;
+}
+
 export interface Reservation {
   id: string;
   courtId: string;
@@ -15,15 +35,28 @@ export interface Reservation {
   };
   memberId?: string;
   member?: any;
+  bookedBy?: string; // Parent/admin who booked on the member's behalf
   guestName?: string;
   guestEmail?: string;
   guestPhone?: string;
   notes?: string;
   createdAt: string;
-  status: "confirmed" | "cancelled";
+  status: ReservationStatus;
   paymentId?: string;
-  paymentStatus?: "pending" | "paid" | "refunded" | "failed";
+  paymentStatus?: "pending" | "paid" | "refunded" | "failed" | "disputed";
   paymentAmount?: number;
+  checkedInAt?: string;
+  checkInMethod?: "front_desk" | "qr";
+  noShowAt?: string;
+  participants?: ReservationParticipant[]; // Doubles partners
+  splitPayment?: boolean;
+  coachId?: string; // Set for coach lessons
+  lessonTypeId?: string;
+}
+
+export interface CheckInCode {
+  code: string;
+  qrCode: string; // SVG data URL
 }
 
 export interface ApiError {
@@ -113,3 +146,107 @@ export async function cancelReservation(
 
   return { success: true };
 }
+
+/**
+ * Get the QR code a player scans at the club to check in
+ */
+export async function getCheckInCode(id: string, token: string): Promise<CheckInCode> {
+  const response = await fetch(`${API_BASE_URL}/api/reservations/${id}/check-in-code`, {
+    method: "GET",
+    headers: {
+      Authorization: `Bearer ${token}`,
+      "Content-Type": "application/json",
+    },
+  });
+
+  if (!response.ok) {
+    const error: ApiError = await response.json();
+    throw new Error(error.error || "Failed to get check-in code");
+  }
+
+  return response.json();
+}
+
+/**
+ * Invite doubles partners (members or guests by email) to a reservation
+ */
+export async function invitePartners(
+  id: string,
+  partners: PartnerRequest[],
+  token: string
+): Promise<Reservation> {
+  const response = await fetch(`${API_BASE_URL}/api/reservations/${id}/partners`, {
+    method: "POST",
+    headers: {
+      Authorization: `Bearer ${token}`,
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({ partners }),
+  });
+
+  if (!response.ok) {
+    const error: ApiError = await response.json();
+    throw new Error(error.error || "Failed to invite partners");
+  }
+
+  return response.json();
+}
+
+/**
+ * Remove a partner from a reservation
+ */
+export async function removePartner(
+  id: string,
+  participantId: string,
+  token: string
+): Promise<Reservation> {
+  const response = await fetch(`${API_BASE_URL}/api/reservations/${id}/partners/${participantId}`, {
+    method: "DELETE",
+    headers: {
+      Authorization: `Bearer ${token}`,
+      "Content-Type": "application/json",
+    },
+  });
+
+  if (!response.ok) {
+    const error: ApiError = await response.json();
+    throw new Error(error.error || "Failed to remove partner");
+  }
+
+  return response.json();
+}
+
+/**
+ * Accept or decline a partner invitation
+ * Signed-in members pass their auth token; guests pass the invite token from their email.
+ */
+export async function respondToPartnerInvite(
+  id: string,
+  participantId: string,
+  accept: boolean,
+  auth: { token?: string; inviteToken?: string }
+): Promise<Reservation> {
+  const headers: HeadersInit = {
+    "Content-Type": "application/json",
+  };
+
+  if (auth.token) {
+    headers.Authorization = `Bearer ${auth.token}`;
+  }
+
+  const response = await fetch(
+    `${API_BASE_URL}/api/reservations/${id}/partners/${participantId}/respond`,
+    {
+      method: "POST",
+      headers,
+      body: JSON.stringify({ accept, token: auth.inviteToken }),
+    }
+  );
+
+  if (!response.ok) {
+    const error: ApiError = await response.json();
+    throw new Error(error.error || "Failed to respond to invitation");
+  }
+
+  return response.json();
+}
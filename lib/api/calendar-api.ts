@@ -0,0 +1,53 @@
+/**
+ * Calendar feed (iCalendar subscription) API client functions
+ */
+
+const API_BASE_URL = process.env.NEXT_PUBLIC_API_BASE_URL || "http://localhost:8080";
+
+export interface CalendarFeeds {
+  bookings: string;
+  coaching?: string; // Coaches only
+  courts?: Array<{ courtId: string; courtName: string; url: string }>; // Coaches and admins
+}
+
+interface ApiError {
+  error: string;
+  code?: string;
+}
+
+export async function getCalendarFeeds(token: string): Promise<CalendarFeeds> {
+  const response = await fetch(`${API_BASE_URL}/api/members/me/calendar`, {
+    method: "GET",
+    headers: {
+      Authorization: `Bearer ${token}`,
+      "Content-Type": "application/json",
+    },
+  });
+
+  if (!response.ok) {
+    const error: ApiError = await response.json();
+    throw new Error(error.error || "Failed to fetch calendar feeds");
+  }
+
+  return response.json();
+}
+
+/**
+ * Issue new feed URLs; calendars subscribed to the old ones stop updating
+ */
+export async function resetCalendarFeeds(token: string): Promise<CalendarFeeds> {
+  const response = await fetch(`${API_BASE_URL}/api/members/me/calendar/reset`, {
+    method: "POST",
+    headers: {
+      Authorization: `Bearer ${token}`,
+      "Content-Type": "application/json",
+    },
+  });
+
+  if (!response.ok) {
+    const error: ApiError = await response.json();
+    throw new Error(error.error || "Failed to reset calendar feeds");
+  }
+
+  return response.json();
+}
@@ -0,0 +1,111 @@
+/**
+ * Family (parent-child link) API client functions
+ */
+
+import { Reservation } from "./booking-api";
+import { JournalEntry } from "./journal-api";
+
+const API_BASE_URL = process.env.NEXT_PUBLIC_API_BASE_URL || "http://localhost:8080";
+
+export type GuardianInviteStatus = "pending" | "accepted" | "declined" | "cancelled";
+
+export interface GuardianInvite {
+  id: string;
+  parentId: string;
+  childId: string;
+  status: GuardianInviteStatus;
+  createdAt: string;
+  respondedAt?: string;
+  parentName?: string;
+  childName?: string;
+}
+
+export interface FamilyMember {
+  id: string;
+  memberNumber: string;
+  firstName: string;
+  lastName: string;
+  email: string;
+  dateOfBirth?: string;
+}
+
+export interface ChildOverview {
+  member: FamilyMember;
+  upcomingReservations: Reservation[];
+  recentJournalEntries: JournalEntry[];
+}
+
+export interface FamilyOverview {
+  children: ChildOverview[];
+  guardians: FamilyMember[];
+  invites: GuardianInvite[];
+}
+
+interface ApiError {
+  error: string;
+  code?: string;
+}
+
+async function familyRequest<T>(
+  path: string,
+  token: string,
+  fallbackError: string,
+  init: { method: string; body?: unknown } = { method: "GET" }
+): Promise<T> {
+  const response = await fetch(`${API_BASE_URL}/api/members/me${path}`, {
+    method: init.method,
+    headers: {
+      Authorization: `Bearer ${token}`,
+      "Content-Type": "application/json",
+    },
+    body: init.body !== undefined ? JSON.stringify(init.body) : undefined,
+  });
+
+  if (!response.ok) {
+    const error: ApiError = await response.json();
+    throw new Error(error.error || fallbackError);
+  }
+
+  return response.json();
+}
+
+export async function getFamily(token: string): Promise<FamilyOverview> {
+  return familyRequest("/family", token, "Failed to fetch family");
+}
+
+export async function invitePlayer(email: string, token: string): Promise<GuardianInvite> {
+  return familyRequest("/guardian-invites", token, "Failed to send invitation", {
+    method: "POST",
+    body: { email },
+  });
+}
+
+export async function acceptInvite(id: string, token: string): Promise<GuardianInvite> {
+  return familyRequest(`/guardian-invites/${id}/accept`, token, "Failed to accept invitation", {
+    method: "POST",
+  });
+}
+
+export async function declineInvite(id: string, token: string): Promise<GuardianInvite> {
+  return familyRequest(`/guardian-invites/${id}/decline`, token, "Failed to decline invitation", {
+    method: "POST",
+  });
+}
+
+export async function cancelInvite(id: string, token: string): Promise<GuardianInvite> {
+  return familyRequest(`/guardian-invites/${id}`, token, "Failed to cancel invitation", {
+    method: "DELETE",
+  });
+}
+
+export async function unlinkChild(childId: string, token: string): Promise<{ message: string }> {
+  return familyRequest(`/children/${childId}`, token, "Failed to unlink player", {
+    method: "DELETE",
+  });
+}
+
+export async function leaveGuardian(parentId: string, token: string): Promise<{ message: string }> {
+  return familyRequest(`/guardians/${parentId}`, token, "Failed to leave family link", {
+    method: "DELETE",
+  });
+}
@@ -16,6 +16,7 @@ export interface JournalEntry {
   pointersForNextSession: string;
   additionalNotes?: string;
   playerReflection?: string;
+  draft?: boolean; // Lesson draft the coach hasn't written up yet
   createdAt: string;
   lastModified: string;
   createdBy: string;
@@ -0,0 +1,264 @@
+/**
+ * Coach lesson API client functions
+ */
+
+import { PartnerRequest, Reservation } from "./booking-api";
+
+const API_BASE_URL = process.env.NEXT_PUBLIC_API_BASE_URL || "http://localhost:8080";
+
+export type LessonKind = "private" | "semi_private";
+
+export type Weekday =
+  | "sunday"
+  | "monday"
+  | "tuesday"
+  | "wednesday"
+  | "thursday"
+  | "friday"
+  | "saturday";
+
+export interface LessonType {
+  id: string;
+  name: string;
+  kind: LessonKind;
+  durationMinutes: number;
+  price: number; // Cents, court included
+  maxPlayers: number;
+  active: boolean;
+}
+
+export interface Coach {
+  id: string;
+  firstName: string;
+  lastName: string;
+}
+
+export interface CoachHours {
+  start: string;
+  end: string;
+}
+
+export interface CoachTimeOff {
+  id: string;
+  startDate: string;
+  endDate: string;
+  startTime?: string;
+  endTime?: string;
+  reason?: string;
+  createdAt: string;
+}
+
+export interface CoachTimeOffInput {
+  startDate: string;
+  endDate?: string;
+  startTime?: string;
+  endTime?: string;
+  reason?: string;
+}
+
+export interface CoachSchedule {
+  coachId: string;
+  weeklyHours: Record<Weekday, CoachHours[]>;
+  timeOff: CoachTimeOff[];
+  updatedAt?: string;
+}
+
+export interface LessonSlot {
+  start: string;
+  end: string;
+  courtIds: string[];
+}
+
+export interface LessonInput {
+  coachId: string;
+  lessonTypeId: string;
+  date: string;
+  start: string;
+  memberId?: string; // Defaults to the signed-in member
+  courtId?: string; // Omit for any free court
+  partners?: PartnerRequest[];
+  splitPayment?: boolean;
+  notes?: string;
+}
+
+interface ApiError {
+  error: string;
+  code?: string;
+}
+
+export async function getLessonTypes(): Promise<LessonType[]> {
+  const response = await fetch(`${API_BASE_URL}/api/lesson-types`, {
+    method: "GET",
+    headers: {
+      "Content-Type": "application/json",
+    },
+  });
+
+  if (!response.ok) {
+    const error: ApiError = await response.json();
+    throw new Error(error.error || "Failed to fetch lesson types");
+  }
+
+  return response.json();
+}
+
+export async function getCoaches(): Promise<Coach[]> {
+  const response = await fetch(`${API_BASE_URL}/api/coaches`, {
+    method: "GET",
+    headers: {
+      "Content-Type": "application/json",
+    },
+  });
+
+  if (!response.ok) {
+    const error: ApiError = await response.json();
+    throw new Error(error.error || "Failed to fetch coaches");
+  }
+
+  return response.json();
+}
+
+export async function getLessonSlots(
+  coachId: string,
+  date: string,
+  lessonTypeId: string
+): Promise<LessonSlot[]> {
+  const query = new URLSearchParams({ date, lessonTypeId });
+  const response = await fetch(`${API_BASE_URL}/api/coaches/${coachId}/slots?${query.toString()}`, {
+    method: "GET",
+    headers: {
+      "Content-Type": "application/json",
+    },
+  });
+
+  if (!response.ok) {
+    const error: ApiError = await response.json();
+    throw new Error(error.error || "Failed to fetch lesson times");
+  }
+
+  const data: { slots: LessonSlot[] } = await response.json();
+  return data.slots;
+}
+
+export async function bookLesson(lesson: LessonInput, token: string): Promise<Reservation> {
+  const response = await fetch(`${API_BASE_URL}/api/lessons`, {
+    method: "POST",
+    headers: {
+      Authorization: `Bearer ${token}`,
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify(lesson),
+  });
+
+  if (!response.ok) {
+    const error: ApiError = await response.json();
+    throw new Error(error.error || "Failed to book lesson");
+  }
+
+  return response.json();
+}
+
+export async function getCoachAvailability(
+  coachId: string,
+  token: string
+): Promise<CoachSchedule> {
+  const response = await fetch(`${API_BASE_URL}/api/coaches/${coachId}/availability`, {
+    method: "GET",
+    headers: {
+      Authorization: `Bearer ${token}`,
+      "Content-Type": "application/json",
+    },
+  });
+
+  if (!response.ok) {
+    const error: ApiError = await response.json();
+    throw new Error(error.error || "Failed to fetch availability");
+  }
+
+  return response.json();
+}
+
+export async function setCoachWeeklyHours(
+  coachId: string,
+  weeklyHours: Partial<Record<Weekday, CoachHours[]>>,
+  token: string
+): Promise<CoachSchedule> {
+  const response = await fetch(`${API_BASE_URL}/api/coaches/${coachId}/availability`, {
+    method: "PUT",
+    headers: {
+      Authorization: `Bearer ${token}`,
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({ weeklyHours }),
+  });
+
+  if (!response.ok) {
+    const error: ApiError = await response.json();
+    throw new Error(error.error || "Failed to save weekly hours");
+  }
+
+  return response.json();
+}
+
+export async function addCoachTimeOff(
+  coachId: string,
+  timeOff: CoachTimeOffInput,
+  token: string
+): Promise<{ timeOff: CoachTimeOff; affectedLessons: Reservation[] }> {
+  const response = await fetch(`${API_BASE_URL}/api/coaches/${coachId}/time-off`, {
+    method: "POST",
+    headers: {
+      Authorization: `Bearer ${token}`,
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify(timeOff),
+  });
+
+  if (!response.ok) {
+    const error: ApiError = await response.json();
+    throw new Error(error.error || "Failed to add time off");
+  }
+
+  return response.json();
+}
+
+export async function removeCoachTimeOff(
+  coachId: string,
+  timeOffId: string,
+  token: string
+): Promise<void> {
+  const response = await fetch(`${API_BASE_URL}/api/coaches/${coachId}/time-off/${timeOffId}`, {
+    method: "DELETE",
+    headers: {
+      Authorization: `Bearer ${token}`,
+      "Content-Type": "application/json",
+    },
+  });
+
+  if (!response.ok) {
+    const error: ApiError = await response.json();
+    throw new Error(error.error || "Failed to remove time off");
+  }
+}
+
+export async function getCoachLessons(
+  coachId: string,
+  token: string,
+  from?: string
+): Promise<Reservation[]> {
+  const query = from ? `?from=${from}` : "";
+  const response = await fetch(`${API_BASE_URL}/api/coaches/${coachId}/lessons${query}`, {
+    method: "GET",
+    headers: {
+      Authorization: `Bearer ${token}`,
+      "Content-Type": "application/json",
+    },
+  });
+
+  if (!response.ok) {
+    const error: ApiError = await response.json();
+    throw new Error(error.error || "Failed to fetch lessons");
+  }
+
+  return response.json();
+}
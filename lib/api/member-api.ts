@@ -24,6 +24,7 @@ export interface Member {
   role?: "player" | "coach" | "parent" | "admin";
   ntrpRating?: string;
   ustaNumber?: string;
+  guardianIds?: string[];
 }
 
 export interface MemberUpdate {
@@ -37,6 +38,13 @@ export interface MemberUpdate {
   ntrpRating?: string;
   ustaNumber?: string;
   notes?: string;
+  isActive?: boolean;
+  role?: "player" | "coach" | "parent" | "admin";
+}
+
+export interface MemberListFilters {
+  filter?: "all" | "active" | "inactive";
+  search?: string;
 }
 
 export interface ApiError {
@@ -180,3 +188,28 @@ export async function getPlayers(token: string, search?: string): Promise<Member
 
   return response.json();
 }
+
+/**
+ * List members (admins see everyone)
+ */
+export async function getMembers(token: string, filters: MemberListFilters = {}): Promise<Member[]> {
+  const params = new URLSearchParams();
+  if (filters.filter) params.append("filter", filters.filter);
+  if (filters.search) params.append("search", filters.search);
+  const query = params.toString() ? `?${params.toString()}` : "";
+
+  const response = await fetch(`${API_BASE_URL}/api/members${query}`, {
+    method: "GET",
+    headers: {
+      Authorization: `Bearer ${token}`,
+      "Content-Type": "application/json",
+    },
+  });
+
+  if (!response.ok) {
+    const error: ApiError = await response.json();
+    throw new Error(error.error || "Failed to get members");
+  }
+
+  return response.json();
+}
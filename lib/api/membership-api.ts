@@ -0,0 +1,121 @@
+/**
+ * Membership plan and subscription API client functions
+ */
+
+const API_BASE_URL = process.env.NEXT_PUBLIC_API_BASE_URL || "http://localhost:8080";
+
+export type MembershipPlanId = "junior" | "adult" | "family" | "off_season";
+export type BillingInterval = "month" | "year";
+export type SubscriptionStatus = "trialing" | "active" | "past_due" | "canceled";
+
+export interface PlanEntitlements {
+  bookingWindowDays: number;
+  courtDiscount: number; // Fraction off court time (0.2 = 20%)
+}
+
+export interface MembershipPlan {
+  id: MembershipPlanId;
+  name: string;
+  description: string;
+  prices: Partial<Record<BillingInterval, number>>; // Cents
+  trialDays?: number;
+  maxAge?: number;
+  coversLinkedPlayers?: boolean;
+  seasonMonths?: number[];
+  entitlements: PlanEntitlements;
+}
+
+export interface Subscription {
+  id: string;
+  memberId: string;
+  planId: MembershipPlanId;
+  interval: BillingInterval;
+  status: SubscriptionStatus;
+  currentPeriodStart: string;
+  currentPeriodEnd: string;
+  cancelAtPeriodEnd: boolean;
+  trialEnd?: string;
+  canceledAt?: string;
+  createdAt: string;
+  lastModified: string;
+}
+
+export interface MembershipEntitlements extends PlanEntitlements {
+  planId: MembershipPlanId;
+  planName: string;
+  subscriptionId: string;
+  coveredBy?: string; // Family plan holder
+}
+
+export interface MembershipSummary {
+  subscription: Subscription | null;
+  plan: MembershipPlan | null;
+  entitlements: MembershipEntitlements | null;
+}
+
+interface ApiError {
+  error: string;
+  code?: string;
+}
+
+async function membershipRequest<T>(
+  path: string,
+  token: string,
+  fallbackError: string,
+  init: { method: string; body?: unknown } = { method: "GET" }
+): Promise<T> {
+  const response = await fetch(`${API_BASE_URL}/api/members/me${path}`, {
+    method: init.method,
+    headers: {
+      Authorization: `Bearer ${token}`,
+      "Content-Type": "application/json",
+    },
+    body: init.body !== undefined ? JSON.stringify(init.body) : undefined,
+  });
+
+  if (!response.ok) {
+    const error: ApiError = await response.json();
+    throw new Error(error.error || fallbackError);
+  }
+
+  return response.json();
+}
+
+export async function getMembershipPlans(): Promise<MembershipPlan[]> {
+  const response = await fetch(`${API_BASE_URL}/api/membership/plans`);
+
+  if (!response.ok) {
+    const error: ApiError = await response.json();
+    throw new Error(error.error || "Failed to fetch membership plans");
+  }
+
+  const data: { plans: MembershipPlan[] } = await response.json();
+  return data.plans;
+}
+
+export async function getMySubscription(token: string): Promise<MembershipSummary> {
+  return membershipRequest("/subscription", token, "Failed to fetch membership");
+}
+
+export async function subscribeToPlan(
+  planId: MembershipPlanId,
+  interval: BillingInterval,
+  token: string
+): Promise<{ subscription: Subscription; clientSecret?: string }> {
+  return membershipRequest("/subscription", token, "Failed to start membership", {
+    method: "POST",
+    body: { planId, interval },
+  });
+}
+
+export async function cancelSubscription(token: string): Promise<Subscription> {
+  return membershipRequest("/subscription", token, "Failed to cancel membership", {
+    method: "DELETE",
+  });
+}
+
+export async function resumeSubscription(token: string): Promise<Subscription> {
+  return membershipRequest("/subscription/resume", token, "Failed to resume membership", {
+    method: "POST",
+  });
+}
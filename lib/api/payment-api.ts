@@ -2,16 +2,19 @@
  * Payment API client functions
  */
 
+import { MembershipPlanId } from "./membership-api";
+
 const API_BASE_URL = process.env.NEXT_PUBLIC_API_BASE_URL || "http://localhost:8080";
 
 export interface Payment {
   id: string;
   memberId?: string;
   reservationId?: string;
-  type: "court_booking" | "membership" | "other";
+  enrollmentId?: string;
+  type: "court_booking" | "membership" | "program" | "other";
   amount: number;
   currency: string;
-  status: "pending" | "paid" | "refunded" | "failed" | "cancelled";
+  status: "pending" | "paid" | "refunded" | "failed" | "cancelled" | "disputed";
   stripePaymentIntentId?: string;
   stripeChargeId?: string;
   description?: string;
@@ -25,8 +28,8 @@ export interface Payment {
 
 export interface PaymentFilter {
   memberId?: string;
-  status?: "pending" | "paid" | "refunded" | "failed" | "cancelled";
-  type?: "court_booking" | "membership" | "other";
+  status?: "pending" | "paid" | "refunded" | "failed" | "cancelled" | "disputed";
+  type?: "court_booking" | "membership" | "program" | "other";
   startDate?: string;
   endDate?: string;
 }
@@ -36,6 +39,29 @@ export interface ApiError {
   code?: string;
 }
 
+export interface PriceLineItem {
+  label: string;
+  amount: number; // Cents (negative for discounts)
+}
+
+export interface PriceQuote {
+  courtId: string;
+  courtName: string;
+  courtType: "clay" | "hard" | "indoor";
+  date: string;
+  timeSlot: {
+    start: string;
+    end: string;
+  };
+  durationMinutes: number;
+  primeTimeMinutes: number;
+  memberId?: string;
+  membershipPlan?: MembershipPlanId;
+  lineItems: PriceLineItem[];
+  total: number; // Cents
+  currency: string;
+}
+
 /**
  * Get payments (with optional filters)
  */
@@ -126,17 +152,58 @@ export async function downloadInvoice(id: string, token: string): Promise<void>
   URL.revokeObjectURL(url);
 }
 
+/**
+ * Get the server-side price for a booking (guest rate when no token is given)
+ */
+export async function getPriceQuote(
+  options: {
+    courtId: string;
+    date: string;
+    start: string;
+    end: string;
+    memberId?: string; // Linked player, when a parent books for them
+  },
+  token?: string | null
+): Promise<PriceQuote> {
+  const params = new URLSearchParams({
+    courtId: options.courtId,
+    date: options.date,
+    start: options.start,
+    end: options.end,
+  });
+  if (options.memberId) {
+    params.set("memberId", options.memberId);
+  }
+
+  const headers: HeadersInit = { "Content-Type": "application/json" };
+  if (token) {
+    headers.Authorization = `Bearer ${token}`;
+  }
+
+  const response = await fetch(`${API_BASE_URL}/api/pricing/quote?${params.toString()}`, {
+    method: "GET",
+    headers,
+  });
+
+  if (!response.ok) {
+    const error: ApiError = await response.json();
+    throw new Error(error.error || "Failed to get price");
+  }
+
+  return response.json();
+}
+
 /**
  * Create a payment intent for a court booking
+ * The server charges its own quote for the reservation.
  */
 export async function createPaymentIntent(
   token: string,
   options: {
-    amount: number; // Amount in dollars (e.g. 40 for $40)
-    reservationId?: string;
+    reservationId: string;
     description?: string;
   }
-): Promise<{ clientSecret: string; paymentIntentId: string }> {
+): Promise<{ clientSecret: string; paymentIntentId: string; amount: number; quote: PriceQuote }> {
   const response = await fetch(`${API_BASE_URL}/api/payments/create-intent`, {
     method: "POST",
     headers: {
@@ -144,10 +211,8 @@ export async function createPaymentIntent(
       "Content-Type": "application/json",
     },
     body: JSON.stringify({
-      amount: options.amount,
-      currency: "usd",
       reservationId: options.reservationId,
-      description: options.description || "Court Booking - 1 Hour",
+      description: options.description,
     }),
   });
 
@@ -159,6 +224,31 @@ export async function createPaymentIntent(
   return response.json();
 }
 
+/**
+ * Create a payment intent for a program seat
+ * The server charges the program's price.
+ */
+export async function createEnrollmentPaymentIntent(
+  token: string,
+  enrollmentId: string
+): Promise<{ clientSecret: string; paymentIntentId: string; amount: number }> {
+  const response = await fetch(`${API_BASE_URL}/api/payments/create-intent`, {
+    method: "POST",
+    headers: {
+      Authorization: `Bearer ${token}`,
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({ enrollmentId }),
+  });
+
+  if (!response.ok) {
+    const error: ApiError = await response.json();
+    throw new Error(error.error || "Failed to create payment intent");
+  }
+
+  return response.json();
+}
+
 /**
  * Confirm a payment after Stripe client-side confirmation
  */
@@ -0,0 +1,223 @@
+/**
+ * Program (clinics, camps, junior development) API client functions
+ */
+
+const API_BASE_URL = process.env.NEXT_PUBLIC_API_BASE_URL || "http://localhost:8080";
+
+export type ProgramKind = "clinic" | "camp" | "junior_development";
+
+export type EnrollmentStatus = "enrolled" | "waitlisted" | "cancelled";
+
+export type AttendanceMark = "present" | "absent";
+
+export interface ProgramSession {
+  id: string;
+  date: string;
+  start: string;
+  end: string;
+}
+
+export interface Program {
+  id: string;
+  name: string;
+  kind: ProgramKind;
+  description?: string;
+  sessions: ProgramSession[];
+  courtIds: string[];
+  coachIds: string[];
+  capacity: number;
+  price: number; // Cents for the whole program
+  minAge?: number;
+  maxAge?: number;
+  minNtrp?: number;
+  maxNtrp?: number;
+  status: "open" | "cancelled";
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ProgramListing extends Program {
+  enrolledCount: number;
+  waitlistCount: number;
+}
+
+export interface ProgramEnrollment {
+  id: string;
+  programId: string;
+  memberId: string;
+  status: EnrollmentStatus;
+  enrolledAt?: string;
+  cancelledAt?: string;
+  paymentId?: string;
+  paymentStatus?: "pending" | "paid" | "refunded" | "failed";
+  paymentAmount?: number;
+  attendance?: Record<string, AttendanceMark>;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface MemberProgramEnrollment extends ProgramEnrollment {
+  program: Program;
+}
+
+export interface RosterEntry {
+  enrollmentId: string;
+  memberId: string;
+  firstName: string;
+  lastName: string;
+  email: string;
+  status: EnrollmentStatus;
+  paymentStatus?: ProgramEnrollment["paymentStatus"];
+  attendance: Record<string, AttendanceMark>;
+}
+
+export interface ProgramRoster {
+  program: Program;
+  enrolled: RosterEntry[];
+  waitlisted: RosterEntry[];
+}
+
+interface ApiError {
+  error: string;
+  code?: string;
+}
+
+export async function getPrograms(kind?: ProgramKind): Promise<ProgramListing[]> {
+  const query = kind ? `?kind=${kind}` : "";
+  const response = await fetch(`${API_BASE_URL}/api/programs${query}`, {
+    method: "GET",
+    headers: {
+      "Content-Type": "application/json",
+    },
+  });
+
+  if (!response.ok) {
+    const error: ApiError = await response.json();
+    throw new Error(error.error || "Failed to fetch programs");
+  }
+
+  return response.json();
+}
+
+export async function enrollInProgram(
+  programId: string,
+  token: string,
+  memberId?: string // Defaults to the signed-in member
+): Promise<ProgramEnrollment> {
+  const response = await fetch(`${API_BASE_URL}/api/programs/${programId}/enroll`, {
+    method: "POST",
+    headers: {
+      Authorization: `Bearer ${token}`,
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({ memberId }),
+  });
+
+  if (!response.ok) {
+    const error: ApiError = await response.json();
+    throw new Error(error.error || "Failed to enroll");
+  }
+
+  return response.json();
+}
+
+export async function withdrawFromProgram(
+  programId: string,
+  enrollmentId: string,
+  token: string
+): Promise<{ enrollment: ProgramEnrollment; refund: { refundAmount?: number } | null }> {
+  const response = await fetch(
+    `${API_BASE_URL}/api/programs/${programId}/enrollments/${enrollmentId}`,
+    {
+      method: "DELETE",
+      headers: {
+        Authorization: `Bearer ${token}`,
+        "Content-Type": "application/json",
+      },
+    }
+  );
+
+  if (!response.ok) {
+    const error: ApiError = await response.json();
+    throw new Error(error.error || "Failed to withdraw");
+  }
+
+  return response.json();
+}
+
+export async function getMyProgramEnrollments(token: string): Promise<MemberProgramEnrollment[]> {
+  const response = await fetch(`${API_BASE_URL}/api/members/me/programs`, {
+    method: "GET",
+    headers: {
+      Authorization: `Bearer ${token}`,
+      "Content-Type": "application/json",
+    },
+  });
+
+  if (!response.ok) {
+    const error: ApiError = await response.json();
+    throw new Error(error.error || "Failed to fetch your programs");
+  }
+
+  return response.json();
+}
+
+export async function getCoachPrograms(coachId: string, token: string): Promise<ProgramListing[]> {
+  const response = await fetch(`${API_BASE_URL}/api/coaches/${coachId}/programs`, {
+    method: "GET",
+    headers: {
+      Authorization: `Bearer ${token}`,
+      "Content-Type": "application/json",
+    },
+  });
+
+  if (!response.ok) {
+    const error: ApiError = await response.json();
+    throw new Error(error.error || "Failed to fetch programs");
+  }
+
+  return response.json();
+}
+
+export async function getProgramRoster(programId: string, token: string): Promise<ProgramRoster> {
+  const response = await fetch(`${API_BASE_URL}/api/programs/${programId}/roster`, {
+    method: "GET",
+    headers: {
+      Authorization: `Bearer ${token}`,
+      "Content-Type": "application/json",
+    },
+  });
+
+  if (!response.ok) {
+    const error: ApiError = await response.json();
+    throw new Error(error.error || "Failed to fetch roster");
+  }
+
+  return response.json();
+}
+
+export async function recordAttendance(
+  programId: string,
+  sessionId: string,
+  attendance: Record<string, AttendanceMark>, // Keyed by enrollment ID
+  token: string
+): Promise<ProgramRoster> {
+  const response = await fetch(
+    `${API_BASE_URL}/api/programs/${programId}/sessions/${sessionId}/attendance`,
+    {
+      method: "PUT",
+      headers: {
+        Authorization: `Bearer ${token}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({ attendance }),
+    }
+  );
+
+  if (!response.ok) {
+    const error: ApiError = await response.json();
+    throw new Error(error.error || "Failed to save attendance");
+  }
+
+  return response.json();
+}
@@ -0,0 +1,120 @@
+/**
+ * Waitlist API client functions
+ */
+
+import { Reservation } from "./booking-api";
+
+const API_BASE_URL = process.env.NEXT_PUBLIC_API_BASE_URL || "http://localhost:8080";
+
+export type WaitlistStatus = "waiting" | "offered" | "fulfilled" | "expired" | "cancelled";
+
+export interface WaitlistEntry {
+  id: string;
+  memberId: string;
+  courtId?: string;
+  date: string;
+  timeRange: {
+    start: string;
+    end: string;
+  };
+  status: WaitlistStatus;
+  hold?: {
+    courtId: string;
+    courtName: string;
+    timeSlot: {
+      start: string;
+      end: string;
+    };
+    offeredAt: string;
+    expiresAt: string;
+  };
+  reservationId?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface WaitlistInput {
+  courtId?: string; // Omit for any court
+  date: string;
+  timeRange: {
+    start: string;
+    end: string;
+  };
+}
+
+interface ApiError {
+  error: string;
+  code?: string;
+}
+
+export async function getMyWaitlist(token: string): Promise<WaitlistEntry[]> {
+  const response = await fetch(`${API_BASE_URL}/api/members/me/waitlist`, {
+    method: "GET",
+    headers: {
+      Authorization: `Bearer ${token}`,
+      "Content-Type": "application/json",
+    },
+  });
+
+  if (!response.ok) {
+    const error: ApiError = await response.json();
+    throw new Error(error.error || "Failed to fetch waitlist");
+  }
+
+  return response.json();
+}
+
+export async function joinWaitlist(
+  entry: WaitlistInput,
+  token: string
+): Promise<WaitlistEntry> {
+  const response = await fetch(`${API_BASE_URL}/api/members/me/waitlist`, {
+    method: "POST",
+    headers: {
+      Authorization: `Bearer ${token}`,
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify(entry),
+  });
+
+  if (!response.ok) {
+    const error: ApiError = await response.json();
+    throw new Error(error.error || "Failed to join waitlist");
+  }
+
+  return response.json();
+}
+
+export async function leaveWaitlist(id: string, token: string): Promise<WaitlistEntry> {
+  const response = await fetch(`${API_BASE_URL}/api/members/me/waitlist/${id}`, {
+    method: "DELETE",
+    headers: {
+      Authorization: `Bearer ${token}`,
+      "Content-Type": "application/json",
+    },
+  });
+
+  if (!response.ok) {
+    const error: ApiError = await response.json();
+    throw new Error(error.error || "Failed to leave waitlist");
+  }
+
+  return response.json();
+}
+
+export async function bookHeldSlot(id: string, token: string): Promise<Reservation> {
+  const response = await fetch(`${API_BASE_URL}/api/members/me/waitlist/${id}/book`, {
+    method: "POST",
+    headers: {
+      Authorization: `Bearer ${token}`,
+      "Content-Type": "application/json",
+    },
+  });
+
+  if (!response.ok) {
+    const error: ApiError = await response.json();
+    throw new Error(error.error || "Failed to book held slot");
+  }
+
+  return response.json();
+}
@@ -6,7 +6,15 @@
  */
 
 import React, { createContext, useContext, useState, useEffect, useCallback } from "react";
-import { signIn, signUp, signOut, getCurrentUser, AuthResponse } from "../api/auth-api";
+import {
+  signIn,
+  signUp,
+  signOut,
+  signOutAllDevices,
+  getCurrentUser,
+  refreshSession,
+  AuthResponse,
+} from "../api/auth-api";
 
 interface AuthContextType {
   user: AuthResponse["member"] | null;
@@ -23,19 +31,70 @@ interface AuthContextType {
     role?: "player" | "coach" | "parent" | "admin";
   }) => Promise<void>;
   logout: () => Promise<void>;
+  logoutAll: () => Promise<void>;
   refreshUser: () => Promise<void>;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
 const TOKEN_KEY = "pta_auth_token";
+const REFRESH_TOKEN_KEY = "pta_refresh_token";
+const EXPIRES_AT_KEY = "pta_token_expires_at";
 const USER_KEY = "pta_user";
 
+// Refresh the access token this long before it expires
+const REFRESH_MARGIN_MS = 60 * 1000;
+
+function clearStoredAuth() {
+  localStorage.removeItem(TOKEN_KEY);
+  localStorage.removeItem(REFRESH_TOKEN_KEY);
+  localStorage.removeItem(EXPIRES_AT_KEY);
+  localStorage.removeItem(USER_KEY);
+}
+
 export function AuthProvider({ children }: { children: React.ReactNode }) {
   const [user, setUser] = useState<AuthResponse["member"] | null>(null);
   const [token, setToken] = useState<string | null>(null);
+  const [expiresAt, setExpiresAt] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(true);
 
+  const storeAuth = useCallback((response: AuthResponse) => {
+    setToken(response.token);
+    setExpiresAt(response.expiresAt);
+    setUser(response.member);
+    localStorage.setItem(TOKEN_KEY, response.token);
+    localStorage.setItem(REFRESH_TOKEN_KEY, response.refreshToken);
+    localStorage.setItem(EXPIRES_AT_KEY, response.expiresAt);
+    localStorage.setItem(USER_KEY, JSON.stringify(response.member));
+  }, []);
+
+  const clearAuth = useCallback(() => {
+    setToken(null);
+    setExpiresAt(null);
+    setUser(null);
+    clearStoredAuth();
+  }, []);
+
+  /**
+   * Swap the stored refresh token for a new access token
+   * Returns false (and clears auth state) if the session was revoked
+   */
+  const renewSession = useCallback(async (): Promise<boolean> => {
+    const storedRefreshToken = localStorage.getItem(REFRESH_TOKEN_KEY);
+    if (!storedRefreshToken) {
+      clearAuth();
+      return false;
+    }
+
+    try {
+      storeAuth(await refreshSession(storedRefreshToken));
+      return true;
+    } catch (error) {
+      clearAuth();
+      return false;
+    }
+  }, [storeAuth, clearAuth]);
+
   // Load auth state from localStorage on mount
   useEffect(() => {
     const loadAuthState = async () => {
@@ -48,14 +107,12 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
           try {
             const parsedUser = JSON.parse(storedUser);
             setToken(storedToken);
+            setExpiresAt(localStorage.getItem(EXPIRES_AT_KEY));
             setUser(parsedUser);
           } catch (parseError) {
             // Invalid JSON, clear corrupted data
             console.error("Invalid user data in localStorage:", parseError);
-            localStorage.removeItem(TOKEN_KEY);
-            localStorage.removeItem(USER_KEY);
-            setToken(null);
-            setUser(null);
+            clearAuth();
             setIsLoading(false);
             return;
           }
@@ -66,36 +123,41 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
             setUser(currentUser);
             localStorage.setItem(USER_KEY, JSON.stringify(currentUser));
           } catch (error) {
-            // Token is invalid, clear auth state
-            localStorage.removeItem(TOKEN_KEY);
-            localStorage.removeItem(USER_KEY);
-            setToken(null);
-            setUser(null);
+            // Access token expired or revoked - try the refresh token
+            await renewSession();
           }
         }
       } catch (error) {
         console.error("Error loading auth state:", error);
-        localStorage.removeItem(TOKEN_KEY);
-        localStorage.removeItem(USER_KEY);
+        clearStoredAuth();
       } finally {
         setIsLoading(false);
       }
     };
 
     loadAuthState();
-  }, []);
+  }, [clearAuth, renewSession]);
+
+  // Refresh the access token shortly before it expires
+  useEffect(() => {
+    if (!token || !expiresAt) return;
+
+    const delay = Math.max(new Date(expiresAt).getTime() - Date.now() - REFRESH_MARGIN_MS, 0);
+    const timer = setTimeout(() => {
+      renewSession();
+    }, delay);
+
+    return () => clearTimeout(timer);
+  }, [token, expiresAt, renewSession]);
 
   const handleSignIn = useCallback(async (email: string, password: string) => {
     try {
       const response = await signIn({ email, password });
-      setToken(response.token);
-      setUser(response.member);
-      localStorage.setItem(TOKEN_KEY, response.token);
-      localStorage.setItem(USER_KEY, JSON.stringify(response.member));
+      storeAuth(response);
     } catch (error) {
       throw error;
     }
-  }, []);
+  }, [storeAuth]);
 
   const handleSignUp = useCallback(
     async (data: {
@@ -108,15 +170,12 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     }) => {
       try {
         const response = await signUp(data);
-        setToken(response.token);
-        setUser(response.member);
-        localStorage.setItem(TOKEN_KEY, response.token);
-        localStorage.setItem(USER_KEY, JSON.stringify(response.member));
+        storeAuth(response);
       } catch (error) {
         throw error;
       }
     },
-    []
+    [storeAuth]
   );
 
   const handleLogout = useCallback(async () => {
@@ -127,12 +186,19 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     } catch (error) {
       console.error("Error during logout:", error);
     } finally {
-      setToken(null);
-      setUser(null);
-      localStorage.removeItem(TOKEN_KEY);
-      localStorage.removeItem(USER_KEY);
+      clearAuth();
+    }
+  }, [token, clearAuth]);
+
+  const handleLogoutAll = useCallback(async () => {
+    try {
+      if (token) {
+        await signOutAllDevices(token);
+      }
+    } finally {
+      clearAuth();
     }
-  }, [token]);
+  }, [token, clearAuth]);
 
   const refreshUser = useCallback(async () => {
     if (!token) return;
@@ -143,10 +209,10 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
       localStorage.setItem(USER_KEY, JSON.stringify(currentUser));
     } catch (error) {
       console.error("Error refreshing user:", error);
-      // If refresh fails, logout user
-      handleLogout();
+      // Access token may have expired - logs the user out if the session is gone
+      await renewSession();
     }
-  }, [token, handleLogout]);
+  }, [token, renewSession]);
 
   const value: AuthContextType = {
     user,
@@ -156,6 +222,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     signIn: handleSignIn,
     signUp: handleSignUp,
     logout: handleLogout,
+    logoutAll: handleLogoutAll,
     refreshUser,
   };
 
@@ -3,6 +3,35 @@ export interface Court {
   name: string;
   type: "clay" | "hard" | "indoor";
   available: boolean;
+  lighting?: boolean;
+  environment?: "indoor" | "outdoor";
+  schedule?: CourtSchedule;
+  retired?: boolean;
+  retiredAt?: string;
+}
+
+export interface OperatingHours {
+  open: string; // HH:mm format
+  close: string; // HH:mm format
+  slotDurationMinutes?: number;
+}
+
+export interface ScheduleOverride {
+  date: string; // YYYY-MM-DD format
+  closed?: boolean;
+  open?: string;
+  close?: string;
+  slotDurationMinutes?: number;
+  reason?: string;
+}
+
+export interface CourtSchedule {
+  slotDurationMinutes: number;
+  weeklyHours: Record<
+    "sunday" | "monday" | "tuesday" | "wednesday" | "thursday" | "friday" | "saturday",
+    OperatingHours | null
+  >;
+  overrides?: ScheduleOverride[];
 }
 
 export interface TimeSlot {
@@ -40,6 +69,8 @@ export interface ReservationRequest {
   customerEmail: string;
   customerPhone: string;
   notes?: string;
+  partners?: Array<{ memberId?: string; email?: string; name?: string }>; // Doubles partners to invite
+  splitPayment?: boolean;
 }
 
 export interface AvailableSlot {